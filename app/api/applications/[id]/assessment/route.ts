@@ -0,0 +1,75 @@
+import { createClient } from "@/lib/supabase/server";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { createRepository } from "@/lib/supabase/repository";
+import { NextResponse, type NextRequest } from "next/server";
+import { z } from "zod";
+
+const LinkAttemptSchema = z.object({
+  attempt_id: z.string().uuid(),
+});
+
+/**
+ * Attach a graded attempt to the applicant's application and copy its score
+ * across. Applicants cannot write assessment_score themselves, and only the
+ * first attempt they link counts: retaking the assessment does not replace
+ * the score, including one a reviewer has invalidated.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const supabase = await createClient();
+
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  const parsed = LinkAttemptSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json({ error: 'Invalid request', issues: parsed.error.issues }, { status: 400 });
+  }
+
+  const repo = createRepository(createAdminClient());
+
+  try {
+    const application = await repo.applications.get(id);
+    if (!application || application.applicant_id !== user.id) {
+      return NextResponse.json({ error: 'Application not found' }, { status: 404 });
+    }
+
+    const [job, attempt, linkedAttempts] = await Promise.all([
+      repo.jobOpenings.get(application.job_opening_id),
+      repo.assessmentAttempts.get(parsed.data.attempt_id),
+      repo.assessmentAttempts.listForApplication(application.id),
+    ]);
+
+    if (!attempt || attempt.user_id !== user.id) {
+      return NextResponse.json({ error: 'Attempt not found' }, { status: 404 });
+    }
+    if (attempt.status !== 'completed' || attempt.score === null) {
+      return NextResponse.json({ error: 'The assessment has not been completed' }, { status: 422 });
+    }
+    if (!job?.assessment_id || attempt.assessment_id !== job.assessment_id) {
+      return NextResponse.json({ error: 'This attempt is not for the assessment this job requires' }, { status: 422 });
+    }
+    if (attempt.job_application_id && attempt.job_application_id !== application.id) {
+      return NextResponse.json({ error: 'This attempt is already linked to another application' }, { status: 409 });
+    }
+    if (linkedAttempts.length > 0) {
+      return NextResponse.json({ error: 'This application already has an assessment result' }, { status: 409 });
+    }
+
+    await repo.assessmentAttempts.update(attempt.id, { job_application_id: application.id });
+    const updated = await repo.applications.update(application.id, {
+      assessment_score: attempt.score,
+      assessment_completed_at: attempt.completed_at ?? undefined,
+    });
+
+    return NextResponse.json({ data: updated });
+  } catch (error) {
+    console.error('Error linking assessment attempt:', error);
+    return NextResponse.json({ error: 'Failed to link assessment' }, { status: 500 });
+  }
+}
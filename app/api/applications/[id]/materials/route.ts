@@ -0,0 +1,109 @@
+import { createClient } from "@/lib/supabase/server";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { createRepository } from "@/lib/supabase/repository";
+import { hasCompanyPermission } from "@/lib/companies/permissions";
+import { NextResponse, type NextRequest } from "next/server";
+
+export const runtime = "nodejs";
+
+// Long enough to read a CV or watch a video, short enough not to be shared
+const SIGNED_LINK_SECONDS = 15 * 60;
+
+/**
+ * What the candidate submitted that lives outside the application row: the
+ * CV they applied with, their video introduction, their aptitude quiz
+ * result and files attached to screening answers. Files are in private
+ * buckets, so the hiring team gets short-lived signed links.
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const supabase = await createClient();
+
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  const admin = createAdminClient();
+  const repo = createRepository(admin);
+
+  const signedUrl = async (bucket: string, path: string) => {
+    const { data, error } = await admin.storage.from(bucket).createSignedUrl(path, SIGNED_LINK_SECONDS);
+    if (error) {
+      console.error(`Error signing ${bucket} link:`, error);
+      return null;
+    }
+    return data.signedUrl;
+  };
+
+  try {
+    const application = await repo.applications.get(id);
+    const job = application ? await repo.jobOpenings.get(application.job_opening_id) : null;
+    if (!application || !job) {
+      return NextResponse.json({ error: 'Application not found' }, { status: 404 });
+    }
+
+    const membership = await repo.companyMembers.getMembership(job.company_id, user.id);
+    if (!hasCompanyPermission(membership, 'can_view_applications')) {
+      return NextResponse.json({ error: 'Not allowed to view this application' }, { status: 403 });
+    }
+
+    // Applicants write these fields themselves, so only their own files are
+    // signed; anything pointing at someone else's is treated as missing
+    const ownsPath = (path: string) =>
+      path.startsWith(`${application.applicant_id}/`) && !path.split('/').includes('..');
+
+    // The apply flow stores the uploaded CV's document ID in resume_url;
+    // older applications may hold a link instead
+    const resume = application.resume_url;
+    const document = resume && !/^https?:\/\//.test(resume) ? await repo.documents.get(resume) : null;
+    if (document && (document.user_id !== application.applicant_id || !ownsPath(document.file_path))) {
+      return NextResponse.json({ error: 'File not found' }, { status: 404 });
+    }
+    const screeningAnswers = (application.screening_answers ?? []).filter((answer) => answer.file_url);
+    if (screeningAnswers.some((answer) => !ownsPath(answer.file_url!))) {
+      return NextResponse.json({ error: 'File not found' }, { status: 404 });
+    }
+    const cv = document
+      ? {
+        filename: document.original_filename,
+        mime_type: document.mime_type,
+        url: await signedUrl('documents', document.file_path),
+      }
+      : resume ? { filename: 'CV', mime_type: null, url: resume } : null;
+
+    const [video, quiz] = await Promise.all([
+      repo.videoIntroductions.getLatestForUser(application.applicant_id),
+      repo.quizAttempts.getLatestCompletedForUser(application.applicant_id),
+    ]);
+
+    const screeningFiles: Record<string, string> = {};
+    for (const answer of screeningAnswers) {
+      const url = await signedUrl('documents', answer.file_url!);
+      if (url) screeningFiles[answer.question_id] = url;
+    }
+
+    return NextResponse.json({
+      data: {
+        cv,
+        video: video
+          ? {
+            url: await signedUrl('videos', video.file_path),
+            duration_seconds: video.duration_seconds,
+            recorded_at: video.created_at,
+          }
+          : null,
+        quiz: quiz
+          ? { score: quiz.score, passed: quiz.passed, completed_at: quiz.completed_at }
+          : null,
+        screening_files: screeningFiles,
+      },
+    });
+  } catch (error) {
+    console.error('Error loading application materials:', error);
+    return NextResponse.json({ error: 'Failed to load application materials' }, { status: 500 });
+  }
+}
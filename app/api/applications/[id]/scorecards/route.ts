@@ -0,0 +1,138 @@
+import { createClient } from "@/lib/supabase/server";
+import { createAdminRepository } from "@/lib/supabase/admin";
+import { NextResponse, type NextRequest } from "next/server";
+import { canSubmitScorecard } from "@/lib/interviews/access";
+import {
+  buildScorecardRatings,
+  getRatingScale,
+  getScorecardCompetencies,
+  isScorecardComplete,
+} from "@/lib/interviews/scorecards";
+import { SaveScorecardSchema } from "@/lib/interviews/validation";
+
+export const runtime = "nodejs";
+
+/**
+ * Save the signed-in interviewer's scorecard for an application, as a
+ * draft or submitted. Submitting is final.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const supabase = await createClient();
+
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  const parsed = SaveScorecardSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json({ error: 'Invalid request', issues: parsed.error.issues }, { status: 400 });
+  }
+  const input = parsed.data;
+
+  // Panelists outside the hiring team cannot read the application or its interviews
+  const repo = createAdminRepository();
+
+  try {
+    const application = await repo.applications.get(id);
+    const job = application ? await repo.jobOpenings.get(application.job_opening_id) : null;
+    if (!application || !job) {
+      return NextResponse.json({ error: 'Application not found' }, { status: 404 });
+    }
+
+    const interviews = await repo.interviews.listForApplications([application.id]);
+    if (!(await canSubmitScorecard(repo, job.company_id, interviews, user.id))) {
+      return NextResponse.json({ error: 'Not allowed to give feedback on this application' }, { status: 403 });
+    }
+    if (input.interview_id && !interviews.some((interview) => interview.id === input.interview_id)) {
+      return NextResponse.json({ error: 'The interview is not for this application' }, { status: 400 });
+    }
+
+    const [template, existing] = await Promise.all([
+      repo.scorecardTemplates.getForJob(job.id),
+      repo.interviewScorecards.getForInterviewer(application.id, user.id),
+    ]);
+    if (existing?.status === 'submitted') {
+      return NextResponse.json({ error: 'You have already submitted your scorecard' }, { status: 409 });
+    }
+
+    // Drafts pick up template changes the next time they are saved
+    const ratingScale = getRatingScale(template);
+    const values = {
+      interview_id: input.interview_id ?? existing?.interview_id ?? null,
+      rating_scale: ratingScale,
+      ratings: buildScorecardRatings(getScorecardCompetencies(template), ratingScale, input.scores),
+      recommendation: input.recommendation,
+      summary: input.summary || null,
+      status: input.submit ? 'submitted' as const : 'draft' as const,
+      submitted_at: input.submit ? new Date().toISOString() : null,
+    };
+
+    if (input.submit && !isScorecardComplete(values)) {
+      return NextResponse.json(
+        { error: 'Score every competency and make a recommendation before submitting' },
+        { status: 422 }
+      );
+    }
+
+    const scorecard = existing
+      ? await repo.interviewScorecards.updateDraft(existing.id, values)
+      : await repo.interviewScorecards.create({ ...values, application_id: application.id, interviewer_id: user.id });
+    if (!scorecard) {
+      return NextResponse.json({ error: 'You have already submitted your scorecard' }, { status: 409 });
+    }
+
+    return NextResponse.json({ data: scorecard });
+  } catch (error) {
+    console.error('Error saving scorecard:', error);
+    return NextResponse.json({ error: 'Failed to save scorecard' }, { status: 500 });
+  }
+}
+
+/**
+ * The scorecard the signed-in user fills in for the application: the job's
+ * competencies and rating scale, and whether they may give feedback.
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const supabase = await createClient();
+
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  // Panelists outside the hiring team cannot read the job's template
+  const repo = createAdminRepository();
+
+  try {
+    const application = await repo.applications.get(id);
+    const job = application ? await repo.jobOpenings.get(application.job_opening_id) : null;
+    if (!application || !job) {
+      return NextResponse.json({ error: 'Application not found' }, { status: 404 });
+    }
+
+    const interviews = await repo.interviews.listForApplications([application.id]);
+    if (!(await canSubmitScorecard(repo, job.company_id, interviews, user.id))) {
+      return NextResponse.json({ error: 'Not allowed to give feedback on this application' }, { status: 403 });
+    }
+
+    const template = await repo.scorecardTemplates.getForJob(job.id);
+    return NextResponse.json({
+      data: {
+        rating_scale: getRatingScale(template),
+        competencies: getScorecardCompetencies(template),
+      },
+    });
+  } catch (error) {
+    console.error('Error loading scorecard template:', error);
+    return NextResponse.json({ error: 'Failed to load scorecard' }, { status: 500 });
+  }
+}
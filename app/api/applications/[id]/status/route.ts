@@ -0,0 +1,120 @@
+import { createClient } from "@/lib/supabase/server";
+import { after, NextResponse, type NextRequest } from "next/server";
+import { z } from "zod";
+import {
+  ApplicationTransitionError,
+  planTransition,
+  type TransitionActor,
+} from "@/lib/applications/transitions";
+import { PIPELINE_STAGES } from "@/lib/applications/pipeline";
+import { createRepository, HIRING_ROLES } from "@/lib/supabase/repository";
+import { createAdminClient, createAdminRepository } from "@/lib/supabase/admin";
+import { sendApplicationStatusEmail } from "@/lib/email/application-emails";
+import type { ApplicationStatus } from "@/lib/types/enhanced-database";
+
+const StatusChangeSchema = z.object({
+  status: z.enum(PIPELINE_STAGES.map((stage) => stage.status) as [ApplicationStatus, ...ApplicationStatus[]]),
+  notes: z.string().max(2000).optional(),
+  rejection_reason: z.string().max(2000).optional(),
+  // Include the rejection reason in the email to the candidate
+  share_rejection_reason: z.boolean().optional(),
+});
+
+export const runtime = "nodejs";
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const supabase = await createClient();
+
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  const parsed = StatusChangeSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json({ error: 'Invalid request', issues: parsed.error.issues }, { status: 400 });
+  }
+
+  const repo = createRepository(supabase);
+
+  let application;
+  let actor: TransitionActor | null = null;
+  try {
+    application = await repo.applications.get(id);
+    if (!application) {
+      return NextResponse.json({ error: 'Application not found' }, { status: 404 });
+    }
+
+    if (application.applicant_id === user.id) {
+      actor = 'applicant';
+    } else {
+      const job = await repo.jobOpenings.get(application.job_opening_id);
+      const membership = job ? await repo.companyMembers.getMembership(job.company_id, user.id) : null;
+      if (membership && HIRING_ROLES.includes(membership.role)) {
+        actor = 'hiring_team';
+      }
+    }
+  } catch (error) {
+    console.error('Error loading application for status change:', error);
+    return NextResponse.json({ error: 'Failed to load application' }, { status: 500 });
+  }
+
+  if (!actor) {
+    return NextResponse.json({ error: 'Not allowed to change this application' }, { status: 403 });
+  }
+
+  try {
+    const update = planTransition(application, {
+      to: parsed.data.status,
+      actor,
+      changedBy: user.id,
+      notes: parsed.data.notes,
+      rejectionReason: parsed.data.rejection_reason,
+    });
+
+    // Applicants cannot update their application under RLS, so a withdrawal
+    // is written with the service role once planTransition has allowed it.
+    // Guard against a concurrent move: only apply if the status is unchanged.
+    const writer = actor === 'applicant' ? createAdminClient() : supabase;
+    const { data: updated, error: updateError } = await writer
+      .from('job_applications_enhanced')
+      .update(update)
+      .eq('id', id)
+      .eq('status', application.status)
+      .select()
+      .maybeSingle();
+
+    if (updateError) throw updateError;
+    if (!updated) {
+      return NextResponse.json({ error: 'Application was changed by someone else, reload and try again' }, { status: 409 });
+    }
+
+    if (actor === 'hiring_team') {
+      after(async () => {
+        try {
+          // The candidate's profile is not readable by the hiring team
+          await sendApplicationStatusEmail(createAdminRepository(), updated, {
+            shareRejectionReason: parsed.data.share_rejection_reason,
+          });
+        } catch (error) {
+          console.error('Error sending application status email:', error);
+        }
+      });
+    }
+
+    return NextResponse.json({ data: updated });
+  } catch (error) {
+    if (error instanceof ApplicationTransitionError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code, from: error.from, to: error.to },
+        { status: 422 }
+      );
+    }
+    console.error('Error changing application status:', error);
+    return NextResponse.json({ error: 'Failed to change application status' }, { status: 500 });
+  }
+}
@@ -0,0 +1,49 @@
+import { createClient } from "@/lib/supabase/server";
+import { createAdminRepository } from "@/lib/supabase/admin";
+import { after, NextResponse, type NextRequest } from "next/server";
+import { sendApplicationSubmittedEmails } from "@/lib/email/application-emails";
+
+export const runtime = "nodejs";
+
+/**
+ * Called by the apply page once the application is saved: emails the
+ * candidate a confirmation and the hiring team about the new applicant.
+ * Each email is sent once however often this is called.
+ */
+export async function POST(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const supabase = await createClient();
+
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  // Emails go to the hiring team too, whose profiles the applicant cannot read
+  const repo = createAdminRepository();
+
+  let application;
+  try {
+    application = await repo.applications.get(id);
+  } catch (error) {
+    console.error('Error loading submitted application:', error);
+    return NextResponse.json({ error: 'Failed to load application' }, { status: 500 });
+  }
+
+  if (!application || application.applicant_id !== user.id) {
+    return NextResponse.json({ error: 'Application not found' }, { status: 404 });
+  }
+
+  after(async () => {
+    try {
+      await sendApplicationSubmittedEmails(repo, application);
+    } catch (error) {
+      console.error('Error sending application emails:', error);
+    }
+  });
+
+  return NextResponse.json({ data: { id: application.id } }, { status: 202 });
+}
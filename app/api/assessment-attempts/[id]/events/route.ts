@@ -0,0 +1,62 @@
+import { createClient } from "@/lib/supabase/server";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { createRepository } from "@/lib/supabase/repository";
+import { NextResponse, type NextRequest } from "next/server";
+import { z } from "zod";
+import { CLIENT_INTEGRITY_EVENT_TYPES, MAX_INTEGRITY_EVENTS } from "@/lib/assessments/integrity";
+
+const EventsSchema = z.object({
+  events: z.array(z.object({
+    type: z.enum(CLIENT_INTEGRITY_EVENT_TYPES),
+    occurred_at: z.string().datetime(),
+    question_id: z.string().min(1).max(100).optional(),
+    value: z.number().min(0).max(86400).optional(),
+  })).min(1).max(100),
+});
+
+/**
+ * Append browser-reported integrity events to an attempt in progress. The
+ * runner sends these in batches, one request at a time.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const supabase = await createClient();
+
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  const parsed = EventsSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json({ error: 'Invalid request', issues: parsed.error.issues }, { status: 400 });
+  }
+
+  const admin = createAdminClient();
+
+  try {
+    const attempt = await createRepository(admin).assessmentAttempts.get(id);
+    if (!attempt || attempt.user_id !== user.id) {
+      return NextResponse.json({ error: 'Attempt not found' }, { status: 404 });
+    }
+    if (attempt.status !== 'in_progress') {
+      return NextResponse.json({ error: 'This attempt has already been submitted', code: 'attempt_closed' }, { status: 409 });
+    }
+
+    const events = [...(attempt.integrity_events ?? []), ...parsed.data.events].slice(0, MAX_INTEGRITY_EVENTS);
+    const { error } = await admin
+      .from('assessment_attempts')
+      .update({ integrity_events: events })
+      .eq('id', id)
+      .eq('status', 'in_progress');
+
+    if (error) throw error;
+    return NextResponse.json({ data: { recorded: events.length } });
+  } catch (error) {
+    console.error('Error recording integrity events:', error);
+    return NextResponse.json({ error: 'Failed to record events' }, { status: 500 });
+  }
+}
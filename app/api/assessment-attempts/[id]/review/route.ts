@@ -0,0 +1,95 @@
+import { createClient } from "@/lib/supabase/server";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { createRepository } from "@/lib/supabase/repository";
+import { NextResponse, type NextRequest } from "next/server";
+import { z } from "zod";
+import { hasCompanyPermission } from "@/lib/companies/permissions";
+import { summarizeAttempts } from "@/lib/assessments/grading";
+import {
+  AttemptReviewError,
+  SCORED_ATTEMPT_STATUSES,
+  planAttemptReview,
+} from "@/lib/assessments/integrity";
+
+const ReviewSchema = z.object({
+  action: z.enum(['flag', 'invalidate', 'clear']),
+  notes: z.string().max(2000).optional(),
+});
+
+/**
+ * Record a recruiter's integrity decision on an application's assessment
+ * attempt. An invalidated attempt no longer counts towards the application's
+ * assessment score or the assessment's average.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const supabase = await createClient();
+
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  const parsed = ReviewSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json({ error: 'Invalid request', issues: parsed.error.issues }, { status: 400 });
+  }
+
+  const admin = createAdminClient();
+  const repo = createRepository(admin);
+
+  let attempt;
+  let application;
+  try {
+    attempt = await repo.assessmentAttempts.get(id);
+    application = attempt?.job_application_id ? await repo.applications.get(attempt.job_application_id) : null;
+    if (!attempt || !application) {
+      return NextResponse.json({ error: 'Attempt not found' }, { status: 404 });
+    }
+
+    const job = await repo.jobOpenings.get(application.job_opening_id);
+    const membership = job ? await repo.companyMembers.getMembership(job.company_id, user.id) : null;
+    if (!hasCompanyPermission(membership, 'can_manage_applications')) {
+      return NextResponse.json({ error: 'Not allowed to review this attempt' }, { status: 403 });
+    }
+  } catch (error) {
+    console.error('Error loading attempt for review:', error);
+    return NextResponse.json({ error: 'Failed to load attempt' }, { status: 500 });
+  }
+
+  try {
+    const review = planAttemptReview(attempt, parsed.data.action, user.id, parsed.data.notes);
+
+    // Guard against a concurrent review: only apply if the status is unchanged
+    const { data: updated, error: updateError } = await admin
+      .from('assessment_attempts')
+      .update(review)
+      .eq('id', id)
+      .eq('status', attempt.status)
+      .select()
+      .maybeSingle();
+
+    if (updateError) throw updateError;
+    if (!updated) {
+      return NextResponse.json({ error: 'Attempt was reviewed by someone else, reload and try again' }, { status: 409 });
+    }
+
+    const counts = SCORED_ATTEMPT_STATUSES.includes(updated.status);
+    if (counts !== SCORED_ATTEMPT_STATUSES.includes(attempt.status)) {
+      await repo.applications.update(application.id, { assessment_score: counts ? updated.score : null });
+      const scores = await repo.assessmentAttempts.listScores(updated.assessment_id, SCORED_ATTEMPT_STATUSES);
+      await repo.assessments.update(updated.assessment_id, summarizeAttempts(scores));
+    }
+
+    return NextResponse.json({ data: updated });
+  } catch (error) {
+    if (error instanceof AttemptReviewError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: 422 });
+    }
+    console.error('Error reviewing assessment attempt:', error);
+    return NextResponse.json({ error: 'Failed to review attempt' }, { status: 500 });
+  }
+}
@@ -0,0 +1,77 @@
+import { createClient } from "@/lib/supabase/server";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { createRepository } from "@/lib/supabase/repository";
+import { NextResponse, type NextRequest } from "next/server";
+import { z } from "zod";
+import { getAttemptAssessment } from "@/lib/assessments/access";
+import { AssessmentSubmissionError, assertAttemptOpen } from "@/lib/assessments/grading";
+import { CodeRunLimitError, runTestCases, startUserCodeRun } from "@/lib/assessments/code-runner";
+import { MAX_CODE_LENGTH } from "@/lib/assessments/coding";
+
+export const runtime = "nodejs";
+
+const RunSchema = z.object({
+  question_id: z.string().min(1),
+  code: z.string().max(MAX_CODE_LENGTH),
+});
+
+/**
+ * Run a coding answer against the question's visible example tests while
+ * the attempt is in progress. Nothing is recorded; hidden tests only run on
+ * submit. Each user may have one run going at a time, within a per-minute
+ * allowance.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const supabase = await createClient();
+
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  const parsed = RunSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json({ error: 'Invalid request', issues: parsed.error.issues }, { status: 400 });
+  }
+
+  const admin = createAdminClient();
+
+  try {
+    const attempt = await createRepository(admin).assessmentAttempts.get(id);
+    if (!attempt || attempt.user_id !== user.id) {
+      return NextResponse.json({ error: 'Attempt not found' }, { status: 404 });
+    }
+
+    const assessment = await getAttemptAssessment(admin, attempt);
+    const question = assessment?.questions.find((q) => q.id === parsed.data.question_id);
+    if (!assessment || question?.type !== 'coding') {
+      return NextResponse.json({ error: 'Coding question not found' }, { status: 404 });
+    }
+
+    assertAttemptOpen(assessment, attempt);
+
+    const examples = (question.test_cases ?? []).filter((testCase) => !testCase.hidden);
+    const finishRun = startUserCodeRun(user.id);
+    let results;
+    try {
+      results = await runTestCases(parsed.data.code, question.language ?? 'javascript', examples);
+    } finally {
+      finishRun();
+    }
+
+    return NextResponse.json({ data: results });
+  } catch (error) {
+    if (error instanceof AssessmentSubmissionError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: 422 });
+    }
+    if (error instanceof CodeRunLimitError) {
+      return NextResponse.json({ error: error.message }, { status: 429 });
+    }
+    console.error('Error running coding answer:', error);
+    return NextResponse.json({ error: 'Failed to run code' }, { status: 500 });
+  }
+}
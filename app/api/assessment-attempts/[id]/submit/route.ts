@@ -0,0 +1,150 @@
+import { createClient } from "@/lib/supabase/server";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { createRepository } from "@/lib/supabase/repository";
+import { NextResponse, type NextRequest } from "next/server";
+import { z } from "zod";
+import {
+  AssessmentSubmissionError,
+  assertAttemptOpen,
+  gradeSubmission,
+  summarizeAttempts,
+} from "@/lib/assessments/grading";
+import { getAttemptAssessment } from "@/lib/assessments/access";
+import { SCORED_ATTEMPT_STATUSES, assessIntegrity } from "@/lib/assessments/integrity";
+import { CodeRunLimitError, runCodingQuestion, startUserCodeRun } from "@/lib/assessments/code-runner";
+import { MAX_CODE_LENGTH } from "@/lib/assessments/coding";
+import type { CodingTestResult } from "@/lib/types/enhanced-database";
+
+// Coding answers are run in child processes
+export const runtime = "nodejs";
+
+const SubmissionSchema = z.object({
+  answers: z.array(z.object({
+    question_id: z.string().min(1),
+    answer: z.union([z.string().max(MAX_CODE_LENGTH), z.number(), z.boolean()]),
+    time_taken_seconds: z.number().min(0).optional(),
+  })).max(200),
+});
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const supabase = await createClient();
+
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  const parsed = SubmissionSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json({ error: 'Invalid request', issues: parsed.error.issues }, { status: 400 });
+  }
+
+  const admin = createAdminClient();
+  const repo = createRepository(admin);
+
+  let attempt;
+  let assessment;
+  try {
+    attempt = await repo.assessmentAttempts.get(id);
+    if (!attempt || attempt.user_id !== user.id) {
+      return NextResponse.json({ error: 'Attempt not found' }, { status: 404 });
+    }
+    assessment = await getAttemptAssessment(admin, attempt);
+    if (!assessment) {
+      return NextResponse.json({ error: 'Assessment not found' }, { status: 404 });
+    }
+  } catch (error) {
+    console.error('Error loading assessment attempt:', error);
+    return NextResponse.json({ error: 'Failed to load attempt' }, { status: 500 });
+  }
+
+  // Measure time up to the moment of submission, not until the tests finish
+  const submittedAt = new Date();
+
+  let graded;
+  try {
+    assertAttemptOpen(assessment, attempt, submittedAt);
+
+    // Coding answers run against every test case, including hidden ones
+    const codingResults: Record<string, CodingTestResult[]> = {};
+    const codingAnswers = assessment.questions.flatMap((question) => {
+      if (question.type !== 'coding') return [];
+      const code = parsed.data.answers.find((answer) => answer.question_id === question.id)?.answer;
+      return typeof code === 'string' && code.trim() ? [{ question, code }] : [];
+    });
+    if (codingAnswers.length > 0) {
+      const finishRun = startUserCodeRun(user.id);
+      try {
+        for (const { question, code } of codingAnswers) {
+          codingResults[question.id] = await runCodingQuestion(question, code);
+        }
+      } finally {
+        finishRun();
+      }
+    }
+
+    graded = gradeSubmission(assessment, attempt, parsed.data.answers, submittedAt, codingResults);
+  } catch (error) {
+    if (error instanceof CodeRunLimitError) {
+      return NextResponse.json({ error: error.message }, { status: 429 });
+    }
+    if (!(error instanceof AssessmentSubmissionError)) throw error;
+
+    if (error.update) {
+      const { error: closeError } = await admin
+        .from('assessment_attempts')
+        .update(error.update)
+        .eq('id', id)
+        .eq('status', 'in_progress');
+      if (closeError) console.error('Error closing expired attempt:', closeError);
+    }
+    return NextResponse.json({ error: error.message, code: error.code }, { status: 422 });
+  }
+
+  try {
+    const integrity = assessIntegrity(
+      assessment.questions,
+      graded.update.answers ?? [],
+      attempt.integrity_events ?? [],
+      submittedAt.toISOString()
+    );
+
+    // Only the first submission counts: the status guard stops a double submit from regrading
+    const { data: updated, error: updateError } = await admin
+      .from('assessment_attempts')
+      .update({ ...graded.update, ...integrity })
+      .eq('id', id)
+      .eq('status', 'in_progress')
+      .select()
+      .maybeSingle();
+
+    if (updateError) throw updateError;
+    if (!updated) {
+      return NextResponse.json({ error: 'This attempt has already been submitted', code: 'attempt_closed' }, { status: 409 });
+    }
+
+    try {
+      const scores = await repo.assessmentAttempts.listScores(assessment.id, SCORED_ATTEMPT_STATUSES);
+      await repo.assessments.update(assessment.id, summarizeAttempts(scores));
+    } catch (statsError) {
+      console.error('Error updating assessment statistics:', statsError);
+    }
+
+    return NextResponse.json({
+      data: {
+        attempt_id: updated.id,
+        score: graded.score,
+        passed: graded.passed,
+        completed_at: updated.completed_at,
+        time_taken_minutes: updated.time_taken_minutes,
+      },
+    });
+  } catch (error) {
+    console.error('Error grading assessment attempt:', error);
+    return NextResponse.json({ error: 'Failed to submit assessment' }, { status: 500 });
+  }
+}
@@ -0,0 +1,47 @@
+import { createClient } from "@/lib/supabase/server";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { createRepository } from "@/lib/supabase/repository";
+import { NextResponse, type NextRequest } from "next/server";
+import { canTakeAssessment } from "@/lib/assessments/access";
+import { toCandidateAssessment } from "@/lib/assessments/grading";
+
+/**
+ * Start an attempt. started_at comes from the database default, so the time
+ * limit is measured from the server's clock rather than the browser's.
+ */
+export async function POST(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const supabase = await createClient();
+
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  const admin = createAdminClient();
+  const repo = createRepository(admin);
+
+  try {
+    const assessment = await repo.assessments.get(id);
+    if (!assessment || !(await canTakeAssessment(admin, assessment, user.id))) {
+      return NextResponse.json({ error: 'Assessment not found' }, { status: 404 });
+    }
+
+    const attempt = await repo.assessmentAttempts.create({
+      assessment_id: assessment.id,
+      user_id: user.id,
+      answers: [],
+      status: 'in_progress',
+    });
+
+    return NextResponse.json({
+      data: { attempt, assessment: toCandidateAssessment(assessment) },
+    });
+  } catch (error) {
+    console.error('Error starting assessment attempt:', error);
+    return NextResponse.json({ error: 'Failed to start assessment' }, { status: 500 });
+  }
+}
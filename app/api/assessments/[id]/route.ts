@@ -0,0 +1,33 @@
+import { createClient } from "@/lib/supabase/server";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { createRepository } from "@/lib/supabase/repository";
+import { NextResponse, type NextRequest } from "next/server";
+import { canTakeAssessment } from "@/lib/assessments/access";
+import { toCandidateAssessment } from "@/lib/assessments/grading";
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const supabase = await createClient();
+
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  const admin = createAdminClient();
+
+  try {
+    const assessment = await createRepository(admin).assessments.get(id);
+    if (!assessment || !(await canTakeAssessment(admin, assessment, user.id))) {
+      return NextResponse.json({ error: 'Assessment not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ data: toCandidateAssessment(assessment) });
+  } catch (error) {
+    console.error('Error loading assessment:', error);
+    return NextResponse.json({ error: 'Failed to load assessment' }, { status: 500 });
+  }
+}
@@ -0,0 +1,28 @@
+import { createClient } from "@/lib/supabase/server";
+import { createAdminRepository } from "@/lib/supabase/admin";
+import { NextResponse } from "next/server";
+
+/**
+ * The public assessment library, without questions, for attaching to jobs.
+ */
+export async function GET() {
+  const supabase = await createClient();
+
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  try {
+    const assessments = await createAdminRepository().assessments.listPublic();
+    return NextResponse.json({
+      data: assessments.map(({ questions, ...assessment }) => ({
+        ...assessment,
+        question_count: questions.length,
+      })),
+    });
+  } catch (error) {
+    console.error('Error loading public assessments:', error);
+    return NextResponse.json({ error: 'Failed to load assessments' }, { status: 500 });
+  }
+}
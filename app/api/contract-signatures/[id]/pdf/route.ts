@@ -0,0 +1,67 @@
+import { createClient } from "@/lib/supabase/server";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { createRepository } from "@/lib/supabase/repository";
+import { NextResponse, type NextRequest } from "next/server";
+import { hasCompanyPermission } from "@/lib/companies/permissions";
+import { getContractPdfFilename, loadContractPdf, saveContractPdf } from "@/lib/contracts/pdf";
+
+export const runtime = "nodejs";
+
+/**
+ * Download a fully signed contract as PDF, for the candidate who signed it
+ * or the company's hiring team. The PDF is normally stored when the last
+ * signature is added; it is rendered here if that has not happened yet.
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const supabase = await createClient();
+
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  const admin = createAdminClient();
+  const repo = createRepository(admin);
+
+  try {
+    const signature = await repo.contractSignatures.get(id);
+    if (!signature) {
+      return NextResponse.json({ error: 'Contract not found' }, { status: 404 });
+    }
+
+    if (signature.employee_id !== user.id) {
+      const membership = signature.company_id
+        ? await repo.companyMembers.getMembership(signature.company_id, user.id)
+        : null;
+      if (!hasCompanyPermission(membership, 'can_view_applications') && !hasCompanyPermission(membership, 'can_sign_contracts')) {
+        return NextResponse.json({ error: 'Contract not found' }, { status: 404 });
+      }
+    }
+
+    const stored = await saveContractPdf(admin, signature);
+    if (!stored) {
+      return NextResponse.json({ error: 'This contract has not been signed by everyone yet' }, { status: 422 });
+    }
+
+    const pdf = await loadContractPdf(admin, stored);
+    if (!pdf) {
+      console.error(`Stored PDF for contract ${signature.id} does not match its hash`);
+      return NextResponse.json({ error: 'The stored contract PDF failed its integrity check' }, { status: 500 });
+    }
+
+    return new NextResponse(new Uint8Array(pdf), {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="${getContractPdfFilename(signature)}"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    console.error('Error loading contract PDF:', error);
+    return NextResponse.json({ error: 'Failed to load the contract PDF' }, { status: 500 });
+  }
+}
@@ -0,0 +1,123 @@
+import { createClient } from "@/lib/supabase/server";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { createRepository } from "@/lib/supabase/repository";
+import { after, NextResponse, type NextRequest } from "next/server";
+import { sendContractToSignEmail } from "@/lib/contracts/emails";
+import { saveContractPdf } from "@/lib/contracts/pdf";
+import { getAwaitingParty, isPastExpiry, type SigningParty } from "@/lib/contracts/signatures";
+import { buildAuditEvent, buildSignatureData, canSignContracts, getSignerIp } from "@/lib/contracts/signing";
+import { SignatureSchema } from "@/lib/contracts/validation";
+
+export const runtime = "nodejs";
+
+/**
+ * Sign a contract that has already been issued: the candidate signs as the
+ * employee, a member who can sign contracts signs for the company. Each
+ * party signs in the contract's signing order, before it expires.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const supabase = await createClient();
+
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  const parsed = SignatureSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json({ error: 'Invalid request', issues: parsed.error.issues }, { status: 400 });
+  }
+
+  const admin = createAdminClient();
+  const repo = createRepository(admin);
+
+  try {
+    const signature = await repo.contractSignatures.get(id);
+    if (!signature) {
+      return NextResponse.json({ error: 'Contract not found' }, { status: 404 });
+    }
+
+    let party: SigningParty;
+    if (signature.employee_id === user.id) {
+      party = 'employee';
+    } else if (signature.company_id && await canSignContracts(repo, signature.company_id, user.id)) {
+      party = 'employer';
+    } else {
+      return NextResponse.json({ error: 'Not allowed to sign this contract' }, { status: 403 });
+    }
+
+    if (signature.status === 'voided' || signature.status === 'expired' || isPastExpiry(signature)) {
+      return NextResponse.json({ error: 'This contract can no longer be signed' }, { status: 422 });
+    }
+    const signedAlready = party === 'employee' ? !!signature.employee_signed_at : !!signature.employer_signed_at;
+    if (signedAlready) {
+      return NextResponse.json({ error: 'This contract has already been signed' }, { status: 409 });
+    }
+    if (getAwaitingParty(signature) !== party) {
+      return NextResponse.json(
+        { error: party === 'employer' ? 'The candidate has to sign this contract first' : 'The company has to sign this contract first' },
+        { status: 422 }
+      );
+    }
+    if (parsed.data.document_hash !== signature.document_hash) {
+      return NextResponse.json(
+        { error: 'This contract does not match the copy you were shown. Reload the page and review it again.' },
+        { status: 409 }
+      );
+    }
+
+    const signedAt = new Date().toISOString();
+    const signatureData = await buildSignatureData(repo, user.id, parsed.data.full_name, parsed.data.signature, signedAt);
+    if (!signatureData) {
+      return NextResponse.json({ error: 'The signature image could not be read. Please sign again.' }, { status: 422 });
+    }
+    // Record the hash the signer's browser sent, so /verify has a value taken at signing
+    const audit_trail = [
+      ...signature.audit_trail,
+      buildAuditEvent(
+        party === 'employee' ? 'employee_signed' : 'employer_signed',
+        { document_hash: parsed.data.document_hash },
+        user.id,
+        request,
+        signedAt
+      ),
+    ];
+
+    const updated = await repo.contractSignatures.update(signature.id, party === 'employee'
+      ? {
+          employee_signature_data: signatureData,
+          employee_signed_at: signedAt,
+          signed_via_ip: getSignerIp(request.headers),
+          signed_via_user_agent: request.headers.get('user-agent'),
+          audit_trail,
+        }
+      : {
+          employer_representative_id: user.id,
+          employer_signature_data: signatureData,
+          employer_signed_at: signedAt,
+          audit_trail,
+        });
+
+    after(async () => {
+      try {
+        await sendContractToSignEmail(repo, updated);
+      } catch (error) {
+        console.error('Error sending contract email:', error);
+      }
+      try {
+        await saveContractPdf(admin, updated);
+      } catch (error) {
+        console.error('Error saving contract PDF:', error);
+      }
+    });
+
+    return NextResponse.json({ data: updated });
+  } catch (error) {
+    console.error('Error signing contract:', error);
+    return NextResponse.json({ error: 'Failed to sign contract' }, { status: 500 });
+  }
+}
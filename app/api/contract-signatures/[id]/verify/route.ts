@@ -0,0 +1,58 @@
+import { createAdminRepository } from "@/lib/supabase/admin";
+import { NextResponse, type NextRequest } from "next/server";
+import { verifyDocumentHash } from "@/lib/contracts/signatures";
+
+export const runtime = "nodejs";
+
+/**
+ * Prove a signed contract has not been altered: the stored text is hashed
+ * again and compared with the hashes recorded in the audit trail when it
+ * was issued and signed. Pass ?hash= to also check a copy's hash (e.g. from
+ * a PDF) against the record.
+ *
+ * Public, so whoever holds the contract can check it; only the signing
+ * record is returned, never the text.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  if (!/^[0-9a-f-]{36}$/i.test(id)) {
+    return NextResponse.json({ error: 'Contract not found' }, { status: 404 });
+  }
+
+  const repo = createAdminRepository();
+
+  try {
+    const signature = await repo.contractSignatures.get(id);
+    if (!signature) {
+      return NextResponse.json({ error: 'Contract not found' }, { status: 404 });
+    }
+
+    const { valid, computed_hash, signed_hash } = await verifyDocumentHash(signature);
+    const copyHash = request.nextUrl.searchParams.get('hash');
+
+    return NextResponse.json({
+      data: {
+        id: signature.id,
+        title: signature.title,
+        status: signature.status,
+        valid,
+        document_hash: signature.document_hash,
+        computed_hash,
+        signed_hash,
+        matches_copy: copyHash === null || signed_hash === null ? null : copyHash.trim().toLowerCase() === signed_hash,
+        employee_name: signature.employee_signature_data?.full_name ?? null,
+        employee_signed_at: signature.employee_signed_at,
+        employer_name: signature.employer_signature_data?.full_name ?? null,
+        employer_signed_at: signature.employer_signed_at,
+        fully_executed_at: signature.fully_executed_at,
+        voided_at: signature.voided_at,
+      },
+    });
+  } catch (error) {
+    console.error('Error verifying contract:', error);
+    return NextResponse.json({ error: 'Failed to verify contract' }, { status: 500 });
+  }
+}
@@ -0,0 +1,56 @@
+import { createClient } from "@/lib/supabase/server";
+import { createAdminRepository } from "@/lib/supabase/admin";
+import { NextResponse, type NextRequest } from "next/server";
+import { buildAuditEvent, canSignContracts } from "@/lib/contracts/signing";
+import { VoidContractSchema } from "@/lib/contracts/validation";
+
+export const runtime = "nodejs";
+
+/**
+ * Withdraw a company contract that is not fully signed yet. Voided
+ * contracts stay on record but can no longer be signed.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const supabase = await createClient();
+
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  const parsed = VoidContractSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json({ error: 'Invalid request', issues: parsed.error.issues }, { status: 400 });
+  }
+
+  const repo = createAdminRepository();
+
+  try {
+    const signature = await repo.contractSignatures.get(id);
+    if (!signature || !signature.company_id) {
+      return NextResponse.json({ error: 'Contract not found' }, { status: 404 });
+    }
+    if (!await canSignContracts(repo, signature.company_id, user.id)) {
+      return NextResponse.json({ error: 'Not allowed to void contracts for this company' }, { status: 403 });
+    }
+    if (signature.status !== 'pending' && signature.status !== 'partially_signed') {
+      return NextResponse.json({ error: 'Only contracts that are still being signed can be voided' }, { status: 422 });
+    }
+
+    const voidedAt = new Date().toISOString();
+    const updated = await repo.contractSignatures.update(signature.id, {
+      voided_at: voidedAt,
+      void_reason: parsed.data.reason,
+      audit_trail: [...signature.audit_trail, buildAuditEvent('voided', signature, user.id, request, voidedAt)],
+    });
+
+    return NextResponse.json({ data: updated });
+  } catch (error) {
+    console.error('Error voiding contract:', error);
+    return NextResponse.json({ error: 'Failed to void contract' }, { status: 500 });
+  }
+}
@@ -0,0 +1,102 @@
+import { createClient } from "@/lib/supabase/server";
+import { createAdminRepository } from "@/lib/supabase/admin";
+import { after, NextResponse, type NextRequest } from "next/server";
+import { isTerminalStatus } from "@/lib/applications/transitions";
+import { sendContractToSignEmail } from "@/lib/contracts/emails";
+import { hashDocument } from "@/lib/contracts/signatures";
+import { buildAuditEvent, canSignContracts, renderCandidateContract } from "@/lib/contracts/signing";
+import { BUILT_IN_VARIABLES, getVariableLabel, isBuiltInVariable } from "@/lib/contracts/templates";
+import { IssueContractSchema } from "@/lib/contracts/validation";
+
+export const runtime = "nodejs";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Send one of the company's contracts to an applicant. The contract is
+ * filled in and frozen now; depending on the signing order the candidate
+ * is asked to sign straight away or once the company has signed.
+ */
+export async function POST(request: NextRequest) {
+  const supabase = await createClient();
+
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  const parsed = IssueContractSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json({ error: 'Invalid request', issues: parsed.error.issues }, { status: 400 });
+  }
+  const { application_id, template_id, signing_order, expires_in_days } = parsed.data;
+
+  const repo = createAdminRepository();
+
+  try {
+    const application = await repo.applications.get(application_id);
+    const job = application ? await repo.jobOpenings.get(application.job_opening_id) : null;
+    if (!application || !job) {
+      return NextResponse.json({ error: 'Application not found' }, { status: 404 });
+    }
+    if (!await canSignContracts(repo, job.company_id, user.id)) {
+      return NextResponse.json({ error: 'Not allowed to send contracts for this company' }, { status: 403 });
+    }
+    if (isTerminalStatus(application.status)) {
+      return NextResponse.json({ error: 'This application is closed' }, { status: 422 });
+    }
+
+    const template = await repo.contractTemplates.get(template_id);
+    if (!template || template.company_id !== job.company_id || !template.is_active) {
+      return NextResponse.json({ error: 'Contract template not found' }, { status: 404 });
+    }
+
+    const { values, missing, content } = await renderCandidateContract(repo, template, job, job.company, {
+      id: application.applicant_id,
+    });
+    if (missing.length > 0) {
+      const fromCandidate = missing.some((field) => isBuiltInVariable(field) && BUILT_IN_VARIABLES[field].candidate);
+      return NextResponse.json(
+        {
+          error: fromCandidate
+            ? "The candidate's profile is missing details this contract needs."
+            : `Fill in ${missing.map(getVariableLabel).join(', ')} on the job or template before sending this contract.`,
+          missing_fields: missing,
+        },
+        { status: 422 }
+      );
+    }
+
+    const issuedAt = new Date();
+    const documentHash = await hashDocument(content);
+    const signature = await repo.contractSignatures.create({
+      title: template.name,
+      final_contract_content: content,
+      document_type: template.contract_type === 'nda' ? 'nda' : 'contract',
+      company_id: job.company_id,
+      job_opening_id: job.id,
+      application_id: application.id,
+      contract_template_id: template.id,
+      contract_variables: values,
+      employee_id: application.applicant_id,
+      requires_countersignature: true,
+      signing_order,
+      issued_by: user.id,
+      expires_at: expires_in_days ? new Date(issuedAt.getTime() + expires_in_days * DAY_MS).toISOString() : null,
+      audit_trail: [buildAuditEvent('issued', { document_hash: documentHash }, user.id, request, issuedAt.toISOString())],
+    });
+
+    after(async () => {
+      try {
+        await sendContractToSignEmail(repo, signature);
+      } catch (error) {
+        console.error('Error sending contract email:', error);
+      }
+    });
+
+    return NextResponse.json({ data: signature }, { status: 201 });
+  } catch (error) {
+    console.error('Error issuing contract:', error);
+    return NextResponse.json({ error: 'Failed to send contract' }, { status: 500 });
+  }
+}
@@ -0,0 +1,143 @@
+import { createClient } from "@/lib/supabase/server";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { createRepository } from "@/lib/supabase/repository";
+import { after, NextResponse, type NextRequest } from "next/server";
+import { saveContractPdf } from "@/lib/contracts/pdf";
+import { getPlatformDocumentTitle, renderPlatformDocument } from "@/lib/contracts/platform";
+import { isTerminalStatus } from "@/lib/applications/transitions";
+import { hashDocument } from "@/lib/contracts/signatures";
+import { buildAuditEvent, buildSignatureData, getSignerIp, loadJobContract } from "@/lib/contracts/signing";
+import { SignContractSchema } from "@/lib/contracts/validation";
+import type { ContractSignatureInsert } from "@/lib/types/enhanced-database";
+
+export const runtime = "nodejs";
+
+type SignedDocument = Pick<
+  ContractSignatureInsert,
+  | 'title'
+  | 'final_contract_content'
+  | 'document_type'
+  | 'company_id'
+  | 'job_opening_id'
+  | 'application_id'
+  | 'contract_template_id'
+  | 'contract_variables'
+  | 'requires_countersignature'
+>;
+
+/**
+ * Sign a contract. The text is rendered again here rather than taken from
+ * the browser, and must hash to what the signer was shown. The row records
+ * the text, the signer's name, IP address and browser; the database hashes
+ * the text and sets the status.
+ */
+export async function POST(request: NextRequest) {
+  const supabase = await createClient();
+
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  const parsed = SignContractSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json({ error: 'Invalid request', issues: parsed.error.issues }, { status: 400 });
+  }
+  const body = parsed.data;
+
+  const admin = createAdminClient();
+  const repo = createRepository(admin);
+
+  try {
+    let document: SignedDocument;
+
+    if (body.document === 'job') {
+      // Only for an open application of the signer's own, so company
+      // contracts cannot be created for jobs nobody applied to
+      const application = await repo.applications.get(body.application_id);
+      if (!application || application.applicant_id !== user.id || application.job_opening_id !== body.job_id) {
+        return NextResponse.json({ error: 'Application not found' }, { status: 404 });
+      }
+      if (isTerminalStatus(application.status)) {
+        return NextResponse.json({ error: 'This application is closed' }, { status: 422 });
+      }
+
+      const contract = await loadJobContract(repo, body.job_id, user);
+      switch (contract.status) {
+        case 'not_found':
+          return NextResponse.json({ error: 'Job not found' }, { status: 404 });
+        case 'none':
+          return NextResponse.json({ error: 'This job does not ask for a contract' }, { status: 422 });
+        case 'incomplete':
+          return NextResponse.json(
+            { error: contract.error, missing_fields: contract.missing_fields },
+            { status: 422 }
+          );
+      }
+
+      const existing = await repo.contractSignatures.listForApplication(application.id);
+      if (existing.some((row) => row.contract_template_id === contract.template.id && row.status !== 'voided' && row.status !== 'expired')) {
+        return NextResponse.json({ error: 'This contract has already been signed for your application' }, { status: 409 });
+      }
+
+      // Company contracts are countersigned by the employer
+      document = {
+        title: contract.template.name,
+        final_contract_content: contract.content,
+        document_type: contract.template.contract_type === 'nda' ? 'nda' : 'contract',
+        company_id: contract.job.company_id,
+        job_opening_id: contract.job.id,
+        application_id: application.id,
+        contract_template_id: contract.template.id,
+        contract_variables: contract.values,
+        requires_countersignature: true,
+      };
+    } else {
+      // Uwezo's own agreements only need the signer
+      document = {
+        title: getPlatformDocumentTitle(body),
+        final_contract_content: renderPlatformDocument(body),
+        document_type: body.document === 'nda' ? 'nda' : 'contract',
+        requires_countersignature: false,
+      };
+    }
+
+    const documentHash = await hashDocument(document.final_contract_content);
+    if (documentHash !== body.document_hash) {
+      return NextResponse.json(
+        { error: 'This contract has changed since you opened it. Reload the page to review the latest version.' },
+        { status: 409 }
+      );
+    }
+
+    const signedAt = new Date().toISOString();
+    const signatureData = await buildSignatureData(repo, user.id, body.full_name, body.signature, signedAt);
+    if (!signatureData) {
+      return NextResponse.json({ error: 'The signature image could not be read. Please sign again.' }, { status: 422 });
+    }
+
+    const signature = await repo.contractSignatures.create({
+      ...document,
+      employee_id: user.id,
+      employee_signature_data: signatureData,
+      employee_signed_at: signedAt,
+      signed_via_ip: getSignerIp(request.headers),
+      signed_via_user_agent: request.headers.get('user-agent'),
+      audit_trail: [buildAuditEvent('employee_signed', { document_hash: documentHash }, user.id, request, signedAt)],
+    });
+
+    // Documents only the signer signs are complete straight away
+    after(async () => {
+      try {
+        await saveContractPdf(admin, signature);
+      } catch (error) {
+        console.error('Error saving contract PDF:', error);
+      }
+    });
+
+    return NextResponse.json({ data: signature }, { status: 201 });
+  } catch (error) {
+    console.error('Error signing contract:', error);
+    return NextResponse.json({ error: 'Failed to sign contract' }, { status: 500 });
+  }
+}
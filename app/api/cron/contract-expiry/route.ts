@@ -0,0 +1,26 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { createAdminRepository } from "@/lib/supabase/admin";
+import { expireOverdueContracts } from "@/lib/contracts/signing";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/**
+ * Scheduled job: close contracts that were not signed before their
+ * deadline. Vercel Cron calls it hourly (see vercel.json) with
+ * `Authorization: Bearer $CRON_SECRET`.
+ */
+export async function GET(request: NextRequest) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret || request.headers.get('authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: 'Not authorized' }, { status: 401 });
+  }
+
+  try {
+    const result = await expireOverdueContracts(createAdminRepository());
+    return NextResponse.json({ data: result });
+  } catch (error) {
+    console.error('Error expiring contracts:', error);
+    return NextResponse.json({ error: 'Failed to expire contracts' }, { status: 500 });
+  }
+}
@@ -0,0 +1,26 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { createAdminRepository } from "@/lib/supabase/admin";
+import { sendInterviewReminders } from "@/lib/interviews/emails";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/**
+ * Scheduled job: email reminders for interviews starting within the next
+ * day. Vercel Cron calls it hourly (see vercel.json) with
+ * `Authorization: Bearer $CRON_SECRET`.
+ */
+export async function GET(request: NextRequest) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret || request.headers.get('authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: 'Not authorized' }, { status: 401 });
+  }
+
+  try {
+    const result = await sendInterviewReminders(createAdminRepository());
+    return NextResponse.json({ data: result });
+  } catch (error) {
+    console.error('Error sending interview reminders:', error);
+    return NextResponse.json({ error: 'Failed to send interview reminders' }, { status: 500 });
+  }
+}
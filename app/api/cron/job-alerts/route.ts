@@ -0,0 +1,33 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { createAdminRepository } from "@/lib/supabase/admin";
+import { queueJobAlertDigests } from "@/lib/jobs/alerts";
+import { deliverQueuedEmails } from "@/lib/email/outbox";
+import { getEmailTransport } from "@/lib/email/transport";
+import { getAbsoluteUrl } from "@/lib/utils";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/**
+ * Scheduled job: queue job alert digests for saved searches that are due,
+ * then send whatever is waiting in the outbox. Vercel Cron calls it daily
+ * (see vercel.json) with `Authorization: Bearer $CRON_SECRET`; run it
+ * locally with `npm run job-alerts`.
+ */
+export async function GET(request: NextRequest) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret || request.headers.get('authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: 'Not authorized' }, { status: 401 });
+  }
+
+  const repo = createAdminRepository();
+
+  try {
+    const alerts = await queueJobAlertDigests(repo, getAbsoluteUrl('/'));
+    const delivery = await deliverQueuedEmails(repo, getEmailTransport());
+    return NextResponse.json({ data: { ...alerts, ...delivery } });
+  } catch (error) {
+    console.error('Error running job alerts:', error);
+    return NextResponse.json({ error: 'Failed to run job alerts' }, { status: 500 });
+  }
+}
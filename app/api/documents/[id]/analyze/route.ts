@@ -0,0 +1,69 @@
+import { createClient } from "@/lib/supabase/server";
+import { createRepository } from "@/lib/supabase/repository";
+import { NextResponse, type NextRequest } from "next/server";
+import { DocumentExtractionError, extractDocumentText } from "@/lib/documents/extract-text";
+import { analyzeDocumentText } from "@/lib/documents/cv-analysis";
+
+// Text extraction uses node:zlib
+export const runtime = "nodejs";
+
+/**
+ * Extract the text of an uploaded document, detect its type from the
+ * content and, for CVs, pull out skills, experience, education and contact
+ * details. The result is stored on the document; nothing is copied to the
+ * profile until the user chooses to.
+ */
+export async function POST(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const supabase = await createClient();
+
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  const repo = createRepository(supabase);
+
+  let file: Buffer;
+  try {
+    const document = await repo.documents.get(id);
+    if (!document || document.user_id !== user.id) {
+      return NextResponse.json({ error: 'Document not found' }, { status: 404 });
+    }
+
+    const { data, error } = await supabase.storage.from('documents').download(document.file_path);
+    if (error) throw error;
+    file = Buffer.from(await data.arrayBuffer());
+  } catch (error) {
+    console.error('Error loading document for analysis:', error);
+    return NextResponse.json({ error: 'Failed to load document' }, { status: 500 });
+  }
+
+  try {
+    const { text } = extractDocumentText(file);
+    const analysis = analyzeDocumentText(text);
+    const updated = await repo.documents.update(id, {
+      document_type: analysis.document_type_detected,
+      analysis_result: analysis,
+    });
+
+    return NextResponse.json({ data: updated });
+  } catch (error) {
+    if (error instanceof DocumentExtractionError) {
+      // Record why the analysis failed so the uploader can show it
+      await repo.documents.update(id, {
+        analysis_result: {
+          validation_errors: [error.message],
+          confidence_score: 0,
+          analyzed_at: new Date().toISOString(),
+        },
+      }).catch((updateError) => console.error('Error saving analysis failure:', updateError));
+      return NextResponse.json({ error: error.message, code: error.code }, { status: 422 });
+    }
+    console.error('Error analysing document:', error);
+    return NextResponse.json({ error: 'Failed to analyse document' }, { status: 500 });
+  }
+}
@@ -0,0 +1,54 @@
+import { createClient } from "@/lib/supabase/server";
+import { createRepository } from "@/lib/supabase/repository";
+import { NextResponse, type NextRequest } from "next/server";
+import { getContractIdFromPdfPath } from "@/lib/contracts/pdf";
+
+export const runtime = "nodejs";
+
+/**
+ * Download one of the user's own documents, such as an uploaded CV or a
+ * signed contract PDF, from the private documents bucket. Signed contracts
+ * are served by the contract PDF route, which checks access and the file's
+ * hash.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const supabase = await createClient();
+
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  const repo = createRepository(supabase);
+
+  try {
+    const document = await repo.documents.get(id);
+    if (!document || document.user_id !== user.id) {
+      return NextResponse.json({ error: 'Document not found' }, { status: 404 });
+    }
+
+    const contractId = getContractIdFromPdfPath(document.file_path);
+    if (contractId) {
+      return NextResponse.redirect(new URL(`/api/contract-signatures/${contractId}/pdf`, request.url));
+    }
+
+    const { data, error } = await supabase.storage.from('documents').download(document.file_path);
+    if (error) throw error;
+
+    return new NextResponse(await data.arrayBuffer(), {
+      headers: {
+        'Content-Type': document.mime_type || 'application/octet-stream',
+        // Uploaded filenames can be any text, so they are sent percent-encoded
+        'Content-Disposition': `attachment; filename*=UTF-8''${encodeURIComponent(document.original_filename)}`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    console.error('Error downloading document:', error);
+    return NextResponse.json({ error: 'Failed to download document' }, { status: 500 });
+  }
+}
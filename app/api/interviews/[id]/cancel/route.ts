@@ -0,0 +1,73 @@
+import { createClient } from "@/lib/supabase/server";
+import { createAdminRepository } from "@/lib/supabase/admin";
+import { after, NextResponse, type NextRequest } from "next/server";
+import { getInterviewRole } from "@/lib/interviews/access";
+import { sendInterviewCancelledEmails } from "@/lib/interviews/emails";
+import { isInterviewActive } from "@/lib/interviews/scheduling";
+import { CancelInterviewSchema } from "@/lib/interviews/validation";
+
+export const runtime = "nodejs";
+
+/**
+ * Call off an interview. The hiring team and the candidate can cancel;
+ * everyone else involved is emailed.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const supabase = await createClient();
+
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  const parsed = CancelInterviewSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json({ error: 'Invalid request', issues: parsed.error.issues }, { status: 400 });
+  }
+
+  const repo = createAdminRepository();
+
+  try {
+    const interview = await repo.interviews.get(id);
+    const application = interview ? await repo.applications.get(interview.application_id) : null;
+    if (!interview || !application) {
+      return NextResponse.json({ error: 'Interview not found' }, { status: 404 });
+    }
+
+    const role = await getInterviewRole(repo, interview, application, user.id);
+    if (role !== 'hiring_team' && role !== 'candidate') {
+      return NextResponse.json({ error: 'Not allowed to cancel this interview' }, { status: 403 });
+    }
+    if (!isInterviewActive(interview)) {
+      return NextResponse.json({ error: 'This interview is no longer upcoming' }, { status: 422 });
+    }
+
+    const cancelled = await repo.interviews.update(interview.id, interview.status, {
+      status: 'cancelled',
+      cancelled_by: user.id,
+      cancel_reason: parsed.data.reason || null,
+      sequence: interview.sequence + 1,
+    });
+    if (!cancelled) {
+      return NextResponse.json({ error: 'The interview was changed by someone else, reload and try again' }, { status: 409 });
+    }
+
+    const details = { ...interview, ...cancelled };
+    after(async () => {
+      try {
+        await sendInterviewCancelledEmails(repo, details);
+      } catch (error) {
+        console.error('Error sending interview cancellation emails:', error);
+      }
+    });
+
+    return NextResponse.json({ data: details });
+  } catch (error) {
+    console.error('Error cancelling interview:', error);
+    return NextResponse.json({ error: 'Failed to cancel interview' }, { status: 500 });
+  }
+}
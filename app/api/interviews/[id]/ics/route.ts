@@ -0,0 +1,56 @@
+import { createClient } from "@/lib/supabase/server";
+import { createAdminRepository } from "@/lib/supabase/admin";
+import { NextResponse, type NextRequest } from "next/server";
+import { getInterviewRole } from "@/lib/interviews/access";
+import { buildInterviewCalendar, loadInterviewContext } from "@/lib/interviews/emails";
+import { getInterviewIcsFilename } from "@/lib/interviews/ics";
+import { hasCalendarEvent } from "@/lib/interviews/scheduling";
+
+export const runtime = "nodejs";
+
+/**
+ * Calendar file for a signed-in participant. The candidate gets their
+ * version of the event, the hiring team and panel theirs.
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const supabase = await createClient();
+
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  const repo = createAdminRepository();
+
+  try {
+    const interview = await repo.interviews.get(id);
+    const context = interview ? await loadInterviewContext(repo, interview) : null;
+    if (!interview || !context) {
+      return NextResponse.json({ error: 'Interview not found' }, { status: 404 });
+    }
+
+    const role = await getInterviewRole(repo, interview, context.application, user.id);
+    if (!role) {
+      return NextResponse.json({ error: 'Interview not found' }, { status: 404 });
+    }
+    if (!hasCalendarEvent(interview)) {
+      return NextResponse.json({ error: 'The candidate has not picked a time yet' }, { status: 422 });
+    }
+
+    const calendar = buildInterviewCalendar(interview, context, role === 'candidate' ? 'candidate' : 'panel');
+    return new NextResponse(calendar, {
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${getInterviewIcsFilename(interview)}"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    console.error('Error building interview calendar file:', error);
+    return NextResponse.json({ error: 'Failed to build the calendar file' }, { status: 500 });
+  }
+}
@@ -0,0 +1,97 @@
+import { createClient } from "@/lib/supabase/server";
+import { createAdminRepository } from "@/lib/supabase/admin";
+import { after, NextResponse, type NextRequest } from "next/server";
+import { canScheduleInterviews } from "@/lib/interviews/access";
+import { sendInterviewCancelledEmails, sendInterviewSlotsEmail } from "@/lib/interviews/emails";
+import { buildSlots, isInterviewActive } from "@/lib/interviews/scheduling";
+import { RescheduleInterviewSchema } from "@/lib/interviews/validation";
+
+export const runtime = "nodejs";
+
+/**
+ * Offer new times for an interview. Any booking is released and the
+ * candidate is asked to pick again; the panel is told if a booked time was
+ * dropped.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const supabase = await createClient();
+
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  const parsed = RescheduleInterviewSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json({ error: 'Invalid request', issues: parsed.error.issues }, { status: 400 });
+  }
+  const { panelist_ids, slot_starts, ...details } = parsed.data;
+
+  const repo = createAdminRepository();
+
+  try {
+    const interview = await repo.interviews.get(id);
+    if (!interview) {
+      return NextResponse.json({ error: 'Interview not found' }, { status: 404 });
+    }
+    if (!await canScheduleInterviews(repo, interview.company_id, user.id)) {
+      return NextResponse.json({ error: 'Not allowed to reschedule this interview' }, { status: 403 });
+    }
+    if (!isInterviewActive(interview)) {
+      return NextResponse.json({ error: 'Only upcoming interviews can be rescheduled' }, { status: 422 });
+    }
+
+    if (panelist_ids) {
+      const members = await repo.companyMembers.list(interview.company_id);
+      const activeMemberIds = new Set(members.filter((member) => member.status === 'active').map((member) => member.user_id));
+      if (!panelist_ids.every((panelistId) => activeMemberIds.has(panelistId))) {
+        return NextResponse.json({ error: 'Interviewers must be active members of the company' }, { status: 422 });
+      }
+    }
+
+    const slots = buildSlots(slot_starts, details.duration_minutes ?? interview.duration_minutes);
+    if (slots.length === 0) {
+      return NextResponse.json({ error: 'All the times offered are in the past' }, { status: 422 });
+    }
+
+    const updated = await repo.interviews.update(interview.id, interview.status, {
+      ...details,
+      status: 'proposed',
+      starts_at: null,
+      ends_at: null,
+      sequence: interview.sequence + 1,
+      reminder_sent_at: null,
+    });
+    if (!updated) {
+      return NextResponse.json({ error: 'The interview was changed by someone else, reload and try again' }, { status: 409 });
+    }
+
+    await Promise.all([
+      repo.interviewSlots.replace(interview.id, slots),
+      panelist_ids && repo.interviewPanelists.replace(interview.id, Array.from(new Set(panelist_ids))),
+    ]);
+    const rescheduled = await repo.interviews.get(interview.id);
+
+    after(async () => {
+      try {
+        if (interview.status === 'scheduled') {
+          await sendInterviewCancelledEmails(repo, interview, { rescheduled: true });
+        }
+        if (rescheduled) {
+          await sendInterviewSlotsEmail(repo, rescheduled, { rescheduled: true });
+        }
+      } catch (error) {
+        console.error('Error sending interview reschedule emails:', error);
+      }
+    });
+
+    return NextResponse.json({ data: rescheduled });
+  } catch (error) {
+    console.error('Error rescheduling interview:', error);
+    return NextResponse.json({ error: 'Failed to reschedule interview' }, { status: 500 });
+  }
+}
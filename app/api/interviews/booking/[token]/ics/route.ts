@@ -0,0 +1,47 @@
+import { createAdminRepository } from "@/lib/supabase/admin";
+import { NextResponse, type NextRequest } from "next/server";
+import { z } from "zod";
+import { buildInterviewCalendar, loadInterviewContext } from "@/lib/interviews/emails";
+import { getInterviewIcsFilename } from "@/lib/interviews/ics";
+import { hasCalendarEvent } from "@/lib/interviews/scheduling";
+
+export const runtime = "nodejs";
+
+/**
+ * The candidate's calendar file, authorised by the booking token so the
+ * link works from their email.
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  const { token } = await params;
+  const parsedToken = z.string().uuid().safeParse(token);
+  if (!parsedToken.success) {
+    return NextResponse.json({ error: 'Interview not found' }, { status: 404 });
+  }
+
+  const repo = createAdminRepository();
+
+  try {
+    const interview = await repo.interviews.getByBookingToken(parsedToken.data);
+    if (!interview) {
+      return NextResponse.json({ error: 'Interview not found' }, { status: 404 });
+    }
+    if (!hasCalendarEvent(interview)) {
+      return NextResponse.json({ error: 'Pick a time before adding the interview to your calendar' }, { status: 422 });
+    }
+
+    const calendar = buildInterviewCalendar(interview, await loadInterviewContext(repo, interview), 'candidate');
+    return new NextResponse(calendar, {
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${getInterviewIcsFilename(interview)}"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    console.error('Error building interview calendar file:', error);
+    return NextResponse.json({ error: 'Failed to build the calendar file' }, { status: 500 });
+  }
+}
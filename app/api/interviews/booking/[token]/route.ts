@@ -0,0 +1,99 @@
+import { createAdminRepository } from "@/lib/supabase/admin";
+import { after, NextResponse, type NextRequest } from "next/server";
+import { z } from "zod";
+import { sendInterviewBookedEmails, sendInterviewCancelledEmails } from "@/lib/interviews/emails";
+import { getBookableSlots, isInterviewActive, toInterviewBooking } from "@/lib/interviews/scheduling";
+import { BookingActionSchema } from "@/lib/interviews/validation";
+
+export const runtime = "nodejs";
+
+/**
+ * The candidate's booking link: pick one of the offered slots (or another
+ * one, to move a booking) or cancel. The token in the link is the
+ * authorisation, so the candidate does not need to sign in.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  const { token } = await params;
+  const parsedToken = z.string().uuid().safeParse(token);
+  if (!parsedToken.success) {
+    return NextResponse.json({ error: 'Interview not found' }, { status: 404 });
+  }
+
+  const parsed = BookingActionSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json({ error: 'Invalid request', issues: parsed.error.issues }, { status: 400 });
+  }
+
+  const repo = createAdminRepository();
+
+  try {
+    const interview = await repo.interviews.getByBookingToken(parsedToken.data);
+    const application = interview ? await repo.applications.get(interview.application_id) : null;
+    if (!interview || !application) {
+      return NextResponse.json({ error: 'Interview not found' }, { status: 404 });
+    }
+    if (!isInterviewActive(interview)) {
+      return NextResponse.json({ error: 'This interview is no longer upcoming' }, { status: 422 });
+    }
+
+    if (parsed.data.action === 'cancel') {
+      const cancelled = await repo.interviews.update(interview.id, interview.status, {
+        status: 'cancelled',
+        cancelled_by: application.applicant_id,
+        cancel_reason: parsed.data.reason || null,
+        sequence: interview.sequence + 1,
+      });
+      if (!cancelled) {
+        return NextResponse.json({ error: 'The interview was changed, reload and try again' }, { status: 409 });
+      }
+
+      const details = { ...interview, ...cancelled };
+      after(async () => {
+        try {
+          await sendInterviewCancelledEmails(repo, details);
+        } catch (error) {
+          console.error('Error sending interview cancellation emails:', error);
+        }
+      });
+      return NextResponse.json({ data: toInterviewBooking(details) });
+    }
+
+    const { slot_id, time_zone } = parsed.data;
+    const slot = getBookableSlots(interview).find((candidate) => candidate.id === slot_id);
+    if (!slot) {
+      return NextResponse.json({ error: 'That time is no longer available' }, { status: 422 });
+    }
+    if (interview.status === 'scheduled' && interview.starts_at === slot.starts_at) {
+      return NextResponse.json({ data: toInterviewBooking(interview) });
+    }
+
+    const booked = await repo.interviews.update(interview.id, interview.status, {
+      status: 'scheduled',
+      starts_at: slot.starts_at,
+      ends_at: slot.ends_at,
+      candidate_time_zone: time_zone ?? interview.candidate_time_zone,
+      reminder_sent_at: null,
+      // Moving a booking updates the event already in calendars
+      sequence: interview.status === 'scheduled' ? interview.sequence + 1 : interview.sequence,
+    });
+    if (!booked) {
+      return NextResponse.json({ error: 'The interview was changed, reload and try again' }, { status: 409 });
+    }
+
+    const details = { ...interview, ...booked };
+    after(async () => {
+      try {
+        await sendInterviewBookedEmails(repo, details);
+      } catch (error) {
+        console.error('Error sending interview booked emails:', error);
+      }
+    });
+    return NextResponse.json({ data: toInterviewBooking(details) });
+  } catch (error) {
+    console.error('Error updating interview booking:', error);
+    return NextResponse.json({ error: 'Failed to update the interview' }, { status: 500 });
+  }
+}
@@ -0,0 +1,84 @@
+import { createClient } from "@/lib/supabase/server";
+import { createAdminRepository } from "@/lib/supabase/admin";
+import { after, NextResponse, type NextRequest } from "next/server";
+import { canScheduleInterviews } from "@/lib/interviews/access";
+import { sendInterviewSlotsEmail } from "@/lib/interviews/emails";
+import { buildSlots } from "@/lib/interviews/scheduling";
+import { CreateInterviewSchema } from "@/lib/interviews/validation";
+import { isTerminalStatus } from "@/lib/applications/transitions";
+
+export const runtime = "nodejs";
+
+/**
+ * Propose an interview: the hiring team offers slots and names the panel,
+ * and the candidate is emailed a link to pick a time.
+ */
+export async function POST(request: NextRequest) {
+  const supabase = await createClient();
+
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  const parsed = CreateInterviewSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json({ error: 'Invalid request', issues: parsed.error.issues }, { status: 400 });
+  }
+  const { application_id, panelist_ids, slot_starts, ...details } = parsed.data;
+
+  // Slots and panel rows are written with the service role once the user is checked
+  const repo = createAdminRepository();
+
+  try {
+    const application = await repo.applications.get(application_id);
+    const job = application ? await repo.jobOpenings.get(application.job_opening_id) : null;
+    if (!application || !job) {
+      return NextResponse.json({ error: 'Application not found' }, { status: 404 });
+    }
+    if (!await canScheduleInterviews(repo, job.company_id, user.id)) {
+      return NextResponse.json({ error: 'Not allowed to schedule interviews for this application' }, { status: 403 });
+    }
+    if (isTerminalStatus(application.status)) {
+      return NextResponse.json({ error: 'This application is closed' }, { status: 422 });
+    }
+
+    const members = await repo.companyMembers.list(job.company_id);
+    const activeMemberIds = new Set(members.filter((member) => member.status === 'active').map((member) => member.user_id));
+    if (!panelist_ids.every((panelistId) => activeMemberIds.has(panelistId))) {
+      return NextResponse.json({ error: 'Interviewers must be active members of the company' }, { status: 422 });
+    }
+
+    const slots = buildSlots(slot_starts, details.duration_minutes);
+    if (slots.length === 0) {
+      return NextResponse.json({ error: 'All the times offered are in the past' }, { status: 422 });
+    }
+
+    const created = await repo.interviews.create({
+      ...details,
+      application_id,
+      company_id: job.company_id,
+      created_by: user.id,
+    });
+    await Promise.all([
+      repo.interviewSlots.replace(created.id, slots),
+      repo.interviewPanelists.replace(created.id, Array.from(new Set(panelist_ids))),
+    ]);
+
+    const interview = await repo.interviews.get(created.id);
+    if (interview) {
+      after(async () => {
+        try {
+          await sendInterviewSlotsEmail(repo, interview);
+        } catch (error) {
+          console.error('Error sending interview slots email:', error);
+        }
+      });
+    }
+
+    return NextResponse.json({ data: interview }, { status: 201 });
+  } catch (error) {
+    console.error('Error creating interview:', error);
+    return NextResponse.json({ error: 'Failed to create interview' }, { status: 500 });
+  }
+}
@@ -0,0 +1,53 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { z } from "zod";
+import { createAdminRepository } from "@/lib/supabase/admin";
+
+/**
+ * Turn off job alerts from an email link. The token identifies the saved
+ * search, so no sign-in is needed; `scope=all` turns off job alerts in the
+ * candidate's notification settings instead of just this search. Mail
+ * clients post here directly for one-click unsubscribe (RFC 8058); the
+ * confirmation page's form is sent back to it afterwards.
+ */
+export async function POST(request: NextRequest) {
+  const parsedToken = z.string().uuid().safeParse(request.nextUrl.searchParams.get('token'));
+  const scope = request.nextUrl.searchParams.get('scope') === 'all' ? 'all' : 'search';
+  if (!parsedToken.success) {
+    return NextResponse.json({ error: 'Invalid unsubscribe token' }, { status: 400 });
+  }
+  const token = parsedToken.data;
+
+  const repo = createAdminRepository();
+
+  try {
+    const search = await repo.savedSearches.getByUnsubscribeToken(token);
+    if (!search) {
+      return NextResponse.json({ error: 'Unsubscribe link not found' }, { status: 404 });
+    }
+
+    if (scope === 'all') {
+      const profile = await repo.profiles.get(search.user_id);
+      if (profile) {
+        await repo.profiles.update(search.user_id, {
+          notification_preferences: { ...profile.notification_preferences, job_alerts: false },
+        });
+      }
+    } else if (search.alerts_enabled) {
+      await repo.savedSearches.update(search.id, { alerts_enabled: false });
+    }
+  } catch (error) {
+    console.error('Error unsubscribing from job alerts:', error);
+    return NextResponse.json({ error: 'Failed to unsubscribe' }, { status: 500 });
+  }
+
+  const form = await request.formData().catch(() => null);
+  if (form?.has('List-Unsubscribe')) {
+    return NextResponse.json({ data: { unsubscribed: scope } });
+  }
+
+  const confirmation = new URL('/jobs/alerts/unsubscribe', request.nextUrl);
+  confirmation.searchParams.set('token', token);
+  if (scope === 'all') confirmation.searchParams.set('scope', 'all');
+  confirmation.searchParams.set('done', '1');
+  return NextResponse.redirect(confirmation, 303);
+}
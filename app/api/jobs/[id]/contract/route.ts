@@ -0,0 +1,53 @@
+import { createClient } from "@/lib/supabase/server";
+import { createAdminRepository } from "@/lib/supabase/admin";
+import { NextResponse, type NextRequest } from "next/server";
+import { loadJobContract } from "@/lib/contracts/signing";
+
+export const runtime = "nodejs";
+
+/**
+ * The contract an open job issues, filled in for the signed-in candidate.
+ * Returns null data when the job does not ask candidates to sign anything.
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const supabase = await createClient();
+
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  try {
+    const contract = await loadJobContract(createAdminRepository(), id, user);
+
+    switch (contract.status) {
+      case 'not_found':
+        return NextResponse.json({ error: 'Job not found' }, { status: 404 });
+      case 'none':
+        return NextResponse.json({ data: null });
+      case 'incomplete':
+        return NextResponse.json(
+          { error: contract.error, missing_fields: contract.missing_fields },
+          { status: 422 }
+        );
+    }
+
+    return NextResponse.json({
+      data: {
+        job_id: contract.job.id,
+        template_id: contract.template.id,
+        name: contract.template.name,
+        contract_type: contract.template.contract_type,
+        content: contract.content,
+        variables: contract.values,
+      },
+    });
+  } catch (error) {
+    console.error('Error rendering contract:', error);
+    return NextResponse.json({ error: 'Failed to load contract' }, { status: 500 });
+  }
+}
@@ -3,7 +3,7 @@
 import { useState, useEffect, useCallback } from "react";
 import { useParams, useRouter } from "next/navigation";
 import { useAuth } from "@/hooks/use-auth";
-import { createClient } from "@/lib/supabase/client";
+import { createClient, repo } from "@/lib/supabase/client";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Label } from "@/components/ui/label";
@@ -17,70 +17,87 @@ import {
   FileText,
   CheckCircle,
   AlertCircle,
+  ListChecks,
   Loader2
 } from "lucide-react";
 import { DocumentUploader } from "@/components/document-uploader";
-import { QuizComponent } from "@/components/quiz-component";
+import { AssessmentRunner, type AssessmentResult } from "@/components/assessment-runner";
 import { ContractViewer } from "@/components/contract-viewer";
+import { ScreeningQuestionsForm } from "@/components/screening-questions-form";
+import { getEmploymentTypeLabel } from "@/lib/jobs/format";
 import type { UserProfile } from "@/lib/types/database";
+import type { SignatureValues } from "@/lib/contracts/validation";
+import type { ScreeningAnswer } from "@/lib/types/enhanced-database";
 
-interface JobOpening {
-  id: string;
-  title: string;
-  description: string;
-  requirements: string;
-  location: string;
-  employment_type: string;
-  salary_range: string;
-  application_deadline: string;
-  companies: {
-    name: string;
-    industry: string;
-  } | null;
+type JobOpening = NonNullable<Awaited<ReturnType<typeof repo.jobOpenings.get>>>;
+
+type ApplyStep = 'cv' | 'screening' | 'assessment' | 'contract' | 'submit';
+
+const STEP_TITLES: Record<ApplyStep, string> = {
+  cv: "Upload CV",
+  screening: "Screening Questions",
+  assessment: "Complete Assessment",
+  contract: "Review Contract",
+  submit: "Submit Application",
+};
+
+// As returned by GET /api/jobs/[id]/contract
+interface JobContract {
+  job_id: string;
+  name: string;
+  content: string;
 }
 
+// The steps this job asks for, in order
+const getApplySteps = (job: JobOpening | null, hasContract: boolean): ApplyStep[] => [
+  'cv',
+  ...(job?.screening_questions?.length ? ['screening' as const] : []),
+  ...(job?.requires_assessment && job.assessment_id ? ['assessment' as const] : []),
+  ...(hasContract ? ['contract' as const] : []),
+  'submit',
+];
+
 export default function JobApplicationPage() {
   const params = useParams();
   const router = useRouter();
   const { user, signInWithGoogle } = useAuth();
   const [jobOpening, setJobOpening] = useState<JobOpening | null>(null);
   const [loading, setLoading] = useState(true);
-  const [currentStep, setCurrentStep] = useState(1);
+  const [currentStep, setCurrentStep] = useState<ApplyStep>('cv');
+  const [contract, setContract] = useState<JobContract | null>(null);
+  // Set when the job has a contract that cannot be issued yet
+  const [contractError, setContractError] = useState<string | null>(null);
   const [applicationData, setApplicationData] = useState({
     coverLetter: "",
     cvUrl: "",
-    contractSigned: false,
-    quizCompleted: false,
-    quizScore: 0
+    screeningAnswers: null as ScreeningAnswer[] | null,
+    // The signature adopted on the contract step; the contract is signed
+    // for the application once it has been created
+    contractSignature: null as SignatureValues | null,
+    assessmentResult: null as AssessmentResult | null
   });
   const [submitting, setSubmitting] = useState(false);
   const [submitted, setSubmitted] = useState(false);
+  const [knockedOut, setKnockedOut] = useState(false);
+  // Why the contract could not be signed after the application went in
+  const [contractSignError, setContractSignError] = useState<string | null>(null);
 
   const supabase = createClient();
   const jobId = params.jobId as string;
 
   const loadJobOpening = useCallback(async () => {
     try {
-      const { data: job, error } = await supabase
-        .from('job_openings')
-        .select(`
-          *,
-          companies(name, industry)
-        `)
-        .eq('id', jobId)
-        .eq('is_active', true)
-        .single();
-
-      if (error) throw error;
+      const job = await repo.jobOpenings.get(jobId);
 
-      setJobOpening(job as JobOpening);
+      // Only open postings accept applications
+      setJobOpening(job?.status === 'active' ? job : null);
     } catch (error) {
       console.error('Error loading job opening:', error);
       router.push('/404');
     } finally {
       setLoading(false);
     }
-  }, [jobId, router, supabase]);
+  }, [jobId, router]);
 
   const ensureEmployeeRole = useCallback(async () => {
     if (!user) return;
@@ -120,6 +137,29 @@ export default function JobApplicationPage() {
     loadJobOpening();
   }, [loadJobOpening]);
 
+  // The company's contract for this job, filled in with the candidate's details
+  const hasJob = !!jobOpening;
+  useEffect(() => {
+    if (!user || !hasJob) return;
+
+    const loadContract = async () => {
+      try {
+        const response = await fetch(`/api/jobs/${jobId}/contract`);
+        const result = await response.json();
+        if (response.status === 422) {
+          setContractError(result.error);
+          return;
+        }
+        if (!response.ok) throw new Error(result.error);
+        setContract(result.data);
+      } catch (error) {
+        console.error('Error loading contract:', error);
+      }
+    };
+
+    loadContract();
+  }, [user, hasJob, jobId]);
+
   useEffect(() => {
     // Auto-select employee role for job applicants
     if (user && !loading) {
@@ -127,44 +167,85 @@ export default function JobApplicationPage() {
     }
   }, [user, loading, ensureEmployeeRole]);
 
+  const goToNextStep = (from: ApplyStep) => {
+    const order = getApplySteps(jobOpening, !!contract || !!contractError);
+    setCurrentStep(order[order.indexOf(from) + 1] ?? 'submit');
+  };
+
   const handleCvUpload = (url: string) => {
     setApplicationData(prev => ({ ...prev, cvUrl: url }));
-    setCurrentStep(2);
+    goToNextStep('cv');
   };
 
-  const handleQuizComplete = (passed: boolean, score: number) => {
-    setApplicationData(prev => ({ 
-      ...prev, 
-      quizCompleted: passed,
-      quizScore: score 
-    }));
-    if (passed) {
-      setCurrentStep(3);
-    }
+  const handleScreeningComplete = (answers: ScreeningAnswer[]) => {
+    setApplicationData(prev => ({ ...prev, screeningAnswers: answers }));
+    goToNextStep('screening');
+  };
+
+  // The score is recorded for the hiring team; it does not block the application
+  const handleAssessmentComplete = (result: AssessmentResult) => {
+    setApplicationData(prev => ({ ...prev, assessmentResult: result }));
   };
 
-  const handleContractSigned = () => {
-    setApplicationData(prev => ({ ...prev, contractSigned: true }));
-    setCurrentStep(4);
+  const handleContractSignatureReady = (signature: SignatureValues) => {
+    setApplicationData(prev => ({ ...prev, contractSignature: signature }));
+    goToNextStep('contract');
   };
 
   const submitApplication = async () => {
     if (!user || !jobOpening) return;
+    // Also enforced when the application is inserted (queries/required-cover-letters.sql)
+    if (jobOpening.requires_cover_letter && !applicationData.coverLetter.trim()) return;
 
     setSubmitting(true);
     try {
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      const { error } = await (supabase as any)
-        .from('job_applications')
-        .insert({
-          job_opening_id: jobOpening.id,
-          applicant_id: user.id,
-          cv_url: applicationData.cvUrl,
-          cover_letter: applicationData.coverLetter,
-          aptitude_score: applicationData.quizScore,
-          status: 'pending'
-        });      if (error) throw error;
+      const application = await repo.applications.create({
+        job_opening_id: jobOpening.id,
+        applicant_id: user.id,
+        resume_url: applicationData.cvUrl,
+        cover_letter: applicationData.coverLetter.trim() || undefined,
+        screening_answers: applicationData.screeningAnswers ?? [],
+      });
+
+      const { assessmentResult } = applicationData;
+      if (assessmentResult) {
+        // The score is copied from the graded attempt server-side
+        const response = await fetch(`/api/applications/${application.id}/assessment`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ attempt_id: assessmentResult.attemptId }),
+        });
+        if (!response.ok) {
+          console.error('Error linking assessment attempt:', (await response.json()).error);
+        }
+      }
+
+      // Knocked-out applications are closed, so there is nothing to sign
+      const { contractSignature } = applicationData;
+      if (contractSignature && application.status !== 'rejected') {
+        const response = await fetch('/api/contract-signatures', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            document: 'job',
+            job_id: jobOpening.id,
+            application_id: application.id,
+            ...contractSignature,
+          }),
+        });
+        if (!response.ok) {
+          const { error } = await response.json();
+          console.error('Error signing contract:', error);
+          setContractSignError(error || 'Failed to sign contract');
+        }
+      }
 
+      // Emails are sent in the background; a failure here does not undo the application
+      fetch(`/api/applications/${application.id}/submitted`, { method: 'POST' })
+        .catch((error) => console.error('Error sending application emails:', error));
+
+      // Knock-out screening answers reject the application on insert
+      setKnockedOut(application.status === 'rejected');
       setSubmitted(true);
     } catch (error) {
       console.error('Error submitting application:', error);
@@ -212,7 +293,7 @@ export default function JobApplicationPage() {
             <div className="space-y-2">
               <h3 className="font-medium">{jobOpening.title}</h3>
               <p className="text-sm text-muted-foreground">
-                at {jobOpening.companies?.name}
+                at {jobOpening.company?.name}
               </p>
             </div>
             <Button onClick={() => signInWithGoogle()} className="w-full">
@@ -232,9 +313,17 @@ export default function JobApplicationPage() {
             <CheckCircle className="mx-auto h-12 w-12 text-green-600 mb-4" />
             <h2 className="text-xl font-semibold mb-2">Application Submitted!</h2>
             <p className="text-muted-foreground mb-4">
-              Thank you for applying to {jobOpening.title} at {jobOpening.companies?.name}.
-              We&apos;ll review your application and get back to you soon.
+              Thank you for applying to {jobOpening.title} at {jobOpening.company?.name}.
+              {knockedOut
+                ? " Unfortunately your answers do not meet the requirements for this role, so we won't be taking your application further."
+                : " We'll review your application and get back to you soon."}
             </p>
+            {contractSignError && (
+              <div className="text-sm text-destructive mb-4 space-y-1">
+                <p>Your contract could not be signed. The employer can send it to you again.</p>
+                <p className="text-xs">{contractSignError}</p>
+              </div>
+            )}
             <Button onClick={() => router.push('/protected')}>
               Go to Dashboard
             </Button>
@@ -244,12 +333,20 @@ export default function JobApplicationPage() {
     );
   }
 
-  const steps = [
-    { number: 1, title: "Upload CV", completed: !!applicationData.cvUrl },
-    { number: 2, title: "Complete Assessment", completed: applicationData.quizCompleted },
-    { number: 3, title: "Review Contract", completed: applicationData.contractSigned },
-    { number: 4, title: "Submit Application", completed: false }
-  ];
+  const screeningQuestions = jobOpening.screening_questions ?? [];
+  const coverLetterMissing = jobOpening.requires_cover_letter && !applicationData.coverLetter.trim();
+  const completedSteps: Record<ApplyStep, boolean> = {
+    cv: !!applicationData.cvUrl,
+    screening: !!applicationData.screeningAnswers,
+    assessment: !!applicationData.assessmentResult,
+    contract: !!applicationData.contractSignature,
+    submit: false,
+  };
+  const steps = getApplySteps(jobOpening, !!contract || !!contractError).map((key) => ({
+    key,
+    title: STEP_TITLES[key],
+    completed: completedSteps[key],
+  }));
 
   return (
     <div className="min-h-screen bg-background">
@@ -263,19 +360,19 @@ export default function JobApplicationPage() {
                 <div className="flex items-center gap-4 text-muted-foreground">
                   <span className="flex items-center gap-1">
                     <Building className="h-4 w-4" />
-                    {jobOpening.companies?.name}
+                    {jobOpening.company?.name}
                   </span>
                   <span className="flex items-center gap-1">
                     <MapPin className="h-4 w-4" />
-                    {jobOpening.location}
+                    {jobOpening.location || (jobOpening.work_arrangement === 'remote' ? 'Remote' : 'Location not specified')}
                   </span>
                   <span className="flex items-center gap-1">
                     <Briefcase className="h-4 w-4" />
-                    {jobOpening.employment_type}
+                    {getEmploymentTypeLabel(jobOpening.employment_type)}
                   </span>
                 </div>
               </div>
-              <Badge variant="default">{jobOpening.companies?.industry}</Badge>
+              <Badge variant="default">{jobOpening.company?.industry}</Badge>
             </div>
           </CardHeader>
           <CardContent>
@@ -297,18 +394,18 @@ export default function JobApplicationPage() {
           <CardContent>
             <div className="flex items-center gap-4">
               {steps.map((step, index) => (
-                <div key={step.number} className="flex items-center gap-2">
+                <div key={step.key} className="flex items-center gap-2">
                   <div className={`
                     w-8 h-8 rounded-full flex items-center justify-center text-sm font-medium
                     ${step.completed ? 'bg-green-600 text-white' : 
-                      currentStep === step.number ? 'bg-primary text-white' : 
+                      currentStep === step.key ? 'bg-primary text-white' : 
                       'bg-muted text-muted-foreground'}
                   `}>
-                    {step.completed ? '✓' : step.number}
+                    {step.completed ? '✓' : index + 1}
                   </div>
                   <span className={`text-sm ${
                     step.completed ? 'text-green-600' : 
-                    currentStep === step.number ? 'text-primary' : 
+                    currentStep === step.key ? 'text-primary' : 
                     'text-muted-foreground'
                   }`}>
                     {step.title}
@@ -323,7 +420,7 @@ export default function JobApplicationPage() {
         </Card>
 
         {/* Current Step Content */}
-        {currentStep === 1 && (
+        {currentStep === 'cv' && (
           <Card>
             <CardHeader>
               <CardTitle className="flex items-center gap-2">
@@ -340,7 +437,28 @@ export default function JobApplicationPage() {
           </Card>
         )}
 
-        {currentStep === 2 && (
+        {currentStep === 'screening' && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <ListChecks className="h-5 w-5" />
+                Screening Questions
+              </CardTitle>
+              <CardDescription>
+                A few questions from {jobOpening.company?.name || 'the employer'} about this role
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <ScreeningQuestionsForm
+                questions={screeningQuestions}
+                initialAnswers={applicationData.screeningAnswers ?? []}
+                onComplete={handleScreeningComplete}
+              />
+            </CardContent>
+          </Card>
+        )}
+
+        {currentStep === 'assessment' && jobOpening.assessment_id && (
           <Card>
             <CardHeader>
               <CardTitle className="flex items-center gap-2">
@@ -348,30 +466,45 @@ export default function JobApplicationPage() {
                 Complete Assessment
               </CardTitle>
               <CardDescription>
-                Take this quick assessment to demonstrate your skills
+                Take this assessment to demonstrate your skills for this role
               </CardDescription>
             </CardHeader>
             <CardContent>
-              <QuizComponent onQuizComplete={handleQuizComplete} />
+              <AssessmentRunner
+                assessmentId={jobOpening.assessment_id}
+                onComplete={handleAssessmentComplete}
+              />
+              {applicationData.assessmentResult && (
+                <Button onClick={() => goToNextStep('assessment')} className="w-full mt-4">
+                  Continue
+                </Button>
+              )}
             </CardContent>
           </Card>
         )}
 
-        {currentStep === 3 && (
+        {currentStep === 'contract' && (
           <Card>
             <CardHeader>
               <CardTitle>Review and Sign Contract</CardTitle>
               <CardDescription>
-                Please review the employment contract terms
+                Please review the contract from {jobOpening.company?.name || 'the employer'}
               </CardDescription>
             </CardHeader>
             <CardContent>
-              <ContractViewer onSigned={handleContractSigned} />
+              {contract ? (
+                <ContractViewer contract={contract} onSignatureReady={handleContractSignatureReady} />
+              ) : (
+                <div className="flex items-start gap-2 text-sm text-destructive">
+                  <AlertCircle className="h-4 w-4 mt-0.5 shrink-0" />
+                  <p>{contractError}</p>
+                </div>
+              )}
             </CardContent>
           </Card>
         )}
 
-        {currentStep === 4 && (
+        {currentStep === 'submit' && (
           <Card>
             <CardHeader>
               <CardTitle>Final Step: Submit Application</CardTitle>
@@ -381,7 +514,9 @@ export default function JobApplicationPage() {
             </CardHeader>
             <CardContent className="space-y-4">
               <div className="space-y-2">
-                <Label htmlFor="coverLetter">Cover Letter (Optional)</Label>
+                <Label htmlFor="coverLetter">
+                  Cover Letter {jobOpening.requires_cover_letter ? '*' : '(Optional)'}
+                </Label>
                 <Textarea
                   id="coverLetter"
                   placeholder="Tell us why you're interested in this position..."
@@ -392,20 +527,30 @@ export default function JobApplicationPage() {
                   }))}
                   rows={6}
                 />
+                {coverLetterMissing && (
+                  <p className="text-xs text-muted-foreground">This job asks for a cover letter.</p>
+                )}
               </div>
               
               <div className="bg-muted/50 p-4 rounded-lg space-y-2">
                 <h4 className="font-medium">Application Summary:</h4>
                 <ul className="text-sm space-y-1">
                   <li>✓ CV uploaded</li>
-                  <li>✓ Assessment completed (Score: {applicationData.quizScore}%)</li>
-                  <li>✓ Contract reviewed and signed</li>
+                  {applicationData.screeningAnswers && (
+                    <li>✓ Screening questions answered</li>
+                  )}
+                  {applicationData.assessmentResult && (
+                    <li>✓ Assessment completed (Score: {applicationData.assessmentResult.score}%)</li>
+                  )}
+                  {applicationData.contractSignature && (
+                    <li>✓ Contract reviewed; it is signed when you submit</li>
+                  )}
                 </ul>
               </div>
 
               <Button 
                 onClick={submitApplication} 
-                disabled={submitting}
+                disabled={submitting || coverLetterMissing}
                 className="w-full"
                 size="lg"
               >
@@ -0,0 +1,40 @@
+import type { Metadata } from "next";
+import { notFound } from "next/navigation";
+import { z } from "zod";
+import { createAdminRepository } from "@/lib/supabase/admin";
+import { loadInterviewContext } from "@/lib/interviews/emails";
+import { toInterviewBooking } from "@/lib/interviews/scheduling";
+import { InterviewBookingPanel } from "@/components/interview-booking";
+
+export const metadata: Metadata = {
+  title: 'Your interview | Uwezo Career Platform',
+  robots: { index: false, follow: false },
+};
+
+interface InterviewBookingPageProps {
+  params: Promise<{ token: string }>;
+}
+
+/**
+ * Where the candidate's interview emails link to: pick or change a time,
+ * cancel, or download the calendar file.
+ */
+export default async function InterviewBookingPage({ params }: InterviewBookingPageProps) {
+  const { token } = await params;
+  const validToken = z.string().uuid().safeParse(token);
+  if (!validToken.success) notFound();
+
+  const repo = createAdminRepository();
+  const interview = await repo.interviews.getByBookingToken(validToken.data);
+  if (!interview) notFound();
+
+  const { jobTitle, companyName } = await loadInterviewContext(repo, interview);
+
+  return (
+    <InterviewBookingPanel
+      initialBooking={toInterviewBooking(interview)}
+      jobTitle={jobTitle}
+      companyName={companyName}
+    />
+  );
+}
@@ -0,0 +1,30 @@
+import Link from "next/link";
+import { AuthButton } from "@/components/auth-button";
+import { ThemeSwitcher } from "@/components/theme-switcher";
+
+export default function InterviewsLayout({
+  children,
+}: Readonly<{
+  children: React.ReactNode;
+}>) {
+  return (
+    <main className="min-h-screen flex flex-col">
+      <nav className="w-full border-b border-b-foreground/10">
+        <div className="container mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between items-center h-16">
+            <Link href="/" className="text-xl font-bold">
+              Uwezo Career Platform
+            </Link>
+            <div className="flex items-center gap-4">
+              <AuthButton />
+              <ThemeSwitcher />
+            </div>
+          </div>
+        </div>
+      </nav>
+      <div className="flex-1 container mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {children}
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,223 @@
+import { cache } from "react";
+import type { Metadata } from "next";
+import Link from "next/link";
+import { notFound, permanentRedirect } from "next/navigation";
+import { createClient } from "@/lib/supabase/server";
+import { createAdminRepository } from "@/lib/supabase/admin";
+import { createRepository } from "@/lib/supabase/repository";
+import {
+  SENIORITY_LABELS,
+  WORK_ARRANGEMENT_LABELS,
+  formatSalaryRange,
+  getEmploymentTypeLabel,
+} from "@/lib/jobs/format";
+import { buildJobPostingSchema, serializeJsonLd } from "@/lib/jobs/structured-data";
+import { getAbsoluteUrl } from "@/lib/utils";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { ArrowLeft, Building, Calendar, ExternalLink, MapPin } from "lucide-react";
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+interface JobPageProps {
+  params: Promise<{ slug: string }>;
+}
+
+/**
+ * Load a posting by slug, or by ID for postings published before slugs.
+ * Private postings are hidden from the table's public policy but open to
+ * anyone with the link, so this reads with the service role and
+ * canViewJob decides.
+ */
+const loadJob = cache(async (slug: string) => {
+  const admin = createAdminRepository();
+  return UUID_PATTERN.test(slug) ? admin.jobOpenings.get(slug) : admin.jobOpenings.getBySlug(slug);
+});
+
+type PublicJob = NonNullable<Awaited<ReturnType<typeof loadJob>>>;
+
+// Public and private postings are open to everyone; internal ones only to the company's members
+const canViewJob = cache(async (job: PublicJob) => {
+  if (job.status !== 'active') return false;
+  if (job.visibility !== 'internal') return true;
+
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return false;
+
+  return !!(await createRepository(supabase).companyMembers.getMembership(job.company_id, user.id));
+});
+
+export async function generateMetadata({ params }: JobPageProps): Promise<Metadata> {
+  const { slug } = await params;
+  const job = await loadJob(slug);
+  if (!job || !(await canViewJob(job))) {
+    return { title: 'Job not found | Uwezo Career Platform' };
+  }
+
+  const companyName = job.company?.name;
+  return {
+    title: `${job.title}${companyName ? ` at ${companyName}` : ''} | Uwezo Career Platform`,
+    description: job.description.slice(0, 160),
+    alternates: { canonical: `/jobs/${job.slug ?? job.id}` },
+    openGraph: {
+      title: job.title,
+      description: job.description.slice(0, 160),
+      type: 'website',
+    },
+    // Only public postings belong in search results
+    ...(job.visibility !== 'public' ? { robots: { index: false, follow: false } } : {}),
+  };
+}
+
+export default async function JobPage({ params }: JobPageProps) {
+  const { slug } = await params;
+  const job = await loadJob(slug);
+  if (!job || !(await canViewJob(job))) {
+    notFound();
+  }
+
+  // Links by ID move to the slug once the posting has one
+  if (job.slug && slug !== job.slug) {
+    permanentRedirect(`/jobs/${job.slug}`);
+  }
+
+  const company = job.company;
+  const salary = formatSalaryRange(job);
+  const deadlinePassed = !!job.application_deadline && new Date(job.application_deadline) < new Date();
+  const structuredData = job.visibility === 'public'
+    ? buildJobPostingSchema(job, company, getAbsoluteUrl(`/jobs/${job.slug ?? job.id}`))
+    : null;
+
+  return (
+    <div className="max-w-4xl mx-auto space-y-6">
+      {structuredData && (
+        <script
+          type="application/ld+json"
+          dangerouslySetInnerHTML={{ __html: serializeJsonLd(structuredData) }}
+        />
+      )}
+
+      <Link href="/jobs" className="inline-flex items-center text-sm text-muted-foreground hover:text-foreground">
+        <ArrowLeft className="mr-2 h-4 w-4" />
+        All jobs
+      </Link>
+
+      <Card>
+        <CardHeader>
+          <div className="flex flex-col gap-4 sm:flex-row sm:items-start sm:justify-between">
+            <div className="space-y-2">
+              <CardTitle className="text-3xl">{job.title}</CardTitle>
+              <CardDescription className="flex flex-wrap items-center gap-x-4 gap-y-1 text-base">
+                <span className="flex items-center gap-1">
+                  <Building className="h-4 w-4" />
+                  {company?.name || 'Unknown Company'}
+                </span>
+                <span className="flex items-center gap-1">
+                  <MapPin className="h-4 w-4" />
+                  {job.location || WORK_ARRANGEMENT_LABELS[job.work_arrangement]}
+                </span>
+              </CardDescription>
+              <div className="flex flex-wrap items-center gap-2">
+                <Badge variant="outline">{getEmploymentTypeLabel(job.employment_type)}</Badge>
+                <Badge variant="outline">{WORK_ARRANGEMENT_LABELS[job.work_arrangement]}</Badge>
+                {job.seniority_level && <Badge variant="outline">{SENIORITY_LABELS[job.seniority_level]}</Badge>}
+                {job.visibility === 'internal' && <Badge variant="secondary">Internal</Badge>}
+              </div>
+              {salary && <p className="font-medium text-green-600">{salary}</p>}
+            </div>
+
+            {deadlinePassed ? (
+              <Badge variant="secondary">Applications closed</Badge>
+            ) : (
+              <Button asChild size="lg">
+                <Link href={`/apply/${job.id}`}>
+                  Apply Now
+                  <ExternalLink className="ml-2 h-4 w-4" />
+                </Link>
+              </Button>
+            )}
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="flex flex-wrap gap-x-6 gap-y-1 text-sm text-muted-foreground">
+            {job.published_at && (
+              <span>Posted {new Date(job.published_at).toLocaleDateString()}</span>
+            )}
+            {job.application_deadline && (
+              <span className="flex items-center gap-1">
+                <Calendar className="h-4 w-4" />
+                Apply by {new Date(job.application_deadline).toLocaleDateString()}
+              </span>
+            )}
+            <span>{job.positions_available} position(s)</span>
+          </div>
+
+          <section className="space-y-2">
+            <h2 className="text-lg font-semibold">About the role</h2>
+            <p className="whitespace-pre-line text-sm leading-relaxed">{job.description}</p>
+          </section>
+
+          {job.responsibilities && (
+            <section className="space-y-2">
+              <h2 className="text-lg font-semibold">Responsibilities</h2>
+              <p className="whitespace-pre-line text-sm leading-relaxed">{job.responsibilities}</p>
+            </section>
+          )}
+
+          {job.requirements && (
+            <section className="space-y-2">
+              <h2 className="text-lg font-semibold">Requirements</h2>
+              <p className="whitespace-pre-line text-sm leading-relaxed">{job.requirements}</p>
+            </section>
+          )}
+
+          {(job.required_skills?.length > 0 || job.preferred_skills?.length > 0 || job.min_years_experience > 0) && (
+            <section className="space-y-3">
+              <h2 className="text-lg font-semibold">Skills & Experience</h2>
+              {job.required_skills?.length > 0 && (
+                <div className="flex flex-wrap gap-2">
+                  {job.required_skills.map((skill) => <Badge key={skill}>{skill}</Badge>)}
+                </div>
+              )}
+              {job.preferred_skills?.length > 0 && (
+                <div className="space-y-1">
+                  <p className="text-sm text-muted-foreground">Nice to have</p>
+                  <div className="flex flex-wrap gap-2">
+                    {job.preferred_skills.map((skill) => <Badge key={skill} variant="outline">{skill}</Badge>)}
+                  </div>
+                </div>
+              )}
+              {job.min_years_experience > 0 && (
+                <p className="text-sm">At least {job.min_years_experience} years of experience</p>
+              )}
+            </section>
+          )}
+        </CardContent>
+      </Card>
+
+      {company && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Building className="h-5 w-5" />
+              About {company.name}
+            </CardTitle>
+            {company.industry && <CardDescription>{company.industry}</CardDescription>}
+          </CardHeader>
+          {(company.description || company.website) && (
+            <CardContent className="space-y-2 text-sm">
+              {company.description && <p className="whitespace-pre-line">{company.description}</p>}
+              {company.website && (
+                <a href={company.website} target="_blank" rel="noopener noreferrer" className="text-primary hover:underline">
+                  {company.website}
+                </a>
+              )}
+            </CardContent>
+          )}
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,77 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import { z } from "zod";
+import { createAdminRepository } from "@/lib/supabase/admin";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { BellOff } from "lucide-react";
+
+export const metadata: Metadata = {
+  title: 'Unsubscribe from job alerts | Uwezo Career Platform',
+  robots: { index: false, follow: false },
+};
+
+interface UnsubscribePageProps {
+  searchParams: Promise<{ token?: string; scope?: string; done?: string }>;
+}
+
+/**
+ * Where the unsubscribe links in job alert emails land. Nothing changes
+ * until the visitor confirms, so link scanners cannot unsubscribe anyone.
+ */
+export default async function UnsubscribePage({ searchParams }: UnsubscribePageProps) {
+  const { token, scope, done } = await searchParams;
+  const all = scope === 'all';
+  const validToken = z.string().uuid().safeParse(token);
+  const search = validToken.success
+    ? await createAdminRepository().savedSearches.getByUnsubscribeToken(validToken.data)
+    : null;
+
+  if (!token || !search) {
+    return (
+      <Card className="max-w-lg mx-auto">
+        <CardHeader>
+          <CardTitle>Link not recognised</CardTitle>
+          <CardDescription>
+            This unsubscribe link is no longer valid. The saved search may have been deleted.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Button variant="outline" asChild>
+            <Link href="/protected/employee">Manage job alerts</Link>
+          </Button>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card className="max-w-lg mx-auto">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <BellOff className="h-5 w-5" />
+          {done ? 'You are unsubscribed' : all ? 'Stop all job alerts?' : 'Stop this job alert?'}
+        </CardTitle>
+        <CardDescription>
+          {done
+            ? all
+              ? 'You will no longer receive job alert emails. You can turn them back on from your dashboard.'
+              : `You will no longer receive emails for "${search.name}". The search stays saved.`
+            : all
+              ? 'You will stop receiving job alert emails for all of your saved searches.'
+              : `You will stop receiving emails about new jobs for "${search.name}".`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="flex flex-wrap gap-2">
+        {!done && (
+          <form method="post" action={`/api/job-alerts/unsubscribe?token=${encodeURIComponent(token)}${all ? '&scope=all' : ''}`}>
+            <Button type="submit">{all ? 'Stop all job alerts' : 'Stop this alert'}</Button>
+          </form>
+        )}
+        <Button variant="outline" asChild>
+          <Link href="/protected/employee">Manage job alerts</Link>
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,314 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import { createClient } from "@/lib/supabase/server";
+import { createRepository } from "@/lib/supabase/repository";
+import {
+  JOB_BOARD_PAGE_SIZE,
+  buildJobBoardHref,
+  filterJobBoard,
+  getFacetCounts,
+  hasActiveFilters,
+  parseJobBoardFilters,
+  toJobBoardParams,
+  toJobSearchQuery,
+  toggleFacetHref,
+  type FacetOption,
+  type JobBoardFilters,
+  type JobBoardSearchParams,
+} from "@/lib/jobs/board";
+import { WORK_ARRANGEMENT_LABELS, formatSalaryRange, getEmploymentTypeLabel } from "@/lib/jobs/format";
+import { cn } from "@/lib/utils";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { SaveSearchButton } from "@/components/save-search-button";
+import { Building, Check, ChevronLeft, ChevronRight, MapPin, Search } from "lucide-react";
+
+// Facets are counted over at most this many search results
+const MAX_SEARCH_RESULTS = 1000;
+
+interface JobsPageProps {
+  searchParams: Promise<JobBoardSearchParams>;
+}
+
+export async function generateMetadata({ searchParams }: JobsPageProps): Promise<Metadata> {
+  const filters = parseJobBoardFilters(await searchParams);
+  const filtered = !!filters.q || hasActiveFilters(filters) || filters.page > 1;
+
+  return {
+    title: filters.q ? `${filters.q} jobs | Uwezo Career Platform` : 'Jobs | Uwezo Career Platform',
+    description: 'Browse open roles from companies hiring on Uwezo and apply online.',
+    alternates: { canonical: '/jobs' },
+    // Searches and filtered pages are for visitors; only the board itself is indexed
+    ...(filtered ? { robots: { index: false, follow: true } } : {}),
+  };
+}
+
+// Hidden inputs so a new search or salary range keeps the other filters
+function FilterFields({ filters }: { filters: JobBoardFilters }) {
+  return (
+    <>
+      {Array.from(toJobBoardParams(filters)).map(([name, value]) => (
+        <input key={`${name}-${value}`} type="hidden" name={name} value={value} />
+      ))}
+    </>
+  );
+}
+
+function FacetGroup({ title, options, isSelected, hrefFor }: {
+  title: string;
+  options: FacetOption[];
+  isSelected: (value: string) => boolean;
+  hrefFor: (value: string) => string;
+}) {
+  const visible = options.filter((option) => option.count > 0 || isSelected(option.value));
+  if (visible.length === 0) return null;
+
+  return (
+    <div className="space-y-2">
+      <h3 className="text-sm font-semibold">{title}</h3>
+      <ul className="space-y-1">
+        {visible.map((option) => {
+          const selected = isSelected(option.value);
+          return (
+            <li key={option.value}>
+              <Link
+                href={hrefFor(option.value)}
+                scroll={false}
+                className="flex items-center justify-between gap-2 rounded px-1 py-0.5 text-sm hover:bg-muted"
+              >
+                <span className="flex items-center gap-2">
+                  <span
+                    className={cn(
+                      "flex h-4 w-4 items-center justify-center rounded border",
+                      selected && "border-primary bg-primary text-primary-foreground"
+                    )}
+                  >
+                    {selected && <Check className="h-3 w-3" />}
+                  </span>
+                  {option.label}
+                </span>
+                <span className="text-xs text-muted-foreground">{option.count}</span>
+              </Link>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
+
+export default async function JobsPage({ searchParams }: JobsPageProps) {
+  const filters = parseJobBoardFilters(await searchParams);
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+  const repo = createRepository(supabase);
+
+  const entries = await repo.jobOpenings.searchPublic(filters.q, MAX_SEARCH_RESULTS);
+  const matching = filterJobBoard(entries, filters);
+  const facets = getFacetCounts(entries, filters);
+  const isSameLocation = (value: string) => value.toLowerCase() === filters.location?.toLowerCase();
+
+  const pageCount = Math.max(1, Math.ceil(matching.length / JOB_BOARD_PAGE_SIZE));
+  const page = Math.min(filters.page, pageCount);
+  const pageIds = matching
+    .slice((page - 1) * JOB_BOARD_PAGE_SIZE, page * JOB_BOARD_PAGE_SIZE)
+    .map((entry) => entry.id);
+
+  // Full rows only for the page being shown, in search order
+  const jobMap = new Map((await repo.jobOpenings.listByIds(pageIds)).map((job) => [job.id, job]));
+  const jobs = pageIds.flatMap((id) => jobMap.get(id) ?? []);
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight">Find your next role</h1>
+        <p className="text-muted-foreground">
+          {matching.length} open {matching.length === 1 ? 'position' : 'positions'}
+          {filters.q && <> matching &ldquo;{filters.q}&rdquo;</>}
+        </p>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        <form action="/jobs" className="flex flex-1 gap-2">
+          <FilterFields filters={{ ...filters, q: '', page: 1 }} />
+          <Input
+            name="q"
+            defaultValue={filters.q}
+            placeholder="Search by title, skill or keyword"
+            aria-label="Search jobs"
+            className="max-w-xl"
+          />
+          <Button type="submit">
+            <Search className="mr-2 h-4 w-4" />
+            Search
+          </Button>
+        </form>
+        <SaveSearchButton userId={user?.id ?? null} query={toJobSearchQuery(filters)} />
+      </div>
+
+      <div className="grid gap-8 md:grid-cols-[16rem_1fr]">
+        <aside className="space-y-6">
+          {hasActiveFilters(filters) && (
+            <Link href={buildJobBoardHref(filters, {
+              employment_type: [],
+              work_arrangement: [],
+              seniority_level: [],
+              location: null,
+              salary_min: null,
+              salary_max: null,
+              currency: null,
+            })} className="text-sm text-primary hover:underline">
+              Clear all filters
+            </Link>
+          )}
+
+          <FacetGroup
+            title="Employment Type"
+            options={facets.employment_type}
+            isSelected={(value) => filters.employment_type.some((selected) => selected === value)}
+            hrefFor={(value) => toggleFacetHref(filters, 'employment_type', value)}
+          />
+          <FacetGroup
+            title="Work Arrangement"
+            options={facets.work_arrangement}
+            isSelected={(value) => filters.work_arrangement.some((selected) => selected === value)}
+            hrefFor={(value) => toggleFacetHref(filters, 'work_arrangement', value)}
+          />
+          <FacetGroup
+            title="Seniority"
+            options={facets.seniority_level}
+            isSelected={(value) => filters.seniority_level.some((selected) => selected === value)}
+            hrefFor={(value) => toggleFacetHref(filters, 'seniority_level', value)}
+          />
+          <FacetGroup
+            title="Location"
+            options={filters.location && !facets.location.some((option) => isSameLocation(option.value))
+              ? [{ value: filters.location, label: filters.location, count: 0 }, ...facets.location]
+              : facets.location}
+            isSelected={isSameLocation}
+            hrefFor={(value) => buildJobBoardHref(filters, { location: isSameLocation(value) ? null : value })}
+          />
+
+          <form action="/jobs" className="space-y-2">
+            <FilterFields filters={{ ...filters, salary_min: null, salary_max: null, currency: null, page: 1 }} />
+            <h3 className="text-sm font-semibold">Salary</h3>
+            <div className="grid grid-cols-2 gap-2">
+              <div className="space-y-1">
+                <Label htmlFor="salary_min" className="text-xs">Min</Label>
+                <Input id="salary_min" name="salary_min" type="number" min="0" defaultValue={filters.salary_min ?? ''} />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="salary_max" className="text-xs">Max</Label>
+                <Input id="salary_max" name="salary_max" type="number" min="0" defaultValue={filters.salary_max ?? ''} />
+              </div>
+            </div>
+            {facets.currency.length > 0 && (
+              <div className="space-y-1">
+                <Label htmlFor="currency" className="text-xs">Currency</Label>
+                <select
+                  id="currency"
+                  name="currency"
+                  defaultValue={filters.currency ?? ''}
+                  className="flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-sm"
+                >
+                  <option value="">Any currency</option>
+                  {facets.currency.map((option) => (
+                    <option key={option.value} value={option.value}>
+                      {option.label} ({option.count})
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
+            <Button type="submit" variant="outline" size="sm" className="w-full">
+              Apply
+            </Button>
+          </form>
+        </aside>
+
+        <section className="space-y-4">
+          {jobs.length === 0 ? (
+            <Card>
+              <CardContent className="text-center py-12">
+                <Search className="mx-auto h-12 w-12 text-muted-foreground mb-4" />
+                <h3 className="text-lg font-semibold mb-2">No jobs found</h3>
+                <p className="text-muted-foreground">
+                  Try a different search or remove some filters
+                </p>
+              </CardContent>
+            </Card>
+          ) : (
+            jobs.map((job) => (
+              <Card key={job.id}>
+                <CardHeader>
+                  <div className="flex items-start justify-between gap-4">
+                    <div className="space-y-1">
+                      <CardTitle className="text-lg">
+                        <Link href={`/jobs/${job.slug ?? job.id}`} className="hover:underline">
+                          {job.title}
+                        </Link>
+                      </CardTitle>
+                      <CardDescription className="flex flex-wrap items-center gap-x-4 gap-y-1">
+                        <span className="flex items-center gap-1">
+                          <Building className="h-3 w-3" />
+                          {job.company?.name || 'Unknown Company'}
+                        </span>
+                        <span className="flex items-center gap-1">
+                          <MapPin className="h-3 w-3" />
+                          {job.location || WORK_ARRANGEMENT_LABELS[job.work_arrangement]}
+                        </span>
+                      </CardDescription>
+                    </div>
+                    {job.is_featured && <Badge>Featured</Badge>}
+                  </div>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <Badge variant="outline">{getEmploymentTypeLabel(job.employment_type)}</Badge>
+                    <Badge variant="outline">{WORK_ARRANGEMENT_LABELS[job.work_arrangement]}</Badge>
+                    {formatSalaryRange(job) && (
+                      <span className="text-sm font-medium text-green-600">{formatSalaryRange(job)}</span>
+                    )}
+                  </div>
+                  <p className="text-sm text-muted-foreground line-clamp-2">{job.description}</p>
+                  {job.published_at && (
+                    <p className="text-xs text-muted-foreground">
+                      Posted {new Date(job.published_at).toLocaleDateString()}
+                    </p>
+                  )}
+                </CardContent>
+              </Card>
+            ))
+          )}
+
+          {pageCount > 1 && (
+            <nav className="flex items-center justify-between" aria-label="Pagination">
+              {page > 1 ? (
+                <Button variant="outline" size="sm" asChild>
+                  <Link href={buildJobBoardHref(filters, { page: page - 1 })}>
+                    <ChevronLeft className="mr-1 h-4 w-4" />
+                    Previous
+                  </Link>
+                </Button>
+              ) : <span />}
+              <span className="text-sm text-muted-foreground">
+                Page {page} of {pageCount}
+              </span>
+              {page < pageCount ? (
+                <Button variant="outline" size="sm" asChild>
+                  <Link href={buildJobBoardHref(filters, { page: page + 1 })}>
+                    Next
+                    <ChevronRight className="ml-1 h-4 w-4" />
+                  </Link>
+                </Button>
+              ) : <span />}
+            </nav>
+          )}
+        </section>
+      </div>
+    </div>
+  );
+}
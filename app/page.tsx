@@ -54,6 +54,9 @@ export default function Home() {
               </Link>
             </div>
             <div className="flex items-center gap-4">
+              <Link href="/jobs" className="text-sm font-medium text-muted-foreground hover:text-foreground">
+                Browse Jobs
+              </Link>
               <AuthButton />
               <ThemeSwitcher />
             </div>
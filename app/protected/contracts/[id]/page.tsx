@@ -0,0 +1,105 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { useParams } from "next/navigation";
+import Link from "next/link";
+import { useAuth } from "@/hooks/use-auth";
+import { repo } from "@/lib/supabase/client";
+import { getAwaitingParty } from "@/lib/contracts/signatures";
+import { ContractViewer } from "@/components/contract-viewer";
+import { ContractSignatureDetails } from "@/components/contract-signature-details";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { AlertCircle, ArrowLeft } from "lucide-react";
+import type { ContractSignature } from "@/lib/types/enhanced-database";
+
+export default function CandidateContractPage() {
+  const params = useParams();
+  const { user } = useAuth();
+  const [signature, setSignature] = useState<ContractSignature | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const signatureId = params.id as string;
+
+  useEffect(() => {
+    if (!user) return;
+
+    const load = async () => {
+      try {
+        setSignature(await repo.contractSignatures.get(signatureId));
+      } catch (error) {
+        console.error('Error loading contract:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    load();
+  }, [signatureId, user]);
+
+  if (loading || !user) {
+    return (
+      <div className="flex items-center justify-center min-h-[50vh]">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  // Company members can read the row too; this page is only the candidate's
+  if (!signature || signature.employee_id !== user.id) {
+    return (
+      <Card className="max-w-md mx-auto">
+        <CardContent className="text-center py-8">
+          <AlertCircle className="mx-auto h-12 w-12 text-destructive mb-4" />
+          <h2 className="text-xl font-semibold mb-2">Contract Not Found</h2>
+          <p className="text-muted-foreground">
+            This contract does not exist or you do not have access to it.
+          </p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const awaiting = getAwaitingParty(signature);
+
+  return (
+    <div className="max-w-3xl mx-auto w-full flex flex-col gap-8">
+      <div>
+        <Link
+          href="/protected/employee"
+          className="text-sm text-muted-foreground hover:underline flex items-center gap-1 mb-2"
+        >
+          <ArrowLeft className="h-4 w-4" />
+          Dashboard
+        </Link>
+        <h1 className="text-3xl font-bold">{signature.title}</h1>
+      </div>
+
+      {awaiting === 'employee' ? (
+        <ContractViewer
+          contract={{ signature_id: signature.id, name: signature.title, content: signature.final_contract_content }}
+          onSigned={setSignature}
+        />
+      ) : (
+        <Card>
+          <CardHeader>
+            <CardTitle>Contract</CardTitle>
+            <CardDescription>
+              {awaiting !== 'employer'
+                ? 'Signing is closed for this contract.'
+                : signature.employee_signed_at
+                  ? 'You have signed. The company will countersign next.'
+                  : 'The company signs this contract before you do. We will let you know when it is ready.'}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <ScrollArea className="h-96 border rounded-lg p-4">
+              <div className="whitespace-pre-line text-sm">{signature.final_contract_content}</div>
+            </ScrollArea>
+            <ContractSignatureDetails signature={signature} />
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
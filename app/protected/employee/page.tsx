@@ -3,7 +3,7 @@
 import { useState, useEffect } from "react";
 import { useAuth } from "@/hooks/use-auth";
 import { useRole } from "@/hooks/use-role";
-import { createClient } from "@/lib/supabase/client";
+import { repo } from "@/lib/supabase/client";
 import { useRouter } from "next/navigation";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
@@ -20,42 +20,20 @@ import {
   MapPin,
   Building
 } from "lucide-react";
+import { JobRecommendations } from "@/components/job-recommendations";
+import { SavedSearches } from "@/components/saved-searches";
+import { CandidateInterviews } from "@/components/candidate-interviews";
+import { CandidateContracts } from "@/components/candidate-contracts";
+import { getStageLabel } from "@/lib/applications/pipeline";
+import { formatSalaryRange, getEmploymentTypeLabel } from "@/lib/jobs/format";
+import type { ApplicationStatus } from "@/lib/types/enhanced-database";
 
-interface JobApplication {
-  id: string;
-  cv_url: string | null;
-  cover_letter: string | null;
-  aptitude_score: number | null;
-  status: string;
-  created_at: string;
-  job_openings: {
-    id: string;
-    title: string;
-    description: string;
-    location: string;
-    employment_type: string;
-    salary_range: string;
-    companies: {
-      name: string;
-      industry: string;
-    } | null;
-  } | null;
-}
+type JobApplication = Awaited<ReturnType<typeof repo.applications.listForApplicant>>[number];
+type AvailableJob = Awaited<ReturnType<typeof repo.jobOpenings.listActive>>[number];
 
-interface AvailableJob {
-  id: string;
-  title: string;
-  description: string;
-  location: string;
-  employment_type: string;
-  salary_range: string;
-  application_deadline: string;
-  is_active: boolean;
-  companies: {
-    name: string;
-    industry: string;
-  } | null;
-}
+const IN_REVIEW_STATUSES: ApplicationStatus[] = [
+  'submitted', 'screening', 'assessment', 'interview', 'reference_check', 'offer_pending',
+];
 
 export default function EmployeeDashboard() {
   const { user } = useAuth();
@@ -65,8 +43,6 @@ export default function EmployeeDashboard() {
   const [availableJobs, setAvailableJobs] = useState<AvailableJob[]>([]);
   const [loading, setLoading] = useState(true);
 
-  const supabase = createClient();
-
   // Role verification is now handled by useRole hook - no need for local checks
 
   useEffect(() => {
@@ -77,43 +53,16 @@ export default function EmployeeDashboard() {
 
   const loadEmployeeData = async () => {
     try {
-      // Load user's job applications
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      const { data: applicationsData, error: appsError } = await (supabase as any)
-        .from('job_applications')
-        .select(`
-          *,
-          job_openings(
-            id,
-            title,
-            description,
-            location,
-            employment_type,
-            salary_range,
-            companies(name, industry)
-          )
-        `)
-        .eq('applicant_id', user?.id)
-        .order('created_at', { ascending: false });
-
-      if (appsError) throw appsError;
-
-      // Load available job openings
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      const { data: jobsData, error: jobsError } = await (supabase as any)
-        .from('job_openings')
-        .select(`
-          *,
-          companies(name, industry)
-        `)
-        .eq('is_active', true)
-        .gte('application_deadline', new Date().toISOString())
-        .order('created_at', { ascending: false });
+      if (!user) return;
 
-      if (jobsError) throw jobsError;
+      // Load user's job applications and the currently open postings
+      const [applicationsData, jobsData] = await Promise.all([
+        repo.applications.listForApplicant(user.id),
+        repo.jobOpenings.listActive(),
+      ]);
 
-      setApplications(applicationsData || []);
-      setAvailableJobs(jobsData || []);
+      setApplications(applicationsData);
+      setAvailableJobs(jobsData);
     } catch (error) {
       console.error('Error loading employee data:', error);
     } finally {
@@ -121,29 +70,31 @@ export default function EmployeeDashboard() {
     }
   };
 
-  const getStatusIcon = (status: string) => {
+  const getStatusIcon = (status: ApplicationStatus) => {
     switch (status) {
-      case 'pending':
-        return <Clock className="h-4 w-4 text-yellow-600" />;
-      case 'approved':
+      case 'offer_extended':
+      case 'hired':
         return <CheckCircle className="h-4 w-4 text-green-600" />;
       case 'rejected':
         return <XCircle className="h-4 w-4 text-red-600" />;
-      default:
+      case 'withdrawn':
         return <Clock className="h-4 w-4 text-gray-400" />;
+      default:
+        return <Clock className="h-4 w-4 text-yellow-600" />;
     }
   };
 
-  const getStatusColor = (status: string) => {
+  const getStatusColor = (status: ApplicationStatus) => {
     switch (status) {
-      case 'pending':
-        return 'bg-yellow-100 text-yellow-800';
-      case 'approved':
+      case 'offer_extended':
+      case 'hired':
         return 'bg-green-100 text-green-800';
       case 'rejected':
         return 'bg-red-100 text-red-800';
-      default:
+      case 'withdrawn':
         return 'bg-gray-100 text-gray-800';
+      default:
+        return 'bg-yellow-100 text-yellow-800';
     }
   };
 
@@ -185,7 +136,7 @@ export default function EmployeeDashboard() {
               <h3 className="font-medium">Pending Review</h3>
             </div>
             <p className="text-2xl font-bold mt-2">
-              {applications.filter(app => app.status === 'pending').length}
+              {applications.filter(app => IN_REVIEW_STATUSES.includes(app.status)).length}
             </p>
           </CardContent>
         </Card>
@@ -194,18 +145,29 @@ export default function EmployeeDashboard() {
           <CardContent className="p-6">
             <div className="flex items-center gap-2">
               <CheckCircle className="h-5 w-5 text-green-600" />
-              <h3 className="font-medium">Approved</h3>
+              <h3 className="font-medium">Offers</h3>
             </div>
             <p className="text-2xl font-bold mt-2">
-              {applications.filter(app => app.status === 'approved').length}
+              {applications.filter(app => app.status === 'offer_extended' || app.status === 'hired').length}
             </p>
           </CardContent>
         </Card>
       </div>
 
+      <CandidateInterviews
+        applications={applications.map((application) => ({
+          id: application.id,
+          jobTitle: application.job_opening?.title || 'Unknown Position',
+        }))}
+      />
+
+      {user && <CandidateContracts userId={user.id} />}
+
       <Tabs defaultValue="applications" className="space-y-6">
         <TabsList>
           <TabsTrigger value="applications">My Applications</TabsTrigger>
+          <TabsTrigger value="recommended">Recommended</TabsTrigger>
+          <TabsTrigger value="alerts">Job Alerts</TabsTrigger>
           <TabsTrigger value="jobs">Available Jobs</TabsTrigger>
         </TabsList>
 
@@ -242,21 +204,21 @@ export default function EmployeeDashboard() {
                       <div className="flex items-start justify-between">
                         <div className="space-y-1">
                           <h4 className="font-medium">
-                            {application.job_openings?.title || 'Unknown Position'}
+                            {application.job_opening?.title || 'Unknown Position'}
                           </h4>
                           <div className="flex items-center gap-4 text-sm text-muted-foreground">
                             <span className="flex items-center gap-1">
                               <Building className="h-3 w-3" />
-                              {application.job_openings?.companies?.name || 'Unknown Company'}
+                              {application.job_opening?.company?.name || 'Unknown Company'}
                             </span>
                             <span className="flex items-center gap-1">
                               <MapPin className="h-3 w-3" />
-                              {application.job_openings?.location || 'Remote'}
+                              {application.job_opening?.location || 'Remote'}
                             </span>
                           </div>
-                          {application.aptitude_score && (
+                          {application.assessment_score != null && (
                             <p className="text-sm text-muted-foreground">
-                              Assessment Score: {application.aptitude_score}%
+                              Assessment Score: {application.assessment_score}%
                             </p>
                           )}
                         </div>
@@ -264,13 +226,13 @@ export default function EmployeeDashboard() {
                         <div className="flex items-center gap-2">
                           {getStatusIcon(application.status)}
                           <Badge className={getStatusColor(application.status)}>
-                            {application.status}
+                            {getStageLabel(application.status)}
                           </Badge>
                         </div>
                       </div>
                       
                       <p className="text-sm text-muted-foreground">
-                        Applied on {new Date(application.created_at).toLocaleDateString()}
+                        Applied on {new Date(application.submitted_at).toLocaleDateString()}
                       </p>
                       
                       {application.cover_letter && (
@@ -291,6 +253,20 @@ export default function EmployeeDashboard() {
           </Card>
         </TabsContent>
 
+        <TabsContent value="recommended">
+          {user && (
+            <JobRecommendations
+              userId={user.id}
+              jobs={availableJobs}
+              appliedJobIds={applications.map((application) => application.job_opening_id)}
+            />
+          )}
+        </TabsContent>
+
+        <TabsContent value="alerts">
+          {user && <SavedSearches userId={user.id} />}
+        </TabsContent>
+
         <TabsContent value="jobs">
           <Card>
             <CardHeader>
@@ -324,19 +300,19 @@ export default function EmployeeDashboard() {
                           <div className="flex items-center gap-4 text-sm text-muted-foreground">
                             <span className="flex items-center gap-1">
                               <Building className="h-3 w-3" />
-                              {job.companies?.name || 'Unknown Company'}
+                              {job.company?.name || 'Unknown Company'}
                             </span>
                             <span className="flex items-center gap-1">
                               <MapPin className="h-3 w-3" />
-                              {job.location}
+                              {job.location || (job.work_arrangement === 'remote' ? 'Remote' : 'Location not specified')}
                             </span>
                             <Badge variant="outline">
-                              {job.employment_type}
+                              {getEmploymentTypeLabel(job.employment_type)}
                             </Badge>
                           </div>
-                          {job.salary_range && (
+                          {formatSalaryRange(job) && (
                             <p className="text-sm font-medium text-green-600">
-                              {job.salary_range}
+                              {formatSalaryRange(job)}
                             </p>
                           )}
                         </div>
@@ -356,10 +332,12 @@ export default function EmployeeDashboard() {
                       
                       <div className="flex items-center justify-between text-xs text-muted-foreground">
                         <span>
-                          Deadline: {new Date(job.application_deadline).toLocaleDateString()}
+                          {job.application_deadline
+                            ? `Deadline: ${new Date(job.application_deadline).toLocaleDateString()}`
+                            : 'No deadline'}
                         </span>
                         <Badge variant="secondary">
-                          {job.companies?.industry || 'General'}
+                          {job.company?.industry || 'General'}
                         </Badge>
                       </div>
                     </div>
@@ -0,0 +1,230 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { useParams } from "next/navigation";
+import Link from "next/link";
+import { useAuth } from "@/hooks/use-auth";
+import { repo } from "@/lib/supabase/client";
+import { hasCompanyPermission } from "@/lib/companies/permissions";
+import { getPipelineNeighbours, getStageLabel } from "@/lib/applications/pipeline";
+import { isTerminalStatus } from "@/lib/applications/transitions";
+import { getProfileName } from "@/lib/utils";
+import { ApplicationContracts } from "@/components/application-contracts";
+import { ApplicationMaterials } from "@/components/application-materials";
+import { ApplicationNotes } from "@/components/application-notes";
+import { AssessmentIntegrityPanel } from "@/components/assessment-integrity-panel";
+import { InterviewScheduler } from "@/components/interview-scheduler";
+import { InterviewScorecards } from "@/components/interview-scorecards";
+import { StageHistoryTimeline } from "@/components/stage-history-timeline";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { AlertCircle, ArrowLeft, Brain, ChevronLeft, ChevronRight, Star } from "lucide-react";
+import type {
+  AssessmentAttempt,
+  JobApplicationEnhanced,
+  JobOpeningEnhanced,
+  UserProfileEnhanced,
+} from "@/lib/types/enhanced-database";
+
+export default function ApplicationDetailPage() {
+  const params = useParams();
+  const { user } = useAuth();
+  const [application, setApplication] = useState<JobApplicationEnhanced | null>(null);
+  const [job, setJob] = useState<JobOpeningEnhanced | null>(null);
+  const [applicant, setApplicant] = useState<UserProfileEnhanced | null>(null);
+  const [attempts, setAttempts] = useState<AssessmentAttempt[]>([]);
+  // The job's other applications, for moving through the pipeline
+  const [jobApplications, setJobApplications] = useState<JobApplicationEnhanced[]>([]);
+  const [canManage, setCanManage] = useState(false);
+  // From the scorecard panel, which hides it until the user may see it
+  const [overallRating, setOverallRating] = useState<number | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const applicationId = params.id as string;
+
+  useEffect(() => {
+    if (!user) return;
+
+    const load = async () => {
+      try {
+        const data = await repo.applications.get(applicationId);
+        setApplication(data);
+        if (!data) return;
+
+        const [jobData, profiles, attemptRows, siblings] = await Promise.all([
+          repo.jobOpenings.get(data.job_opening_id),
+          repo.profiles.listByUserIds([data.applicant_id]),
+          repo.assessmentAttempts.listForApplication(data.id),
+          repo.applications.listForJobs([data.job_opening_id]),
+        ]);
+        setJob(jobData);
+        setApplicant(profiles[0] ?? null);
+        setAttempts(attemptRows);
+        setJobApplications(siblings);
+
+        if (jobData) {
+          const membership = await repo.companyMembers.getMembership(jobData.company_id, user.id);
+          setCanManage(hasCompanyPermission(membership, 'can_manage_applications'));
+        }
+      } catch (error) {
+        console.error('Error loading application:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    load();
+  }, [applicationId, user]);
+
+  const handleReviewed = (updated: AssessmentAttempt) => {
+    setAttempts((prev) => prev.map((attempt) => (attempt.id === updated.id ? updated : attempt)));
+    setApplication((prev) => prev && {
+      ...prev,
+      assessment_score: updated.status === 'invalidated' ? null : updated.score,
+    });
+  };
+
+  if (loading || !user) {
+    return (
+      <div className="flex items-center justify-center min-h-[50vh]">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  if (!application) {
+    return (
+      <Card className="max-w-md mx-auto">
+        <CardContent className="text-center py-8">
+          <AlertCircle className="mx-auto h-12 w-12 text-destructive mb-4" />
+          <h2 className="text-xl font-semibold mb-2">Application Not Found</h2>
+          <p className="text-muted-foreground">
+            This application does not exist or you do not have access to it.
+          </p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const applicantName = getProfileName(applicant) || 'Applicant';
+  const { previous, next, position, total } = getPipelineNeighbours(jobApplications, application.id);
+
+  return (
+    <div className="flex-1 w-full flex flex-col gap-8">
+      <div>
+        <div className="flex flex-wrap items-center justify-between gap-2 mb-2">
+          <Link
+            href="/protected/employer"
+            className="text-sm text-muted-foreground hover:underline flex items-center gap-1"
+          >
+            <ArrowLeft className="h-4 w-4" />
+            Employer Dashboard
+          </Link>
+          {total > 1 && (
+            <nav className="flex items-center gap-2" aria-label="Applications for this job">
+              <Button variant="outline" size="sm" asChild={!!previous} disabled={!previous}>
+                {previous ? (
+                  <Link href={`/protected/employer/applications/${previous.id}`}>
+                    <ChevronLeft className="h-4 w-4" />
+                    Previous
+                  </Link>
+                ) : (
+                  <span><ChevronLeft className="h-4 w-4" />Previous</span>
+                )}
+              </Button>
+              <span className="text-sm text-muted-foreground">
+                {position} of {total}
+              </span>
+              <Button variant="outline" size="sm" asChild={!!next} disabled={!next}>
+                {next ? (
+                  <Link href={`/protected/employer/applications/${next.id}`}>
+                    Next
+                    <ChevronRight className="h-4 w-4" />
+                  </Link>
+                ) : (
+                  <span>Next<ChevronRight className="h-4 w-4" /></span>
+                )}
+              </Button>
+            </nav>
+          )}
+        </div>
+        <div className="flex flex-wrap items-center gap-3">
+          <h1 className="text-3xl font-bold">{applicantName}</h1>
+          <Badge variant="outline">{getStageLabel(application.status)}</Badge>
+          {overallRating !== null && (
+            <Badge variant="secondary" className="gap-1">
+              <Star className="h-3 w-3" />
+              {overallRating.toFixed(1)}
+            </Badge>
+          )}
+        </div>
+        <p className="text-muted-foreground">
+          Applied for {job?.title ?? 'a job opening'} on {new Date(application.submitted_at).toLocaleDateString()}
+          {applicant?.email && ` • ${applicant.email}`}
+        </p>
+      </div>
+
+      {/* Keyed so moving to the next application starts each panel afresh */}
+      <div key={application.id} className="grid gap-8 lg:grid-cols-[minmax(0,2fr)_minmax(0,1fr)]">
+        <div className="flex flex-col gap-8 min-w-0">
+          <ApplicationMaterials application={application} job={job} />
+
+          {job && (
+            <InterviewScheduler
+              applicationId={application.id}
+              companyId={job.company_id}
+              jobTitle={job.title}
+              canManage={canManage}
+            />
+          )}
+
+          <InterviewScorecards applicationId={application.id} userId={user.id} onRatingChange={setOverallRating} />
+
+          {job && (
+            <ApplicationContracts
+              applicationId={application.id}
+              companyId={job.company_id}
+              userId={user.id}
+              closed={isTerminalStatus(application.status)}
+            />
+          )}
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Brain className="h-5 w-5" />
+                Assessment
+              </CardTitle>
+              <CardDescription>
+                {application.assessment_score !== null
+                  ? `Counted score: ${application.assessment_score}%`
+                  : 'No assessment score counts towards this application.'}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              {attempts.length === 0 ? (
+                <p className="text-sm text-muted-foreground">The applicant has not taken an assessment for this job.</p>
+              ) : (
+                attempts.map((attempt) => (
+                  <div key={attempt.id} className="space-y-2">
+                    <p className="text-sm text-muted-foreground">
+                      Started {new Date(attempt.started_at).toLocaleString()}
+                      {attempt.time_taken_minutes !== null && ` • ${attempt.time_taken_minutes} minutes`}
+                    </p>
+                    <AssessmentIntegrityPanel attempt={attempt} canReview={canManage} onReviewed={handleReviewed} />
+                  </div>
+                ))
+              )}
+            </CardContent>
+          </Card>
+        </div>
+
+        <div className="flex flex-col gap-8 min-w-0">
+          <StageHistoryTimeline application={application} />
+          {job && <ApplicationNotes applicationId={application.id} companyId={job.company_id} userId={user.id} />}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,344 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { useParams, useRouter } from "next/navigation";
+import Link from "next/link";
+import { toast } from "sonner";
+import { useAuth } from "@/hooks/use-auth";
+import { repo } from "@/lib/supabase/client";
+import { getMemberPermissions } from "@/lib/companies/permissions";
+import { downloadAssessmentExport } from "@/lib/assessments/transfer";
+import { duplicateAssessment, listActiveJobsUsing } from "@/lib/assessments/studio";
+import { JOB_STATUS_LABELS } from "@/lib/jobs/lifecycle";
+import { AssessmentEditor } from "@/components/assessment-editor";
+import { AssessmentPreview } from "@/components/assessment-preview";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { AlertCircle, Archive, ArchiveRestore, ArrowLeft, Copy, Download, History } from "lucide-react";
+import type {
+  JobOpeningEnhanced,
+  SkillAssessment,
+  SkillAssessmentVersion,
+} from "@/lib/types/enhanced-database";
+
+export default function AssessmentStudioPage() {
+  const params = useParams();
+  const router = useRouter();
+  const { user } = useAuth();
+  const [assessment, setAssessment] = useState<SkillAssessment | null>(null);
+  const [canManage, setCanManage] = useState(false);
+  const [versions, setVersions] = useState<SkillAssessmentVersion[]>([]);
+  const [previewVersion, setPreviewVersion] = useState<SkillAssessmentVersion | null>(null);
+  const [jobs, setJobs] = useState<JobOpeningEnhanced[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+
+  const assessmentId = params.id as string;
+
+  const loadVersions = useCallback(async () => {
+    try {
+      setVersions(await repo.assessments.listVersions(assessmentId));
+    } catch (error) {
+      console.error('Error loading versions:', error);
+    }
+  }, [assessmentId]);
+
+  useEffect(() => {
+    if (!user) return;
+
+    const load = async () => {
+      try {
+        const data = await repo.assessments.get(assessmentId);
+        setAssessment(data);
+        if (!data?.company_id) return;
+
+        const [companies, companyJobs] = await Promise.all([
+          repo.companies.listForUser(user.id),
+          repo.jobOpenings.listForCompanies([data.company_id]),
+        ]);
+        const company = companies.find((c) => c.id === data.company_id);
+        setCanManage(!!company && getMemberPermissions(company).can_manage_assessments);
+        setJobs(companyJobs);
+        await loadVersions();
+      } catch (error) {
+        console.error('Error loading assessment:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    load();
+  }, [assessmentId, user, loadVersions]);
+
+  const handleSaved = (saved: SkillAssessment) => {
+    setAssessment(saved);
+    loadVersions();
+  };
+
+  const handleDuplicate = async () => {
+    if (!assessment || !user) return;
+    setBusy(true);
+    try {
+      const copy = await duplicateAssessment(repo, assessment, user.id);
+      toast.success('Assessment duplicated');
+      router.push(`/protected/employer/assessments/${copy.id}`);
+    } catch (error) {
+      console.error('Error duplicating assessment:', error);
+      toast.error('Failed to duplicate assessment');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleArchive = async (archive: boolean) => {
+    if (!assessment) return;
+    setBusy(true);
+    try {
+      if (archive) {
+        const activeJobs = await listActiveJobsUsing(repo, assessment);
+        if (activeJobs.length > 0) {
+          toast.error('This assessment is used by open jobs', {
+            description: `Detach it from ${activeJobs.map((job) => job.title).join(', ')} first.`,
+          });
+          return;
+        }
+      }
+
+      setAssessment(await repo.assessments.update(assessment.id, {
+        archived_at: archive ? new Date().toISOString() : null,
+      }));
+      toast.success(archive ? 'Assessment archived' : 'Assessment restored');
+    } catch (error) {
+      console.error('Error archiving assessment:', error);
+      toast.error('Failed to update assessment');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  // Restoring copies the old content forward as a new version, so attempts
+  // against later versions keep their snapshot
+  const handleRestoreVersion = async (version: SkillAssessmentVersion) => {
+    if (!assessment) return;
+    setBusy(true);
+    try {
+      const saved = await repo.assessments.update(assessment.id, {
+        title: version.title,
+        description: version.description,
+        questions: version.questions,
+        time_limit_minutes: version.time_limit_minutes,
+        passing_score: version.passing_score,
+      });
+      handleSaved(saved);
+      setPreviewVersion(null);
+      toast.success(`Restored version ${version.version} as version ${saved.version}`);
+    } catch (error) {
+      console.error('Error restoring version:', error);
+      toast.error('Failed to restore version');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleToggleJob = async (job: JobOpeningEnhanced, attach: boolean) => {
+    if (!assessment) return;
+    try {
+      const updated = await repo.jobOpenings.update(job.id, attach
+        ? { assessment_id: assessment.id, requires_assessment: true }
+        : { assessment_id: null, requires_assessment: false });
+      setJobs((prev) => prev.map((j) => (j.id === job.id ? { ...j, ...updated } : j)));
+      toast.success(attach ? `Attached to ${job.title}` : `Detached from ${job.title}`);
+    } catch (error) {
+      console.error('Error updating job opening:', error);
+      toast.error('Failed to update job opening');
+    }
+  };
+
+  if (loading || !user) {
+    return (
+      <div className="flex items-center justify-center min-h-[50vh]">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  if (!assessment) {
+    return (
+      <Card className="max-w-md mx-auto">
+        <CardContent className="text-center py-8">
+          <AlertCircle className="mx-auto h-12 w-12 text-destructive mb-4" />
+          <h2 className="text-xl font-semibold mb-2">Assessment Not Found</h2>
+          <p className="text-muted-foreground">
+            This assessment does not exist or you do not have access to it.
+          </p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const editable = canManage && !assessment.archived_at;
+
+  return (
+    <div className="flex-1 w-full flex flex-col gap-8">
+      <div className="flex flex-wrap justify-between items-start gap-4">
+        <div>
+          <Link
+            href="/protected/employer/assessments"
+            className="text-sm text-muted-foreground hover:underline flex items-center gap-1 mb-2"
+          >
+            <ArrowLeft className="h-4 w-4" />
+            Assessments
+          </Link>
+          <h1 className="text-3xl font-bold flex items-center gap-3">
+            {assessment.title}
+            <Badge variant="outline">v{assessment.version}</Badge>
+            {assessment.archived_at && <Badge variant="secondary">Archived</Badge>}
+          </h1>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <Button variant="outline" onClick={() => downloadAssessmentExport(assessment)}>
+            <Download className="mr-2 h-4 w-4" />
+            Export
+          </Button>
+          {canManage && (
+            <>
+              <Button variant="outline" onClick={handleDuplicate} disabled={busy}>
+                <Copy className="mr-2 h-4 w-4" />
+                Duplicate
+              </Button>
+              <Button variant="outline" onClick={() => handleArchive(!assessment.archived_at)} disabled={busy}>
+                {assessment.archived_at ? (
+                  <ArchiveRestore className="mr-2 h-4 w-4" />
+                ) : (
+                  <Archive className="mr-2 h-4 w-4" />
+                )}
+                {assessment.archived_at ? 'Restore' : 'Archive'}
+              </Button>
+            </>
+          )}
+        </div>
+      </div>
+
+      <Tabs defaultValue="edit" className="space-y-4">
+        <TabsList>
+          <TabsTrigger value="edit">{editable ? 'Edit' : 'Details'}</TabsTrigger>
+          <TabsTrigger value="preview">Preview</TabsTrigger>
+          <TabsTrigger value="versions">Versions ({versions.length})</TabsTrigger>
+          <TabsTrigger value="jobs">Job Openings</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="edit">
+          {/* Key on the version so a restore reloads the form */}
+          <AssessmentEditor
+            key={`${assessment.id}-${assessment.version}`}
+            userId={user.id}
+            assessment={assessment}
+            readOnly={!editable}
+            onSaved={handleSaved}
+          />
+        </TabsContent>
+
+        <TabsContent value="preview">
+          <Card>
+            <CardHeader>
+              <CardTitle>Candidate Preview</CardTitle>
+              <CardDescription>
+                Try the assessment as a candidate would. Answers are not recorded.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <AssessmentPreview key={assessment.version} assessment={assessment} />
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="versions" className="space-y-4">
+          {versions.map((version) => (
+            <Card key={version.id}>
+              <CardHeader>
+                <div className="flex flex-wrap justify-between items-start gap-4">
+                  <div>
+                    <CardTitle className="flex items-center gap-2">
+                      <History className="h-5 w-5" />
+                      Version {version.version}
+                      {version.version === assessment.version && <Badge>Current</Badge>}
+                    </CardTitle>
+                    <CardDescription>
+                      {version.title} • {version.questions.length} questions • saved{' '}
+                      {new Date(version.created_at).toLocaleString()}
+                    </CardDescription>
+                  </div>
+                  <div className="flex gap-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setPreviewVersion(previewVersion?.id === version.id ? null : version)}
+                    >
+                      {previewVersion?.id === version.id ? 'Hide' : 'Preview'}
+                    </Button>
+                    {editable && version.version !== assessment.version && (
+                      <Button size="sm" onClick={() => handleRestoreVersion(version)} disabled={busy}>
+                        Restore
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              </CardHeader>
+              {previewVersion?.id === version.id && (
+                <CardContent>
+                  <AssessmentPreview assessment={version} />
+                </CardContent>
+              )}
+            </Card>
+          ))}
+          {versions.length === 0 && (
+            <p className="text-muted-foreground text-center py-8">No saved versions yet.</p>
+          )}
+        </TabsContent>
+
+        <TabsContent value="jobs">
+          <Card>
+            <CardHeader>
+              <CardTitle>Job Openings</CardTitle>
+              <CardDescription>
+                Candidates applying to a selected job take this assessment as part of their application.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {jobs.map((job) => {
+                const attachedElsewhere = !!job.assessment_id && job.assessment_id !== assessment.id;
+                return (
+                  <div key={job.id} className="flex items-center justify-between gap-4 rounded-lg border p-3">
+                    <div className="flex items-center space-x-3">
+                      <Checkbox
+                        id={`job-${job.id}`}
+                        checked={job.assessment_id === assessment.id}
+                        disabled={!canManage || (!!assessment.archived_at && job.assessment_id !== assessment.id)}
+                        onCheckedChange={(checked) => handleToggleJob(job, checked === true)}
+                      />
+                      <label htmlFor={`job-${job.id}`} className="text-sm font-medium">
+                        {job.title}
+                      </label>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      {attachedElsewhere && (
+                        <span className="text-xs text-muted-foreground">Uses another assessment</span>
+                      )}
+                      <Badge variant="outline">{JOB_STATUS_LABELS[job.status]}</Badge>
+                    </div>
+                  </div>
+                );
+              })}
+              {jobs.length === 0 && (
+                <p className="text-muted-foreground text-center py-4">This company has no job openings yet.</p>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+      </Tabs>
+    </div>
+  );
+}
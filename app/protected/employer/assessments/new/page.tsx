@@ -0,0 +1,17 @@
+"use client";
+
+import { useAuth } from "@/hooks/use-auth";
+import { AssessmentEditor } from "@/components/assessment-editor";
+
+export default function CreateAssessmentPage() {
+  const { user } = useAuth();
+
+  if (!user) return null;
+
+  return (
+    <div className="flex-1 w-full flex flex-col gap-8">
+      <h1 className="text-3xl font-bold">New Assessment</h1>
+      <AssessmentEditor userId={user.id} />
+    </div>
+  );
+}
@@ -0,0 +1,282 @@
+"use client";
+
+import { useState, useEffect, useCallback, useRef } from "react";
+import Link from "next/link";
+import { toast } from "sonner";
+import { useAuth } from "@/hooks/use-auth";
+import { repo } from "@/lib/supabase/client";
+import { getMemberPermissions } from "@/lib/companies/permissions";
+import { ASSESSMENT_TYPE_LABELS, DIFFICULTY_LABELS } from "@/lib/assessments/validation";
+import { downloadAssessmentExport, parseAssessmentImport } from "@/lib/assessments/transfer";
+import { duplicateAssessment, importAssessment, listActiveJobsUsing } from "@/lib/assessments/studio";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { DashboardLoadingSkeleton } from "@/components/loading-skeleton";
+import { Archive, ArchiveRestore, Brain, Copy, Download, Edit, Plus, Upload } from "lucide-react";
+import type { CompanyMember, SkillAssessment } from "@/lib/types/enhanced-database";
+
+interface ManagedCompany extends Pick<CompanyMember, 'role' | 'permissions'> {
+  id: string;
+  name: string;
+}
+
+export default function AssessmentsPage() {
+  const { user } = useAuth();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [companies, setCompanies] = useState<ManagedCompany[]>([]);
+  const [companyId, setCompanyId] = useState<string>("");
+  const [assessments, setAssessments] = useState<SkillAssessment[]>([]);
+  const [view, setView] = useState<'active' | 'archived'>('active');
+  const [loading, setLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!user) return;
+
+    const loadCompanies = async () => {
+      try {
+        const data = await repo.companies.listForUser(user.id);
+        setCompanies(data);
+        setCompanyId((prev) => prev || data[0]?.id || "");
+      } catch (error) {
+        console.error('Error loading companies:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadCompanies();
+  }, [user]);
+
+  const loadAssessments = useCallback(async () => {
+    if (!companyId) return;
+    try {
+      setAssessments(await repo.assessments.listForCompany(companyId));
+    } catch (error) {
+      console.error('Error loading assessments:', error);
+      toast.error('Failed to load assessments');
+    }
+  }, [companyId]);
+
+  useEffect(() => {
+    loadAssessments();
+  }, [loadAssessments]);
+
+  const company = companies.find((c) => c.id === companyId);
+  const canManage = !!company && getMemberPermissions(company).can_manage_assessments;
+  const visible = assessments.filter((a) => (view === 'archived') === !!a.archived_at);
+
+  const handleImport = async (file: File) => {
+    if (!user || !companyId) return;
+
+    const result = parseAssessmentImport(await file.text());
+    if (!result.success) {
+      toast.error(`Could not import ${file.name}`, { description: result.errors.join('\n') });
+      return;
+    }
+
+    try {
+      await importAssessment(repo, result.assessment, companyId, user.id);
+      toast.success(`Imported "${result.assessment.title}"`);
+      setView('active');
+      await loadAssessments();
+    } catch (error) {
+      console.error('Error importing assessment:', error);
+      toast.error('Failed to import assessment');
+    }
+  };
+
+  const handleDuplicate = async (assessment: SkillAssessment) => {
+    if (!user) return;
+    setBusyId(assessment.id);
+    try {
+      await duplicateAssessment(repo, assessment, user.id);
+      toast.success('Assessment duplicated');
+      setView('active');
+      await loadAssessments();
+    } catch (error) {
+      console.error('Error duplicating assessment:', error);
+      toast.error('Failed to duplicate assessment');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleArchive = async (assessment: SkillAssessment, archive: boolean) => {
+    setBusyId(assessment.id);
+    try {
+      if (archive) {
+        const jobs = await listActiveJobsUsing(repo, assessment);
+        if (jobs.length > 0) {
+          toast.error('This assessment is used by open jobs', {
+            description: `Detach it from ${jobs.map((job) => job.title).join(', ')} first.`,
+          });
+          return;
+        }
+      }
+
+      await repo.assessments.update(assessment.id, { archived_at: archive ? new Date().toISOString() : null });
+      toast.success(archive ? 'Assessment archived' : 'Assessment restored');
+      await loadAssessments();
+    } catch (error) {
+      console.error('Error archiving assessment:', error);
+      toast.error('Failed to update assessment');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  if (loading || !user) {
+    return <DashboardLoadingSkeleton />;
+  }
+
+  return (
+    <div className="flex-1 w-full flex flex-col gap-8">
+      <div className="flex flex-wrap justify-between items-center gap-4">
+        <div>
+          <h1 className="text-3xl font-bold">Assessments</h1>
+          <p className="text-muted-foreground">
+            Build skill assessments and attach them to your job openings
+          </p>
+        </div>
+        {canManage && (
+          <div className="flex gap-2">
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                e.target.value = '';
+                if (file) handleImport(file);
+              }}
+            />
+            <Button variant="outline" onClick={() => fileInputRef.current?.click()}>
+              <Upload className="mr-2 h-4 w-4" />
+              Import JSON
+            </Button>
+            <Link href="/protected/employer/assessments/new">
+              <Button>
+                <Plus className="mr-2 h-4 w-4" />
+                New Assessment
+              </Button>
+            </Link>
+          </div>
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        {companies.length > 1 && (
+          <Select value={companyId} onValueChange={setCompanyId}>
+            <SelectTrigger className="w-64">
+              <SelectValue placeholder="Select a company" />
+            </SelectTrigger>
+            <SelectContent>
+              {companies.map((c) => (
+                <SelectItem key={c.id} value={c.id}>
+                  {c.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+        <Tabs value={view} onValueChange={(value) => setView(value as 'active' | 'archived')}>
+          <TabsList>
+            <TabsTrigger value="active">Active</TabsTrigger>
+            <TabsTrigger value="archived">Archived</TabsTrigger>
+          </TabsList>
+        </Tabs>
+      </div>
+
+      {visible.length === 0 ? (
+        <Card>
+          <CardContent className="text-center py-12">
+            <Brain className="mx-auto h-12 w-12 text-muted-foreground mb-4" />
+            <p className="text-muted-foreground">
+              {companies.length === 0
+                ? 'Join or create a company to build assessments.'
+                : view === 'archived'
+                  ? 'No archived assessments.'
+                  : 'No assessments yet.'}
+            </p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="grid gap-4">
+          {visible.map((assessment) => (
+            <Card key={assessment.id}>
+              <CardHeader>
+                <div className="flex flex-wrap justify-between items-start gap-4">
+                  <div>
+                    <CardTitle>
+                      <Link href={`/protected/employer/assessments/${assessment.id}`} className="hover:underline">
+                        {assessment.title}
+                      </Link>
+                    </CardTitle>
+                    <CardDescription>
+                      {assessment.questions.length} questions
+                      {assessment.time_limit_minutes && ` • ${assessment.time_limit_minutes} minutes`}
+                      {` • version ${assessment.version}`}
+                      {` • ${assessment.attempts_count} attempts`}
+                    </CardDescription>
+                  </div>
+                  <div className="flex flex-wrap gap-2">
+                    <Badge variant="secondary">{ASSESSMENT_TYPE_LABELS[assessment.assessment_type]}</Badge>
+                    {assessment.difficulty_level && (
+                      <Badge variant="outline">{DIFFICULTY_LABELS[assessment.difficulty_level]}</Badge>
+                    )}
+                    {assessment.is_public && <Badge variant="outline">Public</Badge>}
+                  </div>
+                </div>
+              </CardHeader>
+              <CardContent>
+                <div className="flex flex-wrap gap-2">
+                  <Link href={`/protected/employer/assessments/${assessment.id}`}>
+                    <Button variant="outline" size="sm">
+                      <Edit className="mr-2 h-4 w-4" />
+                      {canManage && !assessment.archived_at ? 'Edit' : 'View'}
+                    </Button>
+                  </Link>
+                  <Button variant="outline" size="sm" onClick={() => downloadAssessmentExport(assessment)}>
+                    <Download className="mr-2 h-4 w-4" />
+                    Export
+                  </Button>
+                  {canManage && (
+                    <>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        disabled={busyId === assessment.id}
+                        onClick={() => handleDuplicate(assessment)}
+                      >
+                        <Copy className="mr-2 h-4 w-4" />
+                        Duplicate
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        disabled={busyId === assessment.id}
+                        onClick={() => handleArchive(assessment, !assessment.archived_at)}
+                      >
+                        {assessment.archived_at ? (
+                          <ArchiveRestore className="mr-2 h-4 w-4" />
+                        ) : (
+                          <Archive className="mr-2 h-4 w-4" />
+                        )}
+                        {assessment.archived_at ? 'Restore' : 'Archive'}
+                      </Button>
+                    </>
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
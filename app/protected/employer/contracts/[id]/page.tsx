@@ -0,0 +1,98 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { useParams } from "next/navigation";
+import Link from "next/link";
+import { useAuth } from "@/hooks/use-auth";
+import { repo } from "@/lib/supabase/client";
+import { getMemberPermissions } from "@/lib/companies/permissions";
+import { CONTRACT_TYPE_LABELS, LEGAL_REVIEW_STATUS_LABELS } from "@/lib/contracts/templates";
+import { ContractTemplateEditor } from "@/components/contract-template-editor";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { AlertCircle, ArrowLeft } from "lucide-react";
+import type { ContractTemplate } from "@/lib/types/enhanced-database";
+
+export default function ContractTemplatePage() {
+  const params = useParams();
+  const { user } = useAuth();
+  const [template, setTemplate] = useState<ContractTemplate | null>(null);
+  const [canManage, setCanManage] = useState(false);
+  const [loading, setLoading] = useState(true);
+
+  const templateId = params.id as string;
+
+  useEffect(() => {
+    if (!user) return;
+
+    const load = async () => {
+      try {
+        const data = await repo.contractTemplates.get(templateId);
+        setTemplate(data);
+        if (!data) return;
+
+        const company = (await repo.companies.listForUser(user.id)).find((c) => c.id === data.company_id);
+        setCanManage(!!company && getMemberPermissions(company).can_edit_jobs);
+      } catch (error) {
+        console.error('Error loading contract template:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    load();
+  }, [templateId, user]);
+
+  if (loading || !user) {
+    return (
+      <div className="flex items-center justify-center min-h-[50vh]">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  if (!template) {
+    return (
+      <Card className="max-w-md mx-auto">
+        <CardContent className="text-center py-8">
+          <AlertCircle className="mx-auto h-12 w-12 text-destructive mb-4" />
+          <h2 className="text-xl font-semibold mb-2">Template Not Found</h2>
+          <p className="text-muted-foreground">
+            This contract template does not exist or you do not have access to it.
+          </p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="flex-1 w-full flex flex-col gap-8">
+      <div>
+        <Link
+          href="/protected/employer/contracts"
+          className="text-sm text-muted-foreground hover:underline flex items-center gap-1 mb-2"
+        >
+          <ArrowLeft className="h-4 w-4" />
+          Contracts
+        </Link>
+        <h1 className="text-3xl font-bold flex flex-wrap items-center gap-3">
+          {template.name}
+          <Badge variant="secondary">{CONTRACT_TYPE_LABELS[template.contract_type]}</Badge>
+          <Badge variant={template.legal_review_status === 'approved' ? 'default' : 'outline'}>
+            {LEGAL_REVIEW_STATUS_LABELS[template.legal_review_status]}
+          </Badge>
+          {!template.is_active && <Badge variant="secondary">Inactive</Badge>}
+        </h1>
+      </div>
+
+      {/* Key on updated_at so a save reloads the form */}
+      <ContractTemplateEditor
+        key={template.updated_at}
+        userId={user.id}
+        template={template}
+        readOnly={!canManage}
+        onSaved={setTemplate}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,17 @@
+"use client";
+
+import { useAuth } from "@/hooks/use-auth";
+import { ContractTemplateEditor } from "@/components/contract-template-editor";
+
+export default function CreateContractTemplatePage() {
+  const { user } = useAuth();
+
+  if (!user) return null;
+
+  return (
+    <div className="flex-1 w-full flex flex-col gap-8">
+      <h1 className="text-3xl font-bold">New Contract Template</h1>
+      <ContractTemplateEditor userId={user.id} />
+    </div>
+  );
+}
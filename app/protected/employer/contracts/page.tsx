@@ -0,0 +1,212 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import Link from "next/link";
+import { toast } from "sonner";
+import { useAuth } from "@/hooks/use-auth";
+import { repo } from "@/lib/supabase/client";
+import { getMemberPermissions } from "@/lib/companies/permissions";
+import { CONTRACT_TYPE_LABELS, LEGAL_REVIEW_STATUS_LABELS, extractVariables } from "@/lib/contracts/templates";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { DashboardLoadingSkeleton } from "@/components/loading-skeleton";
+import { Archive, ArchiveRestore, Edit, FileSignature, Inbox, Plus } from "lucide-react";
+import type { CompanyMember, ContractTemplate } from "@/lib/types/enhanced-database";
+
+interface ManagedCompany extends Pick<CompanyMember, 'role' | 'permissions'> {
+  id: string;
+  name: string;
+}
+
+export default function ContractTemplatesPage() {
+  const { user } = useAuth();
+  const [companies, setCompanies] = useState<ManagedCompany[]>([]);
+  const [companyId, setCompanyId] = useState<string>("");
+  const [templates, setTemplates] = useState<ContractTemplate[]>([]);
+  const [view, setView] = useState<'active' | 'inactive'>('active');
+  const [loading, setLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!user) return;
+
+    const loadCompanies = async () => {
+      try {
+        const data = await repo.companies.listForUser(user.id);
+        setCompanies(data);
+        setCompanyId((prev) => prev || data[0]?.id || "");
+      } catch (error) {
+        console.error('Error loading companies:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadCompanies();
+  }, [user]);
+
+  const loadTemplates = useCallback(async () => {
+    if (!companyId) return;
+    try {
+      setTemplates(await repo.contractTemplates.listForCompany(companyId));
+    } catch (error) {
+      console.error('Error loading contract templates:', error);
+      toast.error('Failed to load contract templates');
+    }
+  }, [companyId]);
+
+  useEffect(() => {
+    loadTemplates();
+  }, [loadTemplates]);
+
+  const company = companies.find((c) => c.id === companyId);
+  const canManage = !!company && getMemberPermissions(company).can_edit_jobs;
+  const visible = templates.filter((t) => (view === 'inactive') === !t.is_active);
+
+  // Templates are never deleted: signed contracts keep pointing at them
+  const handleSetActive = async (template: ContractTemplate, active: boolean) => {
+    setBusyId(template.id);
+    try {
+      await repo.contractTemplates.update(template.id, {
+        is_active: active,
+        ...(active ? {} : { is_default: false }),
+      });
+      toast.success(active ? 'Template reactivated' : 'Template deactivated');
+      await loadTemplates();
+    } catch (error) {
+      console.error('Error updating contract template:', error);
+      toast.error('Failed to update template');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  if (loading || !user) {
+    return <DashboardLoadingSkeleton />;
+  }
+
+  return (
+    <div className="flex-1 w-full flex flex-col gap-8">
+      <div className="flex flex-wrap justify-between items-center gap-4">
+        <div>
+          <h1 className="text-3xl font-bold">Contracts</h1>
+          <p className="text-muted-foreground">
+            Write the contracts candidates sign when they apply to your jobs
+          </p>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <Link href="/protected/employer/contracts/signatures">
+            <Button variant="outline">
+              <Inbox className="mr-2 h-4 w-4" />
+              Signature Queue
+            </Button>
+          </Link>
+          {canManage && (
+            <Link href="/protected/employer/contracts/new">
+              <Button>
+                <Plus className="mr-2 h-4 w-4" />
+                New Template
+              </Button>
+            </Link>
+          )}
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        {companies.length > 1 && (
+          <Select value={companyId} onValueChange={setCompanyId}>
+            <SelectTrigger className="w-64">
+              <SelectValue placeholder="Select a company" />
+            </SelectTrigger>
+            <SelectContent>
+              {companies.map((c) => (
+                <SelectItem key={c.id} value={c.id}>
+                  {c.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+        <Tabs value={view} onValueChange={(value) => setView(value as 'active' | 'inactive')}>
+          <TabsList>
+            <TabsTrigger value="active">Active</TabsTrigger>
+            <TabsTrigger value="inactive">Inactive</TabsTrigger>
+          </TabsList>
+        </Tabs>
+      </div>
+
+      {visible.length === 0 ? (
+        <Card>
+          <CardContent className="text-center py-12">
+            <FileSignature className="mx-auto h-12 w-12 text-muted-foreground mb-4" />
+            <p className="text-muted-foreground">
+              {companies.length === 0
+                ? 'Join or create a company to write contract templates.'
+                : view === 'inactive'
+                  ? 'No inactive templates.'
+                  : 'No contract templates yet.'}
+            </p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="grid gap-4">
+          {visible.map((template) => (
+            <Card key={template.id}>
+              <CardHeader>
+                <div className="flex flex-wrap justify-between items-start gap-4">
+                  <div>
+                    <CardTitle>
+                      <Link href={`/protected/employer/contracts/${template.id}`} className="hover:underline">
+                        {template.name}
+                      </Link>
+                    </CardTitle>
+                    <CardDescription>
+                      {extractVariables(template.template_content).length} variables
+                      {` • ${template.required_fields.length} required`}
+                      {template.jurisdiction && ` • ${template.jurisdiction}`}
+                    </CardDescription>
+                  </div>
+                  <div className="flex flex-wrap gap-2">
+                    <Badge variant="secondary">{CONTRACT_TYPE_LABELS[template.contract_type]}</Badge>
+                    <Badge variant={template.legal_review_status === 'approved' ? 'default' : 'outline'}>
+                      {LEGAL_REVIEW_STATUS_LABELS[template.legal_review_status]}
+                    </Badge>
+                    {template.is_default && <Badge variant="outline">Default</Badge>}
+                  </div>
+                </div>
+              </CardHeader>
+              <CardContent>
+                <div className="flex flex-wrap gap-2">
+                  <Link href={`/protected/employer/contracts/${template.id}`}>
+                    <Button variant="outline" size="sm">
+                      <Edit className="mr-2 h-4 w-4" />
+                      {canManage ? 'Edit' : 'View'}
+                    </Button>
+                  </Link>
+                  {canManage && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={busyId === template.id}
+                      onClick={() => handleSetActive(template, !template.is_active)}
+                    >
+                      {template.is_active ? (
+                        <Archive className="mr-2 h-4 w-4" />
+                      ) : (
+                        <ArchiveRestore className="mr-2 h-4 w-4" />
+                      )}
+                      {template.is_active ? 'Deactivate' : 'Reactivate'}
+                    </Button>
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,239 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { useParams } from "next/navigation";
+import Link from "next/link";
+import { toast } from "sonner";
+import { useAuth } from "@/hooks/use-auth";
+import { repo } from "@/lib/supabase/client";
+import { hasCompanyPermission } from "@/lib/companies/permissions";
+import {
+  CONTRACT_AUDIT_EVENT_LABELS,
+  CONTRACT_SIGNATURE_STATUS_LABELS,
+  getAwaitingParty,
+} from "@/lib/contracts/signatures";
+import { getProfileName } from "@/lib/utils";
+import { ContractViewer } from "@/components/contract-viewer";
+import { ContractSignatureDetails } from "@/components/contract-signature-details";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { AlertCircle, ArrowLeft, Ban, History, Loader2 } from "lucide-react";
+import type { ContractSignature, UserProfileEnhanced } from "@/lib/types/enhanced-database";
+
+export default function ContractSignaturePage() {
+  const params = useParams();
+  const { user } = useAuth();
+  const [signature, setSignature] = useState<ContractSignature | null>(null);
+  const [people, setPeople] = useState<UserProfileEnhanced[]>([]);
+  const [canSign, setCanSign] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [voiding, setVoiding] = useState(false);
+  const [voidReason, setVoidReason] = useState("");
+  const [voidError, setVoidError] = useState<string | null>(null);
+
+  const signatureId = params.id as string;
+
+  useEffect(() => {
+    if (!user) return;
+
+    const load = async () => {
+      try {
+        const data = await repo.contractSignatures.get(signatureId);
+        setSignature(data);
+        if (!data?.company_id) return;
+
+        const actorIds = data.audit_trail.flatMap((event) => (event.actor_id ? [event.actor_id] : []));
+        const [membership, profiles] = await Promise.all([
+          repo.companyMembers.getMembership(data.company_id, user.id),
+          repo.profiles.listByUserIds([...new Set([data.employee_id, ...actorIds].filter((id): id is string => !!id))]),
+        ]);
+        setCanSign(hasCompanyPermission(membership, 'can_sign_contracts'));
+        setPeople(profiles);
+      } catch (error) {
+        console.error('Error loading contract:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    load();
+  }, [signatureId, user]);
+
+  const voidContract = async () => {
+    setVoiding(true);
+    setVoidError(null);
+    try {
+      const response = await fetch(`/api/contract-signatures/${signatureId}/void`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ reason: voidReason }),
+      });
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error || 'Something went wrong. Please try again.');
+
+      setSignature(result.data);
+      setVoidReason("");
+      toast.success('Contract voided');
+    } catch (error) {
+      setVoidError(error instanceof Error ? error.message : 'Something went wrong. Please try again.');
+    } finally {
+      setVoiding(false);
+    }
+  };
+
+  if (loading || !user) {
+    return (
+      <div className="flex items-center justify-center min-h-[50vh]">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  if (!signature) {
+    return (
+      <Card className="max-w-md mx-auto">
+        <CardContent className="text-center py-8">
+          <AlertCircle className="mx-auto h-12 w-12 text-destructive mb-4" />
+          <h2 className="text-xl font-semibold mb-2">Contract Not Found</h2>
+          <p className="text-muted-foreground">
+            This contract does not exist or you do not have access to it.
+          </p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const personName = (userId: string | null) => {
+    const profile = people.find((person) => person.user_id === userId);
+    return getProfileName(profile) || profile?.email || null;
+  };
+  const awaiting = getAwaitingParty(signature);
+  const canVoid = canSign && (signature.status === 'pending' || signature.status === 'partially_signed');
+
+  return (
+    <div className="flex-1 w-full flex flex-col gap-8">
+      <div>
+        <Link
+          href="/protected/employer/contracts/signatures"
+          className="text-sm text-muted-foreground hover:underline flex items-center gap-1 mb-2"
+        >
+          <ArrowLeft className="h-4 w-4" />
+          Signature Queue
+        </Link>
+        <h1 className="text-3xl font-bold flex flex-wrap items-center gap-3">
+          {signature.title}
+          <Badge variant={signature.status === 'fully_signed' ? 'default' : 'outline'}>
+            {CONTRACT_SIGNATURE_STATUS_LABELS[signature.status]}
+          </Badge>
+        </h1>
+        <p className="text-muted-foreground">
+          {personName(signature.employee_id) ?? 'Candidate'}
+          {signature.application_id && (
+            <>
+              {' • '}
+              <Link href={`/protected/employer/applications/${signature.application_id}`} className="hover:underline">
+                View application
+              </Link>
+            </>
+          )}
+        </p>
+      </div>
+
+      <div className="grid gap-8 lg:grid-cols-[minmax(0,2fr)_minmax(0,1fr)]">
+        <div className="flex flex-col gap-8 min-w-0">
+          {awaiting === 'employer' && canSign ? (
+            <ContractViewer
+              contract={{ signature_id: signature.id, name: signature.title, content: signature.final_contract_content }}
+              onSigned={setSignature}
+            />
+          ) : (
+            <Card>
+              <CardHeader>
+                <CardTitle>Contract</CardTitle>
+                <CardDescription>
+                  {awaiting === 'employer'
+                    ? 'Waiting for a team member who can sign contracts.'
+                    : awaiting === 'employee'
+                      ? 'Waiting for the candidate to sign.'
+                      : 'Signing is closed for this contract.'}
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <ScrollArea className="h-96 border rounded-lg p-4">
+                  <div className="whitespace-pre-line text-sm">{signature.final_contract_content}</div>
+                </ScrollArea>
+                <ContractSignatureDetails signature={signature} />
+              </CardContent>
+            </Card>
+          )}
+        </div>
+
+        <div className="flex flex-col gap-8 min-w-0">
+          {canVoid && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Ban className="h-5 w-5" />
+                  Void Contract
+                </CardTitle>
+                <CardDescription>The contract stays on record but can no longer be signed.</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                <Label htmlFor="void-reason">Reason (shared with the candidate)</Label>
+                <Textarea
+                  id="void-reason"
+                  value={voidReason}
+                  onChange={(e) => setVoidReason(e.target.value)}
+                  rows={3}
+                />
+                {voidError && <p className="text-sm text-destructive">{voidError}</p>}
+                <div className="flex justify-end">
+                  <Button
+                    variant="destructive"
+                    size="sm"
+                    onClick={voidContract}
+                    disabled={voiding || voidReason.trim().length < 3}
+                  >
+                    {voiding && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                    Void contract
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <History className="h-5 w-5" />
+                Audit Trail
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              {signature.audit_trail.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No events recorded.</p>
+              ) : (
+                <ol className="space-y-3">
+                  {signature.audit_trail.map((event, index) => (
+                    <li key={index} className="text-sm">
+                      <p className="font-medium">{CONTRACT_AUDIT_EVENT_LABELS[event.event]}</p>
+                      <p className="text-muted-foreground">
+                        {new Date(event.at).toLocaleString()}
+                        {personName(event.actor_id) && ` • ${personName(event.actor_id)}`}
+                        {event.ip && ` • ${event.ip}`}
+                      </p>
+                    </li>
+                  ))}
+                </ol>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+}
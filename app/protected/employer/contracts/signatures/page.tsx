@@ -0,0 +1,195 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import Link from "next/link";
+import { toast } from "sonner";
+import { useAuth } from "@/hooks/use-auth";
+import { repo } from "@/lib/supabase/client";
+import { getMemberPermissions } from "@/lib/companies/permissions";
+import { CONTRACT_SIGNATURE_STATUS_LABELS, getAwaitingParty } from "@/lib/contracts/signatures";
+import { getProfileName } from "@/lib/utils";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { DashboardLoadingSkeleton } from "@/components/loading-skeleton";
+import { ArrowLeft, FileSignature } from "lucide-react";
+import type { CompanyMember, ContractSignature, UserProfileEnhanced } from "@/lib/types/enhanced-database";
+
+interface ManagedCompany extends Pick<CompanyMember, 'role' | 'permissions'> {
+  id: string;
+  name: string;
+}
+
+type QueueView = 'to_sign' | 'with_candidate' | 'signed' | 'closed';
+
+const EMPTY_MESSAGES: Record<QueueView, string> = {
+  to_sign: 'No contracts are waiting for your signature.',
+  with_candidate: 'No contracts are waiting for candidates.',
+  signed: 'No fully signed contracts yet.',
+  closed: 'No voided or expired contracts.',
+};
+
+// Which tab a contract belongs in; contracts past their deadline count as
+// closed before the expiry job catches up with them
+function getQueueView(contract: ContractSignature): QueueView {
+  if (contract.status === 'fully_signed') return 'signed';
+  const party = getAwaitingParty(contract);
+  if (party === 'employer') return 'to_sign';
+  if (party === 'employee') return 'with_candidate';
+  return 'closed';
+}
+
+export default function ContractSignatureQueuePage() {
+  const { user } = useAuth();
+  const [companies, setCompanies] = useState<ManagedCompany[]>([]);
+  const [companyId, setCompanyId] = useState<string>("");
+  const [contracts, setContracts] = useState<ContractSignature[]>([]);
+  const [candidates, setCandidates] = useState<UserProfileEnhanced[]>([]);
+  const [view, setView] = useState<QueueView>('to_sign');
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!user) return;
+
+    const loadCompanies = async () => {
+      try {
+        const data = await repo.companies.listForUser(user.id);
+        setCompanies(data);
+        setCompanyId((prev) => prev || data[0]?.id || "");
+      } catch (error) {
+        console.error('Error loading companies:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadCompanies();
+  }, [user]);
+
+  const loadContracts = useCallback(async () => {
+    if (!companyId) return;
+    try {
+      const rows = await repo.contractSignatures.listForCompany(companyId);
+      const employeeIds = [...new Set(rows.flatMap((row) => (row.employee_id ? [row.employee_id] : [])))];
+      setContracts(rows);
+      setCandidates(await repo.profiles.listByUserIds(employeeIds));
+    } catch (error) {
+      console.error('Error loading contracts:', error);
+      toast.error('Failed to load contracts');
+    }
+  }, [companyId]);
+
+  useEffect(() => {
+    loadContracts();
+  }, [loadContracts]);
+
+  const company = companies.find((c) => c.id === companyId);
+  const canSign = !!company && getMemberPermissions(company).can_sign_contracts;
+  const visible = contracts.filter((contract) => getQueueView(contract) === view);
+  const toSignCount = contracts.filter((contract) => getQueueView(contract) === 'to_sign').length;
+
+  const candidateName = (contract: ContractSignature) => {
+    const profile = candidates.find((candidate) => candidate.user_id === contract.employee_id);
+    return getProfileName(profile) || profile?.email || 'Candidate';
+  };
+
+  if (loading || !user) {
+    return <DashboardLoadingSkeleton />;
+  }
+
+  return (
+    <div className="flex-1 w-full flex flex-col gap-8">
+      <div>
+        <Link
+          href="/protected/employer/contracts"
+          className="text-sm text-muted-foreground hover:underline flex items-center gap-1 mb-2"
+        >
+          <ArrowLeft className="h-4 w-4" />
+          Contracts
+        </Link>
+        <h1 className="text-3xl font-bold">Signature Queue</h1>
+        <p className="text-muted-foreground">
+          Countersign contracts your candidates have signed and follow the ones still out for signature
+        </p>
+      </div>
+
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        {companies.length > 1 && (
+          <Select value={companyId} onValueChange={setCompanyId}>
+            <SelectTrigger className="w-64">
+              <SelectValue placeholder="Select a company" />
+            </SelectTrigger>
+            <SelectContent>
+              {companies.map((c) => (
+                <SelectItem key={c.id} value={c.id}>
+                  {c.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+        <Tabs value={view} onValueChange={(value) => setView(value as QueueView)}>
+          <TabsList>
+            <TabsTrigger value="to_sign">To sign{toSignCount > 0 && ` (${toSignCount})`}</TabsTrigger>
+            <TabsTrigger value="with_candidate">With candidate</TabsTrigger>
+            <TabsTrigger value="signed">Signed</TabsTrigger>
+            <TabsTrigger value="closed">Voided &amp; expired</TabsTrigger>
+          </TabsList>
+        </Tabs>
+      </div>
+
+      {visible.length === 0 ? (
+        <Card>
+          <CardContent className="text-center py-12">
+            <FileSignature className="mx-auto h-12 w-12 text-muted-foreground mb-4" />
+            <p className="text-muted-foreground">
+              {companies.length === 0 ? 'Join or create a company to send contracts.' : EMPTY_MESSAGES[view]}
+            </p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="grid gap-4">
+          {visible.map((contract) => (
+            <Card key={contract.id}>
+              <CardHeader>
+                <div className="flex flex-wrap justify-between items-start gap-4">
+                  <div>
+                    <CardTitle>
+                      <Link href={`/protected/employer/contracts/signatures/${contract.id}`} className="hover:underline">
+                        {contract.title}
+                      </Link>
+                    </CardTitle>
+                    <CardDescription>
+                      {candidateName(contract)}
+                      {contract.employee_signed_at && ` • Signed by the candidate ${new Date(contract.employee_signed_at).toLocaleDateString()}`}
+                      {contract.expires_at && view !== 'signed' && ` • Due ${new Date(contract.expires_at).toLocaleDateString()}`}
+                    </CardDescription>
+                  </div>
+                  <Badge variant={contract.status === 'fully_signed' ? 'default' : 'outline'}>
+                    {CONTRACT_SIGNATURE_STATUS_LABELS[contract.status]}
+                  </Badge>
+                </div>
+              </CardHeader>
+              <CardContent>
+                <div className="flex flex-wrap gap-2">
+                  <Link href={`/protected/employer/contracts/signatures/${contract.id}`}>
+                    <Button variant={view === 'to_sign' && canSign ? 'default' : 'outline'} size="sm">
+                      {view === 'to_sign' && canSign ? 'Review and sign' : 'View'}
+                    </Button>
+                  </Link>
+                  {contract.application_id && (
+                    <Link href={`/protected/employer/applications/${contract.application_id}`}>
+                      <Button variant="outline" size="sm">Application</Button>
+                    </Link>
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
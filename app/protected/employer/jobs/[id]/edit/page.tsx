@@ -0,0 +1,66 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { useParams } from "next/navigation";
+import { useAuth } from "@/hooks/use-auth";
+import { repo } from "@/lib/supabase/client";
+import { JobPostingEditor } from "@/components/job-posting-editor";
+import { ScorecardTemplateEditor } from "@/components/scorecard-template-editor";
+import { Card, CardContent } from "@/components/ui/card";
+import { AlertCircle } from "lucide-react";
+import type { JobOpeningEnhanced } from "@/lib/types/enhanced-database";
+
+export default function EditJobPage() {
+  const params = useParams();
+  const { user } = useAuth();
+  const [job, setJob] = useState<JobOpeningEnhanced | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const jobId = params.id as string;
+
+  useEffect(() => {
+    const loadJob = async () => {
+      try {
+        setJob(await repo.jobOpenings.get(jobId));
+      } catch (error) {
+        console.error('Error loading job opening:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadJob();
+  }, [jobId]);
+
+  if (loading || !user) {
+    return (
+      <div className="flex items-center justify-center min-h-[50vh]">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  if (!job) {
+    return (
+      <Card className="max-w-md mx-auto">
+        <CardContent className="text-center py-8">
+          <AlertCircle className="mx-auto h-12 w-12 text-destructive mb-4" />
+          <h2 className="text-xl font-semibold mb-2">Job Not Found</h2>
+          <p className="text-muted-foreground">
+            This job opening does not exist or you do not have access to it.
+          </p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  // Key on the ID so navigating from create to edit starts from the saved row
+  return (
+    <>
+      <JobPostingEditor key={job.id} userId={user.id} job={job} />
+      <div className="max-w-4xl mx-auto px-6 pb-6 w-full">
+        <ScorecardTemplateEditor jobId={job.id} userId={user.id} />
+      </div>
+    </>
+  );
+}
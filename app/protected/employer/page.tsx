@@ -3,13 +3,14 @@
 import React, { useState, useEffect } from "react";
 import { useAuth } from "@/hooks/use-auth";
 import { useRole } from "@/hooks/use-role";
-import { createClient } from "@/lib/supabase/client";
+import { repo } from "@/lib/supabase/client";
 import { useSearchParams, useRouter } from "next/navigation";
 import { getAbsoluteUrl } from "@/lib/utils";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { 
   Plus, 
   Users, 
@@ -19,44 +20,58 @@ import {
   Briefcase,
   Eye,
   Edit,
-  Link as LinkIcon
+  Link as LinkIcon,
+  Brain,
+  FileSignature
 } from "lucide-react";
 import Link from "next/link";
 import { DashboardLoadingSkeleton } from "@/components/loading-skeleton";
+import { PipelineBoard } from "@/components/pipeline-board";
+import { getStageLabel } from "@/lib/applications/pipeline";
+import {
+  MATCH_LEVEL_LABELS,
+  calculateMatch,
+  describeMatch,
+  getCandidateQualifications,
+  getMatchCriteria,
+  getMatchLevel,
+  meetsRequirements,
+  type MatchResult,
+} from "@/lib/applications/matching";
+import { getEmploymentTypeLabel } from "@/lib/jobs/format";
+import { JOB_STATUS_LABELS } from "@/lib/jobs/lifecycle";
+import type {
+  JobApplicationEnhanced,
+  JobOpeningEnhanced,
+  UserProfileEnhanced,
+} from "@/lib/types/enhanced-database";
 
-interface JobOpening {
-  id: string;
-  title: string;
-  description: string;
-  location: string;
-  employment_type: string;
-  positions_available: number;
-  is_active: boolean;
-  application_link: string;
-  created_at: string;
-  _count?: {
-    applications: number;
-  };
-}
+type JobOpening = JobOpeningEnhanced;
 
-interface JobWithApplications extends JobOpening {
-  job_applications?: { count: number }[];
+interface Application extends JobApplicationEnhanced {
+  applicant?: Pick<UserProfileEnhanced, 'first_name' | 'last_name' | 'email'>;
+  job_opening?: Pick<JobOpeningEnhanced, 'title'>;
+  match: MatchResult;
 }
 
-interface Application {
-  id: string;
-  applicant_id: string;
-  status: string;
-  applied_at: string;
-  applicant: {
-    first_name: string;
-    last_name: string;
-    email: string;
-  };
-  job_opening: {
-    title: string;
-  };
-}
+type ApplicationSort = 'newest' | 'match';
+type ApplicationFilter = 'all' | 'meets_requirements' | 'strong' | 'partial';
+
+const APPLICATION_FILTERS: Record<ApplicationFilter, (match: MatchResult) => boolean> = {
+  all: () => true,
+  meets_requirements: meetsRequirements,
+  strong: (match) => match.score !== null && getMatchLevel(match.score) === 'strong',
+  partial: (match) => match.score !== null && getMatchLevel(match.score) !== 'weak',
+};
+
+const MATCH_BADGE_CLASSES = {
+  strong: 'bg-green-100 text-green-800 border-green-200',
+  partial: 'bg-amber-100 text-amber-800 border-amber-200',
+  weak: 'bg-gray-100 text-gray-700 border-gray-200',
+};
+
+// The apply flow stores the uploaded CV's document ID in resume_url
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
 
 export default function EmployerDashboard() {
   const { user } = useAuth();
@@ -69,6 +84,8 @@ export default function EmployerDashboard() {
   const [applications, setApplications] = useState<Application[]>([]);
   const [loading, setLoading] = useState(true);
   const [dataLoaded, setDataLoaded] = useState(false);
+  const [applicationSort, setApplicationSort] = useState<ApplicationSort>('newest');
+  const [applicationFilter, setApplicationFilter] = useState<ApplicationFilter>('all');
   const [stats, setStats] = useState({
     totalJobs: 0,
     activeJobs: 0,
@@ -76,8 +93,6 @@ export default function EmployerDashboard() {
     pendingApplications: 0
   });
 
-  const supabase = createClient();
-
   // Role verification is now handled by useRole hook - no need for local checks
 
   // Memoize the loadDashboardData function to prevent unnecessary re-renders
@@ -85,50 +100,53 @@ export default function EmployerDashboard() {
     if (!user) return;
 
     try {
-      // Load job openings with application counts
-      const { data: jobs, error: jobsError } = await supabase
-        .from('job_openings')
-        .select(`
-          *,
-          job_applications(count)
-        `)
-        .eq('employer_id', user.id)
-        .order('created_at', { ascending: false });
+      // Load job openings for the companies the user belongs to
+      const companies = (await repo.companies.listForUser(user.id))
+        .filter((company) => !selectedCompanyId || company.id === selectedCompanyId);
+      const jobs = await repo.jobOpenings.listForCompanies(companies.map((company) => company.id));
 
-      if (jobsError) throw jobsError;
+      // Load applications for these jobs, with applicant profiles and CVs
+      const appRows = await repo.applications.listForJobs(jobs.map((job) => job.id));
+      const [profiles, cvDocuments, roleCriteria] = await Promise.all([
+        repo.profiles.listByUserIds(Array.from(new Set(appRows.map((app) => app.applicant_id)))),
+        repo.documents.listByIds(appRows
+          .map((app) => app.resume_url)
+          .filter((id): id is string => !!id && UUID_PATTERN.test(id))),
+        repo.roleCriteria.listForJobs(jobs.map((job) => job.id)),
+      ]);
+      const profileMap = new Map(profiles.map((profile) => [profile.user_id, profile]));
+      const cvMap = new Map(cvDocuments
+        .filter((document) => document.document_type === 'cv')
+        .map((document) => [document.id, document.analysis_result]));
+      const jobMap = new Map(jobs.map((job) => [job.id, job]));
 
-      // Load applications for this employer's jobs only if there are jobs
-      let apps: Application[] = [];
-      if (jobs && jobs.length > 0) {
-        const jobIds = (jobs as JobWithApplications[]).map((job) => job.id);
-        const { data: applications, error: appsError } = await supabase
-          .from('job_applications')
-          .select(`
-            *,
-            user_profiles!job_applications_applicant_id_fkey(first_name, last_name, email),
-            job_openings!job_applications_job_opening_id_fkey(title)
-          `)
-          .in('job_opening_id', jobIds)
-          .order('applied_at', { ascending: false });
-
-        if (appsError) throw appsError;
-        apps = (applications as Application[]) || [];
-      }
+      const apps: Application[] = appRows.map((app) => {
+        const job = jobMap.get(app.job_opening_id);
+        const candidate = getCandidateQualifications(
+          profileMap.get(app.applicant_id),
+          app.resume_url ? cvMap.get(app.resume_url) : null
+        );
+        return {
+          ...app,
+          applicant: profileMap.get(app.applicant_id),
+          job_opening: job,
+          match: calculateMatch(
+            job ? getMatchCriteria(job, roleCriteria) : [],
+            job?.min_years_experience ?? 0,
+            candidate
+          ),
+        };
+      });
 
-      setJobOpenings((jobs as JobOpening[]) || []);
+      setJobOpenings(jobs);
       setApplications(apps);
 
       // Calculate stats
-      const totalJobs = jobs?.length || 0;
-      const activeJobs = (jobs as JobOpening[])?.filter((job) => job.is_active).length || 0;
-      const totalApplications = apps.length;
-      const pendingApplications = apps.filter((app) => app.status === 'pending').length;
-
       setStats({
-        totalJobs,
-        activeJobs,
-        totalApplications,
-        pendingApplications
+        totalJobs: jobs.length,
+        activeJobs: jobs.filter((job) => job.status === 'active').length,
+        totalApplications: apps.length,
+        pendingApplications: apps.filter((app) => app.status === 'submitted').length
       });
 
       setDataLoaded(true);
@@ -137,7 +155,7 @@ export default function EmployerDashboard() {
     } finally {
       setLoading(false);
     }
-  }, [user, supabase]);
+  }, [user, selectedCompanyId]);
 
   useEffect(() => {
     if (user && !dataLoaded) {
@@ -156,6 +174,13 @@ export default function EmployerDashboard() {
     // You could add a toast notification here
   };
 
+  // Unscored applications sort last
+  const visibleApplications = applications
+    .filter((application) => APPLICATION_FILTERS[applicationFilter](application.match))
+    .sort((a, b) => applicationSort === 'match'
+      ? (b.match.score ?? -1) - (a.match.score ?? -1)
+      : new Date(b.submitted_at).getTime() - new Date(a.submitted_at).getTime());
+
   if (loading) {
     return <DashboardLoadingSkeleton />;
   }
@@ -174,12 +199,26 @@ export default function EmployerDashboard() {
             )}
           </p>
         </div>
-        <Link href="/protected/employer/create-job">
-          <Button>
-            <Plus className="mr-2 h-4 w-4" />
-            Post New Job
-          </Button>
-        </Link>
+        <div className="flex gap-2">
+          <Link href="/protected/employer/assessments">
+            <Button variant="outline">
+              <Brain className="mr-2 h-4 w-4" />
+              Assessments
+            </Button>
+          </Link>
+          <Link href="/protected/employer/contracts">
+            <Button variant="outline">
+              <FileSignature className="mr-2 h-4 w-4" />
+              Contracts
+            </Button>
+          </Link>
+          <Link href="/protected/employer/create">
+            <Button>
+              <Plus className="mr-2 h-4 w-4" />
+              Post New Job
+            </Button>
+          </Link>
+        </div>
       </div>
 
       {/* Stats Overview */}
@@ -227,6 +266,7 @@ export default function EmployerDashboard() {
         <TabsList>
           <TabsTrigger value="jobs">Job Openings</TabsTrigger>
           <TabsTrigger value="applications">Applications</TabsTrigger>
+          <TabsTrigger value="pipeline">Pipeline</TabsTrigger>
           <TabsTrigger value="analytics">Analytics</TabsTrigger>
         </TabsList>
 
@@ -240,7 +280,7 @@ export default function EmployerDashboard() {
                   <p className="text-muted-foreground mb-4">
                     Create your first job posting to start attracting talent
                   </p>
-                  <Link href="/protected/employer/create-job">
+                  <Link href="/protected/employer/create">
                     <Button>
                       <Plus className="mr-2 h-4 w-4" />
                       Post Your First Job
@@ -256,12 +296,12 @@ export default function EmployerDashboard() {
                       <div>
                         <CardTitle className="flex items-center gap-2">
                           {job.title}
-                          <Badge variant={job.is_active ? "default" : "secondary"}>
-                            {job.is_active ? "Active" : "Inactive"}
+                          <Badge variant={job.status === 'active' ? "default" : "secondary"}>
+                            {JOB_STATUS_LABELS[job.status]}
                           </Badge>
                         </CardTitle>
                         <CardDescription>
-                          {job.location} • {job.employment_type} • {job.positions_available} position(s)
+                          {job.location || 'Location not specified'} • {getEmploymentTypeLabel(job.employment_type)} • {job.positions_available} position(s)
                         </CardDescription>
                       </div>
                       <div className="flex gap-2">
@@ -295,7 +335,7 @@ export default function EmployerDashboard() {
                     <div className="flex items-center gap-4 text-sm">
                       <span className="flex items-center gap-1">
                         <Users className="h-4 w-4" />
-                        {job._count?.applications || 0} applications
+                        {job.applications_count || 0} applications
                       </span>
                       <span>Posted {new Date(job.created_at).toLocaleDateString()}</span>
                     </div>
@@ -307,6 +347,33 @@ export default function EmployerDashboard() {
         </TabsContent>
 
         <TabsContent value="applications" className="space-y-4">
+          {applications.length > 0 && (
+            <div className="flex flex-wrap items-center gap-2">
+              <Select value={applicationSort} onValueChange={(value) => setApplicationSort(value as ApplicationSort)}>
+                <SelectTrigger className="w-48">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="newest">Newest first</SelectItem>
+                  <SelectItem value="match">Best match first</SelectItem>
+                </SelectContent>
+              </Select>
+              <Select value={applicationFilter} onValueChange={(value) => setApplicationFilter(value as ApplicationFilter)}>
+                <SelectTrigger className="w-56">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All applicants</SelectItem>
+                  <SelectItem value="meets_requirements">Meets all requirements</SelectItem>
+                  <SelectItem value="strong">Strong matches</SelectItem>
+                  <SelectItem value="partial">Partial matches or better</SelectItem>
+                </SelectContent>
+              </Select>
+              <span className="text-sm text-muted-foreground">
+                {visibleApplications.length} of {applications.length} applications
+              </span>
+            </div>
+          )}
           <div className="grid gap-4">
             {applications.length === 0 ? (
               <Card>
@@ -318,8 +385,14 @@ export default function EmployerDashboard() {
                   </p>
                 </CardContent>
               </Card>
+            ) : visibleApplications.length === 0 ? (
+              <Card>
+                <CardContent className="text-center py-8 text-muted-foreground">
+                  No applications match this filter
+                </CardContent>
+              </Card>
             ) : (
-              applications.map((application) => (
+              visibleApplications.map((application) => (
                 <Card key={application.id}>
                   <CardHeader>
                     <div className="flex items-start justify-between">
@@ -332,14 +405,23 @@ export default function EmployerDashboard() {
                         </CardDescription>
                       </div>
                       <div className="flex items-center gap-2">
+                        {application.match.score !== null && (
+                          <Badge
+                            variant="outline"
+                            className={MATCH_BADGE_CLASSES[getMatchLevel(application.match.score)]}
+                            title={MATCH_LEVEL_LABELS[getMatchLevel(application.match.score)]}
+                          >
+                            {application.match.score}% match
+                          </Badge>
+                        )}
                         <Badge 
                           variant={
-                            application.status === 'pending' ? 'secondary' :
-                            application.status === 'approved' ? 'default' :
+                            application.status === 'submitted' ? 'secondary' :
+                            application.status === 'hired' ? 'default' :
                             application.status === 'rejected' ? 'destructive' : 'outline'
                           }
                         >
-                          {application.status}
+                          {getStageLabel(application.status)}
                         </Badge>
                         <Link href={`/protected/employer/applications/${application.id}`}>
                           <Button variant="outline" size="sm">
@@ -350,11 +432,20 @@ export default function EmployerDashboard() {
                       </div>
                     </div>
                   </CardHeader>
-                  <CardContent>
+                  <CardContent className="space-y-2">
                     <div className="flex items-center gap-4 text-sm text-muted-foreground">
                       <span>{application.applicant?.email}</span>
-                      <span>Applied {new Date(application.applied_at).toLocaleDateString()}</span>
+                      <span>Applied {new Date(application.submitted_at).toLocaleDateString()}</span>
                     </div>
+                    {describeMatch(application.match).length > 0 && (
+                      <ul className="text-xs text-muted-foreground space-y-0.5">
+                        {describeMatch(application.match).map((finding) => (
+                          <li key={finding.text} className={finding.met ? undefined : 'text-red-600'}>
+                            {finding.text}
+                          </li>
+                        ))}
+                      </ul>
+                    )}
                   </CardContent>
                 </Card>
               ))
@@ -362,6 +453,10 @@ export default function EmployerDashboard() {
           </div>
         </TabsContent>
 
+        <TabsContent value="pipeline">
+          {user && <PipelineBoard userId={user.id} companyId={selectedCompanyId} />}
+        </TabsContent>
+
         <TabsContent value="analytics">
           <Card>
             <CardHeader>
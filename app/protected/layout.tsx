@@ -9,6 +9,7 @@ import type { TaskWithProgress, UserTaskMetadata } from "@/lib/types/database";
 import { AnimatePresence, motion } from "framer-motion";
 import { AuthButton } from "@/components/auth-button";
 import { ThemeSwitcher } from "@/components/theme-switcher";
+import { NotificationBell } from "@/components/notification-bell";
 import { RoleSelection } from "@/components/role-selection";
 import { RoleRedirectSkeleton } from "@/components/loading-skeleton";
 import Link from "next/link";
@@ -222,6 +223,7 @@ function ProtectedLayoutInner({
                 <Link href={"/protected"}>Uwezo Career Platform</Link>
               </div>
               <div className="flex items-center gap-4">
+                {user && <NotificationBell userId={user.id} />}
                 <AuthButton />
                 <ThemeSwitcher />
               </div>
@@ -0,0 +1,110 @@
+"use client";
+
+import { useState } from "react";
+import { useAuth } from "@/hooks/use-auth";
+import { useNotifications } from "@/hooks/use-notifications";
+import { NotificationItem } from "@/components/notification-item";
+import { EmailPreferences } from "@/components/email-preferences";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { DashboardLoadingSkeleton } from "@/components/loading-skeleton";
+import { Bell, Check, CheckCheck, Trash2 } from "lucide-react";
+import type { AppNotification } from "@/lib/types/enhanced-database";
+
+const NOTIFICATION_PAGE_LIMIT = 100;
+
+export default function NotificationsPage() {
+  const { user } = useAuth();
+  const { notifications, unreadCount, loading, markRead, markAllRead, remove } = useNotifications(user?.id, {
+    limit: NOTIFICATION_PAGE_LIMIT,
+  });
+  const [view, setView] = useState<'all' | 'unread'>('all');
+
+  const openNotification = (notification: AppNotification) => {
+    if (!notification.is_read) markRead([notification.id]);
+  };
+
+  if (loading) {
+    return <DashboardLoadingSkeleton />;
+  }
+
+  const visible = view === 'unread' ? notifications.filter((notification) => !notification.is_read) : notifications;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Notifications</h1>
+          <p className="text-muted-foreground">
+            {unreadCount > 0 ? `${unreadCount} unread` : 'You are all caught up'}
+          </p>
+        </div>
+        <Button variant="outline" onClick={markAllRead} disabled={unreadCount === 0}>
+          <CheckCheck className="mr-2 h-4 w-4" />
+          Mark all read
+        </Button>
+      </div>
+
+      <Tabs value={view} onValueChange={(value) => setView(value as 'all' | 'unread')}>
+        <TabsList>
+          <TabsTrigger value="all">All</TabsTrigger>
+          <TabsTrigger value="unread">Unread</TabsTrigger>
+        </TabsList>
+      </Tabs>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Bell className="h-5 w-5" />
+            {view === 'unread' ? 'Unread' : 'All notifications'}
+          </CardTitle>
+          <CardDescription>
+            Updates on your applications, interviews, contracts and teams
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {visible.length === 0 ? (
+            <div className="text-center py-8">
+              <Bell className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+              <h3 className="text-lg font-medium mb-2">No notifications</h3>
+              <p className="text-muted-foreground">
+                {view === 'unread' ? 'You have read everything.' : 'We will let you know when something happens.'}
+              </p>
+            </div>
+          ) : (
+            <ul className="divide-y">
+              {visible.map((notification) => (
+                <li key={notification.id} className="flex items-start gap-2 py-3">
+                  <div className="flex-1">
+                    <NotificationItem notification={notification} onOpen={openNotification} />
+                  </div>
+                  {!notification.is_read && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => markRead([notification.id])}
+                      aria-label="Mark as read"
+                    >
+                      <Check className="h-4 w-4" />
+                    </Button>
+                  )}
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => remove(notification.id)}
+                    aria-label="Delete notification"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+
+      {user && <EmailPreferences userId={user.id} />}
+    </div>
+  );
+}
@@ -56,6 +56,8 @@ import {
   DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
+import { CandidateDocuments } from "@/components/candidate-documents";
+import { SavedSignatures } from "@/components/saved-signatures";
 import { cn } from "@/lib/utils";
 import Link from "next/link";
 
@@ -801,6 +803,13 @@ export default function ProfilePage() {
                 </div>
               </CardContent>
             </Card>
+            {user && <CandidateDocuments userId={user.id} />}
+            {user && (
+              <SavedSignatures
+                userId={user.id}
+                name={[userProfile?.firstName, userProfile?.lastName].filter(Boolean).join(' ')}
+              />
+            )}
           </TabsContent>
 
           {userProfile?.role === 'employer' && (
@@ -0,0 +1,236 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import { toast } from "sonner";
+import { repo } from "@/lib/supabase/client";
+import { hasCompanyPermission } from "@/lib/companies/permissions";
+import {
+  CONTRACT_SIGNATURE_STATUS_LABELS,
+  SIGNING_ORDERS,
+  SIGNING_ORDER_LABELS,
+  getAwaitingParty,
+} from "@/lib/contracts/signatures";
+import { MAX_CONTRACT_EXPIRY_DAYS } from "@/lib/contracts/validation";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Download, FileSignature, Loader2, Send } from "lucide-react";
+import type { ContractSignature, ContractTemplate, SigningOrder } from "@/lib/types/enhanced-database";
+
+interface ApplicationContractsProps {
+  applicationId: string;
+  companyId: string;
+  userId: string;
+  // Closed applications keep their contracts but cannot be sent new ones
+  closed: boolean;
+}
+
+const DEFAULT_EXPIRY_DAYS = '14';
+
+/**
+ * Contracts sent to one applicant on the employer side: send a template
+ * for signing, see whose signature each one is waiting for and open it to
+ * countersign or void.
+ */
+export function ApplicationContracts({ applicationId, companyId, userId, closed }: ApplicationContractsProps) {
+  const [contracts, setContracts] = useState<ContractSignature[]>([]);
+  const [templates, setTemplates] = useState<ContractTemplate[]>([]);
+  const [canSign, setCanSign] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [sending, setSending] = useState(false);
+  const [showForm, setShowForm] = useState(false);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [templateId, setTemplateId] = useState("");
+  const [signingOrder, setSigningOrder] = useState<SigningOrder>('employee_first');
+  const [expiresInDays, setExpiresInDays] = useState(DEFAULT_EXPIRY_DAYS);
+
+  const loadContracts = useCallback(async () => {
+    try {
+      const [rows, membership, templateRows] = await Promise.all([
+        repo.contractSignatures.listForApplication(applicationId),
+        repo.companyMembers.getMembership(companyId, userId),
+        repo.contractTemplates.listForCompany(companyId),
+      ]);
+      setContracts(rows);
+      setCanSign(hasCompanyPermission(membership, 'can_sign_contracts'));
+      setTemplates(templateRows.filter((template) => template.is_active));
+    } catch (error) {
+      console.error('Error loading contracts:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [applicationId, companyId, userId]);
+
+  useEffect(() => {
+    loadContracts();
+  }, [loadContracts]);
+
+  const openForm = () => {
+    setFormError(null);
+    setTemplateId(templates.find((template) => template.is_default)?.id ?? templates[0]?.id ?? "");
+    setSigningOrder('employee_first');
+    setExpiresInDays(DEFAULT_EXPIRY_DAYS);
+    setShowForm(true);
+  };
+
+  const sendContract = async () => {
+    setSending(true);
+    setFormError(null);
+    try {
+      const response = await fetch('/api/contract-signatures/issue', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          application_id: applicationId,
+          template_id: templateId,
+          signing_order: signingOrder,
+          expires_in_days: expiresInDays ? Number(expiresInDays) : null,
+        }),
+      });
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error || 'Something went wrong. Please try again.');
+
+      toast.success(signingOrder === 'employer_first' ? 'Contract ready for your signature' : 'Contract sent to the candidate');
+      setShowForm(false);
+      await loadContracts();
+    } catch (error) {
+      setFormError(error instanceof Error ? error.message : 'Something went wrong. Please try again.');
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const awaitingLabel = (contract: ContractSignature) => {
+    const party = getAwaitingParty(contract);
+    if (party === 'employer') return 'Waiting for your countersignature';
+    if (party === 'employee') return 'Waiting for the candidate';
+    return null;
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <FileSignature className="h-5 w-5" />
+              Contracts
+            </CardTitle>
+            <CardDescription>Contracts sent to this applicant and their signatures</CardDescription>
+          </div>
+          {canSign && !closed && !showForm && (
+            <Button size="sm" onClick={openForm} disabled={templates.length === 0}>
+              <Send className="mr-1 h-4 w-4" />
+              Send contract
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {showForm && (
+          <div className="space-y-4 rounded-lg border p-4">
+            <div className="space-y-2">
+              <Label>Template</Label>
+              <Select value={templateId} onValueChange={setTemplateId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select a template" />
+                </SelectTrigger>
+                <SelectContent>
+                  {templates.map((template) => (
+                    <SelectItem key={template.id} value={template.id}>
+                      {template.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div className="space-y-2">
+                <Label>Signing order</Label>
+                <Select value={signingOrder} onValueChange={(value) => setSigningOrder(value as SigningOrder)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {SIGNING_ORDERS.map((order) => (
+                      <SelectItem key={order} value={order}>
+                        {SIGNING_ORDER_LABELS[order]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="contract-expires-in">Days to sign (blank for no deadline)</Label>
+                <Input
+                  id="contract-expires-in"
+                  type="number"
+                  min={1}
+                  max={MAX_CONTRACT_EXPIRY_DAYS}
+                  value={expiresInDays}
+                  onChange={(e) => setExpiresInDays(e.target.value)}
+                />
+              </div>
+            </div>
+            {formError && <p className="text-sm text-destructive">{formError}</p>}
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" size="sm" onClick={() => setShowForm(false)} disabled={sending}>
+                Cancel
+              </Button>
+              <Button size="sm" onClick={sendContract} disabled={sending || !templateId}>
+                {sending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Send contract
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {loading ? (
+          <p className="text-sm text-muted-foreground">Loading contracts...</p>
+        ) : contracts.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            {canSign && templates.length === 0
+              ? 'Add an active contract template to send contracts.'
+              : 'No contracts yet.'}
+          </p>
+        ) : (
+          contracts.map((contract) => (
+            <div key={contract.id} className="flex flex-wrap items-center justify-between gap-4 rounded-lg border p-4">
+              <div className="space-y-1">
+                <div className="flex flex-wrap items-center gap-2">
+                  <h3 className="font-medium">{contract.title}</h3>
+                  <Badge variant={contract.status === 'fully_signed' ? 'default' : 'outline'}>
+                    {CONTRACT_SIGNATURE_STATUS_LABELS[contract.status]}
+                  </Badge>
+                </div>
+                <p className="text-sm text-muted-foreground">
+                  Sent {new Date(contract.created_at).toLocaleDateString()}
+                  {awaitingLabel(contract) && ` • ${awaitingLabel(contract)}`}
+                </p>
+              </div>
+              <div className="flex gap-2">
+                {contract.status === 'fully_signed' && (
+                  <Button variant="outline" size="sm" asChild>
+                    <a href={`/api/contract-signatures/${contract.id}/pdf`}>
+                      <Download className="mr-1 h-4 w-4" />
+                      PDF
+                    </a>
+                  </Button>
+                )}
+                <Button variant="outline" size="sm" asChild>
+                  <Link href={`/protected/employer/contracts/signatures/${contract.id}`}>
+                    {getAwaitingParty(contract) === 'employer' && canSign ? 'Countersign' : 'View'}
+                  </Link>
+                </Button>
+              </div>
+            </div>
+          ))
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,197 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Download, FileText, ListChecks, Loader2, Video } from "lucide-react";
+import { formatScreeningAnswer } from "@/lib/applications/screening";
+import type { JobApplicationEnhanced, JobOpeningEnhanced } from "@/lib/types/enhanced-database";
+
+// As returned by GET /api/applications/[id]/materials; links expire
+interface ApplicationMaterialsData {
+  cv: { filename: string; mime_type: string | null; url: string | null } | null;
+  video: { url: string | null; duration_seconds: number | null; recorded_at: string } | null;
+  quiz: { score: number | null; passed: boolean | null; completed_at: string | null } | null;
+  screening_files: Record<string, string>;
+}
+
+interface ApplicationMaterialsProps {
+  application: JobApplicationEnhanced;
+  job: JobOpeningEnhanced | null;
+}
+
+const isPdf = (cv: NonNullable<ApplicationMaterialsData['cv']>) =>
+  cv.mime_type === 'application/pdf' || cv.filename.toLowerCase().endsWith('.pdf');
+
+/**
+ * Everything the candidate submitted with the application: the CV shown
+ * inline, cover letter, video introduction, aptitude quiz result and
+ * screening answers.
+ */
+export function ApplicationMaterials({ application, job }: ApplicationMaterialsProps) {
+  const [materials, setMaterials] = useState<ApplicationMaterialsData | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const applicationId = application.id;
+
+  useEffect(() => {
+    const loadMaterials = async () => {
+      try {
+        const response = await fetch(`/api/applications/${applicationId}/materials`);
+        const result = await response.json();
+        if (!response.ok) throw new Error(result.error);
+        setMaterials(result.data);
+      } catch (error) {
+        console.error('Error loading application materials:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadMaterials();
+  }, [applicationId]);
+
+  const questions = job?.screening_questions ?? [];
+  const answers = application.screening_answers ?? [];
+  const cv = materials?.cv;
+
+  return (
+    <>
+      <Card>
+        <CardHeader>
+          <div className="flex flex-wrap items-start justify-between gap-2">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <FileText className="h-5 w-5" />
+                CV
+              </CardTitle>
+              <CardDescription>{cv?.filename ?? 'The candidate applied without a CV'}</CardDescription>
+            </div>
+            {cv?.url && (
+              <Button variant="outline" size="sm" asChild>
+                <a href={cv.url} target="_blank" rel="noopener noreferrer">
+                  <Download className="mr-2 h-4 w-4" />
+                  Open
+                </a>
+              </Button>
+            )}
+          </div>
+        </CardHeader>
+        {(loading || cv) && (
+          <CardContent>
+            {loading ? (
+              <div className="flex justify-center py-8">
+                <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+              </div>
+            ) : cv?.url && isPdf(cv) ? (
+              <iframe src={cv.url} title={`CV: ${cv.filename}`} className="w-full h-[70vh] rounded-md border" />
+            ) : (
+              <p className="text-sm text-muted-foreground">
+                {cv?.url
+                  ? 'This file type cannot be shown here. Open it to read the CV.'
+                  : 'The CV file could not be found.'}
+              </p>
+            )}
+          </CardContent>
+        )}
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Cover Letter</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {application.cover_letter ? (
+            <p className="text-sm whitespace-pre-wrap">{application.cover_letter}</p>
+          ) : (
+            <p className="text-sm text-muted-foreground">No cover letter was included.</p>
+          )}
+        </CardContent>
+      </Card>
+
+      <div className="grid gap-6 md:grid-cols-2">
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Video className="h-5 w-5" />
+              Video Introduction
+            </CardTitle>
+            {materials?.video && (
+              <CardDescription>
+                Recorded {new Date(materials.video.recorded_at).toLocaleDateString()}
+              </CardDescription>
+            )}
+          </CardHeader>
+          <CardContent>
+            {materials?.video?.url ? (
+              <video src={materials.video.url} controls preload="metadata" className="w-full rounded-md bg-black" />
+            ) : (
+              <p className="text-sm text-muted-foreground">
+                {loading ? 'Loading…' : 'The candidate has not recorded a video introduction.'}
+              </p>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Aptitude Quiz</CardTitle>
+            <CardDescription>From the candidate&apos;s onboarding</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {materials?.quiz && materials.quiz.score !== null ? (
+              <div className="flex items-center gap-3">
+                <span className="text-3xl font-semibold">{materials.quiz.score}%</span>
+                {materials.quiz.passed !== null && (
+                  <Badge variant={materials.quiz.passed ? 'default' : 'destructive'}>
+                    {materials.quiz.passed ? 'Passed' : 'Not passed'}
+                  </Badge>
+                )}
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground">
+                {loading ? 'Loading…' : 'The candidate has not finished the aptitude quiz.'}
+              </p>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      {questions.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <ListChecks className="h-5 w-5" />
+              Screening Answers
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <dl className="space-y-4">
+              {questions.map((question) => {
+                const answer = answers.find((candidate) => candidate.question_id === question.id);
+                const fileUrl = materials?.screening_files[question.id];
+                return (
+                  <div key={question.id}>
+                    <dt className="text-sm font-medium">{question.question}</dt>
+                    <dd className="text-sm text-muted-foreground whitespace-pre-wrap">
+                      {!answer ? (
+                        'Not answered'
+                      ) : fileUrl ? (
+                        <a href={fileUrl} target="_blank" rel="noopener noreferrer" className="underline">
+                          {formatScreeningAnswer(question, answer)}
+                        </a>
+                      ) : (
+                        formatScreeningAnswer(question, answer)
+                      )}
+                    </dd>
+                  </div>
+                );
+              })}
+            </dl>
+          </CardContent>
+        </Card>
+      )}
+    </>
+  );
+}
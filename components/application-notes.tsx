@@ -0,0 +1,229 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { formatDistanceToNow } from "date-fns";
+import { toast } from "sonner";
+import { repo } from "@/lib/supabase/client";
+import { getProfileName } from "@/lib/utils";
+import { hasCompanyPermission } from "@/lib/companies/permissions";
+import {
+  findMentions,
+  getMentionQuery,
+  splitMentions,
+  type MentionCandidate,
+} from "@/lib/applications/mentions";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Loader2, Lock, Trash2 } from "lucide-react";
+import type { ApplicationNote } from "@/lib/types/enhanced-database";
+
+interface ApplicationNotesProps {
+  applicationId: string;
+  companyId: string;
+  userId: string;
+}
+
+const MAX_SUGGESTIONS = 6;
+
+/**
+ * Private notes the hiring team leaves on an application. Typing "@" suggests
+ * teammates who can see the application; mentioned teammates are notified.
+ */
+export function ApplicationNotes({ applicationId, companyId, userId }: ApplicationNotesProps) {
+  const [notes, setNotes] = useState<ApplicationNote[]>([]);
+  const [teammates, setTeammates] = useState<MentionCandidate[]>([]);
+  const [body, setBody] = useState("");
+  const [mention, setMention] = useState<{ query: string; start: number } | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+  const loadNotes = useCallback(async () => {
+    try {
+      const [noteRows, members] = await Promise.all([
+        repo.applicationNotes.listForApplication(applicationId),
+        repo.companyMembers.list(companyId),
+      ]);
+      const reviewers = members.filter((member) => hasCompanyPermission(member, 'can_view_applications'));
+      const profiles = await repo.profiles.listByUserIds(reviewers.map((member) => member.user_id));
+
+      setNotes(noteRows);
+      setTeammates(profiles.flatMap((profile) => {
+        const name = getProfileName(profile);
+        return name ? [{ userId: profile.user_id, name }] : [];
+      }));
+    } catch (error) {
+      console.error('Error loading notes:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [applicationId, companyId]);
+
+  useEffect(() => {
+    loadNotes();
+  }, [loadNotes]);
+
+  const suggestions = mention
+    ? teammates
+      .filter((teammate) => teammate.userId !== userId)
+      .filter((teammate) => teammate.name.toLowerCase().includes(mention.query.toLowerCase()))
+      .slice(0, MAX_SUGGESTIONS)
+    : [];
+
+  const handleChange = (value: string, caret: number) => {
+    setBody(value);
+    setMention(getMentionQuery(value, caret));
+  };
+
+  const insertMention = (teammate: MentionCandidate) => {
+    if (!mention) return;
+    const caret = mention.start + mention.query.length + 1;
+    const inserted = `@${teammate.name} `;
+    const next = body.slice(0, mention.start) + inserted + body.slice(caret);
+    setBody(next);
+    setMention(null);
+
+    // Put the caret after the inserted name
+    requestAnimationFrame(() => {
+      const position = mention.start + inserted.length;
+      textareaRef.current?.focus();
+      textareaRef.current?.setSelectionRange(position, position);
+    });
+  };
+
+  const handleAdd = async () => {
+    const text = body.trim();
+    if (!text) return;
+
+    setSaving(true);
+    try {
+      const note = await repo.applicationNotes.create({
+        application_id: applicationId,
+        author_id: userId,
+        body: text,
+        mentions: findMentions(text, teammates).filter((id) => id !== userId),
+      });
+      setNotes((prev) => [...prev, note]);
+      setBody("");
+      setMention(null);
+    } catch (error) {
+      console.error('Error adding note:', error);
+      toast.error('Failed to add note');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (noteId: string) => {
+    try {
+      await repo.applicationNotes.delete(noteId);
+      setNotes((prev) => prev.filter((note) => note.id !== noteId));
+    } catch (error) {
+      console.error('Error deleting note:', error);
+      toast.error('Failed to delete note');
+    }
+  };
+
+  const nameOf = (id: string) =>
+    id === userId ? 'You' : teammates.find((teammate) => teammate.userId === id)?.name ?? 'Teammate';
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Team Notes</CardTitle>
+        <CardDescription className="flex items-center gap-1">
+          <Lock className="h-3 w-3" />
+          Only your hiring team can see these
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {loading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : notes.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No notes yet.</p>
+        ) : (
+          <ul className="space-y-3">
+            {notes.map((note) => (
+              <li key={note.id} className="rounded-lg border p-3 space-y-1">
+                <div className="flex items-center justify-between gap-2">
+                  <p className="text-xs text-muted-foreground">
+                    <span className="font-medium text-foreground">{nameOf(note.author_id)}</span>
+                    {' • '}
+                    {formatDistanceToNow(new Date(note.created_at), { addSuffix: true })}
+                  </p>
+                  {note.author_id === userId && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleDelete(note.id)}
+                      aria-label="Delete note"
+                    >
+                      <Trash2 className="h-3 w-3" />
+                    </Button>
+                  )}
+                </div>
+                <p className="text-sm whitespace-pre-wrap">
+                  {splitMentions(
+                    note.body,
+                    teammates.filter((teammate) => note.mentions.includes(teammate.userId))
+                  ).map((part, index) => (
+                    part.userId
+                      ? <span key={index} className="font-medium text-primary">{part.text}</span>
+                      : <span key={index}>{part.text}</span>
+                  ))}
+                </p>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <div className="relative space-y-2">
+          <Textarea
+            ref={textareaRef}
+            value={body}
+            onChange={(e) => handleChange(e.target.value, e.target.selectionStart)}
+            onKeyDown={(e) => {
+              if (e.key === 'Escape') setMention(null);
+              if (e.key === 'Enter' && suggestions.length > 0 && !e.shiftKey) {
+                e.preventDefault();
+                insertMention(suggestions[0]);
+              }
+            }}
+            placeholder="Add a note. Type @ to mention a teammate."
+            rows={3}
+            maxLength={5000}
+            aria-label="New note"
+          />
+          {suggestions.length > 0 && (
+            <ul className="absolute z-10 left-0 top-full mt-1 w-64 rounded-md border bg-popover shadow-md" role="listbox">
+              {suggestions.map((teammate) => (
+                <li key={teammate.userId}>
+                  <button
+                    type="button"
+                    className="w-full text-left px-3 py-2 text-sm hover:bg-muted"
+                    onMouseDown={(e) => {
+                      // Keep focus in the textarea
+                      e.preventDefault();
+                      insertMention(teammate);
+                    }}
+                  >
+                    {teammate.name}
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+          <div className="flex justify-end">
+            <Button onClick={handleAdd} disabled={saving || !body.trim()}>
+              {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Add Note
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
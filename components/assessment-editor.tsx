@@ -0,0 +1,347 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { useRouter } from "next/navigation";
+import { toast } from "sonner";
+import { repo } from "@/lib/supabase/client";
+import { getMemberPermissions } from "@/lib/companies/permissions";
+import { getFieldErrors } from "@/lib/jobs/validation";
+import {
+  ASSESSMENT_TYPES,
+  ASSESSMENT_TYPE_LABELS,
+  AssessmentSchema,
+  DIFFICULTY_LABELS,
+  DIFFICULTY_LEVELS,
+} from "@/lib/assessments/validation";
+import type { AssessmentQuestion, SkillAssessment } from "@/lib/types/enhanced-database";
+import { AssessmentQuestionsBuilder } from "@/components/assessment-questions-builder";
+import { SkillInput } from "@/components/skill-input";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Brain, ListChecks, Loader2, Settings } from "lucide-react";
+
+// Form state keeps numeric inputs as strings so fields can be cleared while typing
+interface AssessmentFormData {
+  company_id: string;
+  title: string;
+  description: string;
+  assessment_type: string;
+  difficulty_level: string;
+  time_limit_minutes: string;
+  passing_score: string;
+  skills_tested: string[];
+  is_public: boolean;
+  questions: AssessmentQuestion[];
+}
+
+const toFormData = (assessment?: SkillAssessment | null): AssessmentFormData => ({
+  company_id: assessment?.company_id ?? "",
+  title: assessment?.title ?? "",
+  description: assessment?.description ?? "",
+  assessment_type: assessment?.assessment_type ?? "technical",
+  difficulty_level: assessment?.difficulty_level ?? "",
+  time_limit_minutes: assessment?.time_limit_minutes?.toString() ?? "30",
+  passing_score: assessment?.passing_score?.toString() ?? "70",
+  skills_tested: assessment?.skills_tested ?? [],
+  is_public: assessment?.is_public ?? false,
+  questions: assessment?.questions ?? [],
+});
+
+const toAssessmentInput = (form: AssessmentFormData) => ({
+  title: form.title,
+  description: form.description.trim() || null,
+  assessment_type: form.assessment_type,
+  difficulty_level: form.difficulty_level || null,
+  time_limit_minutes: form.time_limit_minutes.trim() ? Number(form.time_limit_minutes) : null,
+  passing_score: Number(form.passing_score),
+  skills_tested: form.skills_tested,
+  is_public: form.is_public,
+  questions: form.questions,
+});
+
+function FieldError({ message }: { message?: string }) {
+  return message ? <p className="text-sm text-red-500">{message}</p> : null;
+}
+
+interface AssessmentEditorProps {
+  userId: string;
+  assessment?: SkillAssessment | null;
+  readOnly?: boolean;
+  onSaved?: (assessment: SkillAssessment) => void;
+}
+
+export function AssessmentEditor({ userId, assessment, readOnly, onSaved }: AssessmentEditorProps) {
+  const router = useRouter();
+  const [companies, setCompanies] = useState<Array<{ id: string; name: string }>>([]);
+  const [formData, setFormData] = useState<AssessmentFormData>(() => toFormData(assessment));
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    const loadCompanies = async () => {
+      try {
+        const data = (await repo.companies.listForUser(userId))
+          .filter((company) => getMemberPermissions(company).can_manage_assessments);
+        setCompanies(data);
+
+        if (data.length === 1) {
+          setFormData((prev) => (prev.company_id ? prev : { ...prev, company_id: data[0].id }));
+        }
+      } catch (error) {
+        console.error('Error loading companies:', error);
+      }
+    };
+
+    loadCompanies();
+  }, [userId]);
+
+  const handleInputChange = <K extends keyof AssessmentFormData>(field: K, value: AssessmentFormData[K]) => {
+    setFormData((prev) => ({ ...prev, [field]: value }));
+    setErrors((prev) => Object.fromEntries(
+      Object.entries(prev).filter(([key]) => key !== field && !key.startsWith(`${field}.`))
+    ));
+  };
+
+  const handleSave = async () => {
+    if (!assessment && !formData.company_id) {
+      setErrors({ company_id: 'Please select a company.' });
+      return;
+    }
+
+    const parsed = AssessmentSchema.safeParse(toAssessmentInput(formData));
+    if (!parsed.success) {
+      setErrors(getFieldErrors(parsed.error));
+      toast.error('Please fix the highlighted fields.');
+      return;
+    }
+    setErrors({});
+
+    setSaving(true);
+    try {
+      if (assessment) {
+        const saved = await repo.assessments.update(assessment.id, parsed.data);
+        onSaved?.(saved);
+        toast.success(saved.version > assessment.version ? `Saved as version ${saved.version}` : 'Assessment saved');
+        return;
+      }
+
+      const created = await repo.assessments.create({
+        ...parsed.data,
+        company_id: formData.company_id,
+        created_by: userId,
+      });
+      toast.success('Assessment created');
+      router.replace(`/protected/employer/assessments/${created.id}`);
+    } catch (error) {
+      console.error('Error saving assessment:', error);
+      toast.error('Failed to save assessment. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // The builder reports errors relative to its own list
+  const questionErrors = Object.fromEntries(
+    Object.entries(errors)
+      .filter(([field]) => field.startsWith('questions.'))
+      .map(([field, message]) => [field.slice('questions.'.length), message])
+  );
+
+  return (
+    <form
+      onSubmit={(e) => {
+        e.preventDefault();
+        handleSave();
+      }}
+      className="space-y-6"
+    >
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Settings className="h-5 w-5" />
+            Details
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <fieldset disabled={readOnly} className="space-y-4">
+            {!assessment && (
+              <div className="space-y-2">
+                <Label htmlFor="company">Company *</Label>
+                <Select value={formData.company_id} onValueChange={(value) => handleInputChange('company_id', value)}>
+                  <SelectTrigger id="company">
+                    <SelectValue placeholder="Select a company" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {companies.map((company) => (
+                      <SelectItem key={company.id} value={company.id}>
+                        {company.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FieldError message={errors.company_id} />
+                {companies.length === 0 && (
+                  <p className="text-sm text-muted-foreground">
+                    You do not have permission to manage assessments for any company.
+                  </p>
+                )}
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label htmlFor="title">Title *</Label>
+              <Input
+                id="title"
+                value={formData.title}
+                onChange={(e) => handleInputChange('title', e.target.value)}
+                placeholder="e.g. JavaScript Fundamentals"
+              />
+              <FieldError message={errors.title} />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="description">Description</Label>
+              <Textarea
+                id="description"
+                value={formData.description}
+                onChange={(e) => handleInputChange('description', e.target.value)}
+                placeholder="What the assessment covers and how long it takes"
+                rows={3}
+              />
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="assessment_type">Type</Label>
+                <Select
+                  value={formData.assessment_type}
+                  onValueChange={(value) => handleInputChange('assessment_type', value)}
+                  disabled={readOnly}
+                >
+                  <SelectTrigger id="assessment_type">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {ASSESSMENT_TYPES.map((type) => (
+                      <SelectItem key={type} value={type}>
+                        {ASSESSMENT_TYPE_LABELS[type]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="difficulty_level">Difficulty</Label>
+                <Select
+                  value={formData.difficulty_level}
+                  onValueChange={(value) => handleInputChange('difficulty_level', value)}
+                  disabled={readOnly}
+                >
+                  <SelectTrigger id="difficulty_level">
+                    <SelectValue placeholder="Select difficulty" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {DIFFICULTY_LEVELS.map((level) => (
+                      <SelectItem key={level} value={level}>
+                        {DIFFICULTY_LABELS[level]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="time_limit_minutes">Time limit (minutes)</Label>
+                <Input
+                  id="time_limit_minutes"
+                  type="number"
+                  min="1"
+                  value={formData.time_limit_minutes}
+                  onChange={(e) => handleInputChange('time_limit_minutes', e.target.value)}
+                  placeholder="No limit"
+                />
+                <FieldError message={errors.time_limit_minutes} />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="passing_score">Passing score (%)</Label>
+                <Input
+                  id="passing_score"
+                  type="number"
+                  min="0"
+                  max="100"
+                  value={formData.passing_score}
+                  onChange={(e) => handleInputChange('passing_score', e.target.value)}
+                />
+                <FieldError message={errors.passing_score} />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="skills_tested">Skills tested</Label>
+              <SkillInput
+                id="skills_tested"
+                skills={formData.skills_tested}
+                onChange={(skills) => handleInputChange('skills_tested', skills)}
+                placeholder="Type a skill and press Enter"
+              />
+              <FieldError message={errors.skills_tested} />
+            </div>
+
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id="is_public"
+                checked={formData.is_public}
+                onCheckedChange={(checked) => handleInputChange('is_public', checked === true)}
+              />
+              <Label htmlFor="is_public">Share in the public assessment library</Label>
+            </div>
+          </fieldset>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <ListChecks className="h-5 w-5" />
+            Questions
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <AssessmentQuestionsBuilder
+            questions={formData.questions}
+            onChange={(questions) => handleInputChange('questions', questions)}
+            errors={questionErrors}
+            readOnly={readOnly}
+          />
+          <FieldError message={errors.questions} />
+        </CardContent>
+      </Card>
+
+      {!readOnly && (
+        <div className="flex justify-end gap-4">
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => router.push('/protected/employer/assessments')}
+            disabled={saving}
+          >
+            {assessment ? 'Back to Assessments' : 'Cancel'}
+          </Button>
+          <Button type="submit" disabled={saving || (!assessment && companies.length === 0)}>
+            {saving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Brain className="mr-2 h-4 w-4" />}
+            {assessment ? 'Save Changes' : 'Create Assessment'}
+          </Button>
+        </div>
+      )}
+    </form>
+  );
+}
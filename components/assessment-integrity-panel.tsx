@@ -0,0 +1,166 @@
+"use client";
+
+import { useState } from "react";
+import { toast } from "sonner";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Loader2, ShieldAlert, ShieldCheck } from "lucide-react";
+import { cn } from "@/lib/utils";
+import {
+  ATTEMPT_REVIEW_ACTIONS,
+  ATTEMPT_STATUS_LABELS,
+  INTEGRITY_EVENT_LABELS,
+  RISK_LEVEL_LABELS,
+  countIntegrityEvents,
+  getReviewActions,
+  getRiskLevel,
+  type AttemptReviewAction,
+  type RiskLevel,
+} from "@/lib/assessments/integrity";
+import type { AssessmentAttempt, AssessmentIntegrityEvent, IntegrityEventType } from "@/lib/types/enhanced-database";
+
+const RISK_LEVEL_STYLES: Record<RiskLevel, string> = {
+  low: 'bg-green-100 text-green-800',
+  medium: 'bg-amber-100 text-amber-800',
+  high: 'bg-red-100 text-red-800',
+};
+
+const describeEvent = (event: AssessmentIntegrityEvent) => {
+  if (event.value === undefined) return null;
+  switch (event.type) {
+    case 'focus_lost':
+      return `away ${event.value}s`;
+    case 'fast_answer':
+      return `${event.value}s spent`;
+    default:
+      return `${event.value} characters`;
+  }
+};
+
+interface AssessmentIntegrityPanelProps {
+  attempt: AssessmentAttempt;
+  canReview: boolean;
+  onReviewed?: (attempt: AssessmentAttempt) => void;
+}
+
+/**
+ * An attempt's integrity log and risk score, with the reviewer's flag,
+ * invalidate and clear decisions.
+ */
+export function AssessmentIntegrityPanel({ attempt, canReview, onReviewed }: AssessmentIntegrityPanelProps) {
+  const [notes, setNotes] = useState("");
+  const [saving, setSaving] = useState<AttemptReviewAction | null>(null);
+
+  const events = attempt.integrity_events ?? [];
+  const counts = countIntegrityEvents(events);
+  const riskLevel = attempt.risk_score !== null ? getRiskLevel(attempt.risk_score) : null;
+  const questionNumbers = new Map(attempt.answers.map((answer, index) => [answer.question_id, index + 1]));
+  const actions = canReview ? getReviewActions(attempt.status) : [];
+
+  const review = async (action: AttemptReviewAction) => {
+    setSaving(action);
+    try {
+      const response = await fetch(`/api/assessment-attempts/${attempt.id}/review`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action, notes: notes || undefined }),
+      });
+      const body = await response.json();
+      if (!response.ok) {
+        toast.error(body.error || 'Failed to review attempt');
+        return;
+      }
+      setNotes("");
+      toast.success(`Attempt ${ATTEMPT_STATUS_LABELS[body.data.status as AssessmentAttempt['status']].toLowerCase()}`);
+      onReviewed?.(body.data);
+    } catch (error) {
+      console.error('Error reviewing attempt:', error);
+      toast.error('Failed to review attempt');
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-3">
+        <Badge variant={attempt.status === 'invalidated' ? 'destructive' : attempt.status === 'flagged' ? 'secondary' : 'outline'}>
+          {ATTEMPT_STATUS_LABELS[attempt.status]}
+        </Badge>
+        {attempt.score !== null && (
+          <span className={cn('text-sm font-medium', attempt.status === 'invalidated' && 'line-through text-muted-foreground')}>
+            Score {attempt.score}%{attempt.passed ? ' (passed)' : ''}
+          </span>
+        )}
+        {riskLevel && (
+          <span className={cn('inline-flex items-center gap-1 rounded-full px-2 py-1 text-xs font-medium', RISK_LEVEL_STYLES[riskLevel])}>
+            {riskLevel === 'low' ? <ShieldCheck className="h-3 w-3" /> : <ShieldAlert className="h-3 w-3" />}
+            {RISK_LEVEL_LABELS[riskLevel]} ({attempt.risk_score})
+          </span>
+        )}
+      </div>
+
+      {events.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No integrity events were recorded.</p>
+      ) : (
+        <>
+          <div className="flex flex-wrap gap-2">
+            {(Object.entries(counts) as [IntegrityEventType, number][]).map(([type, count]) => (
+              <Badge key={type} variant="outline">
+                {INTEGRITY_EVENT_LABELS[type]}: {count}
+              </Badge>
+            ))}
+          </div>
+          <ol className="max-h-64 overflow-y-auto space-y-1 text-sm border-l pl-4">
+            {events.map((event, index) => (
+              <li key={index} className="flex flex-wrap gap-x-2">
+                <span className="text-muted-foreground">{new Date(event.occurred_at).toLocaleTimeString()}</span>
+                <span>{INTEGRITY_EVENT_LABELS[event.type]}</span>
+                {event.question_id && questionNumbers.has(event.question_id) && (
+                  <span className="text-muted-foreground">on question {questionNumbers.get(event.question_id)}</span>
+                )}
+                {describeEvent(event) && <span className="text-muted-foreground">({describeEvent(event)})</span>}
+              </li>
+            ))}
+          </ol>
+        </>
+      )}
+
+      {attempt.reviewed_at && (
+        <p className="text-sm text-muted-foreground">
+          Reviewed {new Date(attempt.reviewed_at).toLocaleString()}
+          {attempt.review_notes && `: ${attempt.review_notes}`}
+        </p>
+      )}
+
+      {actions.length > 0 && (
+        <div className="space-y-2">
+          <Label htmlFor={`review-notes-${attempt.id}`}>Review notes</Label>
+          <Textarea
+            id={`review-notes-${attempt.id}`}
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            placeholder="Why you are flagging, invalidating or clearing this attempt"
+            rows={2}
+          />
+          <div className="flex flex-wrap gap-2">
+            {actions.map((action) => (
+              <Button
+                key={action}
+                size="sm"
+                variant={action === 'invalidate' ? 'destructive' : 'outline'}
+                onClick={() => review(action)}
+                disabled={saving !== null}
+              >
+                {saving === action && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {ATTEMPT_REVIEW_ACTIONS[action].label}
+              </Button>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,150 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { CheckCircle2, Clock, Trophy, XCircle } from "lucide-react";
+import { CodeEditor } from "@/components/code-editor";
+import { getCodingLanguageLabel, getCodingTestCases } from "@/lib/assessments/coding";
+import { gradeAnswer } from "@/lib/assessments/scoring";
+import type { SkillAssessment } from "@/lib/types/enhanced-database";
+
+interface AssessmentPreviewProps {
+  assessment: Pick<SkillAssessment, 'title' | 'description' | 'questions' | 'time_limit_minutes' | 'passing_score'>;
+}
+
+/**
+ * The assessment as candidates see it, for authors to try out. Nothing is
+ * recorded; coding answers are not run here.
+ */
+export function AssessmentPreview({ assessment }: AssessmentPreviewProps) {
+  const [answers, setAnswers] = useState<Record<string, string>>({});
+  const [checked, setChecked] = useState(false);
+  const [showAnswerKey, setShowAnswerKey] = useState(false);
+
+  const setAnswer = (questionId: string, value: string) => {
+    setAnswers((prev) => ({ ...prev, [questionId]: value }));
+    setChecked(false);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div className="flex flex-wrap gap-4 text-sm text-muted-foreground">
+          {assessment.time_limit_minutes && (
+            <span className="flex items-center gap-1">
+              <Clock className="h-4 w-4" />
+              {assessment.time_limit_minutes} minutes
+            </span>
+          )}
+          <span className="flex items-center gap-1">
+            <Trophy className="h-4 w-4" />
+            Passing score {assessment.passing_score}%
+          </span>
+        </div>
+        <div className="flex items-center space-x-2">
+          <Checkbox
+            id="show-answer-key"
+            checked={showAnswerKey}
+            onCheckedChange={(value) => setShowAnswerKey(value === true)}
+          />
+          <Label htmlFor="show-answer-key">Show answer key</Label>
+        </div>
+      </div>
+
+      {assessment.questions.map((question, index) => {
+        const value = answers[question.id] ?? (question.type === 'coding' ? question.code_template ?? '' : '');
+        const points = checked
+          ? gradeAnswer(question, { question_id: question.id, answer: value, time_taken_seconds: 0 })
+          : null;
+        const testCases = getCodingTestCases(question);
+
+        return (
+          <div key={question.id} className="rounded-lg border p-4 space-y-4">
+            <div className="flex items-start justify-between gap-4">
+              <h3 className="font-medium whitespace-pre-wrap">
+                {index + 1}. {question.question}
+              </h3>
+              <Badge variant="outline">{question.points} pts</Badge>
+            </div>
+
+            {(question.type === 'multiple_choice' || question.type === 'true_false') && (
+              <RadioGroup value={value} onValueChange={(answer) => setAnswer(question.id, answer)}>
+                {(question.type === 'true_false' ? ['true', 'false'] : question.options ?? []).map((option, optionIndex) => (
+                  <div key={optionIndex} className="flex items-center space-x-2">
+                    <RadioGroupItem value={option} id={`preview-${question.id}-${optionIndex}`} />
+                    <Label htmlFor={`preview-${question.id}-${optionIndex}`}>
+                      {question.type === 'true_false' ? (option === 'true' ? 'True' : 'False') : option}
+                    </Label>
+                  </div>
+                ))}
+              </RadioGroup>
+            )}
+
+            {question.type === 'text' && (
+              <Textarea
+                value={value}
+                onChange={(e) => setAnswer(question.id, e.target.value)}
+                placeholder="Type your answer..."
+                rows={4}
+              />
+            )}
+
+            {question.type === 'coding' && (
+              <div className="space-y-2">
+                <Badge variant="secondary">{getCodingLanguageLabel(question.language)}</Badge>
+                <CodeEditor value={value} onChange={(code) => setAnswer(question.id, code)} rows={10} />
+                {testCases.filter((testCase) => showAnswerKey || !testCase.hidden).map((testCase) => (
+                  <div key={testCase.id} className="grid grid-cols-1 md:grid-cols-2 gap-2 text-sm">
+                    <div>
+                      <p className="text-xs text-muted-foreground">
+                        Input{testCase.hidden && ' (hidden)'}
+                      </p>
+                      <pre className="bg-muted/50 rounded p-2 whitespace-pre-wrap font-mono">{testCase.input || ' '}</pre>
+                    </div>
+                    <div>
+                      <p className="text-xs text-muted-foreground">Expected output</p>
+                      <pre className="bg-muted/50 rounded p-2 whitespace-pre-wrap font-mono">{testCase.expected_output}</pre>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {showAnswerKey && question.type !== 'coding' && (
+              <p className="text-sm text-muted-foreground">
+                Answer key: {question.correct_answer !== undefined && question.correct_answer !== ''
+                  ? String(question.correct_answer)
+                  : 'reviewed manually'}
+              </p>
+            )}
+
+            {checked && question.type !== 'coding' && (
+              points === null ? (
+                <p className="text-sm text-muted-foreground">Reviewed manually</p>
+              ) : (
+                <p className={`flex items-center gap-1 text-sm ${points > 0 ? 'text-green-600' : 'text-red-500'}`}>
+                  {points > 0 ? <CheckCircle2 className="h-4 w-4" /> : <XCircle className="h-4 w-4" />}
+                  {points > 0 ? 'Correct' : 'Incorrect'}
+                </p>
+              )
+            )}
+          </div>
+        );
+      })}
+
+      <div className="flex justify-end gap-2">
+        <Button type="button" variant="outline" onClick={() => { setAnswers({}); setChecked(false); }}>
+          Reset
+        </Button>
+        <Button type="button" onClick={() => setChecked(true)}>
+          Check Answers
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,388 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ArrowDown, ArrowUp, Copy, Plus, Trash2, X } from "lucide-react";
+import { CodeEditor } from "@/components/code-editor";
+import { CODING_LANGUAGES } from "@/lib/assessments/coding";
+import {
+  ASSESSMENT_QUESTION_TYPES,
+  MAX_ASSESSMENT_QUESTIONS,
+  createAssessmentQuestion,
+  type AssessmentQuestionType,
+} from "@/lib/assessments/validation";
+import type { AssessmentQuestion, CodingLanguage, CodingTestCase } from "@/lib/types/enhanced-database";
+
+interface AssessmentQuestionsBuilderProps {
+  questions: AssessmentQuestion[];
+  onChange: (questions: AssessmentQuestion[]) => void;
+  // Field errors keyed by "<index>.<field>", as produced by getFieldErrors
+  errors?: Record<string, string>;
+  readOnly?: boolean;
+}
+
+function FieldError({ message }: { message?: string }) {
+  return message ? <p className="text-sm text-red-500">{message}</p> : null;
+}
+
+export function AssessmentQuestionsBuilder({ questions, onChange, errors = {}, readOnly }: AssessmentQuestionsBuilderProps) {
+  const updateQuestion = (index: number, updates: Partial<AssessmentQuestion>) => {
+    onChange(questions.map((question, i) => (i === index ? { ...question, ...updates } : question)));
+  };
+
+  const changeType = (index: number, type: AssessmentQuestionType) => {
+    // Keep the text and points, reset everything type-specific
+    const { id, question, points } = questions[index];
+    onChange(questions.map((existing, i) =>
+      i === index ? { ...createAssessmentQuestion(type), id, question, points } : existing
+    ));
+  };
+
+  const moveQuestion = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= questions.length) return;
+    const next = [...questions];
+    [next[index], next[target]] = [next[target], next[index]];
+    onChange(next);
+  };
+
+  const duplicateQuestion = (index: number) => {
+    const copy = { ...structuredClone(questions[index]), id: crypto.randomUUID() };
+    onChange([...questions.slice(0, index + 1), copy, ...questions.slice(index + 1)]);
+  };
+
+  const updateOption = (index: number, optionIndex: number, value: string) => {
+    const question = questions[index];
+    const previous = question.options?.[optionIndex];
+    updateQuestion(index, {
+      options: (question.options ?? []).map((option, i) => (i === optionIndex ? value : option)),
+      // Keep the answer key pointing at the renamed option
+      ...(question.correct_answer === previous ? { correct_answer: value } : {}),
+    });
+  };
+
+  const removeOption = (index: number, optionIndex: number) => {
+    const question = questions[index];
+    const removed = question.options?.[optionIndex];
+    updateQuestion(index, {
+      options: question.options?.filter((_, i) => i !== optionIndex),
+      ...(question.correct_answer === removed ? { correct_answer: '' } : {}),
+    });
+  };
+
+  const updateTestCase = (index: number, caseIndex: number, updates: Partial<CodingTestCase>) => {
+    const testCases = questions[index].test_cases ?? [];
+    updateQuestion(index, {
+      test_cases: testCases.map((testCase, i) => (i === caseIndex ? { ...testCase, ...updates } : testCase)),
+    });
+  };
+
+  const addTestCase = (index: number) => {
+    const testCases = questions[index].test_cases ?? [];
+    updateQuestion(index, {
+      test_cases: [
+        ...testCases,
+        // The first case is a visible example, later ones are hidden by default
+        { id: crypto.randomUUID(), input: '', expected_output: '', hidden: testCases.length > 0 },
+      ],
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      {questions.length === 0 && (
+        <p className="text-sm text-muted-foreground">No questions yet.</p>
+      )}
+
+      {questions.map((question, index) => (
+        <fieldset key={question.id} disabled={readOnly} className="rounded-lg border p-4 space-y-4">
+          <div className="flex items-start gap-2">
+            <div className="flex-1 space-y-2">
+              <Label htmlFor={`question-${question.id}`}>Question {index + 1}</Label>
+              <Textarea
+                id={`question-${question.id}`}
+                value={question.question}
+                onChange={(e) => updateQuestion(index, { question: e.target.value })}
+                rows={question.type === 'coding' ? 4 : 2}
+                placeholder={question.type === 'coding'
+                  ? 'Describe the problem, the input format and what to print'
+                  : 'e.g. What does Array.prototype.map return?'}
+              />
+              <FieldError message={errors[`${index}.question`]} />
+            </div>
+            {!readOnly && (
+              <div className="flex gap-1 pt-7">
+                <Button type="button" variant="ghost" size="icon" onClick={() => moveQuestion(index, -1)} disabled={index === 0}>
+                  <ArrowUp className="h-4 w-4" />
+                </Button>
+                <Button type="button" variant="ghost" size="icon" onClick={() => moveQuestion(index, 1)} disabled={index === questions.length - 1}>
+                  <ArrowDown className="h-4 w-4" />
+                </Button>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => duplicateQuestion(index)}
+                  disabled={questions.length >= MAX_ASSESSMENT_QUESTIONS}
+                  aria-label="Duplicate question"
+                >
+                  <Copy className="h-4 w-4" />
+                </Button>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => onChange(questions.filter((_, i) => i !== index))}
+                  aria-label="Remove question"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            )}
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label>Answer type</Label>
+              <Select
+                value={question.type}
+                onValueChange={(value) => changeType(index, value as AssessmentQuestionType)}
+                disabled={readOnly}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {ASSESSMENT_QUESTION_TYPES.map(({ type, label }) => (
+                    <SelectItem key={type} value={type}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor={`points-${question.id}`}>Points</Label>
+              <Input
+                id={`points-${question.id}`}
+                type="number"
+                min="1"
+                value={question.points}
+                onChange={(e) => updateQuestion(index, { points: Number(e.target.value) })}
+              />
+              <FieldError message={errors[`${index}.points`]} />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor={`time-${question.id}`}>Suggested time (seconds)</Label>
+              <Input
+                id={`time-${question.id}`}
+                type="number"
+                min="1"
+                value={question.time_limit_seconds ?? ''}
+                onChange={(e) => updateQuestion(index, {
+                  time_limit_seconds: e.target.value ? parseInt(e.target.value) : undefined,
+                })}
+              />
+            </div>
+          </div>
+
+          {question.type === 'multiple_choice' && (
+            <div className="space-y-2">
+              <Label>Options (select the correct one)</Label>
+              <RadioGroup
+                value={String(question.correct_answer ?? '')}
+                onValueChange={(value) => updateQuestion(index, { correct_answer: value })}
+                disabled={readOnly}
+              >
+                {(question.options ?? []).map((option, optionIndex) => (
+                  <div key={optionIndex} className="flex items-center gap-2">
+                    <RadioGroupItem value={option} disabled={!option} aria-label={`Mark option ${optionIndex + 1} correct`} />
+                    <Input
+                      value={option}
+                      onChange={(e) => updateOption(index, optionIndex, e.target.value)}
+                      placeholder={`Option ${optionIndex + 1}`}
+                    />
+                    {!readOnly && (
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => removeOption(index, optionIndex)}
+                        aria-label="Remove option"
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </div>
+                ))}
+              </RadioGroup>
+              {!readOnly && (
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => updateQuestion(index, { options: [...(question.options ?? []), ''] })}
+                >
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add option
+                </Button>
+              )}
+              <FieldError message={errors[`${index}.options`] || errors[`${index}.correct_answer`]} />
+            </div>
+          )}
+
+          {question.type === 'true_false' && (
+            <div className="space-y-2">
+              <Label>Correct answer</Label>
+              <RadioGroup
+                value={String(question.correct_answer ?? '')}
+                onValueChange={(value) => updateQuestion(index, { correct_answer: value })}
+                className="flex gap-6"
+                disabled={readOnly}
+              >
+                {['true', 'false'].map((value) => (
+                  <div key={value} className="flex items-center space-x-2">
+                    <RadioGroupItem value={value} id={`correct-${question.id}-${value}`} />
+                    <Label htmlFor={`correct-${question.id}-${value}`}>{value === 'true' ? 'True' : 'False'}</Label>
+                  </div>
+                ))}
+              </RadioGroup>
+              <FieldError message={errors[`${index}.correct_answer`]} />
+            </div>
+          )}
+
+          {question.type === 'text' && (
+            <div className="space-y-2">
+              <Label htmlFor={`expected-${question.id}`}>Expected answer (optional)</Label>
+              <Input
+                id={`expected-${question.id}`}
+                value={String(question.correct_answer ?? '')}
+                onChange={(e) => updateQuestion(index, { correct_answer: e.target.value || undefined })}
+                placeholder="Leave blank to review answers manually"
+              />
+              <p className="text-xs text-muted-foreground">
+                When set, answers are marked correct if they match exactly, ignoring case.
+              </p>
+            </div>
+          )}
+
+          {question.type === 'coding' && (
+            <div className="space-y-4">
+              <div className="space-y-2 max-w-xs">
+                <Label>Language</Label>
+                <Select
+                  value={question.language ?? 'javascript'}
+                  onValueChange={(value) => updateQuestion(index, { language: value as CodingLanguage })}
+                  disabled={readOnly}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {CODING_LANGUAGES.map(({ language, label }) => (
+                      <SelectItem key={language} value={language}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Starter code</Label>
+                <CodeEditor
+                  value={question.code_template ?? ''}
+                  onChange={(value) => updateQuestion(index, { code_template: value })}
+                  rows={8}
+                  readOnly={readOnly}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label>Test cases</Label>
+                <p className="text-xs text-muted-foreground">
+                  Candidates read the input as <code className="font-mono">input</code> and print their answer.
+                  Visible cases are shown as examples; hidden cases are only used for grading.
+                </p>
+                {(question.test_cases ?? []).map((testCase, caseIndex) => (
+                  <div key={testCase.id} className="rounded-md bg-muted/50 p-3 space-y-2">
+                    <div className="flex items-center justify-between">
+                      <div className="flex items-center space-x-2">
+                        <Checkbox
+                          id={`hidden-${testCase.id}`}
+                          checked={testCase.hidden}
+                          onCheckedChange={(checked) => updateTestCase(index, caseIndex, { hidden: checked === true })}
+                        />
+                        <Label htmlFor={`hidden-${testCase.id}`}>Hidden</Label>
+                      </div>
+                      {!readOnly && (
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => updateQuestion(index, {
+                            test_cases: question.test_cases?.filter((_, i) => i !== caseIndex),
+                          })}
+                          aria-label="Remove test case"
+                        >
+                          <X className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </div>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                      <Textarea
+                        value={testCase.input}
+                        onChange={(e) => updateTestCase(index, caseIndex, { input: e.target.value })}
+                        placeholder="Input"
+                        className="font-mono text-sm"
+                        rows={3}
+                      />
+                      <Textarea
+                        value={testCase.expected_output}
+                        onChange={(e) => updateTestCase(index, caseIndex, { expected_output: e.target.value })}
+                        placeholder="Expected output"
+                        className="font-mono text-sm"
+                        rows={3}
+                      />
+                    </div>
+                  </div>
+                ))}
+                {!readOnly && (
+                  <Button type="button" variant="outline" size="sm" onClick={() => addTestCase(index)}>
+                    <Plus className="h-4 w-4 mr-2" />
+                    Add test case
+                  </Button>
+                )}
+                <FieldError message={errors[`${index}.test_cases`]} />
+              </div>
+            </div>
+          )}
+        </fieldset>
+      ))}
+
+      {!readOnly && (
+        <div className="flex flex-wrap gap-2">
+          {ASSESSMENT_QUESTION_TYPES.map(({ type, label }) => (
+            <Button
+              key={type}
+              type="button"
+              variant="outline"
+              onClick={() => onChange([...questions, createAssessmentQuestion(type)])}
+              disabled={questions.length >= MAX_ASSESSMENT_QUESTIONS}
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              {label}
+            </Button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
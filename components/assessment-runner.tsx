@@ -0,0 +1,482 @@
+"use client";
+
+import { useState, useEffect, useCallback, useRef } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Progress } from "@/components/ui/progress";
+import { Badge } from "@/components/ui/badge";
+import { AlertTriangle, Brain, Clock, CheckCircle2, Trophy, Loader2, Play, XCircle } from "lucide-react";
+import { CodeEditor } from "@/components/code-editor";
+import { useIntegrityMonitor } from "@/hooks/use-integrity-monitor";
+import { getCodingLanguageLabel } from "@/lib/assessments/coding";
+import type { CandidateAssessment, CandidateQuestion, SubmittedAnswer } from "@/lib/assessments/grading";
+import type { CodingTestResult } from "@/lib/types/enhanced-database";
+
+export interface AssessmentResult {
+  attemptId: string;
+  score: number;
+  passed: boolean;
+  completedAt: string;
+}
+
+interface AssessmentRunnerProps {
+  assessmentId: string;
+  onComplete?: (result: AssessmentResult) => void;
+}
+
+export function AssessmentRunner({ assessmentId, onComplete }: AssessmentRunnerProps) {
+  const [assessment, setAssessment] = useState<CandidateAssessment | null>(null);
+  const [attemptId, setAttemptId] = useState<string | null>(null);
+  const [currentQuestionIndex, setCurrentQuestionIndex] = useState(0);
+  const [answers, setAnswers] = useState<Record<string, string>>({});
+  const [timeRemaining, setTimeRemaining] = useState<number | null>(null);
+  const [result, setResult] = useState<AssessmentResult | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [starting, setStarting] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [closedReason, setClosedReason] = useState<string | null>(null);
+  const [runResults, setRunResults] = useState<Record<string, CodingTestResult[]>>({});
+  const [runError, setRunError] = useState<string | null>(null);
+  const [running, setRunning] = useState(false);
+
+  // Seconds spent on each question, accumulated as the candidate moves around
+  const questionTimes = useRef<Record<string, number>>({});
+  const questionShownAt = useRef<number>(0);
+
+  const { eventCount, flush: flushIntegrityEvents } = useIntegrityMonitor({
+    attemptId,
+    active: !!attemptId && !result && !closedReason,
+    getQuestionId: () => assessment?.questions[currentQuestionIndex]?.id,
+  });
+
+  useEffect(() => {
+    const loadAssessment = async () => {
+      try {
+        // Questions come from the server without their answer key
+        const response = await fetch(`/api/assessments/${assessmentId}`);
+        if (response.ok) {
+          setAssessment((await response.json()).data);
+        }
+      } catch (error) {
+        console.error('Error loading assessment:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadAssessment();
+  }, [assessmentId]);
+
+  const recordQuestionTime = useCallback(() => {
+    const question = assessment?.questions[currentQuestionIndex];
+    if (!question || !questionShownAt.current) return;
+
+    const elapsed = (Date.now() - questionShownAt.current) / 1000;
+    questionTimes.current[question.id] = (questionTimes.current[question.id] || 0) + elapsed;
+    questionShownAt.current = Date.now();
+  }, [assessment, currentQuestionIndex]);
+
+  const submitAssessment = useCallback(async () => {
+    if (!assessment || !attemptId || submitting || result || closedReason) return;
+
+    setSubmitting(true);
+    recordQuestionTime();
+
+    const submittedAnswers: SubmittedAnswer[] = assessment.questions.map((question) => ({
+      question_id: question.id,
+      answer: answers[question.id] ?? (question.type === 'coding' ? question.code_template ?? '' : ''),
+      time_taken_seconds: Math.round(questionTimes.current[question.id] || 0),
+    }));
+
+    try {
+      // The log must be complete before the attempt is scored
+      await flushIntegrityEvents();
+
+      // Grading and timing happen server-side
+      const response = await fetch(`/api/assessment-attempts/${attemptId}/submit`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ answers: submittedAnswers }),
+      });
+      const body = await response.json();
+
+      if (!response.ok) {
+        if (body.code === 'time_limit_exceeded' || body.code === 'attempt_closed') {
+          setClosedReason(body.error);
+          return;
+        }
+        throw new Error(body.error);
+      }
+
+      const attemptResult = {
+        attemptId,
+        score: body.data.score,
+        passed: body.data.passed,
+        completedAt: body.data.completed_at,
+      };
+      setResult(attemptResult);
+      onComplete?.(attemptResult);
+    } catch (error) {
+      console.error('Error saving assessment attempt:', error);
+      alert('Failed to submit assessment. Please try again.');
+    } finally {
+      setSubmitting(false);
+    }
+  }, [assessment, attemptId, submitting, result, closedReason, answers, recordQuestionTime, flushIntegrityEvents, onComplete]);
+
+  useEffect(() => {
+    if (timeRemaining === null || result || closedReason) return;
+    if (timeRemaining <= 0) {
+      submitAssessment();
+      return;
+    }
+    const timer = setTimeout(() => setTimeRemaining((prev) => (prev === null ? null : prev - 1)), 1000);
+    return () => clearTimeout(timer);
+  }, [timeRemaining, result, closedReason, submitAssessment]);
+
+  const startAssessment = async () => {
+    if (!assessment) return;
+
+    setStarting(true);
+
+    // Fullscreen needs the click that started the attempt, so ask before the request
+    document.documentElement.requestFullscreen?.().catch(() => undefined);
+
+    try {
+      const response = await fetch(`/api/assessments/${assessment.id}/attempts`, { method: 'POST' });
+      const body = await response.json();
+      if (!response.ok) throw new Error(body.error);
+
+      setAssessment(body.data.assessment);
+      setAttemptId(body.data.attempt.id);
+      questionShownAt.current = Date.now();
+      if (body.data.assessment.time_limit_minutes) {
+        setTimeRemaining(body.data.assessment.time_limit_minutes * 60);
+      }
+    } catch (error) {
+      console.error('Error starting assessment:', error);
+      alert('Failed to start assessment. Please try again.');
+    } finally {
+      setStarting(false);
+    }
+  };
+
+  // Run the code against the question's example tests; hidden tests only run on submit
+  const runExamples = async (question: CandidateQuestion) => {
+    if (!attemptId) return;
+
+    setRunning(true);
+    setRunError(null);
+    try {
+      const response = await fetch(`/api/assessment-attempts/${attemptId}/run`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          question_id: question.id,
+          code: answers[question.id] ?? question.code_template ?? '',
+        }),
+      });
+      const body = await response.json();
+      if (!response.ok) {
+        setRunError(body.error || 'Failed to run code. Please try again.');
+        return;
+      }
+      setRunResults((prev) => ({ ...prev, [question.id]: body.data }));
+    } catch (error) {
+      console.error('Error running code:', error);
+      setRunError('Failed to run code. Please try again.');
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const goToQuestion = (index: number) => {
+    setRunError(null);
+    recordQuestionTime();
+    setCurrentQuestionIndex(index);
+  };
+
+  const formatTime = (seconds: number) => {
+    const minutes = Math.floor(seconds / 60);
+    const remainingSeconds = seconds % 60;
+    return `${minutes}:${remainingSeconds.toString().padStart(2, '0')}`;
+  };
+
+  const renderAnswerInput = (question: CandidateQuestion) => {
+    const value = answers[question.id] ?? (question.type === 'coding' ? question.code_template ?? '' : '');
+    const setValue = (answer: string) => setAnswers((prev) => ({ ...prev, [question.id]: answer }));
+
+    switch (question.type) {
+      case 'multiple_choice':
+      case 'true_false': {
+        const options = question.type === 'true_false' ? ['true', 'false'] : question.options ?? [];
+        return (
+          <RadioGroup value={value} onValueChange={setValue}>
+            {options.map((option, index) => (
+              <div key={index} className="flex items-center space-x-2">
+                <RadioGroupItem value={option} id={`option-${question.id}-${index}`} />
+                <Label htmlFor={`option-${question.id}-${index}`} className="flex-1 cursor-pointer">
+                  {question.type === 'true_false' ? (option === 'true' ? 'True' : 'False') : option}
+                </Label>
+              </div>
+            ))}
+          </RadioGroup>
+        );
+      }
+      case 'coding': {
+        const examples = question.test_cases ?? [];
+        const results = runResults[question.id];
+        return (
+          <div className="space-y-4">
+            <div className="flex items-center justify-between text-sm text-muted-foreground">
+              <span>
+                Read the test input from <code className="font-mono">input</code> (a string) and print your answer with{' '}
+                <code className="font-mono">console.log</code>.
+              </span>
+              <Badge variant="secondary">{getCodingLanguageLabel(question.language)}</Badge>
+            </div>
+            <CodeEditor value={value} onChange={setValue} />
+
+            {examples.length > 0 && (
+              <div className="space-y-3">
+                {examples.map((example, index) => {
+                  const result = results?.find((r) => r.test_case_id === example.id);
+                  return (
+                    <div key={example.id} className="rounded-md border p-3 space-y-2 text-sm">
+                      <div className="flex items-center justify-between">
+                        <span className="font-medium">Example {index + 1}</span>
+                        {result && (
+                          <span className={`flex items-center gap-1 ${result.passed ? 'text-green-600' : 'text-red-500'}`}>
+                            {result.passed ? <CheckCircle2 className="h-4 w-4" /> : <XCircle className="h-4 w-4" />}
+                            {result.passed ? 'Passed' : result.status === 'failed' ? 'Wrong output' : result.error}
+                          </span>
+                        )}
+                      </div>
+                      <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                        <div>
+                          <p className="text-xs text-muted-foreground">Input</p>
+                          <pre className="bg-muted/50 rounded p-2 whitespace-pre-wrap font-mono">{example.input || ' '}</pre>
+                        </div>
+                        <div>
+                          <p className="text-xs text-muted-foreground">Expected output</p>
+                          <pre className="bg-muted/50 rounded p-2 whitespace-pre-wrap font-mono">{example.expected_output}</pre>
+                        </div>
+                      </div>
+                      {result && !result.passed && result.actual_output !== undefined && (
+                        <div>
+                          <p className="text-xs text-muted-foreground">Your output</p>
+                          <pre className="bg-muted/50 rounded p-2 whitespace-pre-wrap font-mono">{result.actual_output || ' '}</pre>
+                        </div>
+                      )}
+                    </div>
+                  );
+                })}
+                <Button type="button" variant="outline" onClick={() => runExamples(question)} disabled={running}>
+                  {running ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Play className="mr-2 h-4 w-4" />}
+                  Run Examples
+                </Button>
+                {runError && <p className="text-sm text-red-500">{runError}</p>}
+              </div>
+            )}
+
+            <p className="text-xs text-muted-foreground">
+              When you submit, your code is graded against these examples and any additional tests.
+            </p>
+          </div>
+        );
+      }
+      default:
+        return (
+          <Textarea
+            value={value}
+            onChange={(e) => setValue(e.target.value)}
+            placeholder="Type your answer..."
+            rows={5}
+          />
+        );
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-32">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (!assessment || assessment.questions.length === 0) {
+    return <p className="text-muted-foreground">This assessment is not available.</p>;
+  }
+
+  if (closedReason) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Clock className="h-5 w-5" />
+            Assessment Closed
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <p className="text-muted-foreground">{closedReason}</p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (result) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Trophy className="h-5 w-5" />
+            Assessment Complete
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="text-center space-y-4">
+          <div className="w-20 h-20 rounded-full flex items-center justify-center mx-auto bg-green-100 text-green-600">
+            <CheckCircle2 className="h-10 w-10" />
+          </div>
+          <div>
+            <h3 className="text-2xl font-bold">{result.score}%</h3>
+            <p className="text-muted-foreground">
+              Your answers have been recorded and will be shared with the hiring team.
+            </p>
+          </div>
+          <Badge variant={result.passed ? "default" : "secondary"}>
+            Passing score: {assessment.passing_score}%
+          </Badge>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (!attemptId) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Brain className="h-5 w-5" />
+            {assessment.title}
+          </CardTitle>
+          {assessment.description && <CardDescription>{assessment.description}</CardDescription>}
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-2">
+            {assessment.time_limit_minutes && (
+              <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                <Clock className="h-4 w-4" />
+                Time Limit: {assessment.time_limit_minutes} minutes
+              </div>
+            )}
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              <Brain className="h-4 w-4" />
+              Questions: {assessment.questions.length}
+            </div>
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              <Trophy className="h-4 w-4" />
+              Passing Score: {assessment.passing_score}%
+            </div>
+          </div>
+
+          {assessment.skills_tested.length > 0 && (
+            <div className="flex flex-wrap gap-2">
+              {assessment.skills_tested.map((skill) => (
+                <Badge key={skill} variant="outline">{skill}</Badge>
+              ))}
+            </div>
+          )}
+
+          <div className="bg-muted/50 p-4 rounded-lg">
+            <h4 className="font-medium mb-2">Instructions:</h4>
+            <ul className="text-sm text-muted-foreground space-y-1">
+              <li>• You can take this assessment once for this application</li>
+              <li>• You can navigate between questions before submitting</li>
+              <li>• Time spent on each question is recorded</li>
+              <li>• Leaving this tab, copying, pasting and exiting fullscreen are recorded and shared with the hiring team</li>
+              {assessment.questions.some((question) => question.type === 'coding') && (
+                <li>• Coding answers are run against hidden tests after you submit</li>
+              )}
+              {assessment.time_limit_minutes && <li>• Your answers are submitted automatically when time runs out</li>}
+            </ul>
+          </div>
+
+          <Button onClick={startAssessment} className="w-full" disabled={starting}>
+            {starting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Start Assessment
+          </Button>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const currentQuestion = assessment.questions[currentQuestionIndex];
+  const progress = ((currentQuestionIndex + 1) / assessment.questions.length) * 100;
+  const isLastQuestion = currentQuestionIndex === assessment.questions.length - 1;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center gap-2">
+            <Brain className="h-5 w-5" />
+            Question {currentQuestionIndex + 1} of {assessment.questions.length}
+          </CardTitle>
+          {timeRemaining !== null && (
+            <div className="flex items-center gap-2 text-sm">
+              <Clock className="h-4 w-4" />
+              {formatTime(Math.max(timeRemaining, 0))}
+            </div>
+          )}
+        </div>
+        <Progress value={progress} className="w-full" />
+        {eventCount > 0 && (
+          <p className="flex items-center gap-2 text-xs text-amber-600">
+            <AlertTriangle className="h-4 w-4" />
+            Activity outside the assessment has been recorded. Please stay on this page until you submit.
+          </p>
+        )}
+      </CardHeader>
+
+      <CardContent className="space-y-6">
+        <div>
+          <div className="flex items-start justify-between gap-4 mb-4">
+            <h3 className="text-lg font-medium whitespace-pre-wrap">{currentQuestion.question}</h3>
+            <Badge variant="outline">{currentQuestion.points} pts</Badge>
+          </div>
+          {currentQuestion.time_limit_seconds && (
+            <p className="text-xs text-muted-foreground mb-2">
+              Suggested time: {formatTime(currentQuestion.time_limit_seconds)}
+            </p>
+          )}
+          {renderAnswerInput(currentQuestion)}
+        </div>
+
+        <div className="flex justify-between">
+          <Button
+            variant="outline"
+            onClick={() => goToQuestion(currentQuestionIndex - 1)}
+            disabled={currentQuestionIndex === 0 || submitting}
+          >
+            Previous
+          </Button>
+
+          {isLastQuestion ? (
+            <Button onClick={submitAssessment} disabled={submitting}>
+              {submitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Submit Assessment
+            </Button>
+          ) : (
+            <Button onClick={() => goToQuestion(currentQuestionIndex + 1)}>
+              Next
+            </Button>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,89 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { repo } from "@/lib/supabase/client";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Download, FileSignature } from "lucide-react";
+import { CONTRACT_SIGNATURE_STATUS_LABELS, getAwaitingParty, getContractPath } from "@/lib/contracts/signatures";
+import type { ContractSignature } from "@/lib/types/enhanced-database";
+
+interface CandidateContractsProps {
+  userId: string;
+}
+
+/**
+ * Contracts companies have sent the candidate, with the ones waiting for
+ * their signature first. Renders nothing when there are none.
+ */
+export function CandidateContracts({ userId }: CandidateContractsProps) {
+  const [contracts, setContracts] = useState<ContractSignature[]>([]);
+
+  useEffect(() => {
+    const loadContracts = async () => {
+      try {
+        const rows = await repo.contractSignatures.listForEmployee(userId);
+        const companyContracts = rows.filter((row) => row.company_id);
+        setContracts([
+          ...companyContracts.filter((row) => getAwaitingParty(row) === 'employee'),
+          ...companyContracts.filter((row) => getAwaitingParty(row) !== 'employee'),
+        ]);
+      } catch (error) {
+        console.error('Error loading contracts:', error);
+      }
+    };
+
+    loadContracts();
+  }, [userId]);
+
+  if (contracts.length === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <FileSignature className="h-5 w-5" />
+          Contracts
+        </CardTitle>
+        <CardDescription>Contracts from the companies you applied to</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {contracts.map((contract) => {
+          const toSign = getAwaitingParty(contract) === 'employee';
+          return (
+            <div key={contract.id} className="flex flex-wrap items-center justify-between gap-4 border rounded-lg p-4">
+              <div className="space-y-1">
+                <div className="flex flex-wrap items-center gap-2">
+                  <h4 className="font-medium">{contract.title}</h4>
+                  <Badge variant={toSign || contract.status === 'fully_signed' ? 'default' : 'outline'}>
+                    {toSign ? 'Ready to sign' : CONTRACT_SIGNATURE_STATUS_LABELS[contract.status]}
+                  </Badge>
+                </div>
+                {toSign && contract.expires_at && (
+                  <p className="text-sm text-muted-foreground">
+                    Sign by {new Date(contract.expires_at).toLocaleString()}
+                  </p>
+                )}
+              </div>
+              <div className="flex gap-2">
+                {contract.status === 'fully_signed' && (
+                  <Button variant="outline" size="sm" asChild>
+                    <a href={`/api/contract-signatures/${contract.id}/pdf`}>
+                      <Download className="mr-1 h-4 w-4" />
+                      PDF
+                    </a>
+                  </Button>
+                )}
+                <Button size="sm" variant={toSign ? 'default' : 'outline'} asChild>
+                  <Link href={getContractPath(contract, 'employee')}>{toSign ? 'Review and sign' : 'View'}</Link>
+                </Button>
+              </div>
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,83 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { repo } from "@/lib/supabase/client";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { DOCUMENT_TYPE_LABELS } from "@/components/document-uploader";
+import { Download, FileText } from "lucide-react";
+import type { UserDocument } from "@/lib/types/enhanced-database";
+
+interface CandidateDocumentsProps {
+  userId: string;
+}
+
+/**
+ * Everything in the user's documents: files they uploaded and the PDFs of
+ * contracts they have signed.
+ */
+export function CandidateDocuments({ userId }: CandidateDocumentsProps) {
+  const [documents, setDocuments] = useState<UserDocument[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const loadDocuments = async () => {
+      try {
+        setDocuments(await repo.documents.listForUser(userId));
+      } catch (error) {
+        console.error('Error loading documents:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadDocuments();
+  }, [userId]);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <FileText className="h-5 w-5" />
+          My Documents
+        </CardTitle>
+        <CardDescription>Files you have uploaded and contracts you have signed</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {loading ? (
+          <p className="text-sm text-muted-foreground">Loading documents...</p>
+        ) : documents.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No documents yet.</p>
+        ) : (
+          documents.map((document) => (
+            <div key={document.id} className="flex flex-wrap items-center justify-between gap-4 border rounded-lg p-3">
+              <div className="min-w-0 space-y-1">
+                <p className="text-sm font-medium truncate">{document.original_filename}</p>
+                <div className="flex flex-wrap items-center gap-2">
+                  {document.document_type && (
+                    <Badge variant="secondary" className="text-xs">
+                      {DOCUMENT_TYPE_LABELS[document.document_type] ?? document.document_type}
+                    </Badge>
+                  )}
+                  {document.is_signed && <Badge className="text-xs">Signed</Badge>}
+                  <span className="text-xs text-muted-foreground">
+                    {document.is_signed && document.signed_at
+                      ? `Signed ${new Date(document.signed_at).toLocaleDateString()}`
+                      : `Added ${new Date(document.created_at).toLocaleDateString()}`}
+                  </span>
+                </div>
+              </div>
+              <Button variant="outline" size="sm" asChild>
+                <a href={`/api/documents/${document.id}/download`}>
+                  <Download className="mr-1 h-4 w-4" />
+                  Download
+                </a>
+              </Button>
+            </div>
+          ))
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,95 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { repo } from "@/lib/supabase/client";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { CalendarClock, CalendarPlus } from "lucide-react";
+import {
+  INTERVIEW_STATUS_LABELS,
+  isInterviewActive,
+  type InterviewWithDetails,
+} from "@/lib/interviews/scheduling";
+import { formatInTimeZone, getBrowserTimeZone } from "@/lib/interviews/time";
+
+interface CandidateInterviewsProps {
+  // The candidate's applications, with the job title to show
+  applications: { id: string; jobTitle: string }[];
+}
+
+/**
+ * The candidate's upcoming interviews, linking to the booking page to pick
+ * or change a time. Renders nothing when there are none.
+ */
+export function CandidateInterviews({ applications }: CandidateInterviewsProps) {
+  const [interviews, setInterviews] = useState<InterviewWithDetails[]>([]);
+  const [timeZone, setTimeZone] = useState('UTC');
+  const applicationIds = applications.map((application) => application.id).join(',');
+
+  useEffect(() => {
+    setTimeZone(getBrowserTimeZone());
+
+    const loadInterviews = async () => {
+      try {
+        const rows = await repo.interviews.listForApplications(applicationIds ? applicationIds.split(',') : []);
+        setInterviews(rows.filter(isInterviewActive));
+      } catch (error) {
+        console.error('Error loading interviews:', error);
+      }
+    };
+
+    loadInterviews();
+  }, [applicationIds]);
+
+  if (interviews.length === 0) return null;
+
+  const jobTitleFor = (interview: InterviewWithDetails) =>
+    applications.find((application) => application.id === interview.application_id)?.jobTitle;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <CalendarClock className="h-5 w-5" />
+          Upcoming Interviews
+        </CardTitle>
+        <CardDescription>Times are shown in {timeZone}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {interviews.map((interview) => (
+          <div key={interview.id} className="flex flex-wrap items-center justify-between gap-4 border rounded-lg p-4">
+            <div className="space-y-1">
+              <div className="flex flex-wrap items-center gap-2">
+                <h4 className="font-medium">{interview.title}</h4>
+                <Badge variant={interview.status === 'scheduled' ? 'default' : 'outline'}>
+                  {interview.status === 'proposed' ? 'Pick a time' : INTERVIEW_STATUS_LABELS[interview.status]}
+                </Badge>
+              </div>
+              <p className="text-sm text-muted-foreground">
+                {jobTitleFor(interview)}
+                {interview.status === 'scheduled' && interview.starts_at && ` • ${formatInTimeZone(interview.starts_at, timeZone)}`}
+              </p>
+            </div>
+            <div className="flex gap-2">
+              {interview.status === 'scheduled' && (
+                <Button variant="outline" size="sm" asChild>
+                  <a href={`/api/interviews/booking/${interview.booking_token}/ics`}>
+                    <CalendarPlus className="mr-1 h-4 w-4" />
+                    Add to calendar
+                  </a>
+                </Button>
+              )}
+              <Button size="sm" asChild>
+                <Link href={`/interviews/${interview.booking_token}`}>
+                  {interview.status === 'proposed' ? 'Choose a time' : 'Manage'}
+                </Link>
+              </Button>
+            </div>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
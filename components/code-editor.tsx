@@ -0,0 +1,75 @@
+"use client";
+
+import { useRef } from "react";
+import { cn } from "@/lib/utils";
+
+interface CodeEditorProps {
+  value: string;
+  onChange: (value: string) => void;
+  rows?: number;
+  className?: string;
+  readOnly?: boolean;
+}
+
+const INDENT = '  ';
+
+export function CodeEditor({ value, onChange, rows = 16, className, readOnly }: CodeEditorProps) {
+  const gutterRef = useRef<HTMLDivElement>(null);
+  const lineCount = Math.max(value.split('\n').length, rows);
+
+  // Tab indents instead of moving focus; Shift+Tab removes one level
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key !== 'Tab' || readOnly) return;
+    e.preventDefault();
+
+    const textarea = e.currentTarget;
+    const { selectionStart, selectionEnd } = textarea;
+    const lineStart = value.lastIndexOf('\n', selectionStart - 1) + 1;
+
+    if (e.shiftKey) {
+      if (!value.startsWith(INDENT, lineStart)) return;
+      onChange(value.slice(0, lineStart) + value.slice(lineStart + INDENT.length));
+      requestAnimationFrame(() => {
+        const position = Math.max(lineStart, selectionStart - INDENT.length);
+        textarea.setSelectionRange(position, position);
+      });
+      return;
+    }
+
+    onChange(value.slice(0, selectionStart) + INDENT + value.slice(selectionEnd));
+    requestAnimationFrame(() => {
+      textarea.setSelectionRange(selectionStart + INDENT.length, selectionStart + INDENT.length);
+    });
+  };
+
+  return (
+    <div className={cn("flex rounded-md border bg-muted/30 font-mono text-sm overflow-hidden", className)}>
+      <div
+        ref={gutterRef}
+        aria-hidden
+        className="select-none overflow-hidden border-r bg-muted/50 px-2 py-2 text-right text-muted-foreground"
+        style={{ height: `${rows * 1.5 + 1}rem` }}
+      >
+        {Array.from({ length: lineCount }, (_, i) => (
+          <div key={i} className="leading-6">{i + 1}</div>
+        ))}
+      </div>
+      <textarea
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        onKeyDown={handleKeyDown}
+        onScroll={(e) => {
+          if (gutterRef.current) gutterRef.current.scrollTop = e.currentTarget.scrollTop;
+        }}
+        readOnly={readOnly}
+        spellCheck={false}
+        autoCapitalize="off"
+        autoComplete="off"
+        autoCorrect="off"
+        wrap="off"
+        className="flex-1 resize-none bg-transparent px-3 py-2 leading-6 outline-none"
+        style={{ height: `${rows * 1.5 + 1}rem` }}
+      />
+    </div>
+  );
+}
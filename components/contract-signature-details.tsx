@@ -0,0 +1,87 @@
+import Image from "next/image";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { CONTRACT_SIGNATURE_STATUS_LABELS, getAwaitingParty } from "@/lib/contracts/signatures";
+import type { ContractSignature, SignatureData } from "@/lib/types/enhanced-database";
+import { Download } from "lucide-react";
+
+interface ContractSignatureDetailsProps {
+  signature: ContractSignature;
+}
+
+function SignatureLine({ label, data, awaiting }: { label: string; data: SignatureData | null; awaiting: boolean }) {
+  return (
+    <div className="flex flex-wrap items-baseline justify-between gap-2">
+      <div>
+        <p className="text-xs text-muted-foreground">{label}</p>
+        {data?.image && (
+          <Image
+            src={data.image}
+            alt={`Signature of ${data.full_name}`}
+            width={200}
+            height={60}
+            unoptimized
+            className="my-1 h-[60px] w-auto rounded border bg-white"
+          />
+        )}
+        <p className="font-semibold">{data?.full_name ?? (awaiting ? 'Awaiting signature' : 'Not signed')}</p>
+      </div>
+      {data && (
+        <p className="text-sm text-muted-foreground">Signed on {new Date(data.signed_at).toLocaleString()}</p>
+      )}
+    </div>
+  );
+}
+
+// The signing record of a contract: who signed and when, and the hash that
+// identifies the exact text
+export function ContractSignatureDetails({ signature }: ContractSignatureDetailsProps) {
+  const awaiting = getAwaitingParty(signature);
+
+  return (
+    <div className="border rounded-lg p-4 bg-muted/50 space-y-3">
+      <div className="flex flex-wrap items-center justify-end gap-2">
+        {signature.status === 'fully_signed' && (
+          <Button variant="outline" size="sm" asChild>
+            <a href={`/api/contract-signatures/${signature.id}/pdf`}>
+              <Download className="mr-1 h-4 w-4" />
+              Download PDF
+            </a>
+          </Button>
+        )}
+        <Badge variant={signature.status === 'fully_signed' ? 'default' : 'secondary'}>
+          {CONTRACT_SIGNATURE_STATUS_LABELS[signature.status]}
+        </Badge>
+      </div>
+      <SignatureLine
+        label={signature.requires_countersignature ? 'Candidate' : 'Signed by'}
+        data={signature.employee_signature_data}
+        awaiting={awaiting === 'employee'}
+      />
+      {signature.requires_countersignature && (
+        <SignatureLine label="For the company" data={signature.employer_signature_data} awaiting={awaiting === 'employer'} />
+      )}
+      {signature.voided_at && (
+        <p className="text-sm text-destructive">
+          Voided on {new Date(signature.voided_at).toLocaleString()}
+          {signature.void_reason && `: ${signature.void_reason}`}
+        </p>
+      )}
+      {signature.expires_at && !signature.fully_executed_at && !signature.voided_at && (
+        <p className="text-sm text-muted-foreground">
+          {signature.status === 'expired' ? 'Expired' : 'Must be signed by'} {new Date(signature.expires_at).toLocaleString()}
+        </p>
+      )}
+      <dl className="text-xs text-muted-foreground space-y-1">
+        <div>
+          <dt className="inline font-medium">Reference: </dt>
+          <dd className="inline font-mono">{signature.id}</dd>
+        </div>
+        <div>
+          <dt className="inline font-medium">SHA-256: </dt>
+          <dd className="inline font-mono break-all">{signature.document_hash}</dd>
+        </div>
+      </dl>
+    </div>
+  );
+}
@@ -0,0 +1,521 @@
+"use client";
+
+import { useState, useEffect, useRef } from "react";
+import { useRouter } from "next/navigation";
+import { toast } from "sonner";
+import { repo } from "@/lib/supabase/client";
+import { getMemberPermissions } from "@/lib/companies/permissions";
+import { getFieldErrors } from "@/lib/jobs/validation";
+import {
+  BUILT_IN_VARIABLES,
+  CONTRACT_TYPES,
+  CONTRACT_TYPE_LABELS,
+  LEGAL_REVIEW_STATUSES,
+  LEGAL_REVIEW_STATUS_LABELS,
+  VARIABLE_NAME_PATTERN,
+  extractVariables,
+  getPreviewValues,
+  getVariableLabel,
+  isCustomVariable,
+  renderContract,
+  type BuiltInVariable,
+} from "@/lib/contracts/templates";
+import { ContractTemplateSchema, MAX_CONTRACT_LENGTH } from "@/lib/contracts/validation";
+import type { ContractTemplate, LegalReviewStatus } from "@/lib/types/enhanced-database";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Braces, Eye, FileSignature, Loader2, Plus, Settings } from "lucide-react";
+
+interface ContractTemplateFormData {
+  company_id: string;
+  name: string;
+  description: string;
+  contract_type: string;
+  template_content: string;
+  variables: Record<string, string>;
+  required_fields: string[];
+  jurisdiction: string;
+  applicable_law: string;
+  legal_review_status: LegalReviewStatus;
+  is_default: boolean;
+  is_active: boolean;
+}
+
+const STARTER_CONTENT = `EMPLOYMENT AGREEMENT
+
+This agreement is made on {today} between {company_name} ("Company") and {candidate_name} ("Employee").
+
+1. Position
+The Employee is employed as {job_title} on a {employment_type} basis, based in {location}, starting on {start_date}.
+
+2. Compensation
+The Employee will be paid {salary}.
+
+3. Confidentiality
+The Employee agrees to keep the Company's confidential information private during and after employment.
+`;
+
+const toFormData = (template?: ContractTemplate | null): ContractTemplateFormData => ({
+  company_id: template?.company_id ?? "",
+  name: template?.name ?? "",
+  description: template?.description ?? "",
+  contract_type: template?.contract_type ?? "employment_full_time",
+  template_content: template?.template_content ?? STARTER_CONTENT,
+  variables: template?.variables ?? {},
+  required_fields: template?.required_fields ?? (template ? [] : ['candidate_name', 'job_title', 'start_date']),
+  jurisdiction: template?.jurisdiction ?? "",
+  applicable_law: template?.applicable_law ?? "",
+  legal_review_status: template?.legal_review_status ?? 'pending',
+  is_default: template?.is_default ?? false,
+  is_active: template?.is_active ?? true,
+});
+
+// Only variables still used in the text are kept
+const toTemplateInput = (form: ContractTemplateFormData) => {
+  const used = extractVariables(form.template_content);
+  return {
+    name: form.name,
+    description: form.description.trim() || null,
+    contract_type: form.contract_type,
+    template_content: form.template_content,
+    variables: Object.fromEntries(
+      used.filter(isCustomVariable).flatMap((name) => (form.variables[name]?.trim() ? [[name, form.variables[name]]] : []))
+    ),
+    required_fields: used.filter((name) => form.required_fields.includes(name)),
+    jurisdiction: form.jurisdiction.trim() || null,
+    applicable_law: form.applicable_law.trim() || null,
+    legal_review_status: form.legal_review_status,
+    is_default: form.is_default,
+    is_active: form.is_active,
+  };
+};
+
+function FieldError({ message }: { message?: string }) {
+  return message ? <p className="text-sm text-red-500">{message}</p> : null;
+}
+
+interface ContractTemplateEditorProps {
+  userId: string;
+  template?: ContractTemplate | null;
+  readOnly?: boolean;
+  onSaved?: (template: ContractTemplate) => void;
+}
+
+/**
+ * Write a company's contract template. Placeholders in braces are filled in
+ * when the contract is issued; required ones must have a value by then.
+ */
+export function ContractTemplateEditor({ userId, template, readOnly, onSaved }: ContractTemplateEditorProps) {
+  const router = useRouter();
+  const contentRef = useRef<HTMLTextAreaElement>(null);
+  const [companies, setCompanies] = useState<Array<{ id: string; name: string }>>([]);
+  const [formData, setFormData] = useState<ContractTemplateFormData>(() => toFormData(template));
+  const [newVariable, setNewVariable] = useState("");
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    const loadCompanies = async () => {
+      try {
+        const data = (await repo.companies.listForUser(userId))
+          .filter((company) => getMemberPermissions(company).can_edit_jobs);
+        setCompanies(data);
+
+        if (data.length === 1) {
+          setFormData((prev) => (prev.company_id ? prev : { ...prev, company_id: data[0].id }));
+        }
+      } catch (error) {
+        console.error('Error loading companies:', error);
+      }
+    };
+
+    loadCompanies();
+  }, [userId]);
+
+  const handleInputChange = <K extends keyof ContractTemplateFormData>(field: K, value: ContractTemplateFormData[K]) => {
+    setFormData((prev) => ({ ...prev, [field]: value }));
+    setErrors((prev) => Object.fromEntries(Object.entries(prev).filter(([key]) => key !== field)));
+  };
+
+  // Put {name} at the caret in the contract text
+  const insertVariable = (name: string) => {
+    const textarea = contentRef.current;
+    const content = formData.template_content;
+    const start = textarea?.selectionStart ?? content.length;
+    const end = textarea?.selectionEnd ?? content.length;
+    const placeholder = `{${name}}`;
+    handleInputChange('template_content', content.slice(0, start) + placeholder + content.slice(end));
+
+    requestAnimationFrame(() => {
+      const position = start + placeholder.length;
+      textarea?.focus();
+      textarea?.setSelectionRange(position, position);
+    });
+  };
+
+  const handleAddVariable = () => {
+    const name = newVariable.trim().toLowerCase().replace(/[\s-]+/g, '_');
+    if (!VARIABLE_NAME_PATTERN.test(name)) {
+      setErrors((prev) => ({ ...prev, new_variable: 'Start with a letter and use letters, digits and underscores.' }));
+      return;
+    }
+    insertVariable(name);
+    setNewVariable("");
+    setErrors((prev) => Object.fromEntries(Object.entries(prev).filter(([key]) => key !== 'new_variable')));
+  };
+
+  const toggleRequired = (name: string, required: boolean) => {
+    handleInputChange('required_fields', required
+      ? [...formData.required_fields, name]
+      : formData.required_fields.filter((field) => field !== name));
+  };
+
+  const handleSave = async () => {
+    if (!template && !formData.company_id) {
+      setErrors({ company_id: 'Please select a company.' });
+      return;
+    }
+
+    const parsed = ContractTemplateSchema.safeParse(toTemplateInput(formData));
+    if (!parsed.success) {
+      setErrors(getFieldErrors(parsed.error));
+      toast.error('Please fix the highlighted fields.');
+      return;
+    }
+    setErrors({});
+
+    // Record who signed off a change in legal review status
+    const reviewed = parsed.data.legal_review_status !== (template?.legal_review_status ?? 'pending')
+      ? { reviewed_by: userId, reviewed_at: new Date().toISOString() }
+      : {};
+
+    setSaving(true);
+    try {
+      if (template) {
+        const saved = await repo.contractTemplates.update(template.id, { ...parsed.data, ...reviewed });
+        onSaved?.(saved);
+        toast.success('Template saved');
+        return;
+      }
+
+      const created = await repo.contractTemplates.create({
+        ...parsed.data,
+        ...reviewed,
+        company_id: formData.company_id,
+        created_by: userId,
+      });
+      toast.success('Template created');
+      router.replace(`/protected/employer/contracts/${created.id}`);
+    } catch (error) {
+      console.error('Error saving contract template:', error);
+      toast.error('Failed to save template. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const usedVariables = extractVariables(formData.template_content);
+  const preview = renderContract(formData.template_content, getPreviewValues(formData));
+
+  return (
+    <form
+      onSubmit={(e) => {
+        e.preventDefault();
+        handleSave();
+      }}
+      className="space-y-6"
+    >
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Settings className="h-5 w-5" />
+            Details
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <fieldset disabled={readOnly} className="space-y-4">
+            {!template && (
+              <div className="space-y-2">
+                <Label htmlFor="company">Company *</Label>
+                <Select value={formData.company_id} onValueChange={(value) => handleInputChange('company_id', value)}>
+                  <SelectTrigger id="company">
+                    <SelectValue placeholder="Select a company" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {companies.map((company) => (
+                      <SelectItem key={company.id} value={company.id}>
+                        {company.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FieldError message={errors.company_id} />
+                {companies.length === 0 && (
+                  <p className="text-sm text-muted-foreground">
+                    You do not have permission to manage contracts for any company.
+                  </p>
+                )}
+              </div>
+            )}
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="name">Name *</Label>
+                <Input
+                  id="name"
+                  value={formData.name}
+                  onChange={(e) => handleInputChange('name', e.target.value)}
+                  placeholder="e.g. Standard Employment Agreement"
+                />
+                <FieldError message={errors.name} />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="contract_type">Contract type</Label>
+                <Select
+                  value={formData.contract_type}
+                  onValueChange={(value) => handleInputChange('contract_type', value)}
+                  disabled={readOnly}
+                >
+                  <SelectTrigger id="contract_type">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {CONTRACT_TYPES.map((type) => (
+                      <SelectItem key={type} value={type}>
+                        {CONTRACT_TYPE_LABELS[type]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FieldError message={errors.contract_type} />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="description">Description</Label>
+              <Textarea
+                id="description"
+                value={formData.description}
+                onChange={(e) => handleInputChange('description', e.target.value)}
+                placeholder="When your team should use this template"
+                rows={2}
+              />
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="jurisdiction">Jurisdiction</Label>
+                <Input
+                  id="jurisdiction"
+                  value={formData.jurisdiction}
+                  onChange={(e) => handleInputChange('jurisdiction', e.target.value)}
+                  placeholder="e.g. Kenya"
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="applicable_law">Governing law</Label>
+                <Input
+                  id="applicable_law"
+                  value={formData.applicable_law}
+                  onChange={(e) => handleInputChange('applicable_law', e.target.value)}
+                  placeholder="e.g. Employment Act, 2007"
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="legal_review_status">Legal review</Label>
+                <Select
+                  value={formData.legal_review_status}
+                  onValueChange={(value) => handleInputChange('legal_review_status', value as LegalReviewStatus)}
+                  disabled={readOnly}
+                >
+                  <SelectTrigger id="legal_review_status">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {LEGAL_REVIEW_STATUSES.map((status) => (
+                      <SelectItem key={status} value={status}>
+                        {LEGAL_REVIEW_STATUS_LABELS[status]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="flex flex-wrap gap-6">
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id="is_default"
+                  checked={formData.is_default}
+                  onCheckedChange={(checked) => handleInputChange('is_default', checked === true)}
+                />
+                <Label htmlFor="is_default">Default for new postings of this contract type</Label>
+              </div>
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id="is_active"
+                  checked={formData.is_active}
+                  onCheckedChange={(checked) => handleInputChange('is_active', checked === true)}
+                />
+                <Label htmlFor="is_active">Active</Label>
+              </div>
+            </div>
+          </fieldset>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <FileSignature className="h-5 w-5" />
+            Contract Text
+          </CardTitle>
+          <CardDescription>
+            Write placeholders in braces, e.g. {'{start_date}'}. Click a variable to insert it at the cursor.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {!readOnly && (
+            <div className="space-y-2">
+              <div className="flex flex-wrap gap-2">
+                {(Object.keys(BUILT_IN_VARIABLES) as BuiltInVariable[]).map((name) => (
+                  <Button key={name} type="button" variant="outline" size="sm" onClick={() => insertVariable(name)}>
+                    {BUILT_IN_VARIABLES[name].label}
+                  </Button>
+                ))}
+              </div>
+              <div className="flex gap-2 md:w-1/2">
+                <Input
+                  value={newVariable}
+                  onChange={(e) => setNewVariable(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') {
+                      e.preventDefault();
+                      handleAddVariable();
+                    }
+                  }}
+                  placeholder="Custom variable, e.g. probation_period"
+                  aria-label="Custom variable name"
+                />
+                <Button type="button" variant="outline" onClick={handleAddVariable}>
+                  <Plus className="mr-2 h-4 w-4" />
+                  Insert
+                </Button>
+              </div>
+              <FieldError message={errors.new_variable} />
+            </div>
+          )}
+
+          <Textarea
+            ref={contentRef}
+            value={formData.template_content}
+            onChange={(e) => handleInputChange('template_content', e.target.value)}
+            rows={18}
+            maxLength={MAX_CONTRACT_LENGTH}
+            className="font-mono text-sm"
+            readOnly={readOnly}
+            aria-label="Contract text"
+          />
+          <FieldError message={errors.template_content} />
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Braces className="h-5 w-5" />
+            Variables
+          </CardTitle>
+          <CardDescription>
+            A contract is not issued until every required variable has a value. Custom variables use their default
+            unless the job posting sets its own.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {usedVariables.length === 0 ? (
+            <p className="text-sm text-muted-foreground">This contract has no placeholders yet.</p>
+          ) : (
+            <div className="divide-y rounded-lg border">
+              {usedVariables.map((name) => (
+                <div key={name} className="flex flex-wrap items-center gap-4 px-3 py-2">
+                  <div className="flex-1 min-w-40">
+                    <p className="text-sm font-medium">{getVariableLabel(name)}</p>
+                    <code className="text-xs text-muted-foreground">{`{${name}}`}</code>
+                  </div>
+                  {isCustomVariable(name) ? (
+                    <Input
+                      className="md:w-64"
+                      value={formData.variables[name] ?? ""}
+                      onChange={(e) => handleInputChange('variables', { ...formData.variables, [name]: e.target.value })}
+                      placeholder="Default value"
+                      aria-label={`${getVariableLabel(name)} default`}
+                      maxLength={500}
+                      readOnly={readOnly}
+                    />
+                  ) : (
+                    <Badge variant="secondary">Filled in automatically</Badge>
+                  )}
+                  <div className="flex items-center space-x-2">
+                    <Checkbox
+                      id={`required-${name}`}
+                      checked={formData.required_fields.includes(name)}
+                      onCheckedChange={(checked) => toggleRequired(name, checked === true)}
+                      disabled={readOnly}
+                    />
+                    <Label htmlFor={`required-${name}`}>Required</Label>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+          <FieldError message={errors.required_fields} />
+          <FieldError message={errors.variables} />
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Eye className="h-5 w-5" />
+            Preview
+          </CardTitle>
+          <CardDescription>
+            With example values for the details filled in automatically.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <ScrollArea className="h-80 border rounded-lg p-4">
+            <div className="whitespace-pre-line text-sm">{preview}</div>
+          </ScrollArea>
+        </CardContent>
+      </Card>
+
+      {!readOnly && (
+        <div className="flex justify-end gap-4">
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => router.push('/protected/employer/contracts')}
+            disabled={saving}
+          >
+            {template ? 'Back to Contracts' : 'Cancel'}
+          </Button>
+          <Button type="submit" disabled={saving || (!template && companies.length === 0)}>
+            {saving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <FileSignature className="mr-2 h-4 w-4" />}
+            {template ? 'Save Changes' : 'Create Template'}
+          </Button>
+        </div>
+      )}
+    </form>
+  );
+}
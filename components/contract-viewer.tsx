@@ -10,24 +10,13 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { PenSquare, CheckCircle2 } from "lucide-react";
-
-const engagementTypes = [
-  "Intern",
-  "Partnership", 
-  "Contractual",
-  "Sub-contractual",
-  "Permanent",
-  "Instructor",
-  "Student",
-  "Partner",
-  "Course Developer",
-  "Sponsor",
-  "Customer",
-  "Reseller",
-] as const;
-
-type EngagementType = typeof engagementTypes[number];
+import { ContractSignatureDetails } from "@/components/contract-signature-details";
+import { SignaturePad } from "@/components/signature-pad";
+import { ENGAGEMENT_TYPES, isEngagementType, renderPlatformDocument } from "@/lib/contracts/platform";
+import { SIGNATURE_CONSENT, hashDocument } from "@/lib/contracts/signatures";
+import type { SignatureCapture, SignatureValues } from "@/lib/contracts/validation";
+import type { ContractSignature } from "@/lib/types/enhanced-database";
+import { PenSquare, CheckCircle2, AlertCircle } from "lucide-react";
 
 const ContractSchema = z.object({
   engagementType: z.string().min(1, { message: "Please select a type of engagement." }),
@@ -39,248 +28,102 @@ const ContractSchema = z.object({
 
 type ContractFormValues = z.infer<typeof ContractSchema>;
 
-const contractTemplates: Record<EngagementType, string> = {
-  Intern: `
-INTERNSHIP AGREEMENT
-
-This agreement is entered on {DATE} between Uwezo Inc. ("Company") and you ("Intern").
-
-1. Position and Duration
-The Intern agrees to work as an intern for a period of 3-6 months in the specified department.
-
-2. Responsibilities
-- Complete assigned projects and tasks
-- Attend team meetings and training sessions
-- Maintain professional conduct
-
-3. Compensation
-This is an unpaid/paid internship position as discussed during the interview process.
-
-4. Confidentiality
-The Intern agrees to maintain confidentiality of all company information.
-`,
-  
-  Permanent: `
-PERMANENT EMPLOYMENT AGREEMENT
-
-This agreement is entered on {DATE} between Uwezo Inc. ("Company") and you ("Employee").
-
-1. Position and Duties
-The Employee is hired for a permanent position with the following responsibilities:
-- Perform duties as assigned by management
-- Maintain professional standards
-- Follow company policies and procedures
-
-2. Compensation and Benefits
-- Salary as discussed and agreed upon
-- Standard company benefits package
-- Annual performance reviews
-
-3. Term and Termination
-This is a permanent position subject to company policies and applicable laws.
-
-4. Confidentiality and Non-Disclosure
-Employee agrees to maintain strict confidentiality of company information.
-`,
-
-  Contractual: `
-CONTRACTUAL AGREEMENT
-
-This agreement is entered on {DATE} between Uwezo Inc. ("Company") and you ("Contractor").
-
-1. Scope of Work
-The Contractor agrees to provide specified services for the agreed duration.
-
-2. Payment Terms
-Payment will be made according to the agreed schedule and milestones.
-
-3. Deliverables
-All work products become the property of the Company upon completion.
-
-4. Independent Contractor Status
-This is a contractor relationship, not an employment relationship.
-`,
-
-  Partnership: `
-PARTNERSHIP AGREEMENT
-
-This agreement is entered on {DATE} between Uwezo Inc. and you ("Partner").
-
-1. Partnership Terms
-Both parties agree to collaborate on specified projects or initiatives.
-
-2. Responsibilities
-Each party shall fulfill their agreed-upon obligations and responsibilities.
-
-3. Revenue Sharing
-Any revenue generated will be shared according to the agreed terms.
-
-4. Duration
-This partnership agreement is effective until terminated by either party.
-`,
-
-  "Sub-contractual": `
-SUB-CONTRACTOR AGREEMENT
-
-This agreement is entered on {DATE} between Uwezo Inc. and you ("Sub-contractor").
-
-1. Sub-contracting Terms
-Services will be provided as a sub-contractor under the main project contract.
-
-2. Scope of Work
-Specific tasks and deliverables as outlined in the project specification.
-
-3. Payment
-Payment terms as agreed in the sub-contracting arrangement.
-`,
-
-  Instructor: `
-INSTRUCTOR AGREEMENT
-
-This agreement is entered on {DATE} between Uwezo Inc. and you ("Instructor").
-
-1. Teaching Responsibilities
-Deliver high-quality instruction in your area of expertise.
-
-2. Course Content
-Develop and maintain up-to-date course materials.
-
-3. Compensation
-Payment per course or hourly rate as agreed.
-`,
-
-  Student: `
-STUDENT AGREEMENT
-
-This agreement is entered on {DATE} between Uwezo Inc. and you ("Student").
-
-1. Learning Commitment
-Commit to active participation in courses and programs.
-
-2. Code of Conduct
-Maintain professional behavior and respect for others.
-
-3. Certification
-Successful completion may lead to certification.
-`,
-
-  Partner: `
-BUSINESS PARTNER AGREEMENT
-
-This agreement is entered on {DATE} between Uwezo Inc. and you ("Business Partner").
-
-1. Partnership Scope
-Collaborative business relationship for mutual benefit.
-
-2. Terms of Engagement
-Specific terms as discussed and agreed upon.
-
-3. Intellectual Property
-Respect for each party's intellectual property rights.
-`,
-
-  "Course Developer": `
-COURSE DEVELOPER AGREEMENT
-
-This agreement is entered on {DATE} between Uwezo Inc. and you ("Developer").
-
-1. Content Development
-Create educational content according to specifications.
-
-2. Quality Standards
-All content must meet company quality and educational standards.
-
-3. Intellectual Property
-Developed content becomes property of Uwezo Inc.
-`,
-
-  Sponsor: `
-SPONSORSHIP AGREEMENT
-
-This agreement is entered on {DATE} between Uwezo Inc. and you ("Sponsor").
-
-1. Sponsorship Terms
-Support for specified events, programs, or initiatives.
-
-2. Benefits
-Recognition and promotional benefits as outlined.
-
-3. Duration
-Sponsorship term as agreed upon.
-`,
-
-  Customer: `
-CUSTOMER AGREEMENT
-
-This agreement is entered on {DATE} between Uwezo Inc. and you ("Customer").
-
-1. Services
-Access to company services and products.
-
-2. Terms of Service
-Use of services subject to company terms and conditions.
-
-3. Payment
-Payment terms for services as applicable.
-`,
-
-  Reseller: `
-RESELLER AGREEMENT
-
-This agreement is entered on {DATE} between Uwezo Inc. and you ("Reseller").
-
-1. Reseller Rights
-Authorization to resell specified company products or services.
-
-2. Commission Structure
-Payment terms and commission rates as agreed.
-
-3. Territory
-Specific geographic or market territory if applicable.
-`
-};
+// A job's contract as rendered for the signer by GET /api/jobs/[id]/contract,
+// or a contract already issued to them (contract_signatures)
+type SignableContract = { name: string; content: string } & ({ job_id: string } | { signature_id: string });
 
 interface ContractViewerProps {
-  onSigned?: () => void;
+  // Without a contract the signer picks one of Uwezo's engagement agreements
+  contract?: SignableContract;
+  onSigned?: (signature: ContractSignature) => void;
+  // A job's contract is not sent from here: the signature is handed back so
+  // the apply flow can sign it for the application it creates
+  onSignatureReady?: (values: SignatureValues) => void;
 }
 
-export function ContractViewer({ onSigned }: ContractViewerProps) {
-  const [isSigned, setIsSigned] = useState(false);
-  const [signature, setSignature] = useState({ name: "", date: "", type: "" });
-  const [date, setDate] = useState<string | null>(null);
+export function ContractViewer({ contract, onSigned, onSignatureReady }: ContractViewerProps) {
+  const [signature, setSignature] = useState<ContractSignature | null>(null);
+  const [issuedAt, setIssuedAt] = useState<Date | null>(null);
+  const [capture, setCapture] = useState<SignatureCapture | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
 
   const form = useForm<ContractFormValues>({
     resolver: zodResolver(ContractSchema),
     defaultValues: {
-      engagementType: "",
+      engagementType: contract?.name ?? "",
       fullName: "",
       agree: false,
     },
   });
 
   useEffect(() => {
-    setDate(new Date().toLocaleDateString());
+    setIssuedAt(new Date());
   }, []);
 
-  const selectedEngagementType = form.watch("engagementType") as EngagementType | "";
+  const selectedEngagementType = form.watch("engagementType");
 
-  const onSubmit = (data: ContractFormValues) => {
-    setSignature({
-      name: data.fullName,
-      date: new Date().toLocaleString(),
-      type: data.engagementType,
-    });
-    setIsSigned(true);
-    onSigned?.();
+  // The text being signed, or null until there is one to show
+  const getSignableContent = () => {
+    if (contract) return contract.content;
+    if (!issuedAt || !isEngagementType(selectedEngagementType)) return null;
+    return renderPlatformDocument({ document: 'engagement', engagement_type: selectedEngagementType }, issuedAt);
   };
-  
+
   const getContractContent = () => {
-    if (!date) return "Loading...";
-    if (!selectedEngagementType) return "Please select a contract type to view the agreement.";
-    return contractTemplates[selectedEngagementType].replace(/{DATE}/g, date);
+    if (contract) return contract.content;
+    if (!issuedAt) return "Loading...";
+    return getSignableContent() ?? "Please select a contract type to view the agreement.";
   };
 
-  if (isSigned) {
+  // The server renders the contract again and records the signature
+  // against the hash of the text shown here
+  const onSubmit = async (data: ContractFormValues) => {
+    const content = getSignableContent();
+    if (!content || !capture) return;
+
+    setSubmitting(true);
+    setError(null);
+    try {
+      const signatureFields: SignatureValues = {
+        full_name: data.fullName,
+        signature: capture,
+        agree: true,
+        document_hash: await hashDocument(content),
+      };
+      if (contract && 'job_id' in contract) {
+        onSignatureReady?.(signatureFields);
+        return;
+      }
+
+      const response = contract
+        ? await fetch(`/api/contract-signatures/${contract.signature_id}/sign`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(signatureFields),
+          })
+        : await fetch('/api/contract-signatures', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ document: 'engagement', engagement_type: data.engagementType, ...signatureFields }),
+          });
+      const result = await response.json();
+      if (!response.ok) {
+        setError(result.error || 'Failed to sign contract');
+        return;
+      }
+
+      setSignature(result.data);
+      onSigned?.(result.data);
+    } catch (error) {
+      console.error('Error signing contract:', error);
+      setError('Failed to sign contract. Please try again.');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (signature) {
     return (
       <Card>
         <CardHeader>
@@ -289,14 +132,11 @@ export function ContractViewer({ onSigned }: ContractViewerProps) {
             Contract Signed
           </CardTitle>
           <CardDescription>
-            Thank you. The {signature.type} agreement was signed successfully.
+            Thank you. {contract ? contract.name : `The ${signature.title}`} was signed successfully.
           </CardDescription>
         </CardHeader>
         <CardContent>
-          <div className="border rounded-lg p-4 bg-muted/50">
-            <p className="font-semibold">{signature.name}</p>
-            <p className="text-sm text-muted-foreground">Signed on {signature.date}</p>
-          </div>
+          <ContractSignatureDetails signature={signature} />
         </CardContent>
       </Card>
     );
@@ -307,35 +147,39 @@ export function ContractViewer({ onSigned }: ContractViewerProps) {
       <CardHeader>
         <CardTitle className="flex items-center gap-2">
           <PenSquare className="h-5 w-5" />
-          Sign Your Employment Contract
+          {contract ? `Sign ${contract.name}` : 'Sign Your Employment Contract'}
         </CardTitle>
         <CardDescription>
-          Please select your engagement type, read the agreement carefully, and sign below.
+          {contract
+            ? 'Please read the agreement carefully and sign below.'
+            : 'Please select your engagement type, read the agreement carefully, and sign below.'}
         </CardDescription>
       </CardHeader>
       <CardContent>
         <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
-          <div className="space-y-2">
-            <label className="text-sm font-medium">Engagement Type</label>
-            <Select
-              value={form.watch("engagementType")}
-              onValueChange={(value) => form.setValue("engagementType", value)}
-            >
-              <SelectTrigger>
-                <SelectValue placeholder="Select your engagement type" />
-              </SelectTrigger>
-              <SelectContent>
-                {engagementTypes.map((type) => (
-                  <SelectItem key={type} value={type}>
-                    {type}
-                  </SelectItem>
-                ))}
-              </SelectContent>
-            </Select>
-            {form.formState.errors.engagementType && (
-              <p className="text-sm text-red-500">{form.formState.errors.engagementType.message}</p>
-            )}
-          </div>
+          {!contract && (
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Engagement Type</label>
+              <Select
+                value={form.watch("engagementType")}
+                onValueChange={(value) => form.setValue("engagementType", value)}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Select your engagement type" />
+                </SelectTrigger>
+                <SelectContent>
+                  {ENGAGEMENT_TYPES.map((type) => (
+                    <SelectItem key={type} value={type}>
+                      {type}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {form.formState.errors.engagementType && (
+                <p className="text-sm text-red-500">{form.formState.errors.engagementType.message}</p>
+              )}
+            </div>
+          )}
 
           <div className="space-y-4">
             <h3 className="font-medium">Contract Agreement</h3>
@@ -348,7 +192,7 @@ export function ContractViewer({ onSigned }: ContractViewerProps) {
 
           <div className="space-y-4">
             <div className="space-y-2">
-              <label className="text-sm font-medium">Full Name (Digital Signature)</label>
+              <label className="text-sm font-medium">Full Name</label>
               <Input
                 {...form.register("fullName")}
                 placeholder="Enter your full legal name"
@@ -358,14 +202,18 @@ export function ContractViewer({ onSigned }: ContractViewerProps) {
               )}
             </div>
 
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Signature</label>
+              <SignaturePad name={form.watch("fullName")} value={capture} onChange={setCapture} />
+            </div>
+
             <div className="flex items-start space-x-2">
               <Checkbox
                 checked={form.watch("agree")}
                 onCheckedChange={(checked) => form.setValue("agree", !!checked)}
               />
               <label className="text-sm leading-relaxed">
-                I have read and agree to the terms and conditions of this employment contract.
-                By typing my name above, I acknowledge that this serves as my digital signature.
+                {SIGNATURE_CONSENT}
               </label>
             </div>
             {form.formState.errors.agree && (
@@ -373,12 +221,19 @@ export function ContractViewer({ onSigned }: ContractViewerProps) {
             )}
           </div>
 
+          {error && (
+            <p className="text-sm text-red-500 flex items-center gap-2">
+              <AlertCircle className="h-4 w-4" />
+              {error}
+            </p>
+          )}
+
           <Button 
             type="submit" 
             className="w-full"
-            disabled={!selectedEngagementType || !form.watch("fullName") || !form.watch("agree")}
+            disabled={submitting || !selectedEngagementType || !form.watch("fullName") || !capture || !form.watch("agree")}
           >
-            Sign Contract
+            {submitting ? 'Signing...' : contract && 'job_id' in contract ? 'Sign and Continue' : 'Sign Contract'}
           </Button>
         </form>
       </CardContent>
@@ -0,0 +1,169 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { toast } from "sonner";
+import { repo } from "@/lib/supabase/client";
+import { getNewSkills, mergeCvFindings } from "@/lib/documents/cv-analysis";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { AlertTriangle, GraduationCap, Loader2, UserPlus } from "lucide-react";
+import type { DocumentAnalysisResult } from "@/lib/types/database";
+import type { UserProfileEnhanced } from "@/lib/types/enhanced-database";
+
+interface CvAnalysisReviewProps {
+  userId: string;
+  analysis: DocumentAnalysisResult;
+}
+
+/**
+ * What the CV analysis found, with an offer to add the new skills and the
+ * years of experience to the user's profile.
+ */
+export function CvAnalysisReview({ userId, analysis }: CvAnalysisReviewProps) {
+  const [profile, setProfile] = useState<Pick<UserProfileEnhanced, 'skills' | 'years_experience'> | null>(null);
+  const [selectedSkills, setSelectedSkills] = useState<string[]>([]);
+  const [updateYears, setUpdateYears] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [merged, setMerged] = useState(false);
+
+  const foundSkills = analysis.skills ?? [];
+  const yearsExperience = analysis.years_experience ?? null;
+
+  useEffect(() => {
+    const loadProfile = async () => {
+      try {
+        const data = await repo.profiles.get(userId);
+        if (!data) return;
+        setProfile(data);
+
+        // Pre-select everything new, and the experience figure if it is higher
+        const years = analysis.years_experience ?? null;
+        setSelectedSkills(getNewSkills(data.skills ?? [], analysis.skills ?? []));
+        setUpdateYears(years !== null && years > (data.years_experience ?? 0));
+      } catch (error) {
+        console.error('Error loading profile:', error);
+      }
+    };
+
+    loadProfile();
+  }, [userId, analysis]);
+
+  const newSkills = profile ? getNewSkills(profile.skills ?? [], foundSkills) : [];
+  const yearsDiffer = profile !== null && yearsExperience !== null && yearsExperience !== profile.years_experience;
+
+  const handleMerge = async () => {
+    if (!profile) return;
+
+    const update = mergeCvFindings(profile, {
+      skills: selectedSkills,
+      yearsExperience: updateYears ? yearsExperience : undefined,
+    });
+    if (Object.keys(update).length === 0) return;
+
+    setSaving(true);
+    try {
+      setProfile(await repo.profiles.update(userId, update));
+      setMerged(true);
+      toast.success('Profile updated from your CV');
+    } catch (error) {
+      console.error('Error updating profile:', error);
+      toast.error('Failed to update your profile. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3 rounded-lg border p-3 text-sm">
+      {(analysis.validation_errors ?? []).length > 0 && (
+        <ul className="space-y-1 text-amber-700">
+          {analysis.validation_errors?.map((message) => (
+            <li key={message} className="flex items-start gap-2">
+              <AlertTriangle className="h-4 w-4 flex-shrink-0 mt-0.5" />
+              {message}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {foundSkills.length > 0 && (
+        <div className="space-y-2">
+          <p className="font-medium">Skills found</p>
+          <div className="flex flex-wrap gap-2">
+            {foundSkills.map((skill) => (
+              <Badge key={skill} variant={newSkills.includes(skill) ? 'default' : 'outline'}>
+                {skill}
+              </Badge>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {yearsExperience !== null && (
+        <p>
+          <span className="font-medium">Experience:</span> about {yearsExperience} {yearsExperience === 1 ? 'year' : 'years'}
+        </p>
+      )}
+
+      {(analysis.education ?? []).length > 0 && (
+        <div className="space-y-1">
+          <p className="font-medium flex items-center gap-2">
+            <GraduationCap className="h-4 w-4" />
+            Education
+          </p>
+          <ul className="text-muted-foreground space-y-1">
+            {analysis.education?.map((entry, index) => (
+              <li key={index}>
+                {entry.qualification}
+                {entry.institution && `, ${entry.institution}`}
+                {entry.year && !entry.institution?.includes(String(entry.year)) && ` (${entry.year})`}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {profile && !merged && (newSkills.length > 0 || yearsDiffer) && (
+        <div className="space-y-2 border-t pt-3">
+          <p className="font-medium">Add to your profile?</p>
+          {newSkills.map((skill) => (
+            <div key={skill} className="flex items-center space-x-2">
+              <Checkbox
+                id={`cv-skill-${skill}`}
+                checked={selectedSkills.includes(skill)}
+                onCheckedChange={(checked) => setSelectedSkills((prev) =>
+                  checked === true ? [...prev, skill] : prev.filter((s) => s !== skill)
+                )}
+              />
+              <Label htmlFor={`cv-skill-${skill}`}>{skill}</Label>
+            </div>
+          ))}
+          {yearsDiffer && (
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id="cv-years-experience"
+                checked={updateYears}
+                onCheckedChange={(checked) => setUpdateYears(checked === true)}
+              />
+              <Label htmlFor="cv-years-experience">
+                Set years of experience to {yearsExperience} (currently {profile.years_experience})
+              </Label>
+            </div>
+          )}
+          <Button
+            size="sm"
+            onClick={handleMerge}
+            disabled={saving || (selectedSkills.length === 0 && !updateYears)}
+          >
+            {saving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <UserPlus className="mr-2 h-4 w-4" />}
+            Update Profile
+          </Button>
+        </div>
+      )}
+
+      {merged && <p className="text-green-600">Your profile has been updated.</p>}
+    </div>
+  );
+}
@@ -9,10 +9,18 @@ import { Label } from "@/components/ui/label";
 import { Badge } from "@/components/ui/badge";
 import { Loader2, Upload, FileText, CheckCircle2, AlertCircle } from "lucide-react";
 import { cn } from "@/lib/utils";
+import { CvAnalysisReview } from "@/components/cv-analysis-review";
 import type { Database } from "@/lib/types/database";
 
 type Document = Database['public']['Tables']['documents']['Row'];
 
+export const DOCUMENT_TYPE_LABELS: Record<string, string> = {
+  cv: 'CV',
+  nda: 'NDA',
+  contract: 'Contract',
+  general: 'Document',
+};
+
 interface DocumentUploaderProps {
   onUploadComplete?: (documentId: string) => void;
 }
@@ -22,6 +30,7 @@ export function DocumentUploader({ onUploadComplete }: DocumentUploaderProps) {
   const [isUploading, setIsUploading] = useState(false);
   const [uploadedFiles, setUploadedFiles] = useState<Document[]>([]);
   const [dragActive, setDragActive] = useState(false);
+  const [analyzingId, setAnalyzingId] = useState<string | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   const handleFileUpload = async (files: FileList | File[]) => {
@@ -52,7 +61,8 @@ export function DocumentUploader({ onUploadComplete }: DocumentUploaderProps) {
           file_path: uploadData.path,
           file_size: file.size,
           mime_type: file.type,
-          document_type: getDocumentType(file.name),
+          // Set from the document's content by the analysis below
+          document_type: null,
         })
         .select()
         .single();
@@ -62,11 +72,7 @@ export function DocumentUploader({ onUploadComplete }: DocumentUploaderProps) {
       setUploadedFiles(prev => [...prev, documentData]);
       onUploadComplete?.(documentData.id);
 
-      // If it's a CV, trigger skill analysis (placeholder for now)
-      if (getDocumentType(file.name) === 'cv') {
-        await analyzeCVSkills(documentData.id);
-      }
-
+      await analyzeDocument(documentData.id);
     } catch (error) {
       console.error('Upload error:', error);
       alert('Failed to upload file. Please try again.');
@@ -75,33 +81,25 @@ export function DocumentUploader({ onUploadComplete }: DocumentUploaderProps) {
     }
   };
 
-  const getDocumentType = (filename: string): string => {
-    const name = filename.toLowerCase();
-    if (name.includes('cv') || name.includes('resume')) return 'cv';
-    if (name.includes('nda')) return 'nda';
-    if (name.includes('contract')) return 'contract';
-    return 'general';
-  };
-
-  const analyzeCVSkills = async (documentId: string) => {
+  // Text extraction and CV analysis happen server-side
+  const analyzeDocument = async (documentId: string) => {
+    setAnalyzingId(documentId);
     try {
-      // Placeholder for CV skill analysis
-      // This would integrate with OpenAI or similar service
-      console.log('CV analysis would happen here for:', documentId);
-      
-      // For now, just update with placeholder analysis
-      await supabase
-        .from('documents')
-        .update({
-          analysis_result: {
-            skills: ['JavaScript', 'React', 'Node.js', 'TypeScript'],
-            experience_years: 3,
-            analyzed_at: new Date().toISOString()
-          }
-        })
-        .eq('id', documentId);
+      const response = await fetch(`/api/documents/${documentId}/analyze`, { method: 'POST' });
+      const body = await response.json();
+
+      if (response.ok) {
+        setUploadedFiles(prev => prev.map((doc) => (doc.id === documentId ? body.data : doc)));
+      } else {
+        // The failure reason is recorded on the document
+        setUploadedFiles(prev => prev.map((doc) => (doc.id === documentId
+          ? { ...doc, analysis_result: { validation_errors: [body.error || 'The document could not be analysed.'] } }
+          : doc)));
+      }
     } catch (error) {
-      console.error('CV analysis error:', error);
+      console.error('Document analysis error:', error);
+    } finally {
+      setAnalyzingId(null);
     }
   };
 
@@ -196,23 +194,38 @@ export function DocumentUploader({ onUploadComplete }: DocumentUploaderProps) {
             <Label className="text-sm font-medium">Uploaded Documents</Label>
             <div className="space-y-2">
               {uploadedFiles.map((file) => (
-                <div key={file.id} className="flex items-center gap-3 p-3 border rounded-lg">
-                  <CheckCircle2 className="h-5 w-5 text-green-600 flex-shrink-0" />
-                  <div className="flex-1 min-w-0">
-                    <p className="text-sm font-medium truncate">{file.original_filename}</p>
-                    <div className="flex items-center gap-2 mt-1">
-                      <Badge variant="secondary" className="text-xs">
-                        {file.document_type}
-                      </Badge>
-                      <span className="text-xs text-muted-foreground">
-                        {file.file_size ? (file.file_size / 1024 / 1024).toFixed(2) : '0'} MB
-                      </span>
+                <div key={file.id} className="p-3 border rounded-lg space-y-3">
+                  <div className="flex items-center gap-3">
+                    <CheckCircle2 className="h-5 w-5 text-green-600 flex-shrink-0" />
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm font-medium truncate">{file.original_filename}</p>
+                      <div className="flex items-center gap-2 mt-1">
+                        {file.document_type && (
+                          <Badge variant="secondary" className="text-xs">
+                            {DOCUMENT_TYPE_LABELS[file.document_type] ?? file.document_type}
+                          </Badge>
+                        )}
+                        <span className="text-xs text-muted-foreground">
+                          {file.file_size ? (file.file_size / 1024 / 1024).toFixed(2) : '0'} MB
+                        </span>
+                      </div>
                     </div>
+                    {analyzingId === file.id ? (
+                      <span className="flex items-center gap-1 text-xs text-muted-foreground">
+                        <Loader2 className="h-3 w-3 animate-spin" />
+                        Analyzing...
+                      </span>
+                    ) : file.analysis_result?.confidence_score !== undefined && file.analysis_result.confidence_score > 0 && (
+                      <Badge variant="outline" className="text-xs">
+                        Analyzed ({Math.round(file.analysis_result.confidence_score * 100)}% confidence)
+                      </Badge>
+                    )}
                   </div>
-                  {file.analysis_result && (
-                    <Badge variant="outline" className="text-xs">
-                      Analyzed
-                    </Badge>
+                  {user && file.document_type === 'cv' && file.analysis_result && (
+                    <CvAnalysisReview userId={user.id} analysis={file.analysis_result} />
+                  )}
+                  {file.document_type !== 'cv' && (file.analysis_result?.validation_errors ?? []).length > 0 && (
+                    <p className="text-xs text-amber-700">{file.analysis_result?.validation_errors?.join(' ')}</p>
                   )}
                 </div>
               ))}
@@ -227,7 +240,7 @@ export function DocumentUploader({ onUploadComplete }: DocumentUploaderProps) {
             <div className="space-y-1">
               <p className="text-sm font-medium">Upload Guidelines</p>
               <ul className="text-xs text-muted-foreground space-y-1">
-                <li>• CV/Resume: Upload your latest CV for skill analysis</li>
+                <li>• CV/Resume: Upload your latest CV to pick up your skills and experience</li>
                 <li>• Contracts: Upload signed employment contracts</li>
                 <li>• NDAs: Upload signed non-disclosure agreements</li>
                 <li>• All documents should be in PDF format when possible</li>
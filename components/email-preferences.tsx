@@ -0,0 +1,145 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { format } from "date-fns";
+import { toast } from "sonner";
+import { repo } from "@/lib/supabase/client";
+import { EMAIL_CATEGORY_LABELS, isEmailAllowed, type EmailCategory } from "@/lib/email/preferences";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Mail } from "lucide-react";
+import type {
+  EmailOutboxMessage,
+  EmailOutboxStatus,
+  NotificationPreferences,
+  UserProfileEnhanced,
+} from "@/lib/types/enhanced-database";
+
+const RECENT_EMAIL_LIMIT = 10;
+
+type RecentEmail = Pick<EmailOutboxMessage, 'id' | 'category' | 'template' | 'subject' | 'status' | 'created_at' | 'sent_at'>;
+
+const EMAIL_STATUS_LABELS: Record<EmailOutboxStatus, string> = {
+  pending: 'Sending',
+  sent: 'Sent',
+  failed: 'Not delivered',
+  skipped: 'Not sent, opted out',
+};
+
+const CATEGORIES = Object.entries(EMAIL_CATEGORY_LABELS) as [Exclude<EmailCategory, 'account'>, string][];
+
+/**
+ * Which emails the user receives, and the latest ones we sent them.
+ * Account emails such as team invites and contracts to sign are always sent.
+ */
+export function EmailPreferences({ userId }: { userId: string }) {
+  const [profile, setProfile] = useState<UserProfileEnhanced | null>(null);
+  const [recentEmails, setRecentEmails] = useState<RecentEmail[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const loadPreferences = async () => {
+      try {
+        const [profileData, emailData] = await Promise.all([
+          repo.profiles.get(userId),
+          repo.emailOutbox.listForUser(userId, RECENT_EMAIL_LIMIT),
+        ]);
+        setProfile(profileData);
+        setRecentEmails(emailData);
+      } catch (error) {
+        console.error('Error loading email preferences:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadPreferences();
+  }, [userId]);
+
+  const updatePreference = async (key: keyof NotificationPreferences, value: boolean) => {
+    if (!profile) return;
+    try {
+      const updated = await repo.profiles.update(userId, {
+        notification_preferences: { ...profile.notification_preferences, [key]: value },
+      });
+      setProfile(updated);
+    } catch (error) {
+      console.error('Error updating email preferences:', error);
+      toast.error('Failed to update your settings. Please try again.');
+    }
+  };
+
+  const preferences = profile?.notification_preferences;
+  const emailEnabled = preferences?.email_notifications !== false;
+
+  return (
+    <Card id="email-preferences">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Mail className="h-5 w-5" />
+          Email preferences
+        </CardTitle>
+        <CardDescription>
+          {profile?.email ? `Emails go to ${profile.email}` : 'Choose which emails we send you'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {loading ? (
+          <p className="text-sm text-muted-foreground">Loading...</p>
+        ) : !profile ? (
+          <p className="text-sm text-muted-foreground">Complete your profile to manage email preferences.</p>
+        ) : (
+          <div className="space-y-3">
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="email-all"
+                checked={emailEnabled}
+                onCheckedChange={(checked) => updatePreference('email_notifications', checked === true)}
+              />
+              <Label htmlFor="email-all">Email notifications</Label>
+            </div>
+            <div className="space-y-3 pl-6">
+              {CATEGORIES.map(([category, label]) => (
+                <div key={category} className="flex items-center gap-2">
+                  <Checkbox
+                    id={`email-${category}`}
+                    checked={isEmailAllowed(category, preferences)}
+                    disabled={!emailEnabled}
+                    onCheckedChange={(checked) => updatePreference(category, checked === true)}
+                  />
+                  <Label htmlFor={`email-${category}`}>{label}</Label>
+                </div>
+              ))}
+            </div>
+            <p className="text-sm text-muted-foreground">
+              Team invitations and contracts waiting for your signature are always emailed.
+            </p>
+          </div>
+        )}
+
+        {recentEmails.length > 0 && (
+          <div className="space-y-2">
+            <h3 className="text-sm font-medium">Recent emails</h3>
+            <ul className="divide-y rounded-lg border">
+              {recentEmails.map((email) => (
+                <li key={email.id} className="flex flex-wrap items-center justify-between gap-2 p-3 text-sm">
+                  <div className="min-w-0">
+                    <p className="truncate">{email.subject}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {format(new Date(email.sent_at ?? email.created_at), 'PPp')}
+                    </p>
+                  </div>
+                  <Badge variant={email.status === 'sent' ? 'secondary' : 'outline'}>
+                    {EMAIL_STATUS_LABELS[email.status]}
+                  </Badge>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
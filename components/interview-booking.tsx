@@ -0,0 +1,236 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { CalendarCheck, CalendarPlus, CalendarX, Clock, Loader2, MapPin, Video } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { INTERVIEW_STATUS_LABELS, type InterviewBooking } from "@/lib/interviews/scheduling";
+import { formatDayInZone, formatInTimeZone, formatTimeInZone, getBrowserTimeZone } from "@/lib/interviews/time";
+import type { InterviewSlot } from "@/lib/types/enhanced-database";
+
+interface InterviewBookingPanelProps {
+  initialBooking: InterviewBooking;
+  jobTitle: string;
+  companyName: string | null;
+}
+
+// Slots grouped by their day in the viewer's time zone
+function groupSlotsByDay(slots: InterviewSlot[], timeZone: string) {
+  const days = new Map<string, InterviewSlot[]>();
+  for (const slot of slots) {
+    const day = formatDayInZone(slot.starts_at, timeZone);
+    days.set(day, [...(days.get(day) ?? []), slot]);
+  }
+  return Array.from(days.entries());
+}
+
+/**
+ * The candidate's side of an interview: pick one of the offered times in
+ * their own time zone, move or cancel the booking, and add it to their
+ * calendar.
+ */
+export function InterviewBookingPanel({ initialBooking, jobTitle, companyName }: InterviewBookingPanelProps) {
+  const [booking, setBooking] = useState(initialBooking);
+  // Shown in the interview's zone until the browser's is known, so server and client render alike
+  const [timeZone, setTimeZone] = useState(initialBooking.time_zone);
+  const [selectedSlotId, setSelectedSlotId] = useState<string | null>(null);
+  const [changingTime, setChangingTime] = useState(false);
+  const [cancelling, setCancelling] = useState(false);
+  const [cancelReason, setCancelReason] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    setTimeZone(getBrowserTimeZone());
+  }, []);
+
+  const submit = async (body: Record<string, unknown>, successMessage: string) => {
+    setSaving(true);
+    try {
+      const response = await fetch(`/api/interviews/booking/${booking.booking_token}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        toast.error(result.error || 'Something went wrong. Please try again.');
+        return;
+      }
+
+      setBooking(result.data);
+      setSelectedSlotId(null);
+      setChangingTime(false);
+      setCancelling(false);
+      toast.success(successMessage);
+    } catch (error) {
+      console.error('Error updating interview booking:', error);
+      toast.error('Something went wrong. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const bookSlot = () => {
+    if (!selectedSlotId) return;
+    submit({ action: 'book', slot_id: selectedSlotId, time_zone: timeZone }, 'Your interview is booked');
+  };
+
+  const cancelInterview = () => {
+    submit({ action: 'cancel', reason: cancelReason || undefined }, 'Your interview is cancelled');
+  };
+
+  const isActive = booking.status === 'proposed' || booking.status === 'scheduled';
+  const showSlots = booking.status === 'proposed' || changingTime;
+  const otherSlots = booking.slots.filter((slot) => slot.starts_at !== booking.starts_at);
+
+  return (
+    <Card className="max-w-2xl mx-auto">
+      <CardHeader>
+        <div className="flex flex-wrap items-center gap-2">
+          <CardTitle>{booking.title}</CardTitle>
+          <Badge variant={booking.status === 'scheduled' ? 'default' : 'outline'}>
+            {INTERVIEW_STATUS_LABELS[booking.status]}
+          </Badge>
+        </div>
+        <CardDescription>
+          {jobTitle}{companyName ? ` at ${companyName}` : ''} • {booking.duration_minutes} minutes
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {booking.status === 'scheduled' && booking.starts_at && (
+          <div className="space-y-3 rounded-lg border p-4">
+            <p className="flex items-center gap-2 font-medium">
+              <CalendarCheck className="h-5 w-5 text-primary" />
+              {formatInTimeZone(booking.starts_at, timeZone)}
+            </p>
+            {timeZone !== booking.time_zone && (
+              <p className="text-sm text-muted-foreground">
+                {formatInTimeZone(booking.starts_at, booking.time_zone)} for the hiring team
+              </p>
+            )}
+            {booking.location && (
+              <p className="flex items-center gap-2 text-sm">
+                <MapPin className="h-4 w-4" />
+                {booking.location}
+              </p>
+            )}
+            {booking.meeting_url && (
+              <a href={booking.meeting_url} className="flex items-center gap-2 text-sm text-primary hover:underline">
+                <Video className="h-4 w-4" />
+                Join the meeting
+              </a>
+            )}
+            <div className="flex flex-wrap gap-2 pt-2">
+              <Button variant="outline" size="sm" asChild>
+                <a href={`/api/interviews/booking/${booking.booking_token}/ics`}>
+                  <CalendarPlus className="mr-2 h-4 w-4" />
+                  Add to calendar
+                </a>
+              </Button>
+              {otherSlots.length > 0 && !changingTime && (
+                <Button variant="outline" size="sm" onClick={() => setChangingTime(true)}>
+                  Pick a different time
+                </Button>
+              )}
+            </div>
+          </div>
+        )}
+
+        {booking.status === 'cancelled' && (
+          <div className="text-center py-6">
+            <CalendarX className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+            <h3 className="text-lg font-medium mb-2">This interview was cancelled</h3>
+            {booking.cancel_reason && <p className="text-muted-foreground">{booking.cancel_reason}</p>}
+          </div>
+        )}
+
+        {booking.status === 'completed' && (
+          <p className="text-muted-foreground">This interview has taken place. The hiring team will be in touch.</p>
+        )}
+
+        {showSlots && (
+          <div className="space-y-4">
+            <div>
+              <h3 className="font-medium">{booking.status === 'scheduled' ? 'Choose a new time' : 'Choose a time'}</h3>
+              <p className="text-sm text-muted-foreground">
+                Times are shown in {timeZone}.
+              </p>
+            </div>
+            {otherSlots.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                None of the offered times are still available. The hiring team will send new ones.
+              </p>
+            ) : (
+              groupSlotsByDay(otherSlots, timeZone).map(([day, slots]) => (
+                <div key={day} className="space-y-2">
+                  <p className="text-sm font-medium">{day}</p>
+                  <div className="flex flex-wrap gap-2">
+                    {slots.map((slot) => (
+                      <Button
+                        key={slot.id}
+                        type="button"
+                        variant={selectedSlotId === slot.id ? 'default' : 'outline'}
+                        size="sm"
+                        onClick={() => setSelectedSlotId(slot.id)}
+                        aria-pressed={selectedSlotId === slot.id}
+                      >
+                        <Clock className="mr-1 h-3 w-3" />
+                        {formatTimeInZone(slot.starts_at, timeZone)}
+                      </Button>
+                    ))}
+                  </div>
+                </div>
+              ))
+            )}
+            <div className="flex justify-end gap-2">
+              {changingTime && (
+                <Button variant="outline" onClick={() => setChangingTime(false)} disabled={saving}>
+                  Keep my booking
+                </Button>
+              )}
+              <Button onClick={bookSlot} disabled={saving || !selectedSlotId}>
+                {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {booking.status === 'scheduled' ? 'Move my interview' : 'Book this time'}
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {isActive && (
+          <div className={cn("border-t pt-4", cancelling && "space-y-3")}>
+            {cancelling ? (
+              <>
+                <Label htmlFor="cancel-reason">Why are you cancelling? (optional)</Label>
+                <Textarea
+                  id="cancel-reason"
+                  value={cancelReason}
+                  onChange={(e) => setCancelReason(e.target.value)}
+                  placeholder="Shared with the hiring team"
+                  rows={2}
+                />
+                <div className="flex justify-end gap-2">
+                  <Button variant="outline" onClick={() => setCancelling(false)} disabled={saving}>
+                    Back
+                  </Button>
+                  <Button variant="destructive" onClick={cancelInterview} disabled={saving}>
+                    {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                    Cancel interview
+                  </Button>
+                </div>
+              </>
+            ) : (
+              <Button variant="link" className="px-0 text-muted-foreground" onClick={() => setCancelling(true)}>
+                I can no longer attend
+              </Button>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,292 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2, Plus, X } from "lucide-react";
+import {
+  DEFAULT_INTERVIEW_MINUTES,
+  INTERVIEW_DURATIONS,
+  MAX_INTERVIEW_SLOTS,
+  normaliseSlots,
+  splitAvailability,
+  type InterviewWithDetails,
+} from "@/lib/interviews/scheduling";
+import {
+  COMMON_TIME_ZONES,
+  formatDayInZone,
+  formatTimeInZone,
+  getBrowserTimeZone,
+  zonedTimeToUtc,
+} from "@/lib/interviews/time";
+import type { InterviewDetailsInput } from "@/lib/interviews/validation";
+
+export interface InterviewPanelOption {
+  userId: string;
+  name: string;
+}
+
+interface InterviewFormProps {
+  defaultTitle: string;
+  panelOptions: InterviewPanelOption[];
+  // Prefills the details when offering new times for an existing interview
+  interview?: InterviewWithDetails;
+  saving: boolean;
+  error: string | null;
+  onSubmit: (details: InterviewDetailsInput) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Interview details, panel and the times to offer. Times are entered in
+ * the chosen time zone, one at a time or as an availability window that is
+ * split into slots.
+ */
+export function InterviewForm({
+  defaultTitle,
+  panelOptions,
+  interview,
+  saving,
+  error,
+  onSubmit,
+  onCancel,
+}: InterviewFormProps) {
+  const [title, setTitle] = useState(interview?.title ?? defaultTitle);
+  const [durationMinutes, setDurationMinutes] = useState(interview?.duration_minutes ?? DEFAULT_INTERVIEW_MINUTES);
+  const [timeZone, setTimeZone] = useState(interview?.time_zone ?? getBrowserTimeZone());
+  const [location, setLocation] = useState(interview?.location ?? "");
+  const [meetingUrl, setMeetingUrl] = useState(interview?.meeting_url ?? "");
+  const [panelistIds, setPanelistIds] = useState<string[]>(
+    interview?.panelists.map((panelist) => panelist.user_id) ?? []
+  );
+  // UTC start times of the slots on offer
+  const [slotStarts, setSlotStarts] = useState<string[]>([]);
+  const [slotInput, setSlotInput] = useState("");
+  const [availabilityDate, setAvailabilityDate] = useState("");
+  const [availabilityFrom, setAvailabilityFrom] = useState("09:00");
+  const [availabilityTo, setAvailabilityTo] = useState("17:00");
+  const [breakMinutes, setBreakMinutes] = useState(15);
+
+  const timeZones = COMMON_TIME_ZONES.includes(timeZone) ? COMMON_TIME_ZONES : [timeZone, ...COMMON_TIME_ZONES];
+
+  const addSlots = (starts: string[]) => {
+    const slots = normaliseSlots([...slotStarts, ...starts].map((startsAt) => ({ starts_at: startsAt, ends_at: startsAt })));
+    setSlotStarts(slots.map((slot) => slot.starts_at).slice(0, MAX_INTERVIEW_SLOTS));
+  };
+
+  const addSlot = () => {
+    if (!slotInput) return;
+    addSlots([zonedTimeToUtc(slotInput, timeZone)]);
+    setSlotInput("");
+  };
+
+  const addAvailability = () => {
+    if (!availabilityDate || !availabilityFrom || !availabilityTo) return;
+    const window = {
+      starts_at: zonedTimeToUtc(`${availabilityDate}T${availabilityFrom}`, timeZone),
+      ends_at: zonedTimeToUtc(`${availabilityDate}T${availabilityTo}`, timeZone),
+    };
+    addSlots(splitAvailability(window, durationMinutes, breakMinutes).map((slot) => slot.starts_at));
+  };
+
+  const togglePanelist = (userId: string, checked: boolean) => {
+    setPanelistIds((prev) => checked ? [...prev, userId] : prev.filter((id) => id !== userId));
+  };
+
+  const submit = () => {
+    onSubmit({
+      title: title.trim(),
+      duration_minutes: durationMinutes,
+      location: location.trim() || null,
+      meeting_url: meetingUrl.trim() || null,
+      time_zone: timeZone,
+      panelist_ids: panelistIds,
+      slot_starts: slotStarts,
+    });
+  };
+
+  return (
+    <div className="space-y-6 rounded-lg border p-4">
+      <div className="grid gap-4 md:grid-cols-2">
+        <div className="space-y-2 md:col-span-2">
+          <Label htmlFor="interview-title">Title</Label>
+          <Input id="interview-title" value={title} onChange={(e) => setTitle(e.target.value)} />
+        </div>
+        <div className="space-y-2">
+          <Label>Length</Label>
+          <Select value={String(durationMinutes)} onValueChange={(value) => setDurationMinutes(Number(value))}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {INTERVIEW_DURATIONS.map((minutes) => (
+                <SelectItem key={minutes} value={String(minutes)}>
+                  {minutes} minutes
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label>Time zone</Label>
+          <Select value={timeZone} onValueChange={setTimeZone}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {timeZones.map((zone) => (
+                <SelectItem key={zone} value={zone}>
+                  {zone.replace(/_/g, ' ')}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="interview-location">Location (optional)</Label>
+          <Input
+            id="interview-location"
+            value={location}
+            onChange={(e) => setLocation(e.target.value)}
+            placeholder="Office address or phone number"
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="interview-meeting-url">Meeting link (optional)</Label>
+          <Input
+            id="interview-meeting-url"
+            type="url"
+            value={meetingUrl}
+            onChange={(e) => setMeetingUrl(e.target.value)}
+            placeholder="https://"
+          />
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label>Interview panel</Label>
+        {panelOptions.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No other company members to add.</p>
+        ) : (
+          <div className="grid gap-2 sm:grid-cols-2">
+            {panelOptions.map((option) => (
+              <div key={option.userId} className="flex items-center gap-2">
+                <Checkbox
+                  id={`panelist-${option.userId}`}
+                  checked={panelistIds.includes(option.userId)}
+                  onCheckedChange={(checked) => togglePanelist(option.userId, checked === true)}
+                />
+                <Label htmlFor={`panelist-${option.userId}`} className="font-normal">{option.name}</Label>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="space-y-4">
+        <div>
+          <Label>Times to offer</Label>
+          <p className="text-sm text-muted-foreground">
+            The candidate sees these in their own time zone and picks one.
+          </p>
+        </div>
+        <div className="flex flex-wrap items-end gap-2">
+          <div className="space-y-1">
+            <Label htmlFor="slot-input" className="text-xs">One time</Label>
+            <Input
+              id="slot-input"
+              type="datetime-local"
+              value={slotInput}
+              onChange={(e) => setSlotInput(e.target.value)}
+              className="w-56"
+            />
+          </div>
+          <Button type="button" variant="outline" onClick={addSlot} disabled={!slotInput}>
+            <Plus className="mr-1 h-4 w-4" />
+            Add time
+          </Button>
+        </div>
+        <div className="flex flex-wrap items-end gap-2">
+          <div className="space-y-1">
+            <Label htmlFor="availability-date" className="text-xs">Availability on</Label>
+            <Input
+              id="availability-date"
+              type="date"
+              value={availabilityDate}
+              onChange={(e) => setAvailabilityDate(e.target.value)}
+              className="w-40"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="availability-from" className="text-xs">From</Label>
+            <Input
+              id="availability-from"
+              type="time"
+              value={availabilityFrom}
+              onChange={(e) => setAvailabilityFrom(e.target.value)}
+              className="w-28"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="availability-to" className="text-xs">To</Label>
+            <Input
+              id="availability-to"
+              type="time"
+              value={availabilityTo}
+              onChange={(e) => setAvailabilityTo(e.target.value)}
+              className="w-28"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="availability-break" className="text-xs">Break (min)</Label>
+            <Input
+              id="availability-break"
+              type="number"
+              min={0}
+              max={120}
+              value={breakMinutes}
+              onChange={(e) => setBreakMinutes(Math.max(0, Number(e.target.value)))}
+              className="w-24"
+            />
+          </div>
+          <Button type="button" variant="outline" onClick={addAvailability} disabled={!availabilityDate}>
+            <Plus className="mr-1 h-4 w-4" />
+            Add slots
+          </Button>
+        </div>
+
+        {slotStarts.length > 0 && (
+          <ul className="flex flex-wrap gap-2">
+            {slotStarts.map((startsAt) => (
+              <li key={startsAt} className="flex items-center gap-1 rounded-md border px-2 py-1 text-sm">
+                {formatDayInZone(startsAt, timeZone)}, {formatTimeInZone(startsAt, timeZone)}
+                <button
+                  type="button"
+                  onClick={() => setSlotStarts((prev) => prev.filter((start) => start !== startsAt))}
+                  aria-label="Remove time"
+                  className="text-muted-foreground hover:text-foreground"
+                >
+                  <X className="h-3 w-3" />
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {error && <p className="text-sm text-red-500">{error}</p>}
+      <div className="flex justify-end gap-2">
+        <Button variant="outline" onClick={onCancel} disabled={saving}>
+          Cancel
+        </Button>
+        <Button onClick={submit} disabled={saving || !title.trim() || slotStarts.length === 0}>
+          {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          {interview ? 'Send new times' : 'Send to candidate'}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,258 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { toast } from "sonner";
+import { repo } from "@/lib/supabase/client";
+import { getProfileName } from "@/lib/utils";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { InterviewForm, type InterviewPanelOption } from "@/components/interview-form";
+import { CalendarClock, CalendarPlus, Link2, Loader2, Plus, Users } from "lucide-react";
+import {
+  INTERVIEW_STATUS_LABELS,
+  getBookableSlots,
+  hasCalendarEvent,
+  isInterviewActive,
+  type InterviewWithDetails,
+} from "@/lib/interviews/scheduling";
+import { formatInTimeZone, getBrowserTimeZone } from "@/lib/interviews/time";
+import type { InterviewDetailsInput } from "@/lib/interviews/validation";
+
+interface InterviewSchedulerProps {
+  applicationId: string;
+  companyId: string;
+  jobTitle: string;
+  canManage: boolean;
+}
+
+// null: no form; 'new': proposing an interview; otherwise the interview being rescheduled
+type FormState = null | 'new' | InterviewWithDetails;
+
+/**
+ * Interviews for one application on the employer side: propose times and
+ * a panel, follow the candidate's booking, reschedule, cancel and download
+ * the calendar file.
+ */
+export function InterviewScheduler({ applicationId, companyId, jobTitle, canManage }: InterviewSchedulerProps) {
+  const [interviews, setInterviews] = useState<InterviewWithDetails[]>([]);
+  const [panelOptions, setPanelOptions] = useState<InterviewPanelOption[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [form, setForm] = useState<FormState>(null);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [cancellingId, setCancellingId] = useState<string | null>(null);
+  const [cancelReason, setCancelReason] = useState("");
+  const [viewerTimeZone, setViewerTimeZone] = useState('UTC');
+
+  const loadInterviews = useCallback(async () => {
+    try {
+      const [interviewRows, members] = await Promise.all([
+        repo.interviews.listForApplications([applicationId]),
+        repo.companyMembers.list(companyId),
+      ]);
+      const activeMembers = members.filter((member) => member.status === 'active');
+      const profiles = await repo.profiles.listByUserIds(activeMembers.map((member) => member.user_id));
+
+      setInterviews(interviewRows);
+      setPanelOptions(activeMembers.map((member) => {
+        const profile = profiles.find((candidate) => candidate.user_id === member.user_id);
+        return { userId: member.user_id, name: getProfileName(profile) || profile?.email || 'Team member' };
+      }));
+    } catch (error) {
+      console.error('Error loading interviews:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [applicationId, companyId]);
+
+  useEffect(() => {
+    setViewerTimeZone(getBrowserTimeZone());
+    loadInterviews();
+  }, [loadInterviews]);
+
+  const post = async (url: string, body: unknown) => {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+    const result = await response.json();
+    if (!response.ok) throw new Error(result.error || 'Something went wrong. Please try again.');
+    return result.data;
+  };
+
+  const submitForm = async (details: InterviewDetailsInput) => {
+    setSaving(true);
+    setFormError(null);
+    try {
+      if (form === 'new') {
+        await post('/api/interviews', { ...details, application_id: applicationId });
+        toast.success('Interview times sent to the candidate');
+      } else if (form) {
+        await post(`/api/interviews/${form.id}/reschedule`, details);
+        toast.success('New times sent to the candidate');
+      }
+      setForm(null);
+      await loadInterviews();
+    } catch (error) {
+      setFormError(error instanceof Error ? error.message : 'Something went wrong. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const cancelInterview = async (interviewId: string) => {
+    setSaving(true);
+    try {
+      await post(`/api/interviews/${interviewId}/cancel`, { reason: cancelReason || undefined });
+      toast.success('Interview cancelled');
+      setCancellingId(null);
+      setCancelReason("");
+      await loadInterviews();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to cancel the interview');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const copyBookingLink = async (interview: InterviewWithDetails) => {
+    await navigator.clipboard.writeText(new URL(`/interviews/${interview.booking_token}`, window.location.origin).toString());
+    toast.success('Booking link copied');
+  };
+
+  const panelNames = (interview: InterviewWithDetails) => interview.panelists
+    .map((panelist) => panelOptions.find((option) => option.userId === panelist.user_id)?.name)
+    .filter(Boolean)
+    .join(', ');
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <CalendarClock className="h-5 w-5" />
+              Interviews
+            </CardTitle>
+            <CardDescription>Times are shown in {viewerTimeZone}</CardDescription>
+          </div>
+          {canManage && form === null && (
+            <Button size="sm" onClick={() => { setFormError(null); setForm('new'); }}>
+              <Plus className="mr-1 h-4 w-4" />
+              Schedule interview
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {form !== null && (
+          <InterviewForm
+            key={form === 'new' ? 'new' : form.id}
+            defaultTitle={`Interview for ${jobTitle}`}
+            panelOptions={panelOptions}
+            interview={form === 'new' ? undefined : form}
+            saving={saving}
+            error={formError}
+            onSubmit={submitForm}
+            onCancel={() => setForm(null)}
+          />
+        )}
+
+        {loading ? (
+          <p className="text-sm text-muted-foreground">Loading interviews...</p>
+        ) : interviews.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No interviews yet.</p>
+        ) : (
+          interviews.map((interview) => (
+            <div key={interview.id} className="space-y-3 rounded-lg border p-4">
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <div className="flex flex-wrap items-center gap-2">
+                  <h3 className="font-medium">{interview.title}</h3>
+                  <Badge variant={interview.status === 'scheduled' ? 'default' : 'outline'}>
+                    {INTERVIEW_STATUS_LABELS[interview.status]}
+                  </Badge>
+                </div>
+                <span className="text-sm text-muted-foreground">{interview.duration_minutes} minutes</span>
+              </div>
+
+              {interview.starts_at && interview.status !== 'proposed' && (
+                <p className="text-sm">
+                  {formatInTimeZone(interview.starts_at, viewerTimeZone)}
+                  {interview.candidate_time_zone && interview.candidate_time_zone !== viewerTimeZone && (
+                    <span className="text-muted-foreground">
+                      {' '}• {formatInTimeZone(interview.starts_at, interview.candidate_time_zone)} for the candidate
+                    </span>
+                  )}
+                </p>
+              )}
+              {interview.status === 'proposed' && (
+                <p className="text-sm text-muted-foreground">
+                  {getBookableSlots(interview).length} of {interview.slots.length} offered times still open
+                </p>
+              )}
+              {interview.status === 'cancelled' && interview.cancel_reason && (
+                <p className="text-sm text-muted-foreground">Reason: {interview.cancel_reason}</p>
+              )}
+              {interview.panelists.length > 0 && (
+                <p className="flex items-center gap-2 text-sm text-muted-foreground">
+                  <Users className="h-4 w-4" />
+                  {panelNames(interview)}
+                </p>
+              )}
+
+              <div className="flex flex-wrap gap-2">
+                {hasCalendarEvent(interview) && interview.status !== 'proposed' && (
+                  <Button variant="outline" size="sm" asChild>
+                    <a href={`/api/interviews/${interview.id}/ics`}>
+                      <CalendarPlus className="mr-1 h-4 w-4" />
+                      Add to calendar
+                    </a>
+                  </Button>
+                )}
+                {canManage && isInterviewActive(interview) && (
+                  <>
+                    <Button variant="outline" size="sm" onClick={() => copyBookingLink(interview)}>
+                      <Link2 className="mr-1 h-4 w-4" />
+                      Copy booking link
+                    </Button>
+                    <Button variant="outline" size="sm" onClick={() => { setFormError(null); setForm(interview); }}>
+                      Reschedule
+                    </Button>
+                    <Button variant="outline" size="sm" onClick={() => setCancellingId(interview.id)}>
+                      Cancel
+                    </Button>
+                  </>
+                )}
+              </div>
+
+              {cancellingId === interview.id && (
+                <div className="space-y-2 border-t pt-3">
+                  <Label htmlFor={`cancel-reason-${interview.id}`}>Reason (optional, shared with the candidate)</Label>
+                  <Textarea
+                    id={`cancel-reason-${interview.id}`}
+                    value={cancelReason}
+                    onChange={(e) => setCancelReason(e.target.value)}
+                    rows={2}
+                  />
+                  <div className="flex justify-end gap-2">
+                    <Button variant="outline" size="sm" onClick={() => setCancellingId(null)} disabled={saving}>
+                      Back
+                    </Button>
+                    <Button variant="destructive" size="sm" onClick={() => cancelInterview(interview.id)} disabled={saving}>
+                      {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                      Cancel interview
+                    </Button>
+                  </div>
+                </div>
+              )}
+            </div>
+          ))
+        )}
+      </CardContent>
+    </Card>
+  );
+}
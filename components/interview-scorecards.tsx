@@ -0,0 +1,320 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { toast } from "sonner";
+import { repo } from "@/lib/supabase/client";
+import { getProfileName } from "@/lib/utils";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { ClipboardCheck, EyeOff, Loader2 } from "lucide-react";
+import {
+  APPLICATION_RATING_MAX,
+  HIRING_DECISION_LABELS,
+  HIRING_RECOMMENDATIONS,
+  HIRING_RECOMMENDATION_LABELS,
+  summariseScorecards,
+} from "@/lib/interviews/scorecards";
+import type {
+  HiringRecommendation,
+  InterviewScorecard,
+  ScorecardCompetency,
+} from "@/lib/types/enhanced-database";
+
+interface InterviewScorecardsProps {
+  applicationId: string;
+  userId: string;
+  // The overall rating this user may see, or null while it is hidden from them
+  onRatingChange?: (rating: number | null) => void;
+}
+
+interface ScorecardForm {
+  scores: Record<string, number | null>;
+  notes: Record<string, string>;
+  recommendation: HiringRecommendation | null;
+  summary: string;
+}
+
+const toForm = (scorecard: InterviewScorecard | undefined): ScorecardForm => ({
+  scores: Object.fromEntries((scorecard?.ratings ?? []).map((rating) => [rating.competency_id, rating.score])),
+  notes: Object.fromEntries((scorecard?.ratings ?? []).map((rating) => [rating.competency_id, rating.note ?? ''])),
+  recommendation: scorecard?.recommendation ?? null,
+  summary: scorecard?.summary ?? '',
+});
+
+const formatRating = (rating: number | null) =>
+  rating === null ? '—' : `${rating.toFixed(1)} / ${APPLICATION_RATING_MAX}`;
+
+const recommendationVariant = (recommendation: HiringRecommendation) =>
+  recommendation === 'strong_yes' || recommendation === 'yes' ? 'default' : 'destructive';
+
+/**
+ * Interview feedback for one application: the signed-in interviewer's own
+ * scorecard, and once they have submitted it, the rest of the panel's
+ * scorecards with the ratings and hire recommendation they add up to.
+ */
+export function InterviewScorecards({ applicationId, userId, onRatingChange }: InterviewScorecardsProps) {
+  const [scorecards, setScorecards] = useState<InterviewScorecard[]>([]);
+  const [names, setNames] = useState<Record<string, string>>({});
+  // The job's competencies; null when the user cannot give feedback
+  const [template, setTemplate] = useState<{ rating_scale: number; competencies: ScorecardCompetency[] } | null>(null);
+  const [onPanel, setOnPanel] = useState(false);
+  const [form, setForm] = useState<ScorecardForm>(toForm(undefined));
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState<'draft' | 'submit' | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadScorecards = useCallback(async () => {
+    try {
+      const [rows, interviews, response] = await Promise.all([
+        repo.interviewScorecards.listForApplication(applicationId),
+        repo.interviews.listForApplications([applicationId]),
+        fetch(`/api/applications/${applicationId}/scorecards`),
+      ]);
+      const profiles = await repo.profiles.listByUserIds(rows.map((row) => row.interviewer_id));
+
+      setScorecards(rows);
+      setNames(Object.fromEntries(profiles.map((profile) => [profile.user_id, getProfileName(profile) || profile.email || 'Interviewer'])));
+      setOnPanel(interviews.some((interview) =>
+        (interview.status === 'scheduled' || interview.status === 'completed')
+        && interview.panelists.some((panelist) => panelist.user_id === userId)
+      ));
+      setTemplate(response.ok ? (await response.json()).data : null);
+      setForm(toForm(rows.find((row) => row.interviewer_id === userId)));
+    } catch (error) {
+      console.error('Error loading scorecards:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [applicationId, userId]);
+
+  useEffect(() => {
+    loadScorecards();
+  }, [loadScorecards]);
+
+  const own = scorecards.find((scorecard) => scorecard.interviewer_id === userId);
+  const submitted = scorecards.filter((scorecard) => scorecard.status === 'submitted');
+  // Matches the read policy: interviewers see the others' feedback after giving theirs
+  const hidden = own?.status === 'draft' || (onPanel && own?.status !== 'submitted');
+  const summary = summariseScorecards(submitted);
+  const visibleRating = loading || hidden ? null : summary.overall_rating;
+
+  useEffect(() => {
+    onRatingChange?.(visibleRating);
+  }, [onRatingChange, visibleRating]);
+
+  const save = async (submit: boolean) => {
+    if (!template) return;
+    setSaving(submit ? 'submit' : 'draft');
+    setError(null);
+    try {
+      const response = await fetch(`/api/applications/${applicationId}/scorecards`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          scores: template.competencies.map((competency) => ({
+            competency_id: competency.id,
+            score: form.scores[competency.id] ?? null,
+            note: form.notes[competency.id]?.trim() || undefined,
+          })),
+          recommendation: form.recommendation,
+          summary: form.summary.trim() || null,
+          submit,
+        }),
+      });
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error || 'Something went wrong. Please try again.');
+
+      toast.success(submit ? 'Scorecard submitted' : 'Draft saved');
+      // Submitting may reveal the rest of the panel's scorecards
+      await loadScorecards();
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to save scorecard');
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <Card>
+        <CardContent className="flex justify-center py-8">
+          <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const canEdit = template !== null && own?.status !== 'submitted';
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ClipboardCheck className="h-5 w-5" />
+          Interview Feedback
+        </CardTitle>
+        <CardDescription>
+          {summary.submitted === 0
+            ? 'No scorecards submitted yet'
+            : `${summary.submitted} scorecard${summary.submitted === 1 ? '' : 's'} submitted`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {hidden ? (
+          <div className="flex items-start gap-3 rounded-lg border border-dashed p-4 text-sm text-muted-foreground">
+            <EyeOff className="h-4 w-4 mt-0.5 shrink-0" />
+            Submit your scorecard to see the rest of the panel&apos;s feedback and the candidate&apos;s ratings.
+          </div>
+        ) : (
+          <>
+            <div className="grid gap-4 sm:grid-cols-3">
+              {[
+                ['Overall', summary.overall_rating],
+                ['Technical', summary.technical_rating],
+                ['Communication', summary.communication_rating],
+              ].map(([label, rating]) => (
+                <div key={label} className="rounded-lg border p-3">
+                  <p className="text-sm text-muted-foreground">{label}</p>
+                  <p className="text-2xl font-semibold">{formatRating(rating as number | null)}</p>
+                </div>
+              ))}
+            </div>
+
+            {summary.decision && (
+              <div className="flex flex-wrap items-center gap-2">
+                <span className="font-medium">{HIRING_DECISION_LABELS[summary.decision]}</span>
+                {HIRING_RECOMMENDATIONS.filter((recommendation) => summary.recommendations[recommendation] > 0)
+                  .reverse()
+                  .map((recommendation) => (
+                    <Badge key={recommendation} variant="outline">
+                      {HIRING_RECOMMENDATION_LABELS[recommendation]}: {summary.recommendations[recommendation]}
+                    </Badge>
+                  ))}
+              </div>
+            )}
+
+            {submitted.map((scorecard) => (
+              <div key={scorecard.id} className="space-y-2 rounded-lg border p-4">
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <div>
+                    <p className="font-medium">
+                      {scorecard.interviewer_id === userId ? 'You' : names[scorecard.interviewer_id] ?? 'Interviewer'}
+                    </p>
+                    {scorecard.submitted_at && (
+                      <p className="text-xs text-muted-foreground">
+                        Submitted {new Date(scorecard.submitted_at).toLocaleString()}
+                      </p>
+                    )}
+                  </div>
+                  {scorecard.recommendation && (
+                    <Badge variant={recommendationVariant(scorecard.recommendation)}>
+                      {HIRING_RECOMMENDATION_LABELS[scorecard.recommendation]}
+                    </Badge>
+                  )}
+                </div>
+                <ul className="grid gap-1 text-sm sm:grid-cols-2">
+                  {scorecard.ratings.map((rating) => (
+                    <li key={rating.competency_id}>
+                      <span className="text-muted-foreground">{rating.name}:</span>{' '}
+                      {rating.score ?? '—'} / {scorecard.rating_scale}
+                      {rating.note && <span className="block text-xs text-muted-foreground">{rating.note}</span>}
+                    </li>
+                  ))}
+                </ul>
+                {scorecard.summary && <p className="text-sm whitespace-pre-wrap">{scorecard.summary}</p>}
+              </div>
+            ))}
+          </>
+        )}
+
+        {canEdit && (
+          <div className="space-y-4 rounded-lg border p-4">
+            <div>
+              <h4 className="font-medium">Your Scorecard</h4>
+              <p className="text-sm text-muted-foreground">
+                Rate each competency from 1 to {template.rating_scale}. Drafts are only visible to you.
+              </p>
+            </div>
+
+            {template.competencies.map((competency) => (
+              <div key={competency.id} className="space-y-2">
+                <div>
+                  <Label>{competency.name}</Label>
+                  {competency.description && (
+                    <p className="text-xs text-muted-foreground">{competency.description}</p>
+                  )}
+                </div>
+                <div className="flex flex-wrap gap-1">
+                  {Array.from({ length: template.rating_scale }, (_, i) => i + 1).map((score) => (
+                    <Button
+                      key={score}
+                      type="button"
+                      size="sm"
+                      variant={form.scores[competency.id] === score ? 'default' : 'outline'}
+                      onClick={() => setForm((prev) => ({ ...prev, scores: { ...prev.scores, [competency.id]: score } }))}
+                    >
+                      {score}
+                    </Button>
+                  ))}
+                </div>
+                <Input
+                  value={form.notes[competency.id] ?? ''}
+                  onChange={(e) => setForm((prev) => ({ ...prev, notes: { ...prev.notes, [competency.id]: e.target.value } }))}
+                  placeholder="Evidence (optional)"
+                  aria-label={`${competency.name} evidence`}
+                  maxLength={1000}
+                />
+              </div>
+            ))}
+
+            <div className="space-y-2">
+              <Label>Recommendation</Label>
+              <div className="flex flex-wrap gap-2">
+                {HIRING_RECOMMENDATIONS.map((recommendation) => (
+                  <Button
+                    key={recommendation}
+                    type="button"
+                    size="sm"
+                    variant={form.recommendation === recommendation ? 'default' : 'outline'}
+                    onClick={() => setForm((prev) => ({ ...prev, recommendation }))}
+                  >
+                    {HIRING_RECOMMENDATION_LABELS[recommendation]}
+                  </Button>
+                ))}
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="scorecard-summary">Summary</Label>
+              <Textarea
+                id="scorecard-summary"
+                value={form.summary}
+                onChange={(e) => setForm((prev) => ({ ...prev, summary: e.target.value }))}
+                placeholder="Strengths, concerns and anything the next interviewer should probe"
+                rows={4}
+                maxLength={5000}
+              />
+            </div>
+
+            {error && <p className="text-sm text-destructive">{error}</p>}
+
+            <div className="flex flex-wrap justify-end gap-2">
+              <Button type="button" variant="outline" onClick={() => save(false)} disabled={saving !== null}>
+                {saving === 'draft' && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Save Draft
+              </Button>
+              <Button type="button" onClick={() => save(true)} disabled={saving !== null}>
+                {saving === 'submit' && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Submit Scorecard
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,1028 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { useRouter } from "next/navigation";
+import Link from "next/link";
+import { toast } from "sonner";
+import { repo } from "@/lib/supabase/client";
+import { HIRING_ROLES } from "@/lib/supabase/repository";
+import { getAbsoluteUrl } from "@/lib/utils";
+import { SENIORITY_LABELS, WORK_ARRANGEMENT_LABELS, getEmploymentTypeLabel } from "@/lib/jobs/format";
+import {
+  EMPLOYMENT_TYPES,
+  JOB_VISIBILITIES,
+  JobPostingDraftSchema,
+  JobPostingSchema,
+  SALARY_PERIODS,
+  SENIORITY_LEVELS,
+  WORK_ARRANGEMENTS,
+  getFieldErrors,
+  type JobPostingValues,
+} from "@/lib/jobs/validation";
+import {
+  JOB_STATUS_LABELS,
+  getAvailableJobActions,
+  getJobActionLabel,
+  planJobStatusChange,
+  type JobStatusAction,
+} from "@/lib/jobs/lifecycle";
+import {
+  CRITERION_WEIGHTS,
+  buildRoleCriteria,
+  getDefaultWeight,
+  getSkillKey,
+  getSkillWeights,
+} from "@/lib/applications/matching";
+import {
+  extractVariables,
+  getDefaultContractTemplate,
+  getMissingJobFields,
+  getVariableLabel,
+  isCustomVariable,
+} from "@/lib/contracts/templates";
+import type { ContractTemplate, EmploymentType, JobOpeningEnhanced, ScreeningQuestion } from "@/lib/types/enhanced-database";
+import { ScreeningQuestionsBuilder } from "@/components/screening-questions-builder";
+import { SkillInput } from "@/components/skill-input";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Briefcase,
+  MapPin,
+  Calendar,
+  DollarSign,
+  Users,
+  FileText,
+  Settings,
+  Sparkles,
+  Link as LinkIcon,
+  ListChecks,
+  Loader2,
+  FileSignature
+} from "lucide-react";
+
+// Form state keeps numeric inputs as strings so fields can be cleared while typing
+interface JobFormData {
+  company_id: string;
+  title: string;
+  description: string;
+  responsibilities: string;
+  requirements: string;
+  employment_type: string;
+  work_arrangement: string;
+  seniority_level: string;
+  location: string;
+  salary_min: string;
+  salary_max: string;
+  salary_currency: string;
+  salary_period: string;
+  positions_available: string;
+  application_deadline: string;
+  required_skills: string[];
+  preferred_skills: string[];
+  min_years_experience: string;
+  requires_cover_letter: boolean;
+  requires_assessment: boolean;
+  assessment_id: string;
+  screening_questions: ScreeningQuestion[];
+  contract_template_id: string;
+  contract_variables: Record<string, string>;
+  visibility: string;
+}
+
+const SALARY_PERIOD_LABELS: Record<typeof SALARY_PERIODS[number], string> = {
+  hourly: 'Per hour',
+  monthly: 'Per month',
+  annually: 'Per year',
+};
+
+const VISIBILITY_LABELS: Record<typeof JOB_VISIBILITIES[number], string> = {
+  public: 'Public - listed on the job board',
+  private: 'Private - only people with the link',
+  internal: 'Internal - company members only',
+};
+
+// datetime-local inputs work in local time without a timezone suffix
+const toDateTimeLocal = (iso: string | null) => {
+  if (!iso) return "";
+  const date = new Date(iso);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+};
+
+const toFormData = (job?: JobOpeningEnhanced | null): JobFormData => ({
+  company_id: job?.company_id ?? "",
+  title: job?.title ?? "",
+  description: job?.description ?? "",
+  responsibilities: job?.responsibilities ?? "",
+  requirements: job?.requirements ?? "",
+  employment_type: job?.employment_type ?? "",
+  work_arrangement: job?.work_arrangement ?? "onsite",
+  seniority_level: job?.seniority_level ?? "",
+  location: job?.location ?? "",
+  salary_min: job?.salary_min?.toString() ?? "",
+  salary_max: job?.salary_max?.toString() ?? "",
+  salary_currency: job?.salary_currency ?? "USD",
+  salary_period: job?.salary_period ?? "annually",
+  positions_available: job?.positions_available?.toString() ?? "1",
+  application_deadline: toDateTimeLocal(job?.application_deadline ?? null),
+  required_skills: job?.required_skills ?? [],
+  preferred_skills: job?.preferred_skills ?? [],
+  min_years_experience: job?.min_years_experience?.toString() ?? "0",
+  requires_cover_letter: job?.requires_cover_letter ?? false,
+  requires_assessment: job?.requires_assessment ?? false,
+  assessment_id: job?.assessment_id ?? "",
+  screening_questions: job?.screening_questions ?? [],
+  contract_template_id: job?.contract_template_id ?? "",
+  contract_variables: job?.contract_variables ?? {},
+  visibility: job?.visibility ?? "public",
+});
+
+const optionalText = (value: string) => value.trim() || null;
+const optionalNumber = (value: string) => (value.trim() === "" ? null : Number(value));
+
+// Shape the form for the zod schemas; anything left blank becomes null
+const toPostingInput = (form: JobFormData) => ({
+  company_id: form.company_id,
+  title: form.title,
+  description: form.description,
+  responsibilities: optionalText(form.responsibilities),
+  requirements: optionalText(form.requirements),
+  employment_type: form.employment_type || undefined,
+  work_arrangement: form.work_arrangement,
+  seniority_level: form.seniority_level || null,
+  location: optionalText(form.location),
+  salary_min: optionalNumber(form.salary_min),
+  salary_max: optionalNumber(form.salary_max),
+  salary_currency: form.salary_currency.toUpperCase(),
+  salary_period: form.salary_period,
+  positions_available: optionalNumber(form.positions_available) ?? 1,
+  application_deadline: form.application_deadline
+    ? new Date(form.application_deadline).toISOString()
+    : null,
+  required_skills: form.required_skills,
+  preferred_skills: form.preferred_skills,
+  min_years_experience: optionalNumber(form.min_years_experience) ?? 0,
+  requires_cover_letter: form.requires_cover_letter,
+  requires_assessment: form.requires_assessment,
+  assessment_id: form.requires_assessment ? form.assessment_id || null : null,
+  screening_questions: form.screening_questions,
+  contract_template_id: form.contract_template_id || null,
+  contract_variables: Object.fromEntries(
+    Object.entries(form.contract_variables).filter(([, value]) => value.trim())
+  ),
+  visibility: form.visibility,
+});
+
+function FieldError({ message }: { message?: string }) {
+  return message ? <p className="text-sm text-red-500">{message}</p> : null;
+}
+
+interface JobPostingEditorProps {
+  userId: string;
+  job?: JobOpeningEnhanced | null;
+}
+
+export function JobPostingEditor({ userId, job: initialJob }: JobPostingEditorProps) {
+  const router = useRouter();
+  const [job, setJob] = useState<JobOpeningEnhanced | null>(initialJob ?? null);
+  const [companies, setCompanies] = useState<Array<{ id: string; name: string }>>([]);
+  const [assessments, setAssessments] = useState<Array<{ id: string; title: string }>>([]);
+  const [contractTemplates, setContractTemplates] = useState<ContractTemplate[]>([]);
+  const [formData, setFormData] = useState<JobFormData>(() => toFormData(initialJob));
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  // Match weights by skill, saved to role_criteria with the posting
+  const [skillWeights, setSkillWeights] = useState<Record<string, number>>({});
+  const [generateLink, setGenerateLink] = useState(true);
+  const [saving, setSaving] = useState<'draft' | 'save' | JobStatusAction | null>(null);
+
+  const status = job?.status ?? 'draft';
+
+  useEffect(() => {
+    const loadCompanies = async () => {
+      try {
+        const data = (await repo.companies.listForUser(userId))
+          .filter((company) => HIRING_ROLES.includes(company.role));
+        setCompanies(data);
+
+        // If user has only one company, auto-select it
+        if (data.length === 1) {
+          setFormData((prev) => (prev.company_id ? prev : { ...prev, company_id: data[0].id }));
+        }
+      } catch (error) {
+        console.error('Error loading companies:', error);
+      }
+    };
+
+    loadCompanies();
+  }, [userId]);
+
+  const jobId = job?.id;
+  useEffect(() => {
+    if (!jobId) return;
+
+    const loadSkillWeights = async () => {
+      try {
+        setSkillWeights(getSkillWeights(await repo.roleCriteria.listForJobs([jobId])));
+      } catch (error) {
+        console.error('Error loading match weights:', error);
+      }
+    };
+
+    loadSkillWeights();
+  }, [jobId]);
+
+  // Assessments the company has authored, plus the public library
+  useEffect(() => {
+    if (!formData.company_id) return;
+
+    const loadAssessments = async () => {
+      try {
+        // Public assessments are only readable through the API, without their answer keys
+        const [companyAssessments, publicAssessments] = await Promise.all([
+          repo.assessments.listForCompany(formData.company_id),
+          fetch('/api/assessments')
+            .then((response) => response.json())
+            .then((body): Array<{ id: string; title: string }> => body.data ?? []),
+        ]);
+        const seen = new Set<string>();
+        const activeCompanyAssessments = companyAssessments.filter((assessment) => !assessment.archived_at);
+        setAssessments([...activeCompanyAssessments, ...publicAssessments].filter((assessment) => {
+          if (seen.has(assessment.id)) return false;
+          seen.add(assessment.id);
+          return true;
+        }));
+      } catch (error) {
+        console.error('Error loading assessments:', error);
+      }
+    };
+
+    loadAssessments();
+  }, [formData.company_id]);
+
+  useEffect(() => {
+    if (!formData.company_id) return;
+
+    const loadContractTemplates = async () => {
+      try {
+        setContractTemplates(await repo.contractTemplates.listForCompany(formData.company_id));
+      } catch (error) {
+        console.error('Error loading contract templates:', error);
+      }
+    };
+
+    loadContractTemplates();
+  }, [formData.company_id]);
+
+  const handleInputChange = <K extends keyof JobFormData>(field: K, value: JobFormData[K]) => {
+    setFormData((prev) => ({ ...prev, [field]: value }));
+    // Clear the field's errors, including nested ones like screening_questions.0.question
+    setErrors((prev) => Object.fromEntries(
+      Object.entries(prev).filter(([key]) => key !== field && !key.startsWith(`${field}.`))
+    ));
+  };
+
+  // New postings follow the company's default contract for the employment
+  // type, unless another template was picked by hand
+  const handleEmploymentTypeChange = (value: string) => {
+    handleInputChange('employment_type', value);
+    if (job) return;
+
+    const previousDefault = formData.employment_type
+      ? getDefaultContractTemplate(contractTemplates, formData.employment_type as EmploymentType)
+      : null;
+    if (!formData.contract_template_id || formData.contract_template_id === previousDefault?.id) {
+      handleInputChange('contract_template_id', getDefaultContractTemplate(contractTemplates, value as EmploymentType)?.id ?? "");
+    }
+  };
+
+  const contractTemplate = contractTemplates.find((template) => template.id === formData.contract_template_id) ?? null;
+  const contractFields = contractTemplate
+    ? extractVariables(contractTemplate.template_content).filter(isCustomVariable)
+    : [];
+
+  /**
+   * Validate and write the form. Drafts use the relaxed schema; anything
+   * that is (or is about to be) live must pass the full one.
+   */
+  const savePosting = async (strict: boolean): Promise<JobOpeningEnhanced | null> => {
+    const schema = strict ? JobPostingSchema : JobPostingDraftSchema;
+    const parsed = schema.safeParse(toPostingInput(formData));
+    if (!parsed.success) {
+      setErrors(getFieldErrors(parsed.error));
+      toast.error('Please fix the highlighted fields.');
+      return null;
+    }
+
+    // A live posting must be able to issue its contract to applicants
+    if (strict && contractTemplate) {
+      const company = companies.find((c) => c.id === parsed.data.company_id) ?? null;
+      const missing = getMissingJobFields(contractTemplate, parsed.data as JobPostingValues, company);
+      if (missing.length > 0) {
+        const fromPosting = missing.filter((field) => !isCustomVariable(field));
+        setErrors(Object.fromEntries([
+          ...missing.filter(isCustomVariable).map((field) => [`contract_variables.${field}`, 'The contract requires this.']),
+          ...(fromPosting.length > 0
+            ? [['contract_template_id', `The contract requires ${fromPosting.map(getVariableLabel).join(', ')} from the posting.`]]
+            : []),
+        ]));
+        toast.error('Please fix the highlighted fields.');
+        return null;
+      }
+    }
+    setErrors({});
+
+    const { company_id, ...values } = parsed.data;
+
+    let saved: JobOpeningEnhanced;
+    if (job) {
+      saved = await repo.jobOpenings.update(job.id, values);
+    } else {
+      saved = await repo.jobOpenings.create({
+        ...values,
+        company_id,
+        created_by: userId,
+        description: values.description ?? '',
+        status: 'draft',
+      });
+
+      // The application link needs the job ID, so it is set after insert
+      if (generateLink) {
+        saved = await repo.jobOpenings.update(saved.id, {
+          application_link: getAbsoluteUrl(`/apply/${saved.id}`),
+        });
+      }
+    }
+
+    // Criteria take precedence over the skill lists when matching, so they
+    // are rewritten on every save to stay in step
+    await repo.roleCriteria.replaceForJob(
+      saved.id,
+      buildRoleCriteria(saved.required_skills ?? [], saved.preferred_skills ?? [], skillWeights)
+    );
+
+    return saved;
+  };
+
+  const handleSave = async (mode: 'draft' | 'save') => {
+    setSaving(mode);
+    try {
+      const saved = await savePosting(mode === 'save' && status !== 'draft');
+      if (!saved) return;
+
+      setJob(saved);
+      toast.success(mode === 'draft' ? 'Draft saved' : 'Job posting updated');
+      if (!job) {
+        router.replace(`/protected/employer/jobs/${saved.id}/edit`);
+      }
+    } catch (error) {
+      console.error('Error saving job posting:', error);
+      toast.error('Failed to save job posting. Please try again.');
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  const handleStatusAction = async (action: JobStatusAction) => {
+    setSaving(action);
+    try {
+      // Publishing saves pending edits first and requires a complete posting
+      const saved = action === 'publish' ? await savePosting(true) : job;
+      if (!saved) return;
+
+      const updated = await repo.jobOpenings.update(saved.id, planJobStatusChange(saved, action));
+      setJob(updated);
+      toast.success(`Job posting ${JOB_STATUS_LABELS[updated.status].toLowerCase()}`);
+      if (!job) {
+        router.replace(`/protected/employer/jobs/${updated.id}/edit`);
+      }
+    } catch (error) {
+      console.error('Error changing job posting status:', error);
+      toast.error('Failed to update job posting status. Please try again.');
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  // The builder reports errors relative to its own list
+  const screeningErrors = Object.fromEntries(
+    Object.entries(errors)
+      .filter(([field]) => field.startsWith('screening_questions.'))
+      .map(([field, message]) => [field.slice('screening_questions.'.length), message])
+  );
+
+  const isSaving = saving !== null;
+  const availableActions = job ? getAvailableJobActions(status) : (['publish'] as JobStatusAction[]);
+
+  return (
+    <div className="max-w-4xl mx-auto p-6 space-y-8">
+      <div className="flex items-center justify-between gap-4">
+        <div className="flex items-center gap-2">
+          <Briefcase className="h-6 w-6" />
+          <h1 className="text-3xl font-bold">{job ? 'Edit Job Opening' : 'Create Job Opening'}</h1>
+          <Badge variant={status === 'active' ? 'default' : 'secondary'}>
+            {JOB_STATUS_LABELS[status]}
+          </Badge>
+        </div>
+        {job?.published_at && (
+          <p className="text-sm text-muted-foreground">
+            First published {new Date(job.published_at).toLocaleDateString()}
+          </p>
+        )}
+      </div>
+
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          handleSave(status === 'draft' ? 'draft' : 'save');
+        }}
+        className="space-y-6"
+      >
+        {/* Company Selection */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Settings className="h-5 w-5" />
+              Company Information
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="company">Company *</Label>
+              <Select
+                value={formData.company_id}
+                onValueChange={(value) => handleInputChange('company_id', value)}
+                disabled={!!job}
+              >
+                <SelectTrigger id="company">
+                  <SelectValue placeholder="Select a company" />
+                </SelectTrigger>
+                <SelectContent>
+                  {companies.map((company) => (
+                    <SelectItem key={company.id} value={company.id}>
+                      {company.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <FieldError message={errors.company_id} />
+              {companies.length === 0 && (
+                <p className="text-sm text-muted-foreground">
+                  No companies found. Please create a company first.
+                </p>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Role */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Briefcase className="h-5 w-5" />
+              Role
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="title">Job Title *</Label>
+                <Input
+                  id="title"
+                  value={formData.title}
+                  onChange={(e) => handleInputChange('title', e.target.value)}
+                  placeholder="e.g. Senior Software Engineer"
+                />
+                <FieldError message={errors.title} />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="employment_type">Employment Type *</Label>
+                <Select
+                  value={formData.employment_type}
+                  onValueChange={handleEmploymentTypeChange}
+                >
+                  <SelectTrigger id="employment_type">
+                    <SelectValue placeholder="Select employment type" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {EMPLOYMENT_TYPES.map((type) => (
+                      <SelectItem key={type} value={type}>
+                        {getEmploymentTypeLabel(type)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FieldError message={errors.employment_type} />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="work_arrangement">Work Arrangement</Label>
+                <Select
+                  value={formData.work_arrangement}
+                  onValueChange={(value) => handleInputChange('work_arrangement', value)}
+                >
+                  <SelectTrigger id="work_arrangement">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {WORK_ARRANGEMENTS.map((arrangement) => (
+                      <SelectItem key={arrangement} value={arrangement}>
+                        {WORK_ARRANGEMENT_LABELS[arrangement]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="seniority_level">Seniority</Label>
+                <Select
+                  value={formData.seniority_level}
+                  onValueChange={(value) => handleInputChange('seniority_level', value)}
+                >
+                  <SelectTrigger id="seniority_level">
+                    <SelectValue placeholder="Select seniority" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {SENIORITY_LEVELS.map((level) => (
+                      <SelectItem key={level} value={level}>
+                        {SENIORITY_LABELS[level]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="location" className="flex items-center gap-1">
+                  <MapPin className="h-4 w-4" />
+                  Location
+                </Label>
+                <Input
+                  id="location"
+                  value={formData.location}
+                  onChange={(e) => handleInputChange('location', e.target.value)}
+                  placeholder="e.g. Nairobi, Kenya"
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="positions" className="flex items-center gap-1">
+                  <Users className="h-4 w-4" />
+                  Positions Available
+                </Label>
+                <Input
+                  id="positions"
+                  type="number"
+                  min="1"
+                  value={formData.positions_available}
+                  onChange={(e) => handleInputChange('positions_available', e.target.value)}
+                />
+                <FieldError message={errors.positions_available} />
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Compensation */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <DollarSign className="h-5 w-5" />
+              Compensation
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="salary_min">Minimum</Label>
+                <Input
+                  id="salary_min"
+                  type="number"
+                  min="0"
+                  value={formData.salary_min}
+                  onChange={(e) => handleInputChange('salary_min', e.target.value)}
+                  placeholder="e.g. 80000"
+                />
+                <FieldError message={errors.salary_min} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="salary_max">Maximum</Label>
+                <Input
+                  id="salary_max"
+                  type="number"
+                  min="0"
+                  value={formData.salary_max}
+                  onChange={(e) => handleInputChange('salary_max', e.target.value)}
+                  placeholder="e.g. 120000"
+                />
+                <FieldError message={errors.salary_max} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="salary_currency">Currency</Label>
+                <Input
+                  id="salary_currency"
+                  value={formData.salary_currency}
+                  onChange={(e) => handleInputChange('salary_currency', e.target.value)}
+                  maxLength={3}
+                  placeholder="USD"
+                />
+                <FieldError message={errors.salary_currency} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="salary_period">Period</Label>
+                <Select
+                  value={formData.salary_period}
+                  onValueChange={(value) => handleInputChange('salary_period', value)}
+                >
+                  <SelectTrigger id="salary_period">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {SALARY_PERIODS.map((period) => (
+                      <SelectItem key={period} value={period}>
+                        {SALARY_PERIOD_LABELS[period]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Description */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <FileText className="h-5 w-5" />
+              Job Description
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="description">Description *</Label>
+              <Textarea
+                id="description"
+                value={formData.description}
+                onChange={(e) => handleInputChange('description', e.target.value)}
+                placeholder="Describe the role and what makes this opportunity exciting..."
+                rows={6}
+              />
+              <FieldError message={errors.description} />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="responsibilities">Responsibilities</Label>
+              <Textarea
+                id="responsibilities"
+                value={formData.responsibilities}
+                onChange={(e) => handleInputChange('responsibilities', e.target.value)}
+                placeholder="What will this person do day to day?"
+                rows={4}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="requirements">Requirements</Label>
+              <Textarea
+                id="requirements"
+                value={formData.requirements}
+                onChange={(e) => handleInputChange('requirements', e.target.value)}
+                placeholder="List the qualifications needed for this role..."
+                rows={4}
+              />
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Skills & Experience */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Sparkles className="h-5 w-5" />
+              Skills & Experience
+            </CardTitle>
+            <CardDescription>
+              Press Enter after each skill. Skills are used to match candidates to this role.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="required_skills">Required Skills</Label>
+              <SkillInput
+                id="required_skills"
+                skills={formData.required_skills}
+                onChange={(skills) => handleInputChange('required_skills', skills)}
+                placeholder="e.g. TypeScript"
+              />
+              <FieldError message={errors.required_skills} />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="preferred_skills">Preferred Skills</Label>
+              <SkillInput
+                id="preferred_skills"
+                skills={formData.preferred_skills}
+                onChange={(skills) => handleInputChange('preferred_skills', skills)}
+                placeholder="e.g. GraphQL"
+              />
+              <FieldError message={errors.preferred_skills} />
+            </div>
+
+            {formData.required_skills.length + formData.preferred_skills.length > 0 && (
+              <div className="space-y-2">
+                <Label>Match Weighting</Label>
+                <p className="text-sm text-muted-foreground">
+                  How much each skill counts towards an applicant&apos;s match score.
+                </p>
+                <div className="divide-y rounded-lg border">
+                  {[
+                    ...formData.required_skills.map((skill) => ({ skill, required: true })),
+                    ...formData.preferred_skills.map((skill) => ({ skill, required: false })),
+                  ].map(({ skill, required }) => (
+                    <div key={`${required}-${skill}`} className="flex items-center justify-between gap-4 px-3 py-2">
+                      <div className="flex items-center gap-2 text-sm">
+                        {skill}
+                        <Badge variant={required ? 'default' : 'outline'} className="text-xs">
+                          {required ? 'Required' : 'Preferred'}
+                        </Badge>
+                      </div>
+                      <Select
+                        value={String(skillWeights[getSkillKey(skill)] ?? getDefaultWeight(required))}
+                        onValueChange={(value) => setSkillWeights((prev) => ({ ...prev, [getSkillKey(skill)]: Number(value) }))}
+                      >
+                        <SelectTrigger className="w-32">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {CRITERION_WEIGHTS.map((weight) => (
+                            <SelectItem key={weight.value} value={String(weight.value)}>
+                              {weight.label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            <div className="space-y-2 md:w-1/2">
+              <Label htmlFor="min_years_experience">Minimum Years of Experience</Label>
+              <Input
+                id="min_years_experience"
+                type="number"
+                min="0"
+                value={formData.min_years_experience}
+                onChange={(e) => handleInputChange('min_years_experience', e.target.value)}
+              />
+              <FieldError message={errors.min_years_experience} />
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Screening Questions */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <ListChecks className="h-5 w-5" />
+              Screening Questions
+            </CardTitle>
+            <CardDescription>
+              Candidates answer these after uploading their CV. Knock-out questions reject applications that do not meet a hard requirement.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ScreeningQuestionsBuilder
+              questions={formData.screening_questions}
+              onChange={(questions) => handleInputChange('screening_questions', questions)}
+              errors={screeningErrors}
+            />
+            <FieldError message={errors.screening_questions} />
+          </CardContent>
+        </Card>
+
+        {/* Contract */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <FileSignature className="h-5 w-5" />
+              Contract
+            </CardTitle>
+            <CardDescription>
+              Candidates review and sign this contract while applying. Manage templates under{' '}
+              <Link href="/protected/employer/contracts" className="underline">Contracts</Link>.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="space-y-2 md:w-1/2">
+              <Label htmlFor="contract_template">Template</Label>
+              <Select
+                value={formData.contract_template_id || 'none'}
+                onValueChange={(value) => handleInputChange('contract_template_id', value === 'none' ? "" : value)}
+              >
+                <SelectTrigger id="contract_template">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">No contract</SelectItem>
+                  {contractTemplates
+                    .filter((template) => template.is_active || template.id === formData.contract_template_id)
+                    .map((template) => (
+                      <SelectItem key={template.id} value={template.id}>
+                        {template.name}
+                        {!template.is_active && ' (inactive)'}
+                      </SelectItem>
+                    ))}
+                </SelectContent>
+              </Select>
+              <FieldError message={errors.contract_template_id} />
+              {contractTemplate && !contractTemplate.is_active && (
+                <p className="text-sm text-muted-foreground">
+                  This template is inactive, so candidates will not be asked to sign it.
+                </p>
+              )}
+            </div>
+
+            {contractFields.length > 0 && (
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {contractFields.map((field) => (
+                  <div key={field} className="space-y-2">
+                    <Label htmlFor={`contract-${field}`}>
+                      {getVariableLabel(field)}
+                      {contractTemplate?.required_fields.includes(field) && ' *'}
+                    </Label>
+                    <Input
+                      id={`contract-${field}`}
+                      value={formData.contract_variables[field] ?? ""}
+                      onChange={(e) => handleInputChange('contract_variables', {
+                        ...formData.contract_variables,
+                        [field]: e.target.value,
+                      })}
+                      placeholder={contractTemplate?.variables[field] || `{${field}}`}
+                      maxLength={500}
+                    />
+                    <FieldError message={errors[`contract_variables.${field}`]} />
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Application Settings */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <LinkIcon className="h-5 w-5" />
+              Application Settings
+            </CardTitle>
+            <CardDescription>
+              Configure who can see this posting and how candidates apply
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="visibility">Visibility</Label>
+                <Select
+                  value={formData.visibility}
+                  onValueChange={(value) => handleInputChange('visibility', value)}
+                >
+                  <SelectTrigger id="visibility">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {JOB_VISIBILITIES.map((visibility) => (
+                      <SelectItem key={visibility} value={visibility}>
+                        {VISIBILITY_LABELS[visibility]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="deadline" className="flex items-center gap-1">
+                  <Calendar className="h-4 w-4" />
+                  Application Deadline
+                </Label>
+                <Input
+                  id="deadline"
+                  type="datetime-local"
+                  value={formData.application_deadline}
+                  onChange={(e) => handleInputChange('application_deadline', e.target.value)}
+                />
+              </div>
+            </div>
+
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id="requires-cover-letter"
+                checked={formData.requires_cover_letter}
+                onCheckedChange={(checked) => handleInputChange('requires_cover_letter', checked === true)}
+              />
+              <Label htmlFor="requires-cover-letter">Require a cover letter</Label>
+            </div>
+
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id="requires-assessment"
+                checked={formData.requires_assessment}
+                onCheckedChange={(checked) => handleInputChange('requires_assessment', checked === true)}
+              />
+              <Label htmlFor="requires-assessment">Require a skills assessment</Label>
+            </div>
+
+            {formData.requires_assessment && (
+              <div className="space-y-2 md:w-1/2">
+                <Label htmlFor="assessment">Assessment</Label>
+                <Select
+                  value={formData.assessment_id}
+                  onValueChange={(value) => handleInputChange('assessment_id', value)}
+                >
+                  <SelectTrigger id="assessment">
+                    <SelectValue placeholder="Select an assessment" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {assessments.map((assessment) => (
+                      <SelectItem key={assessment.id} value={assessment.id}>
+                        {assessment.title}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FieldError message={errors.assessment_id} />
+                {assessments.length === 0 && (
+                  <p className="text-sm text-muted-foreground">
+                    No assessments available for this company yet.
+                  </p>
+                )}
+              </div>
+            )}
+
+            {job ? (
+              job.application_link && (
+                <p className="text-sm text-muted-foreground">
+                  Application link: <span className="font-mono">{job.application_link}</span>
+                </p>
+              )
+            ) : (
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id="generate-link"
+                  checked={generateLink}
+                  onCheckedChange={(checked) => setGenerateLink(checked as boolean)}
+                />
+                <Label htmlFor="generate-link">
+                  Generate application link automatically
+                </Label>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Actions */}
+        <div className="flex flex-wrap justify-end gap-4">
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => router.push('/protected/employer')}
+            disabled={isSaving}
+          >
+            {job ? 'Back to Dashboard' : 'Cancel'}
+          </Button>
+          {status !== 'closed' && (
+            <Button type="submit" variant="outline" disabled={isSaving || companies.length === 0}>
+              {(saving === 'draft' || saving === 'save') && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {status === 'draft' ? 'Save Draft' : 'Save Changes'}
+            </Button>
+          )}
+          {availableActions.map((action) => (
+            <Button
+              key={action}
+              type="button"
+              variant={action === 'close' ? 'destructive' : action === 'pause' ? 'secondary' : 'default'}
+              onClick={() => handleStatusAction(action)}
+              disabled={isSaving || companies.length === 0}
+            >
+              {saving === action && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {getJobActionLabel(action, status)}
+            </Button>
+          ))}
+        </div>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,200 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { toast } from "sonner";
+import { repo } from "@/lib/supabase/client";
+import { recommendJobs, type RecommendationProfile } from "@/lib/jobs/recommendations";
+import { formatSalaryRange } from "@/lib/jobs/format";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Bookmark, BookmarkCheck, Building, CheckCircle2, ExternalLink, MapPin, Sparkles, X } from "lucide-react";
+import type { JobFeedback, JobFeedbackType } from "@/lib/types/enhanced-database";
+
+type AvailableJob = Awaited<ReturnType<typeof repo.jobOpenings.listActive>>[number];
+
+interface JobRecommendationsProps {
+  userId: string;
+  jobs: AvailableJob[];
+  appliedJobIds: string[];
+}
+
+/**
+ * Open jobs ranked by fit to the candidate's skills and work preferences,
+ * with the jobs they have saved. Saving and dismissing feed back into the
+ * ranking.
+ */
+export function JobRecommendations({ userId, jobs, appliedJobIds }: JobRecommendationsProps) {
+  const [profile, setProfile] = useState<RecommendationProfile | null>(null);
+  const [feedback, setFeedback] = useState<JobFeedback[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const loadPreferences = async () => {
+      try {
+        const [profileData, feedbackData] = await Promise.all([
+          repo.profiles.get(userId),
+          repo.jobFeedback.listForUser(userId),
+        ]);
+        setProfile(profileData);
+        setFeedback(feedbackData);
+      } catch (error) {
+        console.error('Error loading recommendations:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadPreferences();
+  }, [userId]);
+
+  const setJobFeedback = async (jobId: string, type: JobFeedbackType | null) => {
+    const previous = feedback;
+    setFeedback((prev) => [
+      ...prev.filter((entry) => entry.job_opening_id !== jobId),
+      ...(type ? [{ id: '', user_id: userId, job_opening_id: jobId, feedback: type, created_at: new Date().toISOString() }] : []),
+    ]);
+
+    try {
+      if (type) {
+        await repo.jobFeedback.set(userId, jobId, type);
+      } else {
+        await repo.jobFeedback.remove(userId, jobId);
+      }
+    } catch (error) {
+      console.error('Error saving job feedback:', error);
+      setFeedback(previous);
+      toast.error('Failed to update. Please try again.');
+      return;
+    }
+
+    if (type === 'dismissed') {
+      toast('Job dismissed. We will show fewer jobs like it.', {
+        action: { label: 'Undo', onClick: () => setJobFeedback(jobId, null) },
+      });
+    }
+  };
+
+  const savedIds = new Set(feedback.filter((entry) => entry.feedback === 'saved').map((entry) => entry.job_opening_id));
+  const savedJobs = jobs.filter((job) => savedIds.has(job.id));
+  const recommendations = profile ? recommendJobs(jobs, profile, feedback, appliedJobIds) : [];
+
+  const renderJob = (job: AvailableJob, details?: { score: number; reasons: string[] }) => {
+    const saved = savedIds.has(job.id);
+    return (
+      <div key={job.id} className="border rounded-lg p-4 space-y-3">
+        <div className="flex items-start justify-between gap-4">
+          <div className="space-y-2">
+            <h4 className="font-medium text-lg flex items-center gap-2">
+              {job.title}
+              {details && <Badge variant="secondary">{details.score}% fit</Badge>}
+            </h4>
+            <div className="flex items-center gap-4 text-sm text-muted-foreground">
+              <span className="flex items-center gap-1">
+                <Building className="h-3 w-3" />
+                {job.company?.name || 'Unknown Company'}
+              </span>
+              <span className="flex items-center gap-1">
+                <MapPin className="h-3 w-3" />
+                {job.location || (job.work_arrangement === 'remote' ? 'Remote' : 'Location not specified')}
+              </span>
+            </div>
+            {formatSalaryRange(job) && (
+              <p className="text-sm font-medium text-green-600">{formatSalaryRange(job)}</p>
+            )}
+          </div>
+
+          <div className="flex items-center gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setJobFeedback(job.id, saved ? null : 'saved')}
+              title={saved ? 'Remove from saved jobs' : 'Save job'}
+            >
+              {saved ? <BookmarkCheck className="h-4 w-4" /> : <Bookmark className="h-4 w-4" />}
+            </Button>
+            {details && (
+              <Button variant="ghost" size="sm" onClick={() => setJobFeedback(job.id, 'dismissed')} title="Not interested">
+                <X className="h-4 w-4" />
+              </Button>
+            )}
+            <Button
+              size="sm"
+              onClick={() => window.open(`/apply/${job.id}`, '_blank')}
+              className="flex items-center gap-2"
+            >
+              Apply
+              <ExternalLink className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+
+        {details && (
+          <ul className="space-y-1 text-sm text-muted-foreground">
+            {details.reasons.map((reason) => (
+              <li key={reason} className="flex items-center gap-2">
+                <CheckCircle2 className="h-3 w-3 text-green-600 flex-shrink-0" />
+                {reason}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    );
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Sparkles className="h-5 w-5" />
+            Recommended for you
+          </CardTitle>
+          <CardDescription>
+            Based on your skills, work preferences and the jobs you save or dismiss
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {recommendations.length === 0 ? (
+            <div className="text-center py-8">
+              <Sparkles className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+              <h3 className="text-lg font-medium mb-2">No recommendations yet</h3>
+              <p className="text-muted-foreground">
+                Add skills and work preferences to your profile, or upload your CV, to get recommendations
+              </p>
+            </div>
+          ) : (
+            <div className="grid gap-4">
+              {recommendations.map(({ job, score, reasons }) => renderJob(job, { score, reasons }))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {savedJobs.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <BookmarkCheck className="h-5 w-5" />
+              Saved Jobs
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="grid gap-4">
+              {savedJobs.map((job) => renderJob(job))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
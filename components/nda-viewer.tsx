@@ -9,7 +9,13 @@ import { ScrollArea } from "@/components/ui/scroll-area";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Checkbox } from "@/components/ui/checkbox";
-import { PenSquare, CheckCircle2 } from "lucide-react";
+import { ContractSignatureDetails } from "@/components/contract-signature-details";
+import { SignaturePad } from "@/components/signature-pad";
+import { renderPlatformDocument } from "@/lib/contracts/platform";
+import { SIGNATURE_CONSENT, hashDocument } from "@/lib/contracts/signatures";
+import type { SignatureCapture } from "@/lib/contracts/validation";
+import type { ContractSignature } from "@/lib/types/enhanced-database";
+import { PenSquare, CheckCircle2, AlertCircle } from "lucide-react";
 
 const NdaSchema = z.object({
   fullName: z.string().min(3, { message: "Full name must be at least 3 characters." }),
@@ -20,81 +26,16 @@ const NdaSchema = z.object({
 
 type NdaFormValues = z.infer<typeof NdaSchema>;
 
-const ndaContentTemplate = `
-NON-DISCLOSURE AGREEMENT (NDA)
-
-This Non-Disclosure Agreement ("Agreement") is entered into as of {DATE} by and between Uwezo Inc., a company incorporated under the laws of [Jurisdiction] ("Disclosing Party") and the undersigned individual ("Receiving Party").
-
-RECITALS
-
-WHEREAS, the Disclosing Party possesses certain proprietary and confidential information relating to its business operations, technology, and trade secrets; and
-
-WHEREAS, the Receiving Party desires to receive access to such confidential information for the purpose of evaluating potential business opportunities and relationships;
-
-NOW, THEREFORE, in consideration of the mutual covenants contained herein, the parties agree as follows:
-
-1. DEFINITION OF CONFIDENTIAL INFORMATION
-
-"Confidential Information" shall mean any and all non-public, proprietary, or confidential information disclosed by the Disclosing Party to the Receiving Party, including but not limited to:
-
-a) Technical data, trade secrets, know-how, research, product plans, products, services, customers, customer lists, markets, software, developments, inventions, processes, formulas, technology, designs, drawings, engineering, hardware configuration information, marketing, finances, or other business information.
-
-b) All information disclosed orally, visually, electronically, or in writing, whether or not marked, designated, or otherwise identified as "confidential."
-
-c) Information developed by the Receiving Party based upon or derived from Confidential Information.
-
-2. NON-USE AND NON-DISCLOSURE OBLIGATIONS
-
-The Receiving Party agrees to:
-
-a) Hold and maintain all Confidential Information in strict confidence;
-b) Not disclose any Confidential Information to third parties without prior written consent from the Disclosing Party;
-c) Not use Confidential Information for any purpose other than evaluating potential business relationships;
-d) Take reasonable precautions to prevent unauthorized disclosure of Confidential Information;
-e) Limit access to Confidential Information to employees or advisors who have a legitimate need to know and who have been informed of the confidential nature of such information.
-
-3. EXCEPTIONS
-
-The obligations set forth in Section 2 shall not apply to information that:
-
-a) Is or becomes publicly available through no breach of this Agreement by the Receiving Party;
-b) Was rightfully known by the Receiving Party prior to disclosure;
-c) Is rightfully received by the Receiving Party from a third party without breach of any confidentiality obligation;
-d) Is required to be disclosed by law or court order, provided that the Receiving Party gives prompt written notice to the Disclosing Party.
-
-4. RETURN OF MATERIALS
-
-Upon termination of this Agreement or upon request by the Disclosing Party, the Receiving Party shall promptly return or destroy all documents, materials, and other tangible manifestations of Confidential Information.
-
-5. TERM AND TERMINATION
-
-This Agreement shall remain in effect for a period of five (5) years from the date hereof, unless terminated earlier by mutual written consent of the parties.
-
-6. REMEDIES
-
-The Receiving Party acknowledges that any breach of this Agreement may cause irreparable harm to the Disclosing Party, for which monetary damages would be inadequate. Therefore, the Disclosing Party shall be entitled to seek equitable relief, including injunction and specific performance.
-
-7. GOVERNING LAW
-
-This Agreement shall be governed by and construed in accordance with the laws of [Jurisdiction], without regard to its conflict of laws principles.
-
-8. ENTIRE AGREEMENT
-
-This Agreement constitutes the entire agreement between the parties concerning the subject matter hereof and supersedes all prior agreements and understandings.
-
-By signing below, the Receiving Party acknowledges that they have read, understood, and agree to be bound by all terms and conditions of this Non-Disclosure Agreement.
-
-Date: {DATE}
-`;
-
 interface NdaViewerProps {
-  onSigned?: () => void;
+  onSigned?: (signature: ContractSignature) => void;
 }
 
 export function NdaViewer({ onSigned }: NdaViewerProps) {
-  const [isSigned, setIsSigned] = useState(false);
-  const [signature, setSignature] = useState({ name: "", date: "" });
-  const [date, setDate] = useState<string | null>(null);
+  const [signature, setSignature] = useState<ContractSignature | null>(null);
+  const [issuedAt, setIssuedAt] = useState<Date | null>(null);
+  const [capture, setCapture] = useState<SignatureCapture | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
 
   const form = useForm<NdaFormValues>({
     resolver: zodResolver(NdaSchema),
@@ -105,24 +46,49 @@ export function NdaViewer({ onSigned }: NdaViewerProps) {
   });
 
   useEffect(() => {
-    setDate(new Date().toLocaleDateString());
+    setIssuedAt(new Date());
   }, []);
 
-  const onSubmit = (data: NdaFormValues) => {
-    setSignature({
-      name: data.fullName,
-      date: new Date().toLocaleString(),
-    });
-    setIsSigned(true);
-    onSigned?.();
-  };
-  
   const getRenderedNdaContent = () => {
-    if (!date) return "Loading...";
-    return ndaContentTemplate.replace(/{DATE}/g, date);
+    if (!issuedAt) return null;
+    return renderPlatformDocument({ document: 'nda' }, issuedAt);
   };
 
-  if (isSigned) {
+  const onSubmit = async (data: NdaFormValues) => {
+    const content = getRenderedNdaContent();
+    if (!content || !capture) return;
+
+    setSubmitting(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/contract-signatures', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          document: 'nda',
+          full_name: data.fullName,
+          signature: capture,
+          agree: data.agree,
+          document_hash: await hashDocument(content),
+        }),
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        setError(result.error || 'Failed to sign NDA');
+        return;
+      }
+
+      setSignature(result.data);
+      onSigned?.(result.data);
+    } catch (error) {
+      console.error('Error signing NDA:', error);
+      setError('Failed to sign NDA. Please try again.');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (signature) {
     return (
       <Card>
         <CardHeader>
@@ -135,10 +101,7 @@ export function NdaViewer({ onSigned }: NdaViewerProps) {
           </CardDescription>
         </CardHeader>
         <CardContent>
-          <div className="border rounded-lg p-4 bg-muted/50">
-            <p className="font-semibold">{signature.name}</p>
-            <p className="text-sm text-muted-foreground">Signed on {signature.date}</p>
-          </div>
+          <ContractSignatureDetails signature={signature} />
         </CardContent>
       </Card>
     );
@@ -161,14 +124,14 @@ export function NdaViewer({ onSigned }: NdaViewerProps) {
             <h3 className="font-medium">Agreement Terms</h3>
             <ScrollArea className="h-64 border rounded-lg p-4">
               <div className="whitespace-pre-line text-sm">
-                {getRenderedNdaContent()}
+                {getRenderedNdaContent() ?? "Loading..."}
               </div>
             </ScrollArea>
           </div>
 
           <div className="space-y-4">
             <div className="space-y-2">
-              <label className="text-sm font-medium">Full Name (Digital Signature)</label>
+              <label className="text-sm font-medium">Full Name</label>
               <Input
                 {...form.register("fullName")}
                 placeholder="Enter your full legal name"
@@ -178,14 +141,18 @@ export function NdaViewer({ onSigned }: NdaViewerProps) {
               )}
             </div>
 
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Signature</label>
+              <SignaturePad name={form.watch("fullName")} value={capture} onChange={setCapture} />
+            </div>
+
             <div className="flex items-start space-x-2">
               <Checkbox
                 checked={form.watch("agree")}
                 onCheckedChange={(checked) => form.setValue("agree", !!checked)}
               />
               <label className="text-sm leading-relaxed">
-                I have read and agree to the terms and conditions of this Non-Disclosure Agreement.
-                By typing my name above, I acknowledge that this serves as my digital signature.
+                {SIGNATURE_CONSENT}
               </label>
             </div>
             {form.formState.errors.agree && (
@@ -193,12 +160,19 @@ export function NdaViewer({ onSigned }: NdaViewerProps) {
             )}
           </div>
 
+          {error && (
+            <p className="text-sm text-red-500 flex items-center gap-2">
+              <AlertCircle className="h-4 w-4" />
+              {error}
+            </p>
+          )}
+
           <Button 
             type="submit" 
             className="w-full"
-            disabled={!form.watch("fullName") || !form.watch("agree")}
+            disabled={submitting || !form.watch("fullName") || !capture || !form.watch("agree")}
           >
-            Sign NDA
+            {submitting ? 'Signing...' : 'Sign NDA'}
           </Button>
         </form>
       </CardContent>
@@ -0,0 +1,80 @@
+"use client";
+
+import Link from "next/link";
+import { toast } from "sonner";
+import { useNotifications } from "@/hooks/use-notifications";
+import { NotificationItem } from "@/components/notification-item";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Bell } from "lucide-react";
+import type { AppNotification } from "@/lib/types/enhanced-database";
+
+const BELL_NOTIFICATION_LIMIT = 8;
+
+/**
+ * Header bell with the unread count and the latest notifications. New
+ * notifications also pop up as a toast while the app is open.
+ */
+export function NotificationBell({ userId }: { userId: string }) {
+  const { notifications, unreadCount, markRead, markAllRead } = useNotifications(userId, {
+    limit: BELL_NOTIFICATION_LIMIT,
+    onReceive: (notification) => toast(notification.title, { description: notification.message ?? undefined }),
+  });
+
+  const openNotification = (notification: AppNotification) => {
+    if (!notification.is_read) markRead([notification.id]);
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="relative"
+          aria-label={unreadCount > 0 ? `Notifications, ${unreadCount} unread` : 'Notifications'}
+        >
+          <Bell className="h-4 w-4" />
+          {unreadCount > 0 && (
+            <span className="absolute -right-0.5 -top-0.5 flex h-4 min-w-4 items-center justify-center rounded-full bg-destructive px-1 text-[10px] font-medium text-destructive-foreground">
+              {unreadCount > 99 ? '99+' : unreadCount}
+            </span>
+          )}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-80">
+        <div className="flex items-center justify-between">
+          <DropdownMenuLabel>Notifications</DropdownMenuLabel>
+          {unreadCount > 0 && (
+            <Button variant="link" size="sm" className="h-auto px-2 text-xs" onClick={markAllRead}>
+              Mark all read
+            </Button>
+          )}
+        </div>
+        <DropdownMenuSeparator />
+        {notifications.length === 0 ? (
+          <p className="px-2 py-6 text-center text-sm text-muted-foreground">You&apos;re all caught up</p>
+        ) : (
+          notifications.map((notification) => (
+            <DropdownMenuItem key={notification.id} className="block cursor-pointer">
+              <NotificationItem notification={notification} onOpen={openNotification} compact />
+            </DropdownMenuItem>
+          ))
+        )}
+        <DropdownMenuSeparator />
+        <DropdownMenuItem asChild>
+          <Link href="/protected/notifications" className="justify-center text-sm">
+            View all notifications
+          </Link>
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
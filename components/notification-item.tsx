@@ -0,0 +1,70 @@
+"use client";
+
+import Link from "next/link";
+import { formatDistanceToNow } from "date-fns";
+import { cn } from "@/lib/utils";
+import {
+  AtSign,
+  Briefcase,
+  CalendarClock,
+  FileCheck,
+  FileClock,
+  FileSignature,
+  FileX,
+  Inbox,
+  UserPlus,
+  type LucideIcon,
+} from "lucide-react";
+import type { AppNotification, NotificationType } from "@/lib/types/enhanced-database";
+
+const NOTIFICATION_ICONS: Record<NotificationType, LucideIcon> = {
+  application_received: Inbox,
+  application_status_changed: Briefcase,
+  interview_scheduled: CalendarClock,
+  contract_awaiting_signature: FileSignature,
+  contract_signed: FileCheck,
+  contract_voided: FileX,
+  contract_expired: FileClock,
+  member_invited: UserPlus,
+  note_mention: AtSign,
+};
+
+interface NotificationItemProps {
+  notification: AppNotification;
+  onOpen: (notification: AppNotification) => void;
+  compact?: boolean;
+}
+
+/**
+ * One notification with its icon and age, linking to what it is about.
+ * Unread notifications are highlighted; opening one marks it read.
+ */
+export function NotificationItem({ notification, onOpen, compact }: NotificationItemProps) {
+  const Icon = NOTIFICATION_ICONS[notification.type] ?? Inbox;
+
+  const content = (
+    <div className="flex items-start gap-3">
+      <Icon className={cn("h-4 w-4 mt-0.5 shrink-0", notification.is_read ? "text-muted-foreground" : "text-primary")} />
+      <div className="min-w-0 flex-1 space-y-0.5">
+        <p className={cn("text-sm", !notification.is_read && "font-medium")}>{notification.title}</p>
+        {notification.message && (
+          <p className={cn("text-sm text-muted-foreground", compact && "line-clamp-2")}>{notification.message}</p>
+        )}
+        <p className="text-xs text-muted-foreground">
+          {formatDistanceToNow(new Date(notification.created_at))} ago
+        </p>
+      </div>
+      {!notification.is_read && <span className="mt-1.5 h-2 w-2 shrink-0 rounded-full bg-primary" aria-label="Unread" />}
+    </div>
+  );
+
+  return notification.link ? (
+    <Link href={notification.link} onClick={() => onOpen(notification)} className="block">
+      {content}
+    </Link>
+  ) : (
+    <button type="button" onClick={() => onOpen(notification)} className="block w-full text-left">
+      {content}
+    </button>
+  );
+}
@@ -0,0 +1,346 @@
+"use client";
+
+import { useState, useEffect, useCallback, useMemo } from "react";
+import { repo } from "@/lib/supabase/client";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { KanbanSquare, Clock, History, Loader2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+import {
+  PIPELINE_STAGES,
+  getStageEnteredAt,
+  getStageLabel,
+} from "@/lib/applications/pipeline";
+import { canTransition } from "@/lib/applications/transitions";
+import type {
+  ApplicationStageHistory,
+  ApplicationStatus,
+} from "@/lib/types/enhanced-database";
+
+interface PipelineApplication {
+  id: string;
+  job_opening_id: string;
+  applicant_id: string;
+  status: ApplicationStatus;
+  stage_history: ApplicationStageHistory[] | null;
+  submitted_at: string;
+  applicant?: {
+    first_name: string | null;
+    last_name: string | null;
+    email: string | null;
+  };
+}
+
+interface PipelineJob {
+  id: string;
+  title: string;
+}
+
+interface PendingMove {
+  application: PipelineApplication;
+  toStatus: ApplicationStatus;
+}
+
+interface PipelineBoardProps {
+  userId: string;
+  companyId?: string | null;
+}
+
+export function PipelineBoard({ userId, companyId }: PipelineBoardProps) {
+  const [applications, setApplications] = useState<PipelineApplication[]>([]);
+  const [jobs, setJobs] = useState<PipelineJob[]>([]);
+  const [jobFilter, setJobFilter] = useState<string>("all");
+  const [loading, setLoading] = useState(true);
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<ApplicationStatus | null>(null);
+  const [pendingMove, setPendingMove] = useState<PendingMove | null>(null);
+  const [moveNotes, setMoveNotes] = useState("");
+  const [rejectionReason, setRejectionReason] = useState("");
+  const [shareRejectionReason, setShareRejectionReason] = useState(false);
+  const [moveError, setMoveError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const loadPipeline = useCallback(async () => {
+    try {
+      // Companies the recruiter belongs to (optionally narrowed to one)
+      const companies = (await repo.companies.listForUser(userId))
+        .filter((company) => !companyId || company.id === companyId);
+
+      const loadedJobs: PipelineJob[] = await repo.jobOpenings.listForCompanies(
+        companies.map((company) => company.id)
+      );
+      setJobs(loadedJobs);
+
+      const appRows = await repo.applications.listForJobs(loadedJobs.map((job) => job.id));
+      const profiles = await repo.profiles.listByUserIds(
+        Array.from(new Set(appRows.map((app) => app.applicant_id)))
+      );
+      const profileMap = new Map(profiles.map((profile) => [profile.user_id, profile]));
+
+      setApplications(
+        appRows
+          .sort((a, b) => a.submitted_at.localeCompare(b.submitted_at))
+          .map((app) => ({ ...app, applicant: profileMap.get(app.applicant_id) }))
+      );
+    } catch (error) {
+      console.error('Error loading applicant pipeline:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [userId, companyId]);
+
+  useEffect(() => {
+    loadPipeline();
+  }, [loadPipeline]);
+
+  const jobTitles = useMemo(
+    () => new Map(jobs.map((job) => [job.id, job.title])),
+    [jobs]
+  );
+
+  const visibleApplications = useMemo(
+    () => jobFilter === "all"
+      ? applications
+      : applications.filter((app) => app.job_opening_id === jobFilter),
+    [applications, jobFilter]
+  );
+
+  const draggingApp = useMemo(
+    () => applications.find((app) => app.id === draggingId) || null,
+    [applications, draggingId]
+  );
+
+  const handleDrop = (toStatus: ApplicationStatus) => {
+    setDropTarget(null);
+    setDraggingId(null);
+    if (!draggingApp || !canTransition(draggingApp.status, toStatus)) return;
+
+    setMoveNotes("");
+    setRejectionReason("");
+    setShareRejectionReason(false);
+    setMoveError(null);
+    setPendingMove({ application: draggingApp, toStatus });
+  };
+
+  const confirmMove = async () => {
+    if (!pendingMove) return;
+    const { application, toStatus } = pendingMove;
+
+    setSaving(true);
+    setMoveError(null);
+    try {
+      // Transitions are validated and recorded server-side
+      const response = await fetch(`/api/applications/${application.id}/status`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          status: toStatus,
+          notes: moveNotes || undefined,
+          rejection_reason: toStatus === 'rejected' ? rejectionReason : undefined,
+          share_rejection_reason: toStatus === 'rejected' ? shareRejectionReason : undefined,
+        }),
+      });
+      const result = await response.json();
+
+      if (!response.ok) {
+        setMoveError(result.error || 'Failed to move application. Please try again.');
+        return;
+      }
+
+      setApplications((prev) =>
+        prev.map((app) =>
+          app.id === application.id
+            ? { ...app, status: result.data.status, stage_history: result.data.stage_history }
+            : app
+        )
+      );
+      setPendingMove(null);
+    } catch (error) {
+      console.error('Error moving application:', error);
+      setMoveError('Failed to move application. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const formatDaysInStage = (app: PipelineApplication) => {
+    const enteredAt = new Date(getStageEnteredAt(app.stage_history, app.submitted_at));
+    const days = Math.floor((Date.now() - enteredAt.getTime()) / (1000 * 60 * 60 * 24));
+    return days === 0 ? 'Today' : `${days}d in stage`;
+  };
+
+  if (loading) {
+    return (
+      <Card>
+        <CardContent className="flex items-center justify-center py-12">
+          <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <div className="flex items-start justify-between gap-4">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <KanbanSquare className="h-5 w-5" />
+                Applicant Pipeline
+              </CardTitle>
+              <CardDescription>
+                Drag candidates to the next stage. Only allowed moves are accepted, and every move is recorded in the application history.
+              </CardDescription>
+            </div>
+            <div className="w-64">
+              <Select value={jobFilter} onValueChange={setJobFilter}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Filter by job" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All jobs</SelectItem>
+                  {jobs.map((job) => (
+                    <SelectItem key={job.id} value={job.id}>
+                      {job.title}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        </CardHeader>
+      </Card>
+
+      {pendingMove && (
+        <Card className="border-primary">
+          <CardHeader>
+            <CardTitle className="text-base">
+              Move {pendingMove.application.applicant?.first_name || 'candidate'} from{" "}
+              {getStageLabel(pendingMove.application.status)} to {getStageLabel(pendingMove.toStatus)}
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="move-notes">Notes (optional)</Label>
+              <Textarea
+                id="move-notes"
+                value={moveNotes}
+                onChange={(e) => setMoveNotes(e.target.value)}
+                placeholder="Why is this candidate moving stage?"
+                rows={3}
+              />
+            </div>
+            {pendingMove.toStatus === 'rejected' && (
+              <div className="space-y-2">
+                <Label htmlFor="rejection-reason">Rejection reason *</Label>
+                <Textarea
+                  id="rejection-reason"
+                  value={rejectionReason}
+                  onChange={(e) => setRejectionReason(e.target.value)}
+                  placeholder="Recorded on the application"
+                  rows={2}
+                />
+                <div className="flex items-center gap-2">
+                  <Checkbox
+                    id="share-rejection-reason"
+                    checked={shareRejectionReason}
+                    onCheckedChange={(checked) => setShareRejectionReason(checked === true)}
+                  />
+                  <Label htmlFor="share-rejection-reason">Include the reason in the email to the candidate</Label>
+                </div>
+              </div>
+            )}
+            {moveError && <p className="text-sm text-red-500">{moveError}</p>}
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => setPendingMove(null)} disabled={saving}>
+                Cancel
+              </Button>
+              <Button
+                onClick={confirmMove}
+                disabled={saving || (pendingMove.toStatus === 'rejected' && !rejectionReason.trim())}
+              >
+                {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Confirm Move
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      <div className="flex gap-3 overflow-x-auto pb-4">
+        {PIPELINE_STAGES.map((stage) => {
+          const columnApps = visibleApplications.filter((app) => app.status === stage.status);
+          const acceptsDrop = !!draggingApp && canTransition(draggingApp.status, stage.status);
+          return (
+            <div
+              key={stage.status}
+              className={cn(
+                "flex-shrink-0 w-64 rounded-lg border bg-muted/30 p-2 space-y-2 transition-colors",
+                draggingApp && !acceptsDrop && draggingApp.status !== stage.status && "opacity-40",
+                dropTarget === stage.status && acceptsDrop && "border-primary bg-primary/5"
+              )}
+              onDragOver={(e) => {
+                if (!acceptsDrop) return;
+                e.preventDefault();
+                setDropTarget(stage.status);
+              }}
+              onDragLeave={() => setDropTarget(null)}
+              onDrop={(e) => {
+                e.preventDefault();
+                handleDrop(stage.status);
+              }}
+            >
+              <div className="flex items-center justify-between px-1 py-1">
+                <span className="text-sm font-medium">{stage.label}</span>
+                <Badge variant={stage.terminal ? "outline" : "secondary"}>{columnApps.length}</Badge>
+              </div>
+
+              {columnApps.map((app) => (
+                <div
+                  key={app.id}
+                  draggable={!saving && !stage.terminal}
+                  onDragStart={() => setDraggingId(app.id)}
+                  onDragEnd={() => setDraggingId(null)}
+                  className={cn(
+                    "rounded-md border bg-background p-3 space-y-1",
+                    !stage.terminal && "cursor-grab active:cursor-grabbing",
+                    draggingId === app.id && "opacity-50"
+                  )}
+                >
+                  <p className="text-sm font-medium">
+                    {app.applicant
+                      ? `${app.applicant.first_name || ''} ${app.applicant.last_name || ''}`.trim() || app.applicant.email
+                      : 'Unknown applicant'}
+                  </p>
+                  <p className="text-xs text-muted-foreground truncate">
+                    {jobTitles.get(app.job_opening_id) || 'Unknown position'}
+                  </p>
+                  <div className="flex items-center justify-between text-xs text-muted-foreground">
+                    <span className="flex items-center gap-1">
+                      <Clock className="h-3 w-3" />
+                      {formatDaysInStage(app)}
+                    </span>
+                    <span className="flex items-center gap-1" title="Stage changes">
+                      <History className="h-3 w-3" />
+                      {app.stage_history?.length || 0}
+                    </span>
+                  </div>
+                </div>
+              ))}
+
+              {columnApps.length === 0 && (
+                <p className="text-xs text-muted-foreground text-center py-4">No candidates</p>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,60 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { toast } from "sonner";
+import { repo } from "@/lib/supabase/client";
+import { describeJobSearch } from "@/lib/jobs/board";
+import { Button } from "@/components/ui/button";
+import { Bell, BellRing } from "lucide-react";
+import type { JobSearchQuery } from "@/lib/types/enhanced-database";
+
+interface SaveSearchButtonProps {
+  userId: string | null;
+  query: JobSearchQuery;
+}
+
+/**
+ * Save the board's current search with a daily email alert. Signed-out
+ * visitors are sent to log in first.
+ */
+export function SaveSearchButton({ userId, query }: SaveSearchButtonProps) {
+  const [saving, setSaving] = useState(false);
+  const [savedQuery, setSavedQuery] = useState<string | null>(null);
+  const queryKey = JSON.stringify(query);
+
+  if (!userId) {
+    return (
+      <Button variant="outline" asChild>
+        <Link href="/auth/login">
+          <Bell className="mr-2 h-4 w-4" />
+          Sign in for job alerts
+        </Link>
+      </Button>
+    );
+  }
+
+  const saveSearch = async () => {
+    setSaving(true);
+    try {
+      await repo.savedSearches.create({ user_id: userId, name: describeJobSearch(query), query });
+      setSavedQuery(queryKey);
+      toast.success('Search saved. We will email you new matches daily.', {
+        action: { label: 'Manage', onClick: () => { window.location.href = '/protected/employee'; } },
+      });
+    } catch (error) {
+      console.error('Error saving search:', error);
+      toast.error('Failed to save search. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const saved = savedQuery === queryKey;
+  return (
+    <Button variant="outline" onClick={saveSearch} disabled={saving || saved}>
+      {saved ? <BellRing className="mr-2 h-4 w-4" /> : <Bell className="mr-2 h-4 w-4" />}
+      {saved ? 'Search saved' : saving ? 'Saving...' : 'Save search'}
+    </Button>
+  );
+}
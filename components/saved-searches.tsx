@@ -0,0 +1,206 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import Link from "next/link";
+import { toast } from "sonner";
+import { repo } from "@/lib/supabase/client";
+import { buildJobBoardHref, toJobBoardFilters } from "@/lib/jobs/board";
+import { JOB_ALERT_FREQUENCIES, JOB_ALERT_FREQUENCY_LABELS, canReceiveJobAlerts } from "@/lib/jobs/alerts";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Bell, ExternalLink, Search, Trash2 } from "lucide-react";
+import type {
+  JobAlertFrequency,
+  NotificationPreferences,
+  SavedSearch,
+  SavedSearchUpdate,
+  UserProfileEnhanced,
+} from "@/lib/types/enhanced-database";
+
+/**
+ * The candidate's saved job board searches with their email alert
+ * settings, and the notification switches the alerts depend on.
+ */
+export function SavedSearches({ userId }: { userId: string }) {
+  const [profile, setProfile] = useState<UserProfileEnhanced | null>(null);
+  const [searches, setSearches] = useState<SavedSearch[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const loadSearches = async () => {
+      try {
+        const [profileData, searchData] = await Promise.all([
+          repo.profiles.get(userId),
+          repo.savedSearches.listForUser(userId),
+        ]);
+        setProfile(profileData);
+        setSearches(searchData);
+      } catch (error) {
+        console.error('Error loading saved searches:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadSearches();
+  }, [userId]);
+
+  const updatePreference = async (key: keyof NotificationPreferences, value: boolean) => {
+    if (!profile) return;
+    try {
+      const updated = await repo.profiles.update(userId, {
+        notification_preferences: { ...profile.notification_preferences, [key]: value },
+      });
+      setProfile(updated);
+    } catch (error) {
+      console.error('Error updating notification preferences:', error);
+      toast.error('Failed to update your settings. Please try again.');
+    }
+  };
+
+  const updateSearch = async (searchId: string, updates: SavedSearchUpdate) => {
+    try {
+      const updated = await repo.savedSearches.update(searchId, updates);
+      setSearches((prev) => prev.map((search) => (search.id === searchId ? updated : search)));
+    } catch (error) {
+      console.error('Error updating saved search:', error);
+      toast.error('Failed to update the alert. Please try again.');
+    }
+  };
+
+  const removeSearch = async (searchId: string) => {
+    try {
+      await repo.savedSearches.remove(searchId);
+      setSearches((prev) => prev.filter((search) => search.id !== searchId));
+      toast.success('Saved search deleted');
+    } catch (error) {
+      console.error('Error deleting saved search:', error);
+      toast.error('Failed to delete the search. Please try again.');
+    }
+  };
+
+  if (loading) {
+    return (
+      <Card>
+        <CardContent className="py-8 text-center text-muted-foreground">Loading job alerts...</CardContent>
+      </Card>
+    );
+  }
+
+  const preferences = profile?.notification_preferences;
+  const emailEnabled = preferences?.email_notifications !== false;
+  const alertsEnabled = preferences?.job_alerts !== false;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Bell className="h-5 w-5" />
+          Job Alerts
+        </CardTitle>
+        <CardDescription>
+          Save a search on the job board and we will email you when new jobs match it
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-3 rounded-lg border p-4">
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="job-alerts"
+              checked={alertsEnabled}
+              onCheckedChange={(checked) => updatePreference('job_alerts', checked === true)}
+            />
+            <Label htmlFor="job-alerts">Send me job alerts</Label>
+          </div>
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="email-notifications"
+              checked={emailEnabled}
+              onCheckedChange={(checked) => updatePreference('email_notifications', checked === true)}
+            />
+            <Label htmlFor="email-notifications">Email notifications</Label>
+          </div>
+          {profile && !canReceiveJobAlerts(profile) && searches.some((search) => search.alerts_enabled) && (
+            <p className="text-sm text-muted-foreground">
+              {!profile.email
+                ? 'Add an email address to your profile to receive alerts.'
+                : 'Alerts are paused until both settings are on.'}
+            </p>
+          )}
+        </div>
+
+        {searches.length === 0 ? (
+          <div className="text-center py-8">
+            <Search className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+            <h3 className="text-lg font-medium mb-2">No saved searches</h3>
+            <p className="text-muted-foreground mb-4">
+              Search the job board and choose &ldquo;Save search&rdquo; to get alerts
+            </p>
+            <Button asChild>
+              <Link href="/jobs">Browse Jobs</Link>
+            </Button>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {searches.map((search) => (
+              <div key={search.id} className="flex flex-wrap items-center justify-between gap-4 border rounded-lg p-4">
+                <div className="space-y-1">
+                  <Link
+                    href={buildJobBoardHref(toJobBoardFilters(search.query))}
+                    className="font-medium hover:underline inline-flex items-center gap-1"
+                  >
+                    {search.name}
+                    <ExternalLink className="h-3 w-3" />
+                  </Link>
+                  <p className="text-xs text-muted-foreground">
+                    {search.last_checked_at
+                      ? `Last checked ${new Date(search.last_checked_at).toLocaleString()}`
+                      : `Saved ${new Date(search.created_at).toLocaleDateString()}`}
+                  </p>
+                </div>
+
+                <div className="flex items-center gap-3">
+                  <div className="flex items-center gap-2">
+                    <Checkbox
+                      id={`alert-${search.id}`}
+                      checked={search.alerts_enabled}
+                      onCheckedChange={(checked) => updateSearch(search.id, { alerts_enabled: checked === true })}
+                    />
+                    <Label htmlFor={`alert-${search.id}`} className="text-sm">Email alerts</Label>
+                  </div>
+                  <Select
+                    value={search.frequency}
+                    onValueChange={(value) => updateSearch(search.id, { frequency: value as JobAlertFrequency })}
+                    disabled={!search.alerts_enabled}
+                  >
+                    <SelectTrigger className="w-28">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {JOB_ALERT_FREQUENCIES.map((frequency) => (
+                        <SelectItem key={frequency} value={frequency}>
+                          {JOB_ALERT_FREQUENCY_LABELS[frequency]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => removeSearch(search.id)}
+                    aria-label={`Delete saved search ${search.name}`}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
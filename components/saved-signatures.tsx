@@ -0,0 +1,122 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Image from "next/image";
+import { toast } from "sonner";
+import { repo } from "@/lib/supabase/client";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { SignaturePad } from "@/components/signature-pad";
+import { SIGNATURE_METHOD_LABELS } from "@/lib/contracts/signatures";
+import type { SignatureCapture } from "@/lib/contracts/validation";
+import type { SignatureAsset } from "@/lib/types/enhanced-database";
+import { PenLine, Trash2 } from "lucide-react";
+
+interface SavedSignaturesProps {
+  userId: string;
+  // Written out when adding a typed signature
+  name?: string;
+}
+
+/**
+ * The signatures the user has saved to sign contracts with. Removing one
+ * does not change contracts already signed with it.
+ */
+export function SavedSignatures({ userId, name }: SavedSignaturesProps) {
+  const [assets, setAssets] = useState<SignatureAsset[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [capture, setCapture] = useState<SignatureCapture | null>(null);
+  // Remounts the pad with a blank canvas once a signature is saved
+  const [padKey, setPadKey] = useState(0);
+
+  useEffect(() => {
+    const loadAssets = async () => {
+      try {
+        setAssets(await repo.signatureAssets.listForUser(userId));
+      } catch (error) {
+        console.error('Error loading saved signatures:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadAssets();
+  }, [userId]);
+
+  const handleSaved = (asset: SignatureAsset) => {
+    setAssets((current) => [asset, ...current]);
+    setCapture(null);
+    setPadKey((key) => key + 1);
+  };
+
+  const handleRemove = async (assetId: string) => {
+    try {
+      await repo.signatureAssets.remove(assetId);
+      setAssets((current) => current.filter((asset) => asset.id !== assetId));
+      toast.success('Signature removed');
+    } catch (error) {
+      console.error('Error removing signature:', error);
+      toast.error('Failed to remove signature');
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <PenLine className="h-5 w-5" />
+          My Signatures
+        </CardTitle>
+        <CardDescription>Signatures you can choose when you sign a contract</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {loading ? (
+          <p className="text-sm text-muted-foreground">Loading signatures...</p>
+        ) : assets.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No saved signatures yet.</p>
+        ) : (
+          <div className="grid gap-3 sm:grid-cols-2">
+            {assets.map((asset) => (
+              <div key={asset.id} className="space-y-2 border rounded-lg p-3">
+                <Image
+                  src={asset.image_data}
+                  alt={`${SIGNATURE_METHOD_LABELS[asset.method]} signature`}
+                  width={600}
+                  height={180}
+                  unoptimized
+                  className="h-auto w-full rounded border bg-white"
+                />
+                <div className="flex items-center justify-between gap-2">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <Badge variant="secondary" className="text-xs">{SIGNATURE_METHOD_LABELS[asset.method]}</Badge>
+                    <span className="text-xs text-muted-foreground">
+                      {asset.last_used_at
+                        ? `Last used ${new Date(asset.last_used_at).toLocaleDateString()}`
+                        : `Added ${new Date(asset.created_at).toLocaleDateString()}`}
+                    </span>
+                  </div>
+                  <Button variant="ghost" size="sm" onClick={() => handleRemove(asset.id)}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <h4 className="text-sm font-medium">Add a signature</h4>
+          <SignaturePad
+            key={padKey}
+            name={name}
+            value={capture}
+            onChange={setCapture}
+            showSaved={false}
+            onSaved={handleSaved}
+          />
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
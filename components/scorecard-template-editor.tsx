@@ -0,0 +1,209 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { repo } from "@/lib/supabase/client";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ClipboardCheck, Loader2, Plus, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { CRITERION_WEIGHTS } from "@/lib/applications/matching";
+import {
+  DEFAULT_COMPETENCIES,
+  DEFAULT_RATING_SCALE,
+  MAX_SCORECARD_COMPETENCIES,
+  RATING_SCALES,
+  SCORECARD_CATEGORY_LABELS,
+} from "@/lib/interviews/scorecards";
+import { ScorecardTemplateSchema } from "@/lib/interviews/validation";
+import type { ScorecardCategory, ScorecardCompetency } from "@/lib/types/enhanced-database";
+
+interface ScorecardTemplateEditorProps {
+  jobId: string;
+  userId: string;
+}
+
+/**
+ * The competencies interviewers rate for a job and the scale they rate on.
+ * Jobs without a template use the default competencies.
+ */
+export function ScorecardTemplateEditor({ jobId, userId }: ScorecardTemplateEditorProps) {
+  const [ratingScale, setRatingScale] = useState(DEFAULT_RATING_SCALE);
+  const [competencies, setCompetencies] = useState<ScorecardCompetency[]>(DEFAULT_COMPETENCIES);
+  const [isCustom, setIsCustom] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    const loadTemplate = async () => {
+      try {
+        const template = await repo.scorecardTemplates.getForJob(jobId);
+        if (template) {
+          setRatingScale(template.rating_scale);
+          setCompetencies(template.competencies);
+          setIsCustom(true);
+        }
+      } catch (error) {
+        console.error('Error loading scorecard template:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadTemplate();
+  }, [jobId]);
+
+  const updateCompetency = (index: number, updates: Partial<ScorecardCompetency>) => {
+    setCompetencies((prev) => prev.map((competency, i) => (i === index ? { ...competency, ...updates } : competency)));
+  };
+
+  const addCompetency = () => {
+    setCompetencies((prev) => [
+      ...prev,
+      { id: crypto.randomUUID(), name: '', description: '', category: 'general', weight: 1 },
+    ]);
+  };
+
+  const handleSave = async () => {
+    const parsed = ScorecardTemplateSchema.safeParse({
+      rating_scale: ratingScale,
+      competencies: competencies.map((competency) => ({
+        ...competency,
+        description: competency.description?.trim() || undefined,
+      })),
+    });
+    if (!parsed.success) {
+      setError(parsed.error.issues[0]?.message ?? 'Check the scorecard and try again.');
+      return;
+    }
+
+    setError(null);
+    setSaving(true);
+    try {
+      await repo.scorecardTemplates.save({ job_opening_id: jobId, created_by: userId, ...parsed.data });
+      setIsCustom(true);
+      toast.success('Scorecard saved');
+    } catch (error) {
+      console.error('Error saving scorecard template:', error);
+      toast.error('Failed to save scorecard');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ClipboardCheck className="h-5 w-5" />
+          Interview Scorecard
+        </CardTitle>
+        <CardDescription>
+          {isCustom
+            ? 'What interviewers rate candidates on for this job.'
+            : 'This job uses the default scorecard until you save your own.'}
+          {' '}Technical and communication competencies also set the application&apos;s ratings for those areas.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {loading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <>
+            <div className="space-y-2 md:w-1/3">
+              <Label>Rating Scale</Label>
+              <Select value={String(ratingScale)} onValueChange={(value) => setRatingScale(Number(value))}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {RATING_SCALES.map((scale) => (
+                    <SelectItem key={scale} value={String(scale)}>1 to {scale}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="divide-y rounded-lg border">
+              {competencies.map((competency, index) => (
+                <div key={competency.id} className="grid gap-2 p-3 md:grid-cols-[1fr_1fr_9rem_8rem_auto] md:items-center">
+                  <Input
+                    value={competency.name}
+                    onChange={(e) => updateCompetency(index, { name: e.target.value })}
+                    placeholder="Competency"
+                    aria-label="Competency name"
+                  />
+                  <Input
+                    value={competency.description ?? ''}
+                    onChange={(e) => updateCompetency(index, { description: e.target.value })}
+                    placeholder="What to look for (optional)"
+                    aria-label="Competency description"
+                  />
+                  <Select
+                    value={competency.category}
+                    onValueChange={(value) => updateCompetency(index, { category: value as ScorecardCategory })}
+                  >
+                    <SelectTrigger aria-label="Category">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(SCORECARD_CATEGORY_LABELS).map(([value, label]) => (
+                        <SelectItem key={value} value={value}>{label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Select
+                    value={String(competency.weight)}
+                    onValueChange={(value) => updateCompetency(index, { weight: Number(value) })}
+                  >
+                    <SelectTrigger aria-label="Weight">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {CRITERION_WEIGHTS.map((weight) => (
+                        <SelectItem key={weight.value} value={String(weight.value)}>{weight.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setCompetencies((prev) => prev.filter((_, i) => i !== index))}
+                    disabled={competencies.length === 1}
+                    aria-label="Remove competency"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+
+            {error && <p className="text-sm text-destructive">{error}</p>}
+
+            <div className="flex flex-wrap justify-between gap-2">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={addCompetency}
+                disabled={competencies.length >= MAX_SCORECARD_COMPETENCIES}
+              >
+                <Plus className="mr-2 h-4 w-4" />
+                Add Competency
+              </Button>
+              <Button type="button" onClick={handleSave} disabled={saving}>
+                {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Save Scorecard
+              </Button>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
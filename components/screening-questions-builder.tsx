@@ -0,0 +1,310 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ArrowDown, ArrowUp, Plus, Trash2, X } from "lucide-react";
+import {
+  KNOCKOUT_QUESTION_TYPES,
+  RATING_SCALE,
+  SCREENING_QUESTION_TYPES,
+  createScreeningQuestion,
+  type ScreeningQuestionType,
+} from "@/lib/applications/screening";
+import type { ScreeningKnockoutRule, ScreeningQuestion } from "@/lib/types/enhanced-database";
+
+interface ScreeningQuestionsBuilderProps {
+  questions: ScreeningQuestion[];
+  onChange: (questions: ScreeningQuestion[]) => void;
+  // Field errors keyed by "<index>.<field>", as produced by getFieldErrors
+  errors?: Record<string, string>;
+}
+
+// Default rule when a knock-out is first switched on for a question type
+const defaultKnockout = (question: ScreeningQuestion): ScreeningKnockoutRule => {
+  switch (question.type) {
+    case 'yes_no':
+      return { accepted_answers: [true] };
+    case 'rating':
+      return { min_rating: 3 };
+    default:
+      return { accepted_answers: question.options?.filter(Boolean).slice(0, 1) ?? [] };
+  }
+};
+
+export function ScreeningQuestionsBuilder({ questions, onChange, errors = {} }: ScreeningQuestionsBuilderProps) {
+  const updateQuestion = (index: number, updates: Partial<ScreeningQuestion>) => {
+    onChange(questions.map((question, i) => (i === index ? { ...question, ...updates } : question)));
+  };
+
+  const changeType = (index: number, type: ScreeningQuestionType) => {
+    // Keep the text and required flag, reset everything type-specific
+    const { id, question, required } = questions[index];
+    onChange(questions.map((existing, i) =>
+      i === index ? { ...createScreeningQuestion(type), id, question, required } : existing
+    ));
+  };
+
+  const moveQuestion = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= questions.length) return;
+    const next = [...questions];
+    [next[index], next[target]] = [next[target], next[index]];
+    onChange(next);
+  };
+
+  const updateOption = (index: number, optionIndex: number, value: string) => {
+    const question = questions[index];
+    const previous = question.options?.[optionIndex];
+    const options = (question.options ?? []).map((option, i) => (i === optionIndex ? value : option));
+    // Keep knock-out answers pointing at the renamed option
+    const accepted = question.knockout?.accepted_answers?.map((answer) => (answer === previous ? value : answer));
+    updateQuestion(index, {
+      options,
+      ...(question.knockout ? { knockout: { accepted_answers: accepted } } : {}),
+    });
+  };
+
+  const removeOption = (index: number, optionIndex: number) => {
+    const question = questions[index];
+    const removed = question.options?.[optionIndex];
+    updateQuestion(index, {
+      options: question.options?.filter((_, i) => i !== optionIndex),
+      ...(question.knockout
+        ? { knockout: { accepted_answers: question.knockout.accepted_answers?.filter((answer) => answer !== removed) } }
+        : {}),
+    });
+  };
+
+  const toggleAcceptedOption = (index: number, option: string, accepted: boolean) => {
+    const current = questions[index].knockout?.accepted_answers ?? [];
+    updateQuestion(index, {
+      knockout: {
+        accepted_answers: accepted ? [...current, option] : current.filter((answer) => answer !== option),
+      },
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      {questions.length === 0 && (
+        <p className="text-sm text-muted-foreground">
+          No screening questions yet. Candidates will go straight from CV upload to the assessment.
+        </p>
+      )}
+
+      {questions.map((question, index) => (
+        <div key={question.id} className="rounded-lg border p-4 space-y-4">
+          <div className="flex items-start gap-2">
+            <div className="flex-1 space-y-2">
+              <Label htmlFor={`screening-${question.id}`}>Question {index + 1}</Label>
+              <Input
+                id={`screening-${question.id}`}
+                value={question.question}
+                onChange={(e) => updateQuestion(index, { question: e.target.value })}
+                placeholder="e.g. Are you legally authorised to work in Kenya?"
+              />
+              {errors[`${index}.question`] && (
+                <p className="text-sm text-red-500">{errors[`${index}.question`]}</p>
+              )}
+            </div>
+            <div className="flex gap-1 pt-7">
+              <Button type="button" variant="ghost" size="icon" onClick={() => moveQuestion(index, -1)} disabled={index === 0}>
+                <ArrowUp className="h-4 w-4" />
+              </Button>
+              <Button type="button" variant="ghost" size="icon" onClick={() => moveQuestion(index, 1)} disabled={index === questions.length - 1}>
+                <ArrowDown className="h-4 w-4" />
+              </Button>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                onClick={() => onChange(questions.filter((_, i) => i !== index))}
+                aria-label="Remove question"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Answer type</Label>
+              <Select value={question.type} onValueChange={(value) => changeType(index, value as ScreeningQuestionType)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {SCREENING_QUESTION_TYPES.map(({ type, label }) => (
+                    <SelectItem key={type} value={type}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {question.type === 'text' && (
+              <div className="space-y-2">
+                <Label htmlFor={`max-length-${question.id}`}>Maximum length (characters)</Label>
+                <Input
+                  id={`max-length-${question.id}`}
+                  type="number"
+                  min="1"
+                  value={question.max_length ?? ''}
+                  onChange={(e) => updateQuestion(index, {
+                    max_length: e.target.value ? parseInt(e.target.value) : undefined,
+                  })}
+                />
+              </div>
+            )}
+          </div>
+
+          {question.type === 'multiple_choice' && (
+            <div className="space-y-2">
+              <Label>Options</Label>
+              {(question.options ?? []).map((option, optionIndex) => (
+                <div key={optionIndex} className="flex items-center gap-2">
+                  <Input
+                    value={option}
+                    onChange={(e) => updateOption(index, optionIndex, e.target.value)}
+                    placeholder={`Option ${optionIndex + 1}`}
+                  />
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => removeOption(index, optionIndex)}
+                    aria-label="Remove option"
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => updateQuestion(index, { options: [...(question.options ?? []), ''] })}
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                Add option
+              </Button>
+              {errors[`${index}.options`] && (
+                <p className="text-sm text-red-500">{errors[`${index}.options`]}</p>
+              )}
+            </div>
+          )}
+
+          <div className="flex flex-wrap items-center gap-6">
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id={`required-${question.id}`}
+                checked={question.required}
+                onCheckedChange={(checked) => updateQuestion(index, { required: checked === true })}
+              />
+              <Label htmlFor={`required-${question.id}`}>Required</Label>
+            </div>
+
+            {KNOCKOUT_QUESTION_TYPES.includes(question.type) && (
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id={`knockout-${question.id}`}
+                  checked={!!question.knockout}
+                  onCheckedChange={(checked) => updateQuestion(index, {
+                    knockout: checked === true ? defaultKnockout(question) : undefined,
+                    ...(checked === true ? { required: true } : {}),
+                  })}
+                />
+                <Label htmlFor={`knockout-${question.id}`}>Knock-out question</Label>
+              </div>
+            )}
+          </div>
+
+          {question.knockout && (
+            <div className="rounded-md bg-muted/50 p-3 space-y-2">
+              <p className="text-sm text-muted-foreground">
+                Applications that do not meet this rule are rejected automatically when submitted.
+              </p>
+
+              {question.type === 'yes_no' && (
+                <div className="flex items-center gap-2">
+                  <Label>Candidates must answer</Label>
+                  <Select
+                    value={question.knockout.accepted_answers?.[0] === false ? 'no' : 'yes'}
+                    onValueChange={(value) => updateQuestion(index, {
+                      knockout: { accepted_answers: [value === 'yes'] },
+                    })}
+                  >
+                    <SelectTrigger className="w-28">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="yes">Yes</SelectItem>
+                      <SelectItem value="no">No</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+
+              {question.type === 'rating' && (
+                <div className="flex items-center gap-2">
+                  <Label>Minimum rating</Label>
+                  <Select
+                    value={String(question.knockout.min_rating ?? 1)}
+                    onValueChange={(value) => updateQuestion(index, { knockout: { min_rating: parseInt(value) } })}
+                  >
+                    <SelectTrigger className="w-20">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Array.from({ length: RATING_SCALE }, (_, i) => i + 1).map((rating) => (
+                        <SelectItem key={rating} value={String(rating)}>
+                          {rating}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+
+              {question.type === 'multiple_choice' && (
+                <div className="space-y-1">
+                  <Label>Accepted answers</Label>
+                  {(question.options ?? []).filter(Boolean).map((option) => (
+                    <div key={option} className="flex items-center space-x-2">
+                      <Checkbox
+                        id={`accepted-${question.id}-${option}`}
+                        checked={question.knockout?.accepted_answers?.includes(option) ?? false}
+                        onCheckedChange={(checked) => toggleAcceptedOption(index, option, checked === true)}
+                      />
+                      <Label htmlFor={`accepted-${question.id}-${option}`}>{option}</Label>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {(errors[`${index}.knockout`] || errors[`${index}.knockout.accepted_answers`]) && (
+                <p className="text-sm text-red-500">
+                  {errors[`${index}.knockout`] || errors[`${index}.knockout.accepted_answers`]}
+                </p>
+              )}
+            </div>
+          )}
+        </div>
+      ))}
+
+      <Button
+        type="button"
+        variant="outline"
+        onClick={() => onChange([...questions, createScreeningQuestion('yes_no')])}
+        disabled={questions.length >= 20}
+      >
+        <Plus className="h-4 w-4 mr-2" />
+        Add screening question
+      </Button>
+    </div>
+  );
+}
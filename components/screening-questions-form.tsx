@@ -0,0 +1,179 @@
+"use client";
+
+import { useState } from "react";
+import { useAuth } from "@/hooks/use-auth";
+import { storage } from "@/lib/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { CheckCircle2, Loader2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { RATING_SCALE, validateScreeningAnswers } from "@/lib/applications/screening";
+import type { ScreeningAnswer, ScreeningQuestion } from "@/lib/types/enhanced-database";
+
+interface ScreeningQuestionsFormProps {
+  questions: ScreeningQuestion[];
+  initialAnswers?: ScreeningAnswer[];
+  onComplete: (answers: ScreeningAnswer[]) => void;
+}
+
+export function ScreeningQuestionsForm({ questions, initialAnswers = [], onComplete }: ScreeningQuestionsFormProps) {
+  const { user } = useAuth();
+  const [answers, setAnswers] = useState<Record<string, ScreeningAnswer>>(
+    () => Object.fromEntries(initialAnswers.map((answer) => [answer.question_id, answer]))
+  );
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [uploadingId, setUploadingId] = useState<string | null>(null);
+
+  const setAnswer = (questionId: string, answer: ScreeningAnswer['answer'], fileUrl?: string) => {
+    setAnswers((prev) => ({
+      ...prev,
+      [questionId]: { question_id: questionId, answer, ...(fileUrl ? { file_url: fileUrl } : {}) },
+    }));
+    setErrors((prev) => {
+      if (!prev[questionId]) return prev;
+      const next = { ...prev };
+      delete next[questionId];
+      return next;
+    });
+  };
+
+  const handleFileUpload = async (questionId: string, file: File) => {
+    if (!user) return;
+
+    setUploadingId(questionId);
+    try {
+      const path = `${user.id}/screening/${Date.now()}-${file.name}`;
+      const uploaded = await storage.uploadFile('documents', path, file);
+      setAnswer(questionId, file.name, uploaded.path);
+    } catch (error) {
+      console.error('Error uploading screening file:', error);
+      setErrors((prev) => ({ ...prev, [questionId]: 'Failed to upload file. Please try again.' }));
+    } finally {
+      setUploadingId(null);
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const answerList = questions
+      .map((question) => answers[question.id])
+      .filter((answer): answer is ScreeningAnswer => !!answer);
+
+    const validationErrors = validateScreeningAnswers(questions, answerList);
+    setErrors(validationErrors);
+    if (Object.keys(validationErrors).length > 0) return;
+
+    onComplete(answerList);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6">
+      {questions.map((question, index) => {
+        const answer = answers[question.id]?.answer;
+        return (
+          <div key={question.id} className="space-y-2">
+            <Label htmlFor={`answer-${question.id}`} className="text-base">
+              {index + 1}. {question.question}
+              {question.required && <span className="text-red-500"> *</span>}
+            </Label>
+
+            {question.type === 'text' && (
+              <>
+                <Textarea
+                  id={`answer-${question.id}`}
+                  value={typeof answer === 'string' ? answer : ''}
+                  onChange={(e) => setAnswer(question.id, e.target.value)}
+                  placeholder={question.placeholder}
+                  maxLength={question.max_length}
+                  rows={3}
+                />
+                {question.max_length && (
+                  <p className="text-xs text-muted-foreground text-right">
+                    {typeof answer === 'string' ? answer.length : 0}/{question.max_length}
+                  </p>
+                )}
+              </>
+            )}
+
+            {question.type === 'yes_no' && (
+              <RadioGroup
+                value={answer === true ? 'yes' : answer === false ? 'no' : ''}
+                onValueChange={(value) => setAnswer(question.id, value === 'yes')}
+                className="flex gap-6"
+              >
+                {['yes', 'no'].map((value) => (
+                  <div key={value} className="flex items-center space-x-2">
+                    <RadioGroupItem value={value} id={`answer-${question.id}-${value}`} />
+                    <Label htmlFor={`answer-${question.id}-${value}`}>{value === 'yes' ? 'Yes' : 'No'}</Label>
+                  </div>
+                ))}
+              </RadioGroup>
+            )}
+
+            {question.type === 'multiple_choice' && (
+              <RadioGroup
+                value={typeof answer === 'string' ? answer : ''}
+                onValueChange={(value) => setAnswer(question.id, value)}
+              >
+                {(question.options ?? []).map((option, optionIndex) => (
+                  <div key={option} className="flex items-center space-x-2">
+                    <RadioGroupItem value={option} id={`answer-${question.id}-${optionIndex}`} />
+                    <Label htmlFor={`answer-${question.id}-${optionIndex}`}>{option}</Label>
+                  </div>
+                ))}
+              </RadioGroup>
+            )}
+
+            {question.type === 'rating' && (
+              <div className="flex gap-2">
+                {Array.from({ length: RATING_SCALE }, (_, i) => i + 1).map((rating) => (
+                  <Button
+                    key={rating}
+                    type="button"
+                    variant={answer === rating ? 'default' : 'outline'}
+                    className="w-10"
+                    onClick={() => setAnswer(question.id, rating)}
+                  >
+                    {rating}
+                  </Button>
+                ))}
+              </div>
+            )}
+
+            {question.type === 'file_upload' && (
+              <div className="flex items-center gap-3">
+                <Input
+                  id={`answer-${question.id}`}
+                  type="file"
+                  className={cn(uploadingId === question.id && "opacity-50")}
+                  disabled={uploadingId !== null}
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    if (file) handleFileUpload(question.id, file);
+                  }}
+                />
+                {uploadingId === question.id && <Loader2 className="h-4 w-4 animate-spin" />}
+                {answers[question.id]?.file_url && uploadingId !== question.id && (
+                  <span className="flex items-center gap-1 text-sm text-green-600">
+                    <CheckCircle2 className="h-4 w-4" />
+                    {String(answer)}
+                  </span>
+                )}
+              </div>
+            )}
+
+            {errors[question.id] && <p className="text-sm text-red-500">{errors[question.id]}</p>}
+          </div>
+        );
+      })}
+
+      <Button type="submit" className="w-full" disabled={uploadingId !== null}>
+        Continue
+      </Button>
+    </form>
+  );
+}
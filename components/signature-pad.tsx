@@ -0,0 +1,336 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState, type PointerEvent } from "react";
+import Image from "next/image";
+import { Dancing_Script } from "next/font/google";
+import { toast } from "sonner";
+import { useAuth } from "@/hooks/use-auth";
+import { repo } from "@/lib/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { MAX_SIGNATURE_IMAGE_LENGTH, SIGNATURE_METHOD_LABELS } from "@/lib/contracts/signatures";
+import type { SignatureCapture } from "@/lib/contracts/validation";
+import type { SignatureAsset } from "@/lib/types/enhanced-database";
+import { cn } from "@/lib/utils";
+import { Eraser, Save, Upload } from "lucide-react";
+
+const scriptFont = Dancing_Script({ subsets: ["latin"], weight: "600" });
+
+// Signatures are drawn at this size and saved as JPEGs on white, which the
+// signed PDF can embed as they are
+const CANVAS_WIDTH = 600;
+const CANVAS_HEIGHT = 180;
+const MAX_UPLOAD_SIZE = 5 * 1024 * 1024;
+
+type PadMode = 'drawn' | 'typed' | 'uploaded' | 'saved';
+
+interface SignaturePadProps {
+  // The signer's name, written out in the Type tab
+  name?: string;
+  value: SignatureCapture | null;
+  onChange: (value: SignatureCapture | null) => void;
+  // Offer the user's saved signatures in a tab of their own
+  showSaved?: boolean;
+  onSaved?: (asset: SignatureAsset) => void;
+}
+
+// The canvas as a JPEG data URL, at lower quality if needed to stay under
+// the size the server accepts
+function exportCanvas(canvas: HTMLCanvasElement) {
+  for (const quality of [0.9, 0.75, 0.6, 0.4]) {
+    const image = canvas.toDataURL('image/jpeg', quality);
+    if (image.length <= MAX_SIGNATURE_IMAGE_LENGTH) return image;
+  }
+  return null;
+}
+
+function clearCanvas(canvas: HTMLCanvasElement) {
+  const context = canvas.getContext('2d')!;
+  context.fillStyle = '#ffffff';
+  context.fillRect(0, 0, canvas.width, canvas.height);
+  return context;
+}
+
+/**
+ * Captures a signature: drawn with a mouse, pen or finger, the signer's
+ * name typed in a script font, an uploaded picture, or one of their saved
+ * signatures. Reports the signature as a JPEG data URL through onChange.
+ */
+export function SignaturePad({ name = "", value, onChange, showSaved = true, onSaved }: SignaturePadProps) {
+  const { user } = useAuth();
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const onChangeRef = useRef(onChange);
+  const drawingRef = useRef<{ x: number; y: number } | null>(null);
+  const [mode, setMode] = useState<PadMode>('drawn');
+  const [typedName, setTypedName] = useState(name);
+  const [typedEdited, setTypedEdited] = useState(false);
+  const [assets, setAssets] = useState<SignatureAsset[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!user || !showSaved) return;
+    const loadAssets = async () => {
+      try {
+        const rows = await repo.signatureAssets.listForUser(user.id);
+        setAssets(rows);
+        if (rows.length > 0) setMode('saved');
+      } catch (error) {
+        console.error('Error loading saved signatures:', error);
+      }
+    };
+
+    loadAssets();
+  }, [user, showSaved]);
+
+  useEffect(() => {
+    onChangeRef.current = onChange;
+  }, [onChange]);
+
+  // The typed signature follows the name until the signer changes it
+  useEffect(() => {
+    if (!typedEdited) setTypedName(name);
+  }, [name, typedEdited]);
+
+  // A new canvas starts white, or the JPEG would come out black
+  const setCanvas = useCallback((canvas: HTMLCanvasElement | null) => {
+    canvasRef.current = canvas;
+    if (canvas) clearCanvas(canvas);
+  }, []);
+
+  const capture = useCallback((method: SignatureCapture['method']) => {
+    const image = canvasRef.current ? exportCanvas(canvasRef.current) : null;
+    if (!image) {
+      toast.error('This signature is too large. Please try again.');
+      onChangeRef.current(null);
+      return;
+    }
+    onChangeRef.current({ method, image, asset_id: null });
+  }, []);
+
+  const reset = () => {
+    if (canvasRef.current) clearCanvas(canvasRef.current);
+    onChange(null);
+  };
+
+  const changeMode = (next: string) => {
+    setMode(next as PadMode);
+    reset();
+  };
+
+  // Draw the typed name once the script font has loaded
+  useEffect(() => {
+    if (mode !== 'typed' || !canvasRef.current) return;
+    const canvas = canvasRef.current;
+    const text = typedName.trim();
+    let cancelled = false;
+
+    const render = async () => {
+      const fontFamily = scriptFont.style.fontFamily;
+      await document.fonts.load(`600 72px ${fontFamily}`, text);
+      if (cancelled) return;
+
+      const context = clearCanvas(canvas);
+      if (!text) {
+        onChangeRef.current(null);
+        return;
+      }
+      let size = 72;
+      context.font = `600 ${size}px ${fontFamily}`;
+      while (size > 24 && context.measureText(text).width > CANVAS_WIDTH - 40) {
+        size -= 4;
+        context.font = `600 ${size}px ${fontFamily}`;
+      }
+      context.fillStyle = '#111827';
+      context.textAlign = 'center';
+      context.textBaseline = 'middle';
+      context.fillText(text, CANVAS_WIDTH / 2, CANVAS_HEIGHT / 2);
+      capture('typed');
+    };
+
+    render();
+    return () => {
+      cancelled = true;
+    };
+  }, [mode, typedName, capture]);
+
+  const pointFor = (event: PointerEvent<HTMLCanvasElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    return {
+      x: (event.clientX - rect.left) * (CANVAS_WIDTH / rect.width),
+      y: (event.clientY - rect.top) * (CANVAS_HEIGHT / rect.height),
+    };
+  };
+
+  const startStroke = (event: PointerEvent<HTMLCanvasElement>) => {
+    if (mode !== 'drawn') return;
+    event.currentTarget.setPointerCapture(event.pointerId);
+    drawingRef.current = pointFor(event);
+  };
+
+  const continueStroke = (event: PointerEvent<HTMLCanvasElement>) => {
+    const from = drawingRef.current;
+    if (!from) return;
+    const to = pointFor(event);
+    const context = event.currentTarget.getContext('2d')!;
+    context.strokeStyle = '#111827';
+    context.lineWidth = 3;
+    context.lineCap = 'round';
+    context.lineJoin = 'round';
+    context.beginPath();
+    context.moveTo(from.x, from.y);
+    context.lineTo(to.x, to.y);
+    context.stroke();
+    drawingRef.current = to;
+  };
+
+  const endStroke = () => {
+    if (!drawingRef.current) return;
+    drawingRef.current = null;
+    capture('drawn');
+  };
+
+  // Fit the picture onto the white canvas; transparent areas become white
+  const handleUpload = async (file: File | undefined) => {
+    if (!file || !canvasRef.current) return;
+    if (!['image/png', 'image/jpeg', 'image/webp'].includes(file.type)) {
+      toast.error('Please upload a PNG, JPEG or WebP image.');
+      return;
+    }
+    if (file.size > MAX_UPLOAD_SIZE) {
+      toast.error('Please upload an image under 5 MB.');
+      return;
+    }
+
+    try {
+      const bitmap = await createImageBitmap(file);
+      const context = clearCanvas(canvasRef.current);
+      const scale = Math.min((CANVAS_WIDTH - 20) / bitmap.width, (CANVAS_HEIGHT - 20) / bitmap.height, 1);
+      const width = bitmap.width * scale;
+      const height = bitmap.height * scale;
+      context.drawImage(bitmap, (CANVAS_WIDTH - width) / 2, (CANVAS_HEIGHT - height) / 2, width, height);
+      bitmap.close();
+      capture('uploaded');
+    } catch (error) {
+      console.error('Error reading signature image:', error);
+      toast.error('That image could not be read.');
+    }
+  };
+
+  const saveAsset = async () => {
+    if (!user || !value) return;
+    setSaving(true);
+    try {
+      const asset = await repo.signatureAssets.create({
+        user_id: user.id,
+        method: value.method,
+        image_data: value.image,
+      });
+      setAssets((current) => [asset, ...current]);
+      onChange({ ...value, asset_id: asset.id });
+      onSaved?.(asset);
+      toast.success('Signature saved');
+    } catch (error) {
+      console.error('Error saving signature:', error);
+      toast.error('Failed to save signature');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <Tabs value={mode} onValueChange={changeMode}>
+        <TabsList>
+          {showSaved && assets.length > 0 && <TabsTrigger value="saved">Saved</TabsTrigger>}
+          <TabsTrigger value="drawn">Draw</TabsTrigger>
+          <TabsTrigger value="typed">Type</TabsTrigger>
+          <TabsTrigger value="uploaded">Upload</TabsTrigger>
+        </TabsList>
+      </Tabs>
+
+      {mode === 'saved' ? (
+        <div className="grid gap-2 sm:grid-cols-2">
+          {assets.map((asset) => (
+            <button
+              key={asset.id}
+              type="button"
+              onClick={() => onChange({ method: asset.method, image: asset.image_data, asset_id: asset.id })}
+              className={cn(
+                "rounded-lg border bg-white p-2 text-left",
+                value?.asset_id === asset.id && "ring-2 ring-primary"
+              )}
+            >
+              <Image
+                src={asset.image_data}
+                alt={`${SIGNATURE_METHOD_LABELS[asset.method]} signature`}
+                width={CANVAS_WIDTH}
+                height={CANVAS_HEIGHT}
+                unoptimized
+                className="h-auto w-full"
+              />
+            </button>
+          ))}
+        </div>
+      ) : (
+        <>
+          {mode === 'typed' && (
+            <Input
+              value={typedName}
+              onChange={(event) => {
+                setTypedEdited(true);
+                setTypedName(event.target.value);
+              }}
+              placeholder="Type your name"
+            />
+          )}
+          {mode === 'uploaded' && (
+            <Input
+              type="file"
+              accept="image/png,image/jpeg,image/webp"
+              onChange={(event) => handleUpload(event.target.files?.[0])}
+            />
+          )}
+          <canvas
+            ref={setCanvas}
+            width={CANVAS_WIDTH}
+            height={CANVAS_HEIGHT}
+            onPointerDown={startStroke}
+            onPointerMove={continueStroke}
+            onPointerUp={endStroke}
+            onPointerCancel={endStroke}
+            className={cn(
+              "h-auto w-full rounded-lg border bg-white",
+              mode === 'drawn' && "cursor-crosshair touch-none"
+            )}
+            aria-label={mode === 'drawn' ? 'Draw your signature' : 'Signature preview'}
+          />
+          {mode === 'drawn' && !value && (
+            <p className="text-xs text-muted-foreground">Sign in the box with your mouse, pen or finger.</p>
+          )}
+        </>
+      )}
+
+      <div className="flex flex-wrap gap-2">
+        {mode === 'drawn' && value && (
+          <Button type="button" variant="outline" size="sm" onClick={reset}>
+            <Eraser className="mr-1 h-4 w-4" />
+            Clear
+          </Button>
+        )}
+        {mode === 'uploaded' && !value && (
+          <p className="flex items-center gap-1 text-xs text-muted-foreground">
+            <Upload className="h-3 w-3" />
+            A photo or scan of your signature on a light background works best.
+          </p>
+        )}
+        {user && value && !value.asset_id && (
+          <Button type="button" variant="outline" size="sm" onClick={saveAsset} disabled={saving}>
+            <Save className="mr-1 h-4 w-4" />
+            {saving ? 'Saving...' : 'Save to my signatures'}
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
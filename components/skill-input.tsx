@@ -0,0 +1,59 @@
+"use client";
+
+import { useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { X } from "lucide-react";
+
+interface SkillInputProps {
+  id: string;
+  skills: string[];
+  onChange: (skills: string[]) => void;
+  placeholder: string;
+}
+
+export function SkillInput({ id, skills, onChange, placeholder }: SkillInputProps) {
+  const [draft, setDraft] = useState("");
+
+  const addSkill = () => {
+    const skill = draft.trim();
+    if (skill && !skills.some((existing) => existing.toLowerCase() === skill.toLowerCase())) {
+      onChange([...skills, skill]);
+    }
+    setDraft("");
+  };
+
+  return (
+    <div className="space-y-2">
+      <Input
+        id={id}
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter' || e.key === ',') {
+            e.preventDefault();
+            addSkill();
+          }
+        }}
+        onBlur={addSkill}
+        placeholder={placeholder}
+      />
+      {skills.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {skills.map((skill) => (
+            <Badge key={skill} variant="secondary" className="gap-1">
+              {skill}
+              <button
+                type="button"
+                onClick={() => onChange(skills.filter((existing) => existing !== skill))}
+                aria-label={`Remove ${skill}`}
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </Badge>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
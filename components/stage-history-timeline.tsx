@@ -0,0 +1,77 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { repo } from "@/lib/supabase/client";
+import { getProfileName } from "@/lib/utils";
+import { getStageLabel } from "@/lib/applications/pipeline";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { History } from "lucide-react";
+import type { ApplicationStatus, JobApplicationEnhanced } from "@/lib/types/enhanced-database";
+
+interface StageHistoryTimelineProps {
+  application: Pick<JobApplicationEnhanced, 'applicant_id' | 'stage_history' | 'submitted_at'>;
+}
+
+/**
+ * Where the application has been: submission, then every stage move with
+ * who made it and their note, newest first.
+ */
+export function StageHistoryTimeline({ application }: StageHistoryTimelineProps) {
+  const [names, setNames] = useState<Record<string, string>>({});
+  const history = application.stage_history ?? [];
+  const changedBy = Array.from(new Set(history.map((entry) => entry.changed_by))).join(',');
+
+  useEffect(() => {
+    if (!changedBy) return;
+
+    const loadNames = async () => {
+      try {
+        const profiles = await repo.profiles.listByUserIds(changedBy.split(','));
+        setNames(Object.fromEntries(profiles.map((profile) => [profile.user_id, getProfileName(profile) || profile.email || ''])));
+      } catch (error) {
+        console.error('Error loading stage history names:', error);
+      }
+    };
+
+    loadNames();
+  }, [changedBy]);
+
+  const entries = [
+    ...history.map((entry) => ({
+      key: `${entry.timestamp}-${entry.stage}`,
+      title: entry.previous_stage
+        ? `${getStageLabel(entry.previous_stage as ApplicationStatus)} → ${getStageLabel(entry.stage as ApplicationStatus)}`
+        : getStageLabel(entry.stage as ApplicationStatus),
+      by: entry.changed_by === application.applicant_id ? 'Candidate' : names[entry.changed_by],
+      timestamp: entry.timestamp,
+      notes: entry.notes,
+    })),
+    { key: 'submitted', title: 'Applied', by: 'Candidate', timestamp: application.submitted_at, notes: undefined },
+  ].sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <History className="h-5 w-5" />
+          Stage History
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <ol className="relative border-l ml-2 space-y-4">
+          {entries.map((entry) => (
+            <li key={entry.key} className="ml-4">
+              <span className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border bg-background" />
+              <p className="text-sm font-medium">{entry.title}</p>
+              <p className="text-xs text-muted-foreground">
+                {new Date(entry.timestamp).toLocaleString()}
+                {entry.by && ` • ${entry.by}`}
+              </p>
+              {entry.notes && <p className="text-sm mt-1 whitespace-pre-wrap">{entry.notes}</p>}
+            </li>
+          ))}
+        </ol>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,98 @@
+"use client";
+
+import { useEffect, useCallback, useRef, useState } from 'react';
+import type { AssessmentIntegrityEvent } from '@/lib/types/enhanced-database';
+
+const FLUSH_INTERVAL_MS = 15000;
+
+interface IntegrityMonitorOptions {
+  attemptId: string | null;
+  // Only watch while the attempt is being answered
+  active: boolean;
+  getQuestionId: () => string | undefined;
+}
+
+/**
+ * Watch the page for focus loss, copy/paste and fullscreen exits during an
+ * assessment attempt, and send them to the attempt's integrity log in
+ * batches. Call flush() before submitting so nothing is lost.
+ */
+export function useIntegrityMonitor({ attemptId, active, getQuestionId }: IntegrityMonitorOptions) {
+  const [eventCount, setEventCount] = useState(0);
+  const pending = useRef<AssessmentIntegrityEvent[]>([]);
+  const inFlight = useRef<Promise<void> | null>(null);
+  const awaySince = useRef<number | null>(null);
+  const getQuestionIdRef = useRef(getQuestionId);
+  getQuestionIdRef.current = getQuestionId;
+
+  const record = useCallback((type: AssessmentIntegrityEvent['type'], value?: number) => {
+    pending.current.push({
+      type,
+      occurred_at: new Date().toISOString(),
+      question_id: getQuestionIdRef.current(),
+      ...(value !== undefined ? { value } : {}),
+    });
+    setEventCount((count) => count + 1);
+  }, []);
+
+  // One request at a time, so the server appends batches in order
+  const flush = useCallback(async () => {
+    if (inFlight.current) await inFlight.current;
+    if (!attemptId || pending.current.length === 0) return;
+
+    const events = pending.current.splice(0, 100);
+    inFlight.current = fetch(`/api/assessment-attempts/${attemptId}/events`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ events }),
+    })
+      .then(() => undefined)
+      .catch((error) => console.error('Error recording integrity events:', error))
+      .finally(() => {
+        inFlight.current = null;
+      });
+    await inFlight.current;
+  }, [attemptId]);
+
+  useEffect(() => {
+    if (!active) return;
+
+    const leave = () => {
+      if (awaySince.current === null) awaySince.current = Date.now();
+    };
+    const returnToPage = () => {
+      if (awaySince.current === null) return;
+      record('focus_lost', Math.round((Date.now() - awaySince.current) / 1000));
+      awaySince.current = null;
+    };
+    const handleVisibility = () => (document.visibilityState === 'hidden' ? leave() : returnToPage());
+    const handleCopy = () => record('copy', window.getSelection()?.toString().length ?? 0);
+    const handlePaste = (e: ClipboardEvent) => record('paste', e.clipboardData?.getData('text').length ?? 0);
+    const handleFullscreen = () => {
+      if (!document.fullscreenElement) record('fullscreen_exit');
+    };
+
+    window.addEventListener('blur', leave);
+    window.addEventListener('focus', returnToPage);
+    document.addEventListener('visibilitychange', handleVisibility);
+    document.addEventListener('copy', handleCopy);
+    document.addEventListener('cut', handleCopy);
+    document.addEventListener('paste', handlePaste);
+    document.addEventListener('fullscreenchange', handleFullscreen);
+
+    const interval = setInterval(flush, FLUSH_INTERVAL_MS);
+
+    return () => {
+      window.removeEventListener('blur', leave);
+      window.removeEventListener('focus', returnToPage);
+      document.removeEventListener('visibilitychange', handleVisibility);
+      document.removeEventListener('copy', handleCopy);
+      document.removeEventListener('cut', handleCopy);
+      document.removeEventListener('paste', handlePaste);
+      document.removeEventListener('fullscreenchange', handleFullscreen);
+      clearInterval(interval);
+    };
+  }, [active, record, flush]);
+
+  return { eventCount, flush };
+}
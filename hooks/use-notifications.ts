@@ -0,0 +1,112 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { repo } from '@/lib/supabase/client';
+import type { AppNotification } from '@/lib/types/enhanced-database';
+
+interface NotificationsOptions {
+  // How many of the latest notifications to keep loaded
+  limit?: number;
+  // Called for each notification that arrives while the page is open
+  onReceive?: (notification: AppNotification) => void;
+}
+
+/**
+ * The user's latest notifications and unread count, kept up to date over
+ * Supabase Realtime. Changes are applied locally first and rolled back by
+ * reloading if the server rejects them.
+ */
+export function useNotifications(userId: string | undefined, { limit = 20, onReceive }: NotificationsOptions = {}) {
+  const [notifications, setNotifications] = useState<AppNotification[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const onReceiveRef = useRef(onReceive);
+  onReceiveRef.current = onReceive;
+
+  const reload = useCallback(async () => {
+    if (!userId) return;
+    try {
+      const [latest, unread] = await Promise.all([
+        repo.notifications.listForUser(userId, limit),
+        repo.notifications.countUnread(userId),
+      ]);
+      setNotifications(latest);
+      setUnreadCount(unread);
+    } catch (error) {
+      console.error('Error loading notifications:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [userId, limit]);
+
+  const refreshUnreadCount = useCallback(async () => {
+    if (!userId) return;
+    try {
+      setUnreadCount(await repo.notifications.countUnread(userId));
+    } catch (error) {
+      console.error('Error counting unread notifications:', error);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    if (!userId) return;
+    reload();
+
+    return repo.notifications.subscribe(userId, (payload) => {
+      if (payload.eventType === 'INSERT') {
+        const notification = payload.new;
+        setNotifications((prev) => prev.some((item) => item.id === notification.id)
+          ? prev
+          : [notification, ...prev].slice(0, limit));
+        if (!notification.is_read) setUnreadCount((count) => count + 1);
+        onReceiveRef.current?.(notification);
+      } else if (payload.eventType === 'UPDATE') {
+        const notification = payload.new;
+        setNotifications((prev) => prev.map((item) => (item.id === notification.id ? notification : item)));
+        refreshUnreadCount();
+      } else {
+        // Deletes only carry the ID
+        const { id } = payload.old;
+        setNotifications((prev) => prev.filter((item) => item.id !== id));
+        refreshUnreadCount();
+      }
+    });
+  }, [userId, limit, reload, refreshUnreadCount]);
+
+  const markRead = useCallback(async (notificationIds: string[]) => {
+    const ids = new Set(notificationIds);
+    setNotifications((prev) => prev.map((item) => (ids.has(item.id) ? { ...item, is_read: true } : item)));
+    try {
+      await repo.notifications.markRead(notificationIds);
+      await refreshUnreadCount();
+    } catch (error) {
+      console.error('Error marking notifications read:', error);
+      await reload();
+    }
+  }, [reload, refreshUnreadCount]);
+
+  const markAllRead = useCallback(async () => {
+    if (!userId) return;
+    setNotifications((prev) => prev.map((item) => ({ ...item, is_read: true })));
+    setUnreadCount(0);
+    try {
+      await repo.notifications.markAllRead(userId);
+    } catch (error) {
+      console.error('Error marking all notifications read:', error);
+      await reload();
+    }
+  }, [userId, reload]);
+
+  const remove = useCallback(async (notificationId: string) => {
+    setNotifications((prev) => prev.filter((item) => item.id !== notificationId));
+    try {
+      await repo.notifications.remove(notificationId);
+      await refreshUnreadCount();
+    } catch (error) {
+      console.error('Error deleting notification:', error);
+      await reload();
+    }
+  }, [reload, refreshUnreadCount]);
+
+  return { notifications, unreadCount, loading, markRead, markAllRead, remove, reload };
+}
@@ -0,0 +1,227 @@
+import { canonicalSkill } from "@/lib/documents/cv-analysis";
+import type { DocumentAnalysisResult } from "@/lib/types/database";
+import type {
+  JobOpeningEnhanced,
+  RoleCriterion,
+  RoleCriterionInsert,
+  UserProfileEnhanced,
+} from "@/lib/types/enhanced-database";
+
+// Weights offered in the posting editor; role_criteria.weight allows up to 9.99
+export const CRITERION_WEIGHTS: { value: number; label: string }[] = [
+  { value: 0.5, label: 'Low' },
+  { value: 1, label: 'Normal' },
+  { value: 2, label: 'High' },
+  { value: 3, label: 'Critical' },
+];
+
+// Postings without role criteria count preferred skills at half weight
+export const DEFAULT_REQUIRED_WEIGHT = 1;
+export const DEFAULT_PREFERRED_WEIGHT = 0.5;
+
+// Share of the score that comes from experience when the job sets a minimum
+const EXPERIENCE_SHARE = 0.2;
+
+export interface MatchCriterion {
+  skill: string
+  required: boolean
+  weight: number
+}
+
+export interface CandidateQualifications {
+  skills: string[]
+  years_experience: number | null
+}
+
+export interface MatchResult {
+  // 0-100, or null when the job gives nothing to score against
+  score: number | null
+  matched_required: string[]
+  missing_required: string[]
+  matched_preferred: string[]
+  missing_preferred: string[]
+  years_experience: number | null
+  min_years_experience: number
+  // Years short of the job's minimum, 0 if it is met
+  experience_gap: number
+}
+
+export type MatchLevel = 'strong' | 'partial' | 'weak';
+
+export const MATCH_LEVEL_LABELS: Record<MatchLevel, string> = {
+  strong: 'Strong match',
+  partial: 'Partial match',
+  weak: 'Weak match',
+};
+
+export function getMatchLevel(score: number): MatchLevel {
+  if (score >= 75) return 'strong';
+  if (score >= 50) return 'partial';
+  return 'weak';
+}
+
+// Skills are weighted by their dictionary name, so "nodejs" and "Node.js" share one
+export const getSkillKey = (skill: string) => canonicalSkill(skill).toLowerCase();
+
+export const getDefaultWeight = (required: boolean) =>
+  required ? DEFAULT_REQUIRED_WEIGHT : DEFAULT_PREFERRED_WEIGHT;
+
+/**
+ * Weights from a job's saved role criteria, keyed by getSkillKey.
+ */
+export function getSkillWeights(roleCriteria: RoleCriterion[]): Record<string, number> {
+  return Object.fromEntries(
+    roleCriteria.map((criterion) => [getSkillKey(criterion.skill_name), Number(criterion.weight)])
+  );
+}
+
+/**
+ * Role criteria rows for a posting's skill lists. Skills the employer has
+ * not weighted get the default for required or preferred skills.
+ */
+export function buildRoleCriteria(
+  requiredSkills: string[],
+  preferredSkills: string[],
+  weights: Record<string, number>
+): Omit<RoleCriterionInsert, 'job_opening_id'>[] {
+  const toCriterion = (skill: string, required: boolean) => ({
+    skill_name: skill,
+    is_required: required,
+    weight: weights[getSkillKey(skill)] ?? getDefaultWeight(required),
+  });
+
+  return [
+    ...requiredSkills.map((skill) => toCriterion(skill, true)),
+    ...preferredSkills.map((skill) => toCriterion(skill, false)),
+  ];
+}
+
+/**
+ * The skills a job is scored against: its role criteria if it has any,
+ * otherwise the posting's required and preferred skill lists.
+ */
+export function getMatchCriteria(
+  job: Pick<JobOpeningEnhanced, 'id' | 'required_skills' | 'preferred_skills'>,
+  roleCriteria: RoleCriterion[]
+): MatchCriterion[] {
+  const jobCriteria = roleCriteria.filter((criterion) => criterion.job_opening_id === job.id);
+  if (jobCriteria.length > 0) {
+    return jobCriteria.map((criterion) => ({
+      skill: criterion.skill_name,
+      required: criterion.is_required,
+      weight: Number(criterion.weight),
+    }));
+  }
+
+  return [
+    ...(job.required_skills ?? []).map((skill) => ({ skill, required: true, weight: getDefaultWeight(true) })),
+    ...(job.preferred_skills ?? []).map((skill) => ({ skill, required: false, weight: getDefaultWeight(false) })),
+  ];
+}
+
+/**
+ * What the applicant brings: profile skills plus anything the CV analysis
+ * found, and the higher of the two experience figures.
+ */
+export function getCandidateQualifications(
+  profile?: Pick<UserProfileEnhanced, 'skills' | 'years_experience'> | null,
+  cvAnalysis?: DocumentAnalysisResult | null
+): CandidateQualifications {
+  const years = [profile?.years_experience, cvAnalysis?.years_experience]
+    .filter((value): value is number => typeof value === 'number');
+
+  return {
+    skills: [...(profile?.skills ?? []), ...(cvAnalysis?.skills ?? [])],
+    years_experience: years.length > 0 ? Math.max(...years) : null,
+  };
+}
+
+/**
+ * Score an applicant against a job. Each criterion contributes its weight
+ * when the applicant has the skill; experience below the job's minimum
+ * reduces the experience share proportionally.
+ */
+export function calculateMatch(
+  criteria: MatchCriterion[],
+  minYearsExperience: number,
+  candidate: CandidateQualifications
+): MatchResult {
+  const candidateSkills = new Set(candidate.skills.map(getSkillKey));
+  const hasSkill = (skill: string) => candidateSkills.has(getSkillKey(skill));
+
+  const result: MatchResult = {
+    score: null,
+    matched_required: [],
+    missing_required: [],
+    matched_preferred: [],
+    missing_preferred: [],
+    years_experience: candidate.years_experience,
+    min_years_experience: minYearsExperience,
+    experience_gap: Math.max(0, minYearsExperience - (candidate.years_experience ?? 0)),
+  };
+
+  let totalWeight = 0;
+  let matchedWeight = 0;
+  for (const criterion of criteria) {
+    const matched = hasSkill(criterion.skill);
+    totalWeight += criterion.weight;
+    if (matched) matchedWeight += criterion.weight;
+
+    if (criterion.required) {
+      (matched ? result.matched_required : result.missing_required).push(criterion.skill);
+    } else {
+      (matched ? result.matched_preferred : result.missing_preferred).push(criterion.skill);
+    }
+  }
+
+  const skillScore = totalWeight > 0 ? matchedWeight / totalWeight : null;
+  const experienceScore = minYearsExperience > 0
+    ? Math.min(1, (candidate.years_experience ?? 0) / minYearsExperience)
+    : null;
+
+  if (skillScore !== null && experienceScore !== null) {
+    result.score = Math.round(100 * (skillScore * (1 - EXPERIENCE_SHARE) + experienceScore * EXPERIENCE_SHARE));
+  } else if (skillScore !== null || experienceScore !== null) {
+    result.score = Math.round(100 * (skillScore ?? experienceScore ?? 0));
+  }
+
+  return result;
+}
+
+// Has every required skill and the minimum experience
+export const meetsRequirements = (match: MatchResult) =>
+  match.missing_required.length === 0 && match.experience_gap === 0;
+
+export interface MatchFinding {
+  text: string
+  // False for gaps against the job's requirements
+  met: boolean
+}
+
+/**
+ * One finding per line, for showing why an applicant scored as they did.
+ */
+export function describeMatch(match: MatchResult): MatchFinding[] {
+  const findings: MatchFinding[] = [];
+
+  if (match.missing_required.length > 0) {
+    findings.push({ text: `Missing required: ${match.missing_required.join(', ')}`, met: false });
+  }
+  if (match.matched_required.length > 0) {
+    findings.push({ text: `Has required: ${match.matched_required.join(', ')}`, met: true });
+  }
+  if (match.matched_preferred.length > 0) {
+    findings.push({ text: `Has preferred: ${match.matched_preferred.join(', ')}`, met: true });
+  }
+  if (match.experience_gap > 0) {
+    const gap = Math.round(match.experience_gap * 10) / 10;
+    findings.push({
+      text: `${gap} ${gap === 1 ? 'year' : 'years'} short of the ${match.min_years_experience} required`,
+      met: false,
+    });
+  } else if (match.min_years_experience > 0) {
+    findings.push({ text: `Meets the ${match.min_years_experience}-year experience minimum`, met: true });
+  }
+
+  return findings;
+}
@@ -0,0 +1,76 @@
+// @mentions in hiring team notes. A mention is "@" followed by a teammate's
+// full name as shown in the suggestions, e.g. "@Amina Odhiambo".
+
+export interface MentionCandidate {
+  userId: string
+  name: string
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Longest names first so "@Ann Lee" is not read as a mention of "Ann"
+const buildMentionPattern = (candidates: MentionCandidate[]) => {
+  const names = candidates
+    .map((candidate) => candidate.name.trim())
+    .filter(Boolean)
+    .sort((a, b) => b.length - a.length)
+    .map(escapeRegExp);
+  return names.length > 0 ? new RegExp(`(?<![\\p{L}\\p{N}])@(${names.join('|')})(?![\\p{L}\\p{N}])`, 'giu') : null;
+};
+
+const findCandidate = (candidates: MentionCandidate[], name: string) =>
+  candidates.find((candidate) => candidate.name.trim().toLowerCase() === name.toLowerCase());
+
+/**
+ * The user IDs of teammates mentioned in a note, each once.
+ */
+export function findMentions(body: string, candidates: MentionCandidate[]): string[] {
+  const pattern = buildMentionPattern(candidates);
+  if (!pattern) return [];
+
+  const userIds = new Set<string>();
+  for (const match of body.matchAll(pattern)) {
+    const candidate = findCandidate(candidates, match[1]);
+    if (candidate) userIds.add(candidate.userId);
+  }
+  return Array.from(userIds);
+}
+
+/**
+ * A note split into plain text and mentions, for highlighting. Only names of
+ * the users the note actually mentions are treated as mentions.
+ */
+export function splitMentions(
+  body: string,
+  candidates: MentionCandidate[]
+): { text: string; userId?: string }[] {
+  const pattern = buildMentionPattern(candidates);
+  if (!pattern) return [{ text: body }];
+
+  const parts: { text: string; userId?: string }[] = [];
+  let last = 0;
+  for (const match of body.matchAll(pattern)) {
+    const candidate = findCandidate(candidates, match[1]);
+    if (!candidate || match.index === undefined) continue;
+    if (match.index > last) parts.push({ text: body.slice(last, match.index) });
+    parts.push({ text: match[0], userId: candidate.userId });
+    last = match.index + match[0].length;
+  }
+  if (last < body.length) parts.push({ text: body.slice(last) });
+  return parts;
+}
+
+/**
+ * The partial name being typed after an "@" just before the caret, or null
+ * when the caret is not in a mention. Used to show suggestions.
+ */
+export function getMentionQuery(text: string, caret: number): { query: string; start: number } | null {
+  const before = text.slice(0, caret);
+  const at = before.lastIndexOf('@');
+  if (at === -1) return null;
+  // The "@" must start a word, and a mention does not span lines
+  if (at > 0 && !/\s/.test(before[at - 1])) return null;
+  const query = before.slice(at + 1);
+  if (query.includes('\n') || query.length > 40) return null;
+  return { query, start: at };
+}
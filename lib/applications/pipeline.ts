@@ -0,0 +1,86 @@
+import type { ApplicationStageHistory, ApplicationStatus } from "@/lib/types/enhanced-database";
+
+export interface PipelineStage {
+  status: ApplicationStatus;
+  label: string;
+  terminal: boolean;
+}
+
+// Column order for the applicant pipeline board, left to right
+export const PIPELINE_STAGES: PipelineStage[] = [
+  { status: 'submitted', label: 'Submitted', terminal: false },
+  { status: 'screening', label: 'Screening', terminal: false },
+  { status: 'assessment', label: 'Assessment', terminal: false },
+  { status: 'interview', label: 'Interview', terminal: false },
+  { status: 'reference_check', label: 'Reference Check', terminal: false },
+  { status: 'offer_pending', label: 'Offer Pending', terminal: false },
+  { status: 'offer_extended', label: 'Offer Extended', terminal: false },
+  { status: 'hired', label: 'Hired', terminal: true },
+  { status: 'rejected', label: 'Rejected', terminal: true },
+  { status: 'withdrawn', label: 'Withdrawn', terminal: true },
+];
+
+export function getStageLabel(status: ApplicationStatus): string {
+  return PIPELINE_STAGES.find((stage) => stage.status === status)?.label ?? status;
+}
+
+/**
+ * Build the history entry recorded when an application moves between stages.
+ */
+export function buildStageHistoryEntry(
+  previousStatus: ApplicationStatus,
+  nextStatus: ApplicationStatus,
+  changedBy: string,
+  notes?: string
+): ApplicationStageHistory {
+  const entry: ApplicationStageHistory = {
+    stage: nextStatus,
+    previous_stage: previousStatus,
+    timestamp: new Date().toISOString(),
+    changed_by: changedBy,
+  };
+
+  const trimmedNotes = notes?.trim();
+  if (trimmedNotes) {
+    entry.notes = trimmedNotes;
+  }
+
+  return entry;
+}
+
+/**
+ * When the application entered its current stage - the latest history entry,
+ * or the submission time if it has never moved.
+ */
+export function getStageEnteredAt(
+  stageHistory: ApplicationStageHistory[] | null | undefined,
+  submittedAt: string
+): string {
+  if (!stageHistory || stageHistory.length === 0) return submittedAt;
+  return stageHistory[stageHistory.length - 1].timestamp;
+}
+
+/**
+ * The applications either side of the current one in pipeline order: by
+ * stage, left to right as on the board, then oldest submission first.
+ */
+export function getPipelineNeighbours<T extends { id: string; status: ApplicationStatus; submitted_at: string }>(
+  applications: T[],
+  currentId: string
+): { previous: T | null; next: T | null; position: number; total: number } {
+  const stageIndex = (status: ApplicationStatus) => {
+    const index = PIPELINE_STAGES.findIndex((stage) => stage.status === status);
+    return index === -1 ? PIPELINE_STAGES.length : index;
+  };
+  const ordered = [...applications].sort((a, b) =>
+    stageIndex(a.status) - stageIndex(b.status) || a.submitted_at.localeCompare(b.submitted_at)
+  );
+  const index = ordered.findIndex((application) => application.id === currentId);
+
+  return {
+    previous: index > 0 ? ordered[index - 1] : null,
+    next: index !== -1 && index < ordered.length - 1 ? ordered[index + 1] : null,
+    position: index + 1,
+    total: ordered.length,
+  };
+}
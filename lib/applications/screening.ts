@@ -0,0 +1,143 @@
+import { z } from "zod";
+import type { ScreeningAnswer, ScreeningQuestion } from "@/lib/types/enhanced-database";
+
+export type ScreeningQuestionType = ScreeningQuestion['type'];
+
+export const SCREENING_QUESTION_TYPES: { type: ScreeningQuestionType; label: string }[] = [
+  { type: 'text', label: 'Short answer' },
+  { type: 'multiple_choice', label: 'Multiple choice' },
+  { type: 'yes_no', label: 'Yes / No' },
+  { type: 'rating', label: 'Rating (1-5)' },
+  { type: 'file_upload', label: 'File upload' },
+];
+
+export const RATING_SCALE = 5;
+
+// Only these types can carry a knock-out rule
+export const KNOCKOUT_QUESTION_TYPES: ScreeningQuestionType[] = ['multiple_choice', 'yes_no', 'rating'];
+
+export function createScreeningQuestion(type: ScreeningQuestionType): ScreeningQuestion {
+  return {
+    id: crypto.randomUUID(),
+    question: '',
+    type,
+    required: true,
+    ...(type === 'multiple_choice' ? { options: ['', ''] } : {}),
+    ...(type === 'text' ? { max_length: 500 } : {}),
+  };
+}
+
+export const ScreeningQuestionSchema = z.object({
+  id: z.string().min(1),
+  question: z.string().trim().min(3, { message: "Each screening question needs some text." }),
+  type: z.enum(['text', 'multiple_choice', 'yes_no', 'rating', 'file_upload']),
+  required: z.boolean(),
+  options: z.array(z.string().trim().min(1, { message: "Options cannot be empty." })).optional(),
+  max_length: z.number().int().min(1).max(5000).optional(),
+  placeholder: z.string().optional(),
+  knockout: z.object({
+    accepted_answers: z.array(z.union([z.string(), z.boolean()])).min(1).optional(),
+    min_rating: z.number().int().min(1).max(RATING_SCALE).optional(),
+  }).optional(),
+}).superRefine((question, ctx) => {
+  if (question.type === 'multiple_choice' && (question.options?.length ?? 0) < 2) {
+    ctx.addIssue({ code: 'custom', message: "Multiple choice questions need at least two options.", path: ['options'] });
+  }
+  if (question.knockout && !KNOCKOUT_QUESTION_TYPES.includes(question.type)) {
+    ctx.addIssue({ code: 'custom', message: "Knock-out rules only apply to choice and rating questions.", path: ['knockout'] });
+  }
+  const invalidAnswer = question.type === 'multiple_choice'
+    && question.knockout?.accepted_answers?.find((answer) => !question.options?.includes(String(answer)));
+  if (invalidAnswer) {
+    ctx.addIssue({ code: 'custom', message: `"${invalidAnswer}" is not one of the options.`, path: ['knockout'] });
+  }
+});
+
+/**
+ * Human-readable summary of a knock-out rule, e.g. "Must answer Yes".
+ */
+export function describeKnockout(question: ScreeningQuestion): string | null {
+  const rule = question.knockout;
+  if (!rule) return null;
+
+  if (rule.min_rating != null) {
+    return `Must rate ${rule.min_rating} or higher`;
+  }
+  if (rule.accepted_answers?.length) {
+    const answers = rule.accepted_answers.map((answer) =>
+      typeof answer === 'boolean' ? (answer ? 'Yes' : 'No') : answer
+    );
+    return `Must answer ${answers.join(' or ')}`;
+  }
+  return null;
+}
+
+// An answer as the hiring team reads it, e.g. "Yes" or "4 / 5"
+export function formatScreeningAnswer(question: ScreeningQuestion | undefined, answer: ScreeningAnswer): string {
+  const value = answer.answer;
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (Array.isArray(value)) return value.join(', ');
+  if (question?.type === 'rating') return `${value} / ${RATING_SCALE}`;
+  return String(value);
+}
+
+const isBlank = (answer: ScreeningAnswer | undefined) =>
+  !answer
+  || answer.answer === ''
+  || (Array.isArray(answer.answer) && answer.answer.length === 0);
+
+/**
+ * Check answers against the job's questions. Returns a message per failing
+ * question ID; an empty object means the answers can be submitted.
+ * Knock-out rules are not checked here, they are applied when the
+ * application is inserted (see queries/screening-knockouts.sql).
+ */
+export function validateScreeningAnswers(
+  questions: ScreeningQuestion[],
+  answers: ScreeningAnswer[]
+): Record<string, string> {
+  const errors: Record<string, string> = {};
+  const answerMap = new Map(answers.map((answer) => [answer.question_id, answer]));
+
+  for (const question of questions) {
+    const answer = answerMap.get(question.id);
+
+    if (isBlank(answer)) {
+      if (question.required) errors[question.id] = 'This question is required.';
+      continue;
+    }
+
+    const value = answer!.answer;
+    switch (question.type) {
+      case 'text':
+        if (typeof value !== 'string') {
+          errors[question.id] = 'Please enter a text answer.';
+        } else if (question.max_length && value.length > question.max_length) {
+          errors[question.id] = `Please keep your answer under ${question.max_length} characters.`;
+        }
+        break;
+      case 'multiple_choice':
+        if (typeof value !== 'string' || !question.options?.includes(value)) {
+          errors[question.id] = 'Please choose one of the options.';
+        }
+        break;
+      case 'yes_no':
+        if (typeof value !== 'boolean') {
+          errors[question.id] = 'Please answer yes or no.';
+        }
+        break;
+      case 'rating':
+        if (typeof value !== 'number' || !Number.isInteger(value) || value < 1 || value > RATING_SCALE) {
+          errors[question.id] = `Please choose a rating from 1 to ${RATING_SCALE}.`;
+        }
+        break;
+      case 'file_upload':
+        if (!answer!.file_url) {
+          errors[question.id] = 'Please upload a file.';
+        }
+        break;
+    }
+  }
+
+  return errors;
+}
@@ -0,0 +1,203 @@
+import { describe, expect, it } from "vitest";
+import {
+  ALLOWED_TRANSITIONS,
+  ApplicationTransitionError,
+  canTransition,
+  getAllowedTransitions,
+  isTerminalStatus,
+  planTransition,
+  type TransitionActor,
+  type TransitionRequest,
+} from "@/lib/applications/transitions";
+import { PIPELINE_STAGES } from "@/lib/applications/pipeline";
+import type { ApplicationStageHistory, ApplicationStatus } from "@/lib/types/enhanced-database";
+
+const STATUSES = PIPELINE_STAGES.map((stage) => stage.status);
+const NOW = new Date('2026-03-01T12:00:00.000Z');
+
+function application(status: ApplicationStatus, overrides: {
+  stage_history?: ApplicationStageHistory[]
+  viewed_at?: string | null
+  decision_made_at?: string | null
+} = {}) {
+  return { status, stage_history: [], viewed_at: null, decision_made_at: null, ...overrides };
+}
+
+function request(to: ApplicationStatus, overrides: Partial<TransitionRequest> = {}): TransitionRequest {
+  return {
+    to,
+    actor: to === 'withdrawn' ? 'applicant' : 'hiring_team',
+    changedBy: 'user-1',
+    rejectionReason: to === 'rejected' ? 'Not enough experience' : undefined,
+    now: NOW,
+    ...overrides,
+  };
+}
+
+function transitionError(run: () => unknown) {
+  try {
+    run();
+  } catch (error) {
+    expect(error).toBeInstanceOf(ApplicationTransitionError);
+    return error as ApplicationTransitionError;
+  }
+  throw new Error('Expected the transition to be refused');
+}
+
+const allowedEdges = STATUSES.flatMap((from) => ALLOWED_TRANSITIONS[from].map((to) => [from, to] as const));
+const illegalEdges = STATUSES.flatMap((from) =>
+  STATUSES.filter((to) => to !== from && !ALLOWED_TRANSITIONS[from].includes(to)).map((to) => [from, to] as const)
+);
+
+describe('planTransition', () => {
+  it.each(allowedEdges)('allows %s -> %s', (from, to) => {
+    const update = planTransition(application(from), request(to));
+
+    expect(update.status).toBe(to);
+    expect(update.current_stage).toBe(to);
+    expect(update.updated_at).toBe(NOW.toISOString());
+    expect(update.stage_history).toEqual([
+      { stage: to, previous_stage: from, changed_by: 'user-1', timestamp: NOW.toISOString() },
+    ]);
+  });
+
+  it.each(illegalEdges)('refuses %s -> %s', (from, to) => {
+    const error = transitionError(() => planTransition(application(from), request(to)));
+
+    expect(error.code).toBe('illegal_transition');
+    expect(error.from).toBe(from);
+    expect(error.to).toBe(to);
+  });
+
+  it.each(STATUSES)('refuses to leave %s for the same status', (status) => {
+    expect(transitionError(() => planTransition(application(status), request(status))).code).toBe('unchanged_status');
+  });
+
+  it.each(['hired', 'rejected', 'withdrawn'] as const)('treats %s as final', (from) => {
+    expect(isTerminalStatus(from)).toBe(true);
+    for (const to of STATUSES.filter((status) => status !== from)) {
+      expect(transitionError(() => planTransition(application(from), request(to))).code).toBe('illegal_transition');
+    }
+  });
+
+  it('appends to the existing stage history and keeps notes', () => {
+    const earlier: ApplicationStageHistory = {
+      stage: 'screening',
+      previous_stage: 'submitted',
+      changed_by: 'user-2',
+      timestamp: '2026-02-01T00:00:00.000Z',
+    };
+    const update = planTransition(
+      application('screening', { stage_history: [earlier] }),
+      request('interview', { notes: '  Strong portfolio  ' })
+    );
+
+    expect(update.stage_history).toEqual([
+      earlier,
+      {
+        stage: 'interview',
+        previous_stage: 'screening',
+        changed_by: 'user-1',
+        notes: 'Strong portfolio',
+        timestamp: NOW.toISOString(),
+      },
+    ]);
+  });
+});
+
+describe('actors', () => {
+  const nonTerminal = STATUSES.filter((status) => !isTerminalStatus(status));
+
+  it.each(nonTerminal)('lets only the applicant withdraw from %s', (from) => {
+    expect(getAllowedTransitions(from, 'applicant')).toEqual(['withdrawn']);
+    expect(canTransition(from, 'withdrawn', 'hiring_team')).toBe(false);
+
+    const error = transitionError(() => planTransition(application(from), request('withdrawn', { actor: 'hiring_team' })));
+    expect(error.code).toBe('actor_not_allowed');
+    expect(error.message).toBe('Only the applicant can withdraw an application');
+  });
+
+  it.each(allowedEdges.filter(([, to]) => to !== 'withdrawn'))('refuses %s -> %s from the applicant', (from, to) => {
+    expect(canTransition(from, to, 'applicant')).toBe(false);
+
+    const error = transitionError(() => planTransition(application(from), request(to, { actor: 'applicant' })));
+    expect(error.code).toBe('actor_not_allowed');
+    expect(error.message).toBe('Applicants can only withdraw their application');
+  });
+
+  it('gives the hiring team every move except withdrawing', () => {
+    for (const from of STATUSES) {
+      expect(getAllowedTransitions(from, 'hiring_team')).toEqual(
+        ALLOWED_TRANSITIONS[from].filter((to) => to !== 'withdrawn')
+      );
+    }
+  });
+
+  it('defaults to the hiring team', () => {
+    expect(canTransition('submitted', 'screening')).toBe(true);
+    expect(canTransition('submitted', 'withdrawn')).toBe(false);
+  });
+});
+
+describe('rejection reasons', () => {
+  it.each([undefined, '', '   \n'])('requires a reason to reject (%j)', (rejectionReason) => {
+    const error = transitionError(() =>
+      planTransition(application('screening'), request('rejected', { rejectionReason }))
+    );
+    expect(error.code).toBe('rejection_reason_required');
+  });
+
+  it('stores the trimmed reason', () => {
+    const update = planTransition(application('interview'), request('rejected', { rejectionReason: '  Role filled  ' }));
+    expect(update.rejection_reason).toBe('Role filled');
+  });
+
+  it('does not touch the reason for other moves', () => {
+    const update = planTransition(application('interview'), request('offer_pending', { rejectionReason: 'ignored' }));
+    expect(update).not.toHaveProperty('rejection_reason');
+  });
+});
+
+describe('timestamps', () => {
+  it('marks the application viewed on the first hiring-team move', () => {
+    expect(planTransition(application('submitted'), request('screening')).viewed_at).toBe(NOW.toISOString());
+  });
+
+  it('keeps an earlier viewed_at', () => {
+    const update = planTransition(application('submitted', { viewed_at: '2026-02-01T00:00:00.000Z' }), request('screening'));
+    expect(update).not.toHaveProperty('viewed_at');
+  });
+
+  it('does not mark the application viewed when the applicant withdraws', () => {
+    expect(planTransition(application('submitted'), request('withdrawn')).viewed_at).toBeUndefined();
+  });
+
+  it.each([
+    ['offer_extended', 'hired'],
+    ['screening', 'rejected'],
+  ] as const)('records the decision time for %s -> %s', (from, to) => {
+    expect(planTransition(application(from), request(to)).decision_made_at).toBe(NOW.toISOString());
+  });
+
+  it('keeps an earlier decision time', () => {
+    const update = planTransition(
+      application('offer_extended', { decision_made_at: '2026-02-01T00:00:00.000Z' }),
+      request('hired')
+    );
+    expect(update).not.toHaveProperty('decision_made_at');
+  });
+
+  it.each(allowedEdges.filter(([, to]) => to !== 'hired' && to !== 'rejected'))(
+    'records no decision for %s -> %s',
+    (from, to) => {
+      expect(planTransition(application(from), request(to)).decision_made_at).toBeUndefined();
+    }
+  );
+
+  it.each<[TransitionActor, ApplicationStatus]>([
+    ['hiring_team', 'screening'],
+    ['applicant', 'withdrawn'],
+  ])('stamps updated_at for the %s', (actor, to) => {
+    expect(planTransition(application('submitted'), request(to, { actor })).updated_at).toBe(NOW.toISOString());
+  });
+});
@@ -0,0 +1,132 @@
+import type {
+  ApplicationStageHistory,
+  ApplicationStatus,
+  JobApplicationEnhanced,
+  JobApplicationEnhancedUpdate,
+} from "@/lib/types/enhanced-database";
+import { buildStageHistoryEntry } from "@/lib/applications/pipeline";
+
+// Who is asking for the change. Applicants may only withdraw; everything else
+// is a hiring-team decision.
+export type TransitionActor = 'hiring_team' | 'applicant';
+
+export type ApplicationTransitionErrorCode =
+  | 'unchanged_status'
+  | 'illegal_transition'
+  | 'actor_not_allowed'
+  | 'rejection_reason_required';
+
+export class ApplicationTransitionError extends Error {
+  readonly code: ApplicationTransitionErrorCode;
+  readonly from: ApplicationStatus;
+  readonly to: ApplicationStatus;
+
+  constructor(code: ApplicationTransitionErrorCode, from: ApplicationStatus, to: ApplicationStatus, message: string) {
+    super(message);
+    this.name = 'ApplicationTransitionError';
+    this.code = code;
+    this.from = from;
+    this.to = to;
+  }
+}
+
+// Legal next statuses for each status. Stages can be skipped going forward,
+// but an application never moves backwards and terminal states are final.
+export const ALLOWED_TRANSITIONS: Record<ApplicationStatus, ApplicationStatus[]> = {
+  submitted: ['screening', 'assessment', 'interview', 'rejected', 'withdrawn'],
+  screening: ['assessment', 'interview', 'rejected', 'withdrawn'],
+  assessment: ['interview', 'rejected', 'withdrawn'],
+  interview: ['reference_check', 'offer_pending', 'rejected', 'withdrawn'],
+  reference_check: ['offer_pending', 'rejected', 'withdrawn'],
+  offer_pending: ['offer_extended', 'rejected', 'withdrawn'],
+  offer_extended: ['hired', 'rejected', 'withdrawn'],
+  hired: [],
+  rejected: [],
+  withdrawn: [],
+};
+
+const DECISION_STATUSES: ApplicationStatus[] = ['hired', 'rejected'];
+
+export function isTerminalStatus(status: ApplicationStatus): boolean {
+  return ALLOWED_TRANSITIONS[status].length === 0;
+}
+
+export function getAllowedTransitions(from: ApplicationStatus, actor: TransitionActor = 'hiring_team'): ApplicationStatus[] {
+  return ALLOWED_TRANSITIONS[from].filter((to) =>
+    actor === 'applicant' ? to === 'withdrawn' : to !== 'withdrawn'
+  );
+}
+
+export function canTransition(from: ApplicationStatus, to: ApplicationStatus, actor: TransitionActor = 'hiring_team'): boolean {
+  return getAllowedTransitions(from, actor).includes(to);
+}
+
+export interface TransitionRequest {
+  to: ApplicationStatus;
+  actor: TransitionActor;
+  changedBy: string;
+  notes?: string;
+  rejectionReason?: string;
+  now?: Date;
+}
+
+type TransitionSource = Pick<JobApplicationEnhanced, 'status' | 'stage_history' | 'viewed_at' | 'decision_made_at'>;
+
+/**
+ * Validate a status change and build the update to persist for it.
+ * Throws ApplicationTransitionError when the change is not allowed.
+ */
+export function planTransition(application: TransitionSource, request: TransitionRequest): JobApplicationEnhancedUpdate {
+  const from = application.status;
+  const { to, actor } = request;
+
+  if (from === to) {
+    throw new ApplicationTransitionError('unchanged_status', from, to, `Application is already ${to}`);
+  }
+
+  if (!ALLOWED_TRANSITIONS[from].includes(to)) {
+    throw new ApplicationTransitionError('illegal_transition', from, to, `Cannot move an application from ${from} to ${to}`);
+  }
+
+  if (!canTransition(from, to, actor)) {
+    throw new ApplicationTransitionError(
+      'actor_not_allowed',
+      from,
+      to,
+      actor === 'applicant' ? 'Applicants can only withdraw their application' : 'Only the applicant can withdraw an application'
+    );
+  }
+
+  const rejectionReason = request.rejectionReason?.trim();
+  if (to === 'rejected' && !rejectionReason) {
+    throw new ApplicationTransitionError('rejection_reason_required', from, to, 'A rejection reason is required');
+  }
+
+  const timestamp = (request.now ?? new Date()).toISOString();
+  const entry: ApplicationStageHistory = {
+    ...buildStageHistoryEntry(from, to, request.changedBy, request.notes),
+    timestamp,
+  };
+
+  const update: JobApplicationEnhancedUpdate = {
+    status: to,
+    current_stage: to,
+    stage_history: [...(application.stage_history || []), entry],
+    updated_at: timestamp,
+  };
+
+  // Any move by the hiring team means the application has been looked at
+  if (!application.viewed_at && actor === 'hiring_team') {
+    update.viewed_at = timestamp;
+  }
+
+  if (DECISION_STATUSES.includes(to) && !application.decision_made_at) {
+    update.decision_made_at = timestamp;
+  }
+
+  if (to === 'rejected') {
+    update.rejection_reason = rejectionReason;
+  }
+
+  return update;
+}
@@ -0,0 +1,69 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { createRepository } from "@/lib/supabase/repository";
+import type { AssessmentAttempt, Database, SkillAssessment } from "@/lib/types/enhanced-database";
+
+/**
+ * Whether a user may take an assessment: it is in the public library, it is
+ * attached to an open job, or the user belongs to the company that owns it.
+ * Archived assessments cannot be started. Expects the admin client, since
+ * candidates cannot read assessments directly.
+ */
+export async function canTakeAssessment(
+  supabase: SupabaseClient<Database>,
+  assessment: Pick<SkillAssessment, 'id' | 'is_public' | 'company_id' | 'archived_at'>,
+  userId: string
+): Promise<boolean> {
+  if (assessment.archived_at) return false;
+  if (assessment.is_public) return true;
+
+  const { count, error } = await supabase
+    .from('job_openings_enhanced')
+    .select('id', { count: 'exact', head: true })
+    .eq('assessment_id', assessment.id)
+    .eq('status', 'active');
+
+  if (error) throw error;
+  if (count) return true;
+
+  if (!assessment.company_id) return false;
+
+  const { data: membership, error: membershipError } = await supabase
+    .from('company_members')
+    .select('id')
+    .eq('company_id', assessment.company_id)
+    .eq('user_id', userId)
+    .eq('status', 'active')
+    .maybeSingle();
+
+  if (membershipError) throw membershipError;
+  return !!membership;
+}
+
+/**
+ * The assessment as it was when the attempt started. If it has been edited
+ * since, the questions, time limit and passing score come from the version
+ * snapshot so the attempt is graded against what the candidate saw.
+ */
+export async function getAttemptAssessment(
+  supabase: SupabaseClient<Database>,
+  attempt: Pick<AssessmentAttempt, 'assessment_id' | 'assessment_version'>
+): Promise<SkillAssessment | null> {
+  const repo = createRepository(supabase);
+  const assessment = await repo.assessments.get(attempt.assessment_id);
+  if (!assessment || !attempt.assessment_version || attempt.assessment_version === assessment.version) {
+    return assessment;
+  }
+
+  const snapshot = await repo.assessments.getVersion(assessment.id, attempt.assessment_version);
+  if (!snapshot) return assessment;
+
+  return {
+    ...assessment,
+    title: snapshot.title,
+    description: snapshot.description,
+    questions: snapshot.questions,
+    time_limit_minutes: snapshot.time_limit_minutes,
+    passing_score: Number(snapshot.passing_score),
+    version: snapshot.version,
+  };
+}
@@ -0,0 +1,139 @@
+import { describe, expect, it } from "vitest";
+import {
+  CODE_RUN_LIMITS,
+  CODE_RUN_USER_LIMITS,
+  CodeRunLimitError,
+  runCode,
+  runTestCases,
+  startUserCodeRun,
+} from "@/lib/assessments/code-runner";
+
+const run = (code: string, input = '') => runCode(code, 'javascript', input);
+
+describe('runCode', () => {
+  it('captures what the code prints', async () => {
+    const result = await run('console.log(input.split(" ").map(Number).reduce((a, b) => a + b, 0))', '2 3');
+    expect(result).toMatchObject({ status: 'ok', stdout: '5\n' });
+  });
+
+  it('transpiles TypeScript', async () => {
+    const result = await runCode('const double = (n: number): number => n * 2;\nconsole.log(double(21));', 'typescript', '');
+    expect(result).toMatchObject({ status: 'ok', stdout: '42\n' });
+  });
+
+  it('reports thrown errors with the output so far', async () => {
+    const result = await run('console.log("before"); throw new Error("broken")');
+    expect(result.status).toBe('error');
+    expect(result.stdout).toBe('before\n');
+    expect(result.error).toContain('broken');
+  });
+
+  it('truncates long output', async () => {
+    const result = await run('for (let i = 0; i < 100000; i++) console.log("line " + i)');
+    expect(result.status).toBe('ok');
+    expect(result.stdout).toHaveLength(CODE_RUN_LIMITS.maxOutputLength);
+  });
+
+  it('stops infinite loops', async () => {
+    const result = await runCode('while (true) {}', 'javascript', '', { ...CODE_RUN_LIMITS, cpuTimeMs: 200 });
+    expect(result.status).toBe('timeout');
+  });
+
+  it('stops code that runs past the wall-clock limit', async () => {
+    const result = await runCode('while (true) {}', 'javascript', '', { ...CODE_RUN_LIMITS, cpuTimeMs: 60000, wallTimeMs: 500 });
+    expect(result.status).toBe('timeout');
+  });
+
+  it('stops code that uses too much memory', async () => {
+    const result = await run('const chunks = []; while (true) chunks.push(new Array(1e6).fill(Math.random()));');
+    expect(result.status).toBe('memory_limit');
+  }, 20000);
+});
+
+describe('runCode with escape attempts', () => {
+  it.each([
+    ['process', 'console.log(typeof process)'],
+    ['require', 'console.log(typeof require)'],
+    ['globalThis.process', 'console.log(typeof globalThis.process)'],
+    ['timers', 'console.log(typeof setTimeout + " " + typeof setInterval)'],
+  ])('hides %s', async (_, code) => {
+    const result = await run(code);
+    expect(result.status).toBe('ok');
+    expect(result.stdout).not.toContain('function');
+    expect(result.stdout).not.toContain('object');
+  });
+
+  it.each([
+    ['the Function constructor', 'Function("return process")()'],
+    ['a constructor chain', 'this.constructor.constructor("return process")()'],
+    ['the console', 'console.log.constructor("return process")()'],
+    ['the input', 'input.constructor.constructor("return process")()'],
+    ['eval', 'eval("process")'],
+  ])('blocks code generation through %s', async (_, code) => {
+    const result = await run(`console.log(typeof (${code}))`);
+    expect(result.status).toBe('error');
+    expect(result.stdout).toBe('');
+  });
+
+  it('cannot reach the host through an error thrown by the sandbox', async () => {
+    const result = await run(`
+      try { null.x } catch (e) {
+        const host = e.constructor.constructor;
+        console.log(host === Function);
+        host('return process')();
+      }
+    `);
+    expect(result.status).toBe('error');
+    expect(result.stdout).toBe('true\n');
+  });
+
+  it('cannot import modules', async () => {
+    const result = await run('import("node:fs").then((fs) => console.log(fs.readFileSync("/etc/passwd", "utf8")))');
+    expect(result.stdout).toBe('');
+  });
+
+  it('runs in a process without the server environment', async () => {
+    process.env.CODE_RUNNER_TEST_SECRET = 'secret';
+    try {
+      // Even a full escape would only find the child's empty environment
+      const result = await run('console.log(JSON.stringify(Object.keys(this)))');
+      expect(result.stdout).not.toContain('CODE_RUNNER_TEST_SECRET');
+      expect(result.stdout).not.toContain('secret');
+    } finally {
+      delete process.env.CODE_RUNNER_TEST_SECRET;
+    }
+  });
+});
+
+describe('runTestCases', () => {
+  it('hides the output of hidden test cases', async () => {
+    const results = await runTestCases('console.log(Number(input) * 2)', 'javascript', [
+      { id: 'a', input: '2', expected_output: '4', hidden: false },
+      { id: 'b', input: '3', expected_output: '7', hidden: true },
+    ]);
+    expect(results).toMatchObject([
+      { test_case_id: 'a', passed: true, status: 'passed', actual_output: '4\n' },
+      { test_case_id: 'b', passed: false, status: 'failed' },
+    ]);
+    expect(results[1]).not.toHaveProperty('actual_output');
+  });
+});
+
+describe('startUserCodeRun', () => {
+  it('allows one run at a time per user', () => {
+    const finish = startUserCodeRun('user-concurrent');
+    expect(() => startUserCodeRun('user-concurrent')).toThrow(CodeRunLimitError);
+    expect(() => startUserCodeRun('user-other')()).not.toThrow();
+    finish();
+    expect(() => startUserCodeRun('user-concurrent')()).not.toThrow();
+  });
+
+  it('limits runs per minute', () => {
+    const start = Date.parse('2026-01-01T00:00:00Z');
+    for (let i = 0; i < CODE_RUN_USER_LIMITS.runsPerMinute; i++) {
+      startUserCodeRun('user-busy', start + i)();
+    }
+    expect(() => startUserCodeRun('user-busy', start + 30_000)).toThrow(CodeRunLimitError);
+    expect(() => startUserCodeRun('user-busy', start + 61_000)()).not.toThrow();
+  });
+});
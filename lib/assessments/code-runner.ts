@@ -0,0 +1,325 @@
+import { spawn } from "node:child_process";
+import { tmpdir } from "node:os";
+import { getCodingTestCases, outputsMatch } from "@/lib/assessments/coding";
+import type {
+  AssessmentQuestion,
+  CodingLanguage,
+  CodingTestCase,
+  CodingTestResult,
+} from "@/lib/types/enhanced-database";
+
+/**
+ * Limits for a single run. The CPU limit is enforced inside the child
+ * process by vm's timeout; the wall-clock limit kills the process from
+ * outside in case the CPU limit is somehow sidestepped.
+ */
+export const CODE_RUN_LIMITS = {
+  cpuTimeMs: 2000,
+  wallTimeMs: 5000,
+  memoryMb: 64,
+  maxOutputLength: 10000,
+};
+
+export type CodeRunLimits = typeof CODE_RUN_LIMITS;
+
+/**
+ * How much one user may run: one request at a time, and a number of
+ * requests per minute. Kept in memory, so each server instance counts
+ * separately.
+ */
+export const CODE_RUN_USER_LIMITS = {
+  runsPerMinute: 20,
+};
+
+// Processes running candidate code at once, across all users; the rest queue
+const MAX_PARALLEL_RUNS = 2;
+
+export interface CodeRunResult {
+  status: 'ok' | 'error' | 'timeout' | 'memory_limit';
+  stdout: string;
+  error?: string;
+  duration_ms: number;
+}
+
+export class CodeRunLimitError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CodeRunLimitError';
+  }
+}
+
+// Runs in the child process, which reads its job as JSON on stdin and writes
+// the result as JSON on stdout. Candidate code gets a fresh V8 context with
+// no require, process, timers or host objects; `input` and `console` are
+// created inside that context so nothing from this realm leaks in. The
+// process itself is the boundary: it has an empty environment and, where
+// Node supports it, no file system, child process or worker access.
+const CHILD_SOURCE = `
+'use strict';
+const vm = require('node:vm');
+
+const PRELUDE = (maxOutputLength) => \`
+  var __output = '';
+  var __truncated = false;
+  var __format = (value) => {
+    if (typeof value === 'string') return value;
+    try { return JSON.stringify(value) ?? String(value); } catch (e) { return String(value); }
+  };
+  var __write = (...args) => {
+    if (__truncated) return;
+    __output += args.map(__format).join(' ') + '\\\\n';
+    if (__output.length > \${maxOutputLength}) {
+      __output = __output.slice(0, \${maxOutputLength});
+      __truncated = true;
+    }
+  };
+  var __console = Object.freeze({ log: __write, info: __write, warn: __write, error: __write, debug: __write });
+\`;
+
+function run({ source, input, cpuTimeMs, maxOutputLength }) {
+  // A null-prototype sandbox, so globalThis.constructor is the context's own (blocked) Function
+  const context = vm.createContext(Object.create(null), {
+    codeGeneration: { strings: false, wasm: false },
+    microtaskMode: 'afterEvaluate',
+  });
+  vm.runInContext(PRELUDE(maxOutputLength), context);
+  context.__input = String(input);
+
+  try {
+    vm.runInContext('(function (input, console) {\\n' + source + '\\n})(__input, __console);', context, {
+      filename: 'solution.js',
+      timeout: cpuTimeMs,
+    });
+    return { status: 'ok', stdout: String(vm.runInContext('__output', context, { timeout: 100 })) };
+  } catch (error) {
+    const stdout = String(vm.runInContext('__output', context, { timeout: 100 }));
+    if (error && error.code === 'ERR_SCRIPT_EXECUTION_TIMEOUT') {
+      return { status: 'timeout', stdout, error: 'Time limit exceeded' };
+    }
+    return { status: 'error', stdout, error: String(error && error.stack || error).split('\\n').slice(0, 5).join('\\n') };
+  }
+}
+
+let job = '';
+process.stdin.setEncoding('utf8');
+process.stdin.on('data', (chunk) => { job += chunk; });
+process.stdin.on('end', () => {
+  let result;
+  try {
+    result = run(JSON.parse(job));
+  } catch (error) {
+    result = { status: 'error', stdout: '', error: String(error && error.message || error) };
+  }
+  process.stdout.write(JSON.stringify(result), () => process.exit(0));
+});
+`;
+
+// Node 20 calls the permission model experimental; later versions accept both flags
+const PERMISSION_FLAG = process.allowedNodeEnvironmentFlags.has('--permission')
+  ? '--permission'
+  : '--experimental-permission';
+
+let activeRuns = 0;
+const queuedRuns: (() => void)[] = [];
+
+async function acquireRunSlot(): Promise<() => void> {
+  if (activeRuns < MAX_PARALLEL_RUNS) {
+    activeRuns++;
+  } else {
+    await new Promise<void>((resolve) => queuedRuns.push(resolve));
+  }
+
+  let released = false;
+  return () => {
+    if (released) return;
+    released = true;
+    // Hand the slot straight to the next run in the queue
+    const next = queuedRuns.shift();
+    if (next) next();
+    else activeRuns--;
+  };
+}
+
+const userRuns = new Map<string, { active: boolean; startedAt: number[] }>();
+
+/**
+ * Claim a run for a user, throwing CodeRunLimitError if they already have
+ * one going or have used up this minute's runs. Call the returned function
+ * when the run is over.
+ */
+export function startUserCodeRun(userId: string, now = Date.now()): () => void {
+  // Forget runs older than a minute, and users with nothing left, so the map does not grow forever
+  for (const [id, entry] of userRuns) {
+    entry.startedAt = entry.startedAt.filter((time) => now - time < 60_000);
+    if (!entry.active && entry.startedAt.length === 0) userRuns.delete(id);
+  }
+
+  const runs = userRuns.get(userId) ?? { active: false, startedAt: [] };
+
+  if (runs.active) {
+    throw new CodeRunLimitError('Wait for your last run to finish');
+  }
+  if (runs.startedAt.length >= CODE_RUN_USER_LIMITS.runsPerMinute) {
+    throw new CodeRunLimitError('Too many runs, try again in a minute');
+  }
+
+  runs.active = true;
+  runs.startedAt.push(now);
+  userRuns.set(userId, runs);
+
+  return () => {
+    runs.active = false;
+  };
+}
+
+async function toJavaScript(code: string, language: CodingLanguage): Promise<string> {
+  if (language !== 'typescript') return code;
+
+  const { default: ts } = await import("typescript");
+  return ts.transpileModule(code, {
+    compilerOptions: { target: ts.ScriptTarget.ES2020, module: ts.ModuleKind.None },
+  }).outputText;
+}
+
+async function runJavaScript(source: string, input: string, limits: CodeRunLimits): Promise<CodeRunResult> {
+  const release = await acquireRunSlot();
+  const startedAt = Date.now();
+
+  return new Promise<CodeRunResult>((resolve) => {
+    let settled = false;
+    let stdout = '';
+    let stderr = '';
+
+    const child = spawn(
+      process.execPath,
+      [
+        PERMISSION_FLAG,
+        '--no-warnings',
+        `--max-old-space-size=${limits.memoryMb}`,
+        `--max-semi-space-size=${Math.max(1, Math.floor(limits.memoryMb / 16))}`,
+        '-e',
+        CHILD_SOURCE,
+      ],
+      // A bare environment, so the service role key and other secrets are not visible
+      { env: { NODE_ENV: 'production' }, cwd: tmpdir(), stdio: ['pipe', 'pipe', 'pipe'] }
+    );
+
+    const finish = (result: Omit<CodeRunResult, 'duration_ms'>) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(wallClock);
+      child.kill('SIGKILL');
+      release();
+      resolve({ ...result, duration_ms: Date.now() - startedAt });
+    };
+
+    const wallClock = setTimeout(
+      () => finish({ status: 'timeout', stdout: '', error: 'Time limit exceeded' }),
+      limits.wallTimeMs
+    );
+
+    // The child's own output is a JSON result, so anything far past the
+    // output limit means something has gone wrong
+    const maxLength = limits.maxOutputLength * 8 + 10000;
+    child.stdout.setEncoding('utf8').on('data', (chunk: string) => {
+      stdout += chunk;
+      if (stdout.length > maxLength) {
+        finish({ status: 'error', stdout: '', error: 'The code produced too much output' });
+      }
+    });
+    child.stderr.setEncoding('utf8').on('data', (chunk: string) => {
+      stderr = (stderr + chunk).slice(-10000);
+    });
+
+    child.on('error', (error) => {
+      console.error('Error running candidate code:', error);
+      finish({ status: 'error', stdout: '', error: 'The code could not be run' });
+    });
+    child.on('close', () => {
+      if (/heap out of memory|Allocation failed/i.test(stderr)) {
+        finish({ status: 'memory_limit', stdout: '', error: 'Memory limit exceeded' });
+        return;
+      }
+      try {
+        finish(JSON.parse(stdout) as Omit<CodeRunResult, 'duration_ms'>);
+      } catch {
+        finish({ status: 'error', stdout: '', error: 'The code stopped unexpectedly' });
+      }
+    });
+
+    // The child may already be gone, e.g. if spawning failed
+    child.stdin.on('error', () => {});
+    child.stdin.end(JSON.stringify({
+      source,
+      input,
+      cpuTimeMs: limits.cpuTimeMs,
+      maxOutputLength: limits.maxOutputLength,
+    }));
+  });
+}
+
+/**
+ * Run JavaScript or TypeScript in a separate, locked-down Node process and
+ * capture what it prints. Never throws; failures are reported in the result.
+ */
+export async function runCode(
+  code: string,
+  language: CodingLanguage,
+  input: string,
+  limits: CodeRunLimits = CODE_RUN_LIMITS
+): Promise<CodeRunResult> {
+  let source;
+  try {
+    source = await toJavaScript(code, language);
+  } catch (error) {
+    return { status: 'error', stdout: '', error: String((error as Error)?.message ?? error), duration_ms: 0 };
+  }
+  return runJavaScript(source, input, limits);
+}
+
+/**
+ * Run a submission against test cases one at a time. Hidden cases record
+ * pass/fail only, never their output.
+ */
+export async function runTestCases(
+  code: string,
+  language: CodingLanguage,
+  testCases: CodingTestCase[],
+  limits: CodeRunLimits = CODE_RUN_LIMITS
+): Promise<CodingTestResult[]> {
+  const results: CodingTestResult[] = [];
+
+  let source: string | null = null;
+  let compileError: string | null = null;
+  try {
+    source = await toJavaScript(code, language);
+  } catch (error) {
+    compileError = String((error as Error)?.message ?? error);
+  }
+
+  for (const testCase of testCases) {
+    const run: CodeRunResult = source === null
+      ? { status: 'error', stdout: '', error: compileError ?? undefined, duration_ms: 0 }
+      : await runJavaScript(source, testCase.input, limits);
+    const passed = run.status === 'ok' && outputsMatch(run.stdout, testCase.expected_output);
+
+    results.push({
+      test_case_id: testCase.id,
+      hidden: testCase.hidden,
+      passed,
+      status: passed ? 'passed' : run.status === 'ok' ? 'failed' : run.status,
+      ...(testCase.hidden ? {} : { actual_output: run.stdout }),
+      ...(run.error && !testCase.hidden ? { error: run.error } : {}),
+      duration_ms: run.duration_ms,
+    });
+  }
+
+  return results;
+}
+
+/**
+ * Grade a coding answer against every test case, visible and hidden.
+ */
+export function runCodingQuestion(question: AssessmentQuestion, code: string): Promise<CodingTestResult[]> {
+  return runTestCases(code, question.language ?? 'javascript', getCodingTestCases(question));
+}
@@ -0,0 +1,67 @@
+import type {
+  AssessmentQuestion,
+  CodingLanguage,
+  CodingTestCase,
+  CodingTestResult,
+} from "@/lib/types/enhanced-database";
+
+export const CODING_LANGUAGES: { language: CodingLanguage; label: string }[] = [
+  { language: 'javascript', label: 'JavaScript' },
+  { language: 'typescript', label: 'TypeScript' },
+];
+
+// Largest submission the runner accepts, in characters
+export const MAX_CODE_LENGTH = 20000;
+
+export const getCodingLanguageLabel = (language: CodingLanguage = 'javascript') =>
+  CODING_LANGUAGES.find((option) => option.language === language)?.label ?? language;
+
+/**
+ * All test cases for a coding question. A question-level expected_output is
+ * treated as a hidden case with empty input, so older questions still grade.
+ */
+export function getCodingTestCases(question: AssessmentQuestion): CodingTestCase[] {
+  const testCases = question.test_cases ?? [];
+  if (question.expected_output === undefined || question.expected_output === '') {
+    return testCases;
+  }
+  return [
+    { id: 'expected_output', input: '', expected_output: question.expected_output, hidden: true },
+    ...testCases,
+  ];
+}
+
+// Line endings and trailing whitespace are not significant
+const normalizeOutput = (output: string) =>
+  output
+    .replace(/\r\n?/g, '\n')
+    .split('\n')
+    .map((line) => line.trimEnd())
+    .join('\n')
+    .trim();
+
+export function outputsMatch(actual: string, expected: string): boolean {
+  return normalizeOutput(actual) === normalizeOutput(expected);
+}
+
+/**
+ * Short summary stored as the answer's execution_result, e.g.
+ * "3/5 tests passed (1 timed out)".
+ */
+export function summarizeTestResults(results: CodingTestResult[]): string {
+  if (results.length === 0) return 'No tests to run';
+
+  const passed = results.filter((result) => result.passed).length;
+  const notes = [
+    ['error', 'errored'],
+    ['timeout', 'timed out'],
+    ['memory_limit', 'ran out of memory'],
+  ]
+    .map(([status, label]) => {
+      const count = results.filter((result) => result.status === status).length;
+      return count > 0 ? `${count} ${label}` : null;
+    })
+    .filter(Boolean);
+
+  return `${passed}/${results.length} tests passed${notes.length > 0 ? ` (${notes.join(', ')})` : ''}`;
+}
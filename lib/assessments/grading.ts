@@ -0,0 +1,167 @@
+import { summarizeTestResults } from "@/lib/assessments/coding";
+import { scoreAttempt } from "@/lib/assessments/scoring";
+import type {
+  AssessmentAnswer,
+  AssessmentAttempt,
+  AssessmentAttemptUpdate,
+  AssessmentQuestion,
+  CodingTestCase,
+  CodingTestResult,
+  SkillAssessment,
+} from "@/lib/types/enhanced-database";
+
+// Allowance for network latency on submissions sent as the timer runs out
+export const TIME_LIMIT_GRACE_SECONDS = 30;
+
+// What a candidate may see of a question: no answer key, expected output or hidden tests
+export type CandidateQuestion = Omit<AssessmentQuestion, 'correct_answer' | 'expected_output' | 'test_cases'> & {
+  test_cases?: CodingTestCase[];
+};
+
+export type CandidateAssessment = Pick<
+  SkillAssessment,
+  'id' | 'title' | 'description' | 'assessment_type' | 'time_limit_minutes' | 'passing_score' | 'difficulty_level' | 'skills_tested'
+> & {
+  questions: CandidateQuestion[];
+};
+
+export type AssessmentSubmissionErrorCode = 'attempt_closed' | 'time_limit_exceeded';
+
+export class AssessmentSubmissionError extends Error {
+  constructor(
+    message: string,
+    public readonly code: AssessmentSubmissionErrorCode,
+    // Update to persist even though the submission was refused
+    public readonly update?: AssessmentAttemptUpdate
+  ) {
+    super(message);
+    this.name = 'AssessmentSubmissionError';
+  }
+}
+
+export function toCandidateAssessment(assessment: SkillAssessment): CandidateAssessment {
+  return {
+    id: assessment.id,
+    title: assessment.title,
+    description: assessment.description,
+    assessment_type: assessment.assessment_type,
+    time_limit_minutes: assessment.time_limit_minutes,
+    passing_score: assessment.passing_score,
+    difficulty_level: assessment.difficulty_level,
+    skills_tested: assessment.skills_tested,
+    questions: assessment.questions.map((question) => {
+      // eslint-disable-next-line @typescript-eslint/no-unused-vars
+      const { correct_answer, expected_output, test_cases, ...candidateQuestion } = question;
+      const examples = test_cases?.filter((testCase) => !testCase.hidden);
+      return examples?.length ? { ...candidateQuestion, test_cases: examples } : candidateQuestion;
+    }),
+  };
+}
+
+export interface SubmittedAnswer {
+  question_id: string;
+  answer: string | number | boolean;
+  time_taken_seconds?: number;
+}
+
+export interface GradedSubmission {
+  update: AssessmentAttemptUpdate;
+  score: number;
+  passed: boolean;
+  elapsedSeconds: number;
+}
+
+const getElapsedSeconds = (attempt: Pick<AssessmentAttempt, 'started_at'>, now: Date) =>
+  Math.max(0, Math.round((now.getTime() - new Date(attempt.started_at).getTime()) / 1000));
+
+/**
+ * Throw unless the attempt can still be submitted. Past the time limit the
+ * error carries the update that closes the attempt without a score.
+ */
+export function assertAttemptOpen(
+  assessment: Pick<SkillAssessment, 'time_limit_minutes'>,
+  attempt: Pick<AssessmentAttempt, 'status' | 'started_at'>,
+  now: Date = new Date()
+): void {
+  if (attempt.status !== 'in_progress') {
+    throw new AssessmentSubmissionError('This attempt has already been submitted', 'attempt_closed');
+  }
+
+  const elapsedSeconds = getElapsedSeconds(attempt, now);
+  if (
+    assessment.time_limit_minutes
+    && elapsedSeconds > assessment.time_limit_minutes * 60 + TIME_LIMIT_GRACE_SECONDS
+  ) {
+    throw new AssessmentSubmissionError('The time limit for this assessment has passed', 'time_limit_exceeded', {
+      score: 0,
+      passed: false,
+      completed_at: now.toISOString(),
+      time_taken_minutes: Math.ceil(elapsedSeconds / 60),
+      status: 'abandoned',
+    });
+  }
+}
+
+/**
+ * Grade a submission against the stored answer key and, for coding
+ * questions, the test results from the code runner. Elapsed time comes from
+ * the attempt's started_at, not the client, and submissions past the time
+ * limit close the attempt without a score.
+ */
+export function gradeSubmission(
+  assessment: Pick<SkillAssessment, 'questions' | 'passing_score' | 'time_limit_minutes'>,
+  attempt: Pick<AssessmentAttempt, 'status' | 'started_at'>,
+  submitted: SubmittedAnswer[],
+  now: Date = new Date(),
+  codingResults: Record<string, CodingTestResult[]> = {}
+): GradedSubmission {
+  assertAttemptOpen(assessment, attempt, now);
+
+  const completedAt = now.toISOString();
+  const elapsedSeconds = getElapsedSeconds(attempt, now);
+  const timeTakenMinutes = Math.ceil(elapsedSeconds / 60);
+
+  // Only keep answers to questions in the assessment, one per question
+  const submittedMap = new Map(submitted.map((answer) => [answer.question_id, answer]));
+  const answers: AssessmentAnswer[] = assessment.questions.map((question) => {
+    const answer = submittedMap.get(question.id);
+    const value = answer?.answer ?? '';
+    const testResults = codingResults[question.id];
+    return {
+      question_id: question.id,
+      answer: value,
+      ...(question.type === 'coding' ? { submitted_code: String(value) } : {}),
+      ...(testResults ? { test_results: testResults, execution_result: summarizeTestResults(testResults) } : {}),
+      // Per-question timings come from the browser, so keep them within the real elapsed time
+      time_taken_seconds: Math.min(Math.max(0, Math.round(answer?.time_taken_seconds ?? 0)), elapsedSeconds),
+    };
+  });
+
+  const { score, passed } = scoreAttempt(assessment.questions, answers, assessment.passing_score);
+
+  return {
+    update: {
+      answers,
+      score,
+      passed,
+      completed_at: completedAt,
+      time_taken_minutes: timeTakenMinutes,
+      status: 'completed',
+    },
+    score,
+    passed,
+    elapsedSeconds,
+  };
+}
+
+/**
+ * Recompute an assessment's attempt count and average score from its
+ * completed attempts.
+ */
+export function summarizeAttempts(scores: (number | null)[]): { attempts_count: number; average_score?: number } {
+  const graded = scores.filter((score): score is number => score !== null);
+  if (graded.length === 0) return { attempts_count: scores.length };
+
+  const average = graded.reduce((sum, score) => sum + Number(score), 0) / graded.length;
+  return { attempts_count: scores.length, average_score: Math.round(average * 100) / 100 };
+}
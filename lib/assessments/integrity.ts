@@ -0,0 +1,192 @@
+import type {
+  AssessmentAnswer,
+  AssessmentAttempt,
+  AssessmentAttemptStatus,
+  AssessmentIntegrityEvent,
+  AssessmentQuestion,
+  IntegrityEventType,
+} from "@/lib/types/enhanced-database";
+
+export const INTEGRITY_EVENT_LABELS: Record<IntegrityEventType, string> = {
+  focus_lost: 'Left the assessment tab',
+  copy: 'Copied text',
+  paste: 'Pasted text',
+  fullscreen_exit: 'Exited fullscreen',
+  fast_answer: 'Answered unusually fast',
+};
+
+// Events the browser reports. Fast answers are only ever detected server-side.
+export const CLIENT_INTEGRITY_EVENT_TYPES = ['focus_lost', 'copy', 'paste', 'fullscreen_exit'] as const;
+
+// Keeps a misbehaving client from growing the log without bound
+export const MAX_INTEGRITY_EVENTS = 500;
+
+// Answering faster than this is unlikely without knowing the answer in advance
+export const MIN_ANSWER_SECONDS: Record<AssessmentQuestion['type'], number> = {
+  true_false: 2,
+  multiple_choice: 3,
+  text: 15,
+  coding: 30,
+};
+
+const EVENT_WEIGHTS: Record<Exclude<IntegrityEventType, 'fast_answer'>, number> = {
+  focus_lost: 8,
+  copy: 4,
+  paste: 10,
+  fullscreen_exit: 6,
+};
+
+// Time away beyond this adds to a focus loss's weight
+const LONG_ABSENCE_SECONDS = 30;
+
+// Weight of answering every question too fast; spread across the questions
+const FAST_ANSWER_TOTAL_WEIGHT = 40;
+
+export type RiskLevel = 'low' | 'medium' | 'high';
+
+export const RISK_LEVEL_LABELS: Record<RiskLevel, string> = {
+  low: 'Low risk',
+  medium: 'Medium risk',
+  high: 'High risk',
+};
+
+export function getRiskLevel(score: number): RiskLevel {
+  if (score >= 60) return 'high';
+  if (score >= 25) return 'medium';
+  return 'low';
+}
+
+const isAnswered = (question: AssessmentQuestion, answer: AssessmentAnswer) => {
+  const value = String(answer.answer ?? '').trim();
+  return value !== '' && (question.type !== 'coding' || value !== (question.code_template ?? '').trim());
+};
+
+/**
+ * Answered questions where the candidate spent less than the minimum time
+ * for the question type. Timings come from the browser but are already
+ * capped at the real elapsed time.
+ */
+export function detectFastAnswers(
+  questions: AssessmentQuestion[],
+  answers: AssessmentAnswer[],
+  completedAt: string
+): AssessmentIntegrityEvent[] {
+  const answerMap = new Map(answers.map((answer) => [answer.question_id, answer]));
+
+  return questions.flatMap((question) => {
+    const answer = answerMap.get(question.id);
+    if (!answer || !isAnswered(question, answer)) return [];
+    if (answer.time_taken_seconds >= MIN_ANSWER_SECONDS[question.type]) return [];
+
+    return [{
+      type: 'fast_answer' as const,
+      occurred_at: completedAt,
+      question_id: question.id,
+      value: answer.time_taken_seconds,
+    }];
+  });
+}
+
+/**
+ * Risk score from 0 to 100. Each event adds its weight; fast answers add in
+ * proportion to the share of questions answered too fast.
+ */
+export function calculateRiskScore(events: AssessmentIntegrityEvent[], questionCount: number): number {
+  const score = events.reduce((total, event) => {
+    if (event.type === 'fast_answer') {
+      return total + FAST_ANSWER_TOTAL_WEIGHT / Math.max(questionCount, 1);
+    }
+    const longAbsence = event.type === 'focus_lost' && (event.value ?? 0) > LONG_ABSENCE_SECONDS;
+    return total + EVENT_WEIGHTS[event.type] * (longAbsence ? 1.5 : 1);
+  }, 0);
+
+  return Math.min(100, Math.round(score));
+}
+
+export function countIntegrityEvents(events: AssessmentIntegrityEvent[]): Partial<Record<IntegrityEventType, number>> {
+  return events.reduce<Partial<Record<IntegrityEventType, number>>>((counts, event) => {
+    counts[event.type] = (counts[event.type] ?? 0) + 1;
+    return counts;
+  }, {});
+}
+
+/**
+ * Integrity fields for a graded attempt: the browser's log plus any fast
+ * answers, and the resulting risk score.
+ */
+export function assessIntegrity(
+  questions: AssessmentQuestion[],
+  answers: AssessmentAnswer[],
+  loggedEvents: AssessmentIntegrityEvent[],
+  completedAt: string
+): Pick<AssessmentAttempt, 'integrity_events' | 'risk_score'> {
+  const events = [
+    ...loggedEvents.filter((event) => event.type !== 'fast_answer'),
+    ...detectFastAnswers(questions, answers, completedAt),
+  ].slice(0, MAX_INTEGRITY_EVENTS);
+
+  return { integrity_events: events, risk_score: calculateRiskScore(events, questions.length) };
+}
+
+// ---------------------------------------------------------------------------
+// Reviewer decisions
+// ---------------------------------------------------------------------------
+
+export type AttemptReviewAction = 'flag' | 'invalidate' | 'clear';
+
+export const ATTEMPT_REVIEW_ACTIONS: Record<AttemptReviewAction, { from: AssessmentAttemptStatus[]; to: AssessmentAttemptStatus; label: string }> = {
+  flag: { from: ['completed'], to: 'flagged', label: 'Flag for review' },
+  invalidate: { from: ['completed', 'flagged'], to: 'invalidated', label: 'Invalidate' },
+  clear: { from: ['flagged', 'invalidated'], to: 'completed', label: 'Clear' },
+};
+
+export const ATTEMPT_STATUS_LABELS: Record<AssessmentAttemptStatus, string> = {
+  in_progress: 'In progress',
+  completed: 'Completed',
+  abandoned: 'Abandoned',
+  flagged: 'Flagged',
+  invalidated: 'Invalidated',
+};
+
+// Statuses whose score still counts towards the application and averages
+export const SCORED_ATTEMPT_STATUSES: AssessmentAttemptStatus[] = ['completed', 'flagged'];
+
+export class AttemptReviewError extends Error {
+  readonly code = 'illegal_review';
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'AttemptReviewError';
+  }
+}
+
+export function getReviewActions(status: AssessmentAttemptStatus): AttemptReviewAction[] {
+  return (Object.keys(ATTEMPT_REVIEW_ACTIONS) as AttemptReviewAction[])
+    .filter((action) => ATTEMPT_REVIEW_ACTIONS[action].from.includes(status));
+}
+
+/**
+ * The status change for a reviewer's decision. Throws AttemptReviewError if
+ * the attempt is not in a state the action applies to.
+ */
+export function planAttemptReview(
+  attempt: Pick<AssessmentAttempt, 'status'>,
+  action: AttemptReviewAction,
+  reviewedBy: string,
+  notes?: string,
+  now: Date = new Date()
+) {
+  const { from, to } = ATTEMPT_REVIEW_ACTIONS[action];
+  if (!from.includes(attempt.status)) {
+    throw new AttemptReviewError(
+      `A ${ATTEMPT_STATUS_LABELS[attempt.status].toLowerCase()} attempt cannot be ${to === 'completed' ? 'cleared' : to}`
+    );
+  }
+
+  return {
+    status: to,
+    reviewed_by: reviewedBy,
+    reviewed_at: now.toISOString(),
+    review_notes: notes?.trim() || null,
+  };
+}
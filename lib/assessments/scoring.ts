@@ -0,0 +1,60 @@
+import { getCodingTestCases } from "@/lib/assessments/coding";
+import type { AssessmentAnswer, AssessmentQuestion } from "@/lib/types/enhanced-database";
+
+export interface AttemptScore {
+  score: number;
+  passed: boolean;
+  earnedPoints: number;
+  maxPoints: number;
+  // Questions without an answer key or test cases (e.g. free-text) that a reviewer has to mark
+  pendingReview: string[];
+}
+
+const normalize = (value: string | number | boolean) => String(value).trim().toLowerCase();
+
+/**
+ * Points earned for one answer, or null when the question cannot be marked
+ * automatically.
+ */
+export function gradeAnswer(question: AssessmentQuestion, answer: AssessmentAnswer | undefined): number | null {
+  // Coding questions with test cases earn points for the share of tests passed
+  const testCount = question.type === 'coding' ? getCodingTestCases(question).length : 0;
+  if (testCount > 0) {
+    const passed = answer?.test_results?.filter((result) => result.passed).length ?? 0;
+    return Math.round((question.points * Math.min(passed, testCount) / testCount) * 100) / 100;
+  }
+
+  if (question.correct_answer === undefined || question.correct_answer === null || question.correct_answer === '') {
+    return null;
+  }
+  if (!answer || answer.answer === '') return 0;
+
+  return normalize(answer.answer) === normalize(question.correct_answer) ? question.points : 0;
+}
+
+/**
+ * Score an attempt as a percentage of the automatically markable points.
+ */
+export function scoreAttempt(
+  questions: AssessmentQuestion[],
+  answers: AssessmentAnswer[],
+  passingScore: number
+): AttemptScore {
+  const answerMap = new Map(answers.map((answer) => [answer.question_id, answer]));
+  let earnedPoints = 0;
+  let maxPoints = 0;
+  const pendingReview: string[] = [];
+
+  for (const question of questions) {
+    const points = gradeAnswer(question, answerMap.get(question.id));
+    if (points === null) {
+      pendingReview.push(question.id);
+      continue;
+    }
+    earnedPoints += points;
+    maxPoints += question.points;
+  }
+
+  const score = maxPoints > 0 ? Math.round((earnedPoints / maxPoints) * 10000) / 100 : 0;
+  return { score, passed: score >= passingScore, earnedPoints, maxPoints, pendingReview };
+}
@@ -0,0 +1,37 @@
+import type { Repository } from "@/lib/supabase/repository";
+import type { AssessmentInput } from "@/lib/assessments/validation";
+import type { SkillAssessment } from "@/lib/types/enhanced-database";
+
+/**
+ * Copy an assessment into a new private draft in the same company. The copy
+ * starts at version 1 with no attempts.
+ */
+export function duplicateAssessment(repository: Repository, assessment: SkillAssessment, userId: string) {
+  return repository.assessments.create({
+    title: `Copy of ${assessment.title}`,
+    description: assessment.description,
+    assessment_type: assessment.assessment_type,
+    questions: assessment.questions,
+    time_limit_minutes: assessment.time_limit_minutes,
+    passing_score: assessment.passing_score,
+    difficulty_level: assessment.difficulty_level,
+    skills_tested: assessment.skills_tested,
+    is_public: false,
+    company_id: assessment.company_id ?? undefined,
+    created_by: userId,
+  });
+}
+
+export function importAssessment(repository: Repository, input: AssessmentInput, companyId: string, userId: string) {
+  return repository.assessments.create({ ...input, company_id: companyId, created_by: userId });
+}
+
+/**
+ * Open job postings that send candidates to this assessment. An assessment
+ * in use cannot be archived.
+ */
+export async function listActiveJobsUsing(repository: Repository, assessment: Pick<SkillAssessment, 'id' | 'company_id'>) {
+  if (!assessment.company_id) return [];
+  const jobs = await repository.jobOpenings.listForCompanies([assessment.company_id]);
+  return jobs.filter((job) => job.assessment_id === assessment.id && job.status === 'active');
+}
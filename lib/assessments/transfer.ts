@@ -0,0 +1,81 @@
+import { z } from "zod";
+import { AssessmentSchema, type AssessmentInput } from "@/lib/assessments/validation";
+import type { SkillAssessment } from "@/lib/types/enhanced-database";
+
+export const ASSESSMENT_EXPORT_FORMAT = 'uwezo-assessment';
+export const ASSESSMENT_EXPORT_VERSION = 1;
+
+const AssessmentExportSchema = z.object({
+  format: z.literal(ASSESSMENT_EXPORT_FORMAT, { message: "This file is not an exported assessment." }),
+  format_version: z.literal(ASSESSMENT_EXPORT_VERSION, { message: "This export was made by a newer version of the app." }),
+  assessment: AssessmentSchema,
+});
+
+export type AssessmentExport = z.infer<typeof AssessmentExportSchema> & { exported_at: string };
+
+/**
+ * Portable copy of an assessment's content, without company, author or
+ * statistics, so it can be imported into any company.
+ */
+export function toAssessmentExport(assessment: SkillAssessment): AssessmentExport {
+  return {
+    format: ASSESSMENT_EXPORT_FORMAT,
+    format_version: ASSESSMENT_EXPORT_VERSION,
+    exported_at: new Date().toISOString(),
+    assessment: {
+      title: assessment.title,
+      description: assessment.description,
+      assessment_type: assessment.assessment_type,
+      difficulty_level: assessment.difficulty_level,
+      time_limit_minutes: assessment.time_limit_minutes,
+      passing_score: assessment.passing_score,
+      skills_tested: assessment.skills_tested,
+      is_public: assessment.is_public,
+      questions: assessment.questions,
+    },
+  };
+}
+
+export const getExportFileName = (assessment: Pick<SkillAssessment, 'title' | 'version'>) =>
+  `${assessment.title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'assessment'}-v${assessment.version}.json`;
+
+/**
+ * Save an assessment as a JSON file in the browser.
+ */
+export function downloadAssessmentExport(assessment: SkillAssessment) {
+  const blob = new Blob([JSON.stringify(toAssessmentExport(assessment), null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = getExportFileName(assessment);
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Parse an exported file. Returns the assessment content, or readable
+ * problems with the file.
+ */
+export function parseAssessmentImport(text: string):
+  | { success: true; assessment: AssessmentInput }
+  | { success: false; errors: string[] } {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    return { success: false, errors: ['The file is not valid JSON.'] };
+  }
+
+  const parsed = AssessmentExportSchema.safeParse(json);
+  if (!parsed.success) {
+    return {
+      success: false,
+      errors: parsed.error.issues.slice(0, 10).map((issue) =>
+        issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message
+      ),
+    };
+  }
+
+  // Imports start private; the importing company decides whether to share them
+  return { success: true, assessment: { ...parsed.data.assessment, is_public: false } };
+}
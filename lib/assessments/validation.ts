@@ -0,0 +1,108 @@
+import { z } from "zod";
+import { MAX_CODE_LENGTH } from "@/lib/assessments/coding";
+import type { AssessmentQuestion } from "@/lib/types/enhanced-database";
+
+export type AssessmentQuestionType = AssessmentQuestion['type'];
+
+export const ASSESSMENT_QUESTION_TYPES: { type: AssessmentQuestionType; label: string }[] = [
+  { type: 'multiple_choice', label: 'Multiple choice' },
+  { type: 'true_false', label: 'True / False' },
+  { type: 'text', label: 'Written answer' },
+  { type: 'coding', label: 'Coding' },
+];
+
+export const ASSESSMENT_TYPES = ['technical', 'cognitive', 'personality', 'skills'] as const;
+export const DIFFICULTY_LEVELS = ['beginner', 'intermediate', 'advanced'] as const;
+
+export const ASSESSMENT_TYPE_LABELS: Record<typeof ASSESSMENT_TYPES[number], string> = {
+  technical: 'Technical',
+  cognitive: 'Cognitive',
+  personality: 'Personality',
+  skills: 'Skills',
+};
+
+export const DIFFICULTY_LABELS: Record<typeof DIFFICULTY_LEVELS[number], string> = {
+  beginner: 'Beginner',
+  intermediate: 'Intermediate',
+  advanced: 'Advanced',
+};
+
+export const MAX_ASSESSMENT_QUESTIONS = 100;
+
+export function createAssessmentQuestion(type: AssessmentQuestionType): AssessmentQuestion {
+  return {
+    id: crypto.randomUUID(),
+    question: '',
+    type,
+    points: type === 'coding' ? 10 : 1,
+    ...(type === 'multiple_choice' ? { options: ['', ''], correct_answer: '' } : {}),
+    ...(type === 'true_false' ? { correct_answer: 'true' } : {}),
+    ...(type === 'coding'
+      ? {
+        language: 'javascript' as const,
+        code_template: '// The test input is available as `input`\nconsole.log(input);\n',
+        test_cases: [],
+      }
+      : {}),
+  };
+}
+
+const TestCaseSchema = z.object({
+  id: z.string().min(1),
+  input: z.string().max(10000),
+  expected_output: z.string().max(10000),
+  hidden: z.boolean(),
+});
+
+export const AssessmentQuestionSchema = z.object({
+  id: z.string().min(1),
+  question: z.string().trim().min(3, { message: "Each question needs some text." }),
+  type: z.enum(['multiple_choice', 'coding', 'text', 'true_false']),
+  points: z.number().positive({ message: "Points must be greater than zero." }).max(100),
+  options: z.array(z.string().trim().min(1, { message: "Options cannot be empty." })).optional(),
+  correct_answer: z.union([z.string(), z.number(), z.boolean()]).optional(),
+  code_template: z.string().max(MAX_CODE_LENGTH).optional(),
+  expected_output: z.string().max(10000).optional(),
+  language: z.enum(['javascript', 'typescript']).optional(),
+  test_cases: z.array(TestCaseSchema).max(30, { message: "Use at most 30 test cases." }).optional(),
+  time_limit_seconds: z.number().int().positive().optional(),
+}).superRefine((question, ctx) => {
+  if (question.type === 'multiple_choice') {
+    if ((question.options?.length ?? 0) < 2) {
+      ctx.addIssue({ code: 'custom', message: "Multiple choice questions need at least two options.", path: ['options'] });
+    }
+    if (!question.options?.includes(String(question.correct_answer ?? ''))) {
+      ctx.addIssue({ code: 'custom', message: "Choose the correct option.", path: ['correct_answer'] });
+    }
+  }
+  if (question.type === 'true_false' && !['true', 'false'].includes(String(question.correct_answer))) {
+    ctx.addIssue({ code: 'custom', message: "Choose whether the statement is true or false.", path: ['correct_answer'] });
+  }
+  if (question.type === 'coding' && !question.test_cases?.length && !question.expected_output) {
+    ctx.addIssue({ code: 'custom', message: "Coding questions need at least one test case.", path: ['test_cases'] });
+  }
+});
+
+export const AssessmentSchema = z.object({
+  title: z.string().trim().min(3, { message: "Title must be at least 3 characters." }),
+  description: z.string().trim().nullable(),
+  assessment_type: z.enum(ASSESSMENT_TYPES),
+  difficulty_level: z.enum(DIFFICULTY_LEVELS).nullable(),
+  time_limit_minutes: z.number().int().min(1, { message: "Use at least one minute." }).max(600).nullable(),
+  passing_score: z.number().min(0).max(100, { message: "Passing score is a percentage from 0 to 100." }),
+  skills_tested: z.array(z.string().trim().min(1)).max(30, { message: "List at most 30 skills." }),
+  is_public: z.boolean(),
+  questions: z.array(AssessmentQuestionSchema)
+    .min(1, { message: "Add at least one question." })
+    .max(MAX_ASSESSMENT_QUESTIONS, { message: `Use at most ${MAX_ASSESSMENT_QUESTIONS} questions.` }),
+}).superRefine((assessment, ctx) => {
+  const ids = new Set<string>();
+  assessment.questions.forEach((question, index) => {
+    if (ids.has(question.id)) {
+      ctx.addIssue({ code: 'custom', message: "Question IDs must be unique.", path: ['questions', index, 'id'] });
+    }
+    ids.add(question.id);
+  });
+});
+
+export type AssessmentInput = z.infer<typeof AssessmentSchema>;
@@ -0,0 +1,84 @@
+import type { CompanyMember, CompanyPermissionSet, CompanyRole } from "@/lib/types/enhanced-database";
+
+export type CompanyPermission = keyof CompanyPermissionSet;
+
+const NO_PERMISSIONS: CompanyPermissionSet = {
+  can_create_jobs: false,
+  can_edit_jobs: false,
+  can_delete_jobs: false,
+  can_view_applications: false,
+  can_manage_applications: false,
+  can_invite_members: false,
+  can_manage_company_settings: false,
+  can_view_analytics: false,
+  can_manage_billing: false,
+  can_manage_assessments: false,
+  can_sign_contracts: false,
+};
+
+/**
+ * What each role can do when the member row has no explicit permissions.
+ * Keep in sync with member_has_company_permission() in
+ * queries/contract-countersignatures.sql.
+ */
+export const ROLE_PERMISSIONS: Record<CompanyRole, CompanyPermissionSet> = {
+  owner: {
+    can_create_jobs: true,
+    can_edit_jobs: true,
+    can_delete_jobs: true,
+    can_view_applications: true,
+    can_manage_applications: true,
+    can_invite_members: true,
+    can_manage_company_settings: true,
+    can_view_analytics: true,
+    can_manage_billing: true,
+    can_manage_assessments: true,
+    can_sign_contracts: true,
+  },
+  admin: {
+    can_create_jobs: true,
+    can_edit_jobs: true,
+    can_delete_jobs: true,
+    can_view_applications: true,
+    can_manage_applications: true,
+    can_invite_members: true,
+    can_manage_company_settings: true,
+    can_view_analytics: true,
+    can_manage_billing: false,
+    can_manage_assessments: true,
+    can_sign_contracts: true,
+  },
+  hr_manager: {
+    ...NO_PERMISSIONS,
+    can_create_jobs: true,
+    can_edit_jobs: true,
+    can_view_applications: true,
+    can_manage_applications: true,
+    can_view_analytics: true,
+    can_manage_assessments: true,
+    can_sign_contracts: true,
+  },
+  recruiter: {
+    ...NO_PERMISSIONS,
+    can_create_jobs: true,
+    can_edit_jobs: true,
+    can_view_applications: true,
+    can_manage_applications: true,
+  },
+  member: NO_PERMISSIONS,
+};
+
+/**
+ * Effective permissions for a member: the role's defaults, overridden by
+ * anything set explicitly on the member row.
+ */
+export function getMemberPermissions(member: Pick<CompanyMember, 'role' | 'permissions'>): CompanyPermissionSet {
+  return { ...ROLE_PERMISSIONS[member.role], ...(member.permissions ?? {}) };
+}
+
+export function hasCompanyPermission(
+  member: Pick<CompanyMember, 'role' | 'permissions' | 'status'> | null | undefined,
+  permission: CompanyPermission
+): boolean {
+  return !!member && member.status === 'active' && getMemberPermissions(member)[permission] === true;
+}
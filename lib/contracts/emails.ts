@@ -0,0 +1,33 @@
+import { sendUserEmail } from "@/lib/email/send";
+import { getAwaitingParty, getContractPath } from "@/lib/contracts/signatures";
+import type { Repository } from "@/lib/supabase/repository";
+import type { ContractSignature } from "@/lib/types/enhanced-database";
+import { getAbsoluteUrl, getProfileName } from "@/lib/utils";
+
+/**
+ * Email the candidate when a company contract is waiting for their
+ * signature, since they may not be signed in to see the notification. The
+ * hiring team works from the signature queue instead. Safe to call more
+ * than once.
+ */
+export async function sendContractToSignEmail(repo: Repository, signature: ContractSignature) {
+  if (!signature.employee_id || !signature.company_id || getAwaitingParty(signature) !== 'employee') return;
+
+  const [candidate, company] = await Promise.all([
+    repo.profiles.get(signature.employee_id),
+    repo.companies.get(signature.company_id),
+  ]);
+
+  await sendUserEmail(repo, {
+    template: 'contract_to_sign',
+    userId: signature.employee_id,
+    relatedId: signature.id,
+    props: {
+      recipientName: getProfileName(candidate),
+      contractTitle: signature.title,
+      senderName: company?.name ?? null,
+      signUrl: getAbsoluteUrl(getContractPath(signature, 'employee')),
+      expiresAt: signature.expires_at,
+    },
+  });
+}
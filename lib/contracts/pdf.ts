@@ -0,0 +1,211 @@
+import { createHash } from "node:crypto";
+import { PdfWriter } from "@/lib/documents/pdf-writer";
+import {
+  CONTRACT_AUDIT_EVENT_LABELS,
+  CONTRACT_SIGNATURE_STATUS_LABELS,
+  SIGNATURE_METHOD_LABELS,
+} from "@/lib/contracts/signatures";
+import { decodeSignatureImage } from "@/lib/contracts/signing";
+import { createRepository, type EnhancedSupabaseClient, type Repository } from "@/lib/supabase/repository";
+import type { ContractSignature, SignatureData } from "@/lib/types/enhanced-database";
+import { getAbsoluteUrl, getProfileName } from "@/lib/utils";
+
+// Signed PDFs sit under contracts/ in the private documents bucket, which
+// only the service role can write (queries/signed-contract-pdfs.sql)
+export const CONTRACT_PDF_BUCKET = 'documents';
+
+export function getContractPdfPath(signature: Pick<ContractSignature, 'id'>) {
+  return `contracts/${signature.id}.pdf`;
+}
+
+// The contract a stored PDF path belongs to, or null for any other file
+export function getContractIdFromPdfPath(path: string) {
+  return /^contracts\/([0-9a-f-]{36})\.pdf$/.exec(path)?.[1] ?? null;
+}
+
+const sha256 = (data: Buffer) => createHash('sha256').update(data).digest('hex');
+
+export function getContractPdfFilename(signature: Pick<ContractSignature, 'title'>) {
+  return `${signature.title.replace(/[^\w\- ]+/g, '').trim() || 'Contract'}.pdf`;
+}
+
+// Timestamps on the PDF are in UTC so they read the same wherever it is opened
+function formatTimestamp(iso: string) {
+  return `${new Date(iso).toLocaleString('en-GB', {
+    dateStyle: 'long',
+    timeStyle: 'medium',
+    timeZone: 'UTC',
+  })} UTC`;
+}
+
+function signatureBlock(pdf: PdfWriter, label: string, data: SignatureData | null) {
+  pdf.ensureSpace(120);
+  pdf.text(label, { font: 'bold', size: 9, muted: true });
+  pdf.space(4);
+  // The adopted signature; older signatures were the typed name alone
+  const image = data?.image ? decodeSignatureImage(data.image) : null;
+  if (!image || !pdf.image(image, 200, 60)) {
+    pdf.text(data?.full_name ?? 'Not signed', { font: 'italic', size: 18 });
+  }
+  pdf.rule();
+  if (data) {
+    pdf.field('Name', data.full_name);
+    pdf.field('Signed', formatTimestamp(data.signed_at));
+  }
+  pdf.space(12);
+}
+
+/**
+ * The signed contract as a PDF: the agreement exactly as signed, both
+ * signatures, and a certificate page with the document hash and the audit
+ * trail. Needs a service-role repository to read the signers' profiles.
+ */
+export async function renderContractPdf(repo: Repository, signature: ContractSignature) {
+  const actorIds = signature.audit_trail.flatMap((event) => (event.actor_id ? [event.actor_id] : []));
+  const [company, profiles] = await Promise.all([
+    signature.company_id ? repo.companies.get(signature.company_id) : null,
+    repo.profiles.listByUserIds([...new Set([signature.employee_id, ...actorIds].filter((id): id is string => !!id))]),
+  ]);
+  const personName = (userId: string | null) => {
+    const profile = profiles.find((candidate) => candidate.user_id === userId);
+    return getProfileName(profile) || profile?.email || null;
+  };
+  const companyName = company?.name ?? 'Uwezo';
+
+  const pdf = new PdfWriter({
+    title: signature.title,
+    footer: (page, pageCount) => `${signature.title} • Reference ${signature.id} • Page ${page} of ${pageCount}`,
+  });
+
+  pdf.text(signature.title, { font: 'bold', size: 18, align: 'center' });
+  pdf.text(companyName, { size: 10, muted: true, align: 'center' });
+  pdf.rule();
+  pdf.space(6);
+  pdf.text(signature.final_contract_content);
+  pdf.space(24);
+
+  pdf.ensureSpace(120);
+  pdf.text('Signatures', { font: 'bold', size: 12 });
+  pdf.space(8);
+  signatureBlock(pdf, signature.requires_countersignature ? 'Candidate' : 'Signed by', signature.employee_signature_data);
+  if (signature.requires_countersignature) {
+    signatureBlock(pdf, `For ${companyName}`, signature.employer_signature_data);
+  }
+
+  pdf.addPage();
+  pdf.text('Signature Certificate', { font: 'bold', size: 16 });
+  pdf.text(
+    'This certificate records how the agreement above was signed. The SHA-256 hash identifies the exact text '
+      + 'that was signed; the verification link recomputes it from the stored copy.',
+    { size: 9, muted: true }
+  );
+  pdf.space(10);
+
+  pdf.field('Document', signature.title);
+  pdf.field('Reference', signature.id, 'mono');
+  pdf.field('Status', CONTRACT_SIGNATURE_STATUS_LABELS[signature.status]);
+  pdf.field('Issued', formatTimestamp(signature.created_at));
+  if (signature.fully_executed_at) pdf.field('Fully executed', formatTimestamp(signature.fully_executed_at));
+  pdf.field('Document SHA-256', signature.document_hash, 'mono');
+  pdf.field('Verify at', getAbsoluteUrl(`/api/contract-signatures/${signature.id}/verify`));
+  pdf.space(16);
+
+  pdf.text('Signers', { font: 'bold', size: 12 });
+  pdf.space(4);
+  const signers: [string, SignatureData | null, string | null][] = [
+    [signature.requires_countersignature ? 'Candidate' : 'Signed by', signature.employee_signature_data, personName(signature.employee_id)],
+  ];
+  if (signature.requires_countersignature) {
+    signers.push([`For ${companyName}`, signature.employer_signature_data, personName(signature.employer_representative_id)]);
+  }
+  for (const [label, data, accountName] of signers) {
+    if (!data) continue;
+    pdf.ensureSpace(60);
+    pdf.text(label, { font: 'bold', size: 10 });
+    pdf.field('Signed as', data.full_name);
+    if (accountName && accountName !== data.full_name) pdf.field('Account', accountName);
+    pdf.field('Signed', formatTimestamp(data.signed_at));
+    pdf.field('Method', SIGNATURE_METHOD_LABELS[data.method] ?? data.method);
+    pdf.field('Consent', data.consent);
+    pdf.space(8);
+  }
+  pdf.space(8);
+
+  pdf.text('Audit trail', { font: 'bold', size: 12 });
+  pdf.space(4);
+  for (const event of signature.audit_trail) {
+    pdf.ensureSpace(50);
+    pdf.text(`${CONTRACT_AUDIT_EVENT_LABELS[event.event]} — ${formatTimestamp(event.at)}`, { font: 'bold', size: 9 });
+    const actor = personName(event.actor_id);
+    if (actor) pdf.field('By', actor);
+    if (event.ip) pdf.field('IP address', event.ip);
+    if (event.user_agent) pdf.field('Browser', event.user_agent);
+    pdf.field('Document SHA-256', event.document_hash, 'mono');
+    pdf.space(6);
+  }
+
+  // Dated when the contract was executed, so the same contract always
+  // renders the same file
+  return pdf.toBuffer(new Date(signature.fully_executed_at ?? signature.updated_at));
+}
+
+export interface StoredContractPdf {
+  path: string;
+  hash: string;
+}
+
+/**
+ * Render a fully signed contract to PDF, store it in Supabase Storage and
+ * add it to the candidate's documents. Returns where it is stored and its
+ * hash, or null if the contract is not fully signed. Safe to call more than
+ * once: rendering is deterministic, and only the first call that records
+ * the path adds the document.
+ */
+export async function saveContractPdf(
+  supabase: EnhancedSupabaseClient,
+  signature: ContractSignature
+): Promise<StoredContractPdf | null> {
+  if (signature.signed_document_url && signature.signed_document_hash) {
+    return { path: signature.signed_document_url, hash: signature.signed_document_hash };
+  }
+  if (signature.status !== 'fully_signed' || !signature.employee_id) return null;
+
+  const repo = createRepository(supabase);
+  const pdf = await renderContractPdf(repo, signature);
+  const path = getContractPdfPath(signature);
+  const hash = sha256(pdf);
+
+  const { error } = await supabase.storage
+    .from(CONTRACT_PDF_BUCKET)
+    .upload(path, pdf, { contentType: 'application/pdf', upsert: true });
+  if (error) throw error;
+
+  const recorded = await repo.contractSignatures.setSignedDocument(signature.id, path, hash);
+  if (recorded) {
+    await repo.documents.create({
+      user_id: signature.employee_id,
+      filename: path,
+      original_filename: getContractPdfFilename(signature),
+      file_path: path,
+      file_size: pdf.length,
+      mime_type: 'application/pdf',
+      document_type: signature.document_type,
+      is_signed: true,
+      signed_at: signature.fully_executed_at,
+    });
+  }
+
+  return { path, hash };
+}
+
+/**
+ * The stored PDF, or null if the file no longer matches the hash recorded
+ * when it was rendered. Needs a service-role client.
+ */
+export async function loadContractPdf(supabase: EnhancedSupabaseClient, stored: StoredContractPdf) {
+  const { data, error } = await supabase.storage.from(CONTRACT_PDF_BUCKET).download(stored.path);
+  if (error) throw error;
+
+  const pdf = Buffer.from(await data.arrayBuffer());
+  return sha256(pdf) === stored.hash ? pdf : null;
+}
@@ -0,0 +1,310 @@
+import { formatContractDate } from "@/lib/contracts/templates";
+
+// Uwezo's own agreements, signed during onboarding rather than for a job.
+// {DATE} is replaced with the day they are issued.
+
+export const ENGAGEMENT_TYPES = [
+  "Intern",
+  "Partnership",
+  "Contractual",
+  "Sub-contractual",
+  "Permanent",
+  "Instructor",
+  "Student",
+  "Partner",
+  "Course Developer",
+  "Sponsor",
+  "Customer",
+  "Reseller",
+] as const;
+
+export type EngagementType = typeof ENGAGEMENT_TYPES[number];
+
+export type PlatformDocument =
+  | { document: 'nda' }
+  | { document: 'engagement'; engagement_type: EngagementType };
+
+const ENGAGEMENT_AGREEMENTS: Record<EngagementType, string> = {
+  Intern: `
+INTERNSHIP AGREEMENT
+
+This agreement is entered on {DATE} between Uwezo Inc. ("Company") and you ("Intern").
+
+1. Position and Duration
+The Intern agrees to work as an intern for a period of 3-6 months in the specified department.
+
+2. Responsibilities
+- Complete assigned projects and tasks
+- Attend team meetings and training sessions
+- Maintain professional conduct
+
+3. Compensation
+This is an unpaid/paid internship position as discussed during the interview process.
+
+4. Confidentiality
+The Intern agrees to maintain confidentiality of all company information.
+`,
+
+  Permanent: `
+PERMANENT EMPLOYMENT AGREEMENT
+
+This agreement is entered on {DATE} between Uwezo Inc. ("Company") and you ("Employee").
+
+1. Position and Duties
+The Employee is hired for a permanent position with the following responsibilities:
+- Perform duties as assigned by management
+- Maintain professional standards
+- Follow company policies and procedures
+
+2. Compensation and Benefits
+- Salary as discussed and agreed upon
+- Standard company benefits package
+- Annual performance reviews
+
+3. Term and Termination
+This is a permanent position subject to company policies and applicable laws.
+
+4. Confidentiality and Non-Disclosure
+Employee agrees to maintain strict confidentiality of company information.
+`,
+
+  Contractual: `
+CONTRACTUAL AGREEMENT
+
+This agreement is entered on {DATE} between Uwezo Inc. ("Company") and you ("Contractor").
+
+1. Scope of Work
+The Contractor agrees to provide specified services for the agreed duration.
+
+2. Payment Terms
+Payment will be made according to the agreed schedule and milestones.
+
+3. Deliverables
+All work products become the property of the Company upon completion.
+
+4. Independent Contractor Status
+This is a contractor relationship, not an employment relationship.
+`,
+
+  Partnership: `
+PARTNERSHIP AGREEMENT
+
+This agreement is entered on {DATE} between Uwezo Inc. and you ("Partner").
+
+1. Partnership Terms
+Both parties agree to collaborate on specified projects or initiatives.
+
+2. Responsibilities
+Each party shall fulfill their agreed-upon obligations and responsibilities.
+
+3. Revenue Sharing
+Any revenue generated will be shared according to the agreed terms.
+
+4. Duration
+This partnership agreement is effective until terminated by either party.
+`,
+
+  "Sub-contractual": `
+SUB-CONTRACTOR AGREEMENT
+
+This agreement is entered on {DATE} between Uwezo Inc. and you ("Sub-contractor").
+
+1. Sub-contracting Terms
+Services will be provided as a sub-contractor under the main project contract.
+
+2. Scope of Work
+Specific tasks and deliverables as outlined in the project specification.
+
+3. Payment
+Payment terms as agreed in the sub-contracting arrangement.
+`,
+
+  Instructor: `
+INSTRUCTOR AGREEMENT
+
+This agreement is entered on {DATE} between Uwezo Inc. and you ("Instructor").
+
+1. Teaching Responsibilities
+Deliver high-quality instruction in your area of expertise.
+
+2. Course Content
+Develop and maintain up-to-date course materials.
+
+3. Compensation
+Payment per course or hourly rate as agreed.
+`,
+
+  Student: `
+STUDENT AGREEMENT
+
+This agreement is entered on {DATE} between Uwezo Inc. and you ("Student").
+
+1. Learning Commitment
+Commit to active participation in courses and programs.
+
+2. Code of Conduct
+Maintain professional behavior and respect for others.
+
+3. Certification
+Successful completion may lead to certification.
+`,
+
+  Partner: `
+BUSINESS PARTNER AGREEMENT
+
+This agreement is entered on {DATE} between Uwezo Inc. and you ("Business Partner").
+
+1. Partnership Scope
+Collaborative business relationship for mutual benefit.
+
+2. Terms of Engagement
+Specific terms as discussed and agreed upon.
+
+3. Intellectual Property
+Respect for each party's intellectual property rights.
+`,
+
+  "Course Developer": `
+COURSE DEVELOPER AGREEMENT
+
+This agreement is entered on {DATE} between Uwezo Inc. and you ("Developer").
+
+1. Content Development
+Create educational content according to specifications.
+
+2. Quality Standards
+All content must meet company quality and educational standards.
+
+3. Intellectual Property
+Developed content becomes property of Uwezo Inc.
+`,
+
+  Sponsor: `
+SPONSORSHIP AGREEMENT
+
+This agreement is entered on {DATE} between Uwezo Inc. and you ("Sponsor").
+
+1. Sponsorship Terms
+Support for specified events, programs, or initiatives.
+
+2. Benefits
+Recognition and promotional benefits as outlined.
+
+3. Duration
+Sponsorship term as agreed upon.
+`,
+
+  Customer: `
+CUSTOMER AGREEMENT
+
+This agreement is entered on {DATE} between Uwezo Inc. and you ("Customer").
+
+1. Services
+Access to company services and products.
+
+2. Terms of Service
+Use of services subject to company terms and conditions.
+
+3. Payment
+Payment terms for services as applicable.
+`,
+
+  Reseller: `
+RESELLER AGREEMENT
+
+This agreement is entered on {DATE} between Uwezo Inc. and you ("Reseller").
+
+1. Reseller Rights
+Authorization to resell specified company products or services.
+
+2. Commission Structure
+Payment terms and commission rates as agreed.
+
+3. Territory
+Specific geographic or market territory if applicable.
+`
+};
+
+const NDA_TEMPLATE = `
+NON-DISCLOSURE AGREEMENT (NDA)
+
+This Non-Disclosure Agreement ("Agreement") is entered into as of {DATE} by and between Uwezo Inc., a company incorporated under the laws of [Jurisdiction] ("Disclosing Party") and the undersigned individual ("Receiving Party").
+
+RECITALS
+
+WHEREAS, the Disclosing Party possesses certain proprietary and confidential information relating to its business operations, technology, and trade secrets; and
+
+WHEREAS, the Receiving Party desires to receive access to such confidential information for the purpose of evaluating potential business opportunities and relationships;
+
+NOW, THEREFORE, in consideration of the mutual covenants contained herein, the parties agree as follows:
+
+1. DEFINITION OF CONFIDENTIAL INFORMATION
+
+"Confidential Information" shall mean any and all non-public, proprietary, or confidential information disclosed by the Disclosing Party to the Receiving Party, including but not limited to:
+
+a) Technical data, trade secrets, know-how, research, product plans, products, services, customers, customer lists, markets, software, developments, inventions, processes, formulas, technology, designs, drawings, engineering, hardware configuration information, marketing, finances, or other business information.
+
+b) All information disclosed orally, visually, electronically, or in writing, whether or not marked, designated, or otherwise identified as "confidential."
+
+c) Information developed by the Receiving Party based upon or derived from Confidential Information.
+
+2. NON-USE AND NON-DISCLOSURE OBLIGATIONS
+
+The Receiving Party agrees to:
+
+a) Hold and maintain all Confidential Information in strict confidence;
+b) Not disclose any Confidential Information to third parties without prior written consent from the Disclosing Party;
+c) Not use Confidential Information for any purpose other than evaluating potential business relationships;
+d) Take reasonable precautions to prevent unauthorized disclosure of Confidential Information;
+e) Limit access to Confidential Information to employees or advisors who have a legitimate need to know and who have been informed of the confidential nature of such information.
+
+3. EXCEPTIONS
+
+The obligations set forth in Section 2 shall not apply to information that:
+
+a) Is or becomes publicly available through no breach of this Agreement by the Receiving Party;
+b) Was rightfully known by the Receiving Party prior to disclosure;
+c) Is rightfully received by the Receiving Party from a third party without breach of any confidentiality obligation;
+d) Is required to be disclosed by law or court order, provided that the Receiving Party gives prompt written notice to the Disclosing Party.
+
+4. RETURN OF MATERIALS
+
+Upon termination of this Agreement or upon request by the Disclosing Party, the Receiving Party shall promptly return or destroy all documents, materials, and other tangible manifestations of Confidential Information.
+
+5. TERM AND TERMINATION
+
+This Agreement shall remain in effect for a period of five (5) years from the date hereof, unless terminated earlier by mutual written consent of the parties.
+
+6. REMEDIES
+
+The Receiving Party acknowledges that any breach of this Agreement may cause irreparable harm to the Disclosing Party, for which monetary damages would be inadequate. Therefore, the Disclosing Party shall be entitled to seek equitable relief, including injunction and specific performance.
+
+7. GOVERNING LAW
+
+This Agreement shall be governed by and construed in accordance with the laws of [Jurisdiction], without regard to its conflict of laws principles.
+
+8. ENTIRE AGREEMENT
+
+This Agreement constitutes the entire agreement between the parties concerning the subject matter hereof and supersedes all prior agreements and understandings.
+
+By signing below, the Receiving Party acknowledges that they have read, understood, and agree to be bound by all terms and conditions of this Non-Disclosure Agreement.
+
+Date: {DATE}
+`;
+
+export function isEngagementType(value: string): value is EngagementType {
+  return (ENGAGEMENT_TYPES as readonly string[]).includes(value);
+}
+
+export function getPlatformDocumentTitle(platformDocument: PlatformDocument) {
+  return platformDocument.document === 'nda'
+    ? 'Non-Disclosure Agreement'
+    : `${platformDocument.engagement_type} Agreement`;
+}
+
+export function renderPlatformDocument(platformDocument: PlatformDocument, issuedAt: Date = new Date()) {
+  const template = platformDocument.document === 'nda'
+    ? NDA_TEMPLATE
+    : ENGAGEMENT_AGREEMENTS[platformDocument.engagement_type];
+  return template.replace(/{DATE}/g, formatContractDate(issuedAt)).trim();
+}
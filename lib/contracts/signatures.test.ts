@@ -0,0 +1,109 @@
+import { describe, expect, it } from "vitest";
+import { getAwaitingParty, hashDocument, isPastExpiry, verifyDocumentHash } from "@/lib/contracts/signatures";
+import type { ContractAuditEvent, ContractSignature } from "@/lib/types/enhanced-database";
+
+const NOW = new Date('2026-03-01T12:00:00.000Z');
+const TEXT = 'This agreement is made between Acme Ltd and Jane Doe.';
+
+function event(type: ContractAuditEvent['event'], documentHash: string): ContractAuditEvent {
+  return { event: type, actor_id: 'user-1', at: NOW.toISOString(), ip: null, user_agent: null, document_hash: documentHash };
+}
+
+type AwaitingFields = Parameters<typeof getAwaitingParty>[0];
+
+function contract(overrides: Partial<AwaitingFields> = {}): AwaitingFields {
+  return {
+    status: 'pending',
+    signing_order: 'employee_first',
+    employee_signed_at: null,
+    employer_signed_at: null,
+    requires_countersignature: true,
+    expires_at: null,
+    ...overrides,
+  };
+}
+
+describe('hashDocument', () => {
+  it('returns the SHA-256 of the text as lowercase hex', async () => {
+    expect(await hashDocument('abc')).toBe('ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad');
+  });
+
+  it('hashes the UTF-8 bytes, as the database does', async () => {
+    expect(await hashDocument('Caf\u00e9 \u20ac')).toBe('f3b5014f7877e60b964d6070c326d1cf45e9d473c23b7278c5e2dfb4b00a2e15');
+  });
+});
+
+describe('verifyDocumentHash', () => {
+  async function signed(audit: (hash: string) => ContractAuditEvent[], content = TEXT) {
+    const hash = await hashDocument(TEXT);
+    const signature: Pick<ContractSignature, 'final_contract_content' | 'document_hash' | 'audit_trail'> = {
+      final_contract_content: content,
+      // The database recomputes the column from whatever text is stored
+      document_hash: await hashDocument(content),
+      audit_trail: audit(hash),
+    };
+    return { hash, result: await verifyDocumentHash(signature) };
+  }
+
+  it('accepts text that matches the hashes recorded when it was issued and signed', async () => {
+    const { hash, result } = await signed((hash) => [
+      event('issued', hash),
+      event('employee_signed', hash),
+      event('employer_signed', hash),
+    ]);
+    expect(result).toEqual({ computed_hash: hash, signed_hash: hash, valid: true });
+  });
+
+  it('rejects text changed after signing even though document_hash was recomputed', async () => {
+    const { hash, result } = await signed((hash) => [event('employee_signed', hash)], `${TEXT} Salary: 1.`);
+    expect(result.valid).toBe(false);
+    expect(result.signed_hash).toBe(hash);
+    expect(result.computed_hash).not.toBe(hash);
+  });
+
+  it('rejects a contract whose parties signed different text', async () => {
+    const { result } = await signed((hash) => [event('employee_signed', hash), event('employer_signed', 'f'.repeat(64))]);
+    expect(result.valid).toBe(false);
+  });
+
+  it('ignores the hashes on voided and expired events', async () => {
+    const { result } = await signed((hash) => [event('employee_signed', hash), event('voided', 'f'.repeat(64))]);
+    expect(result.valid).toBe(true);
+  });
+
+  it('cannot vouch for a contract with nothing recorded at signing', async () => {
+    const { result } = await signed(() => []);
+    expect(result).toMatchObject({ signed_hash: null, valid: false });
+  });
+});
+
+describe('getAwaitingParty', () => {
+  it('follows the candidate-first order', () => {
+    expect(getAwaitingParty(contract(), NOW)).toBe('employee');
+    expect(getAwaitingParty(contract({ status: 'partially_signed', employee_signed_at: NOW.toISOString() }), NOW)).toBe('employer');
+  });
+
+  it('follows the company-first order', () => {
+    expect(getAwaitingParty(contract({ signing_order: 'employer_first' }), NOW)).toBe('employer');
+    expect(getAwaitingParty(contract({
+      signing_order: 'employer_first',
+      status: 'partially_signed',
+      employer_signed_at: NOW.toISOString(),
+    }), NOW)).toBe('employee');
+  });
+
+  it('only waits for the signer on documents without a countersignature', () => {
+    expect(getAwaitingParty(contract({ requires_countersignature: false, signing_order: 'employer_first' }), NOW)).toBe('employee');
+  });
+
+  it.each(['fully_signed', 'voided', 'expired'] as const)('waits for nobody once %s', (status) => {
+    expect(getAwaitingParty(contract({ status }), NOW)).toBeNull();
+  });
+
+  it('waits for nobody past the deadline', () => {
+    const expired = contract({ expires_at: NOW.toISOString() });
+    expect(isPastExpiry(expired, NOW)).toBe(true);
+    expect(getAwaitingParty(expired, NOW)).toBeNull();
+    expect(getAwaitingParty(contract({ expires_at: '2026-03-02T00:00:00.000Z' }), NOW)).toBe('employee');
+  });
+});
@@ -0,0 +1,120 @@
+import type {
+  ContractAuditEvent,
+  ContractSignature,
+  ContractSignatureStatus,
+  SignatureMethod,
+  SigningOrder,
+} from "@/lib/types/enhanced-database";
+
+export type SigningParty = 'employee' | 'employer';
+
+export const CONTRACT_SIGNATURE_STATUS_LABELS: Record<ContractSignatureStatus, string> = {
+  pending: 'Awaiting signatures',
+  partially_signed: 'Awaiting countersignature',
+  fully_signed: 'Fully signed',
+  voided: 'Voided',
+  expired: 'Expired',
+};
+
+export const CONTRACT_AUDIT_EVENT_LABELS: Record<ContractAuditEvent['event'], string> = {
+  issued: 'Sent for signature',
+  employee_signed: 'Signed by the candidate',
+  employer_signed: 'Countersigned for the company',
+  voided: 'Voided',
+  expired: 'Expired',
+};
+
+export const SIGNING_ORDERS = ['employee_first', 'employer_first'] as const satisfies readonly SigningOrder[];
+
+export const SIGNING_ORDER_LABELS: Record<SigningOrder, string> = {
+  employee_first: 'Candidate signs first',
+  employer_first: 'We sign first',
+};
+
+// Shown next to the signature box and stored with each signature, so the
+// record says what the signer agreed to
+export const SIGNATURE_CONSENT =
+  'I have read and agree to the terms of this agreement. I adopt the signature above as my electronic signature.';
+
+export const SIGNATURE_METHODS = ['drawn', 'typed', 'uploaded'] as const satisfies readonly SignatureMethod[];
+
+export const SIGNATURE_METHOD_LABELS: Record<SignatureMethod, string> = {
+  drawn: 'Drawn',
+  typed: 'Typed name',
+  uploaded: 'Uploaded image',
+};
+
+// Signature images are JPEG data URLs, so they can go straight into a PDF.
+// The limit matches the check on signature_assets.image_data.
+export const SIGNATURE_IMAGE_PREFIX = 'data:image/jpeg;base64,';
+export const MAX_SIGNATURE_IMAGE_LENGTH = 200000;
+
+/**
+ * SHA-256 of a contract's text as lowercase hex. Matches the hash the
+ * database stores in contract_signatures.document_hash, and runs in the
+ * browser as well as on the server.
+ */
+export async function hashDocument(content: string) {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(content));
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+// Audit events that record the hash of the text the actor saw and agreed to
+const SIGNING_EVENTS: ContractAuditEvent['event'][] = ['issued', 'employee_signed', 'employer_signed'];
+
+/**
+ * Check a contract's text against the hashes recorded when it was issued
+ * and signed. document_hash is recomputed by the database on every write,
+ * so it only shows the column is consistent; the audit trail's hashes were
+ * taken by the app (and, for signatures, sent by the signer's browser) at
+ * the time, and the database only lets the trail be added to.
+ */
+export async function verifyDocumentHash(
+  signature: Pick<ContractSignature, 'final_contract_content' | 'document_hash' | 'audit_trail'>
+) {
+  const computed = await hashDocument(signature.final_contract_content);
+  const recorded = signature.audit_trail
+    .filter((event) => SIGNING_EVENTS.includes(event.event))
+    .map((event) => event.document_hash);
+
+  return {
+    computed_hash: computed,
+    // The hash from the first time anyone issued or signed the contract
+    signed_hash: recorded[0] ?? null,
+    valid: recorded.length > 0
+      && computed === signature.document_hash
+      && recorded.every((hash) => hash === computed),
+  };
+}
+
+export function isPastExpiry(signature: Pick<ContractSignature, 'expires_at'>, now: Date = new Date()) {
+  return !!signature.expires_at && new Date(signature.expires_at) <= now;
+}
+
+/**
+ * Whose signature the contract is waiting for, following its signing
+ * order, or null once nobody can or needs to sign. Mirrors
+ * contract_awaiting_party() in queries/contract-countersignatures.sql.
+ */
+export function getAwaitingParty(
+  signature: Pick<
+    ContractSignature,
+    'status' | 'signing_order' | 'employee_signed_at' | 'employer_signed_at' | 'requires_countersignature' | 'expires_at'
+  >,
+  now: Date = new Date()
+): SigningParty | null {
+  if (signature.status !== 'pending' && signature.status !== 'partially_signed') return null;
+  if (isPastExpiry(signature, now)) return null;
+
+  const employerSigned = !!signature.employer_signed_at || !signature.requires_countersignature;
+  if (signature.signing_order === 'employer_first' && !employerSigned) return 'employer';
+  if (!signature.employee_signed_at) return 'employee';
+  return employerSigned ? null : 'employer';
+}
+
+// Where each party reviews and signs a company contract
+export function getContractPath(signature: Pick<ContractSignature, 'id'>, party: SigningParty) {
+  return party === 'employee'
+    ? `/protected/contracts/${signature.id}`
+    : `/protected/employer/contracts/signatures/${signature.id}`;
+}
@@ -0,0 +1,186 @@
+import { isIP } from "node:net";
+import { getProfileName } from "@/lib/utils";
+import { hasCompanyPermission } from "@/lib/companies/permissions";
+import {
+  BUILT_IN_VARIABLES,
+  buildContractValues,
+  getMissingFields,
+  isBuiltInVariable,
+  renderContract,
+} from "@/lib/contracts/templates";
+import { SIGNATURE_CONSENT, SIGNATURE_IMAGE_PREFIX } from "@/lib/contracts/signatures";
+import type { SignatureCapture } from "@/lib/contracts/validation";
+import { readJpegInfo } from "@/lib/documents/pdf-writer";
+import type { Repository } from "@/lib/supabase/repository";
+import type {
+  Company,
+  ContractAuditEvent,
+  ContractSignature,
+  ContractTemplate,
+  JobOpeningEnhanced,
+  SignatureData,
+} from "@/lib/types/enhanced-database";
+
+export async function canSignContracts(repo: Repository, companyId: string, userId: string) {
+  const membership = await repo.companyMembers.getMembership(companyId, userId);
+  return hasCompanyPermission(membership, 'can_sign_contracts');
+}
+
+export type JobContractResult =
+  | { status: 'not_found' }
+  | { status: 'none' }
+  | { status: 'incomplete'; error: string; missing_fields: string[] }
+  | {
+      status: 'ready'
+      job: JobOpeningEnhanced
+      template: ContractTemplate
+      values: Record<string, string>
+      content: string
+    };
+
+/**
+ * A template filled in for one candidate, with the placeholders that still
+ * have no value. Needs a service-role repository to read the candidate's
+ * profile.
+ */
+export async function renderCandidateContract(
+  repo: Repository,
+  template: ContractTemplate,
+  job: JobOpeningEnhanced,
+  company: Pick<Company, 'name'> | null,
+  candidate: { id: string; email?: string | null }
+) {
+  const profile = await repo.profiles.get(candidate.id);
+  // Contracts use the legal name over a display name
+  const values = buildContractValues(template, job, company, {
+    name: [profile?.first_name, profile?.last_name].filter(Boolean).join(' ') || getProfileName(profile),
+    email: profile?.email || candidate.email || null,
+  });
+
+  return {
+    values,
+    missing: getMissingFields(template, values),
+    content: renderContract(template.template_content, values),
+  };
+}
+
+/**
+ * The contract an open job issues, filled in for one candidate. Needs a
+ * service-role repository: candidates cannot read contract_templates.
+ */
+export async function loadJobContract(
+  repo: Repository,
+  jobId: string,
+  candidate: { id: string; email?: string | null }
+): Promise<JobContractResult> {
+  const job = await repo.jobOpenings.get(jobId);
+  if (!job || job.status !== 'active') return { status: 'not_found' };
+
+  const template = job.contract_template_id ? await repo.contractTemplates.get(job.contract_template_id) : null;
+  if (!template || !template.is_active || template.company_id !== job.company_id) {
+    return { status: 'none' };
+  }
+
+  const { values, missing, content } = await renderCandidateContract(repo, template, job, job.company, candidate);
+  if (missing.length > 0) {
+    const fromCandidate = missing.filter((field) => isBuiltInVariable(field) && BUILT_IN_VARIABLES[field].candidate);
+    return {
+      status: 'incomplete',
+      error: fromCandidate.length > 0
+        ? `Add your ${fromCandidate.map((field) => field.replace('candidate_', '')).join(' and ')} to your profile to sign this contract.`
+        : 'The employer has not finished this contract yet. Please try again later.',
+      missing_fields: missing,
+    };
+  }
+
+  return {
+    status: 'ready',
+    job,
+    template,
+    values,
+    content,
+  };
+}
+
+// The signer's address as reported by the proxy in front of the app. Only a
+// well-formed address is kept, since the column is INET.
+export function getSignerIp(headers: Headers) {
+  const candidates = [headers.get('x-forwarded-for')?.split(',')[0], headers.get('x-real-ip')];
+  for (const candidate of candidates) {
+    const ip = candidate?.trim();
+    if (ip && isIP(ip)) return ip;
+  }
+  return null;
+}
+
+// The JPEG inside a signature image's data URL, or null if it is not one
+export function decodeSignatureImage(image: string) {
+  if (!image.startsWith(SIGNATURE_IMAGE_PREFIX)) return null;
+  const data = Buffer.from(image.slice(SIGNATURE_IMAGE_PREFIX.length), 'base64');
+  return readJpegInfo(data) ? data : null;
+}
+
+/**
+ * What is stored for one party's signature. Returns null when the
+ * signature image is not a JPEG we can put in the signed PDF. A saved
+ * signature is only referenced, and marked as used, when it is the
+ * signer's own. Needs a service-role repository to update it.
+ */
+export async function buildSignatureData(
+  repo: Repository,
+  userId: string,
+  fullName: string,
+  capture: SignatureCapture,
+  signedAt: string
+): Promise<SignatureData | null> {
+  if (!decodeSignatureImage(capture.image)) return null;
+
+  const asset = capture.asset_id ? await repo.signatureAssets.markUsed(capture.asset_id, userId) : null;
+  return {
+    method: capture.method,
+    full_name: fullName,
+    consent: SIGNATURE_CONSENT,
+    signed_at: signedAt,
+    image: capture.image,
+    asset_id: asset?.id ?? null,
+  };
+}
+
+/**
+ * One entry for a contract's audit trail. The request, when there is one,
+ * gives the actor's IP address and browser.
+ */
+export function buildAuditEvent(
+  event: ContractAuditEvent['event'],
+  signature: Pick<ContractSignature, 'document_hash'>,
+  actorId: string | null,
+  request?: { headers: Headers },
+  at: string = new Date().toISOString()
+): ContractAuditEvent {
+  return {
+    event,
+    actor_id: actorId,
+    at,
+    ip: request ? getSignerIp(request.headers) : null,
+    user_agent: request?.headers.get('user-agent') ?? null,
+    document_hash: signature.document_hash,
+  };
+}
+
+/**
+ * Mark contracts past their deadline as expired. Signing is already
+ * refused after expires_at; this closes them and, through the
+ * notification trigger, tells both parties.
+ */
+export async function expireOverdueContracts(repo: Repository, now: Date = new Date()) {
+  const overdue = await repo.contractSignatures.listOverdue(now.toISOString());
+
+  for (const signature of overdue) {
+    await repo.contractSignatures.update(signature.id, {
+      status: 'expired',
+      audit_trail: [...signature.audit_trail, buildAuditEvent('expired', signature, null, undefined, now.toISOString())],
+    });
+  }
+
+  return { contracts_expired: overdue.length };
+}
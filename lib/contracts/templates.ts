@@ -0,0 +1,233 @@
+import { formatSalaryRange, getEmploymentTypeLabel } from "@/lib/jobs/format";
+import type {
+  Company,
+  ContractTemplate,
+  ContractType,
+  EmploymentType,
+  JobOpeningEnhanced,
+  LegalReviewStatus,
+} from "@/lib/types/enhanced-database";
+
+export const CONTRACT_TYPES = [
+  'employment_full_time',
+  'employment_part_time',
+  'contractor_agreement',
+  'freelance_agreement',
+  'internship_agreement',
+  'offer_letter',
+  'nda',
+  'non_compete',
+  'promotion_letter',
+  'termination_letter',
+] as const satisfies readonly ContractType[];
+
+export const CONTRACT_TYPE_LABELS: Record<ContractType, string> = {
+  employment_full_time: 'Full-time employment',
+  employment_part_time: 'Part-time employment',
+  contractor_agreement: 'Contractor agreement',
+  freelance_agreement: 'Freelance agreement',
+  internship_agreement: 'Internship agreement',
+  offer_letter: 'Offer letter',
+  nda: 'Non-disclosure agreement',
+  non_compete: 'Non-compete agreement',
+  promotion_letter: 'Promotion letter',
+  termination_letter: 'Termination letter',
+};
+
+export const LEGAL_REVIEW_STATUSES = ['pending', 'approved', 'needs_revision', 'rejected'] as const satisfies readonly LegalReviewStatus[];
+
+export const LEGAL_REVIEW_STATUS_LABELS: Record<LegalReviewStatus, string> = {
+  pending: 'Awaiting legal review',
+  approved: 'Legally approved',
+  needs_revision: 'Needs revision',
+  rejected: 'Rejected by legal',
+};
+
+// The kind of contract each employment type is offered on
+const JOB_CONTRACT_TYPES: Record<EmploymentType, ContractType> = {
+  full_time: 'employment_full_time',
+  part_time: 'employment_part_time',
+  contract: 'contractor_agreement',
+  internship: 'internship_agreement',
+  freelance: 'freelance_agreement',
+};
+
+// Placeholders are lower snake case in braces, e.g. {start_date}
+export const VARIABLE_NAME_PATTERN = /^[a-z][a-z0-9_]*$/;
+const PLACEHOLDER_PATTERN = /\{([a-z][a-z0-9_]*)\}/g;
+
+// Shown in place of a placeholder that has no value
+export const BLANK_VARIABLE = '__________';
+
+/**
+ * Placeholders filled in automatically when a contract is issued. Candidate
+ * variables are only known once someone applies; the rest come from the
+ * job and company.
+ */
+export const BUILT_IN_VARIABLES = {
+  candidate_name: { label: 'Candidate name', candidate: true, example: 'Amina Wanjiru' },
+  candidate_email: { label: 'Candidate email', candidate: true, example: 'amina@example.com' },
+  job_title: { label: 'Job title', candidate: false, example: 'Software Engineer' },
+  company_name: { label: 'Company name', candidate: false, example: 'Acme Ltd' },
+  employment_type: { label: 'Employment type', candidate: false, example: 'Full Time' },
+  location: { label: 'Location', candidate: false, example: 'Nairobi, Kenya' },
+  salary: { label: 'Salary', candidate: false, example: 'KES 150,000 - 200,000 per month' },
+  today: { label: 'Date issued', candidate: false, example: '1 March 2026' },
+} as const;
+
+export type BuiltInVariable = keyof typeof BUILT_IN_VARIABLES;
+
+export const isBuiltInVariable = (name: string): name is BuiltInVariable =>
+  Object.prototype.hasOwnProperty.call(BUILT_IN_VARIABLES, name);
+
+// Placeholders the company fills in rather than the platform
+export const isCustomVariable = (name: string) => !isBuiltInVariable(name);
+
+/**
+ * Variable names used in a template, in the order they first appear.
+ */
+export function extractVariables(content: string): string[] {
+  return Array.from(new Set(Array.from(content.matchAll(PLACEHOLDER_PATTERN), (match) => match[1])));
+}
+
+/**
+ * Replace every {placeholder} with its value. Placeholders without a value
+ * are left as a blank line to fill in.
+ */
+export function renderContract(content: string, values: Record<string, string>): string {
+  return content.replace(PLACEHOLDER_PATTERN, (_placeholder, name: string) => values[name]?.trim() || BLANK_VARIABLE);
+}
+
+/**
+ * Required fields that have no value, in the template's order.
+ */
+export function getMissingFields(
+  template: Pick<ContractTemplate, 'required_fields'>,
+  values: Record<string, string>
+): string[] {
+  return template.required_fields.filter((field) => !values[field]?.trim());
+}
+
+/**
+ * Human name for a variable, e.g. "start_date" -> "Start date".
+ */
+export function getVariableLabel(name: string): string {
+  if (isBuiltInVariable(name)) return BUILT_IN_VARIABLES[name].label;
+  const words = name.replace(/_/g, ' ');
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+export const getContractTypeForJob = (employmentType: EmploymentType): ContractType =>
+  JOB_CONTRACT_TYPES[employmentType];
+
+/**
+ * The company's default active template for an employment type, which new
+ * postings start with.
+ */
+export function getDefaultContractTemplate<T extends Pick<ContractTemplate, 'contract_type' | 'is_default' | 'is_active'>>(
+  templates: T[],
+  employmentType: EmploymentType
+): T | null {
+  const contractType = getContractTypeForJob(employmentType);
+  return templates.find((template) => template.is_active && template.is_default && template.contract_type === contractType) ?? null;
+}
+
+const SALARY_PERIOD_SUFFIXES: Record<JobOpeningEnhanced['salary_period'], string> = {
+  hourly: 'per hour',
+  monthly: 'per month',
+  annually: 'per year',
+};
+
+type ContractJob = Pick<
+  JobOpeningEnhanced,
+  | 'title'
+  | 'employment_type'
+  | 'work_arrangement'
+  | 'location'
+  | 'salary_min'
+  | 'salary_max'
+  | 'salary_currency'
+  | 'salary_period'
+  | 'contract_variables'
+>;
+
+const compact = (values: Record<string, string | null | undefined>): Record<string, string> =>
+  Object.fromEntries(
+    Object.entries(values).flatMap(([name, value]) => (value?.trim() ? [[name, value.trim()]] : []))
+  );
+
+/**
+ * The date written on a contract. It is fixed to UTC so the copy the signer
+ * reads matches the copy the server stores, wherever the signer is.
+ */
+export function formatContractDate(date: Date = new Date()) {
+  return date.toLocaleDateString('en-GB', { dateStyle: 'long', timeZone: 'UTC' });
+}
+
+/**
+ * Values for everything but the candidate: the template's defaults, then
+ * what the job and company provide, then the job's own overrides.
+ */
+export function buildJobContractValues(
+  template: Pick<ContractTemplate, 'variables'>,
+  job: ContractJob,
+  company: Pick<Company, 'name'> | null,
+  issuedAt: Date = new Date()
+): Record<string, string> {
+  const salary = formatSalaryRange(job);
+
+  return {
+    ...compact(template.variables ?? {}),
+    ...compact({
+      job_title: job.title,
+      company_name: company?.name,
+      employment_type: getEmploymentTypeLabel(job.employment_type),
+      location: job.location || (job.work_arrangement === 'remote' ? 'Remote' : null),
+      salary: salary && `${salary} ${SALARY_PERIOD_SUFFIXES[job.salary_period]}`,
+    }),
+    ...compact(job.contract_variables ?? {}),
+    today: formatContractDate(issuedAt),
+  };
+}
+
+/**
+ * Every value for one candidate's contract. Candidate details always come
+ * from their account, never from the job.
+ */
+export function buildContractValues(
+  template: Pick<ContractTemplate, 'variables'>,
+  job: ContractJob,
+  company: Pick<Company, 'name'> | null,
+  candidate: { name: string | null; email: string | null },
+  issuedAt: Date = new Date()
+): Record<string, string> {
+  const values = buildJobContractValues(template, job, company, issuedAt);
+  delete values.candidate_name;
+  delete values.candidate_email;
+
+  return {
+    ...values,
+    ...compact({ candidate_name: candidate.name, candidate_email: candidate.email }),
+  };
+}
+
+/**
+ * Required fields the job itself leaves empty. Candidate fields are left
+ * out: they are checked when the contract is issued to someone.
+ */
+export function getMissingJobFields(
+  template: Pick<ContractTemplate, 'required_fields' | 'variables'>,
+  job: ContractJob,
+  company: Pick<Company, 'name'> | null
+): string[] {
+  return getMissingFields(template, buildJobContractValues(template, job, company))
+    .filter((field) => !isBuiltInVariable(field) || !BUILT_IN_VARIABLES[field].candidate);
+}
+
+// Example values for previewing a template in the editor
+export function getPreviewValues(template: Pick<ContractTemplate, 'variables'>): Record<string, string> {
+  return {
+    ...Object.fromEntries(Object.entries(BUILT_IN_VARIABLES).map(([name, variable]) => [name, variable.example])),
+    ...compact(template.variables ?? {}),
+  };
+}
@@ -0,0 +1,115 @@
+import { z } from "zod";
+import {
+  CONTRACT_TYPES,
+  LEGAL_REVIEW_STATUSES,
+  VARIABLE_NAME_PATTERN,
+  extractVariables,
+  isCustomVariable,
+} from "@/lib/contracts/templates";
+import { ENGAGEMENT_TYPES } from "@/lib/contracts/platform";
+import {
+  MAX_SIGNATURE_IMAGE_LENGTH,
+  SIGNATURE_METHODS,
+  SIGNING_ORDERS,
+} from "@/lib/contracts/signatures";
+
+export const MAX_CONTRACT_LENGTH = 50000;
+
+const variableName = z.string().regex(VARIABLE_NAME_PATTERN, { message: "Use lower case letters, digits and underscores." });
+
+export const ContractTemplateSchema = z.object({
+  name: z.string().trim().min(3, { message: "Template name must be at least 3 characters." }).max(120),
+  description: z.string().trim().max(1000).nullable(),
+  contract_type: z.enum(CONTRACT_TYPES, { message: "Please select a contract type." }),
+  template_content: z
+    .string()
+    .trim()
+    .min(50, { message: "The contract must be at least 50 characters." })
+    .max(MAX_CONTRACT_LENGTH, { message: `Keep the contract under ${MAX_CONTRACT_LENGTH.toLocaleString()} characters.` }),
+  variables: z.record(variableName, z.string().trim().max(500)),
+  required_fields: z.array(variableName).max(50),
+  jurisdiction: z.string().trim().max(120).nullable(),
+  applicable_law: z.string().trim().max(200).nullable(),
+  legal_review_status: z.enum(LEGAL_REVIEW_STATUSES),
+  is_default: z.boolean(),
+  is_active: z.boolean(),
+}).superRefine((template, ctx) => {
+  const used = new Set(extractVariables(template.template_content));
+  const unused = template.required_fields.filter((field) => !used.has(field));
+  if (unused.length > 0) {
+    ctx.addIssue({
+      code: 'custom',
+      message: `Required fields must appear in the contract: ${unused.join(', ')}.`,
+      path: ['required_fields'],
+    });
+  }
+  // Defaults are only kept for custom placeholders
+  const builtIn = Object.keys(template.variables).filter((name) => !isCustomVariable(name));
+  if (builtIn.length > 0) {
+    ctx.addIssue({
+      code: 'custom',
+      message: `These are filled in automatically: ${builtIn.join(', ')}.`,
+      path: ['variables'],
+    });
+  }
+});
+
+export type ContractTemplateValues = z.infer<typeof ContractTemplateSchema>;
+
+export const SignatureImageSchema = z
+  .string()
+  .max(MAX_SIGNATURE_IMAGE_LENGTH, { message: "The signature image is too large." })
+  .regex(/^data:image\/jpeg;base64,[A-Za-z0-9+/]+={0,2}$/, { message: "The signature image could not be read." });
+
+// The signature the signer adopted, and the saved signature it came from
+export const SignatureCaptureSchema = z.object({
+  method: z.enum(SIGNATURE_METHODS),
+  image: SignatureImageSchema,
+  asset_id: z.string().uuid().nullable().optional(),
+});
+
+export type SignatureCapture = z.infer<typeof SignatureCaptureSchema>;
+
+export const SignatureAssetSchema = z.object({
+  method: z.enum(SIGNATURE_METHODS),
+  image_data: SignatureImageSchema,
+});
+
+// What the signer adds to a document. document_hash is the hash of the text
+// they were shown, so a contract that changed in the meantime is not signed.
+const SignatureFields = {
+  full_name: z.string().trim().min(3, { message: "Full name must be at least 3 characters." }).max(200),
+  signature: SignatureCaptureSchema,
+  agree: z.literal(true, { message: "You must agree to the terms and conditions." }),
+  document_hash: z.string().regex(/^[0-9a-f]{64}$/),
+};
+
+export const SignContractSchema = z.discriminatedUnion('document', [
+  // A job's contract is signed for an application the signer has submitted
+  z.object({ document: z.literal('job'), job_id: z.string().uuid(), application_id: z.string().uuid(), ...SignatureFields }),
+  z.object({ document: z.literal('nda'), ...SignatureFields }),
+  z.object({ document: z.literal('engagement'), engagement_type: z.enum(ENGAGEMENT_TYPES), ...SignatureFields }),
+]);
+
+export type SignContractValues = z.infer<typeof SignContractSchema>;
+
+// Signing a contract that has already been issued
+export const SignatureSchema = z.object(SignatureFields);
+
+export type SignatureValues = z.infer<typeof SignatureSchema>;
+
+export const MAX_CONTRACT_EXPIRY_DAYS = 90;
+
+export const IssueContractSchema = z.object({
+  application_id: z.string().uuid(),
+  template_id: z.string().uuid({ message: "Please select a contract template." }),
+  signing_order: z.enum(SIGNING_ORDERS),
+  // Days the contract stays open for signing; null for no deadline
+  expires_in_days: z.number().int().min(1).max(MAX_CONTRACT_EXPIRY_DAYS).nullable(),
+});
+
+export type IssueContractValues = z.infer<typeof IssueContractSchema>;
+
+export const VoidContractSchema = z.object({
+  reason: z.string().trim().min(3, { message: "Please give a reason." }).max(500),
+});
@@ -0,0 +1,422 @@
+import type {
+  CvContactDetails,
+  CvEducationEntry,
+  DocumentAnalysisResult,
+  DocumentType,
+} from "@/lib/types/database";
+import type { UserProfileEnhanced, UserProfileEnhancedUpdate } from "@/lib/types/enhanced-database";
+
+// ---------------------------------------------------------------------------
+// Document type
+// ---------------------------------------------------------------------------
+
+const TYPE_SIGNALS: Record<Exclude<DocumentType, 'general'>, RegExp[]> = {
+  cv: [
+    /\bcurriculum vitae\b/i,
+    /\bresum[eé]\b/i,
+    /^\s*(work |professional )?experience\s*$/im,
+    /^\s*(employment|work) history\s*$/im,
+    /^\s*education(al background)?\s*$/im,
+    /^\s*(technical |key |core )?skills\s*$/im,
+    /^\s*(professional summary|summary|profile)\s*$/im,
+    /^\s*references\s*$/im,
+    /^\s*certifications?\s*$/im,
+  ],
+  nda: [
+    /\bnon[- ]disclosure\b/i,
+    /\bconfidential information\b/i,
+    /\bdisclosing party\b/i,
+    /\breceiving party\b/i,
+    /\bconfidentiality agreement\b/i,
+  ],
+  contract: [
+    /\b(employment|service|consulting|independent contractor) (agreement|contract)\b/i,
+    /\bhereinafter\b/i,
+    /\bin witness whereof\b/i,
+    /\bgoverning law\b/i,
+    /\btermination\b/i,
+    /\bthe parties\b/i,
+    /\bcompensation\b/i,
+  ],
+};
+
+/**
+ * Guess what kind of document this is from its text. The confidence is the
+ * share of matched signals that point to the chosen type.
+ */
+export function detectDocumentType(text: string): { type: DocumentType; confidence: number } {
+  const scores = (Object.keys(TYPE_SIGNALS) as Exclude<DocumentType, 'general'>[]).map((type) => ({
+    type,
+    score: TYPE_SIGNALS[type].filter((signal) => signal.test(text)).length,
+  }));
+  const total = scores.reduce((sum, { score }) => sum + score, 0);
+  const best = scores.sort((a, b) => b.score - a.score)[0];
+
+  // A single stray keyword is not enough to classify a document
+  if (best.score < 2) return { type: 'general', confidence: total === 0 ? 1 : 0.5 };
+  return { type: best.type, confidence: Math.round((best.score / total) * 100) / 100 };
+}
+
+// ---------------------------------------------------------------------------
+// Skills
+// ---------------------------------------------------------------------------
+
+// Canonical skill names with the other ways CVs write them
+const SKILL_ALIASES: Record<string, string[]> = {
+  'JavaScript': ['javascript', 'js', 'es6', 'ecmascript'],
+  'TypeScript': ['typescript'],
+  'Python': ['python'],
+  'Java': ['java'],
+  'C#': ['c#', 'csharp'],
+  'C++': ['c++', 'cpp'],
+  'Go': ['golang'],
+  'Rust': ['rust'],
+  'Ruby': ['ruby'],
+  'PHP': ['php'],
+  'Kotlin': ['kotlin'],
+  'Swift': ['swift'],
+  'Dart': ['dart'],
+  'Scala': ['scala'],
+  'SQL': ['sql'],
+  'HTML': ['html', 'html5'],
+  'CSS': ['css', 'css3'],
+  'Sass': ['sass', 'scss'],
+  'Tailwind CSS': ['tailwind', 'tailwindcss', 'tailwind css'],
+  'React': ['react', 'react.js', 'reactjs'],
+  'React Native': ['react native'],
+  'Next.js': ['next.js', 'nextjs'],
+  'Vue.js': ['vue', 'vue.js', 'vuejs'],
+  'Angular': ['angular', 'angularjs'],
+  'Svelte': ['svelte'],
+  'Redux': ['redux'],
+  'Node.js': ['node.js', 'nodejs'],
+  'Express': ['express', 'express.js', 'expressjs'],
+  'NestJS': ['nestjs', 'nest.js'],
+  'Django': ['django'],
+  'Flask': ['flask'],
+  'FastAPI': ['fastapi'],
+  'Spring Boot': ['spring boot', 'springboot'],
+  'Ruby on Rails': ['rails', 'ruby on rails'],
+  'Laravel': ['laravel'],
+  '.NET': ['.net', 'dotnet', 'asp.net'],
+  'Flutter': ['flutter'],
+  'Android': ['android'],
+  'iOS': ['ios'],
+  'GraphQL': ['graphql'],
+  'REST APIs': ['restful', 'rest api', 'rest apis'],
+  'PostgreSQL': ['postgresql', 'postgres'],
+  'MySQL': ['mysql'],
+  'MongoDB': ['mongodb', 'mongo'],
+  'Redis': ['redis'],
+  'Elasticsearch': ['elasticsearch'],
+  'Supabase': ['supabase'],
+  'Firebase': ['firebase'],
+  'AWS': ['aws', 'amazon web services'],
+  'Azure': ['azure'],
+  'Google Cloud': ['gcp', 'google cloud'],
+  'Docker': ['docker'],
+  'Kubernetes': ['kubernetes', 'k8s'],
+  'Terraform': ['terraform'],
+  'CI/CD': ['ci/cd', 'continuous integration'],
+  'Git': ['git', 'github', 'gitlab'],
+  'Linux': ['linux'],
+  'Jest': ['jest'],
+  'Cypress': ['cypress'],
+  'Machine Learning': ['machine learning', 'ml'],
+  'Deep Learning': ['deep learning'],
+  'TensorFlow': ['tensorflow'],
+  'PyTorch': ['pytorch'],
+  'Pandas': ['pandas'],
+  'NumPy': ['numpy'],
+  'Data Analysis': ['data analysis', 'data analytics'],
+  'Power BI': ['power bi', 'powerbi'],
+  'Tableau': ['tableau'],
+  'Excel': ['excel', 'microsoft excel', 'ms excel'],
+  'Figma': ['figma'],
+  'UI/UX Design': ['ui/ux', 'ux design', 'ui design', 'user experience'],
+  'Adobe Photoshop': ['photoshop'],
+  'Agile': ['agile'],
+  'Scrum': ['scrum'],
+  'Project Management': ['project management'],
+  'Product Management': ['product management'],
+  'Jira': ['jira'],
+  'Salesforce': ['salesforce'],
+  'SEO': ['seo', 'search engine optimization'],
+  'Digital Marketing': ['digital marketing'],
+  'Content Writing': ['content writing', 'copywriting'],
+  'Accounting': ['accounting', 'bookkeeping'],
+  'QuickBooks': ['quickbooks'],
+  'Customer Service': ['customer service', 'customer support'],
+  'Sales': ['sales'],
+  'Communication': ['communication skills'],
+  'Leadership': ['leadership', 'team leadership'],
+  'Public Speaking': ['public speaking'],
+  'Swahili': ['swahili', 'kiswahili'],
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Word boundaries that also work for names like "C++", "C#" and ".NET"
+const SKILL_PATTERNS = Object.entries(SKILL_ALIASES).map(([skill, aliases]) => ({
+  skill,
+  pattern: new RegExp(`(^|[^a-z0-9+#.])(${aliases.map(escapeRegExp).join('|')})(?=$|[^a-z0-9+#]|\\.(?:\\s|$))`, 'i'),
+}));
+
+/**
+ * Skills from the dictionary that appear in the text, most mentioned first.
+ */
+export function extractSkills(text: string): string[] {
+  return SKILL_PATTERNS
+    .map(({ skill, pattern }) => ({
+      skill,
+      count: text.split('\n').filter((line) => pattern.test(line)).length,
+    }))
+    .filter(({ count }) => count > 0)
+    .sort((a, b) => b.count - a.count)
+    .map(({ skill }) => skill);
+}
+
+const CANONICAL_SKILLS = new Map(
+  Object.entries(SKILL_ALIASES).flatMap(([skill, aliases]) =>
+    [skill, ...aliases].map((name) => [name.toLowerCase(), skill] as const)
+  )
+);
+
+/**
+ * The dictionary name for a skill however it is written ("nodejs" becomes
+ * "Node.js"), or the trimmed input if it is not in the dictionary.
+ */
+export function canonicalSkill(skill: string): string {
+  const name = skill.trim().replace(/\s+/g, ' ');
+  return CANONICAL_SKILLS.get(name.toLowerCase()) ?? name;
+}
+
+// ---------------------------------------------------------------------------
+// Sections, experience and education
+// ---------------------------------------------------------------------------
+
+type Section = 'experience' | 'education' | 'skills' | 'other';
+
+const SECTION_HEADINGS: [Section, RegExp][] = [
+  ['experience', /^(work |professional |relevant |employment )?(experience|history|employment)( history)?:?$/i],
+  ['education', /^(education|academic|qualifications)(al background| and training| history)?:?$/i],
+  ['skills', /^(technical |key |core )?(skills|competencies|technologies)(\s*&\s*\w+)?:?$/i],
+  ['other', /^(summary|profile|about me|objective|references|projects|certifications?|awards|interests|hobbies|languages|volunteering|publications):?$/i],
+];
+
+/**
+ * Split the text into the CV's sections by their headings. Text before the
+ * first heading counts as "other".
+ */
+function splitSections(text: string): Record<Section, string> {
+  const sections: Record<Section, string[]> = { experience: [], education: [], skills: [], other: [] };
+  let current: Section = 'other';
+
+  for (const line of text.split('\n')) {
+    const heading = line.trim().length <= 40
+      ? SECTION_HEADINGS.find(([, pattern]) => pattern.test(line.trim()))
+      : undefined;
+    if (heading) {
+      current = heading[0];
+    } else {
+      sections[current].push(line);
+    }
+  }
+
+  return {
+    experience: sections.experience.join('\n'),
+    education: sections.education.join('\n'),
+    skills: sections.skills.join('\n'),
+    other: sections.other.join('\n'),
+  };
+}
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const DATE = String.raw`(?:(?:(${MONTHS.join('|')})[a-z]*\.?\s+)|(?:(\d{1,2})[/.-]))?((?:19|20)\d{2})`;
+const DATE_RANGE = new RegExp(
+  `${DATE}\\s*(?:-|–|—|to|until)\\s*(?:${DATE}|(present|current|now|date|today))`,
+  'gi'
+);
+
+// Month index since year 0, so ranges can be compared and merged
+const toMonthIndex = (monthName: string | undefined, monthNumber: string | undefined, year: string, isEnd: boolean) => {
+  const month = monthName
+    ? MONTHS.indexOf(monthName.toLowerCase().slice(0, 3))
+    : monthNumber
+      ? Math.min(Math.max(Number(monthNumber), 1), 12) - 1
+      : isEnd ? 11 : 0;
+  return Number(year) * 12 + month;
+};
+
+/**
+ * Work experience in whole years, from an explicit "N years of experience"
+ * or by merging the date ranges listed under experience.
+ */
+export function estimateYearsExperience(text: string, now: Date = new Date()): number | null {
+  const explicit = Array.from(
+    text.matchAll(/(\d{1,2})\+?\s*(?:years?|yrs?)\.?\s+(?:of\s+)?(?:professional\s+|work\s+|industry\s+|relevant\s+|hands-on\s+)?experience/gi)
+  ).map((match) => Number(match[1]));
+
+  const sections = splitSections(text);
+  const source = sections.experience.trim() ? sections.experience : `${sections.other}\n${sections.skills}`;
+  const nowIndex = now.getFullYear() * 12 + now.getMonth();
+
+  const ranges = Array.from(source.matchAll(DATE_RANGE))
+    .map((match) => {
+      const start = toMonthIndex(match[1], match[2], match[3], false);
+      const end = match[7] ? nowIndex : toMonthIndex(match[4], match[5], match[6], true);
+      return [start, Math.min(end, nowIndex)] as const;
+    })
+    .filter(([start, end]) => end >= start && start <= nowIndex)
+    .sort((a, b) => a[0] - b[0]);
+
+  // Overlapping jobs only count once
+  let months = 0;
+  let coveredUntil = -Infinity;
+  for (const [start, end] of ranges) {
+    const from = Math.max(start, coveredUntil + 1);
+    if (end >= from) months += end - from + 1;
+    coveredUntil = Math.max(coveredUntil, end);
+  }
+
+  const fromRanges = months > 0 ? Math.floor(months / 12) : null;
+  const fromStatements = explicit.length > 0 ? Math.max(...explicit) : null;
+  if (fromStatements === null) return fromRanges;
+  if (fromRanges === null) return fromStatements;
+  return Math.max(fromStatements, fromRanges);
+}
+
+const DEGREE_PATTERN = /\b(ph\.?d|doctorate|master'?s?|m\.?sc|m\.?a\b|mba|bachelor'?s?|b\.?sc|b\.?a\b|b\.?eng|b\.?com|degree|diploma|certificate|kcse|high school|secondary school)/i;
+const INSTITUTION_PATTERN = /\b(university|college|institute|polytechnic|academy|school)\b/i;
+
+/**
+ * Qualifications from the education section, or from lines that mention a
+ * degree anywhere if there is no such section.
+ */
+export function extractEducation(text: string): CvEducationEntry[] {
+  const sections = splitSections(text);
+  const lines = (sections.education.trim() ? sections.education : text)
+    .split('\n')
+    .map((line) => line.trim())
+    .filter(Boolean);
+
+  const entries: CvEducationEntry[] = [];
+  lines.forEach((line, index) => {
+    if (!DEGREE_PATTERN.test(line) || line.length > 200) return;
+
+    const nearby = [line, lines[index + 1] ?? '', lines[index - 1] ?? ''];
+    const institution = nearby.find((candidate) => INSTITUTION_PATTERN.test(candidate));
+    const years = Array.from(nearby.slice(0, 2).join(' ').matchAll(/\b((?:19|20)\d{2})\b/g)).map((m) => Number(m[1]));
+
+    entries.push({
+      qualification: line,
+      ...(institution && institution !== line ? { institution } : {}),
+      ...(years.length > 0 ? { year: Math.max(...years) } : {}),
+    });
+  });
+
+  return entries.slice(0, 10);
+}
+
+export function extractContactDetails(text: string): CvContactDetails {
+  const email = /[a-z0-9._%+-]+@[a-z0-9.-]+\.[a-z]{2,}/i.exec(text)?.[0];
+  const phone = /(?:\+\d{1,3}[\s-]?)?(?:\(?\d{2,4}\)?[\s-]?){2,4}\d{3,4}/.exec(text)?.[0]?.trim();
+  const linkedin = /(?:https?:\/\/)?(?:[a-z]{2,3}\.)?linkedin\.com\/in\/[a-z0-9_-]+\/?/i.exec(text)?.[0];
+  const github = /(?:https?:\/\/)?github\.com\/[a-z0-9_-]+\/?/i.exec(text)?.[0];
+
+  // CVs usually open with the candidate's name on its own line
+  const firstLine = text.split('\n').map((line) => line.trim()).find(Boolean);
+  const name = firstLine && /^[A-Z][A-Za-z'’-]+(?:\s+[A-Z][A-Za-z'’.-]+){1,3}$/.test(firstLine) ? firstLine : undefined;
+
+  const digits = phone?.replace(/\D/g, '') ?? '';
+  return {
+    ...(name ? { name } : {}),
+    ...(email ? { email: email.toLowerCase() } : {}),
+    ...(phone && digits.length >= 9 && digits.length <= 15 ? { phone } : {}),
+    ...(linkedin ? { linkedin_url: linkedin } : {}),
+    ...(github ? { github_url: github } : {}),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Analysis
+// ---------------------------------------------------------------------------
+
+export type DocumentAnalysis = DocumentAnalysisResult & { document_type_detected: DocumentType };
+
+/**
+ * Analyse a document's extracted text: its type and, for CVs, the skills,
+ * experience, education and contact details it lists. Problems that make the
+ * result less reliable are reported in validation_errors.
+ */
+export function analyzeDocumentText(text: string, now: Date = new Date()): DocumentAnalysis {
+  const { type, confidence } = detectDocumentType(text);
+  const base: DocumentAnalysis = {
+    extracted_text: text,
+    document_type_detected: type,
+    confidence_score: confidence,
+    validation_errors: [],
+    analyzed_at: now.toISOString(),
+  };
+
+  if (type !== 'cv') return base;
+
+  const skills = extractSkills(text);
+  const yearsExperience = estimateYearsExperience(text, now);
+  const education = extractEducation(text);
+  const contact = extractContactDetails(text);
+
+  const validationErrors = [
+    ...(text.length < 300 ? ['The CV has very little text; it may be mostly images.'] : []),
+    ...(skills.length === 0 ? ['No recognised skills were found.'] : []),
+    ...(yearsExperience === null ? ['Years of experience could not be determined.'] : []),
+    ...(!contact.email ? ['No email address was found.'] : []),
+  ];
+
+  // Each missing finding lowers confidence in the extraction as a whole
+  const found = [skills.length > 0, yearsExperience !== null, education.length > 0, !!contact.email].filter(Boolean).length;
+
+  return {
+    ...base,
+    confidence_score: Math.round(confidence * (0.6 + 0.1 * found) * 100) / 100,
+    validation_errors: validationErrors,
+    skills,
+    years_experience: yearsExperience,
+    education,
+    contact,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Profile merge
+// ---------------------------------------------------------------------------
+
+const normalizeSkill = (skill: string) => skill.trim().toLowerCase();
+
+/**
+ * Skills found in the CV that are not on the profile yet.
+ */
+export function getNewSkills(profileSkills: string[], foundSkills: string[]): string[] {
+  const existing = new Set(profileSkills.map(normalizeSkill));
+  return foundSkills.filter((skill) => !existing.has(normalizeSkill(skill)));
+}
+
+/**
+ * Profile update that adds the chosen skills and, if asked, replaces years of
+ * experience with the CV's figure. Existing skills are never removed.
+ */
+export function mergeCvFindings(
+  profile: Pick<UserProfileEnhanced, 'skills' | 'years_experience'>,
+  selection: { skills: string[]; yearsExperience?: number | null }
+): UserProfileEnhancedUpdate {
+  const update: UserProfileEnhancedUpdate = {};
+
+  const newSkills = getNewSkills(profile.skills ?? [], selection.skills);
+  if (newSkills.length > 0) update.skills = [...(profile.skills ?? []), ...newSkills];
+
+  if (typeof selection.yearsExperience === 'number' && selection.yearsExperience !== profile.years_experience) {
+    update.years_experience = selection.yearsExperience;
+  }
+
+  return update;
+}
@@ -0,0 +1,133 @@
+import { deflateRawSync } from "node:zlib";
+import { describe, expect, it } from "vitest";
+import { extractDocxText, isZip } from "@/lib/documents/docx-text";
+
+interface ZipEntry {
+  name: string
+  content: string
+  deflate?: boolean
+  // Overrides the size recorded in the central directory
+  uncompressedSize?: number
+}
+
+// A zip archive with a central directory, as Word writes them. The reader
+// does not check CRCs, so they are left at zero.
+function buildZip(entries: ZipEntry[]): Buffer {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = Buffer.from(entry.name);
+    const raw = Buffer.from(entry.content);
+    const data = entry.deflate ? deflateRawSync(raw) : raw;
+    const method = entry.deflate ? 8 : 0;
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(method, 8);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(raw.length, 22);
+    local.writeUInt16LE(name.length, 26);
+    locals.push(local, name, data);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(method, 10);
+    central.writeUInt32LE(data.length, 20);
+    central.writeUInt32LE(entry.uncompressedSize ?? raw.length, 24);
+    central.writeUInt16LE(name.length, 28);
+    central.writeUInt32LE(offset, 42);
+    centrals.push(central, name);
+
+    offset += local.length + name.length + data.length;
+  }
+
+  const directory = Buffer.concat(centrals);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(entries.length, 8);
+  end.writeUInt16LE(entries.length, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+  return Buffer.concat([...locals, directory, end]);
+}
+
+const documentXml = (body: string) =>
+  `<?xml version="1.0"?><w:document><w:body>${body}</w:body></w:document>`;
+
+const paragraph = (text: string) => `<w:p><w:r><w:t>${text}</w:t></w:r></w:p>`;
+
+describe('extractDocxText', () => {
+  it('reads paragraphs, tabs and line breaks', () => {
+    const docx = buildZip([{
+      name: 'word/document.xml',
+      content: documentXml(`${paragraph('Jane Doe')}<w:p><w:r><w:t>Skills</w:t><w:tab/><w:t>React</w:t><w:br/><w:t>Node.js</w:t></w:r></w:p>`),
+      deflate: true,
+    }]);
+    expect(extractDocxText(docx)).toBe('Jane Doe\nSkills\tReact\nNode.js\n');
+  });
+
+  it('puts table cells on one line', () => {
+    const docx = buildZip([{
+      name: 'word/document.xml',
+      content: documentXml('<w:tbl><w:tr><w:tc><w:p><w:r><w:t>2020</w:t></w:r></w:p></w:tc><w:tc><w:p><w:r><w:t>Acme</w:t></w:r></w:p></w:tc></w:tr></w:tbl>'),
+    }]);
+    expect(extractDocxText(docx)).toBe('2020\n\tAcme\n\t');
+  });
+
+  it('finds the document part among the others', () => {
+    const docx = buildZip([
+      { name: '[Content_Types].xml', content: '<Types/>' },
+      { name: 'word/styles.xml', content: '<w:styles/>', deflate: true },
+      { name: 'word/document.xml', content: documentXml(paragraph('Found')), deflate: true },
+    ]);
+    expect(extractDocxText(docx)).toBe('Found\n');
+  });
+
+  it('decodes XML entities once', () => {
+    const docx = buildZip([{
+      name: 'word/document.xml',
+      content: documentXml(paragraph('R&amp;D &lt;team&gt; &#233;&#x2014; &amp;lt;')),
+    }]);
+    expect(extractDocxText(docx)).toBe('R&D <team> é— &lt;\n');
+  });
+
+  it.each(['&#x110000;', '&#1114112;', '&#99999999999999999999;'])(
+    'replaces the out-of-range character reference %s',
+    (reference) => {
+      const docx = buildZip([{ name: 'word/document.xml', content: documentXml(paragraph(`a${reference}b`)) }]);
+      expect(extractDocxText(docx)).toBe('a\ufffdb\n');
+    }
+  );
+
+  it('returns null for zip archives without a Word document', () => {
+    expect(extractDocxText(buildZip([{ name: 'notes.txt', content: 'hello' }]))).toBeNull();
+  });
+
+  it('returns null for parts over the size limit', () => {
+    const docx = buildZip([{
+      name: 'word/document.xml',
+      content: documentXml(paragraph('Big')),
+      deflate: true,
+      uncompressedSize: 21 * 1024 * 1024,
+    }]);
+    expect(extractDocxText(docx)).toBeNull();
+  });
+
+  it('returns null for a zip bomb that lies about its size', () => {
+    const docx = buildZip([{
+      name: 'word/document.xml',
+      content: documentXml(paragraph('x'.repeat(25 * 1024 * 1024))),
+      deflate: true,
+      uncompressedSize: 100,
+    }]);
+    expect(extractDocxText(docx)).toBeNull();
+  });
+
+  it('returns null for truncated archives', () => {
+    const docx = buildZip([{ name: 'word/document.xml', content: documentXml(paragraph('Cut')) }]);
+    expect(extractDocxText(docx.subarray(0, docx.length - 10))).toBeNull();
+    expect(isZip(docx)).toBe(true);
+  });
+});
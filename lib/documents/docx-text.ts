@@ -0,0 +1,93 @@
+import { inflateRawSync } from "node:zlib";
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_ENTRY = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+
+// Unpacked parts larger than this are not text we want to read
+const MAX_PART_SIZE = 20 * 1024 * 1024;
+
+/**
+ * Read one file out of a zip archive using its central directory. Supports
+ * stored and deflated entries, which is all Office documents use.
+ */
+function readZipEntry(zip: Buffer, entryName: string): Buffer | null {
+  // The end-of-central-directory record sits in the last 64KB + 22 bytes
+  let eocd = -1;
+  for (let i = zip.length - 22; i >= Math.max(0, zip.length - 65557); i--) {
+    if (zip.readUInt32LE(i) === END_OF_CENTRAL_DIRECTORY) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) return null;
+
+  const entryCount = zip.readUInt16LE(eocd + 10);
+  let offset = zip.readUInt32LE(eocd + 16);
+
+  for (let i = 0; i < entryCount && offset + 46 <= zip.length; i++) {
+    if (zip.readUInt32LE(offset) !== CENTRAL_DIRECTORY_ENTRY) return null;
+
+    const method = zip.readUInt16LE(offset + 10);
+    const compressedSize = zip.readUInt32LE(offset + 20);
+    const uncompressedSize = zip.readUInt32LE(offset + 24);
+    const nameLength = zip.readUInt16LE(offset + 28);
+    const extraLength = zip.readUInt16LE(offset + 30);
+    const commentLength = zip.readUInt16LE(offset + 32);
+    const localOffset = zip.readUInt32LE(offset + 42);
+    const name = zip.toString('utf8', offset + 46, offset + 46 + nameLength);
+
+    if (name === entryName) {
+      if (uncompressedSize > MAX_PART_SIZE || zip.readUInt32LE(localOffset) !== LOCAL_FILE_HEADER) return null;
+      const dataStart = localOffset + 30 + zip.readUInt16LE(localOffset + 26) + zip.readUInt16LE(localOffset + 28);
+      const data = zip.subarray(dataStart, dataStart + compressedSize);
+
+      if (method === 0) return data;
+      if (method === 8) return inflateRawSync(data, { maxOutputLength: MAX_PART_SIZE });
+      return null;
+    }
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return null;
+}
+
+// Character references past the last Unicode code point become U+FFFD
+const fromCodePoint = (code: number) => (code <= 0x10ffff ? String.fromCodePoint(code) : '\ufffd');
+
+const decodeXmlEntities = (text: string) => text
+  .replace(/&lt;/g, '<')
+  .replace(/&gt;/g, '>')
+  .replace(/&quot;/g, '"')
+  .replace(/&apos;/g, "'")
+  .replace(/&#x([0-9a-fA-F]+);/g, (_, hex) => fromCodePoint(parseInt(hex, 16)))
+  .replace(/&#(\d+);/g, (_, dec) => fromCodePoint(Number(dec)))
+  .replace(/&amp;/g, '&');
+
+/**
+ * Extract the body text of a Word (.docx) document, one paragraph per line.
+ * Returns null if the file is not a readable docx.
+ */
+export function extractDocxText(data: Buffer): string | null {
+  let xml: string;
+  try {
+    const part = readZipEntry(data, 'word/document.xml');
+    if (!part) return null;
+    xml = part.toString('utf8');
+  } catch {
+    return null;
+  }
+
+  return decodeXmlEntities(
+    xml
+      .replace(/<w:tab\/>/g, '\t')
+      .replace(/<w:(br|cr)\/>/g, '\n')
+      .replace(/<\/w:p>/g, '\n')
+      // Table cells on one line, separated like columns
+      .replace(/<\/w:tc>/g, '\t')
+      .replace(/<[^>]+>/g, '')
+  );
+}
+
+export const isZip = (data: Buffer) => data.length > 4 && data.readUInt32LE(0) === LOCAL_FILE_HEADER;
@@ -0,0 +1,78 @@
+import { extractDocxText, isZip } from "@/lib/documents/docx-text";
+import { extractPdfText, isPdf } from "@/lib/documents/pdf-text";
+
+export type DocumentFormat = 'pdf' | 'docx' | 'text';
+
+export const MAX_DOCUMENT_SIZE = 10 * 1024 * 1024;
+
+// Cap on stored text so analysis results stay a reasonable size
+export const MAX_EXTRACTED_TEXT_LENGTH = 50000;
+
+export class DocumentExtractionError extends Error {
+  readonly code: 'unsupported_format' | 'too_large' | 'no_text';
+
+  constructor(code: DocumentExtractionError['code'], message: string) {
+    super(message);
+    this.name = 'DocumentExtractionError';
+    this.code = code;
+  }
+}
+
+const OLE_SIGNATURE = Buffer.from([0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1]);
+
+// Plain text if nearly every character of a sample is printable. Invalid
+// UTF-8 decodes to U+FFFD, which does not count.
+const looksLikeText = (data: Buffer) => {
+  const sample = data.subarray(0, 4096).toString('utf8');
+  const printable = sample.replace(/[^\x09\x0a\x0d\x20-\x7e\u00a0-\ufffc]/g, '').length;
+  return sample.length > 0 && printable / sample.length > 0.95;
+};
+
+const normalizeText = (text: string) => text
+  .replace(/\r\n?/g, '\n')
+  .replace(/[ \t\u00a0]+/g, ' ')
+  .replace(/ *\n */g, '\n')
+  .replace(/\n{3,}/g, '\n\n')
+  .trim()
+  .slice(0, MAX_EXTRACTED_TEXT_LENGTH);
+
+/**
+ * Extract the text of an uploaded document. The format is detected from the
+ * file's contents, not its name or MIME type, which browsers often get wrong.
+ */
+export function extractDocumentText(data: Buffer): { format: DocumentFormat; text: string } {
+  if (data.length > MAX_DOCUMENT_SIZE) {
+    throw new DocumentExtractionError('too_large', 'The document is larger than 10MB.');
+  }
+
+  let format: DocumentFormat;
+  let text: string | null;
+  if (isPdf(data)) {
+    format = 'pdf';
+    text = extractPdfText(data);
+  } else if (isZip(data)) {
+    format = 'docx';
+    text = extractDocxText(data);
+    if (text === null) {
+      throw new DocumentExtractionError('unsupported_format', 'Only Word .docx files can be read, not other zip archives.');
+    }
+  } else if (data.subarray(0, 8).equals(OLE_SIGNATURE)) {
+    throw new DocumentExtractionError('unsupported_format', 'Old Word .doc files cannot be read. Save the document as .docx or PDF and upload it again.');
+  } else if (looksLikeText(data)) {
+    format = 'text';
+    text = data.toString('utf8');
+  } else {
+    throw new DocumentExtractionError('unsupported_format', 'This file type cannot be read. Upload a PDF, DOCX or TXT file.');
+  }
+
+  const normalized = normalizeText(text);
+  if (!normalized) {
+    throw new DocumentExtractionError(
+      'no_text',
+      format === 'pdf'
+        ? 'No text was found in this PDF. It may be a scanned image.'
+        : 'No text was found in this document.'
+    );
+  }
+  return { format, text: normalized };
+}
@@ -0,0 +1,138 @@
+import { deflateSync } from "node:zlib";
+import { describe, expect, it } from "vitest";
+import { extractPdfText, isPdf } from "@/lib/documents/pdf-text";
+
+type FixtureObject = string | { dict: string; stream: Buffer | string };
+
+// A PDF with the given objects numbered from 1. The reader finds objects by
+// scanning, so no xref table is written.
+function buildPdf(objects: FixtureObject[]): Buffer {
+  const parts: Buffer[] = [Buffer.from('%PDF-1.4\n')];
+  objects.forEach((object, index) => {
+    parts.push(Buffer.from(`${index + 1} 0 obj\n`));
+    if (typeof object === 'string') {
+      parts.push(Buffer.from(object));
+    } else {
+      const stream = Buffer.isBuffer(object.stream) ? object.stream : Buffer.from(object.stream, 'latin1');
+      parts.push(Buffer.from(`<< ${object.dict} /Length ${stream.length} >>\nstream\n`), stream, Buffer.from('\nendstream'));
+    }
+    parts.push(Buffer.from('\nendobj\n'));
+  });
+  parts.push(Buffer.from('trailer\n<< /Root 1 0 R >>\n%%EOF\n'));
+  return Buffer.concat(parts);
+}
+
+const HELVETICA = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>';
+
+// Catalog, page tree and font, then one page per content stream
+function singlePagePdf(content: Buffer | string, dict = '') {
+  return buildPdf([
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    '<< /Type /Pages /Kids [3 0 R] /Count 1 >>',
+    '<< /Type /Page /Parent 2 0 R /Resources << /Font << /F1 4 0 R >> >> /Contents 5 0 R >>',
+    HELVETICA,
+    { dict, stream: content },
+  ]);
+}
+
+describe('extractPdfText', () => {
+  it('reads text drawn on a page', () => {
+    const pdf = singlePagePdf('BT /F1 12 Tf 72 720 Td (Jane Doe) Tj 0 -14 Td (Software Engineer) Tj ET');
+    expect(extractPdfText(pdf)).toBe('Jane Doe\nSoftware Engineer\n');
+  });
+
+  it('inflates FlateDecode content streams', () => {
+    const pdf = singlePagePdf(deflateSync(Buffer.from('BT /F1 12 Tf (Compressed CV) Tj ET')), '/Filter /FlateDecode');
+    expect(extractPdfText(pdf)).toContain('Compressed CV');
+  });
+
+  it('turns wide TJ gaps into spaces', () => {
+    const pdf = singlePagePdf('BT /F1 12 Tf [(React) -400 (Node.js)] TJ ET');
+    expect(extractPdfText(pdf)).toContain('React Node.js');
+  });
+
+  it('decodes two-byte fonts through their ToUnicode CMap', () => {
+    const cmap = [
+      'begincodespacerange <0000> <ffff> endcodespacerange',
+      '1 beginbfchar <0001> <0048> endbfchar',
+      '1 beginbfrange <0002> <0003> <0069> endbfrange',
+    ].join('\n');
+    const pdf = buildPdf([
+      '<< /Type /Catalog /Pages 2 0 R >>',
+      '<< /Type /Pages /Kids [3 0 R] /Count 1 >>',
+      '<< /Type /Page /Parent 2 0 R /Resources << /Font << /F1 4 0 R >> >> /Contents 5 0 R >>',
+      '<< /Type /Font /Subtype /Type0 /BaseFont /Custom /ToUnicode 6 0 R >>',
+      { dict: '', stream: 'BT /F1 12 Tf <000100020003> Tj ET' },
+      { dict: '', stream: cmap },
+    ]);
+    expect(extractPdfText(pdf)).toContain('Hij');
+  });
+
+  it('returns no text for a PDF without pages', () => {
+    expect(extractPdfText(buildPdf(['<< /Type /Catalog >>']))).toBe('');
+  });
+
+  it('recognises PDFs by their header', () => {
+    expect(isPdf(singlePagePdf('BT ET'))).toBe(true);
+    expect(isPdf(Buffer.from('Just a text file'))).toBe(false);
+  });
+});
+
+describe('extractPdfText with hostile files', () => {
+  it('visits a page tree node once when it lists itself as a kid', () => {
+    const pdf = buildPdf([
+      '<< /Type /Catalog /Pages 2 0 R >>',
+      '<< /Type /Pages /Kids [2 0 R 2 0 R 3 0 R] /Count 1 >>',
+      '<< /Type /Page /Parent 2 0 R /Resources << /Font << /F1 4 0 R >> >> /Contents 5 0 R >>',
+      HELVETICA,
+      { dict: '', stream: 'BT /F1 12 Tf (Only once) Tj ET' },
+    ]);
+    expect(extractPdfText(pdf).match(/Only once/g)).toHaveLength(1);
+  });
+
+  it('reads at most 1000 pages', () => {
+    const pageCount = 1200;
+    const kids = Array.from({ length: pageCount }, (_, i) => `${i + 5} 0 R`).join(' ');
+    const pdf = buildPdf([
+      '<< /Type /Catalog /Pages 2 0 R >>',
+      `<< /Type /Pages /Kids [${kids}] /Count ${pageCount} >>`,
+      HELVETICA,
+      { dict: '', stream: 'BT /F1 12 Tf (Page) Tj ET' },
+      ...Array.from({ length: pageCount }, () =>
+        '<< /Type /Page /Parent 2 0 R /Resources << /Font << /F1 3 0 R >> >> /Contents 4 0 R >>'
+      ),
+    ]);
+    expect(extractPdfText(pdf).match(/Page/g)).toHaveLength(1000);
+  });
+
+  it('stops building a CMap once its mappings run out', () => {
+    const ranges = Array.from({ length: 3000 }, () => '<0000> <ffff> <0041>').join('\n');
+    const cmap = `begincodespacerange <0000> <ffff> endcodespacerange\n3000 beginbfrange\n${ranges}\nendbfrange`;
+    const pdf = buildPdf([
+      '<< /Type /Catalog /Pages 2 0 R >>',
+      '<< /Type /Pages /Kids [3 0 R] /Count 1 >>',
+      '<< /Type /Page /Parent 2 0 R /Resources << /Font << /F1 4 0 R >> >> /Contents 5 0 R >>',
+      '<< /Type /Font /Subtype /Type0 /BaseFont /Custom /ToUnicode 6 0 R >>',
+      { dict: '', stream: 'BT /F1 12 Tf <00000001> Tj ET' },
+      { dict: '', stream: cmap },
+    ]);
+
+    const started = performance.now();
+    expect(extractPdfText(pdf)).toContain('AB');
+    expect(performance.now() - started).toBeLessThan(2000);
+  });
+
+  it('does not overflow the stack on deeply nested arrays', () => {
+    const content = `BT /F1 12 Tf ${'['.repeat(100000)} (Nested) Tj ET`;
+    expect(() => extractPdfText(singlePagePdf(content))).not.toThrow();
+  });
+
+  it('does not throw on unbalanced delimiters', () => {
+    expect(() => extractPdfText(singlePagePdf(`BT ${')'.repeat(10000)} ${'>>'.repeat(10000)} ET`))).not.toThrow();
+  });
+
+  it('gives up on streams that do not inflate', () => {
+    const pdf = singlePagePdf('not deflate data', '/Filter /FlateDecode');
+    expect(extractPdfText(pdf)).toBe('');
+  });
+});
@@ -0,0 +1,592 @@
+import { inflateSync, constants as zlibConstants } from "node:zlib";
+
+// A small PDF reader that is just enough to pull the text out of CVs: it
+// understands indirect objects (including compressed object streams),
+// FlateDecode streams, page content streams and ToUnicode CMaps. Layout is
+// approximated with line breaks on text moves; images and scanned pages
+// yield no text.
+
+type PdfValue =
+  | null
+  | boolean
+  | number
+  | string
+  | PdfName
+  | PdfRef
+  | PdfString
+  | PdfValue[]
+  | PdfDict;
+
+class PdfName {
+  constructor(readonly name: string) {}
+}
+
+class PdfRef {
+  constructor(readonly num: number, readonly gen: number) {}
+}
+
+class PdfString {
+  constructor(readonly bytes: Uint8Array) {}
+}
+
+type PdfDict = Map<string, PdfValue>;
+
+interface PdfObject {
+  value: PdfValue;
+  stream?: Buffer;
+}
+
+// Limits for hostile files: a small upload can inflate to gigabytes, nest
+// arrays deeply enough to exhaust the stack, list a page tree node among its
+// own kids, or describe millions of character mappings in a few lines
+const MAX_STREAM_SIZE = 20 * 1024 * 1024;
+const MAX_INFLATED_SIZE = 50 * 1024 * 1024;
+const MAX_NESTING = 64;
+const MAX_PAGES = 1000;
+const MAX_CMAP_ENTRIES = 200000;
+
+const isWhitespace = (c: number) => c === 0x20 || c === 0x0a || c === 0x0d || c === 0x09 || c === 0x0c || c === 0x00;
+const isDelimiter = (c: number) => '()<>[]{}/%'.includes(String.fromCharCode(c));
+
+class Lexer {
+  pos = 0;
+  private depth = 0;
+
+  constructor(readonly data: Buffer, start = 0, readonly end = data.length) {
+    this.pos = start;
+  }
+
+  private skipWhitespace() {
+    while (this.pos < this.end) {
+      const c = this.data[this.pos];
+      if (isWhitespace(c)) {
+        this.pos++;
+      } else if (c === 0x25 /* % */) {
+        while (this.pos < this.end && this.data[this.pos] !== 0x0a && this.data[this.pos] !== 0x0d) this.pos++;
+      } else {
+        break;
+      }
+    }
+  }
+
+  // Next token as a parsed value, or a bare keyword/operator as a string
+  next(): PdfValue | { keyword: string } | undefined {
+    for (;;) {
+      this.skipWhitespace();
+      if (this.pos >= this.end) return undefined;
+
+      const c = this.data[this.pos];
+      if (c === 0x28 /* ( */) return this.readLiteralString();
+      if (c === 0x3c /* < */) {
+        if (this.data[this.pos + 1] === 0x3c) {
+          this.pos += 2;
+          return this.nested(() => this.readDict());
+        }
+        return this.readHexString();
+      }
+      if (c === 0x5b /* [ */) {
+        this.pos++;
+        return this.nested(() => this.readArray());
+      }
+      if (c === 0x2f /* / */) {
+        this.pos++;
+        return new PdfName(this.readRegular());
+      }
+      if (c === 0x5d || c === 0x3e || c === 0x7b || c === 0x7d) {
+        this.pos += c === 0x3e && this.data[this.pos + 1] === 0x3e ? 2 : 1;
+        return { keyword: c === 0x5d ? ']' : c === 0x3e ? '>>' : String.fromCharCode(c) };
+      }
+
+      // A stray delimiter such as ')': skip it
+      const word = this.readRegular();
+      if (word === '') {
+        this.pos++;
+        continue;
+      }
+      if (/^[+-]?(\d+\.?\d*|\.\d+)$/.test(word)) return Number(word);
+      if (word === 'true') return true;
+      if (word === 'false') return false;
+      if (word === 'null') return null;
+      return { keyword: word };
+    }
+  }
+
+  // Arrays and dictionaries nested deeper than MAX_NESTING read as null
+  private nested(read: () => PdfValue): PdfValue {
+    if (this.depth >= MAX_NESTING) return null;
+    this.depth++;
+    try {
+      return read();
+    } finally {
+      this.depth--;
+    }
+  }
+
+  // Parse a value, folding "n g R" into a reference
+  value(): PdfValue | { keyword: string } | undefined {
+    const token = this.next();
+    if (typeof token !== 'number' || !Number.isInteger(token)) return token;
+
+    const saved = this.pos;
+    const gen = this.next();
+    if (typeof gen === 'number' && Number.isInteger(gen)) {
+      const r = this.next();
+      if (r && typeof r === 'object' && 'keyword' in r && r.keyword === 'R') {
+        return new PdfRef(token, gen);
+      }
+    }
+    this.pos = saved;
+    return token;
+  }
+
+  private readRegular() {
+    const start = this.pos;
+    while (this.pos < this.end && !isWhitespace(this.data[this.pos]) && !isDelimiter(this.data[this.pos])) this.pos++;
+    const word = this.data.toString('latin1', start, this.pos);
+    return word.replace(/#([0-9a-fA-F]{2})/g, (_, hex) => String.fromCharCode(parseInt(hex, 16)));
+  }
+
+  private readArray(): PdfValue[] {
+    const items: PdfValue[] = [];
+    for (;;) {
+      const token = this.value();
+      if (token === undefined || (token && typeof token === 'object' && 'keyword' in token && token.keyword === ']')) {
+        return items;
+      }
+      if (!(token && typeof token === 'object' && 'keyword' in token)) items.push(token);
+    }
+  }
+
+  private readDict(): PdfDict {
+    const dict: PdfDict = new Map();
+    for (;;) {
+      const key = this.next();
+      if (key === undefined || (key && typeof key === 'object' && 'keyword' in key && key.keyword === '>>')) {
+        return dict;
+      }
+      if (!(key instanceof PdfName)) continue;
+      const value = this.value();
+      if (value === undefined) return dict;
+      if (!(value && typeof value === 'object' && 'keyword' in value)) dict.set(key.name, value);
+    }
+  }
+
+  private readLiteralString(): PdfString {
+    this.pos++;
+    const bytes: number[] = [];
+    let depth = 1;
+    while (this.pos < this.end) {
+      const c = this.data[this.pos++];
+      if (c === 0x5c /* \ */) {
+        const next = this.data[this.pos++];
+        const escapes: Record<number, number> = { 0x6e: 0x0a, 0x72: 0x0d, 0x74: 0x09, 0x62: 0x08, 0x66: 0x0c };
+        if (next in escapes) {
+          bytes.push(escapes[next]);
+        } else if (next >= 0x30 && next <= 0x37) {
+          let octal = next - 0x30;
+          for (let i = 0; i < 2 && this.data[this.pos] >= 0x30 && this.data[this.pos] <= 0x37; i++) {
+            octal = octal * 8 + (this.data[this.pos++] - 0x30);
+          }
+          bytes.push(octal & 0xff);
+        } else if (next === 0x0d) {
+          if (this.data[this.pos] === 0x0a) this.pos++;
+        } else if (next !== 0x0a) {
+          bytes.push(next);
+        }
+      } else if (c === 0x28) {
+        depth++;
+        bytes.push(c);
+      } else if (c === 0x29) {
+        if (--depth === 0) break;
+        bytes.push(c);
+      } else {
+        bytes.push(c);
+      }
+    }
+    return new PdfString(Uint8Array.from(bytes));
+  }
+
+  private readHexString(): PdfString {
+    this.pos++;
+    let hex = '';
+    while (this.pos < this.end && this.data[this.pos] !== 0x3e) {
+      const c = String.fromCharCode(this.data[this.pos++]);
+      if (/[0-9a-fA-F]/.test(c)) hex += c;
+    }
+    this.pos++;
+    if (hex.length % 2) hex += '0';
+    return new PdfString(Uint8Array.from(Buffer.from(hex, 'hex')));
+  }
+}
+
+const isKeyword = (token: unknown, keyword?: string): token is { keyword: string } =>
+  !!token && typeof token === 'object' && 'keyword' in token && (keyword === undefined || token.keyword === keyword);
+
+// Inflate up to maxOutputLength bytes; anything larger is treated as unreadable
+function inflate(data: Buffer, maxOutputLength: number): Buffer | null {
+  if (maxOutputLength <= 0) return null;
+  try {
+    return inflateSync(data, { maxOutputLength });
+  } catch {
+    try {
+      // Some writers truncate the final block; take what inflates
+      return inflateSync(data, { finishFlush: zlibConstants.Z_SYNC_FLUSH, maxOutputLength });
+    } catch {
+      return null;
+    }
+  }
+}
+
+class PdfDocument {
+  private objects = new Map<number, PdfObject>();
+  // Where each "n g obj" starts its value, keyed by "n g"
+  private offsets = new Map<string, number>();
+  private decoded = new Map<PdfObject, Buffer | null>();
+  // Bytes left to inflate across all streams in the file
+  private inflateBudget = MAX_INFLATED_SIZE;
+  // Character mappings left to build across all ToUnicode CMaps
+  private cmapBudget = { entries: MAX_CMAP_ENTRIES };
+  private cmapDecoders = new Map<PdfObject, (bytes: Uint8Array) => string>();
+  private readonly text: string;
+
+  constructor(private readonly data: Buffer) {
+    this.text = data.toString('latin1');
+    this.readObjects();
+    this.readObjectStreams();
+  }
+
+  // Scan for "n g obj" rather than trusting the xref table, which is often
+  // wrong in generated CVs
+  private readObjects() {
+    const text = this.text;
+    const pattern = /(\d+)\s+(\d+)\s+obj\b/g;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(text))) {
+      if (!this.offsets.has(`${match[1]} ${match[2]}`)) {
+        this.offsets.set(`${match[1]} ${match[2]}`, match.index + match[0].length);
+      }
+    }
+
+    pattern.lastIndex = 0;
+    while ((match = pattern.exec(text))) {
+      const num = Number(match[1]);
+      const lexer = new Lexer(this.data, match.index + match[0].length);
+      const value = lexer.value();
+      if (value === undefined || isKeyword(value)) continue;
+
+      const object: PdfObject = { value };
+      const after = lexer.next();
+      if (isKeyword(after, 'stream') && value instanceof Map) {
+        let start = lexer.pos;
+        if (this.data[start] === 0x0d) start++;
+        if (this.data[start] === 0x0a) start++;
+        const length = this.resolveLength(value.get('Length'));
+        let end = length !== null && start + length <= this.data.length ? start + length : -1;
+        if (end < 0 || this.data.toString('latin1', end, end + 20).indexOf('endstream') < 0) {
+          end = text.indexOf('endstream', start);
+          if (end < 0) end = this.data.length;
+        }
+        object.stream = this.data.subarray(start, end);
+        pattern.lastIndex = end;
+      }
+      this.objects.set(num, object);
+    }
+  }
+
+  private resolveLength(length: PdfValue | undefined): number | null {
+    if (typeof length === 'number') return length;
+    if (length instanceof PdfRef) {
+      // The length object may come later in the file; read it where it is
+      const offset = this.offsets.get(`${length.num} ${length.gen}`);
+      const value = offset === undefined ? undefined : new Lexer(this.data, offset).next();
+      return typeof value === 'number' ? value : null;
+    }
+    return null;
+  }
+
+  private readObjectStreams() {
+    for (const object of Array.from(this.objects.values())) {
+      const dict = object.value;
+      if (!(dict instanceof Map) || (dict.get('Type') as PdfName | undefined)?.name !== 'ObjStm') continue;
+
+      const data = this.streamData(object);
+      const count = dict.get('N');
+      const first = dict.get('First');
+      if (!data || typeof count !== 'number' || typeof first !== 'number') continue;
+
+      const header = new Lexer(data, 0, first);
+      const entries: [number, number][] = [];
+      for (let i = 0; i < count; i++) {
+        const num = header.next();
+        const offset = header.next();
+        if (typeof num !== 'number' || typeof offset !== 'number') break;
+        entries.push([num, offset]);
+      }
+      for (const [num, offset] of entries) {
+        if (this.objects.has(num)) continue;
+        const value = new Lexer(data, first + offset).value();
+        if (value !== undefined && !isKeyword(value)) this.objects.set(num, { value });
+      }
+    }
+  }
+
+  resolve(value: PdfValue | undefined): PdfValue | undefined {
+    let current = value;
+    for (let depth = 0; current instanceof PdfRef && depth < 10; depth++) {
+      current = this.objects.get(current.num)?.value;
+    }
+    return current;
+  }
+
+  private objectFor(value: PdfValue | undefined): PdfObject | undefined {
+    return value instanceof PdfRef ? this.objects.get(value.num) : undefined;
+  }
+
+  // Decoded once per object: fonts are shared by many pages
+  streamData(object: PdfObject | undefined): Buffer | null {
+    if (!object?.stream || !(object.value instanceof Map)) return null;
+    const cached = this.decoded.get(object);
+    if (cached !== undefined) return cached;
+
+    const filter = this.resolve(object.value.get('Filter'));
+    const filters = (Array.isArray(filter) ? filter : filter ? [filter] : [])
+      .map((f) => (f instanceof PdfName ? f.name : ''));
+
+    let data: Buffer | null = object.stream;
+    for (const name of filters) {
+      if (name !== 'FlateDecode' || !data) {
+        data = null;
+        break;
+      }
+      data = inflate(data, Math.min(MAX_STREAM_SIZE, this.inflateBudget));
+      if (data) this.inflateBudget -= data.length;
+    }
+    this.decoded.set(object, data);
+    return data;
+  }
+
+  pages(): PdfDict[] {
+    const pages: PdfDict[] = [];
+    const root = Array.from(this.objects.values())
+      .map((object) => object.value)
+      .find((value): value is PdfDict => value instanceof Map && (value.get('Type') as PdfName | undefined)?.name === 'Catalog');
+    // Each node is visited once, so a tree that refers back to itself ends
+    const visited = new Set<PdfDict>();
+    const visit = (node: PdfValue | undefined, inherited: PdfDict | undefined, depth: number) => {
+      const dict = this.resolve(node);
+      if (!(dict instanceof Map) || depth > 50 || visited.has(dict) || pages.length >= MAX_PAGES) return;
+      visited.add(dict);
+      const resources = (this.resolve(dict.get('Resources')) as PdfDict | undefined) ?? inherited;
+      const kids = this.resolve(dict.get('Kids'));
+      if (Array.isArray(kids)) {
+        kids.forEach((kid) => visit(kid, resources, depth + 1));
+      } else {
+        const page = new Map(dict);
+        if (resources) page.set('Resources', resources);
+        pages.push(page);
+      }
+    };
+    if (root) visit(root.get('Pages'), undefined, 0);
+    return pages;
+  }
+
+  pageContent(page: PdfDict): Buffer {
+    const contents = page.get('Contents');
+    const resolved = this.resolve(contents);
+    const refs = Array.isArray(resolved) ? resolved : [contents];
+    return Buffer.concat(
+      refs.flatMap((ref) => {
+        const data = this.streamData(this.objectFor(ref as PdfValue));
+        return data ? [data, Buffer.from('\n')] : [];
+      })
+    );
+  }
+
+  fontDecoders(page: PdfDict): Map<string, (bytes: Uint8Array) => string> {
+    const decoders = new Map<string, (bytes: Uint8Array) => string>();
+    const resources = this.resolve(page.get('Resources'));
+    const fonts = resources instanceof Map ? this.resolve(resources.get('Font')) : undefined;
+    if (!(fonts instanceof Map)) return decoders;
+
+    for (const [name, ref] of Array.from(fonts.entries())) {
+      const font = this.resolve(ref);
+      if (!(font instanceof Map)) continue;
+      const cmapObject = this.objectFor(font.get('ToUnicode'));
+      const cmap = this.streamData(cmapObject);
+      if (!cmapObject || !cmap) {
+        decoders.set(name, decodeSimpleString);
+        continue;
+      }
+      // Built once per CMap, so pages sharing a font do not spend the budget again
+      let decoder = this.cmapDecoders.get(cmapObject);
+      if (!decoder) {
+        const twoByte = (font.get('Subtype') as PdfName | undefined)?.name === 'Type0';
+        decoder = createCMapDecoder(cmap.toString('latin1'), twoByte, this.cmapBudget);
+        this.cmapDecoders.set(cmapObject, decoder);
+      }
+      decoders.set(name, decoder);
+    }
+    return decoders;
+  }
+}
+
+function decodeSimpleString(bytes: Uint8Array): string {
+  // UTF-16 with a byte order mark, otherwise treat as Latin-1 (close enough
+  // to WinAnsi/PDFDoc for the text we care about)
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) {
+    return Buffer.from(bytes.subarray(2)).swap16().toString('utf16le');
+  }
+  return Buffer.from(bytes).toString('latin1');
+}
+
+const hexToString = (hex: string) => {
+  const bytes = Buffer.from(hex.length % 4 === 0 ? hex : hex.padStart(Math.ceil(hex.length / 4) * 4, '0'), 'hex');
+  return bytes.swap16().toString('utf16le');
+};
+
+/**
+ * Decoder for a ToUnicode CMap: maps character codes from bfchar and bfrange
+ * sections to Unicode text. Mappings beyond the budget are left out.
+ */
+function createCMapDecoder(
+  cmap: string,
+  twoByte: boolean,
+  budget: { entries: number }
+): (bytes: Uint8Array) => string {
+  const map = new Map<number, string>();
+  let codeLength = twoByte ? 2 : 1;
+
+  const codespace = /<([0-9a-fA-F]+)>\s*<[0-9a-fA-F]+>/.exec(cmap.split('begincodespacerange')[1] ?? '');
+  if (codespace) codeLength = Math.max(1, codespace[1].length / 2);
+
+  for (const section of cmap.split('beginbfchar').slice(1)) {
+    const body = section.split('endbfchar')[0];
+    for (const match of Array.from(body.matchAll(/<([0-9a-fA-F]+)>\s*<([0-9a-fA-F]*)>/g))) {
+      if (budget.entries <= 0) break;
+      map.set(parseInt(match[1], 16), hexToString(match[2]));
+      budget.entries--;
+    }
+  }
+
+  for (const section of cmap.split('beginbfrange').slice(1)) {
+    const body = section.split('endbfrange')[0];
+    const pattern = /<([0-9a-fA-F]+)>\s*<([0-9a-fA-F]+)>\s*(<([0-9a-fA-F]+)>|\[([^\]]*)\])/g;
+    for (const match of Array.from(body.matchAll(pattern))) {
+      if (budget.entries <= 0) break;
+      const low = parseInt(match[1], 16);
+      const high = Math.min(parseInt(match[2], 16), low + 0xffff, low + budget.entries - 1);
+      if (high < low) continue;
+      budget.entries -= high - low + 1;
+      if (match[4] !== undefined) {
+        const start = hexToString(match[4]);
+        for (let code = low; code <= high; code++) {
+          const offset = code - low;
+          map.set(code, start.slice(0, -1) + String.fromCharCode(start.charCodeAt(start.length - 1) + offset));
+        }
+      } else {
+        const targets = Array.from((match[5] ?? '').matchAll(/<([0-9a-fA-F]*)>/g)).slice(0, high - low + 1);
+        targets.forEach((target, offset) => map.set(low + offset, hexToString(target[1])));
+      }
+    }
+  }
+
+  return (bytes: Uint8Array) => {
+    let text = '';
+    for (let i = 0; i + codeLength <= bytes.length; i += codeLength) {
+      let code = 0;
+      for (let j = 0; j < codeLength; j++) code = code * 256 + bytes[i + j];
+      text += map.get(code) ?? (codeLength === 1 ? String.fromCharCode(code) : '');
+    }
+    return text;
+  };
+}
+
+// Kerning in a TJ array beyond this (thousandths of an em) reads as a space
+const TJ_SPACE_THRESHOLD = -200;
+
+function extractContentText(content: Buffer, decoders: Map<string, (bytes: Uint8Array) => string>): string {
+  const lexer = new Lexer(content);
+  const operands: PdfValue[] = [];
+  let decode = decodeSimpleString;
+  let text = '';
+
+  const newline = () => {
+    if (text && !text.endsWith('\n')) text += '\n';
+  };
+
+  for (let token = lexer.value(); token !== undefined; token = lexer.value()) {
+    if (!isKeyword(token)) {
+      operands.push(token);
+      continue;
+    }
+
+    switch (token.keyword) {
+      case 'Tf': {
+        const name = operands[operands.length - 2];
+        if (name instanceof PdfName) decode = decoders.get(name.name) ?? decodeSimpleString;
+        break;
+      }
+      case 'Tj':
+      case "'":
+      case '"': {
+        if (token.keyword !== 'Tj') newline();
+        const string = operands[operands.length - 1];
+        if (string instanceof PdfString) text += decode(string.bytes);
+        break;
+      }
+      case 'TJ': {
+        const items = operands[operands.length - 1];
+        if (Array.isArray(items)) {
+          for (const item of items) {
+            if (item instanceof PdfString) text += decode(item.bytes);
+            else if (typeof item === 'number' && item < TJ_SPACE_THRESHOLD && !text.endsWith(' ')) text += ' ';
+          }
+        }
+        break;
+      }
+      case 'Td':
+      case 'TD': {
+        // Horizontal moves within a line become spaces, vertical ones new lines
+        const dy = operands[operands.length - 1];
+        if (typeof dy === 'number' && Math.abs(dy) > 0.5) newline();
+        else if (text && !/\s$/.test(text)) text += ' ';
+        break;
+      }
+      case 'T*':
+      case 'Tm':
+      case 'ET':
+        newline();
+        break;
+      case 'BI':
+        // Skip inline image data
+        while (lexer.pos < lexer.end && !(content.toString('latin1', lexer.pos, lexer.pos + 2) === 'EI' && isWhitespace(content[lexer.pos + 2] ?? 0x20))) {
+          lexer.pos++;
+        }
+        lexer.pos += 2;
+        break;
+    }
+    operands.length = 0;
+  }
+
+  return text;
+}
+
+/**
+ * Extract the text of a PDF, page by page. Returns an empty string for
+ * PDFs without a text layer.
+ */
+export function extractPdfText(data: Buffer): string {
+  const pdf = new PdfDocument(data);
+  const texts: string[] = [];
+  // Pages can share one content stream, so the total read is capped as well
+  let contentBudget = MAX_INFLATED_SIZE;
+  for (const page of pdf.pages()) {
+    const content = pdf.pageContent(page);
+    if (content.length > contentBudget) break;
+    contentBudget -= content.length;
+    texts.push(extractContentText(content, pdf.fontDecoders(page)));
+  }
+  return texts.join('\n\n');
+}
+
+export const isPdf = (data: Buffer) => data.subarray(0, 1024).toString('latin1').includes('%PDF-');
@@ -0,0 +1,386 @@
+import { deflateSync } from "node:zlib";
+
+// A small PDF writer for documents we generate, such as signed contracts:
+// A4 pages of wrapped text in the standard Helvetica and Courier fonts, so
+// nothing has to be embedded. Text is encoded as WinAnsi; characters it
+// cannot represent are written as '?'. Images must be JPEGs, which PDF
+// can show as they are.
+
+const PAGE_WIDTH = 595.28;
+const PAGE_HEIGHT = 841.89;
+const FOOTER_SIZE = 8;
+const FIELD_LABEL_WIDTH = 120;
+
+export type PdfFont = 'regular' | 'bold' | 'italic' | 'mono';
+
+const FONTS: Record<PdfFont, { resource: string; baseFont: string }> = {
+  regular: { resource: 'F1', baseFont: 'Helvetica' },
+  bold: { resource: 'F2', baseFont: 'Helvetica-Bold' },
+  italic: { resource: 'F3', baseFont: 'Helvetica-Oblique' },
+  mono: { resource: 'F4', baseFont: 'Courier' },
+};
+
+// Advance widths of characters 32-126 in thousandths of the font size,
+// from the Adobe font metrics. Helvetica-Oblique shares Helvetica's.
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+];
+
+// WinAnsi codes for the punctuation outside Latin-1 that contracts use
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  '€': 0x80, '…': 0x85, '‘': 0x91, '’': 0x92, '“': 0x93, '”': 0x94,
+  '•': 0x95, '–': 0x96, '—': 0x97, '™': 0x99,
+};
+
+// Close enough for wrapping the few characters outside the tables above
+const EXTRA_WIDTHS: Record<number, number> = {
+  0x80: 556, 0x85: 1000, 0x91: 222, 0x92: 222, 0x93: 333, 0x94: 333,
+  0x95: 350, 0x96: 556, 0x97: 1000, 0x99: 1000,
+};
+
+function encodeWinAnsi(text: string): number[] {
+  return Array.from(text.replace(/\t/g, '    '), (char) => {
+    const code = char.codePointAt(0)!;
+    if ((code >= 0x20 && code <= 0x7e) || (code >= 0xa0 && code <= 0xff)) return code;
+    return WIN_ANSI_EXTRAS[char] ?? 0x3f;
+  });
+}
+
+function charWidth(code: number, font: PdfFont) {
+  if (font === 'mono') return 600;
+  if (code >= 0x20 && code <= 0x7e) {
+    return (font === 'bold' ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS)[code - 0x20];
+  }
+  return EXTRA_WIDTHS[code] ?? 556;
+}
+
+export function measureText(text: string, font: PdfFont, size: number) {
+  return encodeWinAnsi(text).reduce((sum, code) => sum + charWidth(code, font), 0) * size / 1000;
+}
+
+// A literal string operand: WinAnsi bytes with the delimiters escaped
+function pdfString(text: string) {
+  const bytes = encodeWinAnsi(text).map((code) => String.fromCharCode(code)).join('');
+  return `(${bytes.replace(/[\\()]/g, (char) => `\\${char}`)})`;
+}
+
+// Text strings outside content streams (document info) as UTF-16BE
+function pdfTextString(text: string) {
+  const hex = Array.from(text, (char) => {
+    const code = char.codePointAt(0)!;
+    const units = code > 0xffff
+      ? [0xd800 + ((code - 0x10000) >> 10), 0xdc00 + ((code - 0x10000) & 0x3ff)]
+      : [code];
+    return units.map((unit) => unit.toString(16).padStart(4, '0')).join('');
+  }).join('');
+  return `<FEFF${hex}>`;
+}
+
+function pdfDate(date: Date) {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `(D:${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}`
+    + `${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z)`;
+}
+
+const num = (value: number) => Number(value.toFixed(2)).toString();
+
+/**
+ * Break text into lines no wider than maxWidth. Newlines in the text are
+ * kept; words longer than a line are split.
+ */
+export function wrapText(text: string, font: PdfFont, size: number, maxWidth: number): string[] {
+  const lines: string[] = [];
+
+  for (const paragraph of text.replace(/\r\n?/g, '\n').split('\n')) {
+    let line = '';
+    for (const word of paragraph.split(/ +/)) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (measureText(candidate, font, size) <= maxWidth) {
+        line = candidate;
+        continue;
+      }
+      if (line) lines.push(line);
+
+      line = '';
+      for (const char of word) {
+        if (line && measureText(line + char, font, size) > maxWidth) {
+          lines.push(line);
+          line = '';
+        }
+        line += char;
+      }
+    }
+    lines.push(line);
+  }
+
+  return lines;
+}
+
+export interface JpegInfo {
+  width: number;
+  height: number;
+  components: 1 | 3;
+}
+
+// Start-of-frame markers, which carry the image size
+const JPEG_FRAME_MARKERS = new Set([0xc0, 0xc1, 0xc2, 0xc3, 0xc5, 0xc6, 0xc7, 0xc9, 0xca, 0xcb, 0xcd, 0xce, 0xcf]);
+
+/**
+ * The size and colour components of a JPEG, or null if the data is not a
+ * greyscale or RGB JPEG that a PDF can embed.
+ */
+export function readJpegInfo(data: Buffer): JpegInfo | null {
+  if (data.length < 4 || data[0] !== 0xff || data[1] !== 0xd8) return null;
+
+  let offset = 2;
+  while (offset + 4 <= data.length) {
+    if (data[offset] !== 0xff) return null;
+    const marker = data[offset + 1];
+    // Fill bytes and markers without a length
+    if (marker === 0xff) {
+      offset += 1;
+      continue;
+    }
+    if (marker === 0x01 || (marker >= 0xd0 && marker <= 0xd7)) {
+      offset += 2;
+      continue;
+    }
+    if (marker === 0xd9 || marker === 0xda) return null;
+
+    const segmentLength = data.readUInt16BE(offset + 2);
+    if (JPEG_FRAME_MARKERS.has(marker)) {
+      if (offset + 10 > data.length) return null;
+      const height = data.readUInt16BE(offset + 5);
+      const width = data.readUInt16BE(offset + 7);
+      const components = data[offset + 9];
+      if (!width || !height || (components !== 1 && components !== 3)) return null;
+      return { width, height, components };
+    }
+    offset += 2 + segmentLength;
+  }
+
+  return null;
+}
+
+export interface PdfTextStyle {
+  font?: PdfFont;
+  size?: number;
+  muted?: boolean;
+  align?: 'left' | 'center';
+  // Extra left indent in points
+  indent?: number;
+}
+
+export interface PdfWriterOptions {
+  title: string;
+  margin?: number;
+  // Footer text for each page, given its number and the page count
+  footer?: (page: number, pageCount: number) => string;
+}
+
+/**
+ * Lays text out top to bottom across as many pages as it needs. Call
+ * toBuffer() once everything has been added.
+ */
+export class PdfWriter {
+  private readonly pages: string[][] = [];
+  private readonly images: { data: Buffer; info: JpegInfo }[] = [];
+  private readonly margin: number;
+  private cursor = 0;
+
+  constructor(private readonly options: PdfWriterOptions) {
+    this.margin = options.margin ?? 56;
+    this.addPage();
+  }
+
+  get contentWidth() {
+    return PAGE_WIDTH - this.margin * 2;
+  }
+
+  // Lowest point content can reach, leaving room for the footer
+  private get bottom() {
+    return PAGE_HEIGHT - this.margin;
+  }
+
+  addPage() {
+    this.pages.push([]);
+    this.cursor = this.margin;
+  }
+
+  // Start a new page unless the next `height` points fit on this one
+  ensureSpace(height: number) {
+    if (this.cursor + height > this.bottom) this.addPage();
+  }
+
+  space(height: number) {
+    this.cursor = Math.min(this.cursor + height, this.bottom);
+  }
+
+  text(text: string, style: PdfTextStyle = {}) {
+    const font = style.font ?? 'regular';
+    const size = style.size ?? 10;
+    const indent = style.indent ?? 0;
+    const lineHeight = size * 1.4;
+
+    for (const line of wrapText(text, font, size, this.contentWidth - indent)) {
+      this.ensureSpace(lineHeight);
+      const x = style.align === 'center'
+        ? (PAGE_WIDTH - measureText(line, font, size)) / 2
+        : this.margin + indent;
+      if (line) this.drawText(line, x, PAGE_HEIGHT - this.cursor - size, font, size, style.muted);
+      this.cursor += lineHeight;
+    }
+  }
+
+  // A label with its value wrapped in a column beside it
+  field(label: string, value: string, valueFont: PdfFont = 'regular') {
+    const size = 9;
+    const lineHeight = size * 1.4;
+    const lines = wrapText(value, valueFont, size, this.contentWidth - FIELD_LABEL_WIDTH);
+
+    this.ensureSpace(lineHeight);
+    this.drawText(label, this.margin, PAGE_HEIGHT - this.cursor - size, 'bold', size, true);
+    lines.forEach((line, index) => {
+      if (index > 0) this.ensureSpace(lineHeight);
+      this.drawText(line, this.margin + FIELD_LABEL_WIDTH, PAGE_HEIGHT - this.cursor - size, valueFont, size);
+      this.cursor += lineHeight;
+    });
+  }
+
+  /**
+   * Draw a JPEG at the left margin, scaled down to fit within maxWidth by
+   * maxHeight points. Returns false, drawing nothing, if the data is not a
+   * JPEG that can be embedded.
+   */
+  image(data: Buffer, maxWidth: number, maxHeight: number) {
+    const info = readJpegInfo(data);
+    if (!info) return false;
+
+    const scale = Math.min(maxWidth / info.width, maxHeight / info.height, 1);
+    const width = info.width * scale;
+    const height = info.height * scale;
+    this.ensureSpace(height);
+    this.images.push({ data, info });
+    this.current.push(
+      `q ${num(width)} 0 0 ${num(height)} ${num(this.margin)} ${num(PAGE_HEIGHT - this.cursor - height)} cm `
+        + `/Im${this.images.length} Do Q`
+    );
+    this.cursor += height;
+    return true;
+  }
+
+  rule() {
+    this.ensureSpace(12);
+    const y = num(PAGE_HEIGHT - this.cursor - 6);
+    this.current.push(`0.8 G 0.5 w ${num(this.margin)} ${y} m ${num(PAGE_WIDTH - this.margin)} ${y} l S`);
+    this.cursor += 12;
+  }
+
+  toBuffer(now: Date = new Date()): Buffer {
+    const chunks: Buffer[] = [];
+    const offsets: number[] = [];
+    let length = 0;
+
+    const write = (data: string | Buffer) => {
+      const buffer = typeof data === 'string' ? Buffer.from(data, 'latin1') : data;
+      chunks.push(buffer);
+      length += buffer.length;
+    };
+    const object = (id: number, body: string | Buffer, stream?: Buffer) => {
+      offsets[id] = length;
+      write(`${id} 0 obj\n`);
+      write(body);
+      if (stream) {
+        write('\nstream\n');
+        write(stream);
+        write('\nendstream');
+      }
+      write('\nendobj\n');
+    };
+
+    const fontIds = Object.keys(FONTS).map((_, index) => 3 + index);
+    const firstPageId = 3 + fontIds.length;
+    const firstImageId = firstPageId + this.pages.length * 2;
+    const infoId = firstImageId + this.images.length;
+    const pageIds = this.pages.map((_, index) => firstPageId + index * 2);
+
+    write('%PDF-1.4\n%\xe2\xe3\xcf\xd3\n');
+    object(1, '<< /Type /Catalog /Pages 2 0 R >>');
+    object(2, `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`);
+    Object.values(FONTS).forEach(({ baseFont }, index) => {
+      object(fontIds[index], `<< /Type /Font /Subtype /Type1 /BaseFont /${baseFont} /Encoding /WinAnsiEncoding >>`);
+    });
+
+    const fontResources = Object.values(FONTS)
+      .map(({ resource }, index) => `/${resource} ${fontIds[index]} 0 R`)
+      .join(' ');
+    const imageResources = this.images.length > 0
+      ? ` /XObject << ${this.images.map((_, index) => `/Im${index + 1} ${firstImageId + index} 0 R`).join(' ')} >>`
+      : '';
+
+    this.pages.forEach((operations, index) => {
+      const footer = this.options.footer?.(index + 1, this.pages.length);
+      const content = [...operations];
+      if (footer) {
+        const x = (PAGE_WIDTH - measureText(footer, 'regular', FOOTER_SIZE)) / 2;
+        content.push(this.textOperation(footer, x, this.margin / 2, 'regular', FOOTER_SIZE, true));
+      }
+      const stream = deflateSync(Buffer.from(content.join('\n'), 'latin1'));
+
+      object(
+        pageIds[index],
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${num(PAGE_WIDTH)} ${num(PAGE_HEIGHT)}] `
+          + `/Resources << /Font << ${fontResources} >>${imageResources} >> /Contents ${pageIds[index] + 1} 0 R >>`
+      );
+      object(pageIds[index] + 1, `<< /Length ${stream.length} /Filter /FlateDecode >>`, stream);
+    });
+
+    this.images.forEach(({ data, info }, index) => {
+      object(
+        firstImageId + index,
+        `<< /Type /XObject /Subtype /Image /Width ${info.width} /Height ${info.height} `
+          + `/ColorSpace /${info.components === 1 ? 'DeviceGray' : 'DeviceRGB'} /BitsPerComponent 8 `
+          + `/Filter /DCTDecode /Length ${data.length} >>`,
+        data
+      );
+    });
+
+    object(infoId, `<< /Title ${pdfTextString(this.options.title)} /Producer (Uwezo) /CreationDate ${pdfDate(now)} >>`);
+
+    const xrefOffset = length;
+    write(`xref\n0 ${infoId + 1}\n0000000000 65535 f \n`);
+    for (let id = 1; id <= infoId; id++) {
+      write(`${String(offsets[id]).padStart(10, '0')} 00000 n \n`);
+    }
+    write(`trailer\n<< /Size ${infoId + 1} /Root 1 0 R /Info ${infoId} 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+    return Buffer.concat(chunks);
+  }
+
+  private get current() {
+    return this.pages[this.pages.length - 1];
+  }
+
+  private drawText(text: string, x: number, y: number, font: PdfFont, size: number, muted = false) {
+    this.current.push(this.textOperation(text, x, y, font, size, muted));
+  }
+
+  private textOperation(text: string, x: number, y: number, font: PdfFont, size: number, muted: boolean) {
+    return `BT /${FONTS[font].resource} ${num(size)} Tf ${muted ? '0.4' : '0'} g `
+      + `1 0 0 1 ${num(x)} ${num(y)} Tm ${pdfString(text)} Tj ET`;
+  }
+}
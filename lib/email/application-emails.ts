@@ -0,0 +1,107 @@
+import { sendEmail, sendUserEmail } from "@/lib/email/send";
+import { getStageLabel } from "@/lib/applications/pipeline";
+import { HIRING_ROLES, type Repository } from "@/lib/supabase/repository";
+import type { JobApplicationEnhanced } from "@/lib/types/enhanced-database";
+import { getAbsoluteUrl, getProfileName } from "@/lib/utils";
+
+const CANDIDATE_DASHBOARD_PATH = '/protected/employee';
+
+/**
+ * Confirm a new application to the candidate and tell the company's hiring
+ * team about it. Applications knocked out by screening questions are
+ * confirmed but not sent to the team. Safe to call more than once.
+ */
+export async function sendApplicationSubmittedEmails(repo: Repository, application: JobApplicationEnhanced) {
+  const job = await repo.jobOpenings.get(application.job_opening_id);
+  if (!job) return;
+
+  const candidate = await repo.profiles.get(application.applicant_id);
+  const candidateName = getProfileName(candidate);
+
+  await sendUserEmail(repo, {
+    template: 'application_confirmation',
+    userId: application.applicant_id,
+    relatedId: application.id,
+    props: {
+      candidateName,
+      jobTitle: job.title,
+      companyName: job.company?.name ?? null,
+      dashboardUrl: getAbsoluteUrl(CANDIDATE_DASHBOARD_PATH),
+    },
+  });
+
+  if (application.status === 'rejected') return;
+
+  const members = (await repo.companyMembers.list(job.company_id))
+    .filter((member) => member.status === 'active' && HIRING_ROLES.includes(member.role));
+  const profiles = await repo.profiles.listByUserIds(members.map((member) => member.user_id));
+
+  for (const profile of profiles) {
+    if (!profile.email) continue;
+    await sendEmail(repo, {
+      template: 'new_applicant',
+      to: profile.email,
+      userId: profile.user_id,
+      relatedId: application.id,
+      preferences: profile.notification_preferences,
+      props: {
+        recipientName: getProfileName(profile),
+        candidateName,
+        jobTitle: job.title,
+        applicationUrl: getAbsoluteUrl(`/protected/employer/applications/${application.id}`),
+      },
+    });
+  }
+}
+
+/**
+ * Tell the candidate the hiring team moved their application. Rejections
+ * include the reason only when the team chose to share it; withdrawals are
+ * the candidate's own doing and are not emailed.
+ */
+export async function sendApplicationStatusEmail(
+  repo: Repository,
+  application: JobApplicationEnhanced,
+  { shareRejectionReason = false }: { shareRejectionReason?: boolean } = {}
+) {
+  if (application.status === 'withdrawn') return;
+
+  const job = await repo.jobOpenings.get(application.job_opening_id);
+  if (!job) return;
+
+  const candidateName = getProfileName(await repo.profiles.get(application.applicant_id));
+  const companyName = job.company?.name ?? null;
+  const dashboardUrl = getAbsoluteUrl(CANDIDATE_DASHBOARD_PATH);
+  const recipient = { userId: application.applicant_id };
+
+  switch (application.status) {
+    case 'rejected':
+      await sendUserEmail(repo, {
+        ...recipient,
+        template: 'rejection',
+        relatedId: application.id,
+        props: {
+          candidateName,
+          jobTitle: job.title,
+          companyName,
+          reason: shareRejectionReason ? application.rejection_reason : null,
+          jobBoardUrl: getAbsoluteUrl('/jobs'),
+        },
+      });
+      break;
+    case 'offer_extended':
+      await sendUserEmail(repo, {
+        ...recipient,
+        template: 'offer',
+        relatedId: application.id,
+        props: { candidateName, jobTitle: job.title, companyName, dashboardUrl },
+      });
+      break;
+    default:
+      await sendUserEmail(repo, {
+        ...recipient,
+        template: 'status_update',
+        props: { candidateName, jobTitle: job.title, companyName, stageLabel: getStageLabel(application.status), dashboardUrl },
+      });
+  }
+}
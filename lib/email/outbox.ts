@@ -0,0 +1,63 @@
+import type { EmailTransport } from "@/lib/email/transport";
+import type { Repository } from "@/lib/supabase/repository";
+import type { EmailOutboxMessage } from "@/lib/types/enhanced-database";
+
+// Messages that fail this many times are marked failed and left alone
+export const MAX_SEND_ATTEMPTS = 5;
+
+const SEND_BATCH_SIZE = 50;
+
+export interface OutboxDeliveryResult {
+  sent: number
+  failed: number
+}
+
+/**
+ * Send one outbox message and record the outcome. A failure is recorded on
+ * the message, which stays pending for a retry until its attempts run out.
+ */
+export async function deliverMessage(
+  repo: Repository,
+  transport: EmailTransport,
+  message: EmailOutboxMessage
+): Promise<boolean> {
+  const attempts = message.attempts + 1;
+  try {
+    await transport.send({
+      to: message.to_email,
+      subject: message.subject,
+      text: message.text_body,
+      html: message.html_body,
+      headers: message.headers,
+    });
+    await repo.emailOutbox.markSent(message.id, attempts);
+    return true;
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    console.error(`Error sending email ${message.id} via ${transport.name}:`, reason);
+    await repo.emailOutbox.markFailed(message.id, attempts, reason, attempts >= MAX_SEND_ATTEMPTS);
+    return false;
+  }
+}
+
+/**
+ * Send pending outbox messages through the transport, oldest first.
+ */
+export async function deliverQueuedEmails(
+  repo: Repository,
+  transport: EmailTransport,
+  limit: number = SEND_BATCH_SIZE
+): Promise<OutboxDeliveryResult> {
+  const pending = await repo.emailOutbox.listPending(limit, MAX_SEND_ATTEMPTS);
+  const result: OutboxDeliveryResult = { sent: 0, failed: 0 };
+
+  for (const message of pending) {
+    if (await deliverMessage(repo, transport, message)) {
+      result.sent += 1;
+    } else {
+      result.failed += 1;
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,35 @@
+import type { NotificationPreferences } from "@/lib/types/enhanced-database";
+
+// Where the footer of every email sends people to change what they receive
+export const EMAIL_PREFERENCES_PATH = '/protected/notifications#email-preferences';
+
+/**
+ * What an email is about, for opt-outs. Each category but "account" is a
+ * switch in NotificationPreferences; account emails (team invites,
+ * contracts to sign) are always sent because they ask for an action.
+ */
+export type EmailCategory =
+  | 'account'
+  | keyof Pick<NotificationPreferences, 'application_updates' | 'interview_reminders' | 'job_alerts' | 'marketing_emails'>;
+
+export const EMAIL_CATEGORY_LABELS: Record<Exclude<EmailCategory, 'account'>, string> = {
+  application_updates: 'Application updates',
+  interview_reminders: 'Interview invites and reminders',
+  job_alerts: 'Job alerts',
+  marketing_emails: 'News and tips',
+};
+
+/**
+ * Whether the recipient's settings allow an email of this category.
+ * Settings left unset count as on, except marketing, which needs an
+ * explicit opt-in.
+ */
+export function isEmailAllowed(
+  category: EmailCategory,
+  preferences: Partial<NotificationPreferences> | null | undefined
+): boolean {
+  if (category === 'account') return true;
+  if (preferences?.email_notifications === false) return false;
+  if (category === 'marketing_emails') return preferences?.marketing_emails === true;
+  return preferences?.[category] !== false;
+}
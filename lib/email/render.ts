@@ -0,0 +1,119 @@
+import { Fragment, isValidElement, type CSSProperties, type ReactElement, type ReactNode } from "react";
+
+// Route handlers run with the react-server build of React, where
+// react-dom/server is unavailable, so email templates are rendered by
+// walking the element tree here. Templates must be plain function
+// components: no hooks, context or async components.
+
+const VOID_ELEMENTS = new Set(['area', 'br', 'col', 'hr', 'img', 'meta', 'wbr']);
+
+// Elements that start a new line in the plain text version
+const BLOCK_ELEMENTS = new Set([
+  'address', 'div', 'footer', 'h1', 'h2', 'h3', 'h4', 'header', 'hr', 'li', 'ol', 'p', 'section', 'table', 'tr', 'ul',
+]);
+
+const ATTRIBUTE_NAMES: Record<string, string> = {
+  className: 'class',
+  htmlFor: 'for',
+  httpEquiv: 'http-equiv',
+  cellPadding: 'cellpadding',
+  cellSpacing: 'cellspacing',
+};
+
+const escapeHtml = (text: string) => text
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+const toKebabCase = (name: string) => name.replace(/[A-Z]/g, (letter) => `-${letter.toLowerCase()}`);
+
+const formatStyle = (style: CSSProperties) => Object.entries(style)
+  .filter(([, value]) => value !== undefined && value !== null && value !== '')
+  .map(([name, value]) => `${toKebabCase(name)}:${typeof value === 'number' && value !== 0 ? `${value}px` : value}`)
+  .join(';');
+
+type ElementProps = Record<string, unknown> & { children?: ReactNode };
+
+// Function components are called until an intrinsic element, text or fragment is left
+function resolve(node: ReactNode): ReactNode {
+  let current = node;
+  while (isValidElement(current) && typeof current.type === 'function') {
+    const component = current.type as (props: unknown) => ReactNode;
+    current = component(current.props);
+  }
+  return current;
+}
+
+function renderAttributes(props: ElementProps): string {
+  return Object.entries(props)
+    .filter(([name, value]) =>
+      name !== 'children'
+      && name !== 'dangerouslySetInnerHTML'
+      && !/^on[A-Z]/.test(name)
+      && value !== undefined && value !== null && value !== false
+    )
+    .map(([name, value]) => {
+      const attribute = ATTRIBUTE_NAMES[name] ?? name;
+      if (value === true) return ` ${attribute}`;
+      const text = name === 'style' ? formatStyle(value as CSSProperties) : String(value);
+      return ` ${attribute}="${escapeHtml(text)}"`;
+    })
+    .join('');
+}
+
+function renderHtml(node: ReactNode): string {
+  const resolved = resolve(node);
+  if (resolved === null || resolved === undefined || typeof resolved === 'boolean') return '';
+  if (typeof resolved === 'string' || typeof resolved === 'number') return escapeHtml(String(resolved));
+  if (Array.isArray(resolved)) return resolved.map(renderHtml).join('');
+  if (!isValidElement<ElementProps>(resolved)) return '';
+
+  if (resolved.type === Fragment) return renderHtml(resolved.props.children);
+
+  const tag = resolved.type as string;
+  const props = resolved.props;
+  const open = `<${tag}${renderAttributes(props)}>`;
+  if (VOID_ELEMENTS.has(tag)) return open;
+
+  const inner = (props.dangerouslySetInnerHTML as { __html: string } | undefined)?.__html
+    ?? renderHtml(props.children);
+  return `${open}${inner}</${tag}>`;
+}
+
+function renderText(node: ReactNode): string {
+  const resolved = resolve(node);
+  if (resolved === null || resolved === undefined || typeof resolved === 'boolean') return '';
+  if (typeof resolved === 'string' || typeof resolved === 'number') return String(resolved);
+  if (Array.isArray(resolved)) return resolved.map(renderText).join('');
+  if (!isValidElement<ElementProps>(resolved)) return '';
+
+  const tag = resolved.type;
+  const props = resolved.props;
+  if (tag === Fragment) return renderText(props.children);
+  if (tag === 'br') return '\n';
+  if (tag === 'hr') return '\n\n----\n\n';
+  // Hidden preview text is for the inbox list only
+  if ((props.style as CSSProperties | undefined)?.display === 'none') return '';
+
+  const text = renderText(props.children);
+  if (tag === 'a' && typeof props.href === 'string' && props.href !== text.trim()) {
+    return `${text} (${props.href})`;
+  }
+  if (tag === 'li') return `\n- ${text.trim()}\n`;
+  return BLOCK_ELEMENTS.has(tag as string) ? `\n${text}\n` : text;
+}
+
+/**
+ * An email template as an HTML document and a plain text alternative.
+ */
+export function renderEmail(element: ReactElement): { html: string; text: string } {
+  const html = `<!DOCTYPE html>${renderHtml(element)}`;
+  const text = renderText(element)
+    .split('\n')
+    .map((line) => line.replace(/[ \t]+/g, ' ').trim())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+  return { html, text };
+}
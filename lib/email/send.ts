@@ -0,0 +1,79 @@
+import { createElement } from "react";
+import { renderEmail } from "@/lib/email/render";
+import { EMAIL_PREFERENCES_PATH, isEmailAllowed } from "@/lib/email/preferences";
+import { deliverMessage } from "@/lib/email/outbox";
+import { getEmailTransport, type EmailTransport } from "@/lib/email/transport";
+import {
+  EMAIL_TEMPLATES,
+  type EmailTemplateName,
+  type EmailTemplateProps,
+} from "@/lib/email/templates";
+import type { EmailTemplate } from "@/lib/email/templates/types";
+import type { Repository } from "@/lib/supabase/repository";
+import type { NotificationPreferences } from "@/lib/types/enhanced-database";
+import { getAbsoluteUrl } from "@/lib/utils";
+
+// duplicate: already logged for this template and record, nothing was done
+export type EmailSendResult = 'sent' | 'failed' | 'skipped' | 'duplicate' | 'no_address';
+
+export interface SendEmailOptions<T extends EmailTemplateName> {
+  template: T
+  to: string
+  props: EmailTemplateProps<T>
+  userId?: string | null
+  // The record the email is about; with userId, makes the send idempotent
+  relatedId?: string | null
+  preferences?: Partial<NotificationPreferences> | null
+}
+
+/**
+ * Render a template, record it in the send log and send it straight away.
+ * Opted-out recipients are logged as skipped. A failed send stays pending
+ * in the log and is retried by the scheduled outbox run.
+ */
+export async function sendEmail<T extends EmailTemplateName>(
+  repo: Repository,
+  { template, to, props, userId = null, relatedId = null, preferences }: SendEmailOptions<T>,
+  transport: EmailTransport = getEmailTransport()
+): Promise<EmailSendResult> {
+  if (userId && relatedId && await repo.emailOutbox.hasLogged(template, relatedId, userId)) {
+    return 'duplicate';
+  }
+
+  const definition = EMAIL_TEMPLATES[template] as EmailTemplate<EmailTemplateProps<T>>;
+  const { html, text } = renderEmail(createElement(definition.Component, {
+    ...(props as EmailTemplateProps<T> & object),
+    preferencesUrl: getAbsoluteUrl(EMAIL_PREFERENCES_PATH),
+  }));
+  const allowed = isEmailAllowed(definition.category, preferences);
+
+  const message = await repo.emailOutbox.enqueue({
+    user_id: userId,
+    category: definition.category,
+    template,
+    related_id: relatedId,
+    to_email: to,
+    subject: definition.subject(props),
+    text_body: text,
+    html_body: html,
+    status: allowed ? 'pending' : 'skipped',
+  });
+  if (!allowed) return 'skipped';
+
+  return await deliverMessage(repo, transport, message) ? 'sent' : 'failed';
+}
+
+/**
+ * Send a template to a user's profile address, respecting their email
+ * preferences.
+ */
+export async function sendUserEmail<T extends EmailTemplateName>(
+  repo: Repository,
+  options: Omit<SendEmailOptions<T>, 'to' | 'preferences'> & { userId: string },
+  transport?: EmailTransport
+): Promise<EmailSendResult> {
+  const profile = await repo.profiles.get(options.userId);
+  if (!profile?.email) return 'no_address';
+
+  return sendEmail(repo, { ...options, to: profile.email, preferences: profile.notification_preferences }, transport);
+}
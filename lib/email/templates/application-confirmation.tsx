@@ -0,0 +1,37 @@
+import { EmailButton, EmailLayout, EmailParagraph } from "@/lib/email/templates/layout";
+import type { EmailContext, EmailTemplate } from "@/lib/email/templates/types";
+
+export interface ApplicationConfirmationProps {
+  candidateName: string | null
+  jobTitle: string
+  companyName: string | null
+  dashboardUrl: string
+}
+
+function ApplicationConfirmationEmail({
+  candidateName,
+  jobTitle,
+  companyName,
+  dashboardUrl,
+  preferencesUrl,
+}: ApplicationConfirmationProps & EmailContext) {
+  return (
+    <EmailLayout preview={`We received your application for ${jobTitle}`} preferencesUrl={preferencesUrl}>
+      <EmailParagraph>Hi {candidateName || 'there'},</EmailParagraph>
+      <EmailParagraph>
+        Thanks for applying for <strong>{jobTitle}</strong>{companyName ? ` at ${companyName}` : ''}.
+        Your application has been sent to the hiring team.
+      </EmailParagraph>
+      <EmailParagraph>
+        We will email you when your application moves forward. You can also follow its progress on your dashboard.
+      </EmailParagraph>
+      <EmailButton href={dashboardUrl}>View your applications</EmailButton>
+    </EmailLayout>
+  );
+}
+
+export const applicationConfirmation: EmailTemplate<ApplicationConfirmationProps> = {
+  category: 'application_updates',
+  subject: ({ jobTitle }) => `Application received: ${jobTitle}`,
+  Component: ApplicationConfirmationEmail,
+};
@@ -0,0 +1,40 @@
+import { EmailButton, EmailLayout, EmailParagraph } from "@/lib/email/templates/layout";
+import type { EmailContext, EmailTemplate } from "@/lib/email/templates/types";
+
+export interface ContractToSignProps {
+  recipientName: string | null
+  contractTitle: string
+  senderName: string | null
+  signUrl: string
+  expiresAt: string | null
+}
+
+function ContractToSignEmail({
+  recipientName,
+  contractTitle,
+  senderName,
+  signUrl,
+  expiresAt,
+  preferencesUrl,
+}: ContractToSignProps & EmailContext) {
+  return (
+    <EmailLayout preview={`${contractTitle} is ready for your signature`} preferencesUrl={preferencesUrl}>
+      <EmailParagraph>Hi {recipientName || 'there'},</EmailParagraph>
+      <EmailParagraph>
+        {senderName || 'Someone'} has sent you <strong>{contractTitle}</strong> to review and sign.
+      </EmailParagraph>
+      {expiresAt && (
+        <EmailParagraph>
+          Please sign by {new Date(expiresAt).toLocaleDateString('en-GB', { dateStyle: 'long' })}.
+        </EmailParagraph>
+      )}
+      <EmailButton href={signUrl}>Review and sign</EmailButton>
+    </EmailLayout>
+  );
+}
+
+export const contractToSign: EmailTemplate<ContractToSignProps> = {
+  category: 'account',
+  subject: ({ contractTitle }) => `Please sign: ${contractTitle}`,
+  Component: ContractToSignEmail,
+};
@@ -0,0 +1,35 @@
+import { applicationConfirmation } from "@/lib/email/templates/application-confirmation";
+import { newApplicant } from "@/lib/email/templates/new-applicant";
+import { statusUpdate } from "@/lib/email/templates/status-update";
+import { rejection } from "@/lib/email/templates/rejection";
+import { interviewInvite } from "@/lib/email/templates/interview-invite";
+import { interviewSlots } from "@/lib/email/templates/interview-slots";
+import { interviewBooked } from "@/lib/email/templates/interview-booked";
+import { interviewReminder } from "@/lib/email/templates/interview-reminder";
+import { interviewCancelled } from "@/lib/email/templates/interview-cancelled";
+import { offer } from "@/lib/email/templates/offer";
+import { contractToSign } from "@/lib/email/templates/contract-to-sign";
+import { teamInvite } from "@/lib/email/templates/team-invite";
+import { jobAlertDigest } from "@/lib/email/templates/job-alert-digest";
+import type { EmailTemplate } from "@/lib/email/templates/types";
+
+export const EMAIL_TEMPLATES = {
+  application_confirmation: applicationConfirmation,
+  new_applicant: newApplicant,
+  status_update: statusUpdate,
+  rejection,
+  interview_invite: interviewInvite,
+  interview_slots: interviewSlots,
+  interview_booked: interviewBooked,
+  interview_reminder: interviewReminder,
+  interview_cancelled: interviewCancelled,
+  offer,
+  contract_to_sign: contractToSign,
+  team_invite: teamInvite,
+  job_alert_digest: jobAlertDigest,
+};
+
+export type EmailTemplateName = keyof typeof EMAIL_TEMPLATES;
+
+export type EmailTemplateProps<T extends EmailTemplateName> =
+  (typeof EMAIL_TEMPLATES)[T] extends EmailTemplate<infer Props> ? Props : never;
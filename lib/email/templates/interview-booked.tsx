@@ -0,0 +1,41 @@
+import { EmailButton, EmailLayout, EmailParagraph } from "@/lib/email/templates/layout";
+import { InterviewDetails, type InterviewDetailsProps } from "@/lib/email/templates/interview-details";
+import type { EmailContext, EmailTemplate } from "@/lib/email/templates/types";
+import { formatInTimeZone } from "@/lib/interviews/time";
+
+export interface InterviewBookedProps extends InterviewDetailsProps {
+  recipientName: string | null
+  candidateName: string | null
+  jobTitle: string
+  applicationUrl: string
+}
+
+function InterviewBookedEmail({
+  recipientName,
+  candidateName,
+  jobTitle,
+  applicationUrl,
+  preferencesUrl,
+  ...details
+}: InterviewBookedProps & EmailContext) {
+  return (
+    <EmailLayout
+      preview={`${candidateName || 'The candidate'} booked ${formatInTimeZone(details.startsAt, details.timeZone)}`}
+      preferencesUrl={preferencesUrl}
+    >
+      <EmailParagraph>Hi {recipientName || 'there'},</EmailParagraph>
+      <EmailParagraph>
+        {candidateName || 'The candidate'} has booked their interview for <strong>{jobTitle}</strong>. You are on the panel.
+      </EmailParagraph>
+      <InterviewDetails {...details} />
+      <EmailButton href={applicationUrl}>View the application</EmailButton>
+    </EmailLayout>
+  );
+}
+
+export const interviewBooked: EmailTemplate<InterviewBookedProps> = {
+  category: 'interview_reminders',
+  subject: ({ candidateName, jobTitle, startsAt, timeZone }) =>
+    `Interview booked: ${candidateName || 'candidate'} for ${jobTitle}, ${formatInTimeZone(startsAt, timeZone)}`,
+  Component: InterviewBookedEmail,
+};
@@ -0,0 +1,44 @@
+import { EmailButton, EmailLayout, EmailParagraph } from "@/lib/email/templates/layout";
+import type { EmailContext, EmailTemplate } from "@/lib/email/templates/types";
+import { formatInTimeZone } from "@/lib/interviews/time";
+
+export interface InterviewCancelledProps {
+  recipientName: string | null
+  // e.g. "your interview for Engineer" or "the interview with Amina for Engineer"
+  description: string
+  startsAt: string | null
+  timeZone: string
+  cancelledBy: string | null
+  reason: string | null
+  detailsUrl: string
+}
+
+function InterviewCancelledEmail({
+  recipientName,
+  description,
+  startsAt,
+  timeZone,
+  cancelledBy,
+  reason,
+  detailsUrl,
+  preferencesUrl,
+}: InterviewCancelledProps & EmailContext) {
+  return (
+    <EmailLayout preview={`Cancelled: ${description}`} preferencesUrl={preferencesUrl}>
+      <EmailParagraph>Hi {recipientName || 'there'},</EmailParagraph>
+      <EmailParagraph>
+        {cancelledBy ? `${cancelledBy} cancelled ` : 'We cancelled '}{description}
+        {startsAt ? ` on ${formatInTimeZone(startsAt, timeZone)}` : ''}.
+      </EmailParagraph>
+      {reason && <EmailParagraph>Reason: {reason}</EmailParagraph>}
+      <EmailParagraph>If you added it to your calendar, you can remove it now.</EmailParagraph>
+      <EmailButton href={detailsUrl}>View details</EmailButton>
+    </EmailLayout>
+  );
+}
+
+export const interviewCancelled: EmailTemplate<InterviewCancelledProps> = {
+  category: 'interview_reminders',
+  subject: ({ description }) => `Cancelled: ${description}`,
+  Component: InterviewCancelledEmail,
+};
@@ -0,0 +1,34 @@
+import type { ReactNode } from "react";
+import { EmailDetails } from "@/lib/email/templates/layout";
+import { formatInTimeZone } from "@/lib/interviews/time";
+
+export interface InterviewDetailsProps {
+  startsAt: string
+  durationMinutes: number
+  // IANA zone the time is shown in, normally the recipient's
+  timeZone: string
+  location: string | null
+  meetingUrl: string | null
+  // .ics download for the interview
+  calendarUrl?: string | null
+}
+
+// When and where an interview is, shared by the interview emails
+export function InterviewDetails({
+  startsAt,
+  durationMinutes,
+  timeZone,
+  location,
+  meetingUrl,
+  calendarUrl,
+}: InterviewDetailsProps) {
+  const rows: [string, ReactNode][] = [
+    ['When', formatInTimeZone(startsAt, timeZone)],
+    ['Length', `${durationMinutes} minutes`],
+  ];
+  if (location) rows.push(['Where', location]);
+  if (meetingUrl) rows.push(['Join', <a key="join" href={meetingUrl}>{meetingUrl}</a>]);
+  if (calendarUrl) rows.push(['Calendar', <a key="calendar" href={calendarUrl}>Add to calendar</a>]);
+
+  return <EmailDetails rows={rows} />;
+}
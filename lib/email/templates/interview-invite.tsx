@@ -0,0 +1,41 @@
+import { EmailButton, EmailLayout, EmailParagraph } from "@/lib/email/templates/layout";
+import { InterviewDetails, type InterviewDetailsProps } from "@/lib/email/templates/interview-details";
+import type { EmailContext, EmailTemplate } from "@/lib/email/templates/types";
+import { formatInTimeZone } from "@/lib/interviews/time";
+
+export interface InterviewInviteProps extends InterviewDetailsProps {
+  candidateName: string | null
+  jobTitle: string
+  companyName: string | null
+  detailsUrl: string
+}
+
+function InterviewInviteEmail({
+  candidateName,
+  jobTitle,
+  companyName,
+  detailsUrl,
+  preferencesUrl,
+  ...details
+}: InterviewInviteProps & EmailContext) {
+  return (
+    <EmailLayout
+      preview={`Interview for ${jobTitle} on ${formatInTimeZone(details.startsAt, details.timeZone)}`}
+      preferencesUrl={preferencesUrl}
+    >
+      <EmailParagraph>Hi {candidateName || 'there'},</EmailParagraph>
+      <EmailParagraph>
+        Your interview for <strong>{jobTitle}</strong>{companyName ? ` at ${companyName}` : ''} is confirmed.
+      </EmailParagraph>
+      <InterviewDetails {...details} />
+      <EmailParagraph>If the time no longer works, you can pick another or cancel from the interview page.</EmailParagraph>
+      <EmailButton href={detailsUrl}>View interview details</EmailButton>
+    </EmailLayout>
+  );
+}
+
+export const interviewInvite: EmailTemplate<InterviewInviteProps> = {
+  category: 'interview_reminders',
+  subject: ({ jobTitle, startsAt, timeZone }) => `Interview for ${jobTitle}: ${formatInTimeZone(startsAt, timeZone)}`,
+  Component: InterviewInviteEmail,
+};
@@ -0,0 +1,33 @@
+import { EmailButton, EmailLayout, EmailParagraph } from "@/lib/email/templates/layout";
+import { InterviewDetails, type InterviewDetailsProps } from "@/lib/email/templates/interview-details";
+import type { EmailContext, EmailTemplate } from "@/lib/email/templates/types";
+
+export interface InterviewReminderProps extends InterviewDetailsProps {
+  recipientName: string | null
+  // e.g. "your interview for Engineer" or "the interview with Amina for Engineer"
+  description: string
+  detailsUrl: string
+}
+
+function InterviewReminderEmail({
+  recipientName,
+  description,
+  detailsUrl,
+  preferencesUrl,
+  ...details
+}: InterviewReminderProps & EmailContext) {
+  return (
+    <EmailLayout preview={`Reminder: ${description}`} preferencesUrl={preferencesUrl}>
+      <EmailParagraph>Hi {recipientName || 'there'},</EmailParagraph>
+      <EmailParagraph>A reminder that {description} is coming up.</EmailParagraph>
+      <InterviewDetails {...details} />
+      <EmailButton href={detailsUrl}>View interview details</EmailButton>
+    </EmailLayout>
+  );
+}
+
+export const interviewReminder: EmailTemplate<InterviewReminderProps> = {
+  category: 'interview_reminders',
+  subject: ({ description }) => `Reminder: ${description}`,
+  Component: InterviewReminderEmail,
+};
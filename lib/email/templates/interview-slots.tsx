@@ -0,0 +1,48 @@
+import { EmailButton, EmailLayout, EmailParagraph } from "@/lib/email/templates/layout";
+import type { EmailContext, EmailTemplate } from "@/lib/email/templates/types";
+
+export interface InterviewSlotsProps {
+  candidateName: string | null
+  jobTitle: string
+  companyName: string | null
+  durationMinutes: number
+  slotCount: number
+  bookingUrl: string
+  // Sent again with new times after the interview was moved
+  rescheduled: boolean
+}
+
+function InterviewSlotsEmail({
+  candidateName,
+  jobTitle,
+  companyName,
+  durationMinutes,
+  slotCount,
+  bookingUrl,
+  rescheduled,
+  preferencesUrl,
+}: InterviewSlotsProps & EmailContext) {
+  return (
+    <EmailLayout preview={`Pick a time to interview for ${jobTitle}`} preferencesUrl={preferencesUrl}>
+      <EmailParagraph>Hi {candidateName || 'there'},</EmailParagraph>
+      <EmailParagraph>
+        {rescheduled
+          ? <>Your interview for <strong>{jobTitle}</strong> needs a new time.</>
+          : <>Good news: {companyName || 'the hiring team'} would like to interview you for <strong>{jobTitle}</strong>.</>}
+      </EmailParagraph>
+      <EmailParagraph>
+        Choose the {durationMinutes}-minute slot that suits you from the {slotCount === 1 ? 'time' : `${slotCount} times`} on
+        offer. Times are shown in your own time zone.
+      </EmailParagraph>
+      <EmailButton href={bookingUrl}>Pick a time</EmailButton>
+    </EmailLayout>
+  );
+}
+
+export const interviewSlots: EmailTemplate<InterviewSlotsProps> = {
+  category: 'interview_reminders',
+  subject: ({ jobTitle, rescheduled }) => rescheduled
+    ? `Pick a new interview time for ${jobTitle}`
+    : `Pick a time to interview for ${jobTitle}`,
+  Component: InterviewSlotsEmail,
+};
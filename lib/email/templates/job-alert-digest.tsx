@@ -0,0 +1,86 @@
+import { EmailLayout, EmailParagraph } from "@/lib/email/templates/layout";
+import type { EmailContext, EmailTemplate } from "@/lib/email/templates/types";
+
+export interface JobAlertDigestJob {
+  title: string
+  url: string
+  // Company, location and salary, where known
+  details: string
+}
+
+export interface JobAlertDigestSearch {
+  name: string
+  jobs: JobAlertDigestJob[]
+  // New matches in all, which may be more than are listed
+  total: number
+  // The job board with the search's filters, when not every match is listed
+  boardUrl: string | null
+  unsubscribeUrl: string
+}
+
+export interface JobAlertDigestProps {
+  recipientName: string | null
+  searches: JobAlertDigestSearch[]
+  manageUrl: string
+  unsubscribeAllUrl: string
+}
+
+const countNewJobs = (searches: JobAlertDigestSearch[]) =>
+  searches.reduce((sum, search) => sum + search.total, 0);
+
+function JobAlertDigestEmail({
+  recipientName,
+  searches,
+  manageUrl,
+  unsubscribeAllUrl,
+  preferencesUrl,
+}: JobAlertDigestProps & EmailContext) {
+  return (
+    <EmailLayout preview={`${countNewJobs(searches)} new jobs match your saved searches`} preferencesUrl={preferencesUrl}>
+      <EmailParagraph>Hi {recipientName || 'there'},</EmailParagraph>
+      <EmailParagraph>New jobs have been posted that match your saved searches.</EmailParagraph>
+      {searches.map((search) => (
+        <div key={search.unsubscribeUrl}>
+          <h2 style={{ fontSize: 16, margin: '24px 0 8px' }}>{search.name} ({search.total} new)</h2>
+          <ul style={{ margin: '0 0 16px', paddingLeft: 20 }}>
+            {search.jobs.map((job) => (
+              <li key={job.url} style={{ marginBottom: 8 }}>
+                <a href={job.url}>{job.title}</a>
+                {job.details && (
+                  <>
+                    <br />
+                    <span style={{ color: '#71717a' }}>{job.details}</span>
+                  </>
+                )}
+              </li>
+            ))}
+          </ul>
+          {search.boardUrl && (
+            <EmailParagraph>
+              <a href={search.boardUrl}>See all {search.total} jobs</a>
+            </EmailParagraph>
+          )}
+          <p style={{ margin: '0 0 16px', fontSize: 12 }}>
+            <a href={search.unsubscribeUrl}>Stop this alert</a>
+          </p>
+        </div>
+      ))}
+      <p style={{ margin: '24px 0 0', fontSize: 12, color: '#71717a' }}>
+        <a href={manageUrl}>Manage your job alerts</a>
+        <br />
+        <a href={unsubscribeAllUrl}>Stop all job alerts</a>
+      </p>
+    </EmailLayout>
+  );
+}
+
+export const jobAlertDigest: EmailTemplate<JobAlertDigestProps> = {
+  category: 'job_alerts',
+  subject: ({ searches }) => {
+    const total = countNewJobs(searches);
+    return searches.length === 1
+      ? `${total} new ${total === 1 ? 'job' : 'jobs'} for "${searches[0].name}"`
+      : `${total} new jobs for your saved searches`;
+  },
+  Component: JobAlertDigestEmail,
+};
@@ -0,0 +1,101 @@
+import type { ReactNode } from "react";
+
+const BRAND_COLOR = '#0f172a';
+
+export interface EmailLayoutProps {
+  // Shown after the subject in most inbox lists
+  preview: string;
+  preferencesUrl: string;
+  children: ReactNode;
+}
+
+/**
+ * Shared frame for transactional emails: a narrow centred column that
+ * renders the same in most mail clients, with a footer linking to the
+ * recipient's email preferences.
+ */
+export function EmailLayout({ preview, preferencesUrl, children }: EmailLayoutProps) {
+  return (
+    <html lang="en">
+      {/* eslint-disable-next-line @next/next/no-head-element -- an email document, not a Next.js page */}
+      <head>
+        <meta httpEquiv="Content-Type" content="text/html; charset=UTF-8" />
+        <meta name="viewport" content="width=device-width, initial-scale=1" />
+      </head>
+      <body style={{ margin: 0, padding: 0, backgroundColor: '#f4f4f5', fontFamily: 'Helvetica, Arial, sans-serif' }}>
+        <div style={{ display: 'none', maxHeight: 0, overflow: 'hidden' }}>{preview}</div>
+        <table width="100%" cellPadding={0} cellSpacing={0} role="presentation">
+          <tbody>
+            <tr>
+              <td align="center" style={{ padding: '24px 12px' }}>
+                <table width="100%" cellPadding={0} cellSpacing={0} role="presentation" style={{ maxWidth: 560, backgroundColor: '#ffffff', borderRadius: 8 }}>
+                  <tbody>
+                    <tr>
+                      <td style={{ padding: '20px 32px', borderBottom: '1px solid #e4e4e7' }}>
+                        <strong style={{ color: BRAND_COLOR, fontSize: 18 }}>Uwezo Careers</strong>
+                      </td>
+                    </tr>
+                    <tr>
+                      <td style={{ padding: '24px 32px', color: '#27272a', fontSize: 15, lineHeight: '24px' }}>
+                        {children}
+                      </td>
+                    </tr>
+                    <tr>
+                      <td style={{ padding: '16px 32px', borderTop: '1px solid #e4e4e7', color: '#71717a', fontSize: 12 }}>
+                        <p style={{ margin: 0 }}>
+                          You are receiving this email because of your account on Uwezo Careers.{' '}
+                          <a href={preferencesUrl} style={{ color: '#71717a' }}>Manage email preferences</a>
+                        </p>
+                      </td>
+                    </tr>
+                  </tbody>
+                </table>
+              </td>
+            </tr>
+          </tbody>
+        </table>
+      </body>
+    </html>
+  );
+}
+
+export function EmailParagraph({ children }: { children: ReactNode }) {
+  return <p style={{ margin: '0 0 16px' }}>{children}</p>;
+}
+
+export function EmailButton({ href, children }: { href: string; children: ReactNode }) {
+  return (
+    <p style={{ margin: '24px 0' }}>
+      <a
+        href={href}
+        style={{
+          display: 'inline-block',
+          padding: '10px 20px',
+          backgroundColor: BRAND_COLOR,
+          color: '#ffffff',
+          borderRadius: 6,
+          textDecoration: 'none',
+          fontWeight: 600,
+        }}
+      >
+        {children}
+      </a>
+    </p>
+  );
+}
+
+// A short label/value list, such as an interview's time and place
+export function EmailDetails({ rows }: { rows: [string, ReactNode][] }) {
+  return (
+    <table cellPadding={0} cellSpacing={0} role="presentation" style={{ margin: '0 0 16px' }}>
+      <tbody>
+        {rows.map(([label, value]) => (
+          <tr key={label}>
+            <td style={{ padding: '2px 16px 2px 0', color: '#71717a', verticalAlign: 'top' }}>{label}: </td>
+            <td style={{ padding: '2px 0' }}>{value}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
@@ -0,0 +1,33 @@
+import { EmailButton, EmailLayout, EmailParagraph } from "@/lib/email/templates/layout";
+import type { EmailContext, EmailTemplate } from "@/lib/email/templates/types";
+
+export interface NewApplicantProps {
+  recipientName: string | null
+  candidateName: string | null
+  jobTitle: string
+  applicationUrl: string
+}
+
+function NewApplicantEmail({
+  recipientName,
+  candidateName,
+  jobTitle,
+  applicationUrl,
+  preferencesUrl,
+}: NewApplicantProps & EmailContext) {
+  return (
+    <EmailLayout preview={`${candidateName || 'A candidate'} applied for ${jobTitle}`} preferencesUrl={preferencesUrl}>
+      <EmailParagraph>Hi {recipientName || 'there'},</EmailParagraph>
+      <EmailParagraph>
+        {candidateName || 'A candidate'} has applied for <strong>{jobTitle}</strong>.
+      </EmailParagraph>
+      <EmailButton href={applicationUrl}>Review the application</EmailButton>
+    </EmailLayout>
+  );
+}
+
+export const newApplicant: EmailTemplate<NewApplicantProps> = {
+  category: 'application_updates',
+  subject: ({ candidateName, jobTitle }) => `New applicant for ${jobTitle}: ${candidateName || 'a candidate'}`,
+  Component: NewApplicantEmail,
+};
@@ -0,0 +1,34 @@
+import { EmailButton, EmailLayout, EmailParagraph } from "@/lib/email/templates/layout";
+import type { EmailContext, EmailTemplate } from "@/lib/email/templates/types";
+
+export interface OfferProps {
+  candidateName: string | null
+  jobTitle: string
+  companyName: string | null
+  dashboardUrl: string
+}
+
+function OfferEmail({
+  candidateName,
+  jobTitle,
+  companyName,
+  dashboardUrl,
+  preferencesUrl,
+}: OfferProps & EmailContext) {
+  return (
+    <EmailLayout preview={`You have an offer for ${jobTitle}`} preferencesUrl={preferencesUrl}>
+      <EmailParagraph>Hi {candidateName || 'there'},</EmailParagraph>
+      <EmailParagraph>
+        Congratulations! {companyName || 'The hiring team'} has extended you an offer for <strong>{jobTitle}</strong>.
+      </EmailParagraph>
+      <EmailParagraph>Review the offer and next steps on your dashboard.</EmailParagraph>
+      <EmailButton href={dashboardUrl}>View your offer</EmailButton>
+    </EmailLayout>
+  );
+}
+
+export const offer: EmailTemplate<OfferProps> = {
+  category: 'application_updates',
+  subject: ({ jobTitle, companyName }) => `Offer for ${jobTitle}${companyName ? ` at ${companyName}` : ''}`,
+  Component: OfferEmail,
+};
@@ -0,0 +1,43 @@
+import { EmailButton, EmailLayout, EmailParagraph } from "@/lib/email/templates/layout";
+import type { EmailContext, EmailTemplate } from "@/lib/email/templates/types";
+
+export interface RejectionProps {
+  candidateName: string | null
+  jobTitle: string
+  companyName: string | null
+  // Only set when the hiring team chose to share it
+  reason: string | null
+  jobBoardUrl: string
+}
+
+function RejectionEmail({
+  candidateName,
+  jobTitle,
+  companyName,
+  reason,
+  jobBoardUrl,
+  preferencesUrl,
+}: RejectionProps & EmailContext) {
+  return (
+    <EmailLayout preview={`An update on your application for ${jobTitle}`} preferencesUrl={preferencesUrl}>
+      <EmailParagraph>Hi {candidateName || 'there'},</EmailParagraph>
+      <EmailParagraph>
+        Thank you for your interest in <strong>{jobTitle}</strong>{companyName ? ` at ${companyName}` : ''}.
+        After careful consideration, the hiring team has decided not to move forward with your application.
+      </EmailParagraph>
+      {reason && (
+        <EmailParagraph>
+          Feedback from the hiring team: {reason}
+        </EmailParagraph>
+      )}
+      <EmailParagraph>We wish you the best with your search, and hope to see you apply again.</EmailParagraph>
+      <EmailButton href={jobBoardUrl}>Browse open roles</EmailButton>
+    </EmailLayout>
+  );
+}
+
+export const rejection: EmailTemplate<RejectionProps> = {
+  category: 'application_updates',
+  subject: ({ jobTitle }) => `An update on your application for ${jobTitle}`,
+  Component: RejectionEmail,
+};
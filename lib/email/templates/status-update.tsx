@@ -0,0 +1,37 @@
+import { EmailButton, EmailLayout, EmailParagraph } from "@/lib/email/templates/layout";
+import type { EmailContext, EmailTemplate } from "@/lib/email/templates/types";
+
+export interface StatusUpdateProps {
+  candidateName: string | null
+  jobTitle: string
+  companyName: string | null
+  stageLabel: string
+  dashboardUrl: string
+}
+
+function StatusUpdateEmail({
+  candidateName,
+  jobTitle,
+  companyName,
+  stageLabel,
+  dashboardUrl,
+  preferencesUrl,
+}: StatusUpdateProps & EmailContext) {
+  return (
+    <EmailLayout preview={`Your application for ${jobTitle} moved to ${stageLabel}`} preferencesUrl={preferencesUrl}>
+      <EmailParagraph>Hi {candidateName || 'there'},</EmailParagraph>
+      <EmailParagraph>
+        Your application for <strong>{jobTitle}</strong>{companyName ? ` at ${companyName}` : ''} has moved
+        to <strong>{stageLabel}</strong>.
+      </EmailParagraph>
+      <EmailParagraph>The hiring team will be in touch about next steps.</EmailParagraph>
+      <EmailButton href={dashboardUrl}>View your application</EmailButton>
+    </EmailLayout>
+  );
+}
+
+export const statusUpdate: EmailTemplate<StatusUpdateProps> = {
+  category: 'application_updates',
+  subject: ({ jobTitle, stageLabel }) => `Your application for ${jobTitle}: ${stageLabel}`,
+  Component: StatusUpdateEmail,
+};
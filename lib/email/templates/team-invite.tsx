@@ -0,0 +1,35 @@
+import { EmailButton, EmailLayout, EmailParagraph } from "@/lib/email/templates/layout";
+import type { EmailContext, EmailTemplate } from "@/lib/email/templates/types";
+
+export interface TeamInviteProps {
+  recipientName: string | null
+  companyName: string
+  inviterName: string | null
+  roleLabel: string
+  acceptUrl: string
+}
+
+function TeamInviteEmail({
+  recipientName,
+  companyName,
+  inviterName,
+  roleLabel,
+  acceptUrl,
+  preferencesUrl,
+}: TeamInviteProps & EmailContext) {
+  return (
+    <EmailLayout preview={`Join ${companyName} on Uwezo Careers`} preferencesUrl={preferencesUrl}>
+      <EmailParagraph>Hi {recipientName || 'there'},</EmailParagraph>
+      <EmailParagraph>
+        {inviterName || 'A colleague'} has invited you to join <strong>{companyName}</strong> as {roleLabel}.
+      </EmailParagraph>
+      <EmailButton href={acceptUrl}>Accept the invitation</EmailButton>
+    </EmailLayout>
+  );
+}
+
+export const teamInvite: EmailTemplate<TeamInviteProps> = {
+  category: 'account',
+  subject: ({ companyName }) => `You have been invited to join ${companyName}`,
+  Component: TeamInviteEmail,
+};
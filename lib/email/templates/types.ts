@@ -0,0 +1,13 @@
+import type { ReactElement } from "react";
+import type { EmailCategory } from "@/lib/email/preferences";
+
+// Links every template's footer needs, filled in by the sender
+export interface EmailContext {
+  preferencesUrl: string
+}
+
+export interface EmailTemplate<Props> {
+  category: EmailCategory
+  subject: (props: Props) => string
+  Component: (props: Props & EmailContext) => ReactElement
+}
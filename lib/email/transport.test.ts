@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+import { formatMimeMessage } from "@/lib/email/transport";
+
+const FROM = 'Uwezo Careers <no-reply@uwezoo.vercel.app>';
+
+const message = (overrides = {}) => ({
+  to: 'Jane Doe <jane@example.com>',
+  subject: 'Your application',
+  text: 'Thanks for applying.',
+  ...overrides,
+});
+
+const headersOf = (mime: string) => mime.split('\r\n\r\n')[0].split('\r\n');
+
+describe('formatMimeMessage', () => {
+  it('writes the addresses, subject and extra headers', () => {
+    const headers = headersOf(formatMimeMessage(message({
+      subject: 'Café interview',
+      headers: { 'List-Unsubscribe': '<https://uwezoo.vercel.app/unsubscribe>' },
+    }), FROM));
+
+    expect(headers).toContain(`From: ${FROM}`);
+    expect(headers).toContain('To: Jane Doe <jane@example.com>');
+    expect(headers).toContain(`Subject: =?UTF-8?B?${Buffer.from('Café interview').toString('base64')}?=`);
+    expect(headers).toContain('List-Unsubscribe: <https://uwezoo.vercel.app/unsubscribe>');
+  });
+
+  it('encodes line breaks in the subject and header values', () => {
+    const headers = headersOf(formatMimeMessage(message({
+      subject: 'Hello\r\nBcc: victim@example.com',
+      headers: { 'X-Note': 'a\nBcc: victim@example.com' },
+    }), FROM));
+
+    expect(headers.some((line) => line.startsWith('Bcc:'))).toBe(false);
+  });
+
+  it.each([
+    'jane@example.com\r\nBcc: victim@example.com',
+    'jane@example.com\nBcc: victim@example.com',
+    'Jane <jane@example.com>\r\n\r\nInjected body',
+  ])('refuses a recipient with a line break: %j', (to) => {
+    expect(() => formatMimeMessage(message({ to }), FROM)).toThrow('line break');
+  });
+
+  it('refuses a sender with a line break', () => {
+    expect(() => formatMimeMessage(message(), `${FROM}\r\nBcc: victim@example.com`)).toThrow('line break');
+  });
+
+  it.each(['X-Note\r\nBcc', 'Bad Name', 'Bad:Name', ''])('refuses the header name %j', (name) => {
+    expect(() => formatMimeMessage(message({ headers: { [name]: 'value' } }), FROM)).toThrow('header name');
+  });
+});
@@ -0,0 +1,196 @@
+import { randomUUID } from "node:crypto";
+import { mkdir, writeFile } from "node:fs/promises";
+import net from "node:net";
+import path from "node:path";
+
+export interface EmailMessage {
+  to: string
+  subject: string
+  text: string
+  html?: string | null
+  headers?: Record<string, string>
+}
+
+/**
+ * Delivers a finished message. Callers never talk to a mail server
+ * directly, so a development stand-in can replace the real transport.
+ */
+export interface EmailTransport {
+  name: string
+  send(message: EmailMessage): Promise<void>
+}
+
+const DEFAULT_FROM = 'Uwezo Careers <no-reply@uwezoo.vercel.app>';
+const SMTP_TIMEOUT_MS = 10000;
+
+export const getEmailFrom = () => process.env.EMAIL_FROM || DEFAULT_FROM;
+
+// RFC 2047 encoding for header values that are not plain ASCII
+const encodeHeader = (value: string) =>
+  /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`;
+
+const base64Lines = (text: string) =>
+  Buffer.from(text, 'utf8').toString('base64').match(/.{1,76}/g)?.join('\r\n') ?? '';
+
+const addressOf = (mailbox: string) => mailbox.match(/<([^>]+)>/)?.[1] ?? mailbox.trim();
+
+// Mailboxes and header names are written into the message and the SMTP
+// commands as they are, so a line break in one would start a header or
+// command of its own. Values are safe: encodeHeader encodes control characters.
+function assertMailbox(mailbox: string) {
+  if (/[\r\n]/.test(mailbox)) {
+    throw new Error('Email address contains a line break');
+  }
+  return mailbox;
+}
+
+function assertHeaderName(name: string) {
+  if (!/^[\x21-\x39\x3b-\x7e]+$/.test(name)) {
+    throw new Error(`Invalid email header name: ${JSON.stringify(name)}`);
+  }
+  return name;
+}
+
+/**
+ * The message as an RFC 5322 document, with a plain text part and an HTML
+ * alternative when there is one.
+ */
+export function formatMimeMessage(message: EmailMessage, from: string = getEmailFrom()): string {
+  const headers = [
+    `From: ${assertMailbox(from)}`,
+    `To: ${assertMailbox(message.to)}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: <${randomUUID()}@${addressOf(from).split('@')[1] ?? 'localhost'}>`,
+    'MIME-Version: 1.0',
+    ...Object.entries(message.headers ?? {}).map(([name, value]) => `${assertHeaderName(name)}: ${encodeHeader(value)}`),
+  ];
+
+  const part = (contentType: string, body: string) => [
+    `Content-Type: ${contentType}; charset=UTF-8`,
+    'Content-Transfer-Encoding: base64',
+    '',
+    base64Lines(body),
+  ].join('\r\n');
+
+  if (!message.html) {
+    return [...headers, part('text/plain', message.text)].join('\r\n') + '\r\n';
+  }
+
+  const boundary = `uwezo-${randomUUID()}`;
+  return [
+    ...headers,
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    '',
+    `--${boundary}`,
+    part('text/plain', message.text),
+    `--${boundary}`,
+    part('text/html', message.html),
+    `--${boundary}--`,
+    '',
+  ].join('\r\n');
+}
+
+/**
+ * Writes each message to an .eml file instead of sending it, for local
+ * development. Open the files with any mail client to check the result.
+ */
+export function createFileTransport(directory: string): EmailTransport {
+  return {
+    name: 'file',
+    async send(message) {
+      await mkdir(directory, { recursive: true });
+      const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+      const filename = `${stamp}-${addressOf(message.to).replace(/[^a-z0-9@._-]/gi, '_')}.eml`;
+      await writeFile(path.join(directory, filename), formatMimeMessage(message), 'utf8');
+    },
+  };
+}
+
+/**
+ * Plain SMTP without TLS or authentication, meant for a local mail catcher
+ * such as Mailpit or MailHog rather than a production relay.
+ */
+export function createSmtpTransport({ host, port }: { host: string; port: number }): EmailTransport {
+  return {
+    name: 'smtp',
+    async send(message) {
+      const from = assertMailbox(getEmailFrom());
+      assertMailbox(message.to);
+      const socket = net.connect(port, host);
+      socket.setEncoding('utf8');
+      socket.setTimeout(SMTP_TIMEOUT_MS);
+
+      let buffer = '';
+      const waiting: { resolve: (reply: string) => void; reject: (error: Error) => void }[] = [];
+      const replies: string[] = [];
+      let failure: Error | null = null;
+
+      const fail = (error: Error) => {
+        failure = error;
+        waiting.splice(0).forEach((waiter) => waiter.reject(error));
+        socket.destroy();
+      };
+
+      socket.on('data', (chunk: string) => {
+        buffer += chunk;
+        // A reply ends on a line with a space after the code; "250-" lines continue it
+        let match: RegExpMatchArray | null;
+        while ((match = buffer.match(/^(?:\d{3}-[^\r\n]*\r?\n)*\d{3}(?: [^\r\n]*)?\r?\n/))) {
+          buffer = buffer.slice(match[0].length);
+          const reply = match[0].trim();
+          const waiter = waiting.shift();
+          if (waiter) waiter.resolve(reply);
+          else replies.push(reply);
+        }
+      });
+      socket.on('timeout', () => fail(new Error(`SMTP server ${host}:${port} timed out`)));
+      socket.on('error', fail);
+
+      const readReply = (expected: number) => new Promise<string>((resolve, reject) => {
+        if (failure) return reject(failure);
+        const check = (reply: string) => {
+          if (reply.startsWith(String(expected))) resolve(reply);
+          else reject(new Error(`SMTP server replied: ${reply}`));
+        };
+        const queued = replies.shift();
+        if (queued) check(queued);
+        else waiting.push({ resolve: check, reject });
+      });
+
+      const command = (line: string, expected: number) => {
+        socket.write(`${line}\r\n`);
+        return readReply(expected);
+      };
+
+      try {
+        await readReply(220);
+        await command('EHLO localhost', 250);
+        await command(`MAIL FROM:<${addressOf(from)}>`, 250);
+        await command(`RCPT TO:<${addressOf(message.to)}>`, 250);
+        await command('DATA', 354);
+        // Lines starting with a dot are escaped so they cannot end the data early
+        const body = formatMimeMessage(message, from).replace(/\r\n\./g, '\r\n..');
+        await command(`${body}\r\n.`, 250);
+        await command('QUIT', 221).catch(() => undefined);
+      } finally {
+        socket.end();
+      }
+    },
+  };
+}
+
+/**
+ * The transport chosen by EMAIL_TRANSPORT: "smtp" for SMTP_HOST/SMTP_PORT
+ * (a local mail catcher by default), otherwise .eml files in EMAIL_OUTPUT_DIR.
+ */
+export function getEmailTransport(): EmailTransport {
+  if (process.env.EMAIL_TRANSPORT === 'smtp') {
+    return createSmtpTransport({
+      host: process.env.SMTP_HOST || 'localhost',
+      port: Number(process.env.SMTP_PORT) || 1025,
+    });
+  }
+
+  return createFileTransport(path.resolve(process.env.EMAIL_OUTPUT_DIR || '.emails'));
+}
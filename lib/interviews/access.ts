@@ -0,0 +1,39 @@
+import { hasCompanyPermission } from "@/lib/companies/permissions";
+import type { InterviewWithDetails } from "@/lib/interviews/scheduling";
+import type { Repository } from "@/lib/supabase/repository";
+import type { JobApplicationEnhanced } from "@/lib/types/enhanced-database";
+
+// How the signed-in user takes part in an interview. Only the hiring team
+// schedules; the candidate picks, moves and cancels their own booking.
+export type InterviewRole = 'hiring_team' | 'panelist' | 'candidate';
+
+export async function canScheduleInterviews(repo: Repository, companyId: string, userId: string) {
+  const membership = await repo.companyMembers.getMembership(companyId, userId);
+  return hasCompanyPermission(membership, 'can_manage_applications');
+}
+
+export async function getInterviewRole(
+  repo: Repository,
+  interview: InterviewWithDetails,
+  application: Pick<JobApplicationEnhanced, 'applicant_id'>,
+  userId: string
+): Promise<InterviewRole | null> {
+  if (application.applicant_id === userId) return 'candidate';
+  if (await canScheduleInterviews(repo, interview.company_id, userId)) return 'hiring_team';
+  if (interview.panelists.some((panelist) => panelist.user_id === userId)) return 'panelist';
+  return null;
+}
+
+// The hiring team and anyone on one of the application's interview panels
+// can give feedback on the candidate
+export async function canSubmitScorecard(
+  repo: Repository,
+  companyId: string,
+  interviews: InterviewWithDetails[],
+  userId: string
+) {
+  if (interviews.some((interview) => interview.panelists.some((panelist) => panelist.user_id === userId))) {
+    return true;
+  }
+  return canScheduleInterviews(repo, companyId, userId);
+}
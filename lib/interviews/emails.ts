@@ -0,0 +1,259 @@
+import { sendEmail, sendUserEmail } from "@/lib/email/send";
+import { buildInterviewIcs, type InterviewCalendarEvent } from "@/lib/interviews/ics";
+import {
+  INTERVIEW_REMINDER_LEAD_MS,
+  getBookableSlots,
+  type InterviewWithDetails,
+} from "@/lib/interviews/scheduling";
+import type { Repository } from "@/lib/supabase/repository";
+import type { Interview } from "@/lib/types/enhanced-database";
+import { getAbsoluteUrl, getProfileName } from "@/lib/utils";
+
+export const getBookingUrl = (interview: Pick<Interview, 'booking_token'>) =>
+  getAbsoluteUrl(`/interviews/${interview.booking_token}`);
+
+// The candidate's download is authorised by the booking token, the panel's by sign-in
+export const getCandidateCalendarUrl = (interview: Pick<Interview, 'booking_token'>) =>
+  getAbsoluteUrl(`/api/interviews/booking/${interview.booking_token}/ics`);
+
+export const getPanelCalendarUrl = (interview: Pick<Interview, 'id'>) =>
+  getAbsoluteUrl(`/api/interviews/${interview.id}/ics`);
+
+const getApplicationUrl = (interview: Pick<Interview, 'application_id'>) =>
+  getAbsoluteUrl(`/protected/employer/applications/${interview.application_id}`);
+
+/**
+ * Everything the interview emails and calendar files mention: the job,
+ * the candidate and the panel. Needs a repository that can read all of
+ * them, i.e. the admin repository.
+ */
+export async function loadInterviewContext(repo: Repository, interview: InterviewWithDetails) {
+  const application = await repo.applications.get(interview.application_id);
+  if (!application) throw new Error(`Application ${interview.application_id} not found`);
+
+  const [job, profiles] = await Promise.all([
+    repo.jobOpenings.get(application.job_opening_id),
+    repo.profiles.listByUserIds([application.applicant_id, ...interview.panelists.map((panelist) => panelist.user_id)]),
+  ]);
+  const candidate = profiles.find((profile) => profile.user_id === application.applicant_id) ?? null;
+  const panel = profiles.filter((profile) => profile.user_id !== application.applicant_id);
+
+  return {
+    application,
+    candidate,
+    candidateName: getProfileName(candidate),
+    panel,
+    jobTitle: job?.title ?? interview.title,
+    companyName: job?.company?.name ?? null,
+  };
+}
+
+export type InterviewContext = Awaited<ReturnType<typeof loadInterviewContext>>;
+
+/**
+ * The calendar event as the candidate or the panel should see it.
+ */
+export function buildInterviewCalendar(
+  interview: InterviewWithDetails,
+  context: InterviewContext,
+  audience: 'candidate' | 'panel'
+): string {
+  const event: InterviewCalendarEvent = audience === 'candidate'
+    ? {
+        summary: `${interview.title}${context.companyName ? ` with ${context.companyName}` : ''}`,
+        description: `Interview for ${context.jobTitle}. Details: ${getBookingUrl(interview)}`,
+        url: getBookingUrl(interview),
+      }
+    : {
+        summary: `${interview.title}: ${context.candidateName || 'candidate'}`,
+        description: `Interview with ${context.candidateName || 'the candidate'} for ${context.jobTitle}. Application: ${getApplicationUrl(interview)}`,
+        url: getApplicationUrl(interview),
+      };
+
+  event.attendees = [context.candidate, ...context.panel]
+    .filter((profile) => !!profile?.email)
+    .map((profile) => ({ name: getProfileName(profile), email: profile!.email! }));
+
+  return buildInterviewIcs(interview, event);
+}
+
+/**
+ * Ask the candidate to pick one of the interview's slots.
+ */
+export async function sendInterviewSlotsEmail(
+  repo: Repository,
+  interview: InterviewWithDetails,
+  { rescheduled = false }: { rescheduled?: boolean } = {}
+) {
+  const context = await loadInterviewContext(repo, interview);
+
+  await sendUserEmail(repo, {
+    template: 'interview_slots',
+    userId: context.application.applicant_id,
+    props: {
+      candidateName: context.candidateName,
+      jobTitle: context.jobTitle,
+      companyName: context.companyName,
+      durationMinutes: interview.duration_minutes,
+      slotCount: getBookableSlots(interview).length,
+      bookingUrl: getBookingUrl(interview),
+      rescheduled,
+    },
+  });
+}
+
+/**
+ * Confirm the picked time to the candidate, in their own time zone, and to
+ * the panel, in the zone the interview was scheduled in.
+ */
+export async function sendInterviewBookedEmails(repo: Repository, interview: InterviewWithDetails) {
+  if (!interview.starts_at) return;
+  const context = await loadInterviewContext(repo, interview);
+  const details = {
+    startsAt: interview.starts_at,
+    durationMinutes: interview.duration_minutes,
+    location: interview.location,
+    meetingUrl: interview.meeting_url,
+  };
+
+  await sendUserEmail(repo, {
+    template: 'interview_invite',
+    userId: context.application.applicant_id,
+    props: {
+      ...details,
+      timeZone: interview.candidate_time_zone ?? interview.time_zone,
+      calendarUrl: getCandidateCalendarUrl(interview),
+      candidateName: context.candidateName,
+      jobTitle: context.jobTitle,
+      companyName: context.companyName,
+      detailsUrl: getBookingUrl(interview),
+    },
+  });
+
+  for (const member of context.panel) {
+    if (!member.email) continue;
+    await sendEmail(repo, {
+      template: 'interview_booked',
+      to: member.email,
+      userId: member.user_id,
+      preferences: member.notification_preferences,
+      props: {
+        ...details,
+        timeZone: interview.time_zone,
+        calendarUrl: getPanelCalendarUrl(interview),
+        recipientName: getProfileName(member),
+        candidateName: context.candidateName,
+        jobTitle: context.jobTitle,
+        applicationUrl: getApplicationUrl(interview),
+      },
+    });
+  }
+}
+
+/**
+ * Tell everyone but the person who cancelled that the interview is off.
+ * When the booking is being moved, only the panel is told; the candidate
+ * gets the new slots instead.
+ */
+export async function sendInterviewCancelledEmails(
+  repo: Repository,
+  interview: InterviewWithDetails,
+  { rescheduled = false }: { rescheduled?: boolean } = {}
+) {
+  const context = await loadInterviewContext(repo, interview);
+  const cancelledByCandidate = interview.cancelled_by === context.application.applicant_id;
+
+  if (!cancelledByCandidate && !rescheduled) {
+    await sendUserEmail(repo, {
+      template: 'interview_cancelled',
+      userId: context.application.applicant_id,
+      props: {
+        recipientName: context.candidateName,
+        description: `your interview for ${context.jobTitle}`,
+        startsAt: interview.starts_at,
+        timeZone: interview.candidate_time_zone ?? interview.time_zone,
+        cancelledBy: context.companyName,
+        reason: interview.cancel_reason,
+        detailsUrl: getBookingUrl(interview),
+      },
+    });
+  }
+
+  for (const member of context.panel) {
+    if (!member.email || member.user_id === interview.cancelled_by) continue;
+    await sendEmail(repo, {
+      template: 'interview_cancelled',
+      to: member.email,
+      userId: member.user_id,
+      preferences: member.notification_preferences,
+      props: {
+        recipientName: getProfileName(member),
+        description: `the interview with ${context.candidateName || 'the candidate'} for ${context.jobTitle}`,
+        startsAt: interview.starts_at,
+        timeZone: interview.time_zone,
+        cancelledBy: cancelledByCandidate ? context.candidateName || 'The candidate' : null,
+        reason: rescheduled
+          ? 'The interview is being moved. You will hear once the candidate picks a new time.'
+          : interview.cancel_reason,
+        detailsUrl: getApplicationUrl(interview),
+      },
+    });
+  }
+}
+
+export interface InterviewReminderRunResult {
+  interviews_reminded: number
+}
+
+/**
+ * Remind the candidate and the panel of interviews starting within the
+ * reminder lead time. Each interview is reminded once per booking.
+ */
+export async function sendInterviewReminders(repo: Repository, now: Date = new Date()): Promise<InterviewReminderRunResult> {
+  const due = await repo.interviews.listDueReminders(new Date(now.getTime() + INTERVIEW_REMINDER_LEAD_MS).toISOString());
+
+  for (const interview of due) {
+    if (!interview.starts_at) continue;
+    const context = await loadInterviewContext(repo, interview);
+    const details = {
+      startsAt: interview.starts_at,
+      durationMinutes: interview.duration_minutes,
+      location: interview.location,
+      meetingUrl: interview.meeting_url,
+    };
+
+    await sendUserEmail(repo, {
+      template: 'interview_reminder',
+      userId: context.application.applicant_id,
+      props: {
+        ...details,
+        timeZone: interview.candidate_time_zone ?? interview.time_zone,
+        calendarUrl: getCandidateCalendarUrl(interview),
+        recipientName: context.candidateName,
+        description: `your interview for ${context.jobTitle}`,
+        detailsUrl: getBookingUrl(interview),
+      },
+    });
+
+    for (const member of context.panel) {
+      if (!member.email) continue;
+      await sendEmail(repo, {
+        template: 'interview_reminder',
+        to: member.email,
+        userId: member.user_id,
+        preferences: member.notification_preferences,
+        props: {
+          ...details,
+          timeZone: interview.time_zone,
+          calendarUrl: getPanelCalendarUrl(interview),
+          recipientName: getProfileName(member),
+          description: `the interview with ${context.candidateName || 'the candidate'} for ${context.jobTitle}`,
+          detailsUrl: getApplicationUrl(interview),
+        },
+      });
+    }
+  }
+
+  await repo.interviews.markReminded(due.map((interview) => interview.id));
+  return { interviews_reminded: due.length };
+}
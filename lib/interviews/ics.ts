@@ -0,0 +1,98 @@
+import type { Interview } from "@/lib/types/enhanced-database";
+
+// iCalendar (RFC 5545) for interviews, downloaded as .ics by the candidate
+// and the panel. Every event for an interview shares its UID, so importing
+// a newer file (higher SEQUENCE) moves or cancels the existing event.
+
+export interface InterviewCalendarEvent {
+  summary: string
+  description: string
+  url: string
+  organizer?: { name: string; email: string } | null
+  attendees?: { name: string | null; email: string }[]
+}
+
+const PRODUCT_ID = '-//Uwezo Careers//Interviews//EN';
+
+const formatIcsDate = (iso: string) => new Date(iso).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+const escapeText = (text: string) => text
+  .replace(/\\/g, '\\\\')
+  .replace(/\r?\n/g, '\\n')
+  .replace(/([,;])/g, '\\$1');
+
+const escapeParameter = (text: string) => `"${text.replace(/"/g, "'")}"`;
+
+// Lines are folded at 75 octets, continuing with a leading space
+function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  if (encoder.encode(line).length <= 75) return line;
+
+  const chunks: string[] = [];
+  let current = '';
+  for (const character of line) {
+    const limit = chunks.length === 0 ? 75 : 74;
+    if (encoder.encode(current + character).length > limit) {
+      chunks.push(current);
+      current = character;
+    } else {
+      current += character;
+    }
+  }
+  chunks.push(current);
+  return chunks.join('\r\n ');
+}
+
+/**
+ * A calendar file with the interview as one event. Cancelled interviews
+ * keep their last time and are marked cancelled.
+ */
+export function buildInterviewIcs(
+  interview: Pick<Interview, 'id' | 'starts_at' | 'ends_at' | 'status' | 'sequence' | 'location' | 'meeting_url' | 'updated_at'>,
+  event: InterviewCalendarEvent
+): string {
+  if (!interview.starts_at || !interview.ends_at) {
+    throw new Error('The interview has no time yet');
+  }
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    'BEGIN:VEVENT',
+    `UID:interview-${interview.id}@uwezo-careers`,
+    `DTSTAMP:${formatIcsDate(interview.updated_at)}`,
+    `DTSTART:${formatIcsDate(interview.starts_at)}`,
+    `DTEND:${formatIcsDate(interview.ends_at)}`,
+    `SEQUENCE:${interview.sequence}`,
+    `STATUS:${interview.status === 'cancelled' ? 'CANCELLED' : 'CONFIRMED'}`,
+    `SUMMARY:${escapeText(event.summary)}`,
+    `DESCRIPTION:${escapeText(event.description)}`,
+    `URL:${event.url}`,
+  ];
+  const location = [interview.location, interview.meeting_url].filter(Boolean).join(' / ');
+  if (location) lines.push(`LOCATION:${escapeText(location)}`);
+  if (event.organizer) {
+    lines.push(`ORGANIZER;CN=${escapeParameter(event.organizer.name)}:mailto:${event.organizer.email}`);
+  }
+  for (const attendee of event.attendees ?? []) {
+    const name = attendee.name ? `;CN=${escapeParameter(attendee.name)}` : '';
+    lines.push(`ATTENDEE;ROLE=REQ-PARTICIPANT${name}:mailto:${attendee.email}`);
+  }
+  if (interview.status !== 'cancelled') {
+    lines.push(
+      'BEGIN:VALARM',
+      'ACTION:DISPLAY',
+      'DESCRIPTION:Interview reminder',
+      'TRIGGER:-PT30M',
+      'END:VALARM'
+    );
+  }
+  lines.push('END:VEVENT', 'END:VCALENDAR');
+
+  return `${lines.map(foldLine).join('\r\n')}\r\n`;
+}
+
+export const getInterviewIcsFilename = (interview: Pick<Interview, 'id'>) => `interview-${interview.id.slice(0, 8)}.ics`;
@@ -0,0 +1,106 @@
+import type {
+  Interview,
+  InterviewPanelist,
+  InterviewSlot,
+  InterviewStatus,
+} from "@/lib/types/enhanced-database";
+
+export type InterviewWithDetails = Interview & {
+  slots: InterviewSlot[]
+  panelists: InterviewPanelist[]
+};
+
+// What the candidate's booking link shows: no panel or internal fields
+export type InterviewBooking = Pick<
+  Interview,
+  'id' | 'title' | 'duration_minutes' | 'location' | 'meeting_url' | 'time_zone' | 'candidate_time_zone'
+  | 'status' | 'starts_at' | 'ends_at' | 'booking_token' | 'cancel_reason'
+> & { slots: InterviewSlot[] };
+
+export const toInterviewBooking = (interview: InterviewWithDetails): InterviewBooking => ({
+  id: interview.id,
+  title: interview.title,
+  duration_minutes: interview.duration_minutes,
+  location: interview.location,
+  meeting_url: interview.meeting_url,
+  time_zone: interview.time_zone,
+  candidate_time_zone: interview.candidate_time_zone,
+  status: interview.status,
+  starts_at: interview.starts_at,
+  ends_at: interview.ends_at,
+  booking_token: interview.booking_token,
+  cancel_reason: interview.cancel_reason,
+  slots: getBookableSlots(interview),
+});
+
+export const INTERVIEW_STATUS_LABELS: Record<InterviewStatus, string> = {
+  proposed: 'Waiting for the candidate',
+  scheduled: 'Scheduled',
+  cancelled: 'Cancelled',
+  completed: 'Completed',
+};
+
+export const INTERVIEW_DURATIONS = [15, 30, 45, 60, 90, 120];
+
+export const DEFAULT_INTERVIEW_MINUTES = 45;
+
+// Slots offered at once; more than this is hard to choose from
+export const MAX_INTERVIEW_SLOTS = 40;
+
+// Reminders go out this long before the interview
+export const INTERVIEW_REMINDER_LEAD_MS = 24 * 60 * 60 * 1000;
+
+export interface TimeRange {
+  starts_at: string
+  ends_at: string
+}
+
+/**
+ * Split published availability into back-to-back slots of the interview's
+ * length, with an optional break between them. A slot that would run past
+ * the end of the window is dropped.
+ */
+export function splitAvailability(window: TimeRange, durationMinutes: number, breakMinutes: number = 0): TimeRange[] {
+  const slots: TimeRange[] = [];
+  const end = new Date(window.ends_at).getTime();
+  const step = (durationMinutes + breakMinutes) * 60 * 1000;
+  if (step <= 0) return slots;
+
+  for (let start = new Date(window.starts_at).getTime(); start + durationMinutes * 60 * 1000 <= end; start += step) {
+    slots.push({
+      starts_at: new Date(start).toISOString(),
+      ends_at: new Date(start + durationMinutes * 60 * 1000).toISOString(),
+    });
+  }
+  return slots;
+}
+
+// Sorted, without duplicates or times in the past
+export function normaliseSlots(slots: TimeRange[], now: Date = new Date()): TimeRange[] {
+  const byStart = new Map<string, TimeRange>();
+  for (const slot of slots) {
+    if (new Date(slot.starts_at) > now) byStart.set(new Date(slot.starts_at).toISOString(), slot);
+  }
+  return Array.from(byStart.values()).sort((a, b) => a.starts_at.localeCompare(b.starts_at));
+}
+
+// Slots of the interview's length from their start times, as normaliseSlots
+export const buildSlots = (slotStarts: string[], durationMinutes: number, now: Date = new Date()) =>
+  normaliseSlots(slotStarts.map((startsAt) => ({
+    starts_at: new Date(startsAt).toISOString(),
+    ends_at: new Date(new Date(startsAt).getTime() + durationMinutes * 60 * 1000).toISOString(),
+  })), now);
+
+// Slots the candidate can still pick
+export const getBookableSlots = (interview: Pick<InterviewWithDetails, 'status' | 'slots'>, now: Date = new Date()) =>
+  interview.status === 'proposed' || interview.status === 'scheduled'
+    ? normaliseSlots(interview.slots, now) as InterviewSlot[]
+    : [];
+
+// Interviews still happening, as opposed to cancelled or over
+export const isInterviewActive = (interview: Pick<Interview, 'status'>) =>
+  interview.status === 'proposed' || interview.status === 'scheduled';
+
+// What a calendar should hold for the interview, or null before a time is picked
+export const hasCalendarEvent = (interview: Pick<Interview, 'starts_at' | 'ends_at'>) =>
+  !!interview.starts_at && !!interview.ends_at;
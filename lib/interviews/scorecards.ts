@@ -0,0 +1,147 @@
+import type {
+  HiringRecommendation,
+  InterviewScorecard,
+  ScorecardCategory,
+  ScorecardCompetency,
+  ScorecardRating,
+  ScorecardTemplate,
+} from "@/lib/types/enhanced-database";
+
+export const SCORECARD_CATEGORY_LABELS: Record<ScorecardCategory, string> = {
+  technical: 'Technical',
+  communication: 'Communication',
+  general: 'General',
+};
+
+export const HIRING_RECOMMENDATION_LABELS: Record<HiringRecommendation, string> = {
+  strong_no: 'Strong no hire',
+  no: 'No hire',
+  yes: 'Hire',
+  strong_yes: 'Strong hire',
+};
+
+// Strongest against to strongest for
+export const HIRING_RECOMMENDATIONS: HiringRecommendation[] = ['strong_no', 'no', 'yes', 'strong_yes'];
+
+export const RATING_SCALES = [3, 4, 5, 10];
+export const DEFAULT_RATING_SCALE = 5;
+
+// Application ratings are stored on a 1-5 scale whatever the template uses
+export const APPLICATION_RATING_MAX = 5;
+
+export const MAX_SCORECARD_COMPETENCIES = 20;
+
+// Used for jobs without a template of their own
+export const DEFAULT_COMPETENCIES: ScorecardCompetency[] = [
+  { id: 'role-skills', name: 'Role skills', description: 'Knowledge and skills the job needs', category: 'technical', weight: 1 },
+  { id: 'problem-solving', name: 'Problem solving', description: 'Works through unfamiliar problems', category: 'technical', weight: 1 },
+  { id: 'communication', name: 'Communication', description: 'Explains ideas clearly and listens', category: 'communication', weight: 1 },
+  { id: 'collaboration', name: 'Collaboration', description: 'Works well with others', category: 'general', weight: 1 },
+];
+
+// What interviewers rate for the job: its template, or the defaults
+export const getScorecardCompetencies = (template: Pick<ScorecardTemplate, 'competencies'> | null) =>
+  template && template.competencies.length > 0 ? template.competencies : DEFAULT_COMPETENCIES;
+
+export const getRatingScale = (template: Pick<ScorecardTemplate, 'rating_scale'> | null) =>
+  template?.rating_scale ?? DEFAULT_RATING_SCALE;
+
+/**
+ * An interviewer's scores as scorecard ratings, copying each competency
+ * from the template. Scores for competencies the template no longer has
+ * are dropped, and scores outside the scale are left unset.
+ */
+export function buildScorecardRatings(
+  competencies: ScorecardCompetency[],
+  ratingScale: number,
+  scores: { competency_id: string; score: number | null; note?: string }[]
+): ScorecardRating[] {
+  return competencies.map((competency) => {
+    const entry = scores.find((score) => score.competency_id === competency.id);
+    const score = entry?.score ?? null;
+    return {
+      competency_id: competency.id,
+      name: competency.name,
+      category: competency.category,
+      weight: competency.weight,
+      score: score !== null && score >= 1 && score <= ratingScale ? score : null,
+      ...(entry?.note ? { note: entry.note } : {}),
+    };
+  });
+}
+
+// Only fully scored scorecards with a recommendation can be submitted
+export const isScorecardComplete = (
+  scorecard: Pick<InterviewScorecard, 'ratings' | 'recommendation'>
+) => scorecard.recommendation !== null && scorecard.ratings.every((rating) => rating.score !== null);
+
+// A score on the template's scale as 1-5
+const toApplicationScale = (score: number, ratingScale: number) =>
+  1 + ((score - 1) * (APPLICATION_RATING_MAX - 1)) / (ratingScale - 1);
+
+// Weighted mean of the scored ratings, or null if there are none
+function weightedMean(ratings: ScorecardRating[], ratingScale: number): number | null {
+  let total = 0;
+  let weights = 0;
+  for (const rating of ratings) {
+    if (rating.score === null || rating.weight <= 0) continue;
+    total += toApplicationScale(rating.score, ratingScale) * rating.weight;
+    weights += rating.weight;
+  }
+  return weights > 0 ? total / weights : null;
+}
+
+const mean = (values: (number | null)[]) => {
+  const present = values.filter((value): value is number => value !== null);
+  if (present.length === 0) return null;
+  return Math.round((present.reduce((sum, value) => sum + value, 0) / present.length) * 100) / 100;
+};
+
+export type HiringDecision = 'hire' | 'no_hire' | 'mixed';
+
+export interface ScorecardSummary {
+  submitted: number
+  overall_rating: number | null
+  technical_rating: number | null
+  communication_rating: number | null
+  recommendations: Record<HiringRecommendation, number>
+  decision: HiringDecision | null
+}
+
+/**
+ * Roll submitted scorecards up into the panel's ratings. Each
+ * interviewer counts equally: a rating is the mean of each scorecard's
+ * weighted mean for that category, on a 1-5 scale. The panel leans one way
+ * when every recommendation agrees on hire or no hire; otherwise it is mixed.
+ */
+export function summariseScorecards(scorecards: InterviewScorecard[]): ScorecardSummary {
+  const submitted = scorecards.filter((scorecard) => scorecard.status === 'submitted');
+
+  const recommendations = { strong_no: 0, no: 0, yes: 0, strong_yes: 0 };
+  for (const scorecard of submitted) {
+    if (scorecard.recommendation) recommendations[scorecard.recommendation] += 1;
+  }
+  const inFavour = recommendations.yes + recommendations.strong_yes;
+  const against = recommendations.no + recommendations.strong_no;
+
+  const byCategory = (category: ScorecardCategory) => mean(submitted.map((scorecard) =>
+    weightedMean(scorecard.ratings.filter((rating) => rating.category === category), scorecard.rating_scale)
+  ));
+
+  return {
+    submitted: submitted.length,
+    overall_rating: mean(submitted.map((scorecard) => weightedMean(scorecard.ratings, scorecard.rating_scale))),
+    technical_rating: byCategory('technical'),
+    communication_rating: byCategory('communication'),
+    recommendations,
+    decision: inFavour + against === 0
+      ? null
+      : against === 0 ? 'hire' : inFavour === 0 ? 'no_hire' : 'mixed',
+  };
+}
+
+export const HIRING_DECISION_LABELS: Record<HiringDecision, string> = {
+  hire: 'Panel recommends hiring',
+  no_hire: 'Panel recommends not hiring',
+  mixed: 'Panel is split',
+};
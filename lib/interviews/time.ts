@@ -0,0 +1,94 @@
+// Time zone helpers built on Intl, so they behave the same in the browser,
+// route handlers and email rendering.
+
+export const getBrowserTimeZone = () => Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-GB', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Zones offered when scheduling; the scheduler's own zone is added if missing
+export const COMMON_TIME_ZONES = [
+  'Africa/Nairobi',
+  'Africa/Lagos',
+  'Africa/Johannesburg',
+  'Africa/Cairo',
+  'Europe/London',
+  'Europe/Berlin',
+  'America/New_York',
+  'America/Chicago',
+  'America/Los_Angeles',
+  'Asia/Dubai',
+  'Asia/Kolkata',
+  'Asia/Singapore',
+  'Australia/Sydney',
+  'UTC',
+];
+
+// Milliseconds the zone is ahead of UTC at the given instant
+function getZoneOffset(timestamp: number, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric',
+  }).formatToParts(new Date(timestamp));
+  const value = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find((part) => part.type === type)?.value);
+  const asUtc = Date.UTC(value('year'), value('month') - 1, value('day'), value('hour'), value('minute'), value('second'));
+  return asUtc - Math.floor(timestamp / 1000) * 1000;
+}
+
+/**
+ * The instant a wall-clock time (as from a datetime-local input, e.g.
+ * "2026-11-02T09:30") falls at in the zone, as an ISO string.
+ */
+export function zonedTimeToUtc(localDateTime: string, timeZone: string): string {
+  const [date, time = '00:00'] = localDateTime.split('T');
+  const [year, month, day] = date.split('-').map(Number);
+  const [hour, minute] = time.split(':').map(Number);
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute);
+
+  // Correct once more in case the first guess crossed a DST change
+  let timestamp = wallClock - getZoneOffset(wallClock, timeZone);
+  timestamp = wallClock - getZoneOffset(timestamp, timeZone);
+  return new Date(timestamp).toISOString();
+}
+
+/**
+ * An instant as a datetime-local value in the zone, the inverse of
+ * zonedTimeToUtc.
+ */
+export function utcToZonedTime(iso: string, timeZone: string): string {
+  const timestamp = new Date(iso).getTime();
+  return new Date(timestamp + getZoneOffset(timestamp, timeZone)).toISOString().slice(0, 16);
+}
+
+// e.g. "Monday, 2 November 2026 at 09:30 GMT+3"
+export const formatInTimeZone = (iso: string, timeZone: string) =>
+  new Intl.DateTimeFormat('en-GB', {
+    weekday: 'long',
+    day: 'numeric',
+    month: 'long',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    timeZone,
+    timeZoneName: 'short',
+  }).format(new Date(iso));
+
+// e.g. "09:30"
+export const formatTimeInZone = (iso: string, timeZone: string) =>
+  new Intl.DateTimeFormat('en-GB', { hour: '2-digit', minute: '2-digit', timeZone }).format(new Date(iso));
+
+// e.g. "Monday, 2 November"; used to group slots by day
+export const formatDayInZone = (iso: string, timeZone: string) =>
+  new Intl.DateTimeFormat('en-GB', { weekday: 'long', day: 'numeric', month: 'long', timeZone }).format(new Date(iso));
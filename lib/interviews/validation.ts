@@ -0,0 +1,80 @@
+import { z } from "zod";
+import { MAX_INTERVIEW_SLOTS } from "@/lib/interviews/scheduling";
+import { MAX_SCORECARD_COMPETENCIES, RATING_SCALES } from "@/lib/interviews/scorecards";
+import { isValidTimeZone } from "@/lib/interviews/time";
+
+// Slots are sent as UTC start times; their length is the interview's
+const slotStarts = z
+  .array(z.string().datetime({ message: "Use ISO times for slots." }))
+  .min(1, { message: "Offer at least one time." })
+  .max(MAX_INTERVIEW_SLOTS, { message: `Offer at most ${MAX_INTERVIEW_SLOTS} times.` });
+
+export const InterviewDetailsSchema = z.object({
+  title: z.string().trim().min(1, { message: "Give the interview a title." }).max(200),
+  duration_minutes: z.number().int().min(10).max(480),
+  location: z.string().trim().max(500).nullable(),
+  meeting_url: z.string().trim().url({ message: "Use a full meeting link, e.g. https://meet.example.com/abc." }).max(2000).nullable(),
+  time_zone: z.string().refine(isValidTimeZone, { message: "Unknown time zone." }),
+  panelist_ids: z.array(z.string().uuid()).max(10, { message: "Use a panel of at most 10 people." }),
+  slot_starts: slotStarts,
+});
+
+export const CreateInterviewSchema = InterviewDetailsSchema.extend({
+  application_id: z.string().uuid(),
+});
+
+export type InterviewDetailsInput = z.infer<typeof InterviewDetailsSchema>;
+
+// New times for an existing interview; the other details may change too
+export const RescheduleInterviewSchema = InterviewDetailsSchema.partial().extend({
+  slot_starts: slotStarts,
+});
+
+export const CancelInterviewSchema = z.object({
+  reason: z.string().trim().max(1000).optional(),
+});
+
+// What the candidate can do from the booking link
+export const BookingActionSchema = z.discriminatedUnion('action', [
+  z.object({
+    action: z.literal('book'),
+    slot_id: z.string().uuid(),
+    time_zone: z.string().refine(isValidTimeZone).optional(),
+  }),
+  z.object({
+    action: z.literal('cancel'),
+    reason: z.string().trim().max(1000).optional(),
+  }),
+]);
+
+export const ScorecardCompetencySchema = z.object({
+  id: z.string().min(1).max(100),
+  name: z.string().trim().min(1, { message: "Name every competency." }).max(100),
+  description: z.string().trim().max(500).optional(),
+  category: z.enum(['technical', 'communication', 'general']),
+  weight: z.number().positive().max(10),
+});
+
+export const ScorecardTemplateSchema = z.object({
+  rating_scale: z.number().int().refine((scale) => RATING_SCALES.includes(scale), { message: "Pick one of the rating scales." }),
+  competencies: z
+    .array(ScorecardCompetencySchema)
+    .min(1, { message: "Add at least one competency." })
+    .max(MAX_SCORECARD_COMPETENCIES, { message: `Use at most ${MAX_SCORECARD_COMPETENCIES} competencies.` })
+    .refine((competencies) => new Set(competencies.map((competency) => competency.name.toLowerCase())).size === competencies.length, {
+      message: "Give each competency a different name.",
+    }),
+});
+
+// An interviewer's scorecard, saved as a draft or submitted
+export const SaveScorecardSchema = z.object({
+  interview_id: z.string().uuid().nullable().optional(),
+  scores: z.array(z.object({
+    competency_id: z.string().min(1).max(100),
+    score: z.number().int().min(1).max(10).nullable(),
+    note: z.string().trim().max(1000).optional(),
+  })).max(MAX_SCORECARD_COMPETENCIES),
+  recommendation: z.enum(['strong_no', 'no', 'yes', 'strong_yes']).nullable(),
+  summary: z.string().trim().max(5000).nullable(),
+  submit: z.boolean(),
+});
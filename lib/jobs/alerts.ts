@@ -0,0 +1,223 @@
+import { createElement } from "react";
+import { buildJobBoardHref, filterJobBoard, toJobBoardFilters, type JobBoardEntry } from "@/lib/jobs/board";
+import { WORK_ARRANGEMENT_LABELS, formatSalaryRange } from "@/lib/jobs/format";
+import { EMAIL_PREFERENCES_PATH, isEmailAllowed, type EmailCategory } from "@/lib/email/preferences";
+import { renderEmail } from "@/lib/email/render";
+import { jobAlertDigest, type JobAlertDigestProps } from "@/lib/email/templates/job-alert-digest";
+import type { Repository } from "@/lib/supabase/repository";
+import type {
+  Company,
+  JobAlertFrequency,
+  JobOpeningEnhanced,
+  SavedSearch,
+  UserProfileEnhanced,
+} from "@/lib/types/enhanced-database";
+
+export const JOB_ALERT_FREQUENCIES: JobAlertFrequency[] = ['daily', 'weekly'];
+
+export const JOB_ALERT_FREQUENCY_LABELS: Record<JobAlertFrequency, string> = {
+  daily: 'Daily',
+  weekly: 'Weekly',
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const FREQUENCY_INTERVALS_MS: Record<JobAlertFrequency, number> = {
+  daily: 24 * HOUR_MS,
+  weekly: 7 * 24 * HOUR_MS,
+};
+
+// A run slightly early still counts, so a daily schedule does not slip to every other day
+const SCHEDULE_TOLERANCE_MS = HOUR_MS;
+
+// Jobs listed per search in one digest; the rest are behind the board link
+const MAX_DIGEST_JOBS = 10;
+
+// Search results checked per saved search, as on the job board
+const MAX_SEARCH_RESULTS = 1000;
+
+export const JOB_ALERT_EMAIL_CATEGORY: EmailCategory = jobAlertDigest.category;
+
+type DigestJob = Pick<
+  JobOpeningEnhanced,
+  'id' | 'slug' | 'title' | 'location' | 'work_arrangement' | 'salary_min' | 'salary_max' | 'salary_currency'
+> & { company?: Pick<Company, 'name'> | null };
+
+export interface JobAlertDigestSection {
+  search: Pick<SavedSearch, 'name' | 'query' | 'unsubscribe_token'>
+  jobs: DigestJob[]
+  // New matches in all, which may be more than are listed
+  total: number
+}
+
+export interface JobAlertDigest {
+  subject: string
+  text: string
+  html: string
+  headers: Record<string, string>
+}
+
+export interface JobAlertRunResult {
+  searches_checked: number
+  digests_queued: number
+}
+
+export const isAlertDue = (search: Pick<SavedSearch, 'alerts_enabled' | 'frequency' | 'last_checked_at'>, now: Date) =>
+  search.alerts_enabled && (
+    !search.last_checked_at
+    || now.getTime() - new Date(search.last_checked_at).getTime() >= FREQUENCY_INTERVALS_MS[search.frequency] - SCHEDULE_TOLERANCE_MS
+  );
+
+/**
+ * Whether the candidate's notification settings allow job alert emails.
+ * Settings left unset count as on, since saving a search is an opt-in.
+ */
+export const canReceiveJobAlerts = (profile: Pick<UserProfileEnhanced, 'email' | 'notification_preferences'> | undefined) =>
+  !!profile?.email && isEmailAllowed(JOB_ALERT_EMAIL_CATEGORY, profile.notification_preferences);
+
+/**
+ * Search results that match the saved filters and were published since the
+ * search was last checked, or since it was saved if it never has been.
+ */
+export function findNewMatches(
+  entries: JobBoardEntry[],
+  search: Pick<SavedSearch, 'query' | 'last_checked_at' | 'created_at'>
+): JobBoardEntry[] {
+  const since = new Date(search.last_checked_at ?? search.created_at).getTime();
+  return filterJobBoard(entries, toJobBoardFilters(search.query))
+    .filter((entry) => !!entry.published_at && new Date(entry.published_at).getTime() > since);
+}
+
+export type UnsubscribeScope = 'search' | 'all';
+
+const unsubscribeQuery = (token: string, scope: UnsubscribeScope) =>
+  `token=${encodeURIComponent(token)}${scope === 'all' ? '&scope=all' : ''}`;
+
+// The confirmation page linked from the email body
+export const getUnsubscribeUrl = (siteUrl: string, token: string, scope: UnsubscribeScope = 'search') =>
+  new URL(`/jobs/alerts/unsubscribe?${unsubscribeQuery(token, scope)}`, siteUrl).toString();
+
+// The endpoint mail clients post to for one-click unsubscribe
+const getOneClickUnsubscribeUrl = (siteUrl: string, token: string) =>
+  new URL(`/api/job-alerts/unsubscribe?${unsubscribeQuery(token, 'all')}`, siteUrl).toString();
+
+const describeJob = (job: DigestJob) => [
+  job.company?.name,
+  job.location || WORK_ARRANGEMENT_LABELS[job.work_arrangement],
+  formatSalaryRange(job),
+].filter(Boolean).join(' · ');
+
+/**
+ * The digest email for one candidate: the new jobs for each of their saved
+ * searches, with a link to turn off each alert and one to turn off all.
+ * Rendered here rather than through sendEmail so it can be queued with the
+ * one-click unsubscribe headers.
+ */
+export function buildJobAlertDigest(
+  recipientName: string | null,
+  sections: JobAlertDigestSection[],
+  siteUrl: string
+): JobAlertDigest {
+  const props: JobAlertDigestProps = {
+    recipientName,
+    searches: sections.map((section) => ({
+      name: section.search.name,
+      jobs: section.jobs.map((job) => ({
+        title: job.title,
+        url: new URL(`/jobs/${job.slug ?? job.id}`, siteUrl).toString(),
+        details: describeJob(job),
+      })),
+      total: section.total,
+      boardUrl: section.total > section.jobs.length
+        ? new URL(buildJobBoardHref(toJobBoardFilters(section.search.query)), siteUrl).toString()
+        : null,
+      unsubscribeUrl: getUnsubscribeUrl(siteUrl, section.search.unsubscribe_token),
+    })),
+    manageUrl: new URL('/protected/employee', siteUrl).toString(),
+    unsubscribeAllUrl: getUnsubscribeUrl(siteUrl, sections[0].search.unsubscribe_token, 'all'),
+  };
+  const { html, text } = renderEmail(createElement(jobAlertDigest.Component, {
+    ...props,
+    preferencesUrl: new URL(EMAIL_PREFERENCES_PATH, siteUrl).toString(),
+  }));
+
+  return {
+    subject: jobAlertDigest.subject(props),
+    text,
+    html,
+    headers: {
+      'List-Unsubscribe': `<${getOneClickUnsubscribeUrl(siteUrl, sections[0].search.unsubscribe_token)}>`,
+      'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+    },
+  };
+}
+
+/**
+ * Check every saved search that is due and queue one digest per candidate
+ * with the jobs published since the last check. Searches are marked checked
+ * even when nothing matched or the candidate has alerts turned off, so
+ * turning alerts back on does not send a backlog. Needs a service-role
+ * repository, since it reads every candidate's searches.
+ */
+export async function queueJobAlertDigests(
+  repo: Repository,
+  siteUrl: string,
+  now: Date = new Date()
+): Promise<JobAlertRunResult> {
+  const due = (await repo.savedSearches.listWithAlerts()).filter((search) => isAlertDue(search, now));
+  if (due.length === 0) return { searches_checked: 0, digests_queued: 0 };
+
+  const profiles = new Map(
+    (await repo.profiles.listByUserIds(Array.from(new Set(due.map((search) => search.user_id)))))
+      .map((profile) => [profile.user_id, profile])
+  );
+
+  // Searches with the same text share one query
+  const results = new Map<string, JobBoardEntry[]>();
+  const matchesBySearch = new Map<string, JobBoardEntry[]>();
+  for (const search of due) {
+    if (!canReceiveJobAlerts(profiles.get(search.user_id))) continue;
+
+    if (!results.has(search.query.q)) {
+      results.set(search.query.q, await repo.jobOpenings.searchPublic(search.query.q, MAX_SEARCH_RESULTS));
+    }
+    const matches = findNewMatches(results.get(search.query.q) ?? [], search);
+    if (matches.length > 0) matchesBySearch.set(search.id, matches);
+  }
+
+  const listedIds = Array.from(matchesBySearch.values()).flatMap((matches) =>
+    matches.slice(0, MAX_DIGEST_JOBS).map((entry) => entry.id)
+  );
+  const jobs = new Map((await repo.jobOpenings.listByIds(Array.from(new Set(listedIds)))).map((job) => [job.id, job]));
+
+  let digestsQueued = 0;
+  for (const [userId, profile] of Array.from(profiles.entries())) {
+    const sections = due
+      .filter((search) => search.user_id === userId && matchesBySearch.has(search.id))
+      .map((search) => {
+        const matches = matchesBySearch.get(search.id) ?? [];
+        return {
+          search,
+          jobs: matches.slice(0, MAX_DIGEST_JOBS).flatMap((entry) => jobs.get(entry.id) ?? []),
+          total: matches.length,
+        };
+      });
+    if (sections.length === 0 || !profile.email) continue;
+
+    const digest = buildJobAlertDigest(profile.first_name, sections, siteUrl);
+    await repo.emailOutbox.enqueue({
+      user_id: userId,
+      category: JOB_ALERT_EMAIL_CATEGORY,
+      template: 'job_alert_digest',
+      to_email: profile.email,
+      subject: digest.subject,
+      text_body: digest.text,
+      html_body: digest.html,
+      headers: digest.headers,
+    });
+    digestsQueued += 1;
+  }
+
+  await repo.savedSearches.markChecked(due.map((search) => search.id), now.toISOString());
+  return { searches_checked: due.length, digests_queued: digestsQueued };
+}
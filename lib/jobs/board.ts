@@ -0,0 +1,236 @@
+import { EMPLOYMENT_TYPES, SENIORITY_LEVELS, WORK_ARRANGEMENTS } from "@/lib/jobs/validation";
+import { SENIORITY_LABELS, WORK_ARRANGEMENT_LABELS, getEmploymentTypeLabel } from "@/lib/jobs/format";
+import type { JobOpeningEnhanced, JobSearchQuery } from "@/lib/types/enhanced-database";
+
+export const JOB_BOARD_PAGE_SIZE = 20;
+
+// The columns the board filters and counts on, loaded for every search result
+export const JOB_BOARD_ENTRY_COLUMNS =
+  'id, employment_type, work_arrangement, seniority_level, location, salary_min, salary_max, salary_currency, published_at';
+
+export type JobBoardEntry = Pick<
+  JobOpeningEnhanced,
+  | 'id'
+  | 'employment_type'
+  | 'work_arrangement'
+  | 'seniority_level'
+  | 'location'
+  | 'salary_min'
+  | 'salary_max'
+  | 'salary_currency'
+  | 'published_at'
+>;
+
+export interface JobBoardFilters extends JobSearchQuery {
+  page: number
+}
+
+export type JobBoardFacet = 'employment_type' | 'work_arrangement' | 'seniority_level' | 'location' | 'currency';
+
+export interface FacetOption {
+  value: string
+  label: string
+  count: number
+}
+
+export type JobBoardSearchParams = Record<string, string | string[] | undefined>;
+
+const MAX_LOCATION_OPTIONS = 10;
+
+const asList = (value: string | string[] | undefined) =>
+  value === undefined ? [] : Array.isArray(value) ? value : [value];
+
+const first = (value: string | string[] | undefined) => asList(value)[0]?.trim() || null;
+
+const positiveNumber = (value: string | string[] | undefined) => {
+  const number = Number(first(value));
+  return Number.isFinite(number) && number > 0 ? Math.floor(number) : null;
+};
+
+const oneOf = <T extends string>(allowed: readonly T[], value: string | string[] | undefined): T[] =>
+  asList(value).filter((item): item is T => (allowed as readonly string[]).includes(item));
+
+/**
+ * Read the board's filters from the URL. Unknown values are dropped rather
+ * than rejected, since the URL is user-editable.
+ */
+export function parseJobBoardFilters(params: JobBoardSearchParams): JobBoardFilters {
+  return {
+    q: first(params.q)?.slice(0, 200) ?? '',
+    employment_type: oneOf(EMPLOYMENT_TYPES, params.employment_type),
+    work_arrangement: oneOf(WORK_ARRANGEMENTS, params.work_arrangement),
+    seniority_level: oneOf(SENIORITY_LEVELS, params.seniority_level),
+    location: first(params.location),
+    salary_min: positiveNumber(params.salary_min),
+    salary_max: positiveNumber(params.salary_max),
+    currency: first(params.currency)?.toUpperCase() ?? null,
+    page: positiveNumber(params.page) ?? 1,
+  };
+}
+
+const sameText = (a: string | null, b: string | null) =>
+  !!a && !!b && a.trim().toLowerCase() === b.trim().toLowerCase();
+
+// Jobs without a salary are left out once a salary filter is set
+function matchesSalary(entry: JobBoardEntry, filters: JobBoardFilters): boolean {
+  if (filters.salary_min === null && filters.salary_max === null) return true;
+
+  const low = entry.salary_min ?? entry.salary_max;
+  const high = entry.salary_max ?? entry.salary_min;
+  if (low === null || high === null) return false;
+
+  return (filters.salary_min === null || high >= filters.salary_min)
+    && (filters.salary_max === null || low <= filters.salary_max);
+}
+
+/**
+ * The entries that pass every filter, optionally ignoring one facet so its
+ * options can be counted against the rest.
+ */
+export function filterJobBoard(
+  entries: JobBoardEntry[],
+  filters: JobBoardFilters,
+  ignore?: JobBoardFacet
+): JobBoardEntry[] {
+  return entries.filter((entry) =>
+    (ignore === 'employment_type' || filters.employment_type.length === 0 || filters.employment_type.includes(entry.employment_type))
+    && (ignore === 'work_arrangement' || filters.work_arrangement.length === 0 || filters.work_arrangement.includes(entry.work_arrangement))
+    && (ignore === 'seniority_level' || filters.seniority_level.length === 0
+      || (entry.seniority_level !== null && filters.seniority_level.includes(entry.seniority_level)))
+    && (ignore === 'location' || !filters.location || sameText(entry.location, filters.location))
+    && (ignore === 'currency' || !filters.currency || sameText(entry.salary_currency, filters.currency))
+    && matchesSalary(entry, filters)
+  );
+}
+
+function countBy(entries: JobBoardEntry[], key: (entry: JobBoardEntry) => string | null): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const entry of entries) {
+    const value = key(entry);
+    if (value) counts.set(value, (counts.get(value) ?? 0) + 1);
+  }
+  return counts;
+}
+
+// Fixed options keep their order and show a zero count when nothing matches
+const fixedOptions = <T extends string>(values: readonly T[], label: (value: T) => string, counts: Map<string, number>) =>
+  values.map((value) => ({ value, label: label(value), count: counts.get(value) ?? 0 }));
+
+/**
+ * Option counts for each facet. Every facet is counted with the other
+ * filters applied but not its own, so selecting one option does not hide
+ * the alternatives.
+ */
+export function getFacetCounts(entries: JobBoardEntry[], filters: JobBoardFilters): Record<JobBoardFacet, FacetOption[]> {
+  // Locations are grouped ignoring case and shown as first written
+  const locationLabels = new Map<string, string>();
+  const locationCounts = countBy(filterJobBoard(entries, filters, 'location'), (entry) => {
+    const location = entry.location?.trim();
+    if (!location) return null;
+    const key = location.toLowerCase();
+    if (!locationLabels.has(key)) locationLabels.set(key, location);
+    return key;
+  });
+  const currencyCounts = countBy(
+    filterJobBoard(entries, filters, 'currency').filter((entry) => entry.salary_min !== null || entry.salary_max !== null),
+    (entry) => entry.salary_currency?.toUpperCase() || null
+  );
+
+  return {
+    employment_type: fixedOptions(
+      EMPLOYMENT_TYPES,
+      getEmploymentTypeLabel,
+      countBy(filterJobBoard(entries, filters, 'employment_type'), (entry) => entry.employment_type)
+    ),
+    work_arrangement: fixedOptions(
+      WORK_ARRANGEMENTS,
+      (value) => WORK_ARRANGEMENT_LABELS[value],
+      countBy(filterJobBoard(entries, filters, 'work_arrangement'), (entry) => entry.work_arrangement)
+    ),
+    seniority_level: fixedOptions(
+      SENIORITY_LEVELS,
+      (value) => SENIORITY_LABELS[value],
+      countBy(filterJobBoard(entries, filters, 'seniority_level'), (entry) => entry.seniority_level)
+    ),
+    location: Array.from(locationCounts.entries())
+      .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+      .slice(0, MAX_LOCATION_OPTIONS)
+      .map(([key, count]) => {
+        const label = locationLabels.get(key) ?? key;
+        return { value: label, label, count };
+      }),
+    currency: Array.from(currencyCounts.entries())
+      .sort((a, b) => b[1] - a[1])
+      .map(([value, count]) => ({ value, label: value, count })),
+  };
+}
+
+/**
+ * The filters as URL parameters, leaving out anything unset.
+ */
+export function toJobBoardParams(filters: JobBoardFilters): URLSearchParams {
+  const params = new URLSearchParams();
+
+  if (filters.q) params.set('q', filters.q);
+  filters.employment_type.forEach((value) => params.append('employment_type', value));
+  filters.work_arrangement.forEach((value) => params.append('work_arrangement', value));
+  filters.seniority_level.forEach((value) => params.append('seniority_level', value));
+  if (filters.location) params.set('location', filters.location);
+  if (filters.salary_min !== null) params.set('salary_min', String(filters.salary_min));
+  if (filters.salary_max !== null) params.set('salary_max', String(filters.salary_max));
+  if (filters.currency) params.set('currency', filters.currency);
+  if (filters.page > 1) params.set('page', String(filters.page));
+  return params;
+}
+
+/**
+ * Board URL for the given filters with some changed. Changing anything but
+ * the page goes back to the first page.
+ */
+export function buildJobBoardHref(filters: JobBoardFilters, changes: Partial<JobBoardFilters> = {}): string {
+  const query = toJobBoardParams({ ...filters, page: 1, ...changes }).toString();
+  return query ? `/jobs?${query}` : '/jobs';
+}
+
+/**
+ * Board URL with one option of a multi-select facet switched on or off.
+ */
+export function toggleFacetHref(
+  filters: JobBoardFilters,
+  facet: 'employment_type' | 'work_arrangement' | 'seniority_level',
+  value: string
+): string {
+  const selected: string[] = filters[facet];
+  const values = selected.includes(value) ? selected.filter((item) => item !== value) : [...selected, value];
+  return buildJobBoardHref(filters, { [facet]: values });
+}
+
+/**
+ * The filters to keep when a search is saved, which is everything but the page.
+ */
+export function toJobSearchQuery(filters: JobBoardFilters): JobSearchQuery {
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  const { page, ...query } = filters;
+  return query;
+}
+
+export const toJobBoardFilters = (query: JobSearchQuery): JobBoardFilters => ({ ...query, page: 1 });
+
+/**
+ * A short name for a saved search, such as "React · Remote · Nairobi".
+ */
+export function describeJobSearch(query: JobSearchQuery): string {
+  const parts = [
+    query.q ? `"${query.q}"` : null,
+    ...query.employment_type.map(getEmploymentTypeLabel),
+    ...query.work_arrangement.map((value) => WORK_ARRANGEMENT_LABELS[value]),
+    ...query.seniority_level.map((value) => SENIORITY_LABELS[value]),
+    query.location,
+    query.salary_min !== null ? `From ${query.salary_min.toLocaleString()}${query.currency ? ` ${query.currency}` : ''}` : null,
+  ].filter((part): part is string => !!part);
+
+  return parts.length > 0 ? parts.join(' · ') : 'All jobs';
+}
+
+export const hasActiveFilters = (filters: JobBoardFilters) =>
+  buildJobBoardHref({ ...filters, q: '' }) !== '/jobs';
@@ -0,0 +1,67 @@
+import type {
+  EmploymentType,
+  JobOpeningEnhanced,
+  SeniorityLevel,
+  WorkArrangement,
+} from "@/lib/types/enhanced-database";
+
+const EMPLOYMENT_TYPE_LABELS: Record<EmploymentType, string> = {
+  full_time: 'Full-time',
+  part_time: 'Part-time',
+  contract: 'Contract',
+  internship: 'Internship',
+  freelance: 'Freelance',
+};
+
+export function getEmploymentTypeLabel(type: EmploymentType): string {
+  return EMPLOYMENT_TYPE_LABELS[type] ?? type;
+}
+
+export const WORK_ARRANGEMENT_LABELS: Record<WorkArrangement, string> = {
+  onsite: 'On-site',
+  hybrid: 'Hybrid',
+  remote: 'Remote',
+};
+
+export const SENIORITY_LABELS: Record<SeniorityLevel, string> = {
+  entry: 'Entry level',
+  junior: 'Junior',
+  mid: 'Mid level',
+  senior: 'Senior',
+  lead: 'Lead',
+  director: 'Director',
+};
+
+/**
+ * URL slug for a posting's public page, e.g. "senior-react-developer-3f2a9c1e".
+ * The ID prefix keeps slugs unique when titles repeat.
+ */
+export function createJobSlug(job: Pick<JobOpeningEnhanced, 'id' | 'title'>): string {
+  const title = job.title
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 60)
+    .replace(/-+$/, '');
+  return `${title || 'job'}-${job.id.slice(0, 8)}`;
+}
+
+/**
+ * Format a posting's salary bounds, e.g. "USD 80,000 - 120,000".
+ * Returns null when neither bound is set.
+ */
+export function formatSalaryRange(
+  job: Pick<JobOpeningEnhanced, 'salary_min' | 'salary_max' | 'salary_currency'>
+): string | null {
+  const currency = job.salary_currency || 'USD';
+  const format = (value: number) => value.toLocaleString();
+
+  if (job.salary_min != null && job.salary_max != null) {
+    return `${currency} ${format(job.salary_min)} - ${format(job.salary_max)}`;
+  }
+  if (job.salary_min != null) return `From ${currency} ${format(job.salary_min)}`;
+  if (job.salary_max != null) return `Up to ${currency} ${format(job.salary_max)}`;
+  return null;
+}
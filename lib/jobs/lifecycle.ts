@@ -0,0 +1,49 @@
+import { createJobSlug } from "@/lib/jobs/format";
+import type { JobOpeningEnhanced, JobOpeningEnhancedUpdate } from "@/lib/types/enhanced-database";
+
+export type JobOpeningStatus = JobOpeningEnhanced['status'];
+export type JobStatusAction = 'publish' | 'pause' | 'close';
+
+const JOB_STATUS_ACTIONS: Record<JobStatusAction, { to: JobOpeningStatus; from: JobOpeningStatus[]; label: string }> = {
+  publish: { to: 'active', from: ['draft', 'paused'], label: 'Publish' },
+  pause: { to: 'paused', from: ['active'], label: 'Pause' },
+  close: { to: 'closed', from: ['draft', 'active', 'paused'], label: 'Close' },
+};
+
+export const JOB_STATUS_LABELS: Record<JobOpeningStatus, string> = {
+  draft: 'Draft',
+  active: 'Active',
+  paused: 'Paused',
+  closed: 'Closed',
+};
+
+export function getJobActionLabel(action: JobStatusAction, status: JobOpeningStatus): string {
+  return action === 'publish' && status === 'paused' ? 'Resume' : JOB_STATUS_ACTIONS[action].label;
+}
+
+export function getAvailableJobActions(status: JobOpeningStatus): JobStatusAction[] {
+  return (Object.keys(JOB_STATUS_ACTIONS) as JobStatusAction[])
+    .filter((action) => JOB_STATUS_ACTIONS[action].from.includes(status));
+}
+
+/**
+ * Build the update for a publish/pause/close action. Closed postings stay
+ * closed, and published_at records the first time a posting went live.
+ * Publishing also gives the posting the slug of its public page.
+ */
+export function planJobStatusChange(
+  job: Pick<JobOpeningEnhanced, 'id' | 'title' | 'slug' | 'status' | 'published_at'>,
+  action: JobStatusAction,
+  now: Date = new Date()
+): JobOpeningEnhancedUpdate {
+  const { to, from } = JOB_STATUS_ACTIONS[action];
+  if (!from.includes(job.status)) {
+    throw new Error(`Cannot ${action} a ${JOB_STATUS_LABELS[job.status].toLowerCase()} job posting`);
+  }
+
+  return {
+    status: to,
+    ...(to === 'active' && !job.published_at ? { published_at: now.toISOString() } : {}),
+    ...(to === 'active' && !job.slug ? { slug: createJobSlug(job) } : {}),
+  };
+}
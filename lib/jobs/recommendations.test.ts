@@ -0,0 +1,89 @@
+import { describe, expect, it } from "vitest";
+import {
+  parseSalaryRange,
+  recommendJobs,
+  type RecommendableJob,
+  type RecommendationProfile,
+} from "@/lib/jobs/recommendations";
+
+function job(overrides: Partial<RecommendableJob> = {}): RecommendableJob {
+  return {
+    id: 'job-1',
+    required_skills: ['React'],
+    preferred_skills: [],
+    work_arrangement: 'onsite',
+    location: null,
+    employment_type: 'full_time',
+    salary_min: 90000,
+    salary_max: 130000,
+    salary_currency: 'EUR',
+    salary_period: 'annually',
+    min_years_experience: 0,
+    company: null,
+    ...overrides,
+  };
+}
+
+function profile(expectedSalary: string | null): RecommendationProfile {
+  return {
+    skills: ['React'],
+    years_experience: 3,
+    work_preferences: {
+      remote_work: false,
+      flexible_hours: false,
+      preferred_locations: [],
+      travel_willingness: 'none',
+      work_schedule: 'part_time',
+      industry_preferences: [],
+    },
+    expected_salary_range: expectedSalary,
+  };
+}
+
+const salaryReason = (expectedSalary: string | null, overrides: Partial<RecommendableJob> = {}) => {
+  const [recommendation] = recommendJobs([job(overrides)], profile(expectedSalary), [], []);
+  return {
+    score: recommendation.score,
+    matched: recommendation.reasons.some((reason) => reason.startsWith('Salary ')),
+  };
+};
+
+describe('parseSalaryRange', () => {
+  it.each([
+    ['80,000 - 120,000 EUR', { min: 80000, max: 120000, currency: 'EUR', period: 'annually' }],
+    ['$60k+', { min: 60000, max: null, currency: 'USD', period: 'annually' }],
+    ['$45/hour', { min: 45, max: null, currency: 'USD', period: 'hourly' }],
+    ['80,000 - 120,000', { min: 80000, max: 120000, currency: null, period: 'annually' }],
+  ])('reads %j', (text, expected) => {
+    expect(parseSalaryRange(text)).toEqual(expected);
+  });
+
+  it('returns null without figures', () => {
+    expect(parseSalaryRange('Negotiable')).toBeNull();
+    expect(parseSalaryRange(null)).toBeNull();
+  });
+});
+
+describe('recommendJobs salary fit', () => {
+  it('scores an expectation in the job\'s currency', () => {
+    expect(salaryReason('80,000 - 120,000 EUR').matched).toBe(true);
+  });
+
+  it('takes an expectation without a currency to be in the job\'s', () => {
+    const withCurrency = salaryReason('80,000 - 120,000 EUR');
+    const withoutCurrency = salaryReason('80,000 - 120,000');
+    expect(withoutCurrency).toEqual(withCurrency);
+    expect(withoutCurrency.matched).toBe(true);
+  });
+
+  it('counts against a job that pays less than an expectation without a currency', () => {
+    const unscored = salaryReason(null);
+    const tooLow = salaryReason('150,000', { salary_max: 100000 });
+    expect(tooLow.matched).toBe(false);
+    expect(tooLow.score).toBeLessThan(unscored.score);
+  });
+
+  it('leaves out an expectation in another currency', () => {
+    expect(salaryReason('80,000 - 120,000 GBP')).toEqual(salaryReason(null));
+  });
+});
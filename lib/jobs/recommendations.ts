@@ -0,0 +1,260 @@
+import { getSkillKey } from "@/lib/applications/matching";
+import { formatSalaryRange } from "@/lib/jobs/format";
+import type {
+  Company,
+  JobFeedback,
+  JobOpeningEnhanced,
+  UserProfileEnhanced,
+} from "@/lib/types/enhanced-database";
+
+export type RecommendableJob = Pick<
+  JobOpeningEnhanced,
+  | 'id'
+  | 'required_skills'
+  | 'preferred_skills'
+  | 'work_arrangement'
+  | 'location'
+  | 'employment_type'
+  | 'salary_min'
+  | 'salary_max'
+  | 'salary_currency'
+  | 'salary_period'
+  | 'min_years_experience'
+> & { company?: Pick<Company, 'industry'> | null };
+
+export type RecommendationProfile = Pick<
+  UserProfileEnhanced,
+  'skills' | 'years_experience' | 'work_preferences' | 'expected_salary_range'
+>;
+
+export interface JobRecommendation<T extends RecommendableJob> {
+  job: T
+  // 0-100, higher is a better fit
+  score: number
+  reasons: string[]
+}
+
+// Points for each part of the fit; they add up to 100 at most
+const SKILL_POINTS = 40;
+const ARRANGEMENT_POINTS = 15;
+const LOCATION_POINTS = 15;
+const SCHEDULE_POINTS = 10;
+const INDUSTRY_POINTS = 10;
+const SALARY_POINTS = 10;
+const FEEDBACK_POINTS = 10;
+
+// How alike two jobs must be for saving or dismissing one to affect the other
+const SIMILAR_JOB_THRESHOLD = 0.3;
+
+export const MAX_RECOMMENDATIONS = 10;
+
+type SalaryPeriod = JobOpeningEnhanced['salary_period'];
+
+// Salaries are compared per year, assuming full-time hours
+const PERIODS_PER_YEAR: Record<SalaryPeriod, number> = {
+  hourly: 2080,
+  monthly: 12,
+  annually: 1,
+};
+
+const CURRENCY_SYMBOLS: Record<string, string> = {
+  '$': 'USD',
+  '€': 'EUR',
+  '£': 'GBP',
+};
+
+const normalize = (text: string) => text.trim().toLowerCase();
+
+export interface SalaryExpectation {
+  min: number
+  max: number | null
+  // ISO code, or null when the text names no currency
+  currency: string | null
+  period: SalaryPeriod
+}
+
+function parseSalaryCurrency(text: string): string | null {
+  const code = text.match(/\b[A-Z]{3}\b/)?.[0];
+  if (code) return code;
+  const symbol = Object.keys(CURRENCY_SYMBOLS).find((candidate) => text.includes(candidate));
+  return symbol ? CURRENCY_SYMBOLS[symbol] : null;
+}
+
+function parseSalaryPeriod(text: string): SalaryPeriod {
+  if (/\bhourly\b|(?:\/|\bper\b|\ban?\b)\s*(?:hour|hr|h)\b/i.test(text)) return 'hourly';
+  if (/\bmonthly\b|(?:\/|\bper\b|\ba\b)\s*(?:month|mo)\b/i.test(text)) return 'monthly';
+  return 'annually';
+}
+
+/**
+ * Read a free-text salary expectation such as "80,000 - 120,000 EUR",
+ * "$60k+" or "$45/hour". Without a stated period the figures are taken to
+ * be per year. Returns null if it has no figures.
+ */
+export function parseSalaryRange(text: string | null): SalaryExpectation | null {
+  if (!text) return null;
+
+  const values = Array.from(text.matchAll(/(\d[\d,]*(?:\.\d+)?)\s*([km])?\b/gi))
+    .map(([, digits, suffix]) => {
+      const value = Number(digits.replace(/,/g, ''));
+      const multiplier = suffix?.toLowerCase() === 'k' ? 1000 : suffix?.toLowerCase() === 'm' ? 1000000 : 1;
+      return value * multiplier;
+    })
+    .filter((value) => value > 0);
+
+  if (values.length === 0) return null;
+  return {
+    min: Math.min(...values),
+    max: values.length > 1 ? Math.max(...values) : null,
+    currency: parseSalaryCurrency(text),
+    period: parseSalaryPeriod(text),
+  };
+}
+
+const jobSkillKeys = (job: RecommendableJob) =>
+  new Set([...(job.required_skills ?? []), ...(job.preferred_skills ?? [])].map(getSkillKey));
+
+// Share of skills two jobs have in common, with a same-industry bonus
+function jobSimilarity(a: RecommendableJob, b: RecommendableJob): number {
+  const skillsA = jobSkillKeys(a);
+  const skillsB = jobSkillKeys(b);
+  const shared = Array.from(skillsA).filter((skill) => skillsB.has(skill)).length;
+  const union = new Set([...Array.from(skillsA), ...Array.from(skillsB)]).size;
+  const skillSimilarity = union > 0 ? shared / union : 0;
+
+  const sameIndustry = !!a.company?.industry
+    && normalize(a.company.industry) === normalize(b.company?.industry ?? '');
+  return Math.min(1, skillSimilarity + (sameIndustry ? 0.2 : 0) + (a.employment_type === b.employment_type ? 0.1 : 0));
+}
+
+const SCHEDULE_MATCHES: Record<string, JobOpeningEnhanced['employment_type'][]> = {
+  full_time: ['full_time'],
+  part_time: ['part_time', 'freelance', 'contract'],
+  flexible: ['part_time', 'freelance', 'contract'],
+};
+
+/**
+ * Score one job against the candidate's skills and work preferences,
+ * with a reason for each part that fits.
+ */
+function scoreJob<T extends RecommendableJob>(
+  job: T,
+  profile: RecommendationProfile,
+  savedJobs: RecommendableJob[],
+  dismissedJobs: RecommendableJob[]
+): JobRecommendation<T> {
+  const preferences = profile.work_preferences;
+  const reasons: string[] = [];
+  let score = 0;
+
+  // Skills, with preferred skills counting half
+  const candidateSkills = new Set((profile.skills ?? []).map(getSkillKey));
+  const required = job.required_skills ?? [];
+  const preferred = job.preferred_skills ?? [];
+  const matched = [...required, ...preferred].filter((skill) => candidateSkills.has(getSkillKey(skill)));
+  const possible = required.length + preferred.length * 0.5;
+  if (possible > 0 && matched.length > 0) {
+    const earned = matched.reduce((total, skill) => total + (required.includes(skill) ? 1 : 0.5), 0);
+    score += SKILL_POINTS * (earned / possible);
+    const names = matched.slice(0, 3).join(', ') + (matched.length > 3 ? ` and ${matched.length - 3} more` : '');
+    reasons.push(`Uses your skills: ${names}`);
+  }
+
+  if (preferences?.remote_work) {
+    if (job.work_arrangement === 'remote') {
+      score += ARRANGEMENT_POINTS;
+      reasons.push('Fully remote');
+    } else if (job.work_arrangement === 'hybrid') {
+      score += ARRANGEMENT_POINTS / 2;
+      reasons.push('Hybrid, partly remote');
+    }
+  }
+
+  const location = job.location ? normalize(job.location) : null;
+  const preferredLocation = location
+    ? preferences?.preferred_locations?.find((place) => place.trim() && location.includes(normalize(place)))
+    : undefined;
+  if (preferredLocation) {
+    score += LOCATION_POINTS;
+    reasons.push(`In ${preferredLocation}, one of your preferred locations`);
+  }
+
+  if (preferences?.work_schedule && SCHEDULE_MATCHES[preferences.work_schedule]?.includes(job.employment_type)) {
+    score += SCHEDULE_POINTS;
+    reasons.push(preferences.work_schedule === 'full_time' ? 'Full-time, as you prefer' : 'Fits a flexible or part-time schedule');
+  }
+
+  const industry = job.company?.industry;
+  if (industry && preferences?.industry_preferences?.some((preference) => normalize(preference) === normalize(industry))) {
+    score += INDUSTRY_POINTS;
+    reasons.push(`In ${industry}, an industry you are interested in`);
+  }
+
+  // Only compared when the expectation is in the job's currency; there is no
+  // exchange rate to convert with. An expectation that names no currency is
+  // taken to be in the job's.
+  const expected = parseSalaryRange(profile.expected_salary_range);
+  const topOfRange = job.salary_max ?? job.salary_min;
+  const jobCurrency = (job.salary_currency || 'USD').toUpperCase();
+  if (expected && (expected.currency ?? jobCurrency) === jobCurrency && topOfRange != null) {
+    const yearlyTop = topOfRange * PERIODS_PER_YEAR[job.salary_period];
+    const yearlyExpected = expected.min * PERIODS_PER_YEAR[expected.period];
+    if (yearlyTop >= yearlyExpected) {
+      score += SALARY_POINTS;
+      reasons.push(`Salary ${formatSalaryRange(job)}, in line with your expectations`);
+    } else {
+      score -= SALARY_POINTS;
+    }
+  }
+
+  // Asking for much more experience than the candidate has
+  if (job.min_years_experience > (profile.years_experience ?? 0) + 2) {
+    score -= SKILL_POINTS / 4;
+  }
+
+  // Learn from what the candidate has saved and dismissed before
+  const closestSaved = Math.max(0, ...savedJobs.map((saved) => jobSimilarity(job, saved)));
+  if (closestSaved >= SIMILAR_JOB_THRESHOLD) {
+    score += FEEDBACK_POINTS * closestSaved;
+    reasons.push('Similar to jobs you saved');
+  }
+  const closestDismissed = Math.max(0, ...dismissedJobs.map((dismissed) => jobSimilarity(job, dismissed)));
+  if (closestDismissed >= SIMILAR_JOB_THRESHOLD) {
+    score -= FEEDBACK_POINTS * closestDismissed;
+  }
+
+  return { job, score: Math.max(0, Math.min(100, Math.round(score))), reasons };
+}
+
+/**
+ * Rank open jobs by how well they fit the candidate. Jobs they have
+ * applied to or dismissed are left out, as are jobs with nothing in their
+ * favour.
+ */
+export function recommendJobs<T extends RecommendableJob>(
+  jobs: T[],
+  profile: RecommendationProfile,
+  feedback: JobFeedback[],
+  appliedJobIds: string[],
+  limit: number = MAX_RECOMMENDATIONS
+): JobRecommendation<T>[] {
+  const jobMap = new Map<string, RecommendableJob>(jobs.map((job) => [job.id, job]));
+  const feedbackJobs = (type: JobFeedback['feedback']) => feedback
+    .filter((entry) => entry.feedback === type)
+    .map((entry) => jobMap.get(entry.job_opening_id))
+    .filter((job): job is RecommendableJob => !!job);
+
+  const savedJobs = feedbackJobs('saved');
+  const dismissedJobs = feedbackJobs('dismissed');
+  const excluded = new Set([
+    ...appliedJobIds,
+    ...feedback.filter((entry) => entry.feedback === 'dismissed').map((entry) => entry.job_opening_id),
+  ]);
+
+  return jobs
+    .filter((job) => !excluded.has(job.id))
+    .map((job) => scoreJob(job, profile, savedJobs.filter((saved) => saved.id !== job.id), dismissedJobs))
+    .filter((recommendation) => recommendation.score > 0 && recommendation.reasons.length > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
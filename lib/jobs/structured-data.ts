@@ -0,0 +1,90 @@
+import type { Company, EmploymentType, JobOpeningEnhanced } from "@/lib/types/enhanced-database";
+
+// schema.org employmentType values
+const SCHEMA_EMPLOYMENT_TYPES: Record<EmploymentType, string> = {
+  full_time: 'FULL_TIME',
+  part_time: 'PART_TIME',
+  contract: 'CONTRACTOR',
+  internship: 'INTERN',
+  freelance: 'CONTRACTOR',
+};
+
+const SCHEMA_SALARY_UNITS: Record<JobOpeningEnhanced['salary_period'], string> = {
+  hourly: 'HOUR',
+  monthly: 'MONTH',
+  annually: 'YEAR',
+};
+
+/**
+ * schema.org JobPosting for a posting's public page, in the shape search
+ * engines read for job listings.
+ */
+export function buildJobPostingSchema(
+  job: JobOpeningEnhanced,
+  company: Pick<Company, 'name' | 'website' | 'logo_url'> | null,
+  url: string
+): Record<string, unknown> {
+  const description = [job.description, job.responsibilities, job.requirements]
+    .filter((section): section is string => !!section)
+    .join('\n\n');
+
+  const hasSalary = job.salary_min !== null || job.salary_max !== null;
+
+  return {
+    '@context': 'https://schema.org/',
+    '@type': 'JobPosting',
+    title: job.title,
+    description,
+    url,
+    identifier: {
+      '@type': 'PropertyValue',
+      name: company?.name ?? 'Uwezo Career Platform',
+      value: job.id,
+    },
+    datePosted: job.published_at ?? job.created_at,
+    ...(job.application_deadline ? { validThrough: job.application_deadline } : {}),
+    employmentType: SCHEMA_EMPLOYMENT_TYPES[job.employment_type],
+    ...(company ? {
+      hiringOrganization: {
+        '@type': 'Organization',
+        name: company.name,
+        ...(company.website ? { sameAs: company.website } : {}),
+        ...(company.logo_url ? { logo: company.logo_url } : {}),
+      },
+    } : {}),
+    ...(job.location ? {
+      jobLocation: {
+        '@type': 'Place',
+        address: { '@type': 'PostalAddress', addressLocality: job.location },
+      },
+    } : {}),
+    ...(job.work_arrangement === 'remote' ? { jobLocationType: 'TELECOMMUTE' } : {}),
+    ...(hasSalary ? {
+      baseSalary: {
+        '@type': 'MonetaryAmount',
+        currency: job.salary_currency,
+        value: {
+          '@type': 'QuantitativeValue',
+          ...(job.salary_min !== null ? { minValue: job.salary_min } : {}),
+          ...(job.salary_max !== null ? { maxValue: job.salary_max } : {}),
+          unitText: SCHEMA_SALARY_UNITS[job.salary_period],
+        },
+      },
+    } : {}),
+    ...(job.required_skills?.length ? { skills: job.required_skills.join(', ') } : {}),
+    ...(job.min_years_experience > 0 ? {
+      experienceRequirements: {
+        '@type': 'OccupationalExperienceRequirements',
+        monthsOfExperience: job.min_years_experience * 12,
+      },
+    } : {}),
+    directApply: true,
+  };
+}
+
+/**
+ * JSON for an inline script tag. "<" is escaped so text in the posting
+ * cannot close the tag.
+ */
+export const serializeJsonLd = (data: Record<string, unknown>) =>
+  JSON.stringify(data).replace(/</g, '\\u003c');
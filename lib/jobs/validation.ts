@@ -0,0 +1,75 @@
+import { z } from "zod";
+import { ScreeningQuestionSchema } from "@/lib/applications/screening";
+
+export const EMPLOYMENT_TYPES = ['full_time', 'part_time', 'contract', 'internship', 'freelance'] as const;
+export const WORK_ARRANGEMENTS = ['onsite', 'hybrid', 'remote'] as const;
+export const SENIORITY_LEVELS = ['entry', 'junior', 'mid', 'senior', 'lead', 'director'] as const;
+export const SALARY_PERIODS = ['hourly', 'monthly', 'annually'] as const;
+export const JOB_VISIBILITIES = ['public', 'private', 'internal'] as const;
+
+const skillList = z.array(z.string().trim().min(1)).max(30, { message: "List at most 30 skills." });
+
+const JobPostingFields = z.object({
+  company_id: z.string().min(1, { message: "Please select a company." }),
+  title: z.string().trim().min(3, { message: "Job title must be at least 3 characters." }),
+  description: z.string().trim().min(20, { message: "Description must be at least 20 characters." }),
+  responsibilities: z.string().trim().nullable(),
+  requirements: z.string().trim().nullable(),
+  employment_type: z.enum(EMPLOYMENT_TYPES, { message: "Please select an employment type." }),
+  work_arrangement: z.enum(WORK_ARRANGEMENTS),
+  seniority_level: z.enum(SENIORITY_LEVELS).nullable(),
+  location: z.string().trim().nullable(),
+  salary_min: z.number().int().nonnegative({ message: "Salary cannot be negative." }).nullable(),
+  salary_max: z.number().int().nonnegative({ message: "Salary cannot be negative." }).nullable(),
+  salary_currency: z.string().trim().length(3, { message: "Use a 3-letter currency code, e.g. USD." }),
+  salary_period: z.enum(SALARY_PERIODS),
+  positions_available: z.number().int().min(1, { message: "At least one position is required." }),
+  application_deadline: z.string().nullable(),
+  required_skills: skillList,
+  preferred_skills: skillList,
+  min_years_experience: z.number().int().min(0).max(50, { message: "Use 50 years or fewer." }),
+  requires_cover_letter: z.boolean(),
+  requires_assessment: z.boolean(),
+  assessment_id: z.string().nullable(),
+  screening_questions: z.array(ScreeningQuestionSchema).max(20, { message: "Use at most 20 screening questions." }),
+  contract_template_id: z.string().nullable(),
+  contract_variables: z.record(z.string(), z.string().trim().max(500)),
+  visibility: z.enum(JOB_VISIBILITIES),
+});
+
+const salaryInRange = (values: { salary_min?: number | null; salary_max?: number | null }) =>
+  values.salary_min == null || values.salary_max == null || values.salary_min <= values.salary_max;
+
+const SALARY_RANGE_ISSUE = {
+  message: "Minimum salary cannot be greater than maximum salary.",
+  path: ['salary_max'],
+};
+
+// Everything a posting needs before it can be published
+export const JobPostingSchema = JobPostingFields
+  .refine(salaryInRange, SALARY_RANGE_ISSUE)
+  .refine((values) => !values.requires_assessment || !!values.assessment_id, {
+    message: "Choose the assessment candidates should take.",
+    path: ['assessment_id'],
+  });
+
+// Drafts only need enough to be found again; the rest is checked on publish
+export const JobPostingDraftSchema = JobPostingFields
+  .partial()
+  .required({ company_id: true, title: true, employment_type: true })
+  .refine(salaryInRange, SALARY_RANGE_ISSUE);
+
+export type JobPostingValues = z.infer<typeof JobPostingSchema>;
+export type JobPostingDraftValues = z.infer<typeof JobPostingDraftSchema>;
+
+/**
+ * Flatten zod issues into a field -> first message map for inline form errors.
+ */
+export function getFieldErrors(error: z.ZodError): Record<string, string> {
+  const errors: Record<string, string> = {};
+  for (const issue of error.issues) {
+    const field = issue.path.join('.');
+    if (!errors[field]) errors[field] = issue.message;
+  }
+  return errors;
+}
@@ -0,0 +1,26 @@
+import { createClient as createSupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "@/lib/types/enhanced-database";
+import { createRepository } from "@/lib/supabase/repository";
+
+/**
+ * Service-role client for trusted server code such as assessment grading.
+ * It bypasses row level security, so only use it from route handlers,
+ * server components and scripts, after checking what the signed-in user is
+ * allowed to do.
+ */
+export function createAdminClient() {
+  return createSupabaseClient<Database>(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!,
+    {
+      auth: {
+        persistSession: false,
+        autoRefreshToken: false,
+      },
+    },
+  );
+}
+
+export function createAdminRepository() {
+  return createRepository(createAdminClient());
+}
@@ -1,5 +1,7 @@
 import { createBrowserClient } from "@supabase/ssr";
 import { Database, UserTaskMetadata, QuizAnswers, ChatMessageMetadata } from "@/lib/types/database";
+import type { Database as EnhancedDatabase } from "@/lib/types/enhanced-database";
+import { createRepository } from "@/lib/supabase/repository";
 
 export function createClient() {
   return createBrowserClient<Database>(
@@ -8,9 +10,20 @@ export function createClient() {
   );
 }
 
+// Client typed against the enhanced schema (companies, job_openings_enhanced, ...)
+export function createEnhancedClient() {
+  return createBrowserClient<EnhancedDatabase>(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_PUBLISHABLE_KEY!,
+  );
+}
+
 // Export a singleton instance for easier usage
 export const supabase = createClient();
 
+// Typed repository for the enhanced schema, see lib/supabase/repository.ts
+export const repo = createRepository(createEnhancedClient());
+
 // Helper functions for common operations
 export const db = {
   // Profile operations
@@ -51,7 +51,18 @@ export async function updateSession(request: NextRequest) {
     request.nextUrl.pathname !== "/" &&
     !user &&
     !request.nextUrl.pathname.startsWith("/login") &&
-    !request.nextUrl.pathname.startsWith("/auth")
+    !request.nextUrl.pathname.startsWith("/auth") &&
+    // The job board and posting pages are public
+    request.nextUrl.pathname !== "/jobs" &&
+    !request.nextUrl.pathname.startsWith("/jobs/") &&
+    // Called by the scheduler and from email links, which carry their own credentials
+    !request.nextUrl.pathname.startsWith("/api/cron/") &&
+    request.nextUrl.pathname !== "/api/job-alerts/unsubscribe" &&
+    // Interview booking links are authorised by their token
+    !request.nextUrl.pathname.startsWith("/interviews/") &&
+    !request.nextUrl.pathname.startsWith("/api/interviews/booking/") &&
+    // Anyone holding a signed contract can check it against our record
+    !/^\/api\/contract-signatures\/[^/]+\/verify$/.test(request.nextUrl.pathname)
   ) {
     // no user, potentially respond by redirecting the user to the login page
     const url = request.nextUrl.clone();
@@ -0,0 +1,1451 @@
+import type { RealtimePostgresChangesPayload, SupabaseClient } from "@supabase/supabase-js";
+import type {
+  Database,
+  CompanyInsert,
+  CompanyUpdate,
+  CompanyMemberInsert,
+  CompanyMemberUpdate,
+  CompanyRole,
+  JobOpeningEnhancedInsert,
+  JobOpeningEnhancedUpdate,
+  JobApplicationEnhancedInsert,
+  JobApplicationEnhancedUpdate,
+  SkillAssessmentInsert,
+  SkillAssessmentUpdate,
+  AssessmentAttemptInsert,
+  AssessmentAttemptUpdate,
+  AssessmentAttemptStatus,
+  RoleCriterionInsert,
+  JobFeedbackType,
+  SavedSearchInsert,
+  SavedSearchUpdate,
+  EmailOutboxInsert,
+  UserDocumentInsert,
+  UserDocumentUpdate,
+  InterviewInsert,
+  InterviewStatus,
+  InterviewUpdate,
+  ApplicationNoteInsert,
+  ContractSignatureInsert,
+  ContractSignatureUpdate,
+  ContractTemplateInsert,
+  ContractTemplateUpdate,
+  ScorecardTemplateInsert,
+  SignatureAssetInsert,
+  InterviewScorecardInsert,
+  InterviewScorecardUpdate,
+  ProjectProposalInsert,
+  ProjectProposalUpdate,
+  ClientContractInsert,
+  ClientContractUpdate,
+  UserProfileEnhancedUpdate,
+} from "@/lib/types/enhanced-database";
+import { JOB_BOARD_ENTRY_COLUMNS } from "@/lib/jobs/board";
+
+export type EnhancedSupabaseClient = SupabaseClient<Database>;
+
+// Roles allowed to run the hiring workflow for a company
+export const HIRING_ROLES: CompanyRole[] = ['owner', 'admin', 'hr_manager', 'recruiter'];
+
+// Interviews come with the slots on offer and the panel
+const INTERVIEW_COLUMNS = '*, slots:interview_slots(*), panelists:interview_panelists(*)';
+
+/**
+ * Typed data access for the enhanced schema. Works with both the browser
+ * client (lib/supabase/client.ts) and the server client (lib/supabase/server.ts).
+ */
+export function createRepository(supabase: EnhancedSupabaseClient) {
+  return {
+    profiles: {
+      async get(userId: string) {
+        const { data, error } = await supabase
+          .from('user_profiles_enhanced')
+          .select('*')
+          .eq('user_id', userId)
+          .maybeSingle();
+
+        if (error) throw error;
+        return data;
+      },
+
+      async listByUserIds(userIds: string[]) {
+        if (userIds.length === 0) return [];
+        const { data, error } = await supabase
+          .from('user_profiles_enhanced')
+          .select('*')
+          .in('user_id', userIds);
+
+        if (error) throw error;
+        return data;
+      },
+
+      async update(userId: string, updates: UserProfileEnhancedUpdate) {
+        const { data, error } = await supabase
+          .from('user_profiles_enhanced')
+          .update({ ...updates, updated_at: new Date().toISOString() })
+          .eq('user_id', userId)
+          .select()
+          .single();
+
+        if (error) throw error;
+        return data;
+      },
+    },
+
+    companies: {
+      // Companies the user is an active member of, with their role
+      async listForUser(userId: string) {
+        const { data, error } = await supabase
+          .from('company_members')
+          .select('role, permissions, company:companies(*)')
+          .eq('user_id', userId)
+          .eq('status', 'active');
+
+        if (error) throw error;
+        return data.flatMap(({ role, permissions, company }) => (company ? [{ ...company, role, permissions }] : []));
+      },
+
+      async get(companyId: string) {
+        const { data, error } = await supabase
+          .from('companies')
+          .select('*')
+          .eq('id', companyId)
+          .single();
+
+        if (error) throw error;
+        return data;
+      },
+
+      async create(company: CompanyInsert) {
+        const { data, error } = await supabase
+          .from('companies')
+          .insert(company)
+          .select()
+          .single();
+
+        if (error) throw error;
+        return data;
+      },
+
+      async update(companyId: string, updates: CompanyUpdate) {
+        const { data, error } = await supabase
+          .from('companies')
+          .update({ ...updates, updated_at: new Date().toISOString() })
+          .eq('id', companyId)
+          .select()
+          .single();
+
+        if (error) throw error;
+        return data;
+      },
+    },
+
+    companyMembers: {
+      async list(companyId: string) {
+        const { data, error } = await supabase
+          .from('company_members')
+          .select('*')
+          .eq('company_id', companyId)
+          .order('joined_at');
+
+        if (error) throw error;
+        return data;
+      },
+
+      async getMembership(companyId: string, userId: string) {
+        const { data, error } = await supabase
+          .from('company_members')
+          .select('*')
+          .eq('company_id', companyId)
+          .eq('user_id', userId)
+          .eq('status', 'active')
+          .maybeSingle();
+
+        if (error) throw error;
+        return data;
+      },
+
+      async add(member: CompanyMemberInsert) {
+        const { data, error } = await supabase
+          .from('company_members')
+          .insert(member)
+          .select()
+          .single();
+
+        if (error) throw error;
+        return data;
+      },
+
+      async update(memberId: string, updates: CompanyMemberUpdate) {
+        const { data, error } = await supabase
+          .from('company_members')
+          .update(updates)
+          .eq('id', memberId)
+          .select()
+          .single();
+
+        if (error) throw error;
+        return data;
+      },
+
+      async remove(memberId: string) {
+        const { error } = await supabase
+          .from('company_members')
+          .delete()
+          .eq('id', memberId);
+
+        if (error) throw error;
+      },
+    },
+
+    jobOpenings: {
+      async listForCompanies(companyIds: string[]) {
+        if (companyIds.length === 0) return [];
+        const { data, error } = await supabase
+          .from('job_openings_enhanced')
+          .select('*, company:companies(*)')
+          .in('company_id', companyIds)
+          .order('created_at', { ascending: false });
+
+        if (error) throw error;
+        return data;
+      },
+
+      // Open, publicly listed postings whose deadline has not passed
+      async listActive() {
+        const { data, error } = await supabase
+          .from('job_openings_enhanced')
+          .select('*, company:companies(*)')
+          .eq('status', 'active')
+          .eq('visibility', 'public')
+          .or(`application_deadline.is.null,application_deadline.gte.${new Date().toISOString()}`)
+          .order('published_at', { ascending: false, nullsFirst: false });
+
+        if (error) throw error;
+        return data;
+      },
+
+      /**
+       * Filter columns of every public posting matching a full-text search,
+       * featured first. The job board counts facets and pages over these.
+       */
+      async searchPublic(query: string, limit: number) {
+        let request = supabase
+          .from('job_openings_enhanced')
+          .select(JOB_BOARD_ENTRY_COLUMNS)
+          .eq('status', 'active')
+          .eq('visibility', 'public')
+          .or(`application_deadline.is.null,application_deadline.gte.${new Date().toISOString()}`);
+
+        if (query) {
+          request = request.textSearch('search_vector', query, { type: 'websearch', config: 'english' });
+        }
+
+        const { data, error } = await request
+          .order('is_featured', { ascending: false })
+          .order('published_at', { ascending: false, nullsFirst: false })
+          .limit(limit);
+
+        if (error) throw error;
+        return data;
+      },
+
+      async listByIds(jobIds: string[]) {
+        if (jobIds.length === 0) return [];
+        const { data, error } = await supabase
+          .from('job_openings_enhanced')
+          .select('*, company:companies(*)')
+          .in('id', jobIds);
+
+        if (error) throw error;
+        return data;
+      },
+
+      async getBySlug(slug: string) {
+        const { data, error } = await supabase
+          .from('job_openings_enhanced')
+          .select('*, company:companies(*)')
+          .eq('slug', slug)
+          .maybeSingle();
+
+        if (error) throw error;
+        return data;
+      },
+
+      async get(jobId: string) {
+        const { data, error } = await supabase
+          .from('job_openings_enhanced')
+          .select('*, company:companies(*)')
+          .eq('id', jobId)
+          .maybeSingle();
+
+        if (error) throw error;
+        return data;
+      },
+
+      async create(job: JobOpeningEnhancedInsert) {
+        const { data, error } = await supabase
+          .from('job_openings_enhanced')
+          .insert(job)
+          .select()
+          .single();
+
+        if (error) throw error;
+        return data;
+      },
+
+      async update(jobId: string, updates: JobOpeningEnhancedUpdate) {
+        const { data, error } = await supabase
+          .from('job_openings_enhanced')
+          .update({ ...updates, updated_at: new Date().toISOString() })
+          .eq('id', jobId)
+          .select()
+          .single();
+
+        if (error) throw error;
+        return data;
+      },
+    },
+
+    applications: {
+      async listForJobs(jobIds: string[]) {
+        if (jobIds.length === 0) return [];
+        const { data, error } = await supabase
+          .from('job_applications_enhanced')
+          .select('*')
+          .in('job_opening_id', jobIds)
+          .order('submitted_at', { ascending: false });
+
+        if (error) throw error;
+        return data;
+      },
+
+      async listForApplicant(userId: string) {
+        const { data, error } = await supabase
+          .from('job_applications_enhanced')
+          .select('*, job_opening:job_openings_enhanced(*, company:companies(*))')
+          .eq('applicant_id', userId)
+          .order('submitted_at', { ascending: false });
+
+        if (error) throw error;
+        return data;
+      },
+
+      async get(applicationId: string) {
+        const { data, error } = await supabase
+          .from('job_applications_enhanced')
+          .select('*')
+          .eq('id', applicationId)
+          .maybeSingle();
+
+        if (error) throw error;
+        return data;
+      },
+
+      async findForApplicant(jobId: string, userId: string) {
+        const { data, error } = await supabase
+          .from('job_applications_enhanced')
+          .select('*')
+          .eq('job_opening_id', jobId)
+          .eq('applicant_id', userId)
+          .maybeSingle();
+
+        if (error) throw error;
+        return data;
+      },
+
+      async create(application: JobApplicationEnhancedInsert) {
+        const { data, error } = await supabase
+          .from('job_applications_enhanced')
+          .insert(application)
+          .select()
+          .single();
+
+        if (error) throw error;
+        return data;
+      },
+
+      async update(applicationId: string, updates: JobApplicationEnhancedUpdate) {
+        const { data, error } = await supabase
+          .from('job_applications_enhanced')
+          .update({ ...updates, updated_at: new Date().toISOString() })
+          .eq('id', applicationId)
+          .select()
+          .single();
+
+        if (error) throw error;
+        return data;
+      },
+    },
+
+    assessments: {
+      async listForCompany(companyId: string) {
+        const { data, error } = await supabase
+          .from('skill_assessments')
+          .select('*')
+          .eq('company_id', companyId)
+          .order('created_at', { ascending: false });
+
+        if (error) throw error;
+        return data;
+      },
+
+      async listPublic() {
+        const { data, error } = await supabase
+          .from('skill_assessments')
+          .select('*')
+          .eq('is_public', true)
+          .is('archived_at', null)
+          .order('created_at', { ascending: false });
+
+        if (error) throw error;
+        return data;
+      },
+
+      async get(assessmentId: string) {
+        const { data, error } = await supabase
+          .from('skill_assessments')
+          .select('*')
+          .eq('id', assessmentId)
+          .maybeSingle();
+
+        if (error) throw error;
+        return data;
+      },
+
+      async create(assessment: SkillAssessmentInsert) {
+        const { data, error } = await supabase
+          .from('skill_assessments')
+          .insert(assessment)
+          .select()
+          .single();
+
+        if (error) throw error;
+        return data;
+      },
+
+      async update(assessmentId: string, updates: SkillAssessmentUpdate) {
+        const { data, error } = await supabase
+          .from('skill_assessments')
+          .update({ ...updates, updated_at: new Date().toISOString() })
+          .eq('id', assessmentId)
+          .select()
+          .single();
+
+        if (error) throw error;
+        return data;
+      },
+
+      async listVersions(assessmentId: string) {
+        const { data, error } = await supabase
+          .from('skill_assessment_versions')
+          .select('*')
+          .eq('assessment_id', assessmentId)
+          .order('version', { ascending: false });
+
+        if (error) throw error;
+        return data;
+      },
+
+      async getVersion(assessmentId: string, version: number) {
+        const { data, error } = await supabase
+          .from('skill_assessment_versions')
+          .select('*')
+          .eq('assessment_id', assessmentId)
+          .eq('version', version)
+          .maybeSingle();
+
+        if (error) throw error;
+        return data;
+      },
+    },
+
+    assessmentAttempts: {
+      async listForUser(userId: string, assessmentId?: string) {
+        let query = supabase
+          .from('assessment_attempts')
+          .select('*')
+          .eq('user_id', userId);
+
+        if (assessmentId) {
+          query = query.eq('assessment_id', assessmentId);
+        }
+
+        const { data, error } = await query.order('started_at', { ascending: false });
+
+        if (error) throw error;
+        return data;
+      },
+
+      async listForApplication(applicationId: string) {
+        const { data, error } = await supabase
+          .from('assessment_attempts')
+          .select('*')
+          .eq('job_application_id', applicationId)
+          .order('started_at', { ascending: false });
+
+        if (error) throw error;
+        return data;
+      },
+
+      async get(attemptId: string) {
+        const { data, error } = await supabase
+          .from('assessment_attempts')
+          .select('*')
+          .eq('id', attemptId)
+          .maybeSingle();
+
+        if (error) throw error;
+        return data;
+      },
+
+      async create(attempt: AssessmentAttemptInsert) {
+        const { data, error } = await supabase
+          .from('assessment_attempts')
+          .insert(attempt)
+          .select()
+          .single();
+
+        if (error) throw error;
+        return data;
+      },
+
+      // Scores of an assessment's attempts in the given statuses, for its statistics
+      async listScores(assessmentId: string, statuses: AssessmentAttemptStatus[]) {
+        const { data, error } = await supabase
+          .from('assessment_attempts')
+          .select('score')
+          .eq('assessment_id', assessmentId)
+          .in('status', statuses);
+
+        if (error) throw error;
+        return data.map((row) => row.score);
+      },
+
+      async update(attemptId: string, updates: AssessmentAttemptUpdate) {
+        const { data, error } = await supabase
+          .from('assessment_attempts')
+          .update(updates)
+          .eq('id', attemptId)
+          .select()
+          .single();
+
+        if (error) throw error;
+        return data;
+      },
+    },
+
+    roleCriteria: {
+      async listForJobs(jobIds: string[]) {
+        if (jobIds.length === 0) return [];
+        const { data, error } = await supabase
+          .from('role_criteria')
+          .select('*')
+          .in('job_opening_id', jobIds)
+          .order('created_at', { ascending: true });
+
+        if (error) throw error;
+        return data;
+      },
+
+      // Criteria are edited as a whole with the posting, so replace the set
+      async replaceForJob(jobId: string, criteria: Omit<RoleCriterionInsert, 'job_opening_id'>[]) {
+        const { error: deleteError } = await supabase
+          .from('role_criteria')
+          .delete()
+          .eq('job_opening_id', jobId);
+
+        if (deleteError) throw deleteError;
+        if (criteria.length === 0) return [];
+
+        const { data, error } = await supabase
+          .from('role_criteria')
+          .insert(criteria.map((criterion) => ({ ...criterion, job_opening_id: jobId })))
+          .select();
+
+        if (error) throw error;
+        return data;
+      },
+    },
+
+    jobFeedback: {
+      async listForUser(userId: string) {
+        const { data, error } = await supabase
+          .from('job_feedback')
+          .select('*')
+          .eq('user_id', userId);
+
+        if (error) throw error;
+        return data;
+      },
+
+      // Saving a dismissed job (or the reverse) replaces the earlier feedback
+      async set(userId: string, jobId: string, feedback: JobFeedbackType) {
+        const { data, error } = await supabase
+          .from('job_feedback')
+          .upsert(
+            { user_id: userId, job_opening_id: jobId, feedback },
+            { onConflict: 'user_id,job_opening_id' }
+          )
+          .select()
+          .single();
+
+        if (error) throw error;
+        return data;
+      },
+
+      async remove(userId: string, jobId: string) {
+        const { error } = await supabase
+          .from('job_feedback')
+          .delete()
+          .eq('user_id', userId)
+          .eq('job_opening_id', jobId);
+
+        if (error) throw error;
+      },
+    },
+
+    savedSearches: {
+      async listForUser(userId: string) {
+        const { data, error } = await supabase
+          .from('saved_searches')
+          .select('*')
+          .eq('user_id', userId)
+          .order('created_at', { ascending: false });
+
+        if (error) throw error;
+        return data;
+      },
+
+      // Every search with alerts switched on, for the digest job
+      async listWithAlerts() {
+        const { data, error } = await supabase
+          .from('saved_searches')
+          .select('*')
+          .eq('alerts_enabled', true);
+
+        if (error) throw error;
+        return data;
+      },
+
+      async getByUnsubscribeToken(token: string) {
+        const { data, error } = await supabase
+          .from('saved_searches')
+          .select('*')
+          .eq('unsubscribe_token', token)
+          .maybeSingle();
+
+        if (error) throw error;
+        return data;
+      },
+
+      async create(search: SavedSearchInsert) {
+        const { data, error } = await supabase
+          .from('saved_searches')
+          .insert(search)
+          .select()
+          .single();
+
+        if (error) throw error;
+        return data;
+      },
+
+      async update(searchId: string, updates: SavedSearchUpdate) {
+        const { data, error } = await supabase
+          .from('saved_searches')
+          .update({ ...updates, updated_at: new Date().toISOString() })
+          .eq('id', searchId)
+          .select()
+          .single();
+
+        if (error) throw error;
+        return data;
+      },
+
+      async markChecked(searchIds: string[], checkedAt: string) {
+        if (searchIds.length === 0) return;
+        const { error } = await supabase
+          .from('saved_searches')
+          .update({ last_checked_at: checkedAt })
+          .in('id', searchIds);
+
+        if (error) throw error;
+      },
+
+      async remove(searchId: string) {
+        const { error } = await supabase
+          .from('saved_searches')
+          .delete()
+          .eq('id', searchId);
+
+        if (error) throw error;
+      },
+    },
+
+    emailOutbox: {
+      async enqueue(message: EmailOutboxInsert) {
+        const { data, error } = await supabase
+          .from('email_outbox')
+          .insert(message)
+          .select()
+          .single();
+
+        if (error) throw error;
+        return data;
+      },
+
+      // Newest first; users see only their own log
+      async listForUser(userId: string, limit: number) {
+        const { data, error } = await supabase
+          .from('email_outbox')
+          .select('id, category, template, subject, status, created_at, sent_at')
+          .eq('user_id', userId)
+          .order('created_at', { ascending: false })
+          .limit(limit);
+
+        if (error) throw error;
+        return data;
+      },
+
+      // Whether this template was already logged for the record, whatever its status
+      async hasLogged(template: string, relatedId: string, userId: string) {
+        const { count, error } = await supabase
+          .from('email_outbox')
+          .select('id', { count: 'exact', head: true })
+          .eq('template', template)
+          .eq('related_id', relatedId)
+          .eq('user_id', userId);
+
+        if (error) throw error;
+        return (count ?? 0) > 0;
+      },
+
+      // Oldest first, skipping messages that have failed too often
+      async listPending(limit: number, maxAttempts: number) {
+        const { data, error } = await supabase
+          .from('email_outbox')
+          .select('*')
+          .eq('status', 'pending')
+          .lt('attempts', maxAttempts)
+          .order('created_at', { ascending: true })
+          .limit(limit);
+
+        if (error) throw error;
+        return data;
+      },
+
+      async markSent(messageId: string, attempts: number) {
+        const { error } = await supabase
+          .from('email_outbox')
+          .update({ status: 'sent', attempts, last_error: null, sent_at: new Date().toISOString() })
+          .eq('id', messageId);
+
+        if (error) throw error;
+      },
+
+      // Stays pending for another try until the attempts run out
+      async markFailed(messageId: string, attempts: number, lastError: string, giveUp: boolean) {
+        const { error } = await supabase
+          .from('email_outbox')
+          .update({ status: giveUp ? 'failed' : 'pending', attempts, last_error: lastError })
+          .eq('id', messageId);
+
+        if (error) throw error;
+      },
+    },
+
+    interviews: {
+      async listForApplications(applicationIds: string[]) {
+        if (applicationIds.length === 0) return [];
+        const { data, error } = await supabase
+          .from('interviews')
+          .select(INTERVIEW_COLUMNS)
+          .in('application_id', applicationIds)
+          .order('created_at', { ascending: false });
+
+        if (error) throw error;
+        return data;
+      },
+
+      async get(interviewId: string) {
+        const { data, error } = await supabase
+          .from('interviews')
+          .select(INTERVIEW_COLUMNS)
+          .eq('id', interviewId)
+          .maybeSingle();
+
+        if (error) throw error;
+        return data;
+      },
+
+      async getByBookingToken(token: string) {
+        const { data, error } = await supabase
+          .from('interviews')
+          .select(INTERVIEW_COLUMNS)
+          .eq('booking_token', token)
+          .maybeSingle();
+
+        if (error) throw error;
+        return data;
+      },
+
+      async create(interview: InterviewInsert) {
+        const { data, error } = await supabase
+          .from('interviews')
+          .insert(interview)
+          .select()
+          .single();
+
+        if (error) throw error;
+        return data;
+      },
+
+      // Only applies while the interview is still in the expected status, so
+      // two people acting at once cannot both win; null if it had moved on
+      async update(interviewId: string, expectedStatus: InterviewStatus, updates: InterviewUpdate) {
+        const { data, error } = await supabase
+          .from('interviews')
+          .update({ ...updates, updated_at: new Date().toISOString() })
+          .eq('id', interviewId)
+          .eq('status', expectedStatus)
+          .select()
+          .maybeSingle();
+
+        if (error) throw error;
+        return data;
+      },
+
+      // Scheduled interviews starting before the cutoff that have not been reminded
+      async listDueReminders(startsBefore: string) {
+        const { data, error } = await supabase
+          .from('interviews')
+          .select(INTERVIEW_COLUMNS)
+          .eq('status', 'scheduled')
+          .is('reminder_sent_at', null)
+          .gt('starts_at', new Date().toISOString())
+          .lte('starts_at', startsBefore);
+
+        if (error) throw error;
+        return data;
+      },
+
+      async markReminded(interviewIds: string[]) {
+        if (interviewIds.length === 0) return;
+        const { error } = await supabase
+          .from('interviews')
+          .update({ reminder_sent_at: new Date().toISOString() })
+          .in('id', interviewIds);
+
+        if (error) throw error;
+      },
+    },
+
+    interviewSlots: {
+      // Replaces every slot the interview offers
+      async replace(interviewId: string, slots: { starts_at: string; ends_at: string }[]) {
+        const { error: deleteError } = await supabase
+          .from('interview_slots')
+          .delete()
+          .eq('interview_id', interviewId);
+
+        if (deleteError) throw deleteError;
+        if (slots.length === 0) return [];
+
+        const { data, error } = await supabase
+          .from('interview_slots')
+          .insert(slots.map((slot) => ({ ...slot, interview_id: interviewId })))
+          .select();
+
+        if (error) throw error;
+        return data;
+      },
+    },
+
+    interviewPanelists: {
+      async replace(interviewId: string, userIds: string[]) {
+        const { error: deleteError } = await supabase
+          .from('interview_panelists')
+          .delete()
+          .eq('interview_id', interviewId);
+
+        if (deleteError) throw deleteError;
+        if (userIds.length === 0) return [];
+
+        const { data, error } = await supabase
+          .from('interview_panelists')
+          .insert(userIds.map((userId) => ({ interview_id: interviewId, user_id: userId })))
+          .select();
+
+        if (error) throw error;
+        return data;
+      },
+    },
+
+    scorecardTemplates: {
+      async getForJob(jobId: string) {
+        const { data, error } = await supabase
+          .from('scorecard_templates')
+          .select('*')
+          .eq('job_opening_id', jobId)
+          .maybeSingle();
+
+        if (error) throw error;
+        return data;
+      },
+
+      // A job has at most one template, so saving replaces it
+      async save(template: ScorecardTemplateInsert) {
+        const { data, error } = await supabase
+          .from('scorecard_templates')
+          .upsert({ ...template, updated_at: new Date().toISOString() }, { onConflict: 'job_opening_id' })
+          .select()
+          .single();
+
+        if (error) throw error;
+        return data;
+      },
+    },
+
+    interviewScorecards: {
+      // Under RLS, others' scorecards are left out until the viewer may see them
+      async listForApplication(applicationId: string) {
+        const { data, error } = await supabase
+          .from('interview_scorecards')
+          .select('*')
+          .eq('application_id', applicationId)
+          .order('submitted_at', { ascending: true });
+
+        if (error) throw error;
+        return data;
+      },
+
+      async getForInterviewer(applicationId: string, interviewerId: string) {
+        const { data, error } = await supabase
+          .from('interview_scorecards')
+          .select('*')
+          .eq('application_id', applicationId)
+          .eq('interviewer_id', interviewerId)
+          .maybeSingle();
+
+        if (error) throw error;
+        return data;
+      },
+
+      async create(scorecard: InterviewScorecardInsert) {
+        const { data, error } = await supabase
+          .from('interview_scorecards')
+          .insert(scorecard)
+          .select()
+          .single();
+
+        if (error) throw error;
+        return data;
+      },
+
+      // Submitted scorecards are final, so only drafts are updated; null otherwise
+      async updateDraft(scorecardId: string, updates: InterviewScorecardUpdate) {
+        const { data, error } = await supabase
+          .from('interview_scorecards')
+          .update({ ...updates, updated_at: new Date().toISOString() })
+          .eq('id', scorecardId)
+          .eq('status', 'draft')
+          .select()
+          .maybeSingle();
+
+        if (error) throw error;
+        return data;
+      },
+    },
+
+    notifications: {
+      async listForUser(userId: string, limit: number) {
+        const { data, error } = await supabase
+          .from('notifications')
+          .select('*')
+          .eq('user_id', userId)
+          .order('created_at', { ascending: false })
+          .limit(limit);
+
+        if (error) throw error;
+        return data;
+      },
+
+      async countUnread(userId: string) {
+        const { count, error } = await supabase
+          .from('notifications')
+          .select('id', { count: 'exact', head: true })
+          .eq('user_id', userId)
+          .eq('is_read', false);
+
+        if (error) throw error;
+        return count ?? 0;
+      },
+
+      async markRead(notificationIds: string[]) {
+        if (notificationIds.length === 0) return;
+        const { error } = await supabase
+          .from('notifications')
+          .update({ is_read: true })
+          .in('id', notificationIds);
+
+        if (error) throw error;
+      },
+
+      async markAllRead(userId: string) {
+        const { error } = await supabase
+          .from('notifications')
+          .update({ is_read: true })
+          .eq('user_id', userId)
+          .eq('is_read', false);
+
+        if (error) throw error;
+      },
+
+      async remove(notificationId: string) {
+        const { error } = await supabase
+          .from('notifications')
+          .delete()
+          .eq('id', notificationId);
+
+        if (error) throw error;
+      },
+
+      /**
+       * Listen for the user's notifications being added, read or deleted.
+       * Returns a function that stops listening.
+       */
+      subscribe(
+        userId: string,
+        onChange: (payload: RealtimePostgresChangesPayload<Database['public']['Tables']['notifications']['Row']>) => void
+      ) {
+        const channel = supabase
+          .channel(`notifications:${userId}:${crypto.randomUUID()}`)
+          .on(
+            'postgres_changes',
+            { event: '*', schema: 'public', table: 'notifications', filter: `user_id=eq.${userId}` },
+            onChange
+          )
+          .subscribe();
+
+        return () => {
+          supabase.removeChannel(channel);
+        };
+      },
+    },
+
+    documents: {
+      async listForUser(userId: string) {
+        const { data, error } = await supabase
+          .from('documents')
+          .select('*')
+          .eq('user_id', userId)
+          .order('created_at', { ascending: false });
+
+        if (error) throw error;
+        return data;
+      },
+
+      async listByIds(documentIds: string[]) {
+        if (documentIds.length === 0) return [];
+        const { data, error } = await supabase
+          .from('documents')
+          .select('*')
+          .in('id', documentIds);
+
+        if (error) throw error;
+        return data;
+      },
+
+      async get(documentId: string) {
+        const { data, error } = await supabase
+          .from('documents')
+          .select('*')
+          .eq('id', documentId)
+          .maybeSingle();
+
+        if (error) throw error;
+        return data;
+      },
+
+      async create(document: UserDocumentInsert) {
+        const { data, error } = await supabase
+          .from('documents')
+          .insert(document)
+          .select()
+          .single();
+
+        if (error) throw error;
+        return data;
+      },
+
+      async update(documentId: string, updates: UserDocumentUpdate) {
+        const { data, error } = await supabase
+          .from('documents')
+          .update({ ...updates, updated_at: new Date().toISOString() })
+          .eq('id', documentId)
+          .select()
+          .single();
+
+        if (error) throw error;
+        return data;
+      },
+    },
+
+    applicationNotes: {
+      async listForApplication(applicationId: string) {
+        const { data, error } = await supabase
+          .from('application_notes')
+          .select('*')
+          .eq('application_id', applicationId)
+          .order('created_at', { ascending: true });
+
+        if (error) throw error;
+        return data;
+      },
+
+      async create(note: ApplicationNoteInsert) {
+        const { data, error } = await supabase
+          .from('application_notes')
+          .insert(note)
+          .select()
+          .single();
+
+        if (error) throw error;
+        return data;
+      },
+
+      async delete(noteId: string) {
+        const { error } = await supabase
+          .from('application_notes')
+          .delete()
+          .eq('id', noteId);
+
+        if (error) throw error;
+      },
+    },
+
+    contractTemplates: {
+      async listForCompany(companyId: string) {
+        const { data, error } = await supabase
+          .from('contract_templates')
+          .select('*')
+          .eq('company_id', companyId)
+          .order('name', { ascending: true });
+
+        if (error) throw error;
+        return data;
+      },
+
+      async get(templateId: string) {
+        const { data, error } = await supabase
+          .from('contract_templates')
+          .select('*')
+          .eq('id', templateId)
+          .maybeSingle();
+
+        if (error) throw error;
+        return data;
+      },
+
+      async create(template: ContractTemplateInsert) {
+        const { data, error } = await supabase
+          .from('contract_templates')
+          .insert(template)
+          .select()
+          .single();
+
+        if (error) throw error;
+        return data;
+      },
+
+      async update(templateId: string, updates: ContractTemplateUpdate) {
+        const { data, error } = await supabase
+          .from('contract_templates')
+          .update({ ...updates, updated_at: new Date().toISOString() })
+          .eq('id', templateId)
+          .select()
+          .single();
+
+        if (error) throw error;
+        return data;
+      },
+    },
+
+    // Written with the service role only; the database sets document_hash,
+    // status and updated_at
+    contractSignatures: {
+      async get(signatureId: string) {
+        const { data, error } = await supabase
+          .from('contract_signatures')
+          .select('*')
+          .eq('id', signatureId)
+          .maybeSingle();
+
+        if (error) throw error;
+        return data;
+      },
+
+      async listForEmployee(userId: string) {
+        const { data, error } = await supabase
+          .from('contract_signatures')
+          .select('*')
+          .eq('employee_id', userId)
+          .order('created_at', { ascending: false });
+
+        if (error) throw error;
+        return data;
+      },
+
+      // Contracts tied to an application; older rows signed before the
+      // application existed have none and stay out of the queue
+      async listForCompany(companyId: string) {
+        const { data, error } = await supabase
+          .from('contract_signatures')
+          .select('*')
+          .eq('company_id', companyId)
+          .not('application_id', 'is', null)
+          .order('updated_at', { ascending: false });
+
+        if (error) throw error;
+        return data;
+      },
+
+      // Still open for signing but past their deadline
+      async listOverdue(now: string) {
+        const { data, error } = await supabase
+          .from('contract_signatures')
+          .select('*')
+          .in('status', ['pending', 'partially_signed'])
+          .lte('expires_at', now);
+
+        if (error) throw error;
+        return data;
+      },
+
+      async listForApplication(applicationId: string) {
+        const { data, error } = await supabase
+          .from('contract_signatures')
+          .select('*')
+          .eq('application_id', applicationId)
+          .order('created_at', { ascending: false });
+
+        if (error) throw error;
+        return data;
+      },
+
+      async create(signature: ContractSignatureInsert) {
+        const { data, error } = await supabase
+          .from('contract_signatures')
+          .insert(signature)
+          .select()
+          .single();
+
+        if (error) throw error;
+        return data;
+      },
+
+      async update(signatureId: string, updates: ContractSignatureUpdate) {
+        const { data, error } = await supabase
+          .from('contract_signatures')
+          .update(updates)
+          .eq('id', signatureId)
+          .select()
+          .single();
+
+        if (error) throw error;
+        return data;
+      },
+
+      // Record where the signed PDF is stored and its hash, unless it
+      // already has been. Returns null when another request got there first.
+      async setSignedDocument(signatureId: string, path: string, hash: string) {
+        const { data, error } = await supabase
+          .from('contract_signatures')
+          .update({ signed_document_url: path, signed_document_hash: hash })
+          .eq('id', signatureId)
+          .is('signed_document_url', null)
+          .select()
+          .maybeSingle();
+
+        if (error) throw error;
+        return data;
+      },
+    },
+
+    signatureAssets: {
+      async listForUser(userId: string) {
+        const { data, error } = await supabase
+          .from('signature_assets')
+          .select('*')
+          .eq('user_id', userId)
+          .order('last_used_at', { ascending: false, nullsFirst: false })
+          .order('created_at', { ascending: false });
+
+        if (error) throw error;
+        return data;
+      },
+
+      async create(asset: SignatureAssetInsert) {
+        const { data, error } = await supabase
+          .from('signature_assets')
+          .insert(asset)
+          .select()
+          .single();
+
+        if (error) throw error;
+        return data;
+      },
+
+      // Returns null when the signature is not the user's (or was deleted)
+      async markUsed(assetId: string, userId: string) {
+        const { data, error } = await supabase
+          .from('signature_assets')
+          .update({ last_used_at: new Date().toISOString() })
+          .eq('id', assetId)
+          .eq('user_id', userId)
+          .select()
+          .maybeSingle();
+
+        if (error) throw error;
+        return data;
+      },
+
+      async remove(assetId: string) {
+        const { error } = await supabase
+          .from('signature_assets')
+          .delete()
+          .eq('id', assetId);
+
+        if (error) throw error;
+      },
+    },
+
+    videoIntroductions: {
+      async getLatestForUser(userId: string) {
+        const { data, error } = await supabase
+          .from('video_introductions')
+          .select('*')
+          .eq('user_id', userId)
+          .order('created_at', { ascending: false })
+          .limit(1)
+          .maybeSingle();
+
+        if (error) throw error;
+        return data;
+      },
+    },
+
+    quizAttempts: {
+      // The onboarding aptitude quiz's most recent finished attempt
+      async getLatestCompletedForUser(userId: string) {
+        const { data, error } = await supabase
+          .from('quiz_attempts')
+          .select('*')
+          .eq('user_id', userId)
+          .not('completed_at', 'is', null)
+          .order('completed_at', { ascending: false })
+          .limit(1)
+          .maybeSingle();
+
+        if (error) throw error;
+        return data;
+      },
+    },
+
+    proposals: {
+      async listForUser(userId: string) {
+        const { data, error } = await supabase
+          .from('project_proposals')
+          .select('*')
+          .or(`contractor_id.eq.${userId},client_id.eq.${userId}`)
+          .order('created_at', { ascending: false });
+
+        if (error) throw error;
+        return data;
+      },
+
+      async get(proposalId: string) {
+        const { data, error } = await supabase
+          .from('project_proposals')
+          .select('*')
+          .eq('id', proposalId)
+          .maybeSingle();
+
+        if (error) throw error;
+        return data;
+      },
+
+      async create(proposal: ProjectProposalInsert) {
+        const { data, error } = await supabase
+          .from('project_proposals')
+          .insert(proposal)
+          .select()
+          .single();
+
+        if (error) throw error;
+        return data;
+      },
+
+      async update(proposalId: string, updates: ProjectProposalUpdate) {
+        const { data, error } = await supabase
+          .from('project_proposals')
+          .update({ ...updates, updated_at: new Date().toISOString() })
+          .eq('id', proposalId)
+          .select()
+          .single();
+
+        if (error) throw error;
+        return data;
+      },
+    },
+
+    contracts: {
+      async listForUser(userId: string) {
+        const { data, error } = await supabase
+          .from('client_contracts')
+          .select('*')
+          .or(`contractor_id.eq.${userId},client_id.eq.${userId}`)
+          .order('created_at', { ascending: false });
+
+        if (error) throw error;
+        return data;
+      },
+
+      async get(contractId: string) {
+        const { data, error } = await supabase
+          .from('client_contracts')
+          .select('*')
+          .eq('id', contractId)
+          .maybeSingle();
+
+        if (error) throw error;
+        return data;
+      },
+
+      async create(contract: ClientContractInsert) {
+        const { data, error } = await supabase
+          .from('client_contracts')
+          .insert(contract)
+          .select()
+          .single();
+
+        if (error) throw error;
+        return data;
+      },
+
+      async update(contractId: string, updates: ClientContractUpdate) {
+        const { data, error } = await supabase
+          .from('client_contracts')
+          .update({ ...updates, updated_at: new Date().toISOString() })
+          .eq('id', contractId)
+          .select()
+          .single();
+
+        if (error) throw error;
+        return data;
+      },
+    },
+  };
+}
+
+export type Repository = ReturnType<typeof createRepository>;
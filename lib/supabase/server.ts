@@ -1,5 +1,7 @@
 import { createServerClient } from "@supabase/ssr";
 import { cookies } from "next/headers";
+import type { Database } from "@/lib/types/enhanced-database";
+import { createRepository } from "@/lib/supabase/repository";
 
 /**
  * Especially important if using Fluid compute: Don't put this client in a
@@ -9,7 +11,7 @@ import { cookies } from "next/headers";
 export async function createClient() {
   const cookieStore = await cookies();
 
-  return createServerClient(
+  return createServerClient<Database>(
     process.env.NEXT_PUBLIC_SUPABASE_URL!,
     process.env.NEXT_PUBLIC_SUPABASE_PUBLISHABLE_KEY!,
     {
@@ -32,3 +34,10 @@ export async function createClient() {
     },
   );
 }
+
+/**
+ * Typed repository for the enhanced schema bound to the request's session.
+ */
+export async function createServerRepository() {
+  return createRepository(await createClient());
+}
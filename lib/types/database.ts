@@ -14,12 +14,35 @@ export interface UserTaskMetadata {
   [key: string]: unknown
 }
 
+export type DocumentType = 'cv' | 'nda' | 'contract' | 'general'
+
+export interface CvEducationEntry {
+  qualification: string
+  institution?: string
+  year?: number
+}
+
+export interface CvContactDetails {
+  name?: string
+  email?: string
+  phone?: string
+  linkedin_url?: string
+  github_url?: string
+}
+
 // Document analysis result interface
 export interface DocumentAnalysisResult {
   extracted_text?: string
   document_type_detected?: string
+  // 0-1: how sure the analysis is of the document type and its findings
   confidence_score?: number
   validation_errors?: string[]
+  analyzed_at?: string
+  // Findings for CVs
+  skills?: string[]
+  years_experience?: number | null
+  education?: CvEducationEntry[]
+  contact?: CvContactDetails
   [key: string]: unknown
 }
 
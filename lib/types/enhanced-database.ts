@@ -1,6 +1,8 @@
 // Enhanced TypeScript types for Uwezo Career Platform
 // Generated from the enhanced database schema
 
+import type { DocumentAnalysisResult, DocumentType } from "@/lib/types/database"
+
 // Specific type definitions to avoid 'any'
 export interface WorkPreferences {
   remote_work: boolean
@@ -30,6 +32,8 @@ export interface CompanyPermissionSet {
   can_manage_company_settings: boolean
   can_view_analytics: boolean
   can_manage_billing: boolean
+  can_manage_assessments: boolean
+  can_sign_contracts: boolean
 }
 
 export interface ScreeningQuestion {
@@ -40,6 +44,13 @@ export interface ScreeningQuestion {
   options?: string[]
   max_length?: number
   placeholder?: string
+  knockout?: ScreeningKnockoutRule
+}
+
+// Answers outside the rule reject the application automatically on submit
+export interface ScreeningKnockoutRule {
+  accepted_answers?: Array<string | boolean>
+  min_rating?: number
 }
 
 export interface ScreeningAnswer {
@@ -56,6 +67,17 @@ export interface ApplicationStageHistory {
   previous_stage?: string
 }
 
+export type CodingLanguage = 'javascript' | 'typescript'
+
+export interface CodingTestCase {
+  id: string
+  // Passed to the candidate's code as the `input` string
+  input: string
+  expected_output: string
+  // Hidden cases are used for grading but never sent to the candidate
+  hidden: boolean
+}
+
 export interface AssessmentQuestion {
   id: string
   question: string
@@ -65,14 +87,28 @@ export interface AssessmentQuestion {
   correct_answer?: string | number | boolean
   code_template?: string
   expected_output?: string
+  language?: CodingLanguage
+  test_cases?: CodingTestCase[]
   time_limit_seconds?: number
 }
 
+export interface CodingTestResult {
+  test_case_id: string
+  hidden: boolean
+  passed: boolean
+  status: 'passed' | 'failed' | 'error' | 'timeout' | 'memory_limit'
+  // Not recorded for hidden cases
+  actual_output?: string
+  error?: string
+  duration_ms: number
+}
+
 export interface AssessmentAnswer {
   question_id: string
   answer: string | number | boolean
   submitted_code?: string
   execution_result?: string
+  test_results?: CodingTestResult[]
   time_taken_seconds: number
 }
 
@@ -96,54 +132,221 @@ export interface PortfolioItem {
   completion_date?: string
 }
 
+// supabase-js requires table shapes to be plain object types; interfaces are
+// not assignable to its Record<string, unknown> constraint, so map them.
+type TableShape<T> = { [K in keyof T]: T[K] }
+
+interface TableDefinition<Row, Insert, Update, Relationships extends ForeignKeyRelationship[] = []> {
+  Row: TableShape<Row>
+  Insert: TableShape<Insert>
+  Update: TableShape<Update>
+  Relationships: Relationships
+}
+
+interface ForeignKeyRelationship {
+  foreignKeyName: string
+  columns: string[]
+  isOneToOne?: boolean
+  referencedRelation: string
+  referencedColumns: string[]
+}
+
 export interface Database {
   public: {
     Tables: {
-      user_profiles_enhanced: {
-        Row: UserProfileEnhanced
-        Insert: UserProfileEnhancedInsert
-        Update: UserProfileEnhancedUpdate
-      }
-      companies: {
-        Row: Company
-        Insert: CompanyInsert
-        Update: CompanyUpdate
-      }
-      company_members: {
-        Row: CompanyMember
-        Insert: CompanyMemberInsert
-        Update: CompanyMemberUpdate
-      }
-      job_openings_enhanced: {
-        Row: JobOpeningEnhanced
-        Insert: JobOpeningEnhancedInsert
-        Update: JobOpeningEnhancedUpdate
-      }
-      job_applications_enhanced: {
-        Row: JobApplicationEnhanced
-        Insert: JobApplicationEnhancedInsert
-        Update: JobApplicationEnhancedUpdate
-      }
-      skill_assessments: {
-        Row: SkillAssessment
-        Insert: SkillAssessmentInsert
-        Update: SkillAssessmentUpdate
-      }
-      assessment_attempts: {
-        Row: AssessmentAttempt
-        Insert: AssessmentAttemptInsert
-        Update: AssessmentAttemptUpdate
-      }
-      project_proposals: {
-        Row: ProjectProposal
-        Insert: ProjectProposalInsert
-        Update: ProjectProposalUpdate
-      }
-      client_contracts: {
-        Row: ClientContract
-        Insert: ClientContractInsert
-        Update: ClientContractUpdate
-      }
+      user_profiles_enhanced: TableDefinition<UserProfileEnhanced, UserProfileEnhancedInsert, UserProfileEnhancedUpdate>
+      companies: TableDefinition<Company, CompanyInsert, CompanyUpdate>
+      company_members: TableDefinition<CompanyMember, CompanyMemberInsert, CompanyMemberUpdate, [
+        {
+          foreignKeyName: 'company_members_company_id_fkey'
+          columns: ['company_id']
+          isOneToOne: false
+          referencedRelation: 'companies'
+          referencedColumns: ['id']
+        }
+      ]>
+      job_openings_enhanced: TableDefinition<JobOpeningEnhanced, JobOpeningEnhancedInsert, JobOpeningEnhancedUpdate, [
+        {
+          foreignKeyName: 'job_openings_enhanced_company_id_fkey'
+          columns: ['company_id']
+          isOneToOne: false
+          referencedRelation: 'companies'
+          referencedColumns: ['id']
+        },
+        {
+          foreignKeyName: 'job_openings_enhanced_assessment_id_fkey'
+          columns: ['assessment_id']
+          isOneToOne: false
+          referencedRelation: 'skill_assessments'
+          referencedColumns: ['id']
+        },
+        {
+          foreignKeyName: 'job_openings_enhanced_contract_template_id_fkey'
+          columns: ['contract_template_id']
+          isOneToOne: false
+          referencedRelation: 'contract_templates'
+          referencedColumns: ['id']
+        }
+      ]>
+      job_applications_enhanced: TableDefinition<JobApplicationEnhanced, JobApplicationEnhancedInsert, JobApplicationEnhancedUpdate, [
+        {
+          foreignKeyName: 'job_applications_enhanced_job_opening_id_fkey'
+          columns: ['job_opening_id']
+          isOneToOne: false
+          referencedRelation: 'job_openings_enhanced'
+          referencedColumns: ['id']
+        }
+      ]>
+      skill_assessments: TableDefinition<SkillAssessment, SkillAssessmentInsert, SkillAssessmentUpdate, [
+        {
+          foreignKeyName: 'skill_assessments_company_id_fkey'
+          columns: ['company_id']
+          isOneToOne: false
+          referencedRelation: 'companies'
+          referencedColumns: ['id']
+        }
+      ]>
+      skill_assessment_versions: TableDefinition<SkillAssessmentVersion, never, never, [
+        {
+          foreignKeyName: 'skill_assessment_versions_assessment_id_fkey'
+          columns: ['assessment_id']
+          isOneToOne: false
+          referencedRelation: 'skill_assessments'
+          referencedColumns: ['id']
+        }
+      ]>
+      assessment_attempts: TableDefinition<AssessmentAttempt, AssessmentAttemptInsert, AssessmentAttemptUpdate, [
+        {
+          foreignKeyName: 'assessment_attempts_assessment_id_fkey'
+          columns: ['assessment_id']
+          isOneToOne: false
+          referencedRelation: 'skill_assessments'
+          referencedColumns: ['id']
+        },
+        {
+          foreignKeyName: 'assessment_attempts_job_application_id_fkey'
+          columns: ['job_application_id']
+          isOneToOne: false
+          referencedRelation: 'job_applications_enhanced'
+          referencedColumns: ['id']
+        }
+      ]>
+      role_criteria: TableDefinition<RoleCriterion, RoleCriterionInsert, never, [
+        {
+          foreignKeyName: 'role_criteria_job_opening_id_fkey'
+          columns: ['job_opening_id']
+          isOneToOne: false
+          referencedRelation: 'job_openings_enhanced'
+          referencedColumns: ['id']
+        }
+      ]>
+      job_feedback: TableDefinition<JobFeedback, JobFeedbackInsert, never, [
+        {
+          foreignKeyName: 'job_feedback_job_opening_id_fkey'
+          columns: ['job_opening_id']
+          isOneToOne: false
+          referencedRelation: 'job_openings_enhanced'
+          referencedColumns: ['id']
+        }
+      ]>
+      saved_searches: TableDefinition<SavedSearch, SavedSearchInsert, SavedSearchUpdate>
+      email_outbox: TableDefinition<EmailOutboxMessage, EmailOutboxInsert, EmailOutboxUpdate>
+      notifications: TableDefinition<AppNotification, never, AppNotificationUpdate>
+      interviews: TableDefinition<Interview, InterviewInsert, InterviewUpdate>
+      interview_slots: TableDefinition<InterviewSlot, InterviewSlotInsert, never, [
+        {
+          foreignKeyName: 'interview_slots_interview_id_fkey'
+          columns: ['interview_id']
+          isOneToOne: false
+          referencedRelation: 'interviews'
+          referencedColumns: ['id']
+        }
+      ]>
+      interview_panelists: TableDefinition<InterviewPanelist, InterviewPanelistInsert, never, [
+        {
+          foreignKeyName: 'interview_panelists_interview_id_fkey'
+          columns: ['interview_id']
+          isOneToOne: false
+          referencedRelation: 'interviews'
+          referencedColumns: ['id']
+        }
+      ]>
+      scorecard_templates: TableDefinition<ScorecardTemplate, ScorecardTemplateInsert, ScorecardTemplateUpdate, [
+        {
+          foreignKeyName: 'scorecard_templates_job_opening_id_fkey'
+          columns: ['job_opening_id']
+          isOneToOne: true
+          referencedRelation: 'job_openings_enhanced'
+          referencedColumns: ['id']
+        }
+      ]>
+      interview_scorecards: TableDefinition<InterviewScorecard, InterviewScorecardInsert, InterviewScorecardUpdate, [
+        {
+          foreignKeyName: 'interview_scorecards_application_id_fkey'
+          columns: ['application_id']
+          isOneToOne: false
+          referencedRelation: 'job_applications_enhanced'
+          referencedColumns: ['id']
+        }
+      ]>
+      application_notes: TableDefinition<ApplicationNote, ApplicationNoteInsert, never, [
+        {
+          foreignKeyName: 'application_notes_application_id_fkey'
+          columns: ['application_id']
+          isOneToOne: false
+          referencedRelation: 'job_applications_enhanced'
+          referencedColumns: ['id']
+        }
+      ]>
+      contract_templates: TableDefinition<ContractTemplate, ContractTemplateInsert, ContractTemplateUpdate, [
+        {
+          foreignKeyName: 'contract_templates_company_id_fkey'
+          columns: ['company_id']
+          isOneToOne: false
+          referencedRelation: 'companies'
+          referencedColumns: ['id']
+        }
+      ]>
+      contract_signatures: TableDefinition<ContractSignature, ContractSignatureInsert, ContractSignatureUpdate, [
+        {
+          foreignKeyName: 'contract_signatures_contract_template_id_fkey'
+          columns: ['contract_template_id']
+          isOneToOne: false
+          referencedRelation: 'contract_templates'
+          referencedColumns: ['id']
+        },
+        {
+          foreignKeyName: 'contract_signatures_application_id_fkey'
+          columns: ['application_id']
+          isOneToOne: false
+          referencedRelation: 'job_applications_enhanced'
+          referencedColumns: ['id']
+        },
+        {
+          foreignKeyName: 'contract_signatures_company_id_fkey'
+          columns: ['company_id']
+          isOneToOne: false
+          referencedRelation: 'companies'
+          referencedColumns: ['id']
+        }
+      ]>
+      signature_assets: TableDefinition<SignatureAsset, SignatureAssetInsert, SignatureAssetUpdate>
+      documents: TableDefinition<UserDocument, UserDocumentInsert, UserDocumentUpdate>
+      video_introductions: TableDefinition<VideoIntroduction, never, never>
+      quiz_attempts: TableDefinition<QuizAttempt, never, never>
+      project_proposals: TableDefinition<ProjectProposal, ProjectProposalInsert, ProjectProposalUpdate>
+      client_contracts: TableDefinition<ClientContract, ClientContractInsert, ClientContractUpdate, [
+        {
+          foreignKeyName: 'client_contracts_proposal_id_fkey'
+          columns: ['proposal_id']
+          isOneToOne: false
+          referencedRelation: 'project_proposals'
+          referencedColumns: ['id']
+        }
+      ]>
+    }
+    Views: {
+      [_ in never]: never
     }
     Functions: {
       get_user_companies: {
@@ -167,6 +370,9 @@ export interface Database {
   }
 }
 
+export type TableName = keyof Database['public']['Tables']
+export type TableRow<T extends TableName> = Database['public']['Tables'][T]['Row']
+
 // Core Types
 export type UserRole = 'employee' | 'employer' | 'independent'
 export type CompanyRole = 'owner' | 'admin' | 'hr_manager' | 'recruiter' | 'member'
@@ -307,12 +513,14 @@ export interface Company {
   status: 'active' | 'inactive' | 'suspended'
   jobs_posted_count: number
   total_hires: number
+  owner_id: string | null
   created_at: string
   updated_at: string
 }
 
 export interface CompanyInsert {
   name: string
+  owner_id?: string
   slug?: string
   description?: string
   industry?: string
@@ -395,7 +603,10 @@ export interface JobOpeningEnhanced {
   min_years_experience: number
   requires_cover_letter: boolean
   requires_assessment: boolean
+  assessment_id: string | null
   screening_questions: ScreeningQuestion[]
+  contract_template_id: string | null
+  contract_variables: Record<string, string>
   status: 'draft' | 'active' | 'paused' | 'closed'
   is_featured: boolean
   visibility: 'public' | 'private' | 'internal'
@@ -412,25 +623,28 @@ export interface JobOpeningEnhancedInsert {
   title: string
   slug?: string
   description: string
-  requirements?: string
-  responsibilities?: string
+  requirements?: string | null
+  responsibilities?: string | null
   employment_type: EmploymentType
   work_arrangement?: WorkArrangement
-  location?: string
-  seniority_level?: SeniorityLevel
-  salary_min?: number
-  salary_max?: number
+  location?: string | null
+  seniority_level?: SeniorityLevel | null
+  salary_min?: number | null
+  salary_max?: number | null
   salary_currency?: string
   salary_period?: 'hourly' | 'monthly' | 'annually'
   positions_available?: number
-  application_deadline?: string
-  application_link?: string
+  application_deadline?: string | null
+  application_link?: string | null
   required_skills?: string[]
   preferred_skills?: string[]
   min_years_experience?: number
   requires_cover_letter?: boolean
   requires_assessment?: boolean
+  assessment_id?: string | null
   screening_questions?: ScreeningQuestion[]
+  contract_template_id?: string | null
+  contract_variables?: Record<string, string>
   status?: 'draft' | 'active' | 'paused' | 'closed'
   is_featured?: boolean
   visibility?: 'public' | 'private' | 'internal'
@@ -440,32 +654,35 @@ export interface JobOpeningEnhancedUpdate {
   title?: string
   slug?: string
   description?: string
-  requirements?: string
-  responsibilities?: string
+  requirements?: string | null
+  responsibilities?: string | null
   employment_type?: EmploymentType
   work_arrangement?: WorkArrangement
-  location?: string
-  seniority_level?: SeniorityLevel
-  salary_min?: number
-  salary_max?: number
+  location?: string | null
+  seniority_level?: SeniorityLevel | null
+  salary_min?: number | null
+  salary_max?: number | null
   salary_currency?: string
   salary_period?: 'hourly' | 'monthly' | 'annually'
   positions_available?: number
-  application_deadline?: string
-  application_link?: string
+  application_deadline?: string | null
+  application_link?: string | null
   required_skills?: string[]
   preferred_skills?: string[]
   min_years_experience?: number
   requires_cover_letter?: boolean
   requires_assessment?: boolean
+  assessment_id?: string | null
   screening_questions?: ScreeningQuestion[]
+  contract_template_id?: string | null
+  contract_variables?: Record<string, string>
   status?: 'draft' | 'active' | 'paused' | 'closed'
   is_featured?: boolean
   visibility?: 'public' | 'private' | 'internal'
   views_count?: number
   applications_count?: number
   updated_at?: string
-  published_at?: string
+  published_at?: string | null
 }
 
 // Enhanced Job Application with Complete Workflow
@@ -511,14 +728,14 @@ export interface JobApplicationEnhancedUpdate {
   cover_letter?: string
   portfolio_url?: string
   screening_answers?: ScreeningAnswer[]
-  assessment_score?: number
+  assessment_score?: number | null
   assessment_completed_at?: string
   status?: ApplicationStatus
   current_stage?: string
   stage_history?: ApplicationStageHistory[]
-  overall_rating?: number
-  technical_rating?: number
-  communication_rating?: number
+  overall_rating?: number | null
+  technical_rating?: number | null
+  communication_rating?: number | null
   recruiter_notes?: string
   rejection_reason?: string
   viewed_at?: string
@@ -543,18 +760,21 @@ export interface SkillAssessment {
   company_id: string | null
   attempts_count: number
   average_score: number | null
+  // Bumped by the database whenever the content changes
+  version: number
+  archived_at: string | null
   created_at: string
   updated_at: string
 }
 
 export interface SkillAssessmentInsert {
   title: string
-  description?: string
+  description?: string | null
   assessment_type: AssessmentType
   questions: AssessmentQuestion[]
-  time_limit_minutes?: number
+  time_limit_minutes?: number | null
   passing_score?: number
-  difficulty_level?: 'beginner' | 'intermediate' | 'advanced'
+  difficulty_level?: 'beginner' | 'intermediate' | 'advanced' | null
   skills_tested?: string[]
   is_public?: boolean
   created_by?: string
@@ -563,19 +783,47 @@ export interface SkillAssessmentInsert {
 
 export interface SkillAssessmentUpdate {
   title?: string
-  description?: string
+  description?: string | null
+  assessment_type?: AssessmentType
   questions?: AssessmentQuestion[]
-  time_limit_minutes?: number
+  time_limit_minutes?: number | null
   passing_score?: number
-  difficulty_level?: 'beginner' | 'intermediate' | 'advanced'
+  difficulty_level?: 'beginner' | 'intermediate' | 'advanced' | null
   skills_tested?: string[]
   is_public?: boolean
   attempts_count?: number
   average_score?: number
+  archived_at?: string | null
   updated_at?: string
 }
 
+// Snapshot of an assessment's content, written on every change
+export interface SkillAssessmentVersion {
+  id: string
+  assessment_id: string
+  version: number
+  title: string
+  description: string | null
+  questions: AssessmentQuestion[]
+  time_limit_minutes: number | null
+  passing_score: number
+  created_by: string | null
+  created_at: string
+}
+
 // Assessment Attempts
+export type AssessmentAttemptStatus = 'in_progress' | 'completed' | 'abandoned' | 'flagged' | 'invalidated'
+
+export type IntegrityEventType = 'focus_lost' | 'copy' | 'paste' | 'fullscreen_exit' | 'fast_answer'
+
+export interface AssessmentIntegrityEvent {
+  type: IntegrityEventType
+  occurred_at: string
+  question_id?: string
+  // Seconds away for focus_lost, seconds spent for fast_answer, characters for copy/paste
+  value?: number
+}
+
 export interface AssessmentAttempt {
   id: string
   assessment_id: string
@@ -587,7 +835,15 @@ export interface AssessmentAttempt {
   started_at: string
   completed_at: string | null
   time_taken_minutes: number | null
-  status: 'in_progress' | 'completed' | 'abandoned'
+  status: AssessmentAttemptStatus
+  // Assessment version the attempt was started on
+  assessment_version: number | null
+  integrity_events: AssessmentIntegrityEvent[]
+  // 0-100, computed from the integrity log when the attempt is submitted
+  risk_score: number | null
+  reviewed_by: string | null
+  reviewed_at: string | null
+  review_notes: string | null
   created_at: string
 }
 
@@ -600,16 +856,638 @@ export interface AssessmentAttemptInsert {
   passed?: boolean
   completed_at?: string
   time_taken_minutes?: number
-  status?: 'in_progress' | 'completed' | 'abandoned'
+  status?: AssessmentAttemptStatus
 }
 
 export interface AssessmentAttemptUpdate {
+  job_application_id?: string
   answers?: AssessmentAnswer[]
   score?: number
   passed?: boolean
   completed_at?: string
   time_taken_minutes?: number
-  status?: 'in_progress' | 'completed' | 'abandoned'
+  status?: AssessmentAttemptStatus
+  integrity_events?: AssessmentIntegrityEvent[]
+  risk_score?: number | null
+  reviewed_by?: string | null
+  reviewed_at?: string | null
+  review_notes?: string | null
+}
+
+export type SkillLevel = 'beginner' | 'intermediate' | 'advanced' | 'expert'
+
+// Weighted skills a job is scored against (role_criteria table from the
+// base schema). Rows are replaced as a set whenever the posting is saved.
+export interface RoleCriterion {
+  id: string
+  job_opening_id: string
+  skill_name: string
+  skill_level: SkillLevel | null
+  is_required: boolean
+  weight: number
+  created_at: string
+}
+
+export interface RoleCriterionInsert {
+  job_opening_id: string
+  skill_name: string
+  skill_level?: SkillLevel | null
+  is_required?: boolean
+  weight?: number
+}
+
+export type JobFeedbackType = 'saved' | 'dismissed'
+
+// A candidate saving or dismissing a job; one row per user and job
+export interface JobFeedback {
+  id: string
+  user_id: string
+  job_opening_id: string
+  feedback: JobFeedbackType
+  created_at: string
+}
+
+export interface JobFeedbackInsert {
+  user_id: string
+  job_opening_id: string
+  feedback: JobFeedbackType
+}
+
+// A job board search as saved by a candidate; the same fields as the board's
+// URL parameters, without the page
+export interface JobSearchQuery {
+  q: string
+  employment_type: EmploymentType[]
+  work_arrangement: WorkArrangement[]
+  seniority_level: SeniorityLevel[]
+  location: string | null
+  salary_min: number | null
+  salary_max: number | null
+  currency: string | null
+}
+
+export type JobAlertFrequency = 'daily' | 'weekly'
+
+// Postings published after last_checked_at are sent in the next digest.
+// unsubscribe_token lets email links turn the alert off without signing in.
+export interface SavedSearch {
+  id: string
+  user_id: string
+  name: string
+  query: JobSearchQuery
+  frequency: JobAlertFrequency
+  alerts_enabled: boolean
+  last_checked_at: string | null
+  unsubscribe_token: string
+  created_at: string
+  updated_at: string
+}
+
+export interface SavedSearchInsert {
+  user_id: string
+  name: string
+  query: JobSearchQuery
+  frequency?: JobAlertFrequency
+  alerts_enabled?: boolean
+}
+
+export interface SavedSearchUpdate {
+  name?: string
+  frequency?: JobAlertFrequency
+  alerts_enabled?: boolean
+  last_checked_at?: string
+  updated_at?: string
+}
+
+// skipped: the recipient opted out, so it was logged but never sent
+export type EmailOutboxStatus = 'pending' | 'sent' | 'failed' | 'skipped'
+
+// The email send log: emails waiting to be sent, and a record of those that were
+export interface EmailOutboxMessage {
+  id: string
+  user_id: string | null
+  category: string
+  template: string | null
+  related_id: string | null
+  to_email: string
+  subject: string
+  text_body: string
+  html_body: string | null
+  headers: Record<string, string>
+  status: EmailOutboxStatus
+  attempts: number
+  last_error: string | null
+  created_at: string
+  sent_at: string | null
+}
+
+export interface EmailOutboxInsert {
+  user_id?: string | null
+  category: string
+  template?: string | null
+  related_id?: string | null
+  to_email: string
+  subject: string
+  text_body: string
+  html_body?: string | null
+  headers?: Record<string, string>
+  status?: EmailOutboxStatus
+}
+
+export interface EmailOutboxUpdate {
+  status?: EmailOutboxStatus
+  attempts?: number
+  last_error?: string | null
+  sent_at?: string | null
+}
+
+export type NotificationType =
+  | 'application_received'
+  | 'application_status_changed'
+  | 'interview_scheduled'
+  | 'contract_awaiting_signature'
+  | 'contract_signed'
+  | 'contract_voided'
+  | 'contract_expired'
+  | 'member_invited'
+  | 'note_mention'
+
+// In-app notifications (notifications table). Rows are written by database
+// triggers when the event happens; users only read, mark and delete them.
+export interface AppNotification {
+  id: string
+  user_id: string
+  type: NotificationType
+  title: string
+  message: string | null
+  related_id: string | null
+  link: string | null
+  is_read: boolean
+  created_at: string
+}
+
+export interface AppNotificationUpdate {
+  is_read?: boolean
+}
+
+export type InterviewStatus = 'proposed' | 'scheduled' | 'cancelled' | 'completed'
+
+// An interview for an application. While proposed, the candidate picks one
+// of its slots from the booking link; starts_at/ends_at are set once scheduled.
+export interface Interview {
+  id: string
+  application_id: string
+  company_id: string
+  title: string
+  duration_minutes: number
+  location: string | null
+  meeting_url: string | null
+  time_zone: string
+  candidate_time_zone: string | null
+  status: InterviewStatus
+  starts_at: string | null
+  ends_at: string | null
+  booking_token: string
+  sequence: number
+  cancelled_by: string | null
+  cancel_reason: string | null
+  reminder_sent_at: string | null
+  created_by: string | null
+  created_at: string
+  updated_at: string
+}
+
+export interface InterviewInsert {
+  application_id: string
+  company_id: string
+  title: string
+  duration_minutes: number
+  location?: string | null
+  meeting_url?: string | null
+  time_zone?: string
+  created_by?: string | null
+}
+
+export interface InterviewUpdate {
+  title?: string
+  duration_minutes?: number
+  location?: string | null
+  meeting_url?: string | null
+  time_zone?: string
+  candidate_time_zone?: string | null
+  status?: InterviewStatus
+  starts_at?: string | null
+  ends_at?: string | null
+  sequence?: number
+  cancelled_by?: string | null
+  cancel_reason?: string | null
+  reminder_sent_at?: string | null
+  updated_at?: string
+}
+
+export interface InterviewSlot {
+  id: string
+  interview_id: string
+  starts_at: string
+  ends_at: string
+}
+
+export interface InterviewSlotInsert {
+  interview_id: string
+  starts_at: string
+  ends_at: string
+}
+
+export interface InterviewPanelist {
+  id: string
+  interview_id: string
+  user_id: string
+  created_at: string
+}
+
+export interface InterviewPanelistInsert {
+  interview_id: string
+  user_id: string
+}
+
+export type ScorecardCategory = 'technical' | 'communication' | 'general'
+
+// A competency interviewers rate. The category decides which of the
+// application's ratings it counts towards; every competency counts overall.
+export interface ScorecardCompetency {
+  id: string
+  name: string
+  description?: string
+  category: ScorecardCategory
+  weight: number
+}
+
+// What interviewers rate for a job, one per job opening
+export interface ScorecardTemplate {
+  id: string
+  job_opening_id: string
+  rating_scale: number
+  competencies: ScorecardCompetency[]
+  created_by: string | null
+  created_at: string
+  updated_at: string
+}
+
+export interface ScorecardTemplateInsert {
+  job_opening_id: string
+  rating_scale?: number
+  competencies: ScorecardCompetency[]
+  created_by?: string | null
+}
+
+export interface ScorecardTemplateUpdate {
+  rating_scale?: number
+  competencies?: ScorecardCompetency[]
+  updated_at?: string
+}
+
+export type HiringRecommendation = 'strong_no' | 'no' | 'yes' | 'strong_yes'
+
+// One competency's score, with the competency copied from the template
+export interface ScorecardRating {
+  competency_id: string
+  name: string
+  category: ScorecardCategory
+  weight: number
+  score: number | null
+  note?: string
+}
+
+export type ScorecardStatus = 'draft' | 'submitted'
+
+// One interviewer's feedback on an application. Drafts are private to the
+// interviewer; submitted scorecards are rolled up into the application's ratings.
+export interface InterviewScorecard {
+  id: string
+  application_id: string
+  interview_id: string | null
+  interviewer_id: string
+  rating_scale: number
+  ratings: ScorecardRating[]
+  recommendation: HiringRecommendation | null
+  summary: string | null
+  status: ScorecardStatus
+  submitted_at: string | null
+  created_at: string
+  updated_at: string
+}
+
+export interface InterviewScorecardInsert {
+  application_id: string
+  interview_id?: string | null
+  interviewer_id: string
+  rating_scale: number
+  ratings: ScorecardRating[]
+  recommendation?: HiringRecommendation | null
+  summary?: string | null
+  status?: ScorecardStatus
+  submitted_at?: string | null
+}
+
+export interface InterviewScorecardUpdate {
+  interview_id?: string | null
+  rating_scale?: number
+  ratings?: ScorecardRating[]
+  recommendation?: HiringRecommendation | null
+  summary?: string | null
+  status?: ScorecardStatus
+  submitted_at?: string | null
+  updated_at?: string
+}
+
+// Uploaded documents (documents table from the base schema). Rows are
+// created by the uploader in the browser and analysed server-side; signed
+// contract PDFs are added by the server (lib/contracts/pdf.ts).
+export interface UserDocument {
+  id: string
+  user_id: string
+  filename: string
+  original_filename: string
+  file_path: string
+  file_size: number | null
+  mime_type: string | null
+  document_type: DocumentType | null
+  is_signed: boolean
+  signed_at: string | null
+  analysis_result: DocumentAnalysisResult | null
+  created_at: string
+  updated_at: string
+}
+
+export interface UserDocumentInsert {
+  user_id: string
+  filename: string
+  original_filename: string
+  file_path: string
+  file_size?: number | null
+  mime_type?: string | null
+  document_type?: DocumentType | null
+  is_signed?: boolean
+  signed_at?: string | null
+}
+
+export interface UserDocumentUpdate {
+  document_type?: DocumentType | null
+  analysis_result?: DocumentAnalysisResult | null
+  updated_at?: string
+}
+
+// A private hiring-team note on an application. Mentioned teammates are
+// notified by a database trigger.
+export interface ApplicationNote {
+  id: string
+  application_id: string
+  author_id: string
+  body: string
+  mentions: string[]
+  created_at: string
+  updated_at: string
+}
+
+export interface ApplicationNoteInsert {
+  application_id: string
+  author_id: string
+  body: string
+  mentions?: string[]
+}
+
+// Video introductions recorded during onboarding (base schema)
+export interface VideoIntroduction {
+  id: string
+  user_id: string
+  filename: string
+  file_path: string
+  duration_seconds: number | null
+  file_size: number | null
+  status: 'uploaded' | 'processing' | 'approved' | 'rejected'
+  feedback: string | null
+  created_at: string
+  updated_at: string
+}
+
+// Onboarding aptitude quiz attempts (base schema)
+export interface QuizAttempt {
+  id: string
+  user_id: string
+  quiz_id: string
+  answers: unknown
+  score: number | null
+  passed: boolean | null
+  started_at: string
+  completed_at: string | null
+  time_taken_minutes: number | null
+}
+
+export type ContractType =
+  | 'employment_full_time'
+  | 'employment_part_time'
+  | 'contractor_agreement'
+  | 'freelance_agreement'
+  | 'internship_agreement'
+  | 'nda'
+  | 'non_compete'
+  | 'offer_letter'
+  | 'promotion_letter'
+  | 'termination_letter'
+
+export type LegalReviewStatus = 'pending' | 'approved' | 'needs_revision' | 'rejected'
+
+// A company's contract text with {placeholders}. variables holds the
+// default value of each custom placeholder; required_fields lists the
+// placeholders that must be filled before the contract is issued.
+export interface ContractTemplate {
+  id: string
+  company_id: string
+  created_by: string | null
+  name: string
+  description: string | null
+  contract_type: ContractType
+  template_content: string
+  variables: Record<string, string>
+  required_fields: string[]
+  jurisdiction: string | null
+  applicable_law: string | null
+  legal_review_status: LegalReviewStatus
+  reviewed_by: string | null
+  reviewed_at: string | null
+  version: string
+  is_default: boolean
+  is_active: boolean
+  usage_count: number
+  created_at: string
+  updated_at: string
+}
+
+export interface ContractTemplateInsert {
+  company_id: string
+  created_by?: string
+  name: string
+  description?: string | null
+  contract_type: ContractType
+  template_content: string
+  variables?: Record<string, string>
+  required_fields?: string[]
+  jurisdiction?: string | null
+  applicable_law?: string | null
+  legal_review_status?: LegalReviewStatus
+  reviewed_by?: string | null
+  reviewed_at?: string | null
+  is_default?: boolean
+  is_active?: boolean
+}
+
+export interface ContractTemplateUpdate {
+  name?: string
+  description?: string | null
+  contract_type?: ContractType
+  template_content?: string
+  variables?: Record<string, string>
+  required_fields?: string[]
+  jurisdiction?: string | null
+  applicable_law?: string | null
+  legal_review_status?: LegalReviewStatus
+  reviewed_by?: string | null
+  reviewed_at?: string | null
+  is_default?: boolean
+  is_active?: boolean
+  updated_at?: string
+}
+
+export type ContractSignatureStatus = 'pending' | 'partially_signed' | 'fully_signed' | 'voided' | 'expired'
+
+export type ContractDocumentType = 'contract' | 'nda'
+
+// employee_first: the candidate signs, then the company countersigns.
+// employer_first: the company signs before the candidate can.
+export type SigningOrder = 'employee_first' | 'employer_first'
+
+export type SignatureMethod = 'typed' | 'drawn' | 'uploaded'
+
+// How one party signed: their name, the signature they adopted and the
+// statement they agreed to. Signatures from before signature images have
+// no image; their typed name is the signature.
+export interface SignatureData {
+  method: SignatureMethod
+  full_name: string
+  consent: string
+  signed_at: string
+  // JPEG data URL of the signature as drawn, typed or uploaded
+  image?: string | null
+  // The saved signature it came from, if any
+  asset_id?: string | null
+}
+
+// A signature someone saved to sign with again (signature_assets)
+export interface SignatureAsset {
+  id: string
+  user_id: string
+  method: SignatureMethod
+  image_data: string
+  created_at: string
+  last_used_at: string | null
+}
+
+export interface SignatureAssetInsert {
+  user_id: string
+  method: SignatureMethod
+  image_data: string
+}
+
+export interface SignatureAssetUpdate {
+  last_used_at?: string | null
+}
+
+export interface ContractAuditEvent {
+  event: 'issued' | 'employee_signed' | 'employer_signed' | 'voided' | 'expired'
+  actor_id: string | null
+  at: string
+  ip: string | null
+  user_agent: string | null
+  document_hash: string
+}
+
+// A signed (or to-be-signed) copy of a contract. The text is frozen once
+// anyone signs; document_hash is its SHA-256 and status is kept in step
+// with the signatures by the database.
+export interface ContractSignature {
+  id: string
+  contract_template_id: string | null
+  application_id: string | null
+  job_opening_id: string | null
+  company_id: string | null
+  employee_id: string | null
+  employer_representative_id: string | null
+  document_type: ContractDocumentType
+  title: string
+  final_contract_content: string
+  contract_variables: Record<string, string>
+  // Set by the database from final_contract_content on every write
+  document_hash: string
+  employee_signature_data: SignatureData | null
+  employer_signature_data: SignatureData | null
+  signed_via_ip: string | null
+  signed_via_user_agent: string | null
+  requires_countersignature: boolean
+  signing_order: SigningOrder
+  issued_by: string | null
+  status: ContractSignatureStatus
+  employee_signed_at: string | null
+  employer_signed_at: string | null
+  fully_executed_at: string | null
+  expires_at: string | null
+  voided_at: string | null
+  void_reason: string | null
+  // Storage path of the signed PDF in the documents bucket, once rendered
+  signed_document_url: string | null
+  // SHA-256 of that PDF, checked whenever it is served
+  signed_document_hash: string | null
+  audit_trail: ContractAuditEvent[]
+  created_at: string
+  updated_at: string
+}
+
+export interface ContractSignatureInsert {
+  contract_template_id?: string | null
+  application_id?: string | null
+  job_opening_id?: string | null
+  company_id?: string | null
+  employee_id: string
+  document_type?: ContractDocumentType
+  title: string
+  final_contract_content: string
+  contract_variables?: Record<string, string>
+  employee_signature_data?: SignatureData | null
+  signed_via_ip?: string | null
+  signed_via_user_agent?: string | null
+  requires_countersignature?: boolean
+  signing_order?: SigningOrder
+  issued_by?: string | null
+  employee_signed_at?: string | null
+  expires_at?: string | null
+  audit_trail?: ContractAuditEvent[]
+}
+
+export interface ContractSignatureUpdate {
+  application_id?: string | null
+  employee_signature_data?: SignatureData | null
+  employee_signed_at?: string | null
+  signed_via_ip?: string | null
+  signed_via_user_agent?: string | null
+  employer_representative_id?: string | null
+  employer_signature_data?: SignatureData | null
+  employer_signed_at?: string | null
+  status?: ContractSignatureStatus
+  expires_at?: string | null
+  voided_at?: string | null
+  void_reason?: string | null
+  signed_document_url?: string | null
+  signed_document_hash?: string | null
+  audit_trail?: ContractAuditEvent[]
 }
 
 // Independent Contractor Features
@@ -1,5 +1,6 @@
 import { clsx, type ClassValue } from "clsx";
 import { twMerge } from "tailwind-merge";
+import type { UserProfileEnhanced } from "@/lib/types/enhanced-database";
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
@@ -39,3 +40,8 @@ export function getAbsoluteUrl(path?: string): string {
   
   return serverUrl;
 }
+
+// The name to show for someone, if their profile has one
+export const getProfileName = (
+  profile: Pick<UserProfileEnhanced, 'display_name' | 'first_name' | 'last_name'> | null | undefined
+) => profile?.display_name || [profile?.first_name, profile?.last_name].filter(Boolean).join(' ') || null;
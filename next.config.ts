@@ -7,6 +7,10 @@ const nextConfig: NextConfig = {
   typescript: {
     ignoreBuildErrors: true,
   },
+  // The code runner (lib/assessments/code-runner.ts) loads TypeScript on
+  // demand to transpile answers; load it from node_modules rather than
+  // bundling the whole compiler into the routes that grade code.
+  serverExternalPackages: ['typescript'],
   // Custom webpack configuration to ignore specific directories
   webpack: (config) => {
     // Exclude specific directories from being processed as routes
@@ -0,0 +1,25 @@
+-- APPLICANT PIPELINE - STAGE TRACKING
+-- Run after MIGRATION_SCRIPT.sql in your Supabase SQL Editor
+
+-- ============================================================================
+-- STEP 1: ALLOW HIRING TEAM TO MOVE APPLICATIONS BETWEEN STAGES
+-- ============================================================================
+
+-- Recruiters can update applications for their company's jobs (status, stage_history)
+DROP POLICY IF EXISTS "Hiring team can update applications" ON job_applications_enhanced;
+CREATE POLICY "Hiring team can update applications" ON job_applications_enhanced FOR UPDATE USING (
+  job_opening_id IN (
+    SELECT jo.id FROM job_openings_enhanced jo
+    JOIN company_members cm ON jo.company_id = cm.company_id
+    WHERE cm.user_id = auth.uid()
+    AND cm.status = 'active'
+    AND cm.role IN ('owner', 'admin', 'hr_manager', 'recruiter')
+  )
+);
+
+-- ============================================================================
+-- STEP 2: INDEXES FOR THE PIPELINE BOARD
+-- ============================================================================
+
+CREATE INDEX IF NOT EXISTS idx_job_applications_enhanced_job_status
+  ON job_applications_enhanced(job_opening_id, status);
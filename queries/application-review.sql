@@ -0,0 +1,114 @@
+-- APPLICATION REVIEW
+-- Run after interview-scorecards.sql in your Supabase SQL Editor
+--
+-- Private notes the hiring team leaves on an application, shown on
+-- /protected/employer/applications/<id>. The candidate never sees them.
+-- Writing @Name in a note mentions a teammate: their user ID is stored in
+-- mentions and they get an in-app notification linking to the application.
+--
+-- The CV, video introduction and screening uploads live in private storage
+-- buckets; the review page gets short-lived signed links for them from
+-- app/api/applications/[id]/materials rather than through policies here.
+
+-- ============================================================================
+-- STEP 1: TEAM NOTES
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS application_notes (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  application_id UUID NOT NULL REFERENCES job_applications_enhanced(id) ON DELETE CASCADE,
+  author_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  body TEXT NOT NULL CHECK (char_length(body) BETWEEN 1 AND 5000),
+  mentions UUID[] NOT NULL DEFAULT '{}',
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_application_notes_application_id
+  ON application_notes(application_id, created_at);
+
+-- ============================================================================
+-- STEP 2: ONLY THE HIRING TEAM READS AND WRITES NOTES
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION can_view_application(application_uuid UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM job_applications_enhanced ja
+    JOIN job_openings_enhanced jo ON jo.id = ja.job_opening_id
+    WHERE ja.id = application_uuid
+      AND company_member_has_permission(jo.company_id, 'can_view_applications')
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+ALTER TABLE application_notes ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Hiring team can view application notes" ON application_notes;
+CREATE POLICY "Hiring team can view application notes" ON application_notes
+  FOR SELECT USING (can_view_application(application_id));
+
+DROP POLICY IF EXISTS "Hiring team can add application notes" ON application_notes;
+CREATE POLICY "Hiring team can add application notes" ON application_notes
+  FOR INSERT WITH CHECK (author_id = auth.uid() AND can_view_application(application_id));
+
+DROP POLICY IF EXISTS "Authors can delete their application notes" ON application_notes;
+CREATE POLICY "Authors can delete their application notes" ON application_notes
+  FOR DELETE USING (author_id = auth.uid());
+
+-- ============================================================================
+-- STEP 3: NOTIFY MENTIONED TEAMMATES
+-- ============================================================================
+
+-- Only active members of the hiring company who can view applications are
+-- notified, so a mention cannot be used to reach anyone else.
+CREATE OR REPLACE FUNCTION notify_application_note_mentions()
+RETURNS TRIGGER AS $$
+DECLARE
+  job_title TEXT;
+  job_company UUID;
+  author_name TEXT;
+  mentioned UUID;
+BEGIN
+  IF array_length(NEW.mentions, 1) IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT jo.title, jo.company_id INTO job_title, job_company
+  FROM job_applications_enhanced ja
+  JOIN job_openings_enhanced jo ON jo.id = ja.job_opening_id
+  WHERE ja.id = NEW.application_id;
+
+  SELECT NULLIF(TRIM(COALESCE(first_name, '') || ' ' || COALESCE(last_name, '')), '') INTO author_name
+  FROM user_profiles_enhanced WHERE user_id = NEW.author_id;
+
+  FOR mentioned IN SELECT DISTINCT unnest(NEW.mentions) LOOP
+    CONTINUE WHEN mentioned = NEW.author_id;
+    CONTINUE WHEN NOT EXISTS (
+      SELECT 1 FROM company_members cm
+      WHERE cm.company_id = job_company
+        AND cm.user_id = mentioned
+        AND cm.status = 'active'
+        AND COALESCE(
+          (cm.permissions ->> 'can_view_applications')::BOOLEAN,
+          cm.role IN ('owner', 'admin', 'hr_manager', 'recruiter')
+        )
+    );
+
+    PERFORM notify_user(
+      mentioned,
+      'note_mention',
+      COALESCE(author_name, 'A teammate') || ' mentioned you',
+      'In a note on an applicant for ' || COALESCE(job_title, 'a job') || ': ' || LEFT(NEW.body, 140),
+      NEW.application_id,
+      '/protected/employer/applications/' || NEW.application_id
+    );
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS trigger_notify_application_note_mentions ON application_notes;
+CREATE TRIGGER trigger_notify_application_note_mentions
+  AFTER INSERT ON application_notes
+  FOR EACH ROW EXECUTE FUNCTION notify_application_note_mentions();
@@ -0,0 +1,71 @@
+-- APPLICATION STATE MACHINE - DATABASE GUARD
+-- Run after application-pipeline.sql in your Supabase SQL Editor
+--
+-- Status changes go through POST /api/applications/[id]/status, which validates
+-- them with lib/applications/transitions.ts. This trigger mirrors the same table
+-- so a client writing to job_applications_enhanced directly cannot skip it.
+-- Keep both lists in sync.
+
+-- ============================================================================
+-- STEP 1: TRANSITION VALIDATION
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION enforce_application_status_transition()
+RETURNS TRIGGER AS $$
+DECLARE
+  allowed TEXT[];
+BEGIN
+  IF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  allowed := CASE OLD.status
+    WHEN 'submitted' THEN ARRAY['screening', 'assessment', 'interview', 'rejected', 'withdrawn']
+    WHEN 'screening' THEN ARRAY['assessment', 'interview', 'rejected', 'withdrawn']
+    WHEN 'assessment' THEN ARRAY['interview', 'rejected', 'withdrawn']
+    WHEN 'interview' THEN ARRAY['reference_check', 'offer_pending', 'rejected', 'withdrawn']
+    WHEN 'reference_check' THEN ARRAY['offer_pending', 'rejected', 'withdrawn']
+    WHEN 'offer_pending' THEN ARRAY['offer_extended', 'rejected', 'withdrawn']
+    WHEN 'offer_extended' THEN ARRAY['hired', 'rejected', 'withdrawn']
+    ELSE ARRAY[]::TEXT[]
+  END;
+
+  IF NOT (NEW.status = ANY(allowed)) THEN
+    RAISE EXCEPTION 'Illegal application status transition from % to %', OLD.status, NEW.status
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  -- Applicants may only withdraw; every other move is a hiring-team decision
+  IF auth.uid() = OLD.applicant_id AND NEW.status <> 'withdrawn' THEN
+    RAISE EXCEPTION 'Applicants can only withdraw their application'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF NEW.status = 'rejected' AND COALESCE(TRIM(NEW.rejection_reason), '') = '' THEN
+    RAISE EXCEPTION 'A rejection reason is required'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF NEW.status IN ('hired', 'rejected') AND NEW.decision_made_at IS NULL THEN
+    NEW.decision_made_at := NOW();
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_enforce_application_status_transition ON job_applications_enhanced;
+CREATE TRIGGER trigger_enforce_application_status_transition
+  BEFORE UPDATE OF status ON job_applications_enhanced
+  FOR EACH ROW EXECUTE FUNCTION enforce_application_status_transition();
+
+-- ============================================================================
+-- STEP 2: APPLICANTS DO NOT UPDATE THEIR APPLICATION DIRECTLY
+-- ============================================================================
+
+-- An UPDATE policy for applicants would cover every column: they could move
+-- the application to another job, point resume_url at someone else's
+-- document or write their own ratings. Withdrawing goes through the status
+-- route instead, which checks the move and writes it with the service role.
+-- Earlier versions of this script created the policy; drop it.
+DROP POLICY IF EXISTS "Applicants can update own applications" ON job_applications_enhanced;
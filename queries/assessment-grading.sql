@@ -0,0 +1,64 @@
+-- SERVER-SIDE ASSESSMENT GRADING
+-- Run after job-assessments.sql in your Supabase SQL Editor
+--
+-- Assessments are graded by the API routes under app/api/assessments and
+-- app/api/assessment-attempts using the service role key. Candidates can no
+-- longer read questions (and their correct answers) directly, write their own
+-- attempt scores, or set the assessment score on their application.
+
+-- ============================================================================
+-- STEP 1: HIDE ANSWER KEYS FROM CANDIDATES
+-- ============================================================================
+
+-- Candidates get questions from GET /api/assessments/[id], with answers stripped.
+-- Company members keep direct access to their own company's assessments.
+DROP POLICY IF EXISTS "Users can view public assessments" ON skill_assessments;
+DROP POLICY IF EXISTS "Applicants can view assessments of open jobs" ON skill_assessments;
+
+-- ============================================================================
+-- STEP 2: ATTEMPTS ARE WRITTEN BY THE SERVER ONLY
+-- ============================================================================
+
+DROP POLICY IF EXISTS "Users can start own attempts" ON assessment_attempts;
+DROP POLICY IF EXISTS "Users can update own attempts" ON assessment_attempts;
+
+-- ============================================================================
+-- STEP 3: PROTECT APPLICATION ASSESSMENT SCORES
+-- ============================================================================
+
+-- Applicants have no UPDATE policy on their application, but in case one is
+-- added the score is only copied across by POST /api/applications/[id]/assessment
+CREATE OR REPLACE FUNCTION protect_application_assessment_score()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL
+     AND auth.uid() = OLD.applicant_id
+     AND (NEW.assessment_score IS DISTINCT FROM OLD.assessment_score
+       OR NEW.assessment_completed_at IS DISTINCT FROM OLD.assessment_completed_at) THEN
+    RAISE EXCEPTION 'Assessment scores can only be set by the grading service';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS protect_application_assessment_score ON job_applications_enhanced;
+CREATE TRIGGER protect_application_assessment_score
+  BEFORE UPDATE ON job_applications_enhanced
+  FOR EACH ROW EXECUTE FUNCTION protect_application_assessment_score();
+
+-- Applicants cannot insert a score either
+CREATE OR REPLACE FUNCTION clear_application_assessment_score()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL AND auth.uid() = NEW.applicant_id THEN
+    NEW.assessment_score := NULL;
+    NEW.assessment_completed_at := NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS clear_application_assessment_score ON job_applications_enhanced;
+CREATE TRIGGER clear_application_assessment_score
+  BEFORE INSERT ON job_applications_enhanced
+  FOR EACH ROW EXECUTE FUNCTION clear_application_assessment_score();
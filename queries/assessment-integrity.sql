@@ -0,0 +1,29 @@
+-- ASSESSMENT INTEGRITY MONITORING
+-- Run after assessment-studio.sql in your Supabase SQL Editor
+--
+-- The assessment runner logs focus loss, copy/paste and fullscreen exits on
+-- the attempt while it is in progress; fast answers are added when it is
+-- graded, along with a 0-100 risk score. Recruiters review the log and can
+-- flag or invalidate the attempt. All writes go through the API with the
+-- service role, so no new write policies are needed.
+
+-- ============================================================================
+-- STEP 1: INTEGRITY LOG AND REVIEW COLUMNS
+-- ============================================================================
+
+ALTER TABLE assessment_attempts
+  ADD COLUMN IF NOT EXISTS integrity_events JSONB NOT NULL DEFAULT '[]'::jsonb,
+  ADD COLUMN IF NOT EXISTS risk_score INTEGER CHECK (risk_score BETWEEN 0 AND 100),
+  ADD COLUMN IF NOT EXISTS reviewed_by UUID REFERENCES auth.users(id),
+  ADD COLUMN IF NOT EXISTS reviewed_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS review_notes TEXT;
+
+-- The original schema already allows these statuses; make sure older
+-- databases created from MIGRATION_SCRIPT.sql do too
+ALTER TABLE assessment_attempts DROP CONSTRAINT IF EXISTS assessment_attempts_status_check;
+ALTER TABLE assessment_attempts ADD CONSTRAINT assessment_attempts_status_check
+  CHECK (status IN ('in_progress', 'completed', 'abandoned', 'flagged', 'invalidated'));
+
+CREATE INDEX IF NOT EXISTS idx_assessment_attempts_risk_score
+  ON assessment_attempts(risk_score)
+  WHERE risk_score IS NOT NULL;
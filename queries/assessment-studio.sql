@@ -0,0 +1,157 @@
+-- ASSESSMENT AUTHORING STUDIO
+-- Run after assessment-grading.sql in your Supabase SQL Editor
+--
+-- Company members with the can_manage_assessments permission create and edit
+-- their company's skill assessments. Every content change bumps the
+-- assessment's version and keeps a snapshot, and attempts are graded against
+-- the version they were started on. Assessments are archived, never deleted,
+-- so past attempts keep their questions.
+
+-- ============================================================================
+-- STEP 1: VERSIONS AND ARCHIVING
+-- ============================================================================
+
+ALTER TABLE skill_assessments
+  ADD COLUMN IF NOT EXISTS version INTEGER NOT NULL DEFAULT 1,
+  ADD COLUMN IF NOT EXISTS archived_at TIMESTAMPTZ;
+
+ALTER TABLE assessment_attempts
+  ADD COLUMN IF NOT EXISTS assessment_version INTEGER;
+
+CREATE TABLE IF NOT EXISTS skill_assessment_versions (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  assessment_id UUID REFERENCES skill_assessments(id) ON DELETE CASCADE NOT NULL,
+  version INTEGER NOT NULL,
+  title TEXT NOT NULL,
+  description TEXT,
+  questions JSONB NOT NULL,
+  time_limit_minutes INTEGER,
+  passing_score DECIMAL(5,2) NOT NULL,
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (assessment_id, version)
+);
+
+CREATE INDEX IF NOT EXISTS idx_skill_assessments_company_id ON skill_assessments(company_id);
+
+-- The version is owned by the database: clients cannot set it directly
+CREATE OR REPLACE FUNCTION bump_assessment_version()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.version := OLD.version;
+  IF NEW.title IS DISTINCT FROM OLD.title
+     OR NEW.description IS DISTINCT FROM OLD.description
+     OR NEW.questions IS DISTINCT FROM OLD.questions
+     OR NEW.time_limit_minutes IS DISTINCT FROM OLD.time_limit_minutes
+     OR NEW.passing_score IS DISTINCT FROM OLD.passing_score THEN
+    NEW.version := OLD.version + 1;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS bump_assessment_version ON skill_assessments;
+CREATE TRIGGER bump_assessment_version
+  BEFORE UPDATE ON skill_assessments
+  FOR EACH ROW EXECUTE FUNCTION bump_assessment_version();
+
+CREATE OR REPLACE FUNCTION snapshot_assessment_version()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' OR NEW.version <> OLD.version THEN
+    INSERT INTO skill_assessment_versions (
+      assessment_id, version, title, description, questions,
+      time_limit_minutes, passing_score, created_by
+    ) VALUES (
+      NEW.id, NEW.version, NEW.title, NEW.description, NEW.questions,
+      NEW.time_limit_minutes, NEW.passing_score, COALESCE(auth.uid(), NEW.created_by)
+    )
+    ON CONFLICT (assessment_id, version) DO NOTHING;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS snapshot_assessment_version ON skill_assessments;
+CREATE TRIGGER snapshot_assessment_version
+  AFTER INSERT OR UPDATE ON skill_assessments
+  FOR EACH ROW EXECUTE FUNCTION snapshot_assessment_version();
+
+-- Snapshot assessments that existed before this script
+INSERT INTO skill_assessment_versions (
+  assessment_id, version, title, description, questions,
+  time_limit_minutes, passing_score, created_by
+)
+SELECT id, version, title, description, questions, time_limit_minutes, passing_score, created_by
+FROM skill_assessments
+ON CONFLICT (assessment_id, version) DO NOTHING;
+
+CREATE OR REPLACE FUNCTION set_attempt_assessment_version()
+RETURNS TRIGGER AS $$
+BEGIN
+  SELECT version INTO NEW.assessment_version
+  FROM skill_assessments WHERE id = NEW.assessment_id;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS set_attempt_assessment_version ON assessment_attempts;
+CREATE TRIGGER set_attempt_assessment_version
+  BEFORE INSERT ON assessment_attempts
+  FOR EACH ROW EXECUTE FUNCTION set_attempt_assessment_version();
+
+-- ============================================================================
+-- STEP 2: COMPANY PERMISSIONS
+-- ============================================================================
+
+-- Explicit permissions on the member row win; otherwise the role's default
+-- applies. Keep the defaults in sync with ROLE_PERMISSIONS in
+-- lib/companies/permissions.ts.
+CREATE OR REPLACE FUNCTION company_member_has_permission(company_uuid UUID, permission TEXT)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM company_members
+    WHERE company_id = company_uuid
+      AND user_id = auth.uid()
+      AND status = 'active'
+      AND COALESCE(
+        (permissions ->> permission)::BOOLEAN,
+        CASE
+          WHEN permission = 'can_manage_billing' THEN role = 'owner'
+          WHEN permission IN ('can_create_jobs', 'can_edit_jobs', 'can_view_applications', 'can_manage_applications')
+            THEN role IN ('owner', 'admin', 'hr_manager', 'recruiter')
+          WHEN permission IN ('can_view_analytics', 'can_manage_assessments')
+            THEN role IN ('owner', 'admin', 'hr_manager')
+          ELSE role IN ('owner', 'admin')
+        END
+      )
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- ============================================================================
+-- STEP 3: AUTHORING ACCESS
+-- ============================================================================
+
+DROP POLICY IF EXISTS "Assessment managers can create assessments" ON skill_assessments;
+CREATE POLICY "Assessment managers can create assessments" ON skill_assessments FOR INSERT
+  WITH CHECK (
+    company_id IS NOT NULL
+    AND created_by = auth.uid()
+    AND company_member_has_permission(company_id, 'can_manage_assessments')
+  );
+
+DROP POLICY IF EXISTS "Assessment managers can update assessments" ON skill_assessments;
+CREATE POLICY "Assessment managers can update assessments" ON skill_assessments FOR UPDATE
+  USING (company_member_has_permission(company_id, 'can_manage_assessments'))
+  WITH CHECK (company_member_has_permission(company_id, 'can_manage_assessments'));
+
+ALTER TABLE skill_assessment_versions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Company members can view assessment versions" ON skill_assessment_versions;
+CREATE POLICY "Company members can view assessment versions" ON skill_assessment_versions FOR SELECT USING (
+  assessment_id IN (
+    SELECT sa.id FROM skill_assessments sa
+    JOIN company_members cm ON cm.company_id = sa.company_id
+    WHERE cm.user_id = auth.uid() AND cm.status = 'active'
+  )
+);
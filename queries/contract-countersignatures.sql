@@ -0,0 +1,285 @@
+-- CONTRACT COUNTERSIGNATURES
+-- Run after contract-signatures.sql in your Supabase SQL Editor
+--
+-- Company contracts are signed by the candidate and countersigned by a
+-- member of the company whose role allows it (can_sign_contracts: owners,
+-- admins and HR managers unless set on the member). Contracts candidates
+-- sign while applying are countersigned from the queue at
+-- /protected/employer/contracts/signatures. The hiring team can also send a
+-- contract to an applicant, either for the candidate to sign first or for
+-- the company to sign before the candidate sees it (signing_order), with an
+-- optional deadline (expires_at).
+--
+-- Once a contract is past expires_at nobody can sign it; the scheduled run
+-- at /api/cron/contract-expiry marks it expired. Signers can void a contract
+-- that is not yet fully signed. Both parties get an in-app notification
+-- when it is their turn to sign and when the contract is completed, voided
+-- or expires.
+
+-- ============================================================================
+-- STEP 1: WHO CAN SIGN FOR A COMPANY
+-- ============================================================================
+
+-- The same rules as company_member_has_permission() for any member, so
+-- triggers can find who to notify. Keep the defaults in sync with
+-- ROLE_PERMISSIONS in lib/companies/permissions.ts.
+CREATE OR REPLACE FUNCTION member_has_company_permission(company_uuid UUID, member_uuid UUID, permission TEXT)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM company_members
+    WHERE company_id = company_uuid
+      AND user_id = member_uuid
+      AND status = 'active'
+      AND COALESCE(
+        (permissions ->> permission)::BOOLEAN,
+        CASE
+          WHEN permission = 'can_manage_billing' THEN role = 'owner'
+          WHEN permission IN ('can_create_jobs', 'can_edit_jobs', 'can_view_applications', 'can_manage_applications')
+            THEN role IN ('owner', 'admin', 'hr_manager', 'recruiter')
+          WHEN permission IN ('can_view_analytics', 'can_manage_assessments', 'can_sign_contracts')
+            THEN role IN ('owner', 'admin', 'hr_manager')
+          ELSE role IN ('owner', 'admin')
+        END
+      )
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION company_member_has_permission(company_uuid UUID, permission TEXT)
+RETURNS BOOLEAN AS $$
+  SELECT member_has_company_permission(company_uuid, auth.uid(), permission);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- ============================================================================
+-- STEP 2: SIGNING ORDER AND WHO SENT THE CONTRACT
+-- ============================================================================
+
+-- employee_first: the candidate signs, then the company countersigns
+-- employer_first: the company signs before the candidate can
+-- issued_by is null for contracts the candidate signed while applying
+ALTER TABLE contract_signatures
+  ADD COLUMN IF NOT EXISTS signing_order TEXT NOT NULL DEFAULT 'employee_first'
+    CHECK (signing_order IN ('employee_first', 'employer_first')),
+  ADD COLUMN IF NOT EXISTS issued_by UUID REFERENCES auth.users(id);
+
+CREATE INDEX IF NOT EXISTS idx_contract_signatures_expires_at
+  ON contract_signatures(expires_at) WHERE status IN ('pending', 'partially_signed');
+
+-- Which party has to sign next, or null when nobody does
+CREATE OR REPLACE FUNCTION contract_awaiting_party(
+  contract_status TEXT,
+  contract_signing_order TEXT,
+  employee_signed TIMESTAMPTZ,
+  employer_signed TIMESTAMPTZ
+)
+RETURNS TEXT AS $$
+  SELECT CASE
+    WHEN contract_status NOT IN ('pending', 'partially_signed') THEN NULL
+    WHEN contract_signing_order = 'employer_first' AND employer_signed IS NULL THEN 'employer'
+    WHEN employee_signed IS NULL THEN 'employee'
+    WHEN employer_signed IS NULL THEN 'employer'
+    ELSE NULL
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- ============================================================================
+-- STEP 3: ENFORCE THE ORDER AND THE DEADLINE
+-- ============================================================================
+
+-- As in contract-signatures.sql, with the signing order and expiry checked
+-- whenever a signature is added
+CREATE OR REPLACE FUNCTION set_contract_signature_status()
+RETURNS TRIGGER AS $$
+DECLARE
+  employee_signing BOOLEAN;
+  employer_signing BOOLEAN;
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    IF (OLD.employee_signed_at IS NOT NULL OR OLD.employer_signed_at IS NOT NULL) AND (
+      NEW.final_contract_content IS DISTINCT FROM OLD.final_contract_content
+      OR NEW.document_hash IS DISTINCT FROM OLD.document_hash
+      OR NEW.contract_variables IS DISTINCT FROM OLD.contract_variables
+    ) THEN
+      RAISE EXCEPTION 'A contract cannot be changed once it has been signed';
+    END IF;
+
+    IF (OLD.employee_signed_at IS NOT NULL AND (
+      NEW.employee_signed_at IS DISTINCT FROM OLD.employee_signed_at
+      OR NEW.employee_signature_data IS DISTINCT FROM OLD.employee_signature_data
+      OR NEW.signed_via_ip IS DISTINCT FROM OLD.signed_via_ip
+      OR NEW.signed_via_user_agent IS DISTINCT FROM OLD.signed_via_user_agent
+    )) OR (OLD.employer_signed_at IS NOT NULL AND (
+      NEW.employer_signed_at IS DISTINCT FROM OLD.employer_signed_at
+      OR NEW.employer_signature_data IS DISTINCT FROM OLD.employer_signature_data
+      OR NEW.employer_representative_id IS DISTINCT FROM OLD.employer_representative_id
+    )) THEN
+      RAISE EXCEPTION 'A signature cannot be changed once it has been given';
+    END IF;
+
+    -- The audit trail is only ever added to, so the hashes recorded when the
+    -- contract was issued and signed stay as they were
+    IF (
+      SELECT COALESCE(jsonb_agg(event ORDER BY position), '[]'::jsonb)
+      FROM jsonb_array_elements(COALESCE(NEW.audit_trail, '[]'::jsonb)) WITH ORDINALITY AS trail(event, position)
+      WHERE position <= jsonb_array_length(COALESCE(OLD.audit_trail, '[]'::jsonb))
+    ) IS DISTINCT FROM COALESCE(OLD.audit_trail, '[]'::jsonb) THEN
+      RAISE EXCEPTION 'The audit trail can only be added to';
+    END IF;
+
+    IF NEW.signing_order IS DISTINCT FROM OLD.signing_order
+      AND (OLD.employee_signed_at IS NOT NULL OR OLD.employer_signed_at IS NOT NULL)
+    THEN
+      RAISE EXCEPTION 'The signing order cannot be changed once signing has started';
+    END IF;
+
+    employee_signing := OLD.employee_signed_at IS NULL AND NEW.employee_signed_at IS NOT NULL;
+    employer_signing := OLD.employer_signed_at IS NULL AND NEW.employer_signed_at IS NOT NULL;
+
+    IF OLD.status IN ('voided', 'expired', 'fully_signed') AND (employee_signing OR employer_signing) THEN
+      RAISE EXCEPTION 'This contract can no longer be signed';
+    END IF;
+  ELSE
+    employee_signing := NEW.employee_signed_at IS NOT NULL;
+    employer_signing := NEW.employer_signed_at IS NOT NULL;
+  END IF;
+
+  IF (employee_signing OR employer_signing) AND NEW.expires_at IS NOT NULL AND NEW.expires_at <= NOW() THEN
+    RAISE EXCEPTION 'This contract has expired';
+  END IF;
+
+  IF employer_signing AND NOT NEW.requires_countersignature THEN
+    RAISE EXCEPTION 'This document is not countersigned';
+  END IF;
+  IF employer_signing AND NEW.signing_order = 'employee_first' AND NEW.employee_signed_at IS NULL THEN
+    RAISE EXCEPTION 'The candidate signs this contract first';
+  END IF;
+  IF employee_signing AND NEW.signing_order = 'employer_first' AND NEW.employer_signed_at IS NULL THEN
+    RAISE EXCEPTION 'The company signs this contract first';
+  END IF;
+
+  -- The hash is always taken from the stored text, whatever the caller sent
+  NEW.document_hash := encode(sha256(convert_to(NEW.final_contract_content, 'UTF8')), 'hex');
+
+  NEW.status := CASE
+    WHEN NEW.voided_at IS NOT NULL THEN 'voided'
+    WHEN NEW.status = 'expired' THEN 'expired'
+    WHEN NEW.employee_signed_at IS NOT NULL
+      AND (NEW.employer_signed_at IS NOT NULL OR NOT NEW.requires_countersignature) THEN 'fully_signed'
+    WHEN NEW.employee_signed_at IS NOT NULL OR NEW.employer_signed_at IS NOT NULL THEN 'partially_signed'
+    ELSE 'pending'
+  END;
+
+  IF NEW.status = 'fully_signed' AND NEW.fully_executed_at IS NULL THEN
+    NEW.fully_executed_at := NOW();
+  END IF;
+
+  NEW.updated_at := NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- ============================================================================
+-- STEP 4: NOTIFY EACH PARTY AS THE CONTRACT PROGRESSES
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION notify_contract_signature_progress()
+RETURNS TRIGGER AS $$
+DECLARE
+  awaiting TEXT;
+  was_awaiting TEXT;
+  candidate_link TEXT;
+  company_link TEXT;
+  actor UUID;
+  member RECORD;
+BEGIN
+  -- Uwezo's own agreements only involve the person signing them
+  IF NEW.company_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  candidate_link := '/protected/contracts/' || NEW.id;
+  company_link := '/protected/employer/contracts/signatures/' || NEW.id;
+  -- Contracts are written with the service role, so auth.uid() is not the
+  -- person acting; the latest audit event says who it was
+  actor := (NEW.audit_trail -> -1 ->> 'actor_id')::UUID;
+
+  awaiting := contract_awaiting_party(NEW.status, NEW.signing_order, NEW.employee_signed_at, NEW.employer_signed_at);
+  IF TG_OP = 'UPDATE' THEN
+    was_awaiting := contract_awaiting_party(OLD.status, OLD.signing_order, OLD.employee_signed_at, OLD.employer_signed_at);
+  END IF;
+
+  IF awaiting = 'employee' AND was_awaiting IS DISTINCT FROM 'employee' AND NEW.employee_id IS DISTINCT FROM actor THEN
+    PERFORM notify_user(
+      NEW.employee_id,
+      'contract_awaiting_signature',
+      'Contract awaiting your signature',
+      NEW.title || ' is ready for you to sign.',
+      NEW.id,
+      candidate_link
+    );
+  END IF;
+
+  IF awaiting = 'employer' AND was_awaiting IS DISTINCT FROM 'employer' THEN
+    FOR member IN
+      SELECT cm.user_id FROM company_members cm
+      WHERE cm.company_id = NEW.company_id
+        AND cm.user_id IS DISTINCT FROM actor
+        AND member_has_company_permission(NEW.company_id, cm.user_id, 'can_sign_contracts')
+    LOOP
+      PERFORM notify_user(
+        member.user_id,
+        'contract_awaiting_signature',
+        CASE WHEN NEW.employee_signed_at IS NULL
+          THEN 'Contract awaiting your signature'
+          ELSE 'Contract awaiting countersignature'
+        END,
+        NEW.title || ' is ready for the company to sign.',
+        NEW.id,
+        company_link
+      );
+    END LOOP;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND NEW.status IS DISTINCT FROM OLD.status THEN
+    IF NEW.status = 'fully_signed' THEN
+      IF NEW.employee_id IS DISTINCT FROM actor THEN
+        PERFORM notify_user(NEW.employee_id, 'contract_signed', 'Contract fully signed',
+          NEW.title || ' has been signed by everyone.', NEW.id, candidate_link);
+      END IF;
+      IF NEW.employer_representative_id IS DISTINCT FROM actor THEN
+        PERFORM notify_user(NEW.employer_representative_id, 'contract_signed', 'Contract fully signed',
+          NEW.title || ' has been signed by everyone.', NEW.id, company_link);
+      END IF;
+    ELSIF NEW.status = 'voided' THEN
+      PERFORM notify_user(NEW.employee_id, 'contract_voided', 'Contract voided',
+        NEW.title || ' was voided' || COALESCE(': ' || NEW.void_reason, '.'), NEW.id, candidate_link);
+    ELSIF NEW.status = 'expired' THEN
+      PERFORM notify_user(NEW.employee_id, 'contract_expired', 'Contract expired',
+        NEW.title || ' expired before it was signed.', NEW.id, candidate_link);
+      IF NEW.issued_by IS NOT NULL THEN
+        PERFORM notify_user(NEW.issued_by, 'contract_expired', 'Contract expired',
+          NEW.title || ' expired before it was signed.', NEW.id, company_link);
+      END IF;
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS trigger_notify_contract_signature_progress ON contract_signatures;
+CREATE TRIGGER trigger_notify_contract_signature_progress
+  AFTER INSERT OR UPDATE OF status, employee_signed_at, employer_signed_at ON contract_signatures
+  FOR EACH ROW EXECUTE FUNCTION notify_contract_signature_progress();
+
+-- ============================================================================
+-- STEP 5: SIGNERS SEE THE COMPANY'S CONTRACTS
+-- ============================================================================
+
+DROP POLICY IF EXISTS "Hiring team can view company contract signatures" ON contract_signatures;
+CREATE POLICY "Hiring team can view company contract signatures" ON contract_signatures
+  FOR SELECT USING (
+    company_id IS NOT NULL AND (
+      company_member_has_permission(company_id, 'can_view_applications')
+      OR company_member_has_permission(company_id, 'can_sign_contracts')
+    )
+  );
@@ -0,0 +1,127 @@
+-- CONTRACT SIGNATURES
+-- Run after contract-templates.sql in your Supabase SQL Editor
+--
+-- Every contract or NDA someone signs is kept in contract_signatures with
+-- the exact text they agreed to (final_contract_content), its SHA-256
+-- (document_hash), the signer's IP address and browser, and what they signed
+-- with (employee_signature_data). Rows are written by the app with the
+-- service role (app/api/contract-signatures), never directly by users.
+--
+-- status follows the signatures on the row:
+--   pending           nobody has signed yet
+--   partially_signed  one party has signed and the other still has to
+--   fully_signed      everyone required has signed
+-- voided and expired are set explicitly and stop further signing.
+--
+-- Once a party has signed, the document and that party's signature can no
+-- longer change, and the audit trail can only be added to. Each issue and
+-- signature event in it records the hash of the text at that moment, so
+-- GET /api/contract-signatures/[id]/verify re-hashes the stored text and
+-- compares it with those rather than with document_hash, which the
+-- database recomputes on every write.
+
+-- ============================================================================
+-- STEP 1: WHAT WAS SIGNED AND WHERE
+-- ============================================================================
+
+-- job_application_id points at the older job_applications table; contracts
+-- signed while applying link to job_applications_enhanced instead. The
+-- signature outlives the application so it stays on record.
+-- requires_countersignature is false for documents only the signer signs,
+-- such as the platform NDA.
+ALTER TABLE contract_signatures
+  ADD COLUMN IF NOT EXISTS application_id UUID REFERENCES job_applications_enhanced(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS job_opening_id UUID REFERENCES job_openings_enhanced(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS document_type TEXT NOT NULL DEFAULT 'contract' CHECK (document_type IN ('contract', 'nda')),
+  ADD COLUMN IF NOT EXISTS title TEXT NOT NULL DEFAULT 'Contract',
+  ADD COLUMN IF NOT EXISTS requires_countersignature BOOLEAN NOT NULL DEFAULT true;
+
+CREATE INDEX IF NOT EXISTS idx_contract_signatures_application_id ON contract_signatures(application_id);
+CREATE INDEX IF NOT EXISTS idx_contract_signatures_employee_id ON contract_signatures(employee_id);
+CREATE INDEX IF NOT EXISTS idx_contract_signatures_company_id ON contract_signatures(company_id);
+
+-- ============================================================================
+-- STEP 2: HASH, STATUS AND TAMPER PROTECTION
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION set_contract_signature_status()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    IF (OLD.employee_signed_at IS NOT NULL OR OLD.employer_signed_at IS NOT NULL) AND (
+      NEW.final_contract_content IS DISTINCT FROM OLD.final_contract_content
+      OR NEW.document_hash IS DISTINCT FROM OLD.document_hash
+      OR NEW.contract_variables IS DISTINCT FROM OLD.contract_variables
+    ) THEN
+      RAISE EXCEPTION 'A contract cannot be changed once it has been signed';
+    END IF;
+
+    IF (OLD.employee_signed_at IS NOT NULL AND (
+      NEW.employee_signed_at IS DISTINCT FROM OLD.employee_signed_at
+      OR NEW.employee_signature_data IS DISTINCT FROM OLD.employee_signature_data
+      OR NEW.signed_via_ip IS DISTINCT FROM OLD.signed_via_ip
+      OR NEW.signed_via_user_agent IS DISTINCT FROM OLD.signed_via_user_agent
+    )) OR (OLD.employer_signed_at IS NOT NULL AND (
+      NEW.employer_signed_at IS DISTINCT FROM OLD.employer_signed_at
+      OR NEW.employer_signature_data IS DISTINCT FROM OLD.employer_signature_data
+    )) THEN
+      RAISE EXCEPTION 'A signature cannot be changed once it has been given';
+    END IF;
+
+    -- The audit trail is only ever added to, so the hashes recorded when the
+    -- contract was issued and signed stay as they were
+    IF (
+      SELECT COALESCE(jsonb_agg(event ORDER BY position), '[]'::jsonb)
+      FROM jsonb_array_elements(COALESCE(NEW.audit_trail, '[]'::jsonb)) WITH ORDINALITY AS trail(event, position)
+      WHERE position <= jsonb_array_length(COALESCE(OLD.audit_trail, '[]'::jsonb))
+    ) IS DISTINCT FROM COALESCE(OLD.audit_trail, '[]'::jsonb) THEN
+      RAISE EXCEPTION 'The audit trail can only be added to';
+    END IF;
+
+    IF OLD.status IN ('voided', 'expired') AND (
+      NEW.employee_signed_at IS DISTINCT FROM OLD.employee_signed_at
+      OR NEW.employer_signed_at IS DISTINCT FROM OLD.employer_signed_at
+    ) THEN
+      RAISE EXCEPTION 'A voided or expired contract cannot be signed';
+    END IF;
+  END IF;
+
+  -- The hash is always taken from the stored text, whatever the caller sent
+  NEW.document_hash := encode(sha256(convert_to(NEW.final_contract_content, 'UTF8')), 'hex');
+
+  NEW.status := CASE
+    WHEN NEW.voided_at IS NOT NULL THEN 'voided'
+    WHEN NEW.status = 'expired' THEN 'expired'
+    WHEN NEW.employee_signed_at IS NOT NULL
+      AND (NEW.employer_signed_at IS NOT NULL OR NOT NEW.requires_countersignature) THEN 'fully_signed'
+    WHEN NEW.employee_signed_at IS NOT NULL OR NEW.employer_signed_at IS NOT NULL THEN 'partially_signed'
+    ELSE 'pending'
+  END;
+
+  IF NEW.status = 'fully_signed' AND NEW.fully_executed_at IS NULL THEN
+    NEW.fully_executed_at := NOW();
+  END IF;
+
+  NEW.updated_at := NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS trigger_set_contract_signature_status ON contract_signatures;
+CREATE TRIGGER trigger_set_contract_signature_status
+  BEFORE INSERT OR UPDATE ON contract_signatures
+  FOR EACH ROW EXECUTE FUNCTION set_contract_signature_status();
+
+-- ============================================================================
+-- STEP 3: WHO CAN SEE SIGNED CONTRACTS
+-- ============================================================================
+
+-- The enhanced schema already lets each party see their own rows. The hiring
+-- team sees the contracts signed for their company's jobs. There are no
+-- insert, update or delete policies: signing goes through the API so the
+-- text, hash, IP address and timestamps come from the server.
+DROP POLICY IF EXISTS "Hiring team can view company contract signatures" ON contract_signatures;
+CREATE POLICY "Hiring team can view company contract signatures" ON contract_signatures
+  FOR SELECT USING (
+    company_id IS NOT NULL AND company_member_has_permission(company_id, 'can_view_applications')
+  );
@@ -0,0 +1,111 @@
+-- CONTRACT TEMPLATES
+-- Run after application-review.sql in your Supabase SQL Editor
+--
+-- Companies write their own contract templates at
+-- /protected/employer/contracts. A template's text uses placeholders such as
+-- {candidate_name}, {job_title}, {salary} or {start_date}. Some are filled
+-- in automatically from the job, the company and the candidate; the rest
+-- are custom variables with a default on the template (variables) that a
+-- job can override (job_openings_enhanced.contract_variables).
+-- required_fields lists the placeholders that must have a value before the
+-- contract can be issued to a candidate.
+--
+-- A job issues the template picked in its posting
+-- (job_openings_enhanced.contract_template_id); new postings start with the
+-- company's default template for their contract type. Applicants never read
+-- contract_templates directly: app/api/jobs/[id]/contract renders the
+-- contract for them with the service role.
+
+-- ============================================================================
+-- STEP 1: BRING OLDER contract_templates TABLES UP TO DATE
+-- ============================================================================
+
+-- setup-uwezo-career-schema.sql created a smaller table (template_name,
+-- engagement_type, contract_content). Add the columns the editor uses, carry
+-- any existing text across and stop requiring the old columns.
+ALTER TABLE contract_templates
+  ADD COLUMN IF NOT EXISTS created_by UUID REFERENCES auth.users(id),
+  ADD COLUMN IF NOT EXISTS name TEXT,
+  ADD COLUMN IF NOT EXISTS description TEXT,
+  ADD COLUMN IF NOT EXISTS contract_type TEXT,
+  ADD COLUMN IF NOT EXISTS template_content TEXT,
+  ADD COLUMN IF NOT EXISTS variables JSONB DEFAULT '{}',
+  ADD COLUMN IF NOT EXISTS required_fields JSONB DEFAULT '[]',
+  ADD COLUMN IF NOT EXISTS jurisdiction TEXT,
+  ADD COLUMN IF NOT EXISTS applicable_law TEXT,
+  ADD COLUMN IF NOT EXISTS legal_review_status TEXT DEFAULT 'pending',
+  ADD COLUMN IF NOT EXISTS reviewed_by UUID REFERENCES auth.users(id),
+  ADD COLUMN IF NOT EXISTS reviewed_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS version TEXT DEFAULT '1.0',
+  ADD COLUMN IF NOT EXISTS is_active BOOLEAN DEFAULT true,
+  ADD COLUMN IF NOT EXISTS usage_count INTEGER DEFAULT 0;
+
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public' AND table_name = 'contract_templates' AND column_name = 'template_name'
+  ) THEN
+    UPDATE contract_templates SET
+      name = COALESCE(name, template_name),
+      template_content = COALESCE(template_content, contract_content),
+      contract_type = COALESCE(contract_type, 'employment_full_time');
+    ALTER TABLE contract_templates
+      ALTER COLUMN template_name DROP NOT NULL,
+      ALTER COLUMN engagement_type DROP NOT NULL,
+      ALTER COLUMN contract_content DROP NOT NULL;
+  END IF;
+END $$;
+
+-- ============================================================================
+-- STEP 2: ONE DEFAULT TEMPLATE PER COMPANY AND CONTRACT TYPE
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION clear_other_default_contract_templates()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.is_default THEN
+    UPDATE contract_templates
+    SET is_default = false, updated_at = NOW()
+    WHERE company_id = NEW.company_id
+      AND contract_type = NEW.contract_type
+      AND id <> NEW.id
+      AND is_default;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS trigger_clear_other_default_contract_templates ON contract_templates;
+CREATE TRIGGER trigger_clear_other_default_contract_templates
+  AFTER INSERT OR UPDATE OF is_default, contract_type ON contract_templates
+  FOR EACH ROW EXECUTE FUNCTION clear_other_default_contract_templates();
+
+-- ============================================================================
+-- STEP 3: WHO CAN EDIT TEMPLATES
+-- ============================================================================
+
+-- Members who can edit job postings write the contracts those postings use.
+-- There is deliberately no delete policy: signed contracts reference their
+-- template, so templates are deactivated instead.
+DROP POLICY IF EXISTS "Hiring team can create contract templates" ON contract_templates;
+CREATE POLICY "Hiring team can create contract templates" ON contract_templates
+  FOR INSERT WITH CHECK (company_member_has_permission(company_id, 'can_edit_jobs'));
+
+DROP POLICY IF EXISTS "Hiring team can update contract templates" ON contract_templates;
+CREATE POLICY "Hiring team can update contract templates" ON contract_templates
+  FOR UPDATE USING (company_member_has_permission(company_id, 'can_edit_jobs'))
+  WITH CHECK (company_member_has_permission(company_id, 'can_edit_jobs'));
+
+-- ============================================================================
+-- STEP 4: THE CONTRACT A JOB ISSUES
+-- ============================================================================
+
+-- contract_variables: { "start_date": "1 March 2026", ... } overriding the
+-- template's defaults for this job
+ALTER TABLE job_openings_enhanced
+  ADD COLUMN IF NOT EXISTS contract_template_id UUID REFERENCES contract_templates(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS contract_variables JSONB NOT NULL DEFAULT '{}';
+
+CREATE INDEX IF NOT EXISTS idx_job_openings_enhanced_contract_template_id
+  ON job_openings_enhanced(contract_template_id);
@@ -0,0 +1,130 @@
+-- ENHANCED SCHEMA ACCESS
+-- Run after MIGRATION_SCRIPT.sql and companies-table-fixes-latest.sql in your Supabase SQL Editor
+--
+-- The app reads and writes the *_enhanced tables through lib/supabase/repository.ts,
+-- which resolves a user's companies through company_members. Companies created
+-- before this script only recorded companies.owner_id, so owners are backfilled
+-- as members here and every new company gets its owner membership automatically.
+
+-- ============================================================================
+-- STEP 1: OWNER MEMBERSHIPS
+-- ============================================================================
+
+ALTER TABLE companies ADD COLUMN IF NOT EXISTS owner_id UUID REFERENCES auth.users(id);
+
+INSERT INTO company_members (company_id, user_id, role, status)
+SELECT id, owner_id, 'owner', 'active'
+FROM companies
+WHERE owner_id IS NOT NULL
+ON CONFLICT (company_id, user_id) DO NOTHING;
+
+CREATE OR REPLACE FUNCTION add_company_owner_membership()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.owner_id IS NOT NULL THEN
+    INSERT INTO company_members (company_id, user_id, role, status)
+    VALUES (NEW.id, NEW.owner_id, 'owner', 'active')
+    ON CONFLICT (company_id, user_id) DO NOTHING;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS trigger_add_company_owner_membership ON companies;
+CREATE TRIGGER trigger_add_company_owner_membership
+  AFTER INSERT ON companies
+  FOR EACH ROW EXECUTE FUNCTION add_company_owner_membership();
+
+-- ============================================================================
+-- STEP 2: POLICIES USED BY THE REPOSITORY
+-- ============================================================================
+
+DROP POLICY IF EXISTS "Users can view own memberships" ON company_members;
+CREATE POLICY "Users can view own memberships" ON company_members FOR SELECT
+  USING (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Owners can view their companies" ON companies;
+CREATE POLICY "Owners can view their companies" ON companies FOR SELECT
+  USING (owner_id = auth.uid());
+
+DROP POLICY IF EXISTS "Users can create owned companies" ON companies;
+CREATE POLICY "Users can create owned companies" ON companies FOR INSERT
+  WITH CHECK (owner_id = auth.uid());
+
+-- Only to jobs open on the public board; drafts, closed, private and past-deadline
+-- jobs take no applications
+DROP POLICY IF EXISTS "Applicants can create own applications" ON job_applications_enhanced;
+CREATE POLICY "Applicants can create own applications" ON job_applications_enhanced FOR INSERT
+  WITH CHECK (
+    applicant_id = auth.uid()
+    AND EXISTS (
+      SELECT 1 FROM job_openings_enhanced jo
+      WHERE jo.id = job_opening_id
+        AND jo.status = 'active'
+        AND jo.visibility = 'public'
+        AND (jo.application_deadline IS NULL OR jo.application_deadline >= NOW())
+    )
+  );
+
+-- ============================================================================
+-- STEP 3: WHAT APPLICANTS MAY WRITE WHEN APPLYING
+-- ============================================================================
+
+-- The insert policy covers every column, so an applicant's new application is
+-- cleaned here: the hiring team's columns start empty, and the CV and files
+-- attached to screening answers must be the applicant's own. The trigger's
+-- name sorts before trigger_apply_screening_knockouts, which fires after it
+-- and may still reject the application.
+CREATE OR REPLACE FUNCTION sanitize_application_insert()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF auth.uid() IS NULL OR auth.uid() <> NEW.applicant_id THEN
+    RETURN NEW;
+  END IF;
+
+  NEW.status := 'submitted';
+  NEW.current_stage := 'submitted';
+  NEW.stage_history := '[]';
+  NEW.overall_rating := NULL;
+  NEW.technical_rating := NULL;
+  NEW.communication_rating := NULL;
+  NEW.recruiter_notes := NULL;
+  NEW.rejection_reason := NULL;
+  NEW.assessment_score := NULL;
+  NEW.assessment_completed_at := NULL;
+  NEW.viewed_at := NULL;
+  NEW.interview_scheduled_at := NULL;
+  NEW.decision_made_at := NULL;
+  NEW.submitted_at := NOW();
+  NEW.created_at := NOW();
+  NEW.updated_at := NOW();
+
+  IF NEW.resume_url IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM documents
+    WHERE id::TEXT = NEW.resume_url AND user_id = NEW.applicant_id
+  ) THEN
+    RAISE EXCEPTION 'The CV must be one of your own documents'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF jsonb_typeof(NEW.screening_answers) = 'array' AND EXISTS (
+    SELECT 1 FROM jsonb_array_elements(NEW.screening_answers) AS a
+    WHERE a ? 'file_url'
+      AND (
+        a->>'file_url' IS NULL
+        OR NOT starts_with(a->>'file_url', NEW.applicant_id::TEXT || '/')
+        OR '..' = ANY (string_to_array(a->>'file_url', '/'))
+      )
+  ) THEN
+    RAISE EXCEPTION 'Screening answer files must be your own uploads'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS sanitize_application_insert ON job_applications_enhanced;
+CREATE TRIGGER sanitize_application_insert
+  BEFORE INSERT ON job_applications_enhanced
+  FOR EACH ROW EXECUTE FUNCTION sanitize_application_insert();
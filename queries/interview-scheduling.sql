@@ -0,0 +1,167 @@
+-- INTERVIEW SCHEDULING
+-- Run after transactional-email.sql in your Supabase SQL Editor
+--
+-- The hiring team proposes interview slots, either one by one or by
+-- publishing an availability window that is split into slots of the
+-- interview's length. The candidate picks one from the link in their email
+-- (/interviews/<booking_token>), which schedules the interview. Interviews
+-- can be rescheduled (new slots, the candidate picks again) or cancelled
+-- by either side.
+--
+--   proposed    slots offered, waiting for the candidate to pick one
+--   scheduled   a slot was picked; starts_at/ends_at are set
+--   cancelled   called off by the hiring team or the candidate
+--   completed   took place
+--
+-- All writes go through the API routes in app/api/interviews with the
+-- service role after checking who is asking, so there are only read
+-- policies here. The scheduled time is copied to
+-- job_applications_enhanced.interview_scheduled_at, which drives the
+-- interview_scheduled notification.
+
+-- ============================================================================
+-- STEP 1: INTERVIEWS
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS interviews (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  application_id UUID NOT NULL REFERENCES job_applications_enhanced(id) ON DELETE CASCADE,
+  company_id UUID NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+  title TEXT NOT NULL,
+  duration_minutes INTEGER NOT NULL CHECK (duration_minutes BETWEEN 10 AND 480),
+  location TEXT,
+  meeting_url TEXT,
+  -- IANA zone the hiring team scheduled in, shown alongside the viewer's own
+  time_zone TEXT NOT NULL DEFAULT 'UTC',
+  -- The candidate's browser zone when they picked a slot, for their emails
+  candidate_time_zone TEXT,
+  status TEXT NOT NULL DEFAULT 'proposed'
+    CHECK (status IN ('proposed', 'scheduled', 'cancelled', 'completed')),
+  starts_at TIMESTAMPTZ,
+  ends_at TIMESTAMPTZ,
+  -- Lets the candidate pick a slot from their email
+  booking_token UUID NOT NULL DEFAULT gen_random_uuid() UNIQUE,
+  -- Bumped on every reschedule or cancellation so calendars update the event
+  sequence INTEGER NOT NULL DEFAULT 0,
+  cancelled_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  cancel_reason TEXT,
+  reminder_sent_at TIMESTAMPTZ,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  CHECK (status <> 'scheduled' OR (starts_at IS NOT NULL AND ends_at > starts_at))
+);
+
+CREATE INDEX IF NOT EXISTS idx_interviews_application_id ON interviews(application_id);
+CREATE INDEX IF NOT EXISTS idx_interviews_reminders ON interviews(starts_at)
+  WHERE status = 'scheduled' AND reminder_sent_at IS NULL;
+
+-- ============================================================================
+-- STEP 2: SLOTS AND PANEL
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS interview_slots (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  interview_id UUID NOT NULL REFERENCES interviews(id) ON DELETE CASCADE,
+  starts_at TIMESTAMPTZ NOT NULL,
+  ends_at TIMESTAMPTZ NOT NULL CHECK (ends_at > starts_at),
+  UNIQUE (interview_id, starts_at)
+);
+
+-- Interviewers, from the company's members
+CREATE TABLE IF NOT EXISTS interview_panelists (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  interview_id UUID NOT NULL REFERENCES interviews(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (interview_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_interview_panelists_user_id ON interview_panelists(user_id);
+
+-- ============================================================================
+-- STEP 3: WHO CAN SEE AN INTERVIEW
+-- ============================================================================
+-- The candidate, the panel and anyone who can view the company's applications.
+
+CREATE OR REPLACE FUNCTION can_view_interview(interview_uuid UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM interviews i
+    JOIN job_applications_enhanced ja ON ja.id = i.application_id
+    WHERE i.id = interview_uuid
+      AND (
+        ja.applicant_id = auth.uid()
+        OR company_member_has_permission(i.company_id, 'can_view_applications')
+        OR EXISTS (
+          SELECT 1 FROM interview_panelists p
+          WHERE p.interview_id = i.id AND p.user_id = auth.uid()
+        )
+      )
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+ALTER TABLE interviews ENABLE ROW LEVEL SECURITY;
+ALTER TABLE interview_slots ENABLE ROW LEVEL SECURITY;
+ALTER TABLE interview_panelists ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Participants can view interviews" ON interviews;
+CREATE POLICY "Participants can view interviews" ON interviews
+  FOR SELECT USING (can_view_interview(id));
+
+DROP POLICY IF EXISTS "Participants can view interview slots" ON interview_slots;
+CREATE POLICY "Participants can view interview slots" ON interview_slots
+  FOR SELECT USING (can_view_interview(interview_id));
+
+DROP POLICY IF EXISTS "Participants can view interview panels" ON interview_panelists;
+CREATE POLICY "Participants can view interview panels" ON interview_panelists
+  FOR SELECT USING (can_view_interview(interview_id));
+
+-- ============================================================================
+-- STEP 4: KEEP THE APPLICATION'S INTERVIEW TIME IN STEP
+-- ============================================================================
+-- The application shows the next scheduled interview, or none.
+
+CREATE OR REPLACE FUNCTION sync_application_interview_time()
+RETURNS TRIGGER AS $$
+DECLARE
+  job_title TEXT;
+  panelist UUID;
+BEGIN
+  UPDATE job_applications_enhanced
+  SET interview_scheduled_at = (
+    SELECT MIN(starts_at) FROM interviews
+    WHERE application_id = NEW.application_id
+      AND status = 'scheduled'
+      AND starts_at > NOW()
+  )
+  WHERE id = NEW.application_id;
+
+  IF NEW.status = 'scheduled'
+    AND (OLD.status IS DISTINCT FROM 'scheduled' OR NEW.starts_at IS DISTINCT FROM OLD.starts_at)
+  THEN
+    SELECT jo.title INTO job_title
+    FROM job_applications_enhanced ja
+    JOIN job_openings_enhanced jo ON jo.id = ja.job_opening_id
+    WHERE ja.id = NEW.application_id;
+
+    FOR panelist IN SELECT user_id FROM interview_panelists WHERE interview_id = NEW.id LOOP
+      PERFORM notify_user(
+        panelist,
+        'interview_scheduled',
+        'Interview booked: ' || COALESCE(job_title, NEW.title),
+        'The candidate picked ' || TO_CHAR(NEW.starts_at AT TIME ZONE NEW.time_zone, 'FMDay DD Mon YYYY "at" HH24:MI') || ' (' || NEW.time_zone || ').',
+        NEW.application_id,
+        '/protected/employer/applications/' || NEW.application_id
+      );
+    END LOOP;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS trigger_sync_application_interview_time ON interviews;
+CREATE TRIGGER trigger_sync_application_interview_time
+  AFTER INSERT OR UPDATE OF status, starts_at ON interviews
+  FOR EACH ROW EXECUTE FUNCTION sync_application_interview_time();
@@ -0,0 +1,135 @@
+-- INTERVIEW SCORECARDS
+-- Run after interview-scheduling.sql in your Supabase SQL Editor
+--
+-- Each job can have a scorecard template: the competencies interviewers
+-- rate and the rating scale. Every interviewer fills in their own scorecard
+-- for an application, rating each competency and recommending whether to
+-- hire. A scorecard stays a draft, visible only to its author, until it is
+-- submitted; interviewers on the panel only see the others' scorecards once
+-- they have submitted their own, so earlier feedback cannot sway them.
+--
+-- Every scorecard write goes through the API route in
+-- app/api/applications/[id]/scorecards, with the service role. The panel's
+-- ratings are worked out in the browser from the scorecards the viewer may
+-- read (summariseScorecards in lib/interviews/scorecards.ts). They are not
+-- stored on the application, which every company member can read.
+
+-- ============================================================================
+-- STEP 1: SCORECARD TEMPLATES
+-- ============================================================================
+
+-- competencies: [{ id, name, description, category, weight }] where category
+-- is 'technical', 'communication' or 'general'
+CREATE TABLE IF NOT EXISTS scorecard_templates (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  job_opening_id UUID NOT NULL UNIQUE REFERENCES job_openings_enhanced(id) ON DELETE CASCADE,
+  rating_scale INTEGER NOT NULL DEFAULT 5 CHECK (rating_scale BETWEEN 3 AND 10),
+  competencies JSONB NOT NULL DEFAULT '[]',
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE scorecard_templates ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Hiring team can view scorecard templates" ON scorecard_templates;
+CREATE POLICY "Hiring team can view scorecard templates" ON scorecard_templates FOR SELECT USING (
+  job_opening_id IN (
+    SELECT jo.id FROM job_openings_enhanced jo
+    WHERE company_member_has_permission(jo.company_id, 'can_view_applications')
+  )
+);
+
+DROP POLICY IF EXISTS "Hiring team can manage scorecard templates" ON scorecard_templates;
+CREATE POLICY "Hiring team can manage scorecard templates" ON scorecard_templates FOR ALL USING (
+  job_opening_id IN (
+    SELECT jo.id FROM job_openings_enhanced jo
+    WHERE company_member_has_permission(jo.company_id, 'can_manage_applications')
+  )
+);
+
+-- ============================================================================
+-- STEP 2: SCORECARDS
+-- ============================================================================
+
+-- ratings: [{ competency_id, name, category, weight, score, note }], copied
+-- from the template when saved so later template edits leave it intact
+CREATE TABLE IF NOT EXISTS interview_scorecards (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  application_id UUID NOT NULL REFERENCES job_applications_enhanced(id) ON DELETE CASCADE,
+  interview_id UUID REFERENCES interviews(id) ON DELETE SET NULL,
+  interviewer_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  rating_scale INTEGER NOT NULL CHECK (rating_scale BETWEEN 3 AND 10),
+  ratings JSONB NOT NULL DEFAULT '[]',
+  recommendation TEXT CHECK (recommendation IN ('strong_no', 'no', 'yes', 'strong_yes')),
+  summary TEXT,
+  status TEXT NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'submitted')),
+  submitted_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (application_id, interviewer_id),
+  CHECK (status = 'draft' OR (recommendation IS NOT NULL AND submitted_at IS NOT NULL))
+);
+
+CREATE INDEX IF NOT EXISTS idx_interview_scorecards_interviewer_id ON interview_scorecards(interviewer_id);
+
+-- ============================================================================
+-- STEP 3: WHO CAN SEE A SCORECARD
+-- ============================================================================
+
+-- Authors always see their own. Others' submitted scorecards are shown to the
+-- hiring team and to panelists, but not to anyone who was on the
+-- application's panel or started a scorecard and has yet to submit theirs.
+CREATE OR REPLACE FUNCTION can_view_application_scorecards(application_uuid UUID)
+RETURNS BOOLEAN AS $$
+  SELECT
+    NOT EXISTS (
+      SELECT 1 FROM interview_scorecards s
+      WHERE s.application_id = application_uuid
+        AND s.interviewer_id = auth.uid()
+        AND s.status = 'draft'
+    )
+    AND (
+      EXISTS (
+        SELECT 1 FROM interview_scorecards s
+        WHERE s.application_id = application_uuid
+          AND s.interviewer_id = auth.uid()
+          AND s.status = 'submitted'
+      )
+      OR (
+        NOT EXISTS (
+          SELECT 1 FROM interviews i
+          JOIN interview_panelists p ON p.interview_id = i.id
+          WHERE i.application_id = application_uuid
+            AND i.status IN ('scheduled', 'completed')
+            AND p.user_id = auth.uid()
+        )
+        AND EXISTS (
+          SELECT 1 FROM job_applications_enhanced ja
+          JOIN job_openings_enhanced jo ON jo.id = ja.job_opening_id
+          WHERE ja.id = application_uuid
+            AND company_member_has_permission(jo.company_id, 'can_view_applications')
+        )
+      )
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+ALTER TABLE interview_scorecards ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Interviewers can view their own scorecards" ON interview_scorecards;
+CREATE POLICY "Interviewers can view their own scorecards" ON interview_scorecards
+  FOR SELECT USING (interviewer_id = auth.uid());
+
+DROP POLICY IF EXISTS "Reviewers can view submitted scorecards" ON interview_scorecards;
+CREATE POLICY "Reviewers can view submitted scorecards" ON interview_scorecards
+  FOR SELECT USING (status = 'submitted' AND can_view_application_scorecards(application_id));
+
+-- ============================================================================
+-- STEP 4: NO RATINGS ON THE APPLICATION
+-- ============================================================================
+
+-- Earlier versions of the API copied the panel's ratings onto the
+-- application; clear them so they cannot be read around the policy above
+UPDATE job_applications_enhanced ja
+SET overall_rating = NULL, technical_rating = NULL, communication_rating = NULL
+WHERE EXISTS (SELECT 1 FROM interview_scorecards s WHERE s.application_id = ja.id);
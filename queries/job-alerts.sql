@@ -0,0 +1,69 @@
+-- SAVED SEARCHES AND JOB ALERT DIGESTS
+-- Run after public-job-board.sql in your Supabase SQL Editor
+--
+-- Candidates save job board searches and choose how often to hear about
+-- new matches. A scheduled job (/api/cron/job-alerts) checks the searches
+-- that are due and queues one digest email per candidate in email_outbox,
+-- then sends what is queued.
+
+-- ============================================================================
+-- STEP 1: SAVED SEARCHES
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS saved_searches (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  -- The board's filters: q, employment_type, work_arrangement, seniority_level,
+  -- location, salary_min, salary_max, currency
+  query JSONB NOT NULL,
+  frequency TEXT NOT NULL DEFAULT 'daily' CHECK (frequency IN ('daily', 'weekly')),
+  alerts_enabled BOOLEAN NOT NULL DEFAULT true,
+  last_checked_at TIMESTAMPTZ,
+  -- Lets email links turn the alert off without signing in
+  unsubscribe_token UUID NOT NULL DEFAULT gen_random_uuid() UNIQUE,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_saved_searches_user_id ON saved_searches(user_id);
+CREATE INDEX IF NOT EXISTS idx_saved_searches_alerts ON saved_searches(last_checked_at)
+  WHERE alerts_enabled;
+
+-- ============================================================================
+-- STEP 2: EMAIL OUTBOX
+-- ============================================================================
+-- Written and read only by the scheduled job with the service role, so RLS
+-- is on with no policies.
+
+CREATE TABLE IF NOT EXISTS email_outbox (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  category TEXT NOT NULL,
+  to_email TEXT NOT NULL,
+  subject TEXT NOT NULL,
+  text_body TEXT NOT NULL,
+  html_body TEXT,
+  headers JSONB NOT NULL DEFAULT '{}',
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'sent', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  last_error TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  sent_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_email_outbox_pending ON email_outbox(created_at)
+  WHERE status = 'pending';
+
+ALTER TABLE email_outbox ENABLE ROW LEVEL SECURITY;
+
+-- ============================================================================
+-- STEP 3: CANDIDATES MANAGE THEIR OWN SEARCHES
+-- ============================================================================
+
+ALTER TABLE saved_searches ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can manage their own saved searches" ON saved_searches;
+CREATE POLICY "Users can manage their own saved searches" ON saved_searches FOR ALL
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
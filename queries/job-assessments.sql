@@ -0,0 +1,62 @@
+-- JOB-SPECIFIC ASSESSMENTS
+-- Run after screening-knockouts.sql in your Supabase SQL Editor
+--
+-- A job opening points at the skill assessment candidates take while applying
+-- (job_openings_enhanced.assessment_id, used when requires_assessment is set).
+-- Candidates record their attempt in assessment_attempts and link it to the
+-- application once it is submitted.
+
+-- ============================================================================
+-- STEP 1: ATTACH ASSESSMENTS TO JOBS
+-- ============================================================================
+
+ALTER TABLE job_openings_enhanced
+  ADD COLUMN IF NOT EXISTS assessment_id UUID REFERENCES skill_assessments(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_job_openings_enhanced_assessment_id ON job_openings_enhanced(assessment_id);
+CREATE INDEX IF NOT EXISTS idx_assessment_attempts_job_application_id ON assessment_attempts(job_application_id);
+
+-- ============================================================================
+-- STEP 2: ASSESSMENT ACCESS
+-- ============================================================================
+
+DROP POLICY IF EXISTS "Applicants can view assessments of open jobs" ON skill_assessments;
+CREATE POLICY "Applicants can view assessments of open jobs" ON skill_assessments FOR SELECT USING (
+  id IN (
+    SELECT assessment_id FROM job_openings_enhanced
+    WHERE status = 'active' AND assessment_id IS NOT NULL
+  )
+);
+
+DROP POLICY IF EXISTS "Company members can view company assessments" ON skill_assessments;
+CREATE POLICY "Company members can view company assessments" ON skill_assessments FOR SELECT USING (
+  company_id IN (
+    SELECT company_id FROM company_members
+    WHERE user_id = auth.uid() AND status = 'active'
+  )
+);
+
+-- ============================================================================
+-- STEP 3: ATTEMPTS
+-- ============================================================================
+
+DROP POLICY IF EXISTS "Users can start own attempts" ON assessment_attempts;
+CREATE POLICY "Users can start own attempts" ON assessment_attempts FOR INSERT
+  WITH CHECK (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Users can update own attempts" ON assessment_attempts;
+CREATE POLICY "Users can update own attempts" ON assessment_attempts FOR UPDATE
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Hiring team can view application attempts" ON assessment_attempts;
+CREATE POLICY "Hiring team can view application attempts" ON assessment_attempts FOR SELECT USING (
+  job_application_id IN (
+    SELECT ja.id FROM job_applications_enhanced ja
+    JOIN job_openings_enhanced jo ON jo.id = ja.job_opening_id
+    JOIN company_members cm ON cm.company_id = jo.company_id
+    WHERE cm.user_id = auth.uid()
+      AND cm.status = 'active'
+      AND cm.role IN ('owner', 'admin', 'hr_manager', 'recruiter')
+  )
+);
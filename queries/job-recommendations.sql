@@ -0,0 +1,32 @@
+-- PERSONALISED JOB RECOMMENDATIONS
+-- Run after match-scoring.sql in your Supabase SQL Editor
+--
+-- The employee dashboard ranks open jobs against the candidate's skills and
+-- work preferences. Saving or dismissing a job is recorded here so later
+-- recommendations favour similar jobs, or show fewer of them.
+
+-- ============================================================================
+-- STEP 1: SAVED AND DISMISSED JOBS
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS job_feedback (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  job_opening_id UUID NOT NULL REFERENCES job_openings_enhanced(id) ON DELETE CASCADE,
+  feedback TEXT NOT NULL CHECK (feedback IN ('saved', 'dismissed')),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (user_id, job_opening_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_job_feedback_user_id ON job_feedback(user_id);
+
+-- ============================================================================
+-- STEP 2: CANDIDATES MANAGE THEIR OWN FEEDBACK
+-- ============================================================================
+
+ALTER TABLE job_feedback ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can manage their own job feedback" ON job_feedback;
+CREATE POLICY "Users can manage their own job feedback" ON job_feedback FOR ALL
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
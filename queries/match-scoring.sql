@@ -0,0 +1,67 @@
+-- CANDIDATE MATCH SCORING
+-- Run after assessment-integrity.sql in your Supabase SQL Editor
+--
+-- Applications are scored in the employer dashboard against the job's
+-- role_criteria (weighted skills), falling back to the posting's required and
+-- preferred skills. The score uses the applicant's profile and the analysis
+-- of the CV they applied with, so the hiring team needs to read both.
+
+-- ============================================================================
+-- STEP 1: ROLE CRITERIA FOR ENHANCED JOB OPENINGS
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS role_criteria (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  job_opening_id UUID NOT NULL,
+  skill_name TEXT NOT NULL,
+  skill_level TEXT CHECK (skill_level IN ('beginner', 'intermediate', 'advanced', 'expert')),
+  is_required BOOLEAN DEFAULT true,
+  weight DECIMAL(3,2) DEFAULT 1.0,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- The base schema pointed role_criteria at the old job_openings table.
+-- NOT VALID keeps any rows for old jobs while checking new ones.
+ALTER TABLE role_criteria DROP CONSTRAINT IF EXISTS role_criteria_job_opening_id_fkey;
+ALTER TABLE role_criteria ADD CONSTRAINT role_criteria_job_opening_id_fkey
+  FOREIGN KEY (job_opening_id) REFERENCES job_openings_enhanced(id) ON DELETE CASCADE NOT VALID;
+
+ALTER TABLE role_criteria DROP CONSTRAINT IF EXISTS role_criteria_weight_check;
+ALTER TABLE role_criteria ADD CONSTRAINT role_criteria_weight_check CHECK (weight > 0);
+
+CREATE INDEX IF NOT EXISTS idx_role_criteria_job_opening_id
+  ON role_criteria(job_opening_id);
+
+-- ============================================================================
+-- STEP 2: HIRING TEAM MANAGES ROLE CRITERIA
+-- ============================================================================
+
+ALTER TABLE role_criteria ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Hiring team can manage role criteria" ON role_criteria;
+CREATE POLICY "Hiring team can manage role criteria" ON role_criteria FOR ALL USING (
+  job_opening_id IN (
+    SELECT jo.id FROM job_openings_enhanced jo
+    JOIN company_members cm ON jo.company_id = cm.company_id
+    WHERE cm.user_id = auth.uid()
+    AND cm.status = 'active'
+    AND cm.role IN ('owner', 'admin', 'hr_manager', 'recruiter')
+  )
+);
+
+-- ============================================================================
+-- STEP 3: HIRING TEAM CAN READ CVS ATTACHED TO APPLICATIONS
+-- ============================================================================
+
+-- The apply flow stores the uploaded CV's document ID in resume_url
+DROP POLICY IF EXISTS "Hiring team can view application CVs" ON documents;
+CREATE POLICY "Hiring team can view application CVs" ON documents FOR SELECT USING (
+  id::text IN (
+    SELECT ja.resume_url FROM job_applications_enhanced ja
+    JOIN job_openings_enhanced jo ON ja.job_opening_id = jo.id
+    JOIN company_members cm ON jo.company_id = cm.company_id
+    WHERE cm.user_id = auth.uid()
+    AND cm.status = 'active'
+    AND cm.role IN ('owner', 'admin', 'hr_manager', 'recruiter')
+  )
+);
@@ -0,0 +1,242 @@
+-- IN-APP NOTIFICATIONS
+-- Run after job-alerts.sql in your Supabase SQL Editor
+--
+-- The header bell and /protected/notifications read the notifications table
+-- (first defined in setup-uwezo-schema.sql) and listen for new rows over
+-- Supabase Realtime. Notifications are written by the triggers below, so an
+-- event is recorded however the row was changed, including inserts made
+-- from the browser such as a candidate applying.
+--
+-- Types (NotificationType in lib/types/enhanced-database.ts):
+--   application_received         hiring team, when a candidate applies
+--   application_status_changed   applicant, when the hiring team moves them
+--   interview_scheduled          applicant, when an interview time is set
+--   contract_awaiting_signature  each party that still has to sign
+--   member_invited               the user invited to a company
+
+-- ============================================================================
+-- STEP 1: NOTIFICATIONS TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS notifications (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  type TEXT NOT NULL,
+  title TEXT NOT NULL,
+  message TEXT,
+  related_id UUID,
+  is_read BOOLEAN DEFAULT false,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Where clicking the notification goes
+ALTER TABLE notifications ADD COLUMN IF NOT EXISTS link TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_notifications_user_id ON notifications(user_id);
+CREATE INDEX IF NOT EXISTS idx_notifications_unread ON notifications(user_id, created_at DESC)
+  WHERE NOT is_read;
+
+-- ============================================================================
+-- STEP 2: USERS MANAGE THEIR OWN NOTIFICATIONS
+-- ============================================================================
+
+ALTER TABLE notifications ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can only see their own notifications" ON notifications;
+DROP POLICY IF EXISTS "Users can manage their own notifications" ON notifications;
+CREATE POLICY "Users can manage their own notifications" ON notifications FOR ALL
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+-- ============================================================================
+-- STEP 3: REALTIME
+-- ============================================================================
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'notifications'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE notifications;
+  END IF;
+END $$;
+
+-- ============================================================================
+-- STEP 4: PRODUCERS
+-- ============================================================================
+-- The trigger functions run as the table owner: the user causing an event
+-- may not read the profile, job or company details the message needs, and
+-- may not write notifications for anyone else.
+
+CREATE OR REPLACE FUNCTION notify_user(
+  recipient UUID, notification_type TEXT, notification_title TEXT,
+  notification_message TEXT, notification_related_id UUID, notification_link TEXT
+)
+RETURNS VOID AS $$
+BEGIN
+  -- Nobody is notified of their own actions
+  IF recipient IS NULL OR recipient IS NOT DISTINCT FROM auth.uid() THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO notifications (user_id, type, title, message, related_id, link)
+  VALUES (recipient, notification_type, notification_title, notification_message, notification_related_id, notification_link);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION notify_user(UUID, TEXT, TEXT, TEXT, UUID, TEXT) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION notify_application_events()
+RETURNS TRIGGER AS $$
+DECLARE
+  job_title TEXT;
+  company UUID;
+  applicant_name TEXT;
+  member RECORD;
+BEGIN
+  SELECT jo.title, jo.company_id INTO job_title, company
+  FROM job_openings_enhanced jo
+  WHERE jo.id = NEW.job_opening_id;
+
+  IF TG_OP = 'INSERT' THEN
+    -- Knocked-out applications never reach the hiring team's inbox
+    IF NEW.status = 'rejected' THEN
+      RETURN NEW;
+    END IF;
+
+    SELECT COALESCE(NULLIF(TRIM(CONCAT_WS(' ', p.first_name, p.last_name)), ''), p.display_name, 'A candidate')
+    INTO applicant_name
+    FROM user_profiles_enhanced p
+    WHERE p.user_id = NEW.applicant_id;
+
+    FOR member IN
+      SELECT cm.user_id FROM company_members cm
+      WHERE cm.company_id = company
+        AND cm.status = 'active'
+        AND cm.role IN ('owner', 'admin', 'hr_manager', 'recruiter')
+    LOOP
+      PERFORM notify_user(
+        member.user_id,
+        'application_received',
+        'New application for ' || COALESCE(job_title, 'your job'),
+        COALESCE(applicant_name, 'A candidate') || ' applied.',
+        NEW.id,
+        '/protected/employer/applications/' || NEW.id
+      );
+    END LOOP;
+
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    PERFORM notify_user(
+      NEW.applicant_id,
+      'application_status_changed',
+      'Update on your application for ' || COALESCE(job_title, 'a job'),
+      CASE NEW.status
+        WHEN 'rejected' THEN 'The hiring team has decided not to move forward with your application.'
+        WHEN 'hired' THEN 'Congratulations, you have been hired!'
+        ELSE 'Your application moved to ' || INITCAP(REPLACE(NEW.status, '_', ' ')) || '.'
+      END,
+      NEW.id,
+      '/protected/employee'
+    );
+  END IF;
+
+  IF NEW.interview_scheduled_at IS NOT NULL
+    AND NEW.interview_scheduled_at IS DISTINCT FROM OLD.interview_scheduled_at
+  THEN
+    PERFORM notify_user(
+      NEW.applicant_id,
+      'interview_scheduled',
+      'Interview scheduled for ' || COALESCE(job_title, 'your application'),
+      'Your interview is on ' || TO_CHAR(NEW.interview_scheduled_at AT TIME ZONE 'UTC', 'FMDay DD Mon YYYY "at" HH24:MI "UTC"') || '.',
+      NEW.id,
+      '/protected/employee'
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS trigger_notify_application_events ON job_applications_enhanced;
+CREATE TRIGGER trigger_notify_application_events
+  AFTER INSERT OR UPDATE OF status, interview_scheduled_at ON job_applications_enhanced
+  FOR EACH ROW EXECUTE FUNCTION notify_application_events();
+
+CREATE OR REPLACE FUNCTION notify_contract_signature()
+RETURNS TRIGGER AS $$
+DECLARE
+  contract_title TEXT;
+BEGIN
+  SELECT pp.title INTO contract_title
+  FROM project_proposals pp
+  WHERE pp.id = NEW.proposal_id;
+
+  -- On creation both unsigned parties are asked; afterwards, whoever is left
+  -- once the other signs
+  IF NEW.contractor_signed_at IS NULL
+    AND (TG_OP = 'INSERT' OR (OLD.client_signed_at IS NULL AND NEW.client_signed_at IS NOT NULL))
+  THEN
+    PERFORM notify_user(
+      NEW.contractor_id,
+      'contract_awaiting_signature',
+      'Contract awaiting your signature',
+      COALESCE(contract_title, 'A contract') || ' is ready for you to sign.',
+      NEW.id,
+      '/protected'
+    );
+  END IF;
+
+  IF NEW.client_signed_at IS NULL
+    AND (TG_OP = 'INSERT' OR (OLD.contractor_signed_at IS NULL AND NEW.contractor_signed_at IS NOT NULL))
+  THEN
+    PERFORM notify_user(
+      NEW.client_id,
+      'contract_awaiting_signature',
+      'Contract awaiting your signature',
+      COALESCE(contract_title, 'A contract') || ' is ready for you to sign.',
+      NEW.id,
+      '/protected'
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS trigger_notify_contract_signature ON client_contracts;
+CREATE TRIGGER trigger_notify_contract_signature
+  AFTER INSERT OR UPDATE OF contractor_signed_at, client_signed_at ON client_contracts
+  FOR EACH ROW EXECUTE FUNCTION notify_contract_signature();
+
+CREATE OR REPLACE FUNCTION notify_member_invited()
+RETURNS TRIGGER AS $$
+DECLARE
+  company_name TEXT;
+BEGIN
+  IF NEW.status <> 'pending' OR (TG_OP = 'UPDATE' AND OLD.status = 'pending') THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT c.name INTO company_name FROM companies c WHERE c.id = NEW.company_id;
+
+  PERFORM notify_user(
+    NEW.user_id,
+    'member_invited',
+    'You have been invited to join ' || COALESCE(company_name, 'a company'),
+    'You were invited as ' || INITCAP(REPLACE(NEW.role, '_', ' ')) || '.',
+    NEW.company_id,
+    '/protected/employer'
+  );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS trigger_notify_member_invited ON company_members;
+CREATE TRIGGER trigger_notify_member_invited
+  AFTER INSERT OR UPDATE OF status ON company_members
+  FOR EACH ROW EXECUTE FUNCTION notify_member_invited();
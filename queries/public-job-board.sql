@@ -0,0 +1,42 @@
+-- PUBLIC JOB BOARD
+-- Run after job-recommendations.sql in your Supabase SQL Editor
+--
+-- /jobs lists active public postings with full-text search and facets, and
+-- each posting has a page at /jobs/<slug>. Publishing a posting gives it a
+-- slug; this backfills postings published before that.
+
+-- ============================================================================
+-- STEP 1: FULL-TEXT SEARCH
+-- ============================================================================
+
+-- Title matches rank above skills, which rank above the body text
+ALTER TABLE job_openings_enhanced
+  ADD COLUMN IF NOT EXISTS search_vector TSVECTOR GENERATED ALWAYS AS (
+    setweight(to_tsvector('english', coalesce(title, '')), 'A') ||
+    setweight(to_tsvector('english', coalesce(required_skills::text, '') || ' ' || coalesce(preferred_skills::text, '')), 'B') ||
+    setweight(to_tsvector('english', coalesce(location, '')), 'B') ||
+    setweight(to_tsvector('english',
+      coalesce(description, '') || ' ' || coalesce(responsibilities, '') || ' ' || coalesce(requirements, '')
+    ), 'C')
+  ) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_job_openings_enhanced_search
+  ON job_openings_enhanced USING GIN(search_vector);
+
+-- The board's base filter
+CREATE INDEX IF NOT EXISTS idx_job_openings_enhanced_public_board
+  ON job_openings_enhanced(is_featured DESC, published_at DESC)
+  WHERE status = 'active' AND visibility = 'public';
+
+-- ============================================================================
+-- STEP 2: SLUGS FOR POSTINGS PUBLISHED BEFORE THE BOARD
+-- ============================================================================
+
+-- Same shape as createJobSlug in lib/jobs/format.ts
+UPDATE job_openings_enhanced
+SET slug = coalesce(
+    nullif(trim(both '-' from left(regexp_replace(lower(title), '[^a-z0-9]+', '-', 'g'), 60)), ''),
+    'job'
+  ) || '-' || left(id::text, 8)
+WHERE slug IS NULL
+AND status <> 'draft';
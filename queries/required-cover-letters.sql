@@ -0,0 +1,30 @@
+-- REQUIRED COVER LETTERS
+-- Run after signed-contract-pdfs.sql in your Supabase SQL Editor
+--
+-- Employers can ask for a cover letter (job_openings_enhanced.requires_cover_letter).
+-- Applicants insert their own applications, so the apply page asking for one
+-- is not enough: applications without it are refused here.
+
+-- ============================================================================
+-- STEP 1: REFUSE APPLICATIONS WITHOUT A REQUIRED COVER LETTER
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION require_application_cover_letter()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF COALESCE(TRIM(NEW.cover_letter), '') = '' AND EXISTS (
+    SELECT 1 FROM job_openings_enhanced
+    WHERE id = NEW.job_opening_id AND requires_cover_letter
+  ) THEN
+    RAISE EXCEPTION 'A cover letter is required for this job'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS trigger_require_application_cover_letter ON job_applications_enhanced;
+CREATE TRIGGER trigger_require_application_cover_letter
+  BEFORE INSERT ON job_applications_enhanced
+  FOR EACH ROW EXECUTE FUNCTION require_application_cover_letter();
@@ -0,0 +1,89 @@
+-- SCREENING QUESTION KNOCK-OUTS
+-- Run after application-state-machine.sql in your Supabase SQL Editor
+--
+-- Jobs store their screening questions in job_openings_enhanced.screening_questions
+-- (see ScreeningQuestion in lib/types/enhanced-database.ts). A question may carry a
+-- knock-out rule:
+--   { "accepted_answers": [true] }        yes_no / multiple_choice
+--   { "min_rating": 3 }                   rating
+-- When an application is inserted with answers that break a rule, it is created
+-- as 'rejected' with the failed question as the reason. Applicants insert their own
+-- applications, so the rule has to be applied here rather than in the browser.
+
+-- ============================================================================
+-- STEP 1: ANSWERS ARE STORED AS A LIST
+-- ============================================================================
+
+ALTER TABLE job_applications_enhanced ALTER COLUMN screening_answers SET DEFAULT '[]';
+
+UPDATE job_applications_enhanced
+SET screening_answers = '[]'
+WHERE jsonb_typeof(screening_answers) <> 'array';
+
+-- ============================================================================
+-- STEP 2: KNOCK-OUT EVALUATION ON INSERT
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION apply_screening_knockouts()
+RETURNS TRIGGER AS $$
+DECLARE
+  question JSONB;
+  rule JSONB;
+  answer JSONB;
+  failed_question TEXT;
+BEGIN
+  -- Every application starts as 'submitted'; only a knock-out below may change that
+  NEW.status := 'submitted';
+  NEW.rejection_reason := NULL;
+  NEW.decision_made_at := NULL;
+
+  IF NEW.screening_answers IS NULL OR jsonb_typeof(NEW.screening_answers) <> 'array' THEN
+    NEW.screening_answers := '[]';
+  END IF;
+
+  FOR question IN
+    SELECT q
+    FROM job_openings_enhanced jo,
+         jsonb_array_elements(COALESCE(jo.screening_questions, '[]')) AS q
+    WHERE jo.id = NEW.job_opening_id
+      AND q ? 'knockout'
+  LOOP
+    rule := question->'knockout';
+
+    SELECT a->'answer' INTO answer
+    FROM jsonb_array_elements(NEW.screening_answers) AS a
+    WHERE a->>'question_id' = question->>'id'
+    LIMIT 1;
+
+    IF answer IS NULL
+      OR (rule ? 'accepted_answers' AND NOT (rule->'accepted_answers' @> jsonb_build_array(answer)))
+      OR (rule ? 'min_rating' AND (
+        jsonb_typeof(answer) <> 'number' OR answer::TEXT::NUMERIC < (rule->>'min_rating')::NUMERIC
+      ))
+    THEN
+      failed_question := question->>'question';
+      EXIT;
+    END IF;
+  END LOOP;
+
+  IF failed_question IS NOT NULL THEN
+    NEW.status := 'rejected';
+    NEW.rejection_reason := 'Screening knock-out: ' || failed_question;
+    NEW.decision_made_at := NOW();
+    NEW.stage_history := jsonb_build_array(jsonb_build_object(
+      'stage', 'rejected',
+      'previous_stage', 'submitted',
+      'timestamp', NOW(),
+      'changed_by', 'system',
+      'notes', NEW.rejection_reason
+    ));
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS trigger_apply_screening_knockouts ON job_applications_enhanced;
+CREATE TRIGGER trigger_apply_screening_knockouts
+  BEFORE INSERT ON job_applications_enhanced
+  FOR EACH ROW EXECUTE FUNCTION apply_screening_knockouts();
@@ -0,0 +1,51 @@
+-- SIGNATURE ASSETS
+-- Run after contract-countersignatures.sql in your Supabase SQL Editor
+--
+-- People sign contracts by drawing their signature, typing their name in a
+-- script font or uploading a picture of their signature. Each is captured
+-- in the browser as a small JPEG, and a person can keep the ones they like
+-- in signature_assets to sign with again.
+--
+-- When a contract is signed the image is copied into the contract's
+-- employee_signature_data or employer_signature_data (as `image`, with the
+-- `method` used), so deleting a saved signature never changes a signed
+-- contract.
+
+-- ============================================================================
+-- STEP 1: SAVED SIGNATURES
+-- ============================================================================
+
+-- The image is a data URL rather than a Storage object: signatures are a
+-- few kilobytes and are always needed together with the row
+CREATE TABLE IF NOT EXISTS signature_assets (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  method TEXT NOT NULL CHECK (method IN ('drawn', 'typed', 'uploaded')),
+  image_data TEXT NOT NULL CHECK (
+    image_data LIKE 'data:image/jpeg;base64,%' AND length(image_data) <= 200000
+  ),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  last_used_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_signature_assets_user_id ON signature_assets(user_id);
+
+-- ============================================================================
+-- STEP 2: ACCESS
+-- ============================================================================
+
+-- Saved signatures are private to their owner. They are never edited, only
+-- added and removed; last_used_at is set by the signing API.
+ALTER TABLE signature_assets ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their own signatures" ON signature_assets;
+CREATE POLICY "Users can view their own signatures" ON signature_assets
+  FOR SELECT USING (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Users can add their own signatures" ON signature_assets;
+CREATE POLICY "Users can add their own signatures" ON signature_assets
+  FOR INSERT WITH CHECK (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Users can delete their own signatures" ON signature_assets;
+CREATE POLICY "Users can delete their own signatures" ON signature_assets
+  FOR DELETE USING (user_id = auth.uid());
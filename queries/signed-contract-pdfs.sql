@@ -0,0 +1,54 @@
+-- SIGNED CONTRACT PDFS
+-- Run after signature-assets.sql in your Supabase SQL Editor
+--
+-- Signed contract PDFs are written by the app with the service role to
+-- contracts/<contract id>.pdf in the private documents bucket. Users upload
+-- their own files to <user id>/... in the same bucket, so nothing stops a
+-- broad storage policy from letting them write under contracts/ too; the
+-- restrictive policies below rule that out whatever else is allowed.
+--
+-- The PDF's SHA-256 is kept next to its path, and the download API checks
+-- the stored file against it before serving it.
+
+-- ============================================================================
+-- STEP 1: PDF HASH
+-- ============================================================================
+
+ALTER TABLE contract_signatures
+  ADD COLUMN IF NOT EXISTS signed_document_hash TEXT CHECK (signed_document_hash ~ '^[0-9a-f]{64}$');
+
+-- PDFs stored before this script sit in the candidate's own folder, where
+-- they could have been replaced. Forget them (and the documents entries
+-- that point at them) so the app renders them again under contracts/.
+DELETE FROM documents
+USING contract_signatures
+WHERE documents.file_path = contract_signatures.signed_document_url
+  AND contract_signatures.signed_document_hash IS NULL;
+
+UPDATE contract_signatures
+SET signed_document_url = NULL
+WHERE signed_document_url IS NOT NULL
+  AND signed_document_hash IS NULL;
+
+-- ============================================================================
+-- STEP 2: ONLY THE SERVICE ROLE WRITES UNDER contracts/
+-- ============================================================================
+
+-- Restrictive policies are combined with AND, so these hold even if another
+-- policy lets users write anywhere in the bucket. The service role bypasses
+-- RLS and is unaffected.
+DROP POLICY IF EXISTS "Users cannot add signed contract PDFs" ON storage.objects;
+CREATE POLICY "Users cannot add signed contract PDFs" ON storage.objects
+  AS RESTRICTIVE FOR INSERT
+  WITH CHECK (NOT (bucket_id = 'documents' AND (storage.foldername(name))[1] = 'contracts'));
+
+DROP POLICY IF EXISTS "Users cannot change signed contract PDFs" ON storage.objects;
+CREATE POLICY "Users cannot change signed contract PDFs" ON storage.objects
+  AS RESTRICTIVE FOR UPDATE
+  USING (NOT (bucket_id = 'documents' AND (storage.foldername(name))[1] = 'contracts'))
+  WITH CHECK (NOT (bucket_id = 'documents' AND (storage.foldername(name))[1] = 'contracts'));
+
+DROP POLICY IF EXISTS "Users cannot delete signed contract PDFs" ON storage.objects;
+CREATE POLICY "Users cannot delete signed contract PDFs" ON storage.objects
+  AS RESTRICTIVE FOR DELETE
+  USING (NOT (bucket_id = 'documents' AND (storage.foldername(name))[1] = 'contracts'));
@@ -0,0 +1,43 @@
+-- TRANSACTIONAL EMAIL
+-- Run after notifications.sql in your Supabase SQL Editor
+--
+-- Emails about applications, interviews, contracts and team invites are
+-- rendered from the React templates in lib/email/templates and sent through
+-- the configured transport (lib/email/transport.ts). Every send is recorded
+-- in email_outbox, which becomes the email send log:
+--   pending   queued, or waiting to be retried
+--   sent      handed to the transport
+--   failed    gave up after too many attempts
+--   skipped   not sent because the recipient opted out of the category
+--
+-- Opt-outs are read from user_profiles_enhanced.notification_preferences
+-- (see isEmailAllowed in lib/email/preferences.ts).
+
+-- ============================================================================
+-- STEP 1: SEND LOG COLUMNS
+-- ============================================================================
+
+ALTER TABLE email_outbox ADD COLUMN IF NOT EXISTS template TEXT;
+-- What the email was about, such as the application or contract, so the
+-- same event is not emailed twice
+ALTER TABLE email_outbox ADD COLUMN IF NOT EXISTS related_id UUID;
+
+ALTER TABLE email_outbox DROP CONSTRAINT IF EXISTS email_outbox_status_check;
+ALTER TABLE email_outbox ADD CONSTRAINT email_outbox_status_check
+  CHECK (status IN ('pending', 'sent', 'failed', 'skipped'));
+
+-- Categories now match the notification_preferences keys
+UPDATE email_outbox SET category = 'job_alerts' WHERE category = 'job_alert';
+
+CREATE INDEX IF NOT EXISTS idx_email_outbox_user_id ON email_outbox(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_email_outbox_related ON email_outbox(template, related_id)
+  WHERE related_id IS NOT NULL;
+
+-- ============================================================================
+-- STEP 2: USERS CAN SEE EMAILS SENT TO THEM
+-- ============================================================================
+-- Sending still happens only with the service role.
+
+DROP POLICY IF EXISTS "Users can view their own emails" ON email_outbox;
+CREATE POLICY "Users can view their own emails" ON email_outbox
+  FOR SELECT USING (user_id = auth.uid());
@@ -0,0 +1,32 @@
+// Run the job alert digests once against a running app, e.g. `npm run dev`
+// in one terminal and `npm run job-alerts` in another. Set CRON_SECRET in
+// .env.local; JOB_ALERTS_URL points somewhere other than localhost.
+
+try {
+  process.loadEnvFile('.env.local');
+} catch {
+  // Fall back to the environment as it is
+}
+
+const baseUrl = process.env.JOB_ALERTS_URL || 'http://localhost:3000';
+const secret = process.env.CRON_SECRET;
+
+if (!secret) {
+  console.error('CRON_SECRET is not set. Add it to .env.local.');
+  process.exit(1);
+}
+
+const response = await fetch(new URL('/api/cron/job-alerts', baseUrl), {
+  headers: { authorization: `Bearer ${secret}` },
+  signal: AbortSignal.timeout(5 * 60 * 1000),
+});
+const body = await response.json().catch(() => null);
+
+if (!response.ok) {
+  console.error(`Job alerts failed (${response.status}):`, body?.error ?? 'No response body');
+  process.exit(1);
+}
+
+const { searches_checked, digests_queued, sent, failed } = body.data;
+console.log(`Checked ${searches_checked} saved searches and queued ${digests_queued} digests.`);
+console.log(`Sent ${sent} emails${failed ? `, ${failed} failed and will be retried` : ''}.`);